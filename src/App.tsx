@@ -19,6 +19,7 @@ import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
 import Notifications from "./pages/Notifications";
 import Tasks from "./pages/Tasks";
+import Approvals from "./pages/Approvals";
 import { useState } from "react";
 
 const queryClient = new QueryClient();
@@ -155,6 +156,11 @@ const AppRouter = () => (
           <Tasks />
         </ProtectedRoute>
       } />
+      <Route path="/approvals" element={
+        <ProtectedRoute>
+          <Approvals />
+        </ProtectedRoute>
+      } />
       <Route path="/settings" element={
         <ProtectedRoute>
           <Settings />
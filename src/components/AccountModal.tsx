@@ -5,6 +5,8 @@ import { z } from "zod";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
+import { useQueryClient } from "@tanstack/react-query";
+import { APPROVAL_REQUESTS_QUERY_KEY, getHeldApprovalChange } from "@/hooks/useApprovals";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
@@ -75,6 +77,7 @@ const segments = ["prospect", "customer", "partner", "vendor", "competitor"];
 export const AccountModal = ({ open, onOpenChange, account, onSuccess }: AccountModalProps) => {
   const { toast } = useToast();
   const { logCreate, logUpdate } = useCRUDAudit();
+  const queryClient = useQueryClient();
   const [loading, setLoading] = useState(false);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [availableCountries, setAvailableCountries] = useState<string[]>([]);
@@ -181,21 +184,26 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
       };
 
       if (account) {
-        const { error } = await supabase
+        const { data: savedAccount, error } = await supabase
           .from('accounts')
           .update({
             ...accountData,
             updated_at: new Date().toISOString(),
           })
-          .eq('id', account.id);
+          .eq('id', account.id)
+          .select()
+          .single();
 
         if (error) throw error;
 
         await logUpdate('accounts', account.id, accountData, account);
 
+        const heldStatus = getHeldApprovalChange('accounts', accountData, savedAccount);
         toast({
-          title: "Success",
-          description: "Account updated successfully",
+          title: heldStatus ? "Approval required" : "Success",
+          description: heldStatus
+            ? `Changing the status to ${heldStatus} needs approval. A request has been sent to the approvers.`
+            : "Account updated successfully",
         });
       } else {
         const { data: newAccount, error } = await supabase
@@ -217,6 +225,7 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
         });
       }
 
+      queryClient.invalidateQueries({ queryKey: APPROVAL_REQUESTS_QUERY_KEY });
       onSuccess();
       onOpenChange(false);
     } catch (error) {
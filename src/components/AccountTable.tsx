@@ -3,6 +3,7 @@ import { useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
+import { useCurrencyConversion } from "@/hooks/useCurrencyConversion";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
 import { useColumnPreferences } from "@/hooks/useColumnPreferences";
 import { Card } from "@/components/ui/card";
@@ -24,6 +25,8 @@ import { AccountDetailModal } from "./accounts/AccountDetailModal";
 import { HighlightedText } from "./shared/HighlightedText";
 import { ClearFiltersButton } from "./shared/ClearFiltersButton";
 import { TableSkeleton } from "./shared/Skeletons";
+import { ScoreBreakdownTooltip } from "./shared/ScoreBadge";
+import { ScoreBreakdownItem, parseScoreBreakdown } from "@/hooks/useScoring";
 import { useQuery } from "@tanstack/react-query";
 
 // Export ref interface for parent component
@@ -49,6 +52,7 @@ export interface Account {
   created_by?: string;
   modified_by?: string;
   score?: number;
+  score_breakdown?: ScoreBreakdownItem[];
   segment?: string;
   total_revenue?: number;
   deal_count?: number;
@@ -81,6 +85,9 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
   const {
     logDelete
   } = useCRUDAudit();
+  const {
+    reportingCurrency
+  } = useCurrencyConversion();
   const [searchParams, setSearchParams] = useSearchParams();
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [filteredAccounts, setFilteredAccounts] = useState<Account[]>([]);
@@ -151,6 +158,7 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [emailModalOpen, setEmailModalOpen] = useState(false);
   const [emailRecipient, setEmailRecipient] = useState<EmailRecipient | null>(null);
+  const [emailAccountId, setEmailAccountId] = useState<string | null>(null);
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [viewingAccount, setViewingAccount] = useState<Account | null>(null);
   const [isBulkDeleting, setIsBulkDeleting] = useState(false);
@@ -263,6 +271,7 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
       // Merge actual counts into accounts
       const accountsWithCounts = (accountsData || []).map(account => ({
         ...account,
+        score_breakdown: parseScoreBreakdown(account.score_breakdown),
         contact_count: contactCountMap[account.id] || 0,
       }));
 
@@ -441,11 +450,12 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
     const index = name.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0) % colors.length;
     return colors[index];
   };
+  // total_revenue is rolled up in the company reporting currency
   const formatCurrency = (value?: number): React.ReactNode => {
     if (!value) return <span className="block text-center w-full">-</span>;
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency: reportingCurrency,
       notation: 'compact',
       maximumFractionDigits: 1
     }).format(value);
@@ -558,7 +568,9 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
                             )
                           ) : column.field === 'score' ? (
                             account.score != null ? (
-                              <span className={`font-medium text-center block w-full ${account.score >= 70 ? 'text-green-600 dark:text-green-400' : account.score >= 40 ? 'text-amber-600 dark:text-amber-400' : 'text-muted-foreground'}`}>{account.score}</span>
+                              <ScoreBreakdownTooltip breakdown={account.score_breakdown}>
+                                <span className={`font-medium text-center block w-full ${account.score >= 70 ? 'text-green-600 dark:text-green-400' : account.score >= 40 ? 'text-amber-600 dark:text-amber-400' : 'text-muted-foreground'}`}>{account.score}</span>
+                              </ScoreBreakdownTooltip>
                             ) : (
                               <span className="text-center text-muted-foreground w-full block">-</span>
                             )
@@ -656,6 +668,7 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
                         email: account.email,
                         company_name: account.company_name
                       });
+                      setEmailAccountId(account.id);
                       setEmailModalOpen(true);
                     }
                   }] : []), {
@@ -720,7 +733,7 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
       setShowModal(true);
     }} />
 
-      <SendEmailModal open={emailModalOpen} onOpenChange={setEmailModalOpen} recipient={emailRecipient} />
+      <SendEmailModal open={emailModalOpen} onOpenChange={setEmailModalOpen} recipient={emailRecipient} accountId={emailAccountId} />
     </div>;
 });
 AccountTable.displayName = "AccountTable";
@@ -11,7 +11,8 @@ import {
   Sun,
   Moon,
   Building2,
-  CheckSquare
+  CheckSquare,
+  ClipboardCheck
 } from "lucide-react";
 import { NavLink, useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
@@ -44,6 +45,7 @@ const allMenuItems = [
   { title: "Meetings", url: "/meetings", route: "/meetings", icon: Video },
   { title: "Deals", url: "/deals", route: "/deals", icon: BarChart3 },
   { title: "Tasks", url: "/tasks", route: "/tasks", icon: CheckSquare },
+  { title: "Approvals", url: "/approvals", route: "/approvals", icon: ClipboardCheck },
   { title: "Settings", url: "/settings", route: "/settings", icon: Settings },
 ];
 
@@ -1,14 +1,18 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useEmailCampaigns } from "@/hooks/useEmailCampaigns";
+import { EmailSuppressionReason, fetchSuppressedEmails, normalizeEmail } from "@/hooks/useEmailSuppressions";
+import { validateTemplate } from "@/utils/emailTemplateEngine";
+import { format } from "date-fns";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Mail, Send, Loader2, Users, X } from "lucide-react";
+import { Send, Loader2, Users } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 
@@ -33,6 +37,10 @@ interface BulkEmailModalProps {
   onEmailsSent?: () => void;
 }
 
+// Emails per minute the server sends for the campaign
+const SEND_RATE_OPTIONS = [10, 20, 60, 120];
+const DEFAULT_SEND_RATE = 20;
+
 export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }: BulkEmailModalProps) => {
   const { toast } = useToast();
   const { user } = useAuth();
@@ -40,14 +48,18 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
   const [selectedTemplate, setSelectedTemplate] = useState<string>("");
   const [subject, setSubject] = useState("");
   const [body, setBody] = useState("");
-  const [isSending, setIsSending] = useState(false);
-  const [sendProgress, setSendProgress] = useState({ sent: 0, total: 0 });
+  const [campaignName, setCampaignName] = useState("");
+  const [sendRate, setSendRate] = useState(String(DEFAULT_SEND_RATE));
+  const [suppressedEmails, setSuppressedEmails] = useState<Map<string, EmailSuppressionReason>>(new Map());
+  const { createCampaign, isCreating: isSending } = useEmailCampaigns();
   
   const senderEmail = user?.email || "noreply@acmecrm.com";
   
-  // Filter recipients with valid emails
-  const validRecipients = recipients.filter(r => r.email);
+  // Filter recipients with valid emails that aren't on the suppression list
+  const isSuppressed = (r: BulkEmailRecipient) => !!r.email && suppressedEmails.has(normalizeEmail(r.email));
+  const validRecipients = recipients.filter(r => r.email && !isSuppressed(r));
   const invalidRecipients = recipients.filter(r => !r.email);
+  const suppressedRecipients = recipients.filter(isSuppressed);
 
   useEffect(() => {
     if (open) {
@@ -55,9 +67,14 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
       setSelectedTemplate("");
       setSubject("");
       setBody("");
-      setSendProgress({ sent: 0, total: 0 });
+      setCampaignName(`Bulk email ${format(new Date(), 'dd MMM yyyy, HH:mm')}`);
+      setSendRate(String(DEFAULT_SEND_RATE));
+      setSuppressedEmails(new Map());
+      fetchSuppressedEmails(recipients.filter(r => r.email).map(r => r.email!))
+        .then(setSuppressedEmails)
+        .catch(error => console.error('Error checking the suppression list:', error));
     }
-  }, [open]);
+  }, [open, recipients]);
 
   const fetchTemplates = async () => {
     try {
@@ -89,12 +106,6 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
     }
   };
 
-  const replaceVariables = (text: string, recipient: BulkEmailRecipient) => {
-    return text
-      .replace(/\{\{contact_name\}\}/g, recipient.name || '')
-      .replace(/\{\{name\}\}/g, recipient.name || '');
-  };
-
   const handleSendBulkEmail = async () => {
     if (validRecipients.length === 0) {
       toast({
@@ -114,64 +125,43 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
       return;
     }
 
-    setIsSending(true);
-    setSendProgress({ sent: 0, total: validRecipients.length });
-    
-    let successCount = 0;
-    let failCount = 0;
-
-    for (const recipient of validRecipients) {
-      try {
-        const personalizedSubject = replaceVariables(subject.trim(), recipient);
-        const personalizedBody = replaceVariables(body.trim(), recipient);
-
-        const { data, error } = await supabase.functions.invoke('send-email', {
-          body: {
-            to: recipient.email,
-            toName: recipient.name,
-            subject: personalizedSubject,
-            body: personalizedBody,
-            from: senderEmail,
-          },
-        });
-
-        if (error) throw error;
-
-        // Log email to history
-        await supabase.from('email_history').insert({
-          recipient_email: recipient.email!,
-          recipient_name: recipient.name,
-          subject: personalizedSubject,
-          body: personalizedBody,
-          sender_email: senderEmail,
-          sent_by: user?.id,
-          lead_id: recipient.type === 'lead' ? recipient.id : null,
-          contact_id: recipient.type === 'contact' ? recipient.id : null,
-          status: 'sent',
-        });
-
-        successCount++;
-      } catch (error) {
-        console.error(`Failed to send email to ${recipient.email}:`, error);
-        failCount++;
-      }
-      
-      setSendProgress(prev => ({ ...prev, sent: prev.sent + 1 }));
+    const templateErrors = [...validateTemplate(subject), ...validateTemplate(body)];
+    if (templateErrors.length > 0) {
+      toast({
+        title: "Template problems",
+        description: `${templateErrors.join('. ')}. Fix them before sending.`,
+        variant: "destructive",
+      });
+      return;
     }
 
-    setIsSending(false);
+    try {
+      const { queued, suppressed } = await createCampaign({
+        name: campaignName.trim() || subject.trim(),
+        subject: subject.trim(),
+        body: body.trim(),
+        senderEmail,
+        templateId: selectedTemplate && selectedTemplate !== "none" ? selectedTemplate : null,
+        sendRatePerMinute: Number(sendRate),
+        recipients: validRecipients.map(recipient => ({
+          email: recipient.email!,
+          name: recipient.name,
+          leadId: recipient.type === 'lead' ? recipient.id : undefined,
+          contactId: recipient.type === 'contact' ? recipient.id : undefined,
+        })),
+      });
 
-    if (successCount > 0) {
       toast({
-        title: "Bulk email completed",
-        description: `Successfully sent ${successCount} emails${failCount > 0 ? `, ${failCount} failed` : ''}`,
+        title: "Campaign started",
+        description: `${queued} emails queued${suppressed > 0 ? ` (${suppressed} on the suppression list skipped)` : ''}. Follow progress under Settings → Email Center → Campaigns.`,
       });
       onEmailsSent?.();
       onOpenChange(false);
-    } else {
+    } catch (error) {
+      console.error('Failed to start campaign:', error);
       toast({
-        title: "Failed to send emails",
-        description: "All emails failed to send. Please try again.",
+        title: "Failed to start campaign",
+        description: (error as Error).message,
         variant: "destructive",
       });
     }
@@ -205,6 +195,11 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
                 {invalidRecipients.length} recipient(s) have no email address and will be skipped.
               </p>
             )}
+            {suppressedRecipients.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {suppressedRecipients.length} recipient(s) unsubscribed, bounced or are blocked and will be skipped.
+              </p>
+            )}
           </div>
 
           <div className="p-3 bg-muted/50 rounded-lg">
@@ -212,6 +207,31 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
             <p className="font-medium text-sm">{senderEmail}</p>
           </div>
 
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="campaign-name">Campaign Name</Label>
+              <Input
+                id="campaign-name"
+                value={campaignName}
+                onChange={(e) => setCampaignName(e.target.value)}
+                placeholder="Campaign name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="send-rate">Send Rate</Label>
+              <Select value={sendRate} onValueChange={setSendRate}>
+                <SelectTrigger id="send-rate">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SEND_RATE_OPTIONS.map(rate => (
+                    <SelectItem key={rate} value={String(rate)}>{rate} per minute</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="template">Email Template</Label>
             <Select value={selectedTemplate} onValueChange={handleTemplateSelect}>
@@ -228,7 +248,8 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
               </SelectContent>
             </Select>
             <p className="text-xs text-muted-foreground">
-              Use {"{{name}}"} or {"{{contact_name}}"} to personalize each email.
+              Personalize each email with {'{{first_name | default:"there"}}'}, {'{{account.name}}'}, {'{{deal.stage}}'} and
+              the other fields listed under Email Templates, including {'{{#if ...}}'} blocks.
             </p>
           </div>
 
@@ -253,23 +274,6 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
             />
           </div>
 
-          {isSending && (
-            <div className="p-3 bg-muted/50 rounded-lg">
-              <div className="flex items-center justify-between mb-2">
-                <span className="text-sm">Sending emails...</span>
-                <span className="text-sm text-muted-foreground">
-                  {sendProgress.sent} / {sendProgress.total}
-                </span>
-              </div>
-              <div className="w-full bg-secondary rounded-full h-2">
-                <div 
-                  className="bg-primary h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${(sendProgress.sent / sendProgress.total) * 100}%` }}
-                />
-              </div>
-            </div>
-          )}
-
           <div className="flex justify-end gap-2 pt-4">
             <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSending}>
               Cancel
@@ -282,7 +286,7 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
               {isSending ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  Sending...
+                  Queuing...
                 </>
               ) : (
                 <>
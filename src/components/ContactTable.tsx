@@ -24,6 +24,8 @@ import { MeetingModal } from "./MeetingModal";
 import { HighlightedText } from "./shared/HighlightedText";
 import { ClearFiltersButton } from "./shared/ClearFiltersButton";
 import { TableSkeleton } from "./shared/Skeletons";
+import { ScoreBadge } from "./shared/ScoreBadge";
+import { ScoreBreakdownItem, parseScoreBreakdown } from "@/hooks/useScoring";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { useQuery } from "@tanstack/react-query";
 
@@ -60,6 +62,7 @@ interface Contact {
   modified_by?: string;
   tags?: string[];
   score?: number;
+  score_breakdown?: ScoreBreakdownItem[];
   segment?: string;
   email_opens?: number;
   email_clicks?: number;
@@ -226,6 +229,7 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
       // Transform data to include account fields
       const transformedData = (data || []).map(contact => ({
         ...contact,
+        score_breakdown: parseScoreBreakdown(contact.score_breakdown),
         account_company_name: contact.accounts?.company_name || contact.company_name || null,
         account_industry: contact.accounts?.industry,
         account_region: contact.accounts?.region,
@@ -512,7 +516,8 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
       if (!contact.created_by) return '-';
       return displayNames[contact.created_by] || "Loading...";
     }
-    return contact[columnField as keyof Contact] || '-';
+    // score_breakdown is only shown inside the score column
+    return contact[columnField as Exclude<keyof Contact, 'score_breakdown'>] || '-';
   };
 
   return (
@@ -717,9 +722,7 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
                           )
                         ) : column.field === 'score' ? (
                           contact.score != null ? (
-                            <span className={`font-medium ${contact.score >= 70 ? 'text-green-600 dark:text-green-400' : contact.score >= 40 ? 'text-amber-600 dark:text-amber-400' : 'text-muted-foreground'}`}>
-                              {contact.score}
-                            </span>
+                            <ScoreBadge score={contact.score} breakdown={contact.score_breakdown} />
                           ) : (
                             <span className="text-center text-muted-foreground w-full block">-</span>
                           )
@@ -3,9 +3,13 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Deal, STAGE_COLORS } from "@/types/deal";
+import { Deal } from "@/types/deal";
 import { format } from "date-fns";
 import { Trash2, XCircle } from "lucide-react";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { useCurrencyConversion } from "@/hooks/useCurrencyConversion";
+import { getDealConversionDate } from "@/utils/currencyConversion";
+import { ApprovalStatusBadge } from "./approvals/ApprovalStatusBadge";
 
 interface DealCardProps {
   deal: Deal;
@@ -26,15 +30,17 @@ export const DealCard = ({
   onDelete, 
   onStageChange 
 }: DealCardProps) => {
-  const formatCurrency = (amount: number, currency: string = 'EUR') => {
-    const symbols = { USD: '$', EUR: '€', INR: '₹' };
-    return `${symbols[currency as keyof typeof symbols] || '€'}${amount.toLocaleString()}`;
-  };
+  const { getNextStage, isClosedStage, lostStageNames } = usePipelineStages();
+  // The last open stage offers a shortcut to drop the deal into the final lost stage
+  const dropStage = lostStageNames[lostStageNames.length - 1];
+  const canDrop = !!dropStage && !isClosedStage(deal.stage) && getNextStage(deal.stage) === null;
+
+  const { formatWithConversion } = useCurrencyConversion();
 
   const handleMoveToDropped = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (onStageChange) {
-      onStageChange(deal.id, 'Dropped');
+    if (onStageChange && dropStage) {
+      onStageChange(deal.id, dropStage);
     }
   };
 
@@ -53,13 +59,13 @@ export const DealCard = ({
             {deal.project_name || 'Untitled Deal'}
           </CardTitle>
           <div className="flex items-center gap-1">
-            {!selectionMode && deal.stage === 'Offered' && onStageChange && (
+            {!selectionMode && canDrop && onStageChange && (
               <Button
                 size="sm"
                 variant="ghost"
                 onClick={handleMoveToDropped}
                 className="opacity-0 group-hover:opacity-100 transition-all duration-200 p-1 h-6 w-6 bg-amber-50 hover:bg-amber-100 text-amber-700"
-                title="Move to Dropped"
+                title={`Move to ${dropStage}`}
               >
                 <XCircle className="w-3 h-3" />
               </Button>
@@ -133,7 +139,7 @@ export const DealCard = ({
           <div className="flex items-center justify-between pt-2 border-t border-border/30">
             <span className="text-xs text-muted-foreground font-medium">Value:</span>
             <p className="font-bold text-sm text-primary">
-              {formatCurrency(deal.total_contract_value, deal.currency_type)}
+              {formatWithConversion(deal.total_contract_value, deal.currency_type, getDealConversionDate(deal))}
             </p>
           </div>
         )}
@@ -163,14 +169,17 @@ export const DealCard = ({
             }
           })() : 'Unknown'}</span>
           
-          {deal.priority && (
-            <Badge 
-              variant={deal.priority >= 4 ? 'destructive' : deal.priority >= 3 ? 'default' : 'secondary'}
-              className="text-xs px-2 py-0 font-semibold"
-            >
-              P{deal.priority}
-            </Badge>
-          )}
+          <div className="flex items-center gap-1">
+            <ApprovalStatusBadge entityType="deals" entityId={deal.id} compact />
+            {deal.priority && (
+              <Badge 
+                variant={deal.priority >= 4 ? 'destructive' : deal.priority >= 3 ? 'default' : 'secondary'}
+                className="text-xs px-2 py-0 font-semibold"
+              >
+                P{deal.priority}
+              </Badge>
+            )}
+          </div>
         </div>
       </CardContent>
     </Card>
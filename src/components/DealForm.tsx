@@ -4,20 +4,26 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Deal, DealStage, getNextStage, getFinalStageOptions, getStageIndex, DEAL_STAGES } from "@/types/deal";
+import { Deal, DealStage } from "@/types/deal";
 import { useToast } from "@/hooks/use-toast";
 import { validateRequiredFields, getFieldErrors, validateDateLogic, validateRevenueSum } from "./deal-form/validation";
 import { DealStageForm } from "./deal-form/DealStageForm";
+import { DealContactsSection } from "./deal-form/DealContactsSection";
 import { TaskModal } from "./tasks/TaskModal";
 import { useTasks } from "@/hooks/useTasks";
 import { supabase } from "@/integrations/supabase/client";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
+import { usePipelineStages, getStageStyle } from "@/hooks/usePipelineStages";
+import { getHeldApprovalChange } from "@/hooks/useApprovals";
+import { ApprovalStatusBadge } from "./approvals/ApprovalStatusBadge";
+import { useCurrencyConversion } from "@/hooks/useCurrencyConversion";
+import { getDealConversionDate } from "@/utils/currencyConversion";
 
 interface DealFormProps {
   deal: Deal | null;
   isOpen: boolean;
   onClose: () => void;
-  onSave: (dealData: Partial<Deal>) => Promise<void>;
+  onSave: (dealData: Partial<Deal>) => Promise<Deal | void>;
   onRefresh?: () => Promise<void>;
   isCreating?: boolean;
   initialStage?: DealStage;
@@ -32,6 +38,8 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
   const [taskModalOpen, setTaskModalOpen] = useState(false);
   const { toast } = useToast();
   const { createTask } = useTasks();
+  const { stageNames, firstStageName, getStageColor, getStageProbability, getNextStage, getStageTransitionUpdates } = usePipelineStages();
+  const { formatWithConversion } = useCurrencyConversion();
 
   // NEW: Track current user id for default Lead Owner
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
@@ -87,6 +95,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       // Set default values for new deals
       const defaultData: Partial<Deal> = {
         stage: initialStage,
+        probability: getStageProbability(initialStage),
         currency_type: 'EUR', // Default to EUR
         quarterly_revenue_q1: 0,
         quarterly_revenue_q2: 0,
@@ -97,9 +106,9 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       setShowValidationErrors(false);
     }
     setShowPreviousStages(false);
-  }, [deal, isCreating, initialStage, isOpen]);
+  }, [deal, isCreating, initialStage, isOpen, getStageProbability]);
 
-  const currentStage = formData.stage || 'Lead';
+  const currentStage = formData.stage || firstStageName || 'Lead';
 
   // No field errors since validation is removed
   useEffect(() => {
@@ -144,13 +153,15 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       
       console.log("Save data:", saveData);
       
-      await onSave(saveData);
+      const savedDeal = await onSave(saveData);
       
       console.log("Save successful");
-      toast({
-        title: "Success",
-        description: isCreating ? "Deal created successfully" : "Deal updated successfully",
-      });
+      if (!getHeldApprovalChange('deals', saveData, savedDeal)) {
+        toast({
+          title: "Success",
+          description: isCreating ? "Deal created successfully" : "Deal updated successfully",
+        });
+      }
       
       if (onRefresh) {
         await onRefresh();
@@ -181,18 +192,21 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
         
         const updatedData = {
           ...formData,
-          stage: nextStage,
+          ...getStageTransitionUpdates(formData, nextStage),
           deal_name: formData.project_name || formData.deal_name || 'Untitled Deal',
           modified_at: new Date().toISOString(),
           modified_by: deal?.created_by || formData.created_by
         };
         
-        await onSave(updatedData);
+        const savedDeal = await onSave(updatedData);
         
-        toast({
-          title: "Success",
-          description: `Deal moved to ${nextStage} stage`,
-        });
+        // When the move is held for approval, the page has already said so
+        if (!getHeldApprovalChange('deals', updatedData, savedDeal)) {
+          toast({
+            title: "Success",
+            description: `Deal moved to ${nextStage} stage`,
+          });
+        }
         
         onClose();
         if (onRefresh) {
@@ -219,19 +233,21 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       
       const updatedData = {
         ...formData,
-        stage: finalStage,
+        ...getStageTransitionUpdates(formData, finalStage),
         deal_name: formData.project_name || formData.deal_name || 'Untitled Deal',
         modified_at: new Date().toISOString(),
         modified_by: deal?.created_by || formData.created_by
       };
       
       setFormData(updatedData);
-      await onSave(updatedData);
+      const savedDeal = await onSave(updatedData);
       
-      toast({
-        title: "Success",
-        description: `Deal moved to ${finalStage} stage`,
-      });
+      if (!getHeldApprovalChange('deals', updatedData, savedDeal)) {
+        toast({
+          title: "Success",
+          description: `Deal moved to ${finalStage} stage`,
+        });
+      }
       
       onClose();
       if (onRefresh) {
@@ -257,19 +273,21 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       
       const updatedData = {
         ...formData,
-        stage: targetStage,
+        ...getStageTransitionUpdates(formData, targetStage),
         deal_name: formData.project_name || formData.deal_name || 'Untitled Deal',
         modified_at: new Date().toISOString(),
         modified_by: deal?.created_by || formData.created_by
       };
       
       setFormData(updatedData);
-      await onSave(updatedData);
+      const savedDeal = await onSave(updatedData);
       
-      toast({
-        title: "Success",
-        description: `Deal moved to ${targetStage} stage`,
-      });
+      if (!getHeldApprovalChange('deals', updatedData, savedDeal)) {
+        toast({
+          title: "Success",
+          description: `Deal moved to ${targetStage} stage`,
+        });
+      }
       
       onClose();
       if (onRefresh) {
@@ -289,8 +307,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
 
   // Allow movement to any stage - no restrictions
   const getAvailableStagesForMoveTo = (): DealStage[] => {
-    const allStages: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
-    return allStages.filter(stage => stage !== currentStage);
+    return stageNames.filter(stage => stage !== currentStage);
   };
 
   // No validation - always allow movement and saving
@@ -314,9 +331,12 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
                 {isCreating ? 'Create New Deal' : formData.project_name || 'Edit Deal'}
               </DialogTitle>
               <div className="flex items-center gap-2 mt-2">
-                <Badge variant="outline" className="text-sm px-3 py-1">
+                <Badge variant="outline" className="text-sm px-3 py-1" style={getStageStyle(getStageColor(currentStage))}>
                   {currentStage}
                 </Badge>
+                {!isCreating && deal?.id && (
+                  <ApprovalStatusBadge entityType="deals" entityId={deal.id} />
+                )}
                 {!isCreating && (
                   <Button 
                     variant="ghost" 
@@ -346,7 +366,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
               <p className="text-xs text-muted-foreground">Contract Value</p>
               <p className="font-medium text-primary">
                 {formData.total_contract_value 
-                  ? `€${formData.total_contract_value.toLocaleString()}`
+                  ? formatWithConversion(formData.total_contract_value, formData.currency_type, getDealConversionDate(formData))
                   : '-'}
               </p>
             </div>
@@ -375,6 +395,14 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
             showPreviousStages={showPreviousStages}
           />
 
+          {!isCreating && deal?.id && (
+            <DealContactsSection
+              dealId={deal.id}
+              accountId={formData.account_id}
+              primaryContactId={formData.contact_id}
+            />
+          )}
+
           {/* Action Buttons */}
           <div className="flex justify-between items-center">
             <div className="flex gap-2">
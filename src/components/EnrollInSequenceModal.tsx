@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useEmailSequences } from "@/hooks/useEmailSequences";
+import { BulkEmailRecipient } from "@/components/BulkEmailModal";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Users, Workflow } from "lucide-react";
+
+interface EnrollInSequenceModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recipients: BulkEmailRecipient[];
+  onEnrolled?: () => void;
+}
+
+export const EnrollInSequenceModal = ({ open, onOpenChange, recipients, onEnrolled }: EnrollInSequenceModalProps) => {
+  const { toast } = useToast();
+  const { sequences, isLoading, enroll, isEnrolling } = useEmailSequences();
+  const [sequenceId, setSequenceId] = useState("");
+
+  useEffect(() => {
+    if (open) setSequenceId("");
+  }, [open]);
+
+  const activeSequences = sequences.filter(sequence => sequence.is_active && sequence.steps.length > 0);
+  const selectedSequence = activeSequences.find(sequence => sequence.id === sequenceId);
+  const withEmail = recipients.filter(recipient => recipient.email);
+
+  const handleEnroll = async () => {
+    if (!selectedSequence) return;
+
+    try {
+      const { enrolled, skipped } = await enroll({
+        sequence: selectedSequence,
+        enrollees: recipients.map(recipient => ({
+          email: recipient.email,
+          name: recipient.name,
+          leadId: recipient.type === 'lead' ? recipient.id : undefined,
+          contactId: recipient.type === 'contact' ? recipient.id : undefined,
+        })),
+      });
+
+      toast({
+        title: "Enrolled in sequence",
+        description: `${enrolled} enrolled in "${selectedSequence.name}"${skipped > 0 ? `, ${skipped} skipped (no email, do not email, or already enrolled)` : ''}`,
+      });
+      onEnrolled?.();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to enrol: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Workflow className="h-5 w-5" />
+            Enrol in Sequence
+          </DialogTitle>
+          <DialogDescription>
+            The first step runs after its delay. Each recipient leaves the sequence when they reply or a meeting is booked.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Users className="h-4 w-4 text-muted-foreground" />
+            <Badge variant="secondary">{withEmail.length} with email</Badge>
+            {recipients.length - withEmail.length > 0 && (
+              <Badge variant="outline">{recipients.length - withEmail.length} without email will be skipped</Badge>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Sequence</Label>
+            <Select value={sequenceId} onValueChange={setSequenceId} disabled={isLoading}>
+              <SelectTrigger>
+                <SelectValue placeholder={activeSequences.length === 0 ? "No active sequences" : "Choose a sequence"} />
+              </SelectTrigger>
+              <SelectContent>
+                {activeSequences.map(sequence => (
+                  <SelectItem key={sequence.id} value={sequence.id}>
+                    {sequence.name} ({sequence.steps.length} steps)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!isLoading && activeSequences.length === 0 && (
+              <p className="text-xs text-muted-foreground">Create a sequence under Settings → Email Center → Sequences.</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleEnroll} disabled={!selectedSequence || withEmail.length === 0 || isEnrolling}>
+            {isEnrolling && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Enrol {withEmail.length}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,6 +1,6 @@
 import { useState, useMemo, useEffect } from "react";
 import { DragDropContext, Droppable, Draggable, DropResult } from "@hello-pangea/dnd";
-import { Deal, DealStage, DEAL_STAGES, STAGE_COLORS } from "@/types/deal";
+import { Deal, DealStage } from "@/types/deal";
 import { DealCard } from "./DealCard";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -10,10 +10,11 @@ import { useToast } from "@/hooks/use-toast";
 import { BulkActionsBar } from "./BulkActionsBar";
 import { DealsAdvancedFilter, AdvancedFilterState } from "./DealsAdvancedFilter";
 import { DeleteConfirmDialog } from "./shared/DeleteConfirmDialog";
+import { usePipelineStages, getStageStyle } from "@/hooks/usePipelineStages";
 
 interface KanbanBoardProps {
   deals: Deal[];
-  onUpdateDeal: (dealId: string, updates: Partial<Deal>) => Promise<void>;
+  onUpdateDeal: (dealId: string, updates: Partial<Deal>) => Promise<Deal | void>;
   onDealClick: (deal: Deal) => void;
   onCreateDeal: (stage: DealStage) => void;
   onDeleteDeals: (dealIds: string[]) => void;
@@ -47,6 +48,7 @@ export const KanbanBoard = ({
     probabilityRange: [0, 100],
   });
   const { toast } = useToast();
+  const { allStages, firstStageName, getStageColor, getStageTransitionUpdates } = usePipelineStages();
 
   // Generate available options for multi-select filters
   const availableOptions = useMemo(() => {
@@ -116,17 +118,16 @@ export const KanbanBoard = ({
     return filteredDeals.filter(deal => deal.stage === stage);
   };
 
-  const getVisibleStages = () => {
-    const leadDeals = getDealsByStage('Lead');
-    const lostDeals = getDealsByStage('Lost');
-    const droppedDeals = getDealsByStage('Dropped');
-    
-    return DEAL_STAGES.filter(stage => {
-      if (stage === 'Lead') return leadDeals.length > 0;
-      if (stage === 'Lost') return lostDeals.length > 0;
-      if (stage === 'Dropped') return droppedDeals.length > 0;
-      return true;
-    });
+  const getVisibleStages = (): DealStage[] => {
+    return allStages
+      .filter(stage => {
+        const hasDeals = getDealsByStage(stage.stage_name).length > 0;
+        // Inactive stages only show up while deals still sit in them
+        if (!stage.is_active) return hasDeals;
+        if (stage.stage_name === firstStageName || stage.is_lost_stage) return hasDeals;
+        return true;
+      })
+      .map(stage => stage.stage_name);
   };
 
   const onDragStart = (start: any) => {
@@ -155,10 +156,8 @@ export const KanbanBoard = ({
         description: `Moving to ${newStage} stage`,
       });
       
-      // Create update object with the new stage
-      const updates: Partial<Deal> = {
-        stage: newStage
-      };
+      // Create update object with the new stage and its default probability
+      const updates = getStageTransitionUpdates(deal, newStage);
       
       await onUpdateDeal(draggableId, updates);
       
@@ -233,10 +232,9 @@ export const KanbanBoard = ({
     try {
       console.log(`Card action: Moving deal ${dealId} to stage ${newStage}`);
       
-      // Create update object with the new stage
-      const updates: Partial<Deal> = {
-        stage: newStage
-      };
+      // Create update object with the new stage and its default probability
+      const deal = deals.find(d => d.id === dealId);
+      const updates = getStageTransitionUpdates(deal || {}, newStage);
       
       await onUpdateDeal(dealId, updates);
       
@@ -349,7 +347,7 @@ export const KanbanBoard = ({
                 const allSelected = selectedInStage === stageDeals.length && stageDeals.length > 0;
                 
                 return (
-                  <div key={stage} className={`p-2 rounded-lg border-2 ${STAGE_COLORS[stage]} transition-all hover:shadow-md`}>
+                  <div key={stage} className="p-2 rounded-lg border-2 transition-all hover:shadow-md" style={getStageStyle(getStageColor(stage))}>
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-2 min-w-0 flex-1">
                         {selectionMode && (
@@ -368,7 +366,7 @@ export const KanbanBoard = ({
                             <span className="text-primary ml-1">({selectedInStage})</span>
                           )}
                         </span>
-                        {stage === 'Lead' && (
+                        {stage === firstStageName && (
                           <Button
                             size="sm"
                             variant="ghost"
@@ -30,6 +30,7 @@ export const defaultLeadColumns: LeadColumnConfig[] = [
   { field: 'contact_owner', label: 'Lead Owner', visible: true, order: 5 },
   { field: 'lead_status', label: 'Lead Status', visible: true, order: 6 },
   { field: 'contact_source', label: 'Source', visible: true, order: 7 },
+  { field: 'score', label: 'Score', visible: true, order: 8 },
 ];
 
 export const LeadColumnCustomizer = ({ 
@@ -42,9 +43,16 @@ export const LeadColumnCustomizer = ({
 }: LeadColumnCustomizerProps) => {
   const [localColumns, setLocalColumns] = useState<LeadColumnConfig[]>(columns);
 
-  // Sync local columns when props change
+  // Sync local columns when props change, merging new columns if they don't exist
   useEffect(() => {
-    setLocalColumns(columns);
+    const existingFields = new Set(columns.map(c => c.field));
+    const missingColumns = defaultLeadColumns.filter(dc => !existingFields.has(dc.field));
+
+    if (missingColumns.length > 0) {
+      setLocalColumns([...columns, ...missingColumns]);
+    } else {
+      setLocalColumns(columns);
+    }
   }, [columns]);
 
   const handleVisibilityChange = (field: string, visible: boolean) => {
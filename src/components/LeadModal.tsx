@@ -5,6 +5,10 @@ import { z } from "zod";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
+import { useQueryClient } from "@tanstack/react-query";
+import { APPROVAL_REQUESTS_QUERY_KEY, getHeldApprovalChange } from "@/hooks/useApprovals";
+import { useLeadStatuses } from "@/hooks/useLeadStatuses";
+import { COMPANY_SIZE_OPTIONS, useAssignableUsers } from "@/hooks/useLeadAssignment";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
@@ -24,6 +28,8 @@ const leadSchema = z.object({
   linkedin: z.string().url("Please enter a valid LinkedIn URL (e.g., https://linkedin.com/in/username)").optional().or(z.literal("")),
   contact_source: z.string().optional(),
   lead_status: z.string().optional(),
+  company_size: z.string().optional(),
+  contact_owner: z.string().optional(),
   description: z.string().max(1000, "Description must be less than 1000 characters").optional(),
 });
 
@@ -42,6 +48,7 @@ interface Lead {
   contact_source?: string;
   industry?: string;
   country?: string;
+  company_size?: string;
   description?: string;
   lead_status?: string;
 }
@@ -67,20 +74,18 @@ const leadSources = [
   "Other"
 ];
 
-const leadStatuses = [
-  "New",
-  "Attempted",
-  "Follow-up",
-  "Qualified",
-  "Disqualified"
-];
+// Owner choice for new leads that leaves routing to the lead assignment rules
+const AUTO_ASSIGN = "auto";
 
 export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProps) => {
   const { toast } = useToast();
   const { logCreate, logUpdate } = useCRUDAudit();
+  const queryClient = useQueryClient();
   const [loading, setLoading] = useState(false);
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [accountSearch, setAccountSearch] = useState("");
+  const { openStatusNames, defaultStatusName } = useLeadStatuses();
+  const { users } = useAssignableUsers();
 
   const form = useForm<LeadFormData>({
     resolver: zodResolver(leadSchema),
@@ -92,11 +97,19 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
       phone_no: "",
       linkedin: "",
       contact_source: "",
-      lead_status: "New",
+      lead_status: defaultStatusName,
+      company_size: "",
+      contact_owner: AUTO_ASSIGN,
       description: "",
     },
   });
 
+  // Converted and deactivated statuses aren't offered, but a lead already in one keeps it
+  const currentStatus = lead?.lead_status;
+  const leadStatuses = currentStatus && !openStatusNames.includes(currentStatus)
+    ? [...openStatusNames, currentStatus]
+    : openStatusNames;
+
   // Fetch accounts for dropdown
   useEffect(() => {
     const fetchAccounts = async () => {
@@ -125,7 +138,8 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
         phone_no: lead.phone_no || "",
         linkedin: lead.linkedin || "",
         contact_source: lead.contact_source || "",
-        lead_status: lead.lead_status || "New",
+        lead_status: lead.lead_status || defaultStatusName,
+        company_size: lead.company_size || "",
         description: lead.description || "",
       });
     } else {
@@ -137,11 +151,13 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
         phone_no: "",
         linkedin: "",
         contact_source: "",
-        lead_status: "New",
+        lead_status: defaultStatusName,
+        company_size: "",
+        contact_owner: AUTO_ASSIGN,
         description: "",
       });
     }
-  }, [lead, form]);
+  }, [lead, form, defaultStatusName]);
 
   const onSubmit = async (data: LeadFormData) => {
     try {
@@ -166,7 +182,8 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
         phone_no: data.phone_no || null,
         linkedin: data.linkedin || null,
         contact_source: data.contact_source || null,
-        lead_status: data.lead_status || 'New',
+        lead_status: data.lead_status || defaultStatusName || null,
+        company_size: data.company_size || null,
         description: data.description || null,
         modified_by: user.data.user.id,
       };
@@ -195,16 +212,20 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
 
         await logUpdate('leads', lead.id, baseLeadData, lead);
 
+        const heldStatus = getHeldApprovalChange('leads', baseLeadData, updatedLead);
         toast({
-          title: "Success",
-          description: "Lead updated successfully",
+          title: heldStatus ? "Approval required" : "Success",
+          description: heldStatus
+            ? `Changing the status to ${heldStatus} needs approval. A request has been sent to the approvers.`
+            : "Lead updated successfully",
         });
       } else {
-        // For new leads, add created_by and contact_owner
+        // For new leads, add created_by and contact_owner; without an owner the assignment rules pick one
+        const autoAssign = !data.contact_owner || data.contact_owner === AUTO_ASSIGN;
         const newLeadData = {
           ...baseLeadData,
           created_by: user.data.user.id,
-          contact_owner: user.data.user.id,
+          contact_owner: autoAssign ? null : data.contact_owner,
           created_time: new Date().toISOString(),
         };
         
@@ -223,14 +244,28 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
         
         console.log('Lead created successfully:', newLead);
 
-        await logCreate('leads', newLead.id, newLeadData);
+        // No assignment rule matched, so the lead stays with its creator
+        if (!newLead.contact_owner) {
+          const { error: ownerError } = await supabase
+            .from('leads')
+            .update({ contact_owner: user.data.user.id })
+            .eq('id', newLead.id);
+          if (ownerError) throw ownerError;
+          newLead.contact_owner = user.data.user.id;
+        }
 
+        await logCreate('leads', newLead.id, { ...newLeadData, contact_owner: newLead.contact_owner });
+
+        const routedTo = autoAssign && newLead.contact_owner !== user.data.user.id
+          ? users.find(u => u.id === newLead.contact_owner)?.full_name
+          : null;
         toast({
           title: "Success",
-          description: "Lead created successfully",
+          description: routedTo ? `Lead created and assigned to ${routedTo}` : "Lead created successfully",
         });
       }
 
+      queryClient.invalidateQueries({ queryKey: APPROVAL_REQUESTS_QUERY_KEY });
       onSuccess();
       onOpenChange(false);
     } catch (error) {
@@ -404,7 +439,7 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
                     <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="New" />
+                          <SelectValue placeholder="Select status" />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
@@ -419,6 +454,59 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={form.control}
+                name="company_size"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Company Size</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select company size" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {COMPANY_SIZE_OPTIONS.map((size) => (
+                          <SelectItem key={size} value={size}>
+                            {size} employees
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {!lead && (
+                <FormField
+                  control={form.control}
+                  name="contact_owner"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lead Owner</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select owner" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={AUTO_ASSIGN}>Assign automatically</SelectItem>
+                          {users.map((user) => (
+                            <SelectItem key={user.id} value={user.id}>
+                              {user.full_name || 'Unnamed user'}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
             </div>
 
             <FormField
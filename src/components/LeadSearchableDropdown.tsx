@@ -2,6 +2,7 @@ import { useState, useEffect, useMemo } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
+import { useLeadStatuses } from "@/hooks/useLeadStatuses";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Button } from "@/components/ui/button";
@@ -14,6 +15,7 @@ interface Lead {
   company_name?: string;
   country?: string;
   created_by?: string;
+  account_id?: string | null;
 }
 
 interface LeadSearchableDropdownProps {
@@ -36,6 +38,7 @@ export const LeadSearchableDropdown = ({
   const [loading, setLoading] = useState(false);
   const [searchValue, setSearchValue] = useState("");
   const { toast } = useToast();
+  const { convertedStatusNames, isLoading: statusesLoading } = useLeadStatuses();
 
   // Get unique created_by IDs for fetching display names
   const createdByIds = useMemo(() => {
@@ -44,18 +47,23 @@ export const LeadSearchableDropdown = ({
   
   const { displayNames } = useUserDisplayNames(createdByIds);
 
+  const convertedStatusKey = convertedStatusNames.join('|');
+
   useEffect(() => {
-    fetchLeads();
-  }, []);
+    if (!statusesLoading) fetchLeads();
+  }, [statusesLoading, convertedStatusKey]);
 
   const fetchLeads = async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
+      let query = supabase
         .from('leads')
-        .select('id, lead_name, company_name, country, created_by, lead_status')
-        .neq('lead_status', 'Converted') // Only show leads that haven't been converted to deals yet
-        .order('lead_name', { ascending: true });
+        .select('id, lead_name, company_name, country, created_by, lead_status, account_id');
+      // Only show leads that haven't been converted to deals yet
+      if (convertedStatusNames.length > 0) {
+        query = query.not('lead_status', 'in', `(${convertedStatusNames.map(name => `"${name}"`).join(',')})`);
+      }
+      const { data, error } = await query.order('lead_name', { ascending: true });
 
       if (error) throw error;
       setLeads(data || []);
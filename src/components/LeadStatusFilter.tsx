@@ -1,4 +1,5 @@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useLeadStatuses } from "@/hooks/useLeadStatuses";
 import { cn } from "@/lib/utils";
 
 interface LeadStatusFilterProps {
@@ -8,6 +9,7 @@ interface LeadStatusFilterProps {
 
 export const LeadStatusFilter = ({ value, onValueChange }: LeadStatusFilterProps) => {
   const isActive = value !== "all";
+  const { statusNames } = useLeadStatuses();
   
   return (
     <Select value={value || "all"} onValueChange={onValueChange}>
@@ -21,12 +23,11 @@ export const LeadStatusFilter = ({ value, onValueChange }: LeadStatusFilterProps
       </SelectTrigger>
       <SelectContent>
         <SelectItem value="all">All Statuses</SelectItem>
-        <SelectItem value="New">New</SelectItem>
-        <SelectItem value="Attempted">Attempted</SelectItem>
-        <SelectItem value="Follow-up">Follow-up</SelectItem>
-        <SelectItem value="Qualified">Qualified</SelectItem>
-        <SelectItem value="Disqualified">Disqualified</SelectItem>
-        <SelectItem value="Converted">Converted</SelectItem>
+        {statusNames.map(status => (
+          <SelectItem key={status} value={status}>
+            {status}
+          </SelectItem>
+        ))}
       </SelectContent>
     </Select>
   );
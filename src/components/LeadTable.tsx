@@ -6,6 +6,8 @@ import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
 import { useUserRole } from "@/hooks/useUserRole";
 import { useColumnPreferences } from "@/hooks/useColumnPreferences";
+import { useLeadStatuses } from "@/hooks/useLeadStatuses";
+import { getStageStyle } from "@/hooks/usePipelineStages";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
@@ -19,13 +21,15 @@ import { RowActionsDropdown, Edit, Trash2, Mail, RefreshCw } from "./RowActionsD
 import { LeadModal } from "./LeadModal";
 import { LeadColumnCustomizer, LeadColumnConfig, defaultLeadColumns } from "./LeadColumnCustomizer";
 import { LeadStatusFilter } from "./LeadStatusFilter";
-import { ConvertToDealModal } from "./ConvertToDealModal";
+import { LeadConversionWizard } from "./leads/LeadConversionWizard";
 import { LeadDeleteConfirmDialog } from "./LeadDeleteConfirmDialog";
 import { AccountViewModal } from "./AccountViewModal";
 import { SendEmailModal, EmailRecipient } from "./SendEmailModal";
 import { MeetingModal } from "./MeetingModal";
 import { TaskModal } from "./tasks/TaskModal";
 import { LeadDetailModal } from "./leads/LeadDetailModal";
+import { ScoreBadge } from "@/components/shared/ScoreBadge";
+import { ScoreBreakdownItem, parseScoreBreakdown } from "@/hooks/useScoring";
 import { HighlightedText } from "./shared/HighlightedText";
 import { ClearFiltersButton } from "./shared/ClearFiltersButton";
 import { TableSkeleton } from "./shared/Skeletons";
@@ -57,7 +61,10 @@ interface Lead {
   created_by?: string;
   modified_by?: string;
   country: string | null;
+  company_size?: string | null;
   industry: string | null;
+  score?: number;
+  score_breakdown?: ScoreBreakdownItem[];
 }
 
 const defaultColumns: LeadColumnConfig[] = [{
@@ -128,6 +135,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
   const { toast } = useToast();
   const { logDelete, logBulkDelete } = useCRUDAudit();
   const { userRole } = useUserRole();
+  const { getStatusColor, isConvertedStatus } = useLeadStatuses();
   const [searchParams, setSearchParams] = useSearchParams();
   const [leads, setLeads] = useState<Lead[]>([]);
   const [filteredLeads, setFilteredLeads] = useState<Lead[]>([]);
@@ -227,6 +235,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
   const [accountViewOpen, setAccountViewOpen] = useState(false);
   const [emailModalOpen, setEmailModalOpen] = useState(false);
   const [emailRecipient, setEmailRecipient] = useState<EmailRecipient | null>(null);
+  const [emailLeadId, setEmailLeadId] = useState<string | null>(null);
   const [meetingModalOpen, setMeetingModalOpen] = useState(false);
   const [meetingLead, setMeetingLead] = useState<Lead | null>(null);
   const [taskModalOpen, setTaskModalOpen] = useState(false);
@@ -290,7 +299,9 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
       filtered.sort((a, b) => {
         const aValue = a[sortField as keyof Lead] || '';
         const bValue = b[sortField as keyof Lead] || '';
-        const comparison = aValue.toString().localeCompare(bValue.toString());
+        const comparison = typeof aValue === 'number' || typeof bValue === 'number'
+          ? Number(aValue) - Number(bValue)
+          : aValue.toString().localeCompare(bValue.toString());
         return sortDirection === 'asc' ? comparison : -comparison;
       });
     }
@@ -329,7 +340,8 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
       // Transform data to include account_company_name
       const transformedData = (data || []).map(lead => ({
         ...lead,
-        account_company_name: lead.accounts?.company_name || lead.company_name || null
+        account_company_name: lead.accounts?.company_name || lead.company_name || null,
+        score_breakdown: parseScoreBreakdown(lead.score_breakdown)
       }));
       
       setLeads(transformedData);
@@ -493,27 +505,13 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
     setSearchParams({});
   };
 
-  const handleConvertToDeal = (lead: Lead) => {
+  const handleConvertLead = (lead: Lead) => {
     setLeadToConvert(lead);
     setShowConvertModal(true);
   };
 
-  const handleConvertSuccess = async () => {
-    if (leadToConvert) {
-      try {
-        const { error } = await supabase.from('leads').update({
-          lead_status: 'Converted'
-        }).eq('id', leadToConvert.id);
-        
-        if (!error) {
-          setLeads(prevLeads => prevLeads.map(lead => 
-            lead.id === leadToConvert.id ? { ...lead, lead_status: 'Converted' } : lead
-          ));
-        }
-      } catch (error) {
-        // Silent fail for status update
-      }
-    }
+  // The conversion itself marks the lead converted and links its account
+  const handleConvertSuccess = () => {
     fetchLeads();
     setLeadToConvert(null);
   };
@@ -547,25 +545,6 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
     return colors[index];
   };
 
-  const getStatusBadgeClasses = (status?: string) => {
-    switch (status) {
-      case 'New':
-        return 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300 border-blue-200 dark:border-blue-800';
-      case 'Attempted':
-        return 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-300 border-amber-200 dark:border-amber-800';
-      case 'Follow-up':
-        return 'bg-slate-100 text-slate-700 dark:bg-slate-800/30 dark:text-slate-300 border-slate-200 dark:border-slate-700';
-      case 'Qualified':
-        return 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/20 dark:text-emerald-300 border-emerald-200 dark:border-emerald-800';
-      case 'Disqualified':
-        return 'bg-rose-50 text-rose-700 dark:bg-rose-900/20 dark:text-rose-300 border-rose-200 dark:border-rose-800';
-      case 'Converted':
-        return 'bg-indigo-50 text-indigo-700 dark:bg-indigo-900/20 dark:text-indigo-300 border-indigo-200 dark:border-indigo-800';
-      default:
-        return 'bg-muted text-muted-foreground border-border';
-    }
-  };
-
   return (
     <div className="flex flex-col h-full space-y-3">
       {/* Header and Actions */}
@@ -723,12 +702,14 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
                             )
                           ) : column.field === 'lead_status' ? (
                             lead.lead_status ? (
-                              <Badge variant="outline" className={getStatusBadgeClasses(lead.lead_status)}>
+                              <Badge variant="outline" style={getStageStyle(getStatusColor(lead.lead_status))}>
                                 {lead.lead_status}
                               </Badge>
                             ) : (
                               <span className="text-center text-muted-foreground w-full block">-</span>
                             )
+                          ) : column.field === 'score' ? (
+                            <ScoreBadge score={lead.score ?? 0} breakdown={lead.score_breakdown} />
                           ) : column.field === 'email' ? (
                             lead.email ? (
                               <HighlightedText text={lead.email} highlight={debouncedSearchTerm} />
@@ -750,7 +731,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
                           ) : (
                             lead[column.field as keyof Lead] ? (
                               <span className="truncate block" title={lead[column.field as keyof Lead]?.toString()}>
-                                {lead[column.field as keyof Lead]}
+                                {lead[column.field as keyof Lead]?.toString()}
                               </span>
                             ) : (
                               <span className="text-center text-muted-foreground w-full block">-</span>
@@ -785,6 +766,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
                                     company_name: lead.company_name || lead.account_company_name,
                                     position: lead.position,
                                   });
+                                  setEmailLeadId(lead.id);
                                   setEmailModalOpen(true);
                                 },
                                 disabled: !lead.email
@@ -803,10 +785,10 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
                                 onClick: () => handleCreateTask(lead)
                               },
                               ...(userRole !== 'user' ? [{
-                                label: "Convert to Deal",
+                                label: "Convert Lead",
                                 icon: <RefreshCw className="w-4 h-4" />,
-                                onClick: () => handleConvertToDeal(lead),
-                                disabled: lead.lead_status === 'Converted',
+                                onClick: () => handleConvertLead(lead),
+                                disabled: isConvertedStatus(lead.lead_status),
                                 separator: true
                               }] : []),
                               {
@@ -886,11 +868,11 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
         isSaving={isSaving} 
       />
 
-      <ConvertToDealModal 
-        open={showConvertModal} 
-        onOpenChange={setShowConvertModal} 
-        lead={leadToConvert} 
-        onSuccess={handleConvertSuccess} 
+      <LeadConversionWizard
+        open={showConvertModal}
+        onOpenChange={setShowConvertModal}
+        lead={leadToConvert}
+        onSuccess={handleConvertSuccess}
       />
 
       <TaskModal
@@ -920,6 +902,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
         open={emailModalOpen}
         onOpenChange={setEmailModalOpen}
         recipient={emailRecipient}
+        leadId={emailLeadId}
       />
 
       <MeetingModal
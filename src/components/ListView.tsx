@@ -5,7 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Deal, DealStage, DEAL_STAGES, STAGE_COLORS } from "@/types/deal";
+import { Deal, DealStage } from "@/types/deal";
 import { Search, Filter, X, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, Briefcase } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RowActionsDropdown, Edit, Trash2, CheckSquare } from "./RowActionsDropdown";
@@ -24,9 +24,17 @@ import { DeleteConfirmDialog } from "./shared/DeleteConfirmDialog";
 import { ClearFiltersButton } from "./shared/ClearFiltersButton";
 import { HighlightedText } from "./shared/HighlightedText";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
+import { usePipelineStages, getStageStyle } from "@/hooks/usePipelineStages";
+import { useCurrencyConversion } from "@/hooks/useCurrencyConversion";
+import { getDealConversionDate } from "@/utils/currencyConversion";
 
 const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
 
+// The stage URL parameter may carry several comma-separated stages (e.g. all won stages)
+const parseStageFilter = (stageFilter: string): DealStage[] => {
+  return stageFilter === 'all' ? [] : stageFilter.split(',').filter(Boolean);
+};
+
 interface ListViewProps {
   deals: Deal[];
   onDealClick: (deal: Deal) => void;
@@ -47,7 +55,7 @@ export const ListView = ({
   const [searchTerm, setSearchTerm] = useState("");
   const [leadOwnerFilter, setLeadOwnerFilter] = useState("all");
   const [filters, setFilters] = useState<AdvancedFilterState>(() => ({
-    stages: initialStageFilter !== 'all' ? [initialStageFilter as DealStage] : [],
+    stages: parseStageFilter(initialStageFilter),
     regions: [],
     leadOwners: [],
     priorities: [],
@@ -71,7 +79,7 @@ export const ListView = ({
   // Sync stage filter when initialStageFilter prop changes (from URL)
   useEffect(() => {
     if (initialStageFilter !== 'all') {
-      setFilters(prev => ({ ...prev, stages: [initialStageFilter as DealStage] }));
+      setFilters(prev => ({ ...prev, stages: parseStageFilter(initialStageFilter) }));
     }
   }, [initialStageFilter]);
   
@@ -143,11 +151,13 @@ export const ListView = ({
   const tableRef = useRef<HTMLTableElement>(null);
 
   const { toast } = useToast();
+  const { getStage, getStageColor, getStageTransitionUpdates } = usePipelineStages();
+
+  const { formatWithConversion } = useCurrencyConversion();
 
-  const formatCurrency = (amount: number | undefined, currency: string = 'EUR') => {
+  const formatCurrency = (amount: number | undefined, deal: Deal) => {
     if (!amount) return '-';
-    const symbols = { USD: '$', EUR: '€', INR: '₹' };
-    return `${symbols[currency as keyof typeof symbols] || '€'}${amount.toLocaleString()}`;
+    return formatWithConversion(amount, deal.currency_type, getDealConversionDate(deal));
   };
 
   const formatDate = (date: string | undefined) => {
@@ -159,28 +169,6 @@ export const ListView = ({
     }
   };
 
-  // Stage badge styling (matching Accounts module)
-  const getStageBadgeClasses = (stage?: string) => {
-    switch (stage) {
-      case 'Won':
-        return 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/20 dark:text-emerald-300 border-emerald-200';
-      case 'Dropped':
-        return 'bg-gray-100 text-gray-600 dark:bg-gray-800/30 dark:text-gray-400 border-gray-200';
-      case 'Lead':
-        return 'bg-slate-100 text-slate-700 dark:bg-slate-800/30 dark:text-slate-300 border-slate-200';
-      case 'Qualified':
-        return 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300 border-blue-200';
-      case 'Discussions':
-        return 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-300 border-amber-200';
-      case 'Offered':
-        return 'bg-purple-50 text-purple-700 dark:bg-purple-900/20 dark:text-purple-300 border-purple-200';
-      case 'RFQ':
-        return 'bg-indigo-50 text-indigo-700 dark:bg-indigo-900/20 dark:text-indigo-300 border-indigo-200';
-      default:
-        return 'bg-muted text-muted-foreground border-border';
-    }
-  };
-
   // Generate initials from project name
   const getProjectInitials = (name: string) => {
     return name.split(' ').slice(0, 2).map(word => word.charAt(0).toUpperCase()).join('');
@@ -296,7 +284,11 @@ export const ListView = ({
 
   const handleInlineEdit = async (dealId: string, field: string, value: any) => {
     try {
-      await onUpdateDeal(dealId, { [field]: value });
+      const deal = deals.find(d => d.id === dealId);
+      const updates = field === 'stage' && deal
+        ? getStageTransitionUpdates(deal, value)
+        : { [field]: value };
+      await onUpdateDeal(dealId, updates);
       toast({
         title: "Deal updated",
         description: "Field updated successfully",
@@ -397,7 +389,11 @@ export const ListView = ({
       let bValue: any;
 
       // Get the values for the sort field
-      if (['priority', 'probability', 'project_duration'].includes(sortBy)) {
+      if (sortBy === 'stage') {
+        // Stages sort by their pipeline position rather than alphabetically
+        aValue = getStage(a.stage)?.stage_order ?? Number.MAX_SAFE_INTEGER;
+        bValue = getStage(b.stage)?.stage_order ?? Number.MAX_SAFE_INTEGER;
+      } else if (['priority', 'probability', 'project_duration'].includes(sortBy)) {
         aValue = a[sortBy as keyof Deal] || 0;
         bValue = b[sortBy as keyof Deal] || 0;
       } else if (['total_contract_value', 'total_revenue'].includes(sortBy)) {
@@ -643,7 +639,7 @@ export const ListView = ({
                         </span>
                       ) : column.field === 'stage' ? (
                         deal.stage ? (
-                          <Badge variant="outline" className={`whitespace-nowrap ${getStageBadgeClasses(deal.stage)}`}>
+                          <Badge variant="outline" className="whitespace-nowrap" style={getStageStyle(getStageColor(deal.stage))}>
                             {deal.stage}
                           </Badge>
                         ) : <span className="text-center text-muted-foreground block">-</span>
@@ -653,7 +649,7 @@ export const ListView = ({
                         </span>
                       ) : column.field === 'total_contract_value' || column.field === 'total_revenue' ? (
                         deal[column.field as keyof Deal] ? (
-                          <span className="font-medium">{formatCurrency(deal[column.field as keyof Deal] as number, deal.currency_type)}</span>
+                          <span className="font-medium">{formatCurrency(deal[column.field as keyof Deal] as number, deal)}</span>
                         ) : (
                           <span className="text-center text-muted-foreground w-full block">-</span>
                         )
@@ -12,13 +12,29 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
-import { Video, Loader2, CalendarIcon, XCircle, X, Plus, User } from "lucide-react";
+import { Video, Loader2, CalendarIcon, XCircle, X, Plus, User, Repeat, Download } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
 import { MeetingOutcomeSelect } from "@/components/meetings/MeetingOutcomeSelect";
 import { MeetingConflictWarning } from "@/components/meetings/MeetingConflictWarning";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { getMeetingStatus } from "@/utils/meetingStatus";
+import { MeetingRecurrenceFields } from "@/components/meetings/MeetingRecurrenceFields";
+import { useMeetingSeries } from "@/hooks/useMeetingSeries";
+import {
+  DEFAULT_RECURRENCE_FORM_VALUE,
+  MeetingRecurrenceFormValue,
+  describeMeetingRecurrence,
+  expandMeetingSeries,
+  getSeriesEndDateBefore,
+  seriesToRule,
+  shiftSeriesStart,
+  toRecurrenceFormValue,
+  toRecurrenceRule,
+  toTeamsRecurrence,
+  validateRecurrenceRule,
+} from "@/utils/meetingRecurrence";
+import { buildIcsCalendar, downloadIcsFile, getIcsFilename, meetingToIcsEvent } from "@/utils/icsExport";
 
 
 // Comprehensive timezones (40 options, ordered by GMT offset)
@@ -291,6 +307,8 @@ interface Meeting {
   status: string;
   outcome?: string | null;
   notes?: string | null;
+  series_id?: string | null;
+  original_start_time?: string | null;
 }
 interface Lead {
   id: string;
@@ -342,6 +360,19 @@ export const MeetingModal = ({
   const [duration, setDuration] = useState("60");
   const [durationMode, setDurationMode] = useState<'duration' | 'endTime'>('duration');
 
+  // Recurrence, and whether edits to an occurrence apply to it alone or to the series
+  const [recurrence, setRecurrence] = useState<MeetingRecurrenceFormValue>(DEFAULT_RECURRENCE_FORM_VALUE);
+  const [applyTo, setApplyTo] = useState<'occurrence' | 'series'>('occurrence');
+  const [initializedMeetingId, setInitializedMeetingId] = useState<string | null>(null);
+  const {
+    series,
+    occurrences: seriesOccurrences,
+    createSeries,
+    updateSeries,
+    cancelOccurrence,
+    cancelSeries
+  } = useMeetingSeries(meeting?.series_id);
+
   // Auto-calculate duration when end time changes
   const calculateDurationFromTimes = (start: string, end: string): number => {
     const [startH, startM] = start.split(':').map(Number);
@@ -502,9 +533,42 @@ export const MeetingModal = ({
     const utcTime = fromZonedTime(dt, timezone);
     return utcTime.toISOString();
   }, [startDate, startTime, endTime, timezone]);
+
+  const isPersistedMeeting = !!(meeting?.id && meeting.id.trim() !== "");
+  const effectiveStatus = meeting ? getMeetingStatus(meeting) : "scheduled";
+  const isSeriesOccurrence = isPersistedMeeting && !!meeting?.series_id;
+
+  // Cancelled meetings are re-created as new meetings, so they can start a new series
+  const canEditRecurrence =
+    effectiveStatus === "cancelled" ||
+    (effectiveStatus !== "completed" && (!isSeriesOccurrence || applyTo === "series"));
+  const recurrenceRule = canEditRecurrence ? toRecurrenceRule(recurrence) : null;
+
+  // Every meeting the series will have once saved
+  const plannedOccurrences = useMemo(() => {
+    const rule = canEditRecurrence ? toRecurrenceRule(recurrence) : null;
+    if (!rule || !proposedStartTime || !proposedEndTime) return [];
+    const start = new Date(proposedStartTime);
+    const durationMinutes = Math.round((new Date(proposedEndTime).getTime() - start.getTime()) / 60000);
+
+    // Editing the series from one of its meetings moves the whole series along with that meeting
+    const firstStart = isSeriesOccurrence && series && effectiveStatus !== "cancelled" && meeting
+      ? shiftSeriesStart(series.starts_at, meeting.original_start_time || meeting.start_time, start, timezone)
+      : start;
+    return expandMeetingSeries(rule, firstStart, durationMinutes, timezone);
+  }, [canEditRecurrence, recurrence, proposedStartTime, proposedEndTime, isSeriesOccurrence, series, effectiveStatus, meeting, timezone]);
+
+  const recurrenceError = recurrenceRule ? validateRecurrenceRule(recurrenceRule, plannedOccurrences) : null;
+  const recurrenceSummary = recurrenceRule && !recurrenceError
+    ? `${describeMeetingRecurrence(recurrenceRule)} · ${plannedOccurrences.length} meeting${plannedOccurrences.length === 1 ? "" : "s"}, first on ${format(toZonedTime(plannedOccurrences[0].start, timezone), "dd MMM yyyy")}`
+    : recurrenceError;
   useEffect(() => {
     const initializeModal = async () => {
       if (open) {
+        setInitializedMeetingId(null);
+        setRecurrence(DEFAULT_RECURRENCE_FORM_VALUE);
+        setApplyTo('occurrence');
+
         // Fetch leads and contacts first before setting form data
         await fetchLeadsAndContacts();
         
@@ -542,6 +606,7 @@ export const MeetingModal = ({
           } else {
             setParticipants([]);
           }
+          setInitializedMeetingId(meeting.id);
         } else {
           // Default: next available 30-min slot in user's timezone
           const browserTz = getBrowserTimezone();
@@ -586,6 +651,21 @@ export const MeetingModal = ({
     
     initializeModal();
   }, [open, meeting]);
+
+  // A series keeps its own timezone; show the occurrence and the rule in it
+  useEffect(() => {
+    if (!open || !meeting || !series || initializedMeetingId !== meeting.id || series.id !== meeting.series_id) return;
+    const start = toZonedTime(new Date(meeting.start_time), series.timezone);
+    const end = toZonedTime(new Date(meeting.end_time), series.timezone);
+    setTimezone(series.timezone);
+    setStartDate(start);
+    setStartTime(format(start, "HH:mm"));
+    setEndTime(format(end, "HH:mm"));
+    // Re-creating a cancelled occurrence makes a one-off meeting unless a new rule is picked
+    if (meeting.status !== "cancelled") {
+      setRecurrence(toRecurrenceFormValue(seriesToRule(series)));
+    }
+  }, [open, meeting, series, initializedMeetingId]);
   const fetchLeadsAndContacts = async () => {
     try {
       const [leadsRes, contactsRes] = await Promise.all([supabase.from('leads').select('id, lead_name, email').order('lead_name'), supabase.from('contacts').select('id, contact_name, email').order('contact_name')]);
@@ -660,7 +740,16 @@ export const MeetingModal = ({
         data,
         error
       } = await supabase.functions.invoke('create-teams-meeting', {
-        body: {
+        body: recurrenceRule ? {
+          subject: formData.subject,
+          attendees,
+          // A series is created as one recurring event starting at its first meeting
+          startTime: plannedOccurrences[0].start.toISOString(),
+          endTime: plannedOccurrences[0].end.toISOString(),
+          timezone,
+          description: formData.description,
+          recurrence: toTeamsRecurrence(recurrenceRule, plannedOccurrences[0].start, timezone)
+        } : {
           subject: formData.subject,
           attendees,
           startTime: buildISODateTime(startDate, startTime),
@@ -769,30 +858,74 @@ export const MeetingModal = ({
         outcome: formData.outcome || null,
       };
 
+      const seriesFields = {
+        subject: meetingData.subject,
+        description: meetingData.description,
+        join_url: meetingData.join_url,
+        lead_id: meetingData.lead_id,
+        contact_id: meetingData.contact_id,
+        attendees: meetingData.attendees,
+      };
+      const durationMinutes = Math.round(
+        (new Date(meetingData.end_time).getTime() - new Date(meetingData.start_time).getTime()) / 60000
+      );
+      const editsOccurrence = isUpdate && isSeriesOccurrence && !recurrenceRule;
+
       // Sync updates back to Teams/Outlook (existing meetings only)
       if (isUpdate && options?.syncTeams && joinUrl) {
+        const firstOccurrence = plannedOccurrences[0];
         const { error: teamsError } = await supabase.functions.invoke("update-teams-meeting", {
           body: {
             meetingId: meeting!.id,
             joinUrl,
             subject: meetingData.subject,
             attendees: attendeesPayload,
-            startTime: meetingData.start_time,
-            endTime: meetingData.end_time,
+            startTime: recurrenceRule ? firstOccurrence.start.toISOString() : meetingData.start_time,
+            endTime: recurrenceRule ? firstOccurrence.end.toISOString() : meetingData.end_time,
             timezone,
             description: formData.description || "",
+            ...(recurrenceRule && {
+              scope: "series",
+              recurrence: toTeamsRecurrence(recurrenceRule, firstOccurrence.start, timezone),
+            }),
+            ...(editsOccurrence && {
+              scope: "occurrence",
+              occurrenceStart: meeting!.original_start_time || meeting!.start_time,
+            }),
           },
         });
         if (teamsError) throw teamsError;
       }
 
-      if (isUpdate) {
+      if (isUpdate && recurrenceRule) {
+        await updateSeries({
+          meeting: meeting!,
+          start: new Date(meetingData.start_time),
+          end: new Date(meetingData.end_time),
+          fields: seriesFields,
+          rule: recurrenceRule,
+          timezone,
+          durationMinutes,
+          occurrences: plannedOccurrences,
+        });
+        toast({ title: "Success", description: "Meeting series saved" });
+      } else if (isUpdate) {
         const { error } = await supabase
           .from("meetings")
-          .update(meetingData)
+          // A meeting changed on its own keeps its changes when the series is edited later
+          .update(editsOccurrence && options?.syncTeams ? { ...meetingData, is_series_exception: true } : meetingData)
           .eq("id", meeting!.id);
         if (error) throw error;
         toast({ title: "Success", description: "Meeting saved" });
+      } else if (recurrenceRule) {
+        await createSeries({
+          fields: seriesFields,
+          rule: recurrenceRule,
+          timezone,
+          durationMinutes,
+          occurrences: plannedOccurrences,
+        });
+        toast({ title: "Success", description: `Meeting series created with ${plannedOccurrences.length} meetings` });
       } else {
         const { error } = await supabase
           .from("meetings")
@@ -814,6 +947,28 @@ export const MeetingModal = ({
       setLoading(false);
     }
   };
+  // Downloads the saved meeting, or every remaining meeting of its series, in the selected timezone
+  const handleExportIcs = () => {
+    if (!meeting) return;
+    const rows = isSeriesOccurrence && applyTo === 'series'
+      ? seriesOccurrences
+          .filter(occurrence => occurrence.status !== 'cancelled')
+          .map(occurrence => ({ ...meeting, ...occurrence }))
+      : [meeting];
+    const organizer = user?.email ? { email: user.email } : null;
+    const events = rows.map(row => meetingToIcsEvent({
+      id: row.id,
+      subject: row.subject,
+      description: row.description ?? null,
+      start_time: row.start_time,
+      end_time: row.end_time,
+      join_url: row.join_url ?? null,
+      status: row.status,
+      attendees: row.attendees
+    }, timezone, organizer));
+    downloadIcsFile(buildIcsCalendar(events), getIcsFilename(meeting.subject));
+  };
+
   const handleCancelMeeting = async () => {
     if (!meeting?.id || !meeting?.join_url) {
       toast({
@@ -825,25 +980,52 @@ export const MeetingModal = ({
     }
     setCancellingMeeting(true);
     try {
+      const cancelsSeries = isSeriesOccurrence && applyTo === 'series' && !!series;
+      const currentTime = new Date();
+
+      // Meetings of the series that already took place stay; the rule ends the day before the next one
+      const upcoming = seriesOccurrences.filter(o => o.status !== 'cancelled' && new Date(o.start_time) >= currentTime);
+      const hasPastOccurrences = seriesOccurrences.some(o => new Date(o.start_time) < currentTime);
+      const seriesEndDate = series
+        ? getSeriesEndDateBefore(upcoming[0]?.original_start_time || upcoming[0]?.start_time || currentTime.toISOString(), series.timezone)
+        : undefined;
       const {
-        data,
         error
       } = await supabase.functions.invoke('cancel-teams-meeting', {
         body: {
           meetingId: meeting.id,
-          joinUrl: meeting.join_url
+          joinUrl: meeting.join_url,
+          ...(cancelsSeries && {
+            scope: 'series',
+            seriesEndDate: hasPastOccurrences ? seriesEndDate : undefined
+          }),
+          ...(isSeriesOccurrence && !cancelsSeries && {
+            scope: 'occurrence',
+            occurrenceStart: meeting.original_start_time || meeting.start_time
+          })
         }
       });
       if (error) throw error;
-      const {
-        error: updateError
-      } = await supabase.from('meetings').update({
-        status: 'cancelled'
-      }).eq('id', meeting.id);
-      if (updateError) throw updateError;
+      if (cancelsSeries) {
+        await cancelSeries({
+          id: series!.id,
+          endDate: seriesEndDate!
+        });
+      } else if (isSeriesOccurrence) {
+        await cancelOccurrence(meeting.id);
+      } else {
+        const {
+          error: updateError
+        } = await supabase.from('meetings').update({
+          status: 'cancelled'
+        }).eq('id', meeting.id);
+        if (updateError) throw updateError;
+      }
       toast({
         title: "Meeting Cancelled",
-        description: "The Teams meeting has been cancelled"
+        description: cancelsSeries
+          ? `${upcoming.length} upcoming meeting${upcoming.length === 1 ? '' : 's'} in the series cancelled`
+          : "The Teams meeting has been cancelled"
       });
       onSuccess();
       onOpenChange(false);
@@ -880,8 +1062,6 @@ export const MeetingModal = ({
   };
   const selectedTimezone = TIMEZONES.find(tz => tz.value === timezone);
 
-  const isPersistedMeeting = !!(meeting?.id && meeting.id.trim() !== "");
-  const effectiveStatus = meeting ? getMeetingStatus(meeting) : "scheduled";
   const canCancel =
     isPersistedMeeting &&
     !!meeting?.join_url &&
@@ -918,6 +1098,24 @@ export const MeetingModal = ({
             />
           </div>
 
+          {/* Series occurrences: edit or cancel this meeting alone, or the series */}
+          {isSeriesOccurrence && effectiveStatus !== "cancelled" && effectiveStatus !== "completed" && <div className="space-y-1.5">
+              <Label className="text-xs font-medium">Apply Changes To</Label>
+              <Select value={applyTo} onValueChange={value => setApplyTo(value as 'occurrence' | 'series')}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="occurrence" className="text-xs">This meeting only</SelectItem>
+                  <SelectItem value="series" className="text-xs">All upcoming meetings in the series</SelectItem>
+                </SelectContent>
+              </Select>
+              {series && applyTo === 'occurrence' && <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                  <Repeat className="h-3 w-3" />
+                  {describeMeetingRecurrence(seriesToRule(series))}
+                </p>}
+            </div>}
+
           {/* Timezone, Date, Time & Duration Row */}
           <div className="grid grid-cols-4 gap-2">
             <div className="space-y-1.5">
@@ -970,6 +1168,11 @@ export const MeetingModal = ({
                 <PopoverContent className="w-auto p-0 z-50" align="start">
                   <Calendar mode="single" selected={startDate} onSelect={date => {
                   setStartDate(date);
+                  // A weekly series on a single day follows the date it starts on
+                  setRecurrence(prev => date && prev.frequency === 'weekly' && prev.byWeekday.length === 1 ? {
+                    ...prev,
+                    byWeekday: [date.getDay()]
+                  } : prev);
                   setDatePopoverOpen(false);
                 }} disabled={date => date < todayInTimezone} initialFocus className="pointer-events-auto" />
                 </PopoverContent>
@@ -1031,8 +1234,11 @@ export const MeetingModal = ({
             </div>
           </div>
 
+          {/* Recurrence */}
+          {canEditRecurrence && <MeetingRecurrenceFields value={recurrence} onChange={setRecurrence} startWeekday={(startDate ?? todayInTimezone).getDay()} minDate={startDate} allowNone={!isSeriesOccurrence || effectiveStatus === "cancelled"} summary={recurrenceSummary} />}
+
           {/* Conflict Warning */}
-          {proposedStartTime && proposedEndTime && <MeetingConflictWarning startTime={proposedStartTime} endTime={proposedEndTime} excludeMeetingId={meeting?.id} />}
+          {proposedStartTime && proposedEndTime && <MeetingConflictWarning startTime={proposedStartTime} endTime={proposedEndTime} excludeMeetingId={meeting?.id} occurrences={recurrenceRule && !recurrenceError ? plannedOccurrences.filter(o => o.end > now) : undefined} excludeSeriesId={recurrenceRule && effectiveStatus !== "cancelled" ? meeting?.series_id : undefined} />}
 
           {/* Related To */}
           <div className="space-y-1.5">
@@ -1142,10 +1348,16 @@ export const MeetingModal = ({
             <div>
               {canCancel && <Button type="button" variant="destructive" size="sm" disabled={cancellingMeeting || loading} onClick={handleCancelMeeting} className="gap-1 h-8 text-xs">
                   {cancellingMeeting ? <Loader2 className="h-3 w-3 animate-spin" /> : <XCircle className="h-3 w-3" />}
-                  {cancellingMeeting ? "Cancelling..." : "Cancel"}
+                  {cancellingMeeting ? "Cancelling..." : isSeriesOccurrence && applyTo === 'series' ? "Cancel Series" : "Cancel"}
                 </Button>}
             </div>
             <div className="flex gap-2">
+              {isPersistedMeeting && (
+                <Button type="button" variant="outline" size="sm" className="gap-1 h-8 text-xs" onClick={handleExportIcs}>
+                  <Download className="h-3 w-3" />
+                  .ics
+                </Button>
+              )}
               {formData.join_url && (
                 <Button
                   type="button"
@@ -1175,6 +1387,15 @@ export const MeetingModal = ({
                 return;
               }
 
+              if (recurrenceError) {
+                toast({
+                  title: "Invalid repeat settings",
+                  description: recurrenceError,
+                  variant: "destructive"
+                });
+                return;
+              }
+
               const isCancelled = effectiveStatus === "cancelled";
               const isCompleted = effectiveStatus === "completed";
 
@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect } from 'react';
-import { Bell, X, MoreVertical, Trash2, CheckCheck } from 'lucide-react';
+import { Bell, X, MoreVertical, Trash2, CheckCheck, AlarmClock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -8,12 +8,16 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
 } from '@/components/ui/dropdown-menu';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useNotifications } from '@/hooks/useNotifications';
 import { formatDistanceToNow } from 'date-fns';
 import { useNavigate } from 'react-router-dom';
 import { cn } from '@/lib/utils';
+import { TASK_SNOOZE_OPTIONS } from '@/utils/taskReminders';
 
 interface NotificationBellProps { 
   placement?: 'up' | 'down'
@@ -22,7 +26,7 @@ interface NotificationBellProps {
 
 export const NotificationBell = ({ placement = 'down', size = 'large' }: NotificationBellProps) => {
   const [isOpen, setIsOpen] = useState(false);
-  const { notifications, unreadCount, markAsRead, markAllAsRead, deleteNotification } = useNotifications();
+  const { notifications, unreadCount, markAsRead, markAllAsRead, snoozeReminder, deleteNotification } = useNotifications();
   const navigate = useNavigate();
   const dropdownRef = useRef<HTMLDivElement>(null);
 
@@ -52,7 +56,16 @@ export const NotificationBell = ({ placement = 'down', size = 'large' }: Notific
     const leadMatch = message.match(/lead[:\s]+([a-f0-9-]{36})/);
     
     // Navigate based on the notification content and available IDs
-    if (notification.lead_id) {
+    if (notification.notification_type === 'approval_request') {
+      // Approval notifications open the approvals inbox
+      navigate('/approvals');
+    } else if (notification.task_id) {
+      // Task reminders open the task
+      navigate(`/tasks?viewId=${notification.task_id}`);
+    } else if (notification.meeting_id) {
+      // Meeting reminders open the meeting
+      navigate(`/meetings?viewId=${notification.meeting_id}`);
+    } else if (notification.lead_id) {
       // Direct lead ID available, navigate to leads page
       navigate(`/leads?highlight=${notification.lead_id}`);
     } else if (dealMatch) {
@@ -101,8 +114,16 @@ export const NotificationBell = ({ placement = 'down', size = 'large' }: Notific
         return '📋';
       case 'lead_update':
         return '👤';
+      case 'lead_assigned':
+        return '🎯';
       case 'deal_update':
         return '💼';
+      case 'approval_request':
+        return '✅';
+      case 'task_reminder':
+        return '⏰';
+      case 'meeting_reminder':
+        return '📅';
       default:
         return '🔔';
     }
@@ -242,6 +263,27 @@ export const NotificationBell = ({ placement = 'down', size = 'large' }: Notific
                               Mark as read
                             </DropdownMenuItem>
                           )}
+                          {notification.notification_type === 'task_reminder' && notification.task_id && (
+                            <DropdownMenuSub>
+                              <DropdownMenuSubTrigger onClick={(e) => e.stopPropagation()}>
+                                <AlarmClock className="h-4 w-4 mr-2" />
+                                Snooze
+                              </DropdownMenuSubTrigger>
+                              <DropdownMenuSubContent>
+                                {TASK_SNOOZE_OPTIONS.map(option => (
+                                  <DropdownMenuItem
+                                    key={option.minutes}
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      snoozeReminder(notification.id, option.minutes);
+                                    }}
+                                  >
+                                    {option.label}
+                                  </DropdownMenuItem>
+                                ))}
+                              </DropdownMenuSubContent>
+                            </DropdownMenuSub>
+                          )}
                           <DropdownMenuSeparator />
                           <DropdownMenuItem
                             onClick={(e) => handleDeleteNotification(e, notification.id)}
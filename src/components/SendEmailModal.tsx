@@ -2,13 +2,17 @@ import { useState, useEffect, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useEmailTemplateContext } from "@/hooks/useEmailTemplateContext";
+import { SUPPRESSION_REASON_LABELS, useEmailSuppression } from "@/hooks/useEmailSuppressions";
+import { buildTemplateContext, renderTemplate } from "@/utils/emailTemplateEngine";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Mail, Send, Loader2, Paperclip, X, FileIcon } from "lucide-react";
+import { format } from "date-fns";
+import { Mail, MailX, Send, Loader2, Paperclip, X, FileIcon } from "lucide-react";
 
 // Generic recipient interface that works with contacts, leads, and accounts
 export interface EmailRecipient {
@@ -25,6 +29,12 @@ interface EmailTemplate {
   body: string;
 }
 
+interface InviteMeeting {
+  id: string;
+  subject: string;
+  start_time: string;
+}
+
 interface SendEmailModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -51,6 +61,8 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
   const [body, setBody] = useState("");
   const [isSending, setIsSending] = useState(false);
   const [attachments, setAttachments] = useState<File[]>([]);
+  const [inviteMeetings, setInviteMeetings] = useState<InviteMeeting[]>([]);
+  const [inviteMeetingId, setInviteMeetingId] = useState("none");
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const senderEmail = user?.email || "noreply@acmecrm.com";
@@ -63,6 +75,12 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
     position: contact.position,
   } : null);
 
+  // Lead/contact, account, deal and meeting values for the selected template
+  const { suppression } = useEmailSuppression(open ? emailRecipient?.email : null);
+  const { data: templateContext } = useEmailTemplateContext(
+    open && emailRecipient ? { leadId, contactId, accountId, recipient: emailRecipient } : null
+  );
+
   useEffect(() => {
     if (open) {
       fetchTemplates();
@@ -73,6 +91,30 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
     }
   }, [open]);
 
+  // Upcoming meetings with this lead or contact, any of which can go out as an .ics invite
+  useEffect(() => {
+    if (!open) return;
+    setInviteMeetingId("none");
+    setInviteMeetings([]);
+    if (!leadId && !contactId) return;
+
+    supabase
+      .from('meetings')
+      .select('id, subject, start_time')
+      .eq(leadId ? 'lead_id' : 'contact_id', (leadId || contactId)!)
+      .eq('status', 'scheduled')
+      .gte('start_time', new Date().toISOString())
+      .order('start_time')
+      .limit(20)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching meetings:', error);
+          return;
+        }
+        setInviteMeetings(data || []);
+      });
+  }, [open, leadId, contactId]);
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files) {
@@ -137,17 +179,6 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
     }
   };
 
-  const replaceVariables = (text: string, recipientData: EmailRecipient | null) => {
-    if (!recipientData) return text;
-    
-    return text
-      .replace(/\{\{contact_name\}\}/g, recipientData.name || '')
-      .replace(/\{\{name\}\}/g, recipientData.name || '')
-      .replace(/\{\{company_name\}\}/g, recipientData.company_name || '')
-      .replace(/\{\{position\}\}/g, recipientData.position || '')
-      .replace(/\{\{email\}\}/g, recipientData.email || '');
-  };
-
   const handleTemplateSelect = (templateId: string) => {
     setSelectedTemplate(templateId);
     
@@ -159,8 +190,10 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
 
     const template = templates.find(t => t.id === templateId);
     if (template) {
-      setSubject(replaceVariables(template.subject, emailRecipient));
-      setBody(replaceVariables(template.body, emailRecipient));
+      // Records still loading: fill in from what the caller passed
+      const context = templateContext || buildTemplateContext({ recipient: emailRecipient });
+      setSubject(renderTemplate(template.subject, context));
+      setBody(renderTemplate(template.body, context));
     }
   };
 
@@ -174,6 +207,15 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
       return;
     }
 
+    if (suppression) {
+      toast({
+        title: "Do not email",
+        description: `${emailRecipient.email} is on the suppression list (${SUPPRESSION_REASON_LABELS[suppression.reason].toLowerCase()})`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (!subject.trim()) {
       toast({
         title: "Subject required",
@@ -203,6 +245,9 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
           body: body.trim(),
           from: senderEmail,
           attachments: attachmentData,
+          calendarInvite: inviteMeetingId !== "none"
+            ? { meetingId: inviteMeetingId, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone }
+            : undefined,
         },
       });
 
@@ -301,6 +346,16 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
             </div>
           </div>
 
+          {suppression && (
+            <div className="flex items-start gap-2 p-3 rounded-lg border border-destructive/50 text-destructive text-sm">
+              <MailX className="h-4 w-4 mt-0.5 shrink-0" />
+              <p>
+                This address is on the suppression list ({SUPPRESSION_REASON_LABELS[suppression.reason].toLowerCase()}), so the email can't be sent.
+                It can be allowed again from the record or under Settings → Email Center → Suppressions.
+              </p>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="template">Email Template</Label>
             <Select value={selectedTemplate} onValueChange={handleTemplateSelect}>
@@ -344,6 +399,28 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
             />
           </div>
 
+          {inviteMeetings.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="meeting-invite">Meeting Invite</Label>
+              <Select value={inviteMeetingId} onValueChange={setInviteMeetingId}>
+                <SelectTrigger id="meeting-invite">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No invite</SelectItem>
+                  {inviteMeetings.map((meeting) => (
+                    <SelectItem key={meeting.id} value={meeting.id}>
+                      {meeting.subject} · {format(new Date(meeting.start_time), "dd MMM yyyy, HH:mm")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Attached as an .ics file the recipient can add to any calendar.
+              </p>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label>Attachments</Label>
             <div className="flex items-center gap-2">
@@ -405,7 +482,7 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
             </Button>
             <Button 
               onClick={handleSendEmail} 
-              disabled={!emailRecipient?.email || isSending}
+              disabled={!emailRecipient?.email || !!suppression || isSending}
               className="gap-2"
             >
               {isSending ? (
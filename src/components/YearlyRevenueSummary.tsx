@@ -11,6 +11,9 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { getCurrencySymbol } from "@/utils/formatUtils";
+import { DEFAULT_REPORTING_CURRENCY } from "@/utils/currencyConversion";
 interface YearlyRevenueSummaryProps {
   selectedYear?: number;
 }
@@ -24,6 +27,10 @@ const YearlyRevenueSummary = ({
     toast
   } = useToast();
   const navigate = useNavigate();
+  const {
+    wonStageNames,
+    openStageNames
+  } = usePipelineStages();
   const {
     years,
     isLoading: yearsLoading
@@ -41,10 +48,12 @@ const YearlyRevenueSummary = ({
   } = useYearlyRevenueData(selectedYear);
   const [editingTarget, setEditingTarget] = useState(false);
   const [targetValue, setTargetValue] = useState('');
+  // Revenue data is already converted to the company reporting currency
+  const reportingCurrency = revenueData?.currency || DEFAULT_REPORTING_CURRENCY;
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'EUR',
+      currency: reportingCurrency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0
     }).format(amount);
@@ -61,6 +70,7 @@ const YearlyRevenueSummary = ({
       } = await supabase.from('yearly_revenue_targets').upsert({
         year: selectedYear,
         total_target: Number(targetValue),
+        currency: reportingCurrency,
         created_by: user.id
       }, {
         onConflict: 'year'
@@ -83,9 +93,9 @@ const YearlyRevenueSummary = ({
   const handleCardClick = (type: 'actual' | 'projected', quarter?: string) => {
     const params = new URLSearchParams();
     if (type === 'actual') {
-      params.append('stage', 'Won');
+      params.append('stage', wonStageNames.join(','));
     } else {
-      params.append('stage', 'RFQ');
+      params.append('stage', openStageNames.join(','));
     }
     if (quarter) {
       const quarterNum = parseInt(quarter.replace('q', ''));
@@ -127,7 +137,13 @@ const YearlyRevenueSummary = ({
   }
   const totalCombined = (revenueData?.totalActual || 0) + (revenueData?.totalProjected || 0);
   const progressPercentage = getProgressPercentage(revenueData?.totalActual || 0, revenueData?.target || 0);
+  const unconvertedDeals = revenueData?.unconvertedDeals || 0;
   return <div className="space-y-6">
+      {unconvertedDeals > 0 && <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <AlertCircle className="w-4 h-4" />
+          {unconvertedDeals} deal{unconvertedDeals === 1 ? '' : 's'} left out of these totals: no exchange rate to {reportingCurrency}
+        </div>}
+
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <Card className="hover-scale">
@@ -153,7 +169,7 @@ const YearlyRevenueSummary = ({
           <CardContent>
             {editingTarget ? (
               <div className="flex items-center gap-1">
-                <span className="text-lg font-semibold">€</span>
+                <span className="text-lg font-semibold">{getCurrencySymbol(reportingCurrency)}</span>
                 <Input 
                   value={targetValue ? Number(targetValue).toLocaleString('en-US') : ''} 
                   onChange={e => {
@@ -197,7 +213,7 @@ const YearlyRevenueSummary = ({
             <div className="text-2xl font-bold text-blue-600">
               {formatCurrency(revenueData?.totalProjected || 0)}
             </div>
-            <p className="text-xs text-muted-foreground">From RFQ deals</p>
+            <p className="text-xs text-muted-foreground">From open pipeline deals</p>
           </CardContent>
         </Card>
 
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -30,6 +31,9 @@ import { AccountActivityTimeline } from "./AccountActivityTimeline";
 import { AccountAssociations } from "./AccountAssociations";
 import { ActivityLogModal } from "./ActivityLogModal";
 import { AccountScoreBadge, AccountSegmentBadge } from "./AccountScoreBadge";
+import { ApprovalStatusBadge } from "@/components/approvals/ApprovalStatusBadge";
+import { ScorePanel } from "@/components/shared/ScorePanel";
+import { SCORE_HISTORY_QUERY_KEY, useRecordScore } from "@/hooks/useScoring";
 
 interface Account {
   id: string;
@@ -61,11 +65,14 @@ export const AccountDetailModal = ({ open, onOpenChange, account, onUpdate, onEd
   const { toast } = useToast();
   const [showActivityLog, setShowActivityLog] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
+  const queryClient = useQueryClient();
+  const { score, breakdown } = useRecordScore('accounts', account?.id);
 
   if (!account) return null;
 
   const handleActivityLogged = () => {
     setRefreshKey(prev => prev + 1);
+    queryClient.invalidateQueries({ queryKey: SCORE_HISTORY_QUERY_KEY });
     onUpdate?.();
   };
 
@@ -107,7 +114,8 @@ export const AccountDetailModal = ({ open, onOpenChange, account, onUpdate, onEd
                     {account.status || 'New'}
                   </Badge>
                   <AccountSegmentBadge segment={account.segment || 'prospect'} />
-                  <AccountScoreBadge score={account.score || 0} />
+                  <AccountScoreBadge score={score} breakdown={breakdown} />
+                  <ApprovalStatusBadge entityType="accounts" entityId={account.id} />
                 </div>
               </div>
               <div className="flex items-center gap-2">
@@ -136,11 +144,12 @@ export const AccountDetailModal = ({ open, onOpenChange, account, onUpdate, onEd
           </DialogHeader>
 
           <Tabs defaultValue="overview" className="w-full">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="overview">Overview</TabsTrigger>
               <TabsTrigger value="timeline">Activity</TabsTrigger>
               <TabsTrigger value="emails">Emails</TabsTrigger>
               <TabsTrigger value="associations">Contacts</TabsTrigger>
+              <TabsTrigger value="score">Score</TabsTrigger>
             </TabsList>
 
             <TabsContent value="overview" className="space-y-4 mt-4">
@@ -198,15 +207,20 @@ export const AccountDetailModal = ({ open, onOpenChange, account, onUpdate, onEd
                     <CardTitle className="text-base">Account Score</CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <AccountScoreBadge score={account.score || 0} showProgress />
-                    <div className="mt-4 text-sm text-muted-foreground">
-                      <p>Score is calculated based on:</p>
-                      <ul className="list-disc list-inside mt-1 space-y-0.5">
-                        <li>Number of contacts</li>
-                        <li>Activity frequency</li>
-                        <li>Recent engagement</li>
-                        <li>Profile completeness</li>
-                      </ul>
+                    <AccountScoreBadge score={score} breakdown={breakdown} showProgress />
+                    <div className="mt-4 space-y-1 text-sm">
+                      {breakdown.length === 0 ? (
+                        <p className="text-muted-foreground">No scoring rule applies to this account yet.</p>
+                      ) : (
+                        breakdown.map(item => (
+                          <div key={item.rule_id} className="flex items-center justify-between gap-2">
+                            <span className="text-muted-foreground">{item.detail || item.name}</span>
+                            <span className={item.points < 0 ? 'text-destructive font-medium' : 'font-medium'}>
+                              {item.points > 0 ? `+${item.points}` : item.points}
+                            </span>
+                          </div>
+                        ))
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -253,10 +267,11 @@ export const AccountDetailModal = ({ open, onOpenChange, account, onUpdate, onEd
             </TabsContent>
 
             <TabsContent value="associations" className="mt-4">
-              <AccountAssociations 
-                accountId={account.id} 
-                companyName={account.company_name} 
-              />
+              <AccountAssociations accountId={account.id} />
+            </TabsContent>
+
+            <TabsContent value="score" className="mt-4">
+              <ScorePanel entityType="accounts" entityId={account.id} title="Account Score" onUpdate={onUpdate} />
             </TabsContent>
           </Tabs>
         </DialogContent>
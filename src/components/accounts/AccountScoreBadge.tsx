@@ -1,13 +1,17 @@
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { TrendingUp, Target } from "lucide-react";
+import { ScoreBreakdownTooltip } from "@/components/shared/ScoreBadge";
+import { ScoreBreakdownItem } from "@/hooks/useScoring";
 
 interface AccountScoreBadgeProps {
   score: number;
   showProgress?: boolean;
+  // Rules behind the score, shown on hover
+  breakdown?: ScoreBreakdownItem[];
 }
 
-export const AccountScoreBadge = ({ score, showProgress = false }: AccountScoreBadgeProps) => {
+export const AccountScoreBadge = ({ score, showProgress = false, breakdown }: AccountScoreBadgeProps) => {
   const getScoreColor = (score: number) => {
     if (score >= 80) return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
     if (score >= 60) return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
@@ -34,31 +38,35 @@ export const AccountScoreBadge = ({ score, showProgress = false }: AccountScoreB
 
   if (showProgress) {
     return (
-      <div className="space-y-1">
-        <div className="flex items-center justify-between text-sm">
-          <span className="flex items-center gap-1">
-            <Target className="h-3 w-3" />
-            Score
-          </span>
-          <span className="font-medium">{score}/100</span>
+      <ScoreBreakdownTooltip breakdown={breakdown}>
+        <div className="space-y-1">
+          <div className="flex items-center justify-between text-sm">
+            <span className="flex items-center gap-1">
+              <Target className="h-3 w-3" />
+              Score
+            </span>
+            <span className="font-medium">{score}/100</span>
+          </div>
+          <div className="relative">
+            <Progress value={score} className="h-2" />
+            <div 
+              className={`absolute top-0 left-0 h-2 rounded-full transition-all ${getProgressColor(score)}`}
+              style={{ width: `${score}%` }}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">{getScoreLabel(score)}</p>
         </div>
-        <div className="relative">
-          <Progress value={score} className="h-2" />
-          <div 
-            className={`absolute top-0 left-0 h-2 rounded-full transition-all ${getProgressColor(score)}`}
-            style={{ width: `${score}%` }}
-          />
-        </div>
-        <p className="text-xs text-muted-foreground">{getScoreLabel(score)}</p>
-      </div>
+      </ScoreBreakdownTooltip>
     );
   }
 
   return (
-    <Badge className={`gap-1 ${getScoreColor(score)}`}>
-      <TrendingUp className="h-3 w-3" />
-      {score}
-    </Badge>
+    <ScoreBreakdownTooltip breakdown={breakdown}>
+      <Badge className={`gap-1 ${getScoreColor(score)}`}>
+        <TrendingUp className="h-3 w-3" />
+        {score}
+      </Badge>
+    </ScoreBreakdownTooltip>
   );
 };
 
@@ -0,0 +1,44 @@
+import { Badge } from "@/components/ui/badge";
+import { Clock, CheckCircle2, XCircle } from "lucide-react";
+import { ApprovalEntityType, useApprovalRequests } from "@/hooks/useApprovals";
+
+interface ApprovalStatusBadgeProps {
+  entityType: ApprovalEntityType;
+  entityId: string;
+  compact?: boolean;
+}
+
+export const ApprovalStatusBadge = ({ entityType, entityId, compact = false }: ApprovalStatusBadgeProps) => {
+  const { getLatestRequest } = useApprovalRequests();
+  const request = getLatestRequest(entityType, entityId);
+
+  if (!request) return null;
+
+  const totalSteps = request.approval_steps.length || 1;
+  const title = `${request.workflow_name}: ${request.status}`;
+
+  if (request.status === 'approved') {
+    return (
+      <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200 gap-1" title={title}>
+        <CheckCircle2 className="h-3 w-3" />
+        {!compact && 'Approved'}
+      </Badge>
+    );
+  }
+
+  if (request.status === 'rejected') {
+    return (
+      <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200 gap-1" title={title}>
+        <XCircle className="h-3 w-3" />
+        {!compact && 'Rejected'}
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200 gap-1" title={title}>
+      <Clock className="h-3 w-3" />
+      {compact ? `${request.current_step}/${totalSteps}` : `Pending approval (step ${request.current_step}/${totalSteps})`}
+    </Badge>
+  );
+};
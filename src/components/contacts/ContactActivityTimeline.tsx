@@ -48,14 +48,40 @@ export const ContactActivityTimeline = ({ contactId }: ContactActivityTimelinePr
 
   const fetchActivities = async () => {
     try {
-      const { data, error } = await supabase
-        .from('contact_activities')
-        .select('*')
-        .eq('contact_id', contactId)
-        .order('activity_date', { ascending: false });
+      const [{ data, error }, { data: inboundEmails }] = await Promise.all([
+        supabase
+          .from('contact_activities')
+          .select('*')
+          .eq('contact_id', contactId)
+          .order('activity_date', { ascending: false }),
+        // Replies and bounces to emails sent to the contact
+        supabase
+          .from('inbound_emails')
+          .select('id, kind, subject, from_email, from_name, body_text, diagnostic, received_at')
+          .eq('contact_id', contactId)
+          .in('kind', ['reply', 'bounce']),
+      ]);
 
       if (error) throw error;
-      setActivities(data || []);
+
+      const inboundActivities: Activity[] = (inboundEmails || []).map(inbound => ({
+        id: `inbound-${inbound.id}`,
+        activity_type: 'email',
+        subject: inbound.kind === 'reply'
+          ? `Reply from ${inbound.from_name || inbound.from_email}: ${inbound.subject || ''}`
+          : `Email bounced: ${inbound.subject || ''}`,
+        description: inbound.kind === 'reply' ? inbound.body_text : inbound.diagnostic,
+        outcome: null,
+        duration_minutes: null,
+        activity_date: inbound.received_at,
+        created_by: null,
+      }));
+
+      setActivities(
+        [...(data || []), ...inboundActivities].sort(
+          (a, b) => new Date(b.activity_date).getTime() - new Date(a.activity_date).getTime()
+        )
+      );
     } catch (error) {
       console.error('Error fetching activities:', error);
     } finally {
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import {
   Dialog,
@@ -16,6 +17,10 @@ import { ContactTagsManager } from './ContactTagsManager';
 import { ContactEmailTracking } from './ContactEmailTracking';
 import { EntityEmailHistory } from '@/components/shared/EntityEmailHistory';
 import { SendEmailModal } from '@/components/SendEmailModal';
+import { EmailSuppressionStatus } from '@/components/shared/EmailSuppressionStatus';
+import { ScoreBadge } from '@/components/shared/ScoreBadge';
+import { ScorePanel } from '@/components/shared/ScorePanel';
+import { SCORE_HISTORY_QUERY_KEY, useRecordScore } from '@/hooks/useScoring';
 import { toast } from '@/hooks/use-toast';
 import {
   User,
@@ -78,6 +83,8 @@ export const ContactDetailModal = ({
   const [showActivityLogModal, setShowActivityLogModal] = useState(false);
   const [showEmailModal, setShowEmailModal] = useState(false);
   const [tags, setTags] = useState<string[]>([]);
+  const queryClient = useQueryClient();
+  const { score, breakdown } = useRecordScore('contacts', contact?.id);
 
   useEffect(() => {
     if (contact) {
@@ -113,17 +120,12 @@ export const ContactDetailModal = ({
   };
 
   const handleActivityLogged = () => {
+    queryClient.invalidateQueries({ queryKey: SCORE_HISTORY_QUERY_KEY });
     onUpdate?.();
   };
 
   if (!contact) return null;
 
-  const getScoreColor = (score: number) => {
-    if (score >= 70) return 'text-green-500';
-    if (score >= 40) return 'text-yellow-500';
-    return 'text-red-500';
-  };
-
   return (
     <>
       <Dialog open={open} onOpenChange={onOpenChange}>
@@ -143,16 +145,15 @@ export const ContactDetailModal = ({
                   )}
                 </div>
                 <div className="flex items-center gap-2 mt-2">
-                  {contact.score !== null && (
-                    <Badge className={`${getScoreColor(contact.score)} border`}>
-                      Score: {contact.score}
-                    </Badge>
-                  )}
+                  <Badge variant="outline" className="gap-1">
+                    Score <ScoreBadge score={score} breakdown={breakdown} />
+                  </Badge>
                   {contact.segment && (
                     <Badge variant="outline" className="capitalize">
                       {contact.segment}
                     </Badge>
                   )}
+                  <EmailSuppressionStatus email={contact.email} compact />
                 </div>
               </div>
               <div className="flex items-center gap-2">
@@ -210,11 +211,12 @@ export const ContactDetailModal = ({
                   <h3 className="font-medium text-sm text-muted-foreground">Contact Information</h3>
                   
                   {contact.email && (
-                    <div className="flex items-center gap-2">
+                    <div className="flex items-center gap-2 flex-wrap">
                       <Mail className="h-4 w-4 text-muted-foreground" />
                       <a href={`mailto:${contact.email}`} className="text-sm hover:underline">
                         {contact.email}
                       </a>
+                      <EmailSuppressionStatus email={contact.email} />
                     </div>
                   )}
                   
@@ -355,6 +357,7 @@ export const ContactDetailModal = ({
                   emailClicks={contact.email_clicks || 0}
                   engagementScore={contact.engagement_score || 0}
                 />
+                <ScorePanel entityType="contacts" entityId={contact.id} title="Contact Score" onUpdate={onUpdate} />
               </div>
             </TabsContent>
           </Tabs>
@@ -2,15 +2,25 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { BarChart3, Users, Euro } from "lucide-react";
 import { Deal } from "@/types/deal";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { useCurrencyConversion } from "@/hooks/useCurrencyConversion";
+import { getDealConversionDate } from "@/utils/currencyConversion";
+import { formatCurrency } from "@/utils/formatUtils";
 
 interface DashboardStatsProps {
   deals: Deal[];
 }
 
 export const DashboardStats = ({ deals }: DashboardStatsProps) => {
+  const { isWonStage } = usePipelineStages();
+  const { toReporting, hasRate, reportingCurrency } = useCurrencyConversion();
   const totalDeals = deals.length;
-  const totalValue = deals.reduce((sum, deal) => sum + (deal.total_contract_value || 0), 0);
-  const wonDeals = deals.filter(deal => deal.stage === 'Won').length;
+  const totalValue = deals.reduce(
+    (sum, deal) => sum + toReporting(deal.total_contract_value, deal.currency_type, getDealConversionDate(deal)),
+    0
+  );
+  const unconvertedDeals = deals.filter(deal => deal.total_contract_value && !hasRate(deal.currency_type)).length;
+  const wonDeals = deals.filter(deal => isWonStage(deal.stage)).length;
 
   return (
     <div className="w-full px-6 py-6">
@@ -32,8 +42,13 @@ export const DashboardStats = ({ deals }: DashboardStatsProps) => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              €{totalValue.toLocaleString()}
+              {formatCurrency(totalValue, reportingCurrency)}
             </div>
+            {unconvertedDeals > 0 && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Excludes {unconvertedDeals} deal{unconvertedDeals === 1 ? '' : 's'} with no exchange rate to {reportingCurrency}
+              </p>
+            )}
           </CardContent>
         </Card>
         
@@ -28,6 +28,10 @@ import { useTasks } from "@/hooks/useTasks";
 import { Task } from "@/types/task";
 import { EmptyState } from "@/components/shared/EmptyState";
 import { GlobalSearch } from "@/components/shared/GlobalSearch";
+import { getPipelineStages, createPipelineHelpers } from "@/hooks/usePipelineStages";
+import { useLeadStatuses } from "@/hooks/useLeadStatuses";
+import { getCurrencyConverter } from "@/hooks/useCurrencyConversion";
+import { getDealConversionDate } from "@/utils/currencyConversion";
 
 const GRID_COLS = 12;
 
@@ -90,6 +94,9 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
   const { isAdmin } = useUserRole();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const { statuses: leadStatuses } = useLeadStatuses();
+  // The leads widget has room for four statuses; converted leads are counted elsewhere
+  const leadWidgetStatuses = leadStatuses.filter(status => !status.is_converted_status).slice(0, 4);
   const [isResizeMode, setIsResizeMode] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
   // Initialize with a reasonable default based on window width minus sidebar
@@ -447,10 +454,10 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
       const recentLead = leads.sort((a, b) => new Date(b.created_time || 0).getTime() - new Date(a.created_time || 0).getTime())[0];
       return {
         total: leads.length,
-        new: leads.filter(l => l.lead_status === 'New').length,
-        attempted: leads.filter(l => l.lead_status === 'Attempted').length,
-        followUp: leads.filter(l => l.lead_status === 'Follow-up').length,
-        qualified: leads.filter(l => l.lead_status === 'Qualified').length,
+        byStatus: leads.reduce<Record<string, number>>((counts, l) => {
+          if (l.lead_status) counts[l.lead_status] = (counts[l.lead_status] || 0) + 1;
+          return counts;
+        }, {}),
         recentLead: recentLead?.lead_name || null
       };
     },
@@ -479,27 +486,34 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
   const { data: dealsData, isLoading: dealsLoading } = useQuery({
     queryKey: ['user-deals-enhanced', user?.id],
     queryFn: async () => {
-      const { data, error } = await supabase.from('deals').select('id, stage, total_contract_value, deal_name, created_by, lead_owner, expected_closing_date');
+      const { data, error } = await supabase.from('deals').select('id, stage, total_contract_value, currency_type, deal_name, created_by, lead_owner, expected_closing_date, signed_contract_date');
       if (error) throw error;
       const userDeals = (data || []).filter(d => d.created_by === user?.id || d.lead_owner === user?.id);
-      const activeDeals = userDeals.filter(d => !['Won', 'Lost', 'Dropped'].includes(d.stage));
-      const wonDeals = userDeals.filter(d => d.stage === 'Won');
-      const totalPipeline = activeDeals.reduce((sum, d) => sum + (d.total_contract_value || 0), 0);
-      const wonValue = wonDeals.reduce((sum, d) => sum + (d.total_contract_value || 0), 0);
+      const { isWonStage, isLostStage, isClosedStage, wonStageNames, lostStageNames } = createPipelineHelpers(await getPipelineStages(queryClient));
+      const activeDeals = userDeals.filter(d => !isClosedStage(d.stage));
+      const wonDeals = userDeals.filter(d => isWonStage(d.stage));
+      const lostDeals = userDeals.filter(d => isLostStage(d.stage));
+      const converter = await getCurrencyConverter(queryClient);
+      const dealValue = (d: typeof userDeals[number]) =>
+        converter.toReporting(d.total_contract_value, d.currency_type, getDealConversionDate(d));
+      const totalPipeline = activeDeals.reduce((sum, d) => sum + dealValue(d), 0);
+      const wonValue = wonDeals.reduce((sum, d) => sum + dealValue(d), 0);
       
       return {
         total: userDeals.length,
         active: activeDeals.length,
         won: wonDeals.length,
-        lost: userDeals.filter(d => d.stage === 'Lost').length,
+        lost: lostDeals.length,
         totalPipeline,
         wonValue,
         byStage: {
           rfq: userDeals.filter(d => d.stage === 'RFQ').length,
           offered: userDeals.filter(d => d.stage === 'Offered').length,
           won: wonDeals.length,
-          lost: userDeals.filter(d => d.stage === 'Lost').length,
-        }
+          lost: lostDeals.length,
+        },
+        wonStages: wonStageNames,
+        lostStages: lostStageNames,
       };
     },
     enabled: !!user?.id
@@ -899,34 +913,17 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
             </CardHeader>
             <CardContent className="px-3 pb-3 pt-0 flex-1 min-h-0 flex flex-col">
               <div className="grid grid-cols-2 gap-1.5 flex-1 min-h-0">
-                <div 
-                  className="text-center p-1.5 bg-blue-50 dark:bg-blue-950/20 rounded cursor-pointer hover:bg-blue-100 dark:hover:bg-blue-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
-                  onClick={(e) => { e.stopPropagation(); navigate('/leads?status=New&owner=me'); }}
-                >
-                  <p className="text-base font-bold text-blue-600 leading-tight">{leadsData?.new || 0}</p>
-                  <p className="text-[9px] text-muted-foreground leading-tight">New</p>
-                </div>
-                <div 
-                  className="text-center p-1.5 bg-yellow-50 dark:bg-yellow-950/20 rounded cursor-pointer hover:bg-yellow-100 dark:hover:bg-yellow-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
-                  onClick={(e) => { e.stopPropagation(); navigate('/leads?status=Attempted&owner=me'); }}
-                >
-                  <p className="text-base font-bold text-yellow-600 leading-tight">{leadsData?.attempted || 0}</p>
-                  <p className="text-[9px] text-muted-foreground leading-tight">Attempted</p>
-                </div>
-                <div 
-                  className="text-center p-1.5 bg-orange-50 dark:bg-orange-950/20 rounded cursor-pointer hover:bg-orange-100 dark:hover:bg-orange-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
-                  onClick={(e) => { e.stopPropagation(); navigate('/leads?status=Follow-up&owner=me'); }}
-                >
-                  <p className="text-base font-bold text-orange-600 leading-tight">{leadsData?.followUp || 0}</p>
-                  <p className="text-[9px] text-muted-foreground leading-tight">Follow-Up</p>
-                </div>
-                <div 
-                  className="text-center p-1.5 bg-green-50 dark:bg-green-950/20 rounded cursor-pointer hover:bg-green-100 dark:hover:bg-green-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
-                  onClick={(e) => { e.stopPropagation(); navigate('/leads?status=Qualified&owner=me'); }}
-                >
-                  <p className="text-base font-bold text-green-600 leading-tight">{leadsData?.qualified || 0}</p>
-                  <p className="text-[9px] text-muted-foreground leading-tight">Qualified</p>
-                </div>
+                {leadWidgetStatuses.map(status => (
+                  <div 
+                    key={status.id}
+                    className="text-center p-1.5 rounded cursor-pointer hover:opacity-80 transition-opacity flex flex-col items-center justify-center min-h-0"
+                    style={{ backgroundColor: `${status.status_color}1a` }}
+                    onClick={(e) => { e.stopPropagation(); navigate(`/leads?status=${encodeURIComponent(status.status_name)}&owner=me`); }}
+                  >
+                    <p className="text-base font-bold leading-tight" style={{ color: status.status_color }}>{leadsData?.byStatus[status.status_name] || 0}</p>
+                    <p className="text-[9px] text-muted-foreground leading-tight">{status.status_name}</p>
+                  </div>
+                ))}
               </div>
             </CardContent>
           </Card>
@@ -1013,14 +1010,14 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
                 </div>
                 <div 
                   className="text-center p-1.5 bg-green-50 dark:bg-green-950/20 rounded cursor-pointer hover:bg-green-100 dark:hover:bg-green-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
-                  onClick={(e) => { e.stopPropagation(); navigate('/deals?stage=Won&owner=me'); }}
+                  onClick={(e) => { e.stopPropagation(); navigate(`/deals?stage=${encodeURIComponent(dealsData?.wonStages?.join(',') || 'Won')}&owner=me`); }}
                 >
                   <p className="text-base font-bold text-green-600 leading-tight">{dealsData?.byStage?.won || 0}</p>
                   <p className="text-[9px] text-muted-foreground leading-tight">Won</p>
                 </div>
                 <div 
                   className="text-center p-1.5 bg-red-50 dark:bg-red-950/20 rounded cursor-pointer hover:bg-red-100 dark:hover:bg-red-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
-                  onClick={(e) => { e.stopPropagation(); navigate('/deals?stage=Lost&owner=me'); }}
+                  onClick={(e) => { e.stopPropagation(); navigate(`/deals?stage=${encodeURIComponent(dealsData?.lostStages?.join(',') || 'Lost')}&owner=me`); }}
                 >
                   <p className="text-base font-bold text-red-600 leading-tight">{dealsData?.byStage?.lost || 0}</p>
                   <p className="text-[9px] text-muted-foreground leading-tight">Lost</p>
@@ -0,0 +1,144 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SearchableSelect } from "@/components/shared/SearchableSelect";
+import { Plus, Trash2, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { DEAL_CONTACT_ROLES, toContactOption, useDealContactOptions, useDealContacts } from "@/hooks/useDealLinks";
+
+interface DealContactsSectionProps {
+  dealId: string;
+  accountId?: string | null;
+  primaryContactId?: string | null;
+}
+
+export const DealContactsSection = ({ dealId, accountId, primaryContactId }: DealContactsSectionProps) => {
+  const { toast } = useToast();
+  const { contacts } = useDealContactOptions();
+  const { dealContacts, isLoading, addContact, updateRole, removeContact, isSaving } = useDealContacts(dealId);
+  const [newContactId, setNewContactId] = useState<string>();
+  const [newRole, setNewRole] = useState<string>('Influencer');
+
+  // Offer the account's contacts first, and nobody already on the deal
+  const contactOptions = useMemo(() => {
+    const taken = new Set([...dealContacts.map(dc => dc.contact_id), primaryContactId]);
+    return contacts
+      .filter(c => !taken.has(c.id))
+      .sort((a, b) => Number(b.account_id === accountId) - Number(a.account_id === accountId))
+      .map(toContactOption);
+  }, [contacts, dealContacts, accountId, primaryContactId]);
+
+  const handleError = (action: string, error: unknown) => {
+    console.error(`Error trying to ${action} deal contact:`, error);
+    toast({
+      title: "Error",
+      description: `Failed to ${action} contact: ${(error as Error).message}`,
+      variant: "destructive",
+    });
+  };
+
+  const handleAdd = async () => {
+    if (!newContactId) return;
+    try {
+      await addContact({ contactId: newContactId, role: newRole });
+      setNewContactId(undefined);
+    } catch (error) {
+      handleError('add', error);
+    }
+  };
+
+  const handleRoleChange = async (id: string, role: string) => {
+    try {
+      await updateRole({ id, role });
+    } catch (error) {
+      handleError('update', error);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      await removeContact(id);
+    } catch (error) {
+      handleError('remove', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Deal Contacts</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : dealContacts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No other contacts on this deal yet</p>
+        ) : (
+          dealContacts.map(dealContact => (
+            <div key={dealContact.id} className="flex items-center gap-2">
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium truncate">{dealContact.contact?.contact_name || 'Unknown contact'}</p>
+                {dealContact.contact?.position && (
+                  <p className="text-xs text-muted-foreground truncate">{dealContact.contact.position}</p>
+                )}
+              </div>
+              <Select
+                value={dealContact.role}
+                onValueChange={(role) => handleRoleChange(dealContact.id, role)}
+                disabled={isSaving}
+              >
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DEAL_CONTACT_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{role}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemove(dealContact.id)}
+                disabled={isSaving}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+
+        <div className="flex items-center gap-2 pt-2 border-t">
+          <div className="flex-1">
+            <SearchableSelect
+              options={contactOptions}
+              value={newContactId}
+              onValueChange={setNewContactId}
+              placeholder="Add a contact..."
+              searchPlaceholder="Search contacts..."
+              emptyMessage="No more contacts to add."
+            />
+          </div>
+          <Select value={newRole} onValueChange={setNewRole}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DEAL_CONTACT_ROLES.map(role => (
+                <SelectItem key={role} value={role}>{role}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="button" variant="outline" size="sm" onClick={handleAdd} disabled={!newContactId || isSaving}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
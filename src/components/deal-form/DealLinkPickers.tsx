@@ -0,0 +1,89 @@
+import { useMemo } from "react";
+import { SearchableSelect, SearchableSelectOption } from "@/components/shared/SearchableSelect";
+import { Deal } from "@/types/deal";
+import { toAccountOption, toContactOption, useDealAccountOptions, useDealContactOptions } from "@/hooks/useDealLinks";
+
+const NONE_VALUE = '__none__';
+const NONE_OPTION: SearchableSelectOption = { value: NONE_VALUE, label: 'None' };
+
+interface DealLinkPickerProps {
+  formData: Partial<Deal>;
+  onChange: (field: string, value: string | null) => void;
+}
+
+// Picking an account keeps customer_name in step so lists, filters and exports still show the name
+export const DealAccountPicker = ({ formData, onChange }: DealLinkPickerProps) => {
+  const { accounts, isLoading } = useDealAccountOptions();
+  const { contacts } = useDealContactOptions();
+
+  const options = useMemo(() => [NONE_OPTION, ...accounts.map(toAccountOption)], [accounts]);
+
+  const handleChange = (value: string) => {
+    if (value === NONE_VALUE) {
+      onChange('account_id', null);
+      return;
+    }
+
+    const account = accounts.find(a => a.id === value);
+    onChange('account_id', value);
+    if (account) onChange('customer_name', account.company_name);
+
+    // The primary contact has to work for the chosen account
+    const contact = contacts.find(c => c.id === formData.contact_id);
+    if (contact?.account_id && contact.account_id !== value) {
+      onChange('contact_id', null);
+    }
+  };
+
+  return (
+    <SearchableSelect
+      options={options}
+      value={formData.account_id || undefined}
+      onValueChange={handleChange}
+      placeholder={isLoading ? 'Loading accounts...' : formData.customer_name || 'Select account...'}
+      searchPlaceholder="Search accounts..."
+      emptyMessage="No accounts found."
+    />
+  );
+};
+
+export const DealContactPicker = ({ formData, onChange }: DealLinkPickerProps) => {
+  const { contacts, isLoading } = useDealContactOptions();
+  const { accounts } = useDealAccountOptions();
+
+  // Once an account is chosen, only offer its contacts
+  const options = useMemo(() => {
+    const available = formData.account_id
+      ? contacts.filter(c => c.account_id === formData.account_id)
+      : contacts;
+    return [NONE_OPTION, ...available.map(toContactOption)];
+  }, [contacts, formData.account_id]);
+
+  const handleChange = (value: string) => {
+    if (value === NONE_VALUE) {
+      onChange('contact_id', null);
+      return;
+    }
+
+    onChange('contact_id', value);
+
+    // Fill in the account from the contact when none is set yet
+    const contact = contacts.find(c => c.id === value);
+    if (!formData.account_id && contact?.account_id) {
+      const account = accounts.find(a => a.id === contact.account_id);
+      onChange('account_id', contact.account_id);
+      if (account) onChange('customer_name', account.company_name);
+    }
+  };
+
+  return (
+    <SearchableSelect
+      options={options}
+      value={formData.contact_id || undefined}
+      onValueChange={handleChange}
+      placeholder={isLoading ? 'Loading contacts...' : 'Select contact...'}
+      searchPlaceholder="Search contacts..."
+      emptyMessage={formData.account_id ? 'No contacts for this account.' : 'No contacts found.'}
+    />
+  );
+};
@@ -6,6 +6,10 @@ import { QualifiedStageForm } from "./QualifiedStageForm";
 import { RFQStageForm } from "./RFQStageForm";
 import { OfferedStageForm } from "./OfferedStageForm";
 import { FinalStageForm } from "./FinalStageForm";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+
+// Open stages that have a dedicated set of fields; custom stages reuse the fields of the stages configured before them
+const STAGE_FORMS: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered'];
 
 interface DealStageFormProps {
   formData: Partial<Deal>;
@@ -24,13 +28,19 @@ export const DealStageForm = ({
   stage, 
   showPreviousStages 
 }: DealStageFormProps) => {
-  const getStageIndex = (stage: DealStage): number => {
-    const stages = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
-    return stages.indexOf(stage);
-  };
+  const { allStages, isWonStage, isLostStage, isClosedStage } = usePipelineStages();
+  const isFinalStage = isClosedStage(stage);
 
-  const currentStageIndex = getStageIndex(stage);
-  const isFinalStage = ['Won', 'Lost', 'Dropped'].includes(stage);
+  // Stage forms for the open stages up to (and including) the current one, in pipeline order
+  const getStageFormsUpTo = (currentStage: DealStage): DealStage[] => {
+    const openStages = allStages.filter(s => !s.is_won_stage && !s.is_lost_stage);
+    const currentIndex = openStages.findIndex(s => s.stage_name === currentStage);
+    const lastIndex = isFinalStage || currentIndex === -1 ? openStages.length - 1 : currentIndex;
+    return openStages
+      .slice(0, lastIndex + 1)
+      .map(s => s.stage_name)
+      .filter(name => STAGE_FORMS.includes(name));
+  };
 
   const renderStageComponent = (stageToRender: DealStage) => {
     switch (stageToRender) {
@@ -75,36 +85,29 @@ export const DealStageForm = ({
             fieldErrors={fieldErrors}
           />
         );
-      case 'Won':
-      case 'Lost':
-      case 'Dropped':
-        return (
-          <FinalStageForm
-            formData={formData}
-            onFieldChange={onFieldChange}
-            fieldErrors={fieldErrors}
-            stage={stageToRender}
-          />
-        );
       default:
+        if (isWonStage(stageToRender) || isLostStage(stageToRender)) {
+          return (
+            <FinalStageForm
+              formData={formData}
+              onFieldChange={onFieldChange}
+              fieldErrors={fieldErrors}
+              stage={stageToRender}
+              outcome={isWonStage(stageToRender) ? 'won' : 'lost'}
+            />
+          );
+        }
         return null;
     }
   };
 
   if (showPreviousStages) {
     // Show all stages up to current stage
-    const stagesToShow: DealStage[] = [];
-    const allStages: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered'];
+    const stagesToShow = getStageFormsUpTo(stage);
     
     if (isFinalStage) {
       // For final stages, show all previous stages plus the final stage
-      stagesToShow.push(...allStages);
       stagesToShow.push(stage);
-    } else {
-      // For regular stages, show all stages up to current
-      for (let i = 0; i <= currentStageIndex && i < allStages.length; i++) {
-        stagesToShow.push(allStages[i]);
-      }
     }
 
     return (
@@ -117,10 +120,14 @@ export const DealStageForm = ({
       </div>
     );
   } else {
-    // Show only current stage
+    // Show only current stage; a custom open stage shows the closest preceding stage form
+    const formStage = isFinalStage || STAGE_FORMS.includes(stage)
+      ? stage
+      : getStageFormsUpTo(stage).pop();
+
     return (
       <div>
-        {renderStageComponent(stage)}
+        {formStage && renderStageComponent(formStage)}
       </div>
     );
   }
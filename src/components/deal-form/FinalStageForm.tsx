@@ -3,18 +3,22 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Deal, DealStage } from "@/types/deal";
 import { FormFieldRenderer } from "./FormFieldRenderer";
 import { useEffect } from "react";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 
 interface FinalStageFormProps {
   formData: Partial<Deal>;
   onFieldChange: (field: string, value: any) => void;
   fieldErrors: Record<string, string>;
   stage: DealStage;
+  outcome: 'won' | 'lost';
 }
 
-export const FinalStageForm = ({ formData, onFieldChange, fieldErrors, stage }: FinalStageFormProps) => {
-  // Auto-calculate total_revenue when quarterly revenues change (Won stage only)
+export const FinalStageForm = ({ formData, onFieldChange, fieldErrors, stage, outcome }: FinalStageFormProps) => {
+  const { getOutcomeFields } = usePipelineStages();
+
+  // Auto-calculate total_revenue when quarterly revenues change (won stages only)
   useEffect(() => {
-    if (stage === 'Won') {
+    if (outcome === 'won') {
       const q1 = Number(formData.quarterly_revenue_q1) || 0;
       const q2 = Number(formData.quarterly_revenue_q2) || 0;
       const q3 = Number(formData.quarterly_revenue_q3) || 0;
@@ -27,22 +31,9 @@ export const FinalStageForm = ({ formData, onFieldChange, fieldErrors, stage }:
         onFieldChange('total_revenue', totalRevenue);
       }
     }
-  }, [formData.quarterly_revenue_q1, formData.quarterly_revenue_q2, formData.quarterly_revenue_q3, formData.quarterly_revenue_q4, formData.total_revenue, onFieldChange, stage]);
-
-  const getFieldsForStage = (stage: DealStage) => {
-    switch (stage) {
-      case 'Won':
-        return ['won_reason', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue', 'signed_contract_date', 'implementation_start_date', 'handoff_status'];
-      case 'Lost':
-        return ['lost_reason', 'need_improvement'];
-      case 'Dropped':
-        return ['drop_reason'];
-      default:
-        return [];
-    }
-  };
+  }, [formData.quarterly_revenue_q1, formData.quarterly_revenue_q2, formData.quarterly_revenue_q3, formData.quarterly_revenue_q4, formData.total_revenue, onFieldChange, outcome]);
 
-  const fields = getFieldsForStage(stage);
+  const fields = getOutcomeFields(stage);
 
   return (
     <Card>
@@ -10,6 +10,7 @@ import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { Deal } from "@/types/deal";
 import { LeadSearchableDropdown } from "@/components/LeadSearchableDropdown";
+import { DealAccountPicker, DealContactPicker } from "./DealLinkPickers";
 import { supabase } from "@/integrations/supabase/client";
 import { useState, useEffect } from "react";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
@@ -20,9 +21,11 @@ interface FormFieldRendererProps {
   onChange: (field: string, value: any) => void;
   onLeadSelect?: (lead: any) => void;
   error?: string;
+  // The rest of the deal, for fields that depend on each other (account and contact pickers)
+  formData?: Partial<Deal>;
 }
 
-export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error }: FormFieldRendererProps) => {
+export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error, formData = {} }: FormFieldRendererProps) => {
   const [leadOwnerIds, setLeadOwnerIds] = useState<string[]>([]);
   const { displayNames, loading } = useUserDisplayNames(leadOwnerIds);
 
@@ -57,6 +60,8 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
     const labels: Record<string, string> = {
       project_name: 'Project Name',
       customer_name: 'Customer Name',
+      account_id: 'Account',
+      contact_id: 'Primary Contact',
       lead_name: 'Lead Name',
       lead_owner: 'Lead Owner',
       region: 'Region',
@@ -140,9 +145,11 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
     
     // Auto-fill available fields based on lead data
     const updates: Partial<Deal> = {
+      lead_id: lead.id,
       lead_name: lead.lead_name,
       customer_name: lead.company_name || '',
       region: lead.country || '',
+      account_id: lead.account_id || undefined,
     };
 
     // Update each field individually
@@ -264,6 +271,12 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
           />
         );
 
+      case 'account_id':
+        return <DealAccountPicker formData={formData} onChange={onChange} />;
+
+      case 'contact_id':
+        return <DealContactPicker formData={formData} onChange={onChange} />;
+
       case 'lead_owner':
         return (
           <Input
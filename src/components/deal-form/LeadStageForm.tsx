@@ -11,7 +11,7 @@ interface LeadStageFormProps {
 }
 
 export const LeadStageForm = ({ formData, onFieldChange, onLeadSelect, fieldErrors }: LeadStageFormProps) => {
-  const fields = ['project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority'];
+  const fields = ['project_name', 'lead_name', 'account_id', 'contact_id', 'region', 'lead_owner', 'priority'];
 
   return (
     <Card>
@@ -28,6 +28,7 @@ export const LeadStageForm = ({ formData, onFieldChange, onLeadSelect, fieldErro
               onChange={onFieldChange}
               onLeadSelect={onLeadSelect}
               error={fieldErrors[field]}
+              formData={formData}
             />
           ))}
         </div>
@@ -120,6 +120,29 @@ export const LeadActivityTimeline = ({ leadId }: LeadActivityTimelineProps) => {
         });
       });
 
+      // Replies and bounces to those emails
+      const { data: inboundEmails } = await supabase
+        .from('inbound_emails')
+        .select('id, kind, subject, from_email, from_name, body_text, diagnostic, received_at')
+        .eq('lead_id', leadId)
+        .in('kind', ['reply', 'bounce'])
+        .order('received_at', { ascending: false });
+
+      (inboundEmails || []).forEach(inbound => {
+        const isReply = inbound.kind === 'reply';
+        items.push({
+          id: `inbound-${inbound.id}`,
+          type: 'activity',
+          title: isReply
+            ? `Reply from ${inbound.from_name || inbound.from_email}: ${inbound.subject || ''}`
+            : `Email bounced: ${inbound.subject || ''}`,
+          description: (isReply ? inbound.body_text : inbound.diagnostic) || undefined,
+          date: inbound.received_at,
+          icon: <Mail className="h-4 w-4" />,
+          metadata: { type: 'email', status: isReply ? 'replied' : 'bounced' }
+        });
+      });
+
       // Sort by date descending
       items.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
@@ -0,0 +1,400 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { DealForm } from "@/components/DealForm";
+import { supabase } from "@/integrations/supabase/client";
+import { Deal } from "@/types/deal";
+import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
+import { useLeadStatuses } from "@/hooks/useLeadStatuses";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { useDuplicateDetection } from "@/hooks/useDuplicateDetection";
+import { getHeldApprovalChange } from "@/hooks/useApprovals";
+import {
+  useConvertLead,
+  ConvertibleLead,
+  NewAccountValues,
+  NewContactValues,
+} from "@/hooks/useLeadConversion";
+import { ArrowLeft, ArrowRight, Building2, Check, Loader2, User } from "lucide-react";
+
+interface LeadConversionWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  lead: ConvertibleLead | null;
+  onSuccess: () => void;
+}
+
+type WizardStep = 'account' | 'contact' | 'deal';
+
+const STEPS: { id: WizardStep; label: string }[] = [
+  { id: 'account', label: 'Account' },
+  { id: 'contact', label: 'Contact' },
+  { id: 'deal', label: 'Deal' },
+];
+
+// Radio value for creating a new record instead of linking an existing one
+const CREATE_NEW = 'new';
+
+export const LeadConversionWizard = ({ open, onOpenChange, lead, onSuccess }: LeadConversionWizardProps) => {
+  const { toast } = useToast();
+  const { convertedStatusName } = useLeadStatuses();
+  const { firstStageName } = usePipelineStages();
+  const { convertLead } = useConvertLead();
+  const [step, setStep] = useState<WizardStep>('account');
+  const [linkedAccount, setLinkedAccount] = useState<{ id: string; name: string } | null>(null);
+  const [accountChoice, setAccountChoice] = useState(CREATE_NEW);
+  const [contactChoice, setContactChoice] = useState(CREATE_NEW);
+  const [newAccount, setNewAccount] = useState<NewAccountValues>({ company_name: '', industry: '', country: '', website: '' });
+  const [newContact, setNewContact] = useState<NewContactValues>({ contact_name: '', email: '', phone_no: '', position: '', linkedin: '' });
+
+  const accountMatches = useDuplicateDetection({ table: 'accounts', nameField: 'company_name' });
+  const contactMatches = useDuplicateDetection({ table: 'contacts', nameField: 'contact_name' });
+  const { checkDuplicates: checkAccounts, clearDuplicates: clearAccounts } = accountMatches;
+  const { checkDuplicates: checkContacts, clearDuplicates: clearContacts } = contactMatches;
+
+  // Get display names for lead owner
+  const leadOwnerIds = lead?.created_by ? [lead.created_by] : [];
+  const { displayNames } = useUserDisplayNames(leadOwnerIds);
+
+  // Start every conversion from the lead's own details, preferring the account it's already linked to
+  useEffect(() => {
+    if (!open || !lead) return;
+
+    setStep('account');
+    setNewAccount({
+      company_name: lead.company_name || '',
+      industry: lead.industry || '',
+      country: lead.country || '',
+      website: lead.website || '',
+    });
+    setNewContact({
+      contact_name: lead.lead_name,
+      email: lead.email || '',
+      phone_no: lead.phone_no || '',
+      position: lead.position || '',
+      linkedin: lead.linkedin || '',
+    });
+    setLinkedAccount(null);
+    setAccountChoice(CREATE_NEW);
+    setContactChoice(CREATE_NEW);
+    clearAccounts();
+    clearContacts();
+
+    const loadMatches = async () => {
+      if (lead.account_id) {
+        const { data } = await supabase
+          .from('accounts')
+          .select('id, company_name')
+          .eq('id', lead.account_id)
+          .maybeSingle();
+        if (data) {
+          setLinkedAccount({ id: data.id, name: data.company_name });
+          setAccountChoice(data.id);
+        }
+      }
+
+      const accounts = lead.company_name ? await checkAccounts(lead.company_name) : [];
+      if (!lead.account_id && accounts.length > 0) {
+        setAccountChoice(accounts[0].id);
+      }
+
+      // Only an email match is trusted enough to reuse a contact without asking
+      const contacts = await checkContacts(lead.lead_name, lead.email || undefined);
+      const exact = contacts.find(contact => contact.matchType === 'exact');
+      if (exact) {
+        setContactChoice(exact.id);
+      }
+    };
+    loadMatches();
+  }, [open, lead, checkAccounts, checkContacts, clearAccounts, clearContacts]);
+
+  if (!lead) return null;
+
+  const accountOptions = [
+    ...(linkedAccount ? [{ id: linkedAccount.id, name: linkedAccount.name, hint: 'Linked to this lead' }] : []),
+    ...accountMatches.duplicates
+      .filter(match => match.id !== linkedAccount?.id)
+      .map(match => ({ id: match.id, name: match.name, hint: match.matchType === 'exact' ? 'Same email' : 'Similar name' })),
+  ];
+  const contactOptions = contactMatches.duplicates.map(match => ({
+    id: match.id,
+    name: match.name,
+    hint: match.matchType === 'exact' ? `Same email${match.email ? ` (${match.email})` : ''}` : 'Similar name',
+  }));
+
+  const selectedAccountName = accountChoice === CREATE_NEW
+    ? newAccount.company_name
+    : accountOptions.find(option => option.id === accountChoice)?.name || '';
+
+  const canContinue = step === 'account'
+    ? accountChoice !== CREATE_NEW || newAccount.company_name.trim().length > 0
+    : contactChoice !== CREATE_NEW || newContact.contact_name.trim().length > 0;
+
+  const handleSaveDeal = async (dealData: Partial<Deal>) => {
+    try {
+      const result = await convertLead({
+        lead,
+        account: accountChoice === CREATE_NEW
+          ? { mode: 'new', values: { ...newAccount, company_name: newAccount.company_name.trim() } }
+          : { mode: 'existing', id: accountChoice, name: selectedAccountName },
+        contact: contactChoice === CREATE_NEW
+          ? { mode: 'new', values: { ...newContact, contact_name: newContact.contact_name.trim() } }
+          : { mode: 'existing', id: contactChoice, name: contactOptions.find(option => option.id === contactChoice)?.name || '' },
+        deal: dealData,
+        leadStatus: convertedStatusName,
+      });
+
+      const moved = [
+        result.action_items_moved > 0 && `${result.action_items_moved} action item${result.action_items_moved === 1 ? '' : 's'}`,
+        result.meetings_moved > 0 && `${result.meetings_moved} meeting${result.meetings_moved === 1 ? '' : 's'}`,
+        result.emails_moved > 0 && `${result.emails_moved} email${result.emails_moved === 1 ? '' : 's'}`,
+      ].filter(Boolean);
+      const heldStatus = convertedStatusName
+        ? getHeldApprovalChange('leads', { lead_status: convertedStatusName }, { lead_status: result.lead_status })
+        : null;
+
+      toast({
+        title: heldStatus ? "Lead converted, status awaiting approval" : "Lead converted",
+        description: [
+          `${lead.lead_name} is now linked to ${selectedAccountName}.`,
+          moved.length > 0 && `Moved ${moved.join(', ')}.`,
+          heldStatus && `Changing the status to ${heldStatus} needs approval.`,
+        ].filter(Boolean).join(' '),
+      });
+
+      onSuccess();
+      return result.deal;
+    } catch (error) {
+      console.error("Error converting lead:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to convert lead",
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  // Create initial deal data based on lead with all required fields
+  // Keep Project Name blank as requested
+  const initialDeal: Deal = {
+    id: '', // Will be generated by database
+    created_at: new Date().toISOString(),
+    modified_at: new Date().toISOString(),
+    created_by: null, // Will be set by RLS
+    modified_by: null,
+    deal_name: `Deal for ${lead.lead_name}`, // This will be the deal name, not project name
+    stage: firstStageName || '',
+    project_name: '', // Keep blank as requested
+    customer_name: selectedAccountName,
+    lead_name: lead.lead_name,
+    lead_owner: lead.created_by ? (displayNames[lead.created_by] || 'Unknown User') : '', // Use display name from hook
+    region: lead.country || '',
+    priority: 3, // Default priority
+  };
+
+  const stepIndex = STEPS.findIndex(s => s.id === step);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className={`${step === 'deal' ? 'max-w-6xl' : 'max-w-2xl'} max-h-[90vh] overflow-y-auto`}>
+        <DialogHeader>
+          <DialogTitle>Convert Lead: {lead.lead_name}</DialogTitle>
+          <DialogDescription>
+            Creates the account, contact and deal in one step and moves the lead's action items, meetings and emails over.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          {STEPS.map((s, index) => (
+            <div key={s.id} className="flex items-center gap-2">
+              {index > 0 && <div className="h-px w-8 bg-border" />}
+              <Badge variant={index === stepIndex ? 'default' : 'outline'} className="gap-1">
+                {index < stepIndex && <Check className="h-3 w-3" />}
+                {index + 1}. {s.label}
+              </Badge>
+            </div>
+          ))}
+        </div>
+
+        {step === 'account' && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 font-medium">
+              <Building2 className="h-4 w-4" />
+              Which account does this lead belong to?
+            </div>
+            {accountMatches.isChecking && (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" /> Looking for matching accounts...
+              </p>
+            )}
+            <RadioGroup value={accountChoice} onValueChange={setAccountChoice} className="space-y-2">
+              {accountOptions.map(option => (
+                <Label key={option.id} className="flex items-center gap-3 rounded-md border p-3 font-normal cursor-pointer">
+                  <RadioGroupItem value={option.id} />
+                  <span className="font-medium">{option.name}</span>
+                  <span className="text-xs text-muted-foreground">{option.hint}</span>
+                </Label>
+              ))}
+              <Label className="flex items-center gap-3 rounded-md border p-3 font-normal cursor-pointer">
+                <RadioGroupItem value={CREATE_NEW} />
+                <span className="font-medium">Create a new account</span>
+              </Label>
+            </RadioGroup>
+
+            {accountChoice === CREATE_NEW && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="col-span-2 space-y-2">
+                  <Label htmlFor="convert-company-name">Company Name *</Label>
+                  <Input
+                    id="convert-company-name"
+                    value={newAccount.company_name}
+                    onChange={(e) => setNewAccount({ ...newAccount, company_name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="convert-industry">Industry</Label>
+                  <Input
+                    id="convert-industry"
+                    value={newAccount.industry}
+                    onChange={(e) => setNewAccount({ ...newAccount, industry: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="convert-country">Country</Label>
+                  <Input
+                    id="convert-country"
+                    value={newAccount.country}
+                    onChange={(e) => setNewAccount({ ...newAccount, country: e.target.value })}
+                  />
+                </div>
+                <div className="col-span-2 space-y-2">
+                  <Label htmlFor="convert-website">Website</Label>
+                  <Input
+                    id="convert-website"
+                    value={newAccount.website}
+                    onChange={(e) => setNewAccount({ ...newAccount, website: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'contact' && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 font-medium">
+              <User className="h-4 w-4" />
+              Contact at {selectedAccountName}
+            </div>
+            {contactMatches.isChecking && (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" /> Looking for matching contacts...
+              </p>
+            )}
+            <RadioGroup value={contactChoice} onValueChange={setContactChoice} className="space-y-2">
+              {contactOptions.map(option => (
+                <Label key={option.id} className="flex items-center gap-3 rounded-md border p-3 font-normal cursor-pointer">
+                  <RadioGroupItem value={option.id} />
+                  <span className="font-medium">{option.name}</span>
+                  <span className="text-xs text-muted-foreground">{option.hint}</span>
+                </Label>
+              ))}
+              <Label className="flex items-center gap-3 rounded-md border p-3 font-normal cursor-pointer">
+                <RadioGroupItem value={CREATE_NEW} />
+                <span className="font-medium">Create a new contact from the lead</span>
+              </Label>
+            </RadioGroup>
+
+            {contactChoice === CREATE_NEW && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="convert-contact-name">Name *</Label>
+                  <Input
+                    id="convert-contact-name"
+                    value={newContact.contact_name}
+                    onChange={(e) => setNewContact({ ...newContact, contact_name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="convert-position">Position</Label>
+                  <Input
+                    id="convert-position"
+                    value={newContact.position}
+                    onChange={(e) => setNewContact({ ...newContact, position: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="convert-email">Email</Label>
+                  <Input
+                    id="convert-email"
+                    type="email"
+                    value={newContact.email}
+                    onChange={(e) => setNewContact({ ...newContact, email: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="convert-phone">Phone</Label>
+                  <Input
+                    id="convert-phone"
+                    value={newContact.phone_no}
+                    onChange={(e) => setNewContact({ ...newContact, phone_no: e.target.value })}
+                  />
+                </div>
+                <div className="col-span-2 space-y-2">
+                  <Label htmlFor="convert-linkedin">LinkedIn</Label>
+                  <Input
+                    id="convert-linkedin"
+                    value={newContact.linkedin}
+                    onChange={(e) => setNewContact({ ...newContact, linkedin: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'deal' && (
+          <div className="space-y-2">
+            <Button variant="ghost" size="sm" onClick={() => setStep('contact')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to contact
+            </Button>
+            <DealForm
+              deal={initialDeal}
+              isOpen={true}
+              onClose={() => onOpenChange(false)}
+              onSave={handleSaveDeal}
+              isCreating={true}
+              initialStage="Lead"
+            />
+          </div>
+        )}
+
+        {step !== 'deal' && (
+          <div className="flex justify-between pt-2">
+            {step === 'contact' ? (
+              <Button variant="outline" onClick={() => setStep('account')}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+            )}
+            <Button onClick={() => setStep(step === 'account' ? 'contact' : 'deal')} disabled={!canContinue}>
+              Next
+              <ArrowRight className="h-4 w-4 ml-2" />
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
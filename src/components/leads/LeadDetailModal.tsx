@@ -8,11 +8,20 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { ApprovalStatusBadge } from '@/components/approvals/ApprovalStatusBadge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { EntityEmailHistory } from '@/components/shared/EntityEmailHistory';
 import { SendEmailModal } from '@/components/SendEmailModal';
+import { EmailSuppressionStatus } from '@/components/shared/EmailSuppressionStatus';
+import { useLeadStatuses } from '@/hooks/useLeadStatuses';
+import { getStageStyle } from '@/hooks/usePipelineStages';
 import { LeadActivityTimeline } from './LeadActivityTimeline';
 import { LeadActivityLogModal } from './LeadActivityLogModal';
+import { ScoreBadge } from '@/components/shared/ScoreBadge';
+import { ScorePanel } from '@/components/shared/ScorePanel';
+import { SCORE_HISTORY_QUERY_KEY, useRecordScore } from '@/hooks/useScoring';
+import { useQueryClient } from '@tanstack/react-query';
+import { useLeadConversion } from '@/hooks/useLeadConversion';
 import {
   User,
   Building2,
@@ -28,6 +37,8 @@ import {
   Activity,
   Factory,
   Pencil,
+  Users,
+  Briefcase,
 } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -41,6 +52,7 @@ interface Lead {
   linkedin: string | null;
   website: string | null;
   country: string | null;
+  company_size?: string | null;
   industry: string | null;
   contact_source: string | null;
   description: string | null;
@@ -68,31 +80,20 @@ export const LeadDetailModal = ({
   const [showEmailModal, setShowEmailModal] = useState(false);
   const [showActivityLogModal, setShowActivityLogModal] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
+  const { defaultStatusName, getStatusColor } = useLeadStatuses();
+  const { score, breakdown } = useRecordScore('leads', lead?.id);
+  const { conversion } = useLeadConversion(lead?.id);
+  const queryClient = useQueryClient();
 
   if (!lead) return null;
 
   const handleActivityLogged = () => {
     setRefreshKey(prev => prev + 1);
+    // Logged activity rescores the lead
+    queryClient.invalidateQueries({ queryKey: SCORE_HISTORY_QUERY_KEY });
     onUpdate?.();
   };
 
-  const getStatusColor = (status: string | null) => {
-    switch (status?.toLowerCase()) {
-      case 'new': 
-        return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400 border border-blue-200 dark:border-blue-800';
-      case 'attempted': 
-        return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400 border border-yellow-200 dark:border-yellow-800';
-      case 'follow-up': 
-        return 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400 border border-orange-200 dark:border-orange-800';
-      case 'qualified': 
-        return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400 border border-green-200 dark:border-green-800';
-      case 'disqualified': 
-        return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400 border border-red-200 dark:border-red-800';
-      default: 
-        return 'bg-gray-100 text-gray-600 dark:bg-gray-800/50 dark:text-gray-400 border border-gray-200 dark:border-gray-700';
-    }
-  };
-
   return (
     <>
       <Dialog open={open} onOpenChange={onOpenChange}>
@@ -112,12 +113,17 @@ export const LeadDetailModal = ({
                   )}
                 </div>
                 <div className="flex items-center gap-2 mt-2">
-                  <Badge className={getStatusColor(lead.lead_status)}>
-                    {lead.lead_status || 'New'}
+                  <Badge variant="outline" style={getStageStyle(getStatusColor(lead.lead_status || defaultStatusName))}>
+                    {lead.lead_status || defaultStatusName}
                   </Badge>
                   {lead.contact_source && (
                     <Badge variant="outline">Source: {lead.contact_source}</Badge>
                   )}
+                  <Badge variant="outline" className="gap-1">
+                    Score <ScoreBadge score={score} breakdown={breakdown} />
+                  </Badge>
+                  <ApprovalStatusBadge entityType="leads" entityId={lead.id} />
+                  <EmailSuppressionStatus email={lead.email} compact />
                 </div>
               </div>
               <div className="flex items-center gap-2">
@@ -146,9 +152,10 @@ export const LeadDetailModal = ({
           </DialogHeader>
 
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="overview">Overview</TabsTrigger>
               <TabsTrigger value="activity">Activity</TabsTrigger>
+              <TabsTrigger value="score">Score</TabsTrigger>
               <TabsTrigger value="emails">Emails</TabsTrigger>
               <TabsTrigger value="related">Related</TabsTrigger>
             </TabsList>
@@ -161,11 +168,12 @@ export const LeadDetailModal = ({
                   </CardHeader>
                   <CardContent className="space-y-3">
                     {lead.email && (
-                      <div className="flex items-center gap-2 text-sm">
+                      <div className="flex items-center gap-2 text-sm flex-wrap">
                         <Mail className="h-4 w-4 text-muted-foreground" />
                         <a href={`mailto:${lead.email}`} className="text-primary hover:underline">
                           {lead.email}
                         </a>
+                        <EmailSuppressionStatus email={lead.email} />
                       </div>
                     )}
                     {lead.phone_no && (
@@ -223,6 +231,12 @@ export const LeadDetailModal = ({
                         <span>{lead.country}</span>
                       </div>
                     )}
+                    {lead.company_size && (
+                      <div className="flex items-center gap-2 text-sm">
+                        <Users className="h-4 w-4 text-muted-foreground" />
+                        <span>{lead.company_size} employees</span>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               </div>
@@ -259,6 +273,10 @@ export const LeadDetailModal = ({
               <LeadActivityTimeline key={refreshKey} leadId={lead.id} />
             </TabsContent>
 
+            <TabsContent value="score" className="mt-4">
+              <ScorePanel entityType="leads" entityId={lead.id} title="Lead Score" onUpdate={onUpdate} />
+            </TabsContent>
+
             <TabsContent value="emails" className="mt-4">
               <div className="space-y-4">
                 <div className="flex justify-between items-center">
@@ -280,11 +298,38 @@ export const LeadDetailModal = ({
                   <CardTitle className="text-base">Related Records</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="text-center py-8 text-muted-foreground">
-                    <Building2 className="h-12 w-12 mx-auto mb-2 opacity-50" />
-                    <p>No linked account</p>
-                    <p className="text-xs mt-1">Convert this lead to link it to an account</p>
-                  </div>
+                  {conversion ? (
+                    <div className="space-y-3">
+                      <p className="text-sm text-muted-foreground">
+                        Converted on {format(new Date(conversion.converted_at), 'MMM d, yyyy')}
+                      </p>
+                      <div className="flex items-center gap-2 text-sm">
+                        <Building2 className="h-4 w-4 text-muted-foreground" />
+                        <span>{conversion.account?.company_name || 'Deleted account'}</span>
+                        <Badge variant="outline">{conversion.account_created ? 'New account' : 'Existing account'}</Badge>
+                      </div>
+                      <div className="flex items-center gap-2 text-sm">
+                        <User className="h-4 w-4 text-muted-foreground" />
+                        <span>{conversion.contact?.contact_name || 'Deleted contact'}</span>
+                        <Badge variant="outline">{conversion.contact_created ? 'New contact' : 'Existing contact'}</Badge>
+                      </div>
+                      <div className="flex items-center gap-2 text-sm">
+                        <Briefcase className="h-4 w-4 text-muted-foreground" />
+                        <span>{conversion.deal?.deal_name || 'Deleted deal'}</span>
+                        {conversion.deal && <Badge variant="outline">{conversion.deal.stage}</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Moved {conversion.action_items_moved} action items, {conversion.meetings_moved} meetings
+                        and {conversion.emails_moved} emails to the deal and contact.
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="text-center py-8 text-muted-foreground">
+                      <Building2 className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                      <p>No linked account</p>
+                      <p className="text-xs mt-1">Convert this lead to link it to an account</p>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </TabsContent>
@@ -11,49 +11,81 @@ interface ConflictingMeeting {
   end_time: string;
 }
 
+interface ProposedSlot {
+  start: Date;
+  end: Date;
+}
+
 interface MeetingConflictWarningProps {
   startTime: string; // ISO string
   endTime: string; // ISO string
   excludeMeetingId?: string; // Exclude current meeting when editing
+  occurrences?: ProposedSlot[]; // Every meeting of a series; checked instead of startTime/endTime
+  excludeSeriesId?: string | null; // Exclude the series being rescheduled, its meetings get replaced
 }
 
+// Existing meetings overlapping any of the slots.
+// A meeting overlaps if: existingStart < proposedEnd AND existingEnd > proposedStart
+const findConflicts = async (
+  slots: ProposedSlot[],
+  excludeMeetingId?: string,
+  excludeSeriesId?: string | null
+): Promise<ConflictingMeeting[]> => {
+  if (slots.length === 0) return [];
+  const rangeStart = new Date(Math.min(...slots.map(slot => slot.start.getTime()))).toISOString();
+  const rangeEnd = new Date(Math.max(...slots.map(slot => slot.end.getTime()))).toISOString();
+
+  let query = supabase
+    .from('meetings')
+    .select('id, subject, start_time, end_time, series_id')
+    .neq('status', 'cancelled')
+    .lt('start_time', rangeEnd)
+    .gt('end_time', rangeStart)
+    .order('start_time');
+
+  if (excludeMeetingId) {
+    query = query.neq('id', excludeMeetingId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || [])
+    .filter(meeting => !excludeSeriesId || meeting.series_id !== excludeSeriesId)
+    .filter(meeting => {
+      const start = new Date(meeting.start_time).getTime();
+      const end = new Date(meeting.end_time).getTime();
+      return slots.some(slot => start < slot.end.getTime() && end > slot.start.getTime());
+    })
+    .map(({ id, subject, start_time, end_time }) => ({ id, subject, start_time, end_time }));
+};
+
 export const MeetingConflictWarning = ({ 
   startTime, 
   endTime, 
-  excludeMeetingId 
+  excludeMeetingId,
+  occurrences,
+  excludeSeriesId
 }: MeetingConflictWarningProps) => {
   const [conflicts, setConflicts] = useState<ConflictingMeeting[]>([]);
   const [loading, setLoading] = useState(false);
 
+  // The series is re-expanded on every render; only re-check when its slots actually change
+  const occurrencesKey = occurrences?.map(o => `${o.start.getTime()}-${o.end.getTime()}`).join(',');
+
   useEffect(() => {
     if (startTime && endTime) {
       checkConflicts();
     }
-  }, [startTime, endTime, excludeMeetingId]);
+  }, [startTime, endTime, excludeMeetingId, occurrencesKey, excludeSeriesId]);
 
   const checkConflicts = async () => {
     if (!startTime || !endTime) return;
     
     setLoading(true);
     try {
-      // Find meetings that overlap with the proposed time range
-      // A meeting overlaps if: existingStart < proposedEnd AND existingEnd > proposedStart
-      let query = supabase
-        .from('meetings')
-        .select('id, subject, start_time, end_time')
-        .neq('status', 'cancelled')
-        .lt('start_time', endTime)
-        .gt('end_time', startTime);
-
-      // Exclude current meeting when editing
-      if (excludeMeetingId) {
-        query = query.neq('id', excludeMeetingId);
-      }
-
-      const { data, error } = await query;
-
-      if (error) throw error;
-      setConflicts(data || []);
+      const slots = occurrences ?? [{ start: new Date(startTime), end: new Date(endTime) }];
+      setConflicts(await findConflicts(slots, excludeMeetingId, excludeSeriesId));
     } catch (error) {
       console.error('Error checking conflicts:', error);
       setConflicts([]);
@@ -74,7 +106,7 @@ export const MeetingConflictWarning = ({
       </AlertTitle>
       <AlertDescription className="text-yellow-700 dark:text-yellow-300">
         <p className="mb-2">
-          This meeting overlaps with {conflicts.length} existing meeting{conflicts.length > 1 ? 's' : ''}:
+          {occurrences ? 'Meetings in this series overlap' : 'This meeting overlaps'} with {conflicts.length} existing meeting{conflicts.length > 1 ? 's' : ''}:
         </p>
         <ul className="space-y-1 text-sm">
           {conflicts.slice(0, 3).map((conflict) => (
@@ -105,20 +137,7 @@ export const useConflictCheck = () => {
     excludeMeetingId?: string
   ): Promise<ConflictingMeeting[]> => {
     try {
-      let query = supabase
-        .from('meetings')
-        .select('id, subject, start_time, end_time')
-        .neq('status', 'cancelled')
-        .lt('start_time', endTime)
-        .gt('end_time', startTime);
-
-      if (excludeMeetingId) {
-        query = query.neq('id', excludeMeetingId);
-      }
-
-      const { data, error } = await query;
-      if (error) throw error;
-      return data || [];
+      return await findConflicts([{ start: new Date(startTime), end: new Date(endTime) }], excludeMeetingId);
     } catch (error) {
       console.error('Error checking conflicts:', error);
       return [];
@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { CalendarIcon, Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { cn } from "@/lib/utils";
+import {
+  MEETING_FREQUENCY_OPTIONS,
+  MeetingFrequency,
+  MeetingRecurrenceFormValue,
+  WEEKDAY_OPTIONS,
+} from "@/utils/meetingRecurrence";
+
+interface MeetingRecurrenceFieldsProps {
+  value: MeetingRecurrenceFormValue;
+  onChange: (value: MeetingRecurrenceFormValue) => void;
+  // Weekday of the chosen start date, used when switching to weekly
+  startWeekday: number;
+  minDate?: Date;
+  // Series can't be turned back into a one-off meeting
+  allowNone?: boolean;
+  summary?: string | null;
+}
+
+export const MeetingRecurrenceFields = ({
+  value,
+  onChange,
+  startWeekday,
+  minDate,
+  allowNone = true,
+  summary,
+}: MeetingRecurrenceFieldsProps) => {
+  const [untilPopoverOpen, setUntilPopoverOpen] = useState(false);
+  const unit = MEETING_FREQUENCY_OPTIONS.find(option => option.value === value.frequency)?.unit;
+
+  const update = (changes: Partial<MeetingRecurrenceFormValue>) => onChange({ ...value, ...changes });
+
+  const handleFrequencyChange = (frequency: MeetingFrequency | 'none') => {
+    update({
+      frequency,
+      byWeekday: frequency === 'weekly' && value.byWeekday.length === 0 ? [startWeekday] : value.byWeekday,
+    });
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    update({
+      byWeekday: value.byWeekday.includes(weekday)
+        ? value.byWeekday.filter(day => day !== weekday)
+        : [...value.byWeekday, weekday],
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-4 gap-2">
+        <div className="space-y-1.5 col-span-2">
+          <Label className="text-xs font-medium">Repeat</Label>
+          <Select value={value.frequency} onValueChange={v => handleFrequencyChange(v as MeetingFrequency | 'none')}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {allowNone && <SelectItem value="none" className="text-xs">Does not repeat</SelectItem>}
+              {MEETING_FREQUENCY_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value} className="text-xs">
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {value.frequency !== 'none' && (
+          <div className="space-y-1.5 col-span-2">
+            <Label className="text-xs font-medium">Every</Label>
+            <div className="flex items-center gap-1.5">
+              <Input
+                type="number"
+                min={1}
+                max={99}
+                value={value.interval}
+                onChange={e => update({ interval: parseInt(e.target.value) || 1 })}
+                className="h-8 text-xs w-16"
+              />
+              <span className="text-xs text-muted-foreground">{unit}{value.interval === 1 ? '' : 's'}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {value.frequency === 'weekly' && (
+        <div className="flex gap-1">
+          {WEEKDAY_OPTIONS.map(day => (
+            <Button
+              key={day.value}
+              type="button"
+              variant={value.byWeekday.includes(day.value) ? 'secondary' : 'outline'}
+              size="sm"
+              className="h-7 flex-1 px-0 text-xs"
+              onClick={() => toggleWeekday(day.value)}
+            >
+              {day.label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {value.frequency !== 'none' && (
+        <div className="grid grid-cols-4 gap-2">
+          <div className="space-y-1.5 col-span-2">
+            <Label className="text-xs font-medium">Ends</Label>
+            <Select value={value.ends} onValueChange={v => update({ ends: v as MeetingRecurrenceFormValue['ends'] })}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="count" className="text-xs">After a number of meetings</SelectItem>
+                <SelectItem value="until" className="text-xs">On a date</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5 col-span-2">
+            <Label className="text-xs font-medium">{value.ends === 'count' ? 'Meetings' : 'End Date'}</Label>
+            {value.ends === 'count' ? (
+              <Input
+                type="number"
+                min={1}
+                max={200}
+                value={value.occurrenceCount}
+                onChange={e => update({ occurrenceCount: parseInt(e.target.value) || 1 })}
+                className="h-8 text-xs"
+              />
+            ) : (
+              <Popover open={untilPopoverOpen} onOpenChange={setUntilPopoverOpen}>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className={cn("w-full h-8 justify-start text-left font-normal text-xs", !value.untilDate && "text-muted-foreground")}>
+                    <CalendarIcon className="mr-1.5 h-3.5 w-3.5" />
+                    {value.untilDate ? format(parseISO(value.untilDate), "dd MMM yyyy") : "Select"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0 z-50" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={value.untilDate ? parseISO(value.untilDate) : undefined}
+                    onSelect={date => {
+                      update({ untilDate: date ? format(date, 'yyyy-MM-dd') : '' });
+                      setUntilPopoverOpen(false);
+                    }}
+                    disabled={date => !!minDate && date < minDate}
+                    initialFocus
+                    className="pointer-events-auto"
+                  />
+                </PopoverContent>
+              </Popover>
+            )}
+          </div>
+        </div>
+      )}
+
+      {value.frequency !== 'none' && summary && (
+        <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <Repeat className="h-3 w-3" />
+          {summary}
+        </p>
+      )}
+    </div>
+  );
+};
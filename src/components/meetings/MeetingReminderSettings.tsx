@@ -137,6 +137,9 @@ export const MeetingReminderSettings = ({ meetingId, disabled }: MeetingReminder
           />
         </div>
       </div>
+      <p className="text-xs text-muted-foreground">
+        Sent to the organizer and attendees who are CRM users, following their notification preferences
+      </p>
     </div>
   );
 };
@@ -1,6 +1,6 @@
 import { useState, useMemo } from "react";
 import { format, startOfWeek, endOfWeek, eachDayOfInterval, addWeeks, subWeeks, isSameDay, addDays, subDays, startOfMonth, endOfMonth, addMonths, subMonths, isSameMonth, setHours, setMinutes, differenceInMinutes } from "date-fns";
-import { ChevronLeft, ChevronRight, Video, GripVertical } from "lucide-react";
+import { ChevronLeft, ChevronRight, Video, GripVertical, Repeat } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
@@ -32,6 +32,8 @@ interface Meeting {
   status: string;
   lead_name?: string | null;
   contact_name?: string | null;
+  series_id?: string | null;
+  original_start_time?: string | null;
 }
 
 interface MeetingsCalendarViewProps {
@@ -222,6 +224,9 @@ export const MeetingsCalendarView = ({ meetings, onMeetingClick, onMeetingUpdate
 
     setIsRescheduling(true);
     try {
+      // Dragging a meeting of a series moves only that occurrence
+      const { series_id: seriesId, original_start_time: originalStart } = pendingReschedule.meeting;
+
       if (pendingReschedule.meeting.join_url) {
         const { error: teamsError } = await supabase.functions.invoke("update-teams-meeting", {
           body: {
@@ -230,6 +235,10 @@ export const MeetingsCalendarView = ({ meetings, onMeetingClick, onMeetingUpdate
             startTime: pendingReschedule.newStart.toISOString(),
             endTime: pendingReschedule.newEnd.toISOString(),
             timezone: "UTC",
+            ...(seriesId && {
+              scope: "occurrence",
+              occurrenceStart: originalStart || pendingReschedule.meeting.start_time,
+            }),
           },
         });
         if (teamsError) throw teamsError;
@@ -240,6 +249,7 @@ export const MeetingsCalendarView = ({ meetings, onMeetingClick, onMeetingUpdate
         .update({
           start_time: pendingReschedule.newStart.toISOString(),
           end_time: pendingReschedule.newEnd.toISOString(),
+          ...(seriesId && { is_series_exception: true }),
         })
         .eq('id', pendingReschedule.meeting.id);
 
@@ -373,6 +383,7 @@ export const MeetingsCalendarView = ({ meetings, onMeetingClick, onMeetingUpdate
                   Are you sure you want to reschedule <strong>"{pendingReschedule.meeting.subject}"</strong> to{' '}
                   <strong>{format(pendingReschedule.newStart, 'EEEE, MMMM d, yyyy')}</strong> at{' '}
                   <strong>{format(pendingReschedule.newStart, 'h:mm a')}</strong>?
+                  {pendingReschedule.meeting.series_id && ' Only this meeting of the series moves; the rest stay as scheduled.'}
                 </>
               )}
             </AlertDialogDescription>
@@ -486,6 +497,7 @@ const MonthView = ({
                           draggedMeeting?.id === meeting.id && "opacity-50"
                         )}
                       >
+                        {meeting.series_id && <Repeat className="inline h-3 w-3 mr-0.5 -mt-0.5" />}
                         <span className="font-semibold">{format(new Date(meeting.start_time), 'HH:mm')}</span>
                         {' '}{meeting.subject}
                       </div>
@@ -640,6 +652,9 @@ const DayWeekView = ({
                       {meeting.join_url && (
                         <Video className="h-3 w-3 mt-0.5 flex-shrink-0" />
                       )}
+                      {meeting.series_id && (
+                        <Repeat className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                      )}
                       <div className="min-w-0 flex-1">
                         <div className="text-xs font-semibold truncate">
                           {meeting.subject}
@@ -11,6 +11,7 @@ import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/hooks/useAuth';
 import { useThemePreferences } from '@/hooks/useThemePreferences';
 import { useSecurityAudit } from '@/hooks/useSecurityAudit';
+import CalendarFeedSettings from '@/components/settings/CalendarFeedSettings';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
@@ -779,6 +780,9 @@ const AccountSettingsPage = () => {
         </CardContent>
       </Card>
 
+      {/* Calendar Subscription Section */}
+      <CalendarFeedSettings />
+
       {/* Display Preferences Section */}
       <Card>
         <CardHeader className="pb-3">
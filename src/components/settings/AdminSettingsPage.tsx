@@ -1,5 +1,5 @@
 import { useState, lazy, Suspense, useMemo, useEffect } from 'react';
-import { ChevronDown, Users, Lock, GitBranch, Plug, Database, Shield, Activity, FileText, Megaphone, CheckSquare, Palette, Search } from 'lucide-react';
+import { ChevronDown, Users, Lock, GitBranch, Plug, Database, Shield, Activity, FileText, Megaphone, CheckSquare, Palette, Search, Coins, Target, Shuffle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -12,6 +12,8 @@ import { Loader2, ShieldAlert } from 'lucide-react';
 const UserManagement = lazy(() => import('@/components/UserManagement'));
 const PageAccessSettings = lazy(() => import('@/components/settings/PageAccessSettings'));
 const PipelineSettings = lazy(() => import('@/components/settings/PipelineSettings'));
+const ScoringSettings = lazy(() => import('@/components/settings/ScoringSettings'));
+const LeadAssignmentSettings = lazy(() => import('@/components/settings/LeadAssignmentSettings'));
 const IntegrationSettings = lazy(() => import('@/components/settings/IntegrationSettings'));
 const BackupRestoreSettings = lazy(() => import('@/components/settings/BackupRestoreSettings'));
 const AuditLogsSettings = lazy(() => import('@/components/settings/AuditLogsSettings'));
@@ -20,6 +22,7 @@ const ScheduledReportsSettings = lazy(() => import('@/components/settings/Schedu
 const AnnouncementSettings = lazy(() => import('@/components/settings/AnnouncementSettings'));
 const ApprovalWorkflowSettings = lazy(() => import('@/components/settings/ApprovalWorkflowSettings'));
 const BrandingSettings = lazy(() => import('@/components/settings/BrandingSettings'));
+const CurrencySettings = lazy(() => import('@/components/settings/CurrencySettings'));
 
 interface AdminSection {
   id: string;
@@ -55,6 +58,30 @@ const adminSections: AdminSection[] = [
     component: PipelineSettings,
     keywords: ['pipeline', 'stage', 'status', 'deal', 'lead', 'kanban'],
   },
+  {
+    id: 'scoring',
+    title: 'Scoring',
+    description: 'Configure the rules and weights that score leads, accounts and contacts',
+    icon: Target,
+    component: ScoringSettings,
+    keywords: ['lead', 'account', 'contact', 'score', 'scoring', 'rule', 'weight', 'decay', 'engagement'],
+  },
+  {
+    id: 'lead-assignment',
+    title: 'Lead Assignment',
+    description: 'Route new leads to users by territory, industry, source and company size',
+    icon: Shuffle,
+    component: LeadAssignmentSettings,
+    keywords: ['lead', 'assignment', 'routing', 'round robin', 'territory', 'owner', 'distribution'],
+  },
+  {
+    id: 'currency',
+    title: 'Currency & Exchange Rates',
+    description: 'Set the reporting currency and maintain exchange rates',
+    icon: Coins,
+    component: CurrencySettings,
+    keywords: ['currency', 'exchange', 'rate', 'revenue', 'reporting', 'conversion', 'money'],
+  },
   {
     id: 'integrations',
     title: 'Third-Party Integrations',
@@ -4,12 +4,16 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { useLeadStatuses } from '@/hooks/useLeadStatuses';
+import { APPROVAL_GUARD_FIELDS } from '@/hooks/useApprovals';
 import { 
   GitBranch, 
   Plus, 
@@ -56,6 +60,11 @@ const conditionFields = {
   ],
 };
 
+// Account statuses a workflow can hold back until approved; deal stages and lead statuses are configured
+const guardStatusOptions: Record<string, string[]> = {
+  accounts: ['New', 'Working', 'Warm', 'Hot', 'Nurture', 'Closed-Won', 'Closed-Lost'],
+};
+
 const operators = [
   { value: '>=', label: 'Greater than or equal' },
   { value: '>', label: 'Greater than' },
@@ -66,6 +75,8 @@ const operators = [
 
 const ApprovalWorkflowSettings = () => {
   const { user } = useAuth();
+  const { stageNames, wonStageNames } = usePipelineStages();
+  const { statusNames: leadStatusNames } = useLeadStatuses();
   const [workflows, setWorkflows] = useState<ApprovalWorkflow[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -78,6 +89,7 @@ const ApprovalWorkflowSettings = () => {
     condition_operator: '>=',
     condition_value: '100000',
     approval_steps: [{ step: 1, role: 'manager' }],
+    guard_values: [] as string[],
     is_enabled: true,
   });
 
@@ -121,6 +133,7 @@ const ApprovalWorkflowSettings = () => {
         condition_operator: condition?.operator || '>=',
         condition_value: condition?.value?.toString() || '100000',
         approval_steps: workflow.approval_steps || [{ step: 1, role: 'manager' }],
+        guard_values: condition?.guard_values || [],
         is_enabled: workflow.is_enabled,
       });
     } else {
@@ -132,6 +145,7 @@ const ApprovalWorkflowSettings = () => {
         condition_operator: '>=',
         condition_value: '100000',
         approval_steps: [{ step: 1, role: 'manager' }],
+        guard_values: wonStageNames,
         is_enabled: true,
       });
     }
@@ -156,6 +170,30 @@ const ApprovalWorkflowSettings = () => {
     });
   };
 
+  const getGuardOptions = (entityType: string) => {
+    if (entityType === 'deals') return stageNames;
+    if (entityType === 'leads') return leadStatusNames;
+    return guardStatusOptions[entityType] || [];
+  };
+
+  const handleEntityTypeChange = (entityType: string) => {
+    setFormData({
+      ...formData,
+      entity_type: entityType,
+      condition_field: conditionFields[entityType as keyof typeof conditionFields]?.[0]?.value || '',
+      guard_values: entityType === 'deals' ? wonStageNames : [],
+    });
+  };
+
+  const handleToggleGuardValue = (value: string, checked: boolean) => {
+    setFormData({
+      ...formData,
+      guard_values: checked
+        ? [...formData.guard_values, value]
+        : formData.guard_values.filter(v => v !== value),
+    });
+  };
+
   const handleStepRoleChange = (index: number, role: string) => {
     const newSteps = [...formData.approval_steps];
     newSteps[index] = { ...newSteps[index], role };
@@ -179,6 +217,7 @@ const ApprovalWorkflowSettings = () => {
           value: isNaN(Number(formData.condition_value)) 
             ? formData.condition_value 
             : Number(formData.condition_value),
+          guard_values: formData.guard_values,
         },
         approval_steps: formData.approval_steps,
         is_enabled: formData.is_enabled,
@@ -253,6 +292,14 @@ const ApprovalWorkflowSettings = () => {
     return `${condition.field} ${op} ${condition.value}`;
   };
 
+  const getGuardLabel = (workflow: ApprovalWorkflow) => {
+    const guardValues: string[] = workflow.trigger_conditions?.guard_values || [];
+    if (guardValues.length === 0) return null;
+
+    const field = APPROVAL_GUARD_FIELDS[workflow.entity_type as keyof typeof APPROVAL_GUARD_FIELDS] || 'status';
+    return `${field.replace('_', ' ')} → ${guardValues.join(', ')}`;
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -303,6 +350,11 @@ const ApprovalWorkflowSettings = () => {
                       <p className="text-sm text-muted-foreground mb-2">
                         Trigger: {getConditionLabel(workflow)}
                       </p>
+                      {getGuardLabel(workflow) && (
+                        <p className="text-sm text-muted-foreground mb-2">
+                          Held until approved: <span className="capitalize">{getGuardLabel(workflow)}</span>
+                        </p>
+                      )}
                       <div className="flex items-center gap-2 text-sm">
                         <span className="text-muted-foreground">Steps:</span>
                         {workflow.approval_steps.map((step, i) => (
@@ -361,7 +413,7 @@ const ApprovalWorkflowSettings = () => {
               <Label>Entity Type</Label>
               <Select 
                 value={formData.entity_type} 
-                onValueChange={(v) => setFormData({ ...formData, entity_type: v })}
+                onValueChange={handleEntityTypeChange}
               >
                 <SelectTrigger>
                   <SelectValue />
@@ -419,6 +471,24 @@ const ApprovalWorkflowSettings = () => {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label>Require Approval To Move To</Label>
+              <p className="text-xs text-muted-foreground">
+                Matching records can't enter these values until every step approves. Leave empty to only request a review.
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {getGuardOptions(formData.entity_type).map((value) => (
+                  <label key={value} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={formData.guard_values.includes(value)}
+                      onCheckedChange={(checked) => handleToggleGuardValue(value, !!checked)}
+                    />
+                    {value}
+                  </label>
+                ))}
+              </div>
+            </div>
+
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <Label>Approval Steps</Label>
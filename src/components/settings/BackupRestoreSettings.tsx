@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from 'sonner';
 import { supabase } from "@/integrations/supabase/client";
 import { useUserRole } from "@/hooks/useUserRole";
@@ -18,7 +19,9 @@ import {
   Clock,
   User,
   HardDrive,
-  FileJson
+  FileJson,
+  CalendarClock,
+  AlertCircle
 } from "lucide-react";
 import { format } from "date-fns";
 import {
@@ -32,6 +35,10 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 
 interface Backup {
   id: string;
@@ -47,6 +54,40 @@ interface Backup {
   created_by: string;
 }
 
+interface BackupSchedule {
+  id: string;
+  is_enabled: boolean | null;
+  frequency: string;
+  day_of_week: number | null;
+  time_of_day: string;
+  retention_days: number | null;
+  last_run_at: string | null;
+  last_run_status: string | null;
+  last_error: string | null;
+  last_success_at: string | null;
+  next_run_at: string | null;
+}
+
+type RestoreMode = 'replace' | 'merge';
+
+interface RestoreTableDiff {
+  table: string;
+  inserts: number;
+  updates: number;
+  deletes: number;
+  skipped: number;
+}
+
+const daysOfWeek = [
+  { value: 0, label: 'Sunday' },
+  { value: 1, label: 'Monday' },
+  { value: 2, label: 'Tuesday' },
+  { value: 3, label: 'Wednesday' },
+  { value: 4, label: 'Thursday' },
+  { value: 5, label: 'Friday' },
+  { value: 6, label: 'Saturday' },
+];
+
 const BackupRestoreSettings = () => {
   const [backups, setBackups] = useState<Backup[]>([]);
   const [loading, setLoading] = useState(true);
@@ -57,7 +98,20 @@ const BackupRestoreSettings = () => {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [selectedBackup, setSelectedBackup] = useState<Backup | null>(null);
   const [confirmText, setConfirmText] = useState('');
-  const [scheduledBackup, setScheduledBackup] = useState(false);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('replace');
+  const [restoreTables, setRestoreTables] = useState<string[]>([]);
+  const [recordIdsText, setRecordIdsText] = useState('');
+  const [restorePreview, setRestorePreview] = useState<RestoreTableDiff[] | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [schedule, setSchedule] = useState<BackupSchedule | null>(null);
+  const [scheduleForm, setScheduleForm] = useState({
+    is_enabled: false,
+    frequency: 'daily',
+    day_of_week: 0,
+    time_of_day: '00:00',
+    retention_days: 30,
+  });
+  const [savingSchedule, setSavingSchedule] = useState(false);
   const [userNames, setUserNames] = useState<Record<string, string>>({});
   const { isAdmin, loading: roleLoading } = useUserRole();
   const { user } = useAuth();
@@ -68,7 +122,7 @@ const BackupRestoreSettings = () => {
         .from('backups')
         .select('*')
         .order('created_at', { ascending: false })
-        .limit(10);
+        .limit(20);
 
       if (error) throw error;
       setBackups(data || []);
@@ -97,13 +151,71 @@ const BackupRestoreSettings = () => {
     }
   }, []);
 
+  const fetchSchedule = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('backup_schedules')
+        .select('*')
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      setSchedule(data);
+      if (data) {
+        setScheduleForm({
+          is_enabled: !!data.is_enabled,
+          frequency: data.frequency,
+          day_of_week: data.day_of_week ?? 0,
+          time_of_day: (data.time_of_day || '00:00').slice(0, 5),
+          retention_days: data.retention_days ?? 30,
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching backup schedule:', error);
+    }
+  }, []);
+
   useEffect(() => {
     if (!roleLoading && isAdmin) {
       fetchBackups();
+      fetchSchedule();
     } else if (!roleLoading) {
       setLoading(false);
     }
-  }, [fetchBackups, isAdmin, roleLoading]);
+  }, [fetchBackups, fetchSchedule, isAdmin, roleLoading]);
+
+  const handleSaveSchedule = async () => {
+    if (scheduleForm.retention_days < 1) {
+      toast.error('Retention must be at least 1 day');
+      return;
+    }
+
+    setSavingSchedule(true);
+    try {
+      const payload = {
+        is_enabled: scheduleForm.is_enabled,
+        frequency: scheduleForm.frequency,
+        day_of_week: scheduleForm.frequency === 'weekly' ? scheduleForm.day_of_week : null,
+        time_of_day: scheduleForm.time_of_day,
+        retention_days: scheduleForm.retention_days,
+      };
+
+      // next_run_at is recalculated by a trigger whenever the timing changes
+      const { error } = schedule
+        ? await supabase.from('backup_schedules').update(payload).eq('id', schedule.id)
+        : await supabase.from('backup_schedules').insert({ ...payload, created_by: user?.id });
+
+      if (error) throw error;
+      toast.success('Backup schedule saved');
+      await fetchSchedule();
+    } catch (error) {
+      console.error('Error saving backup schedule:', error);
+      toast.error('Failed to save backup schedule');
+    } finally {
+      setSavingSchedule(false);
+    }
+  };
 
   const handleCreateBackup = async () => {
     if (!isAdmin) {
@@ -155,14 +267,69 @@ const BackupRestoreSettings = () => {
     }
   };
 
+  const getBackupTables = (backup: Backup | null): string[] =>
+    (backup?.manifest?.tables || [])
+      .filter((table: { error?: string }) => !table.error)
+      .map((table: { name: string }) => table.name);
+
+  const getRecordIds = () =>
+    recordIdsText.split(/[\s,]+/).map(id => id.trim()).filter(Boolean);
+
+  const getRestoreBody = (dryRun: boolean) => ({
+    backupId: selectedBackup?.id,
+    mode: restoreMode,
+    dryRun,
+    tables: restoreTables,
+    recordIds: getRecordIds(),
+  });
+
   const handleRestoreClick = (backup: Backup) => {
     setSelectedBackup(backup);
     setConfirmText('');
+    setRestoreMode('replace');
+    setRestoreTables(getBackupTables(backup));
+    setRecordIdsText('');
+    setRestorePreview(null);
     setShowRestoreDialog(true);
   };
 
+  // Any option change invalidates the preview, so a restore always matches what was reviewed
+  const updateRestoreOptions = (update: () => void) => {
+    update();
+    setRestorePreview(null);
+    setConfirmText('');
+  };
+
+  const toggleRestoreTable = (tableName: string, checked: boolean) => {
+    updateRestoreOptions(() =>
+      setRestoreTables(prev => checked ? [...prev, tableName] : prev.filter(t => t !== tableName))
+    );
+  };
+
+  const handlePreviewRestore = async () => {
+    if (!selectedBackup || restoreTables.length === 0) return;
+
+    setPreviewing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('restore-backup', {
+        method: 'POST',
+        body: getRestoreBody(true)
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      setRestorePreview(data.tables || []);
+    } catch (error) {
+      console.error('Error previewing restore:', error);
+      toast.error((error as Error).message || 'Failed to preview restore');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
   const handleRestoreConfirm = async () => {
-    if (!selectedBackup || confirmText !== 'CONFIRM') return;
+    if (!selectedBackup || !restorePreview || confirmText !== 'CONFIRM') return;
 
     setRestoring(selectedBackup.id);
     setShowRestoreDialog(false);
@@ -170,12 +337,19 @@ const BackupRestoreSettings = () => {
     try {
       const { data, error } = await supabase.functions.invoke('restore-backup', {
         method: 'POST',
-        body: { backupId: selectedBackup.id }
+        body: getRestoreBody(false)
       });
 
       if (error) throw error;
-
-      toast.success('Restore process initiated. This may take a few minutes.');
+      if (data?.error) throw new Error(data.error);
+
+      if (data?.success) {
+        toast.success(`Restore completed: ${data.restored_tables?.length || 0} table(s) restored`);
+      } else {
+        toast.warning(data?.message || 'Restore completed with errors', {
+          description: (data?.errors || []).slice(0, 3).join('\n'),
+        });
+      }
     } catch (error: any) {
       console.error('Error restoring backup:', error);
       toast.error(error.message || 'Failed to restore backup');
@@ -328,26 +502,113 @@ const BackupRestoreSettings = () => {
           </Card>
         </div>
 
-        {/* Scheduled Backup Toggle - Feature Coming Soon */}
+        {/* Scheduled Backups */}
         <Card>
-          <CardContent className="pt-6">
+          <CardHeader className="pb-3">
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
-                <div className="flex items-center gap-2">
-                  <Label htmlFor="scheduled-backup" className="text-base">Scheduled Backups</Label>
-                  <Badge variant="secondary" className="text-xs">Coming Soon</Badge>
-                </div>
-                <p className="text-sm text-muted-foreground">
-                  Automatically create daily backups at midnight
-                </p>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <CalendarClock className="h-5 w-5" />
+                  Scheduled Backups
+                </CardTitle>
+                <CardDescription>
+                  Automatically create backups and delete scheduled ones older than the retention period
+                </CardDescription>
               </div>
               <Switch
                 id="scheduled-backup"
-                checked={scheduledBackup}
-                onCheckedChange={setScheduledBackup}
-                disabled
+                checked={scheduleForm.is_enabled}
+                onCheckedChange={(checked) => setScheduleForm({ ...scheduleForm, is_enabled: checked })}
               />
             </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label>Frequency</Label>
+                <Select
+                  value={scheduleForm.frequency}
+                  onValueChange={(v) => setScheduleForm({ ...scheduleForm, frequency: v })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="daily">Daily</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {scheduleForm.frequency === 'weekly' && (
+                <div className="space-y-2">
+                  <Label>Day of Week</Label>
+                  <Select
+                    value={scheduleForm.day_of_week.toString()}
+                    onValueChange={(v) => setScheduleForm({ ...scheduleForm, day_of_week: parseInt(v) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {daysOfWeek.map((day) => (
+                        <SelectItem key={day.value} value={day.value.toString()}>
+                          {day.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="backup-time">Time (UTC)</Label>
+                <Input
+                  id="backup-time"
+                  type="time"
+                  value={scheduleForm.time_of_day}
+                  onChange={(e) => setScheduleForm({ ...scheduleForm, time_of_day: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="retention-days">Retention (days)</Label>
+                <Input
+                  id="retention-days"
+                  type="number"
+                  min={1}
+                  value={scheduleForm.retention_days}
+                  onChange={(e) => setScheduleForm({ ...scheduleForm, retention_days: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                {schedule?.next_run_at && (
+                  <span className="flex items-center gap-1">
+                    <Clock className="h-3 w-3" />
+                    Next run: {format(new Date(schedule.next_run_at), 'dd/MM/yyyy, HH:mm')}
+                  </span>
+                )}
+                {schedule?.last_run_at && (
+                  <span className="flex items-center gap-1">
+                    Last run: {format(new Date(schedule.last_run_at), 'dd/MM/yyyy, HH:mm')}
+                    <Badge variant={schedule.last_run_status === 'failed' ? 'destructive' : 'secondary'} className="text-xs">
+                      {schedule.last_run_status === 'failed' ? 'Failed' : 'Success'}
+                    </Badge>
+                  </span>
+                )}
+              </div>
+              <Button size="sm" onClick={handleSaveSchedule} disabled={savingSchedule}>
+                {savingSchedule && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+                Save Schedule
+              </Button>
+            </div>
+
+            {schedule?.last_error && (
+              <p className="flex items-center gap-1 text-xs text-destructive">
+                <AlertCircle className="h-3 w-3" />
+                {schedule.last_error}
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -359,7 +620,7 @@ const BackupRestoreSettings = () => {
               Backup History
             </CardTitle>
             <CardDescription>
-              Recent backups with download and restore options (last 10)
+              Recent backups with download and restore options
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-3">
@@ -387,7 +648,7 @@ const BackupRestoreSettings = () => {
                       </span>
                       <span className="flex items-center gap-1">
                         <User className="h-3 w-3" />
-                        {backup.backup_type === 'manual' ? 'Manual' : 'Auto'}
+                        {backup.backup_type === 'manual' ? 'Manual' : 'Scheduled'}
                       </span>
                       <span>
                         {backup.tables_count} tables • {backup.records_count?.toLocaleString()} records
@@ -441,45 +702,143 @@ const BackupRestoreSettings = () => {
         </Card>
       </div>
 
-      {/* Restore Confirmation Dialog */}
-      <AlertDialog open={showRestoreDialog} onOpenChange={setShowRestoreDialog}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle className="text-destructive">⚠️ Confirm Restore</AlertDialogTitle>
-            <AlertDialogDescription className="space-y-4">
-              <p>You are about to restore the database from backup:</p>
-              <p className="font-mono text-sm bg-muted p-2 rounded">{selectedBackup?.file_name}</p>
-              <div className="bg-destructive/10 border border-destructive/20 rounded p-3 text-sm">
-                <p className="font-semibold text-destructive">This action will:</p>
-                <ul className="list-disc list-inside mt-2 space-y-1">
-                  <li>Overwrite all current database tables</li>
-                  <li>Replace all storage files</li>
-                  <li>May cause brief downtime</li>
-                  <li>Cannot be undone</li>
-                </ul>
+      {/* Restore Dialog */}
+      <Dialog open={showRestoreDialog} onOpenChange={setShowRestoreDialog}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-destructive">⚠️ Restore Backup</DialogTitle>
+            <DialogDescription>
+              <span className="font-mono text-sm">{selectedBackup?.file_name}</span>
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Mode</Label>
+                <Select
+                  value={restoreMode}
+                  onValueChange={(v) => updateRestoreOptions(() => setRestoreMode(v as RestoreMode))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="replace">Replace - make tables match the backup</SelectItem>
+                    <SelectItem value="merge">Merge - add missing rows, keep newer ones</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
               <div className="space-y-2">
-                <Label>Type "CONFIRM" to proceed:</Label>
-                <Input 
-                  value={confirmText}
-                  onChange={(e) => setConfirmText(e.target.value)}
-                  placeholder="CONFIRM"
+                <Label htmlFor="restore-record-ids">Only these record IDs (optional)</Label>
+                <Textarea
+                  id="restore-record-ids"
+                  value={recordIdsText}
+                  onChange={(e) => updateRestoreOptions(() => setRecordIdsText(e.target.value))}
+                  placeholder="Paste IDs separated by commas or new lines"
+                  rows={2}
                 />
               </div>
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction 
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Tables</Label>
+                <div className="flex gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateRestoreOptions(() => setRestoreTables(getBackupTables(selectedBackup)))}
+                  >
+                    All
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => updateRestoreOptions(() => setRestoreTables([]))}>
+                    None
+                  </Button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2 max-h-40 overflow-y-auto border rounded-md p-3">
+                {getBackupTables(selectedBackup).map((tableName) => (
+                  <label key={tableName} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={restoreTables.includes(tableName)}
+                      onCheckedChange={(checked) => toggleRestoreTable(tableName, !!checked)}
+                    />
+                    {tableName}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={handlePreviewRestore}
+              disabled={previewing || restoreTables.length === 0}
+            >
+              {previewing && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+              Preview Changes
+            </Button>
+
+            {restorePreview && (
+              <>
+                <div className="border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Table</TableHead>
+                        <TableHead className="text-right">Inserts</TableHead>
+                        <TableHead className="text-right">Updates</TableHead>
+                        <TableHead className="text-right">Deletes</TableHead>
+                        {restoreMode === 'merge' && <TableHead className="text-right">Kept (newer)</TableHead>}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {restorePreview.map((diff) => (
+                        <TableRow key={diff.table}>
+                          <TableCell className="font-mono text-xs">{diff.table}</TableCell>
+                          <TableCell className="text-right">{diff.inserts}</TableCell>
+                          <TableCell className="text-right">{diff.updates}</TableCell>
+                          <TableCell className={`text-right ${diff.deletes > 0 ? 'text-destructive font-medium' : ''}`}>
+                            {diff.deletes}
+                          </TableCell>
+                          {restoreMode === 'merge' && <TableCell className="text-right">{diff.skipped}</TableCell>}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {restorePreview.some(diff => diff.deletes > 0) && (
+                  <div className="bg-destructive/10 border border-destructive/20 rounded p-3 text-sm text-destructive">
+                    Rows created since this backup will be permanently deleted. This cannot be undone.
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label>Type "CONFIRM" to proceed:</Label>
+                  <Input
+                    value={confirmText}
+                    onChange={(e) => setConfirmText(e.target.value)}
+                    placeholder="CONFIRM"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowRestoreDialog(false)}>Cancel</Button>
+            <Button
+              variant="destructive"
               onClick={handleRestoreConfirm}
-              disabled={confirmText !== 'CONFIRM'}
-              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={!restorePreview || confirmText !== 'CONFIRM'}
             >
               Restore Backup
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
 
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
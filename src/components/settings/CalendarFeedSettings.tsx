@@ -0,0 +1,94 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useCalendarFeed } from '@/hooks/useCalendarFeed';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { CalendarDays, Copy, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+
+const CalendarFeedSettings = () => {
+  const { feed, feedUrl, isLoading, createFeed, isCreating, disableFeed, isDisabling } = useCalendarFeed();
+
+  const handleCreate = async () => {
+    try {
+      await createFeed();
+      toast.success(feed ? 'Feed link reset. Update your calendar with the new link.' : 'Calendar feed created');
+    } catch (error) {
+      toast.error(`Failed to update calendar feed: ${(error as Error).message}`);
+    }
+  };
+
+  const handleDisable = async () => {
+    try {
+      await disableFeed();
+      toast.success('Calendar feed turned off');
+    } catch (error) {
+      toast.error(`Failed to turn off calendar feed: ${(error as Error).message}`);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success('Feed link copied');
+    } catch {
+      toast.error('Could not copy to clipboard');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <CalendarDays className="h-4 w-4" />
+          Calendar Subscription
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Subscribe from Google Calendar, Outlook or Apple Calendar to see your meetings and task due dates.
+          Anyone with the link can read these, so keep it private and reset it if it is shared.
+        </p>
+
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : feedUrl ? (
+          <>
+            <div className="flex gap-2">
+              <Input value={feedUrl} readOnly className="h-9 font-mono text-xs" onFocus={e => e.target.select()} />
+              <Button variant="outline" size="sm" className="h-9" onClick={handleCopy}>
+                <Copy className="h-3.5 w-3.5 mr-1.5" />
+                Copy
+              </Button>
+            </div>
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-muted-foreground">
+                {feed?.last_accessed_at
+                  ? `Last synced ${format(new Date(feed.last_accessed_at), 'dd MMM yyyy, HH:mm')}`
+                  : 'Not synced by a calendar yet'}
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleCreate} disabled={isCreating}>
+                  {isCreating ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <RefreshCw className="h-3.5 w-3.5 mr-1.5" />}
+                  Reset Link
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleDisable} disabled={isDisabling}>
+                  <Trash2 className="h-3.5 w-3.5 mr-1.5" />
+                  Turn Off
+                </Button>
+              </div>
+            </div>
+          </>
+        ) : (
+          <Button variant="outline" size="sm" onClick={handleCreate} disabled={isCreating}>
+            {isCreating && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
+            Create Feed Link
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CalendarFeedSettings;
@@ -0,0 +1,164 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Loader2, Paperclip, RefreshCw, Trash2 } from 'lucide-react';
+
+interface CapturedEmail {
+  id: string;
+  sender_email: string;
+  recipient_email: string;
+  recipient_name: string | null;
+  subject: string;
+  html_body: string | null;
+  attachments: { name: string; contentType: string; size: number }[];
+  created_at: string;
+}
+
+const CAPTURED_EMAILS_LIMIT = 50;
+
+// Messages held back by the capture transport, so outgoing email can be checked without sending it
+const CapturedEmailsPanel = () => {
+  const [emails, setEmails] = useState<CapturedEmail[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [clearing, setClearing] = useState(false);
+  const [selectedEmail, setSelectedEmail] = useState<CapturedEmail | null>(null);
+
+  useEffect(() => {
+    fetchCapturedEmails();
+  }, []);
+
+  const fetchCapturedEmails = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('captured_emails')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(CAPTURED_EMAILS_LIMIT);
+
+      if (error) throw error;
+      setEmails((data || []).map(email => ({
+        ...email,
+        attachments: (email.attachments || []) as CapturedEmail['attachments'],
+      })));
+    } catch (error) {
+      console.error('Error fetching captured emails:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const clearCapturedEmails = async () => {
+    setClearing(true);
+    try {
+      const { error } = await supabase
+        .from('captured_emails')
+        .delete()
+        .not('id', 'is', null);
+
+      if (error) throw error;
+      setEmails([]);
+      toast.success('Captured emails cleared');
+    } catch (error) {
+      console.error('Error clearing captured emails:', error);
+      toast.error('Failed to clear captured emails');
+    } finally {
+      setClearing(false);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Captured Emails</CardTitle>
+            <CardDescription>
+              Email is being captured instead of sent. The latest {CAPTURED_EMAILS_LIMIT} messages are shown here.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={fetchCapturedEmails} disabled={loading}>
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Refresh
+            </Button>
+            <Button variant="outline" size="sm" onClick={clearCapturedEmails} disabled={clearing || emails.length === 0}>
+              {clearing ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Trash2 className="h-4 w-4 mr-1" />}
+              Clear
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : emails.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No captured emails yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Captured</TableHead>
+                  <TableHead>From</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead>Subject</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {emails.map(email => (
+                  <TableRow key={email.id} className="cursor-pointer" onClick={() => setSelectedEmail(email)}>
+                    <TableCell className="whitespace-nowrap text-sm">{format(new Date(email.created_at), 'dd MMM, HH:mm:ss')}</TableCell>
+                    <TableCell className="text-sm">{email.sender_email}</TableCell>
+                    <TableCell className="text-sm">{email.recipient_name || email.recipient_email}</TableCell>
+                    <TableCell className="text-sm">
+                      <span className="flex items-center gap-1">
+                        {email.attachments.length > 0 && <Paperclip className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                        {email.subject}
+                      </span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedEmail} onOpenChange={(open) => !open && setSelectedEmail(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{selectedEmail?.subject}</DialogTitle>
+            <DialogDescription>
+              From {selectedEmail?.sender_email} to {selectedEmail?.recipient_name ? `${selectedEmail.recipient_name} <${selectedEmail.recipient_email}>` : selectedEmail?.recipient_email}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedEmail && selectedEmail.attachments.length > 0 && (
+            <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+              {selectedEmail.attachments.map((attachment, index) => (
+                <span key={index} className="flex items-center gap-1 px-2 py-1 bg-muted rounded">
+                  <Paperclip className="h-3 w-3" />
+                  {attachment.name} ({Math.max(1, Math.round(attachment.size / 1024))} KB)
+                </span>
+              ))}
+            </div>
+          )}
+          {/* Rendered without scripts, as a mail client would */}
+          <iframe
+            title="Captured email"
+            sandbox=""
+            srcDoc={selectedEmail?.html_body || ''}
+            className="w-full h-96 border rounded-md bg-white"
+          />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default CapturedEmailsPanel;
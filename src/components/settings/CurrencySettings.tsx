@@ -0,0 +1,313 @@
+import { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Coins, Plus, Save, Trash2, Loader2, AlertTriangle } from 'lucide-react';
+import { SUPPORTED_CURRENCIES } from '@/utils/formatUtils';
+import { DEFAULT_DEAL_CURRENCY, DEFAULT_REPORTING_CURRENCY } from '@/utils/currencyConversion';
+import { CURRENCY_SETTINGS_QUERY_KEY, useCurrencyConversion } from '@/hooks/useCurrencyConversion';
+
+interface ExchangeRateRow {
+  id: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  effective_date: string;
+}
+
+// Everything that shows converted amounts
+const CONVERTED_QUERY_KEYS = [CURRENCY_SETTINGS_QUERY_KEY, ['yearly-revenue'], ['dashboard-stats'], ['user-deals-enhanced']];
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const CurrencySettings = () => {
+  const queryClient = useQueryClient();
+  const { hasRate, isLoading: ratesLoading } = useCurrencyConversion();
+  const [settingsId, setSettingsId] = useState<string | null>(null);
+  const [reportingCurrency, setReportingCurrency] = useState(DEFAULT_REPORTING_CURRENCY);
+  const [savedReportingCurrency, setSavedReportingCurrency] = useState(DEFAULT_REPORTING_CURRENCY);
+  const [rates, setRates] = useState<ExchangeRateRow[]>([]);
+  const [dealCurrencies, setDealCurrencies] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newRate, setNewRate] = useState({ from_currency: 'USD', to_currency: DEFAULT_REPORTING_CURRENCY, rate: '', effective_date: today() });
+
+  const fetchData = async () => {
+    try {
+      const [settingsResult, ratesResult, dealsResult] = await Promise.all([
+        supabase.from('currency_settings').select('*').limit(1).maybeSingle(),
+        supabase.from('exchange_rates').select('id, from_currency, to_currency, rate, effective_date').order('effective_date', { ascending: false }),
+        supabase.from('deals').select('currency_type'),
+      ]);
+
+      if (settingsResult.error) throw settingsResult.error;
+      if (ratesResult.error) throw ratesResult.error;
+
+      let settings = settingsResult.data;
+      if (!settings) {
+        const { data: newSettings, error: insertError } = await supabase
+          .from('currency_settings')
+          .insert({})
+          .select()
+          .single();
+
+        if (insertError) throw insertError;
+        settings = newSettings;
+      }
+
+      setSettingsId(settings.id);
+      setReportingCurrency(settings.reporting_currency);
+      setSavedReportingCurrency(settings.reporting_currency);
+      setNewRate(prev => ({ ...prev, to_currency: settings.reporting_currency }));
+      setRates(ratesResult.data || []);
+      setDealCurrencies([...new Set((dealsResult.data || []).map(deal => deal.currency_type || DEFAULT_DEAL_CURRENCY))]);
+    } catch (error) {
+      console.error('Error fetching currency settings:', error);
+      toast.error('Failed to load currency settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const refreshConvertedData = () => {
+    CONVERTED_QUERY_KEYS.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+  };
+
+  const handleSaveReportingCurrency = async () => {
+    if (!settingsId) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('currency_settings')
+        .update({ reporting_currency: reportingCurrency })
+        .eq('id', settingsId);
+
+      if (error) throw error;
+
+      setSavedReportingCurrency(reportingCurrency);
+      refreshConvertedData();
+      toast.success(`Reporting currency set to ${reportingCurrency}`);
+    } catch (error) {
+      console.error('Error saving reporting currency:', error);
+      toast.error('Failed to save reporting currency');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddRate = async () => {
+    const rate = parseFloat(newRate.rate);
+    if (newRate.from_currency === newRate.to_currency) {
+      toast.error('Choose two different currencies');
+      return;
+    }
+    if (!rate || rate <= 0) {
+      toast.error('Enter a rate greater than zero');
+      return;
+    }
+
+    try {
+      // One rate per pair and day; entering it again corrects it
+      const { error } = await supabase
+        .from('exchange_rates')
+        .upsert({
+          from_currency: newRate.from_currency,
+          to_currency: newRate.to_currency,
+          rate,
+          effective_date: newRate.effective_date || today(),
+        }, { onConflict: 'from_currency,to_currency,effective_date' });
+
+      if (error) throw error;
+
+      toast.success('Exchange rate saved');
+      setNewRate(prev => ({ ...prev, rate: '' }));
+      refreshConvertedData();
+      fetchData();
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      toast.error('Failed to save exchange rate');
+    }
+  };
+
+  const handleDeleteRate = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('exchange_rates')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setRates(prev => prev.filter(rate => rate.id !== id));
+      refreshConvertedData();
+      toast.success('Exchange rate deleted');
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error);
+      toast.error('Failed to delete exchange rate');
+    }
+  };
+
+  // Deal currencies that can't be converted yet; their amounts are left out of converted totals
+  const missingRates = ratesLoading ? [] : dealCurrencies.filter(currency => !hasRate(currency));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Coins className="h-5 w-5" />
+            Reporting Currency
+          </CardTitle>
+          <CardDescription>
+            Revenue totals, dashboards, targets and exports are converted to this currency
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end gap-3">
+            <div className="space-y-2">
+              <Label>Currency</Label>
+              <Select value={reportingCurrency} onValueChange={setReportingCurrency}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_CURRENCIES.map(currency => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleSaveReportingCurrency} disabled={saving || reportingCurrency === savedReportingCurrency}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Exchange Rates</CardTitle>
+          <CardDescription>
+            Each rate applies from its date until the next rate for the same pair. Deals convert at the rate in effect on
+            their signed contract date, or expected closing date when not yet signed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {missingRates.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                No rate to {savedReportingCurrency} for {missingRates.join(', ')}. Deals in {missingRates.length === 1 ? 'this currency' : 'these currencies'} are
+                left out of converted totals until a rate is added.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Select value={newRate.from_currency} onValueChange={(value) => setNewRate(prev => ({ ...prev, from_currency: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_CURRENCIES.map(currency => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Select value={newRate.to_currency} onValueChange={(value) => setNewRate(prev => ({ ...prev, to_currency: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_CURRENCIES.map(currency => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Rate</Label>
+              <Input
+                type="number"
+                min="0"
+                step="any"
+                value={newRate.rate}
+                onChange={(e) => setNewRate(prev => ({ ...prev, rate: e.target.value }))}
+                placeholder={`1 ${newRate.from_currency} = ? ${newRate.to_currency}`}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Effective from</Label>
+              <Input
+                type="date"
+                value={newRate.effective_date}
+                onChange={(e) => setNewRate(prev => ({ ...prev, effective_date: e.target.value }))}
+              />
+            </div>
+            <Button onClick={handleAddRate}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rate
+            </Button>
+          </div>
+
+          {rates.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No exchange rates yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pair</TableHead>
+                  <TableHead>Rate</TableHead>
+                  <TableHead>Effective From</TableHead>
+                  <TableHead className="w-[60px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map(rate => (
+                  <TableRow key={rate.id}>
+                    <TableCell className="font-medium">{rate.from_currency} → {rate.to_currency}</TableCell>
+                    <TableCell>1 {rate.from_currency} = {Number(rate.rate)} {rate.to_currency}</TableCell>
+                    <TableCell>{rate.effective_date}</TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteRate(rate.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CurrencySettings;
@@ -4,6 +4,8 @@ import { format, subDays, startOfDay, endOfDay, eachDayOfInterval } from 'date-f
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useEmailSequences } from '@/hooks/useEmailSequences';
 import {
   LineChart,
   Line,
@@ -33,7 +35,10 @@ interface StatusDistribution {
   value: number;
 }
 
+const percent = (value: number, total: number) => (total > 0 ? Math.round((value / total) * 100) : 0);
+
 export const EmailAnalyticsDashboard = () => {
+  const { sequences } = useEmailSequences();
   const [loading, setLoading] = useState(true);
   const [dateRange, setDateRange] = useState('30');
   const [dailyStats, setDailyStats] = useState<DailyStats[]>([]);
@@ -405,6 +410,45 @@ export const EmailAnalyticsDashboard = () => {
             </div>
           </CardContent>
         </Card>
+
+        {/* Sequence Performance - all time, since enrolments run over weeks */}
+        {sequences.length > 0 && (
+          <Card className="lg:col-span-3">
+            <CardHeader>
+              <CardTitle className="text-base">Sequence Performance</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Sequence</TableHead>
+                    <TableHead className="text-center">Enrolled</TableHead>
+                    <TableHead className="text-center">In progress</TableHead>
+                    <TableHead className="text-center">Replied</TableHead>
+                    <TableHead className="text-center">Meetings</TableHead>
+                    <TableHead className="text-center">Emails sent</TableHead>
+                    <TableHead className="text-center">Open rate</TableHead>
+                    <TableHead className="text-center">Click rate</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sequences.map(({ id, name, stats }) => (
+                    <TableRow key={id}>
+                      <TableCell className="font-medium">{name}</TableCell>
+                      <TableCell className="text-center">{stats.enrolled}</TableCell>
+                      <TableCell className="text-center">{stats.active}</TableCell>
+                      <TableCell className="text-center">{stats.replied} ({percent(stats.replied, stats.enrolled)}%)</TableCell>
+                      <TableCell className="text-center">{stats.meeting_booked} ({percent(stats.meeting_booked, stats.enrolled)}%)</TableCell>
+                      <TableCell className="text-center">{stats.emails_sent}</TableCell>
+                      <TableCell className="text-center">{percent(stats.opened, stats.emails_sent)}%</TableCell>
+                      <TableCell className="text-center">{percent(stats.clicked, stats.emails_sent)}%</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
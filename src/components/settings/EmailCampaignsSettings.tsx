@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useEmailCampaigns, useEmailCampaignRecipients, EmailCampaign, EmailCampaignStatus } from "@/hooks/useEmailCampaigns";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Ban, Eye, Loader2, MousePointer, Pause, Play, RefreshCw, Send, XCircle } from "lucide-react";
+
+const statusColors: Record<string, string> = {
+  sending: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+  paused: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  completed: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  cancelled: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-400",
+  pending: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-400",
+  sent: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+};
+
+const StatusBadge = ({ status }: { status: string }) => (
+  <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusColors[status] || statusColors.pending}`}>
+    {status.charAt(0).toUpperCase() + status.slice(1)}
+  </span>
+);
+
+const percent = (value: number, total: number) => (total > 0 ? Math.round((value / total) * 100) : 0);
+
+const EmailCampaignsSettings = () => {
+  const { campaigns, isLoading, refetch, setCampaignStatus, isUpdatingStatus } = useEmailCampaigns();
+  const [selectedCampaignId, setSelectedCampaignId] = useState<string | null>(null);
+
+  const selectedCampaign = campaigns.find(campaign => campaign.id === selectedCampaignId) || null;
+  const { data: recipients = [], isLoading: recipientsLoading } = useEmailCampaignRecipients(
+    selectedCampaignId,
+    selectedCampaign?.status === 'sending'
+  );
+
+  const handleStatusChange = async (campaign: EmailCampaign, status: Exclude<EmailCampaignStatus, 'completed'>) => {
+    try {
+      await setCampaignStatus({ id: campaign.id, status });
+      const messages = { sending: 'Campaign resumed', paused: 'Campaign paused', cancelled: 'Campaign cancelled' };
+      toast.success(messages[status]);
+    } catch (error) {
+      toast.error(`Failed to update campaign: ${(error as Error).message}`);
+    }
+  };
+
+  const renderActions = (campaign: EmailCampaign) => (
+    <div className="flex justify-end gap-1" onClick={e => e.stopPropagation()}>
+      {campaign.status === 'sending' && (
+        <Button variant="ghost" size="sm" onClick={() => handleStatusChange(campaign, 'paused')} disabled={isUpdatingStatus} title="Pause">
+          <Pause className="h-4 w-4" />
+        </Button>
+      )}
+      {campaign.status === 'paused' && (
+        <Button variant="ghost" size="sm" onClick={() => handleStatusChange(campaign, 'sending')} disabled={isUpdatingStatus} title="Resume">
+          <Play className="h-4 w-4" />
+        </Button>
+      )}
+      {(campaign.status === 'sending' || campaign.status === 'paused') && (
+        <Button variant="ghost" size="sm" onClick={() => handleStatusChange(campaign, 'cancelled')} disabled={isUpdatingStatus} title="Cancel">
+          <Ban className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Campaigns</CardTitle>
+            <CardDescription>
+              Bulk emails are sent from the server in throttled batches. Failed sends are retried with increasing delays.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => refetch()}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : campaigns.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Send className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No campaigns yet</p>
+              <p className="text-sm">Select leads or contacts and choose "Send Email" to start one</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Campaign</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-48">Progress</TableHead>
+                  <TableHead className="text-center">Failed</TableHead>
+                  <TableHead className="text-center">Opened</TableHead>
+                  <TableHead className="text-center">Clicked</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {campaigns.map(campaign => {
+                  const { stats } = campaign;
+                  const done = stats.sent + stats.failed + stats.cancelled;
+                  return (
+                    <TableRow key={campaign.id} className="cursor-pointer" onClick={() => setSelectedCampaignId(campaign.id)}>
+                      <TableCell>
+                        <p className="font-medium">{campaign.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(campaign.started_at), 'dd MMM yyyy, HH:mm')} · {campaign.send_rate_per_minute}/min
+                        </p>
+                      </TableCell>
+                      <TableCell><StatusBadge status={campaign.status} /></TableCell>
+                      <TableCell>
+                        <Progress value={percent(done, stats.total)} className="h-2" />
+                        <p className="text-xs text-muted-foreground mt-1">{stats.sent} of {stats.total} sent</p>
+                      </TableCell>
+                      <TableCell className="text-center">{stats.failed}</TableCell>
+                      <TableCell className="text-center">{stats.opened} ({percent(stats.opened, stats.sent)}%)</TableCell>
+                      <TableCell className="text-center">{stats.clicked} ({percent(stats.clicked, stats.sent)}%)</TableCell>
+                      <TableCell>{renderActions(campaign)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedCampaign} onOpenChange={open => !open && setSelectedCampaignId(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{selectedCampaign?.name}</DialogTitle>
+            <DialogDescription>
+              {selectedCampaign?.subject} · from {selectedCampaign?.sender_email}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedCampaign && (
+            <div className="grid grid-cols-5 gap-2 text-center">
+              {[
+                { label: 'Queued', value: selectedCampaign.stats.pending },
+                { label: 'Sent', value: selectedCampaign.stats.sent },
+                { label: 'Failed', value: selectedCampaign.stats.failed },
+                { label: 'Opened', value: selectedCampaign.stats.opened },
+                { label: 'Clicked', value: selectedCampaign.stats.clicked },
+              ].map(item => (
+                <div key={item.label} className="p-2 bg-muted rounded-lg">
+                  <p className="text-lg font-semibold">{item.value}</p>
+                  <p className="text-xs text-muted-foreground">{item.label}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <ScrollArea className="h-80">
+            {recipientsLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Recipient</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-center">Attempts</TableHead>
+                    <TableHead>Engagement</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recipients.map(recipient => (
+                    <TableRow key={recipient.id}>
+                      <TableCell>
+                        <p className="text-sm">{recipient.recipient_name || recipient.recipient_email}</p>
+                        {recipient.recipient_name && (
+                          <p className="text-xs text-muted-foreground">{recipient.recipient_email}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <StatusBadge status={recipient.status} />
+                        {recipient.last_error && recipient.status !== 'sent' && (
+                          <p className="text-xs text-destructive mt-1 flex items-start gap-1" title={recipient.last_error}>
+                            <XCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                            <span className="line-clamp-2">{recipient.last_error}</span>
+                          </p>
+                        )}
+                        {recipient.status === 'pending' && recipient.attempts > 0 && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Retry at {format(new Date(recipient.next_attempt_at), 'HH:mm')}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-center">{recipient.attempts}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                          <span className="flex items-center gap-1">
+                            <Eye className="h-3 w-3" />
+                            {recipient.email_history?.open_count || 0}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <MousePointer className="h-3 w-3" />
+                            {recipient.email_history?.click_count || 0}
+                          </span>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default EmailCampaignsSettings;
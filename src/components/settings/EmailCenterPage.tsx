@@ -1,15 +1,18 @@
 import { useState, useEffect } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { FileText, History, BarChart3 } from 'lucide-react';
+import { FileText, History, BarChart3, Send, Workflow, MailX } from 'lucide-react';
 import EmailTemplatesSettings from '@/components/settings/EmailTemplatesSettings';
 import EmailHistorySettings from '@/components/settings/EmailHistorySettings';
+import EmailCampaignsSettings from '@/components/settings/EmailCampaignsSettings';
+import EmailSequencesSettings from '@/components/settings/EmailSequencesSettings';
+import EmailSuppressionsSettings from '@/components/settings/EmailSuppressionsSettings';
 import { EmailAnalyticsDashboard } from '@/components/settings/EmailAnalyticsDashboard';
 
 interface EmailCenterPageProps {
   defaultTab?: string | null;
 }
 
-const validTabs = ['templates', 'history', 'analytics'];
+const validTabs = ['templates', 'history', 'campaigns', 'sequences', 'suppressions', 'analytics'];
 
 const EmailCenterPage = ({ defaultTab }: EmailCenterPageProps) => {
   const [activeTab, setActiveTab] = useState(() => {
@@ -30,12 +33,12 @@ const EmailCenterPage = ({ defaultTab }: EmailCenterPageProps) => {
       <div className="mb-6">
         <h2 className="text-lg font-semibold">Email Center</h2>
         <p className="text-sm text-muted-foreground">
-          Manage email templates, view sent emails, and analyze engagement
+          Manage email templates, view sent emails, campaigns and sequences, manage the suppression list, and analyze engagement
         </p>
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-3 max-w-md">
+        <TabsList className="grid w-full grid-cols-6 max-w-3xl">
           <TabsTrigger value="templates" className="flex items-center gap-2">
             <FileText className="h-4 w-4" />
             <span className="sr-only sm:not-sr-only">Templates</span>
@@ -44,6 +47,18 @@ const EmailCenterPage = ({ defaultTab }: EmailCenterPageProps) => {
             <History className="h-4 w-4" />
             <span className="sr-only sm:not-sr-only">History</span>
           </TabsTrigger>
+          <TabsTrigger value="campaigns" className="flex items-center gap-2">
+            <Send className="h-4 w-4" />
+            <span className="sr-only sm:not-sr-only">Campaigns</span>
+          </TabsTrigger>
+          <TabsTrigger value="sequences" className="flex items-center gap-2">
+            <Workflow className="h-4 w-4" />
+            <span className="sr-only sm:not-sr-only">Sequences</span>
+          </TabsTrigger>
+          <TabsTrigger value="suppressions" className="flex items-center gap-2">
+            <MailX className="h-4 w-4" />
+            <span className="sr-only sm:not-sr-only">Suppressions</span>
+          </TabsTrigger>
           <TabsTrigger value="analytics" className="flex items-center gap-2">
             <BarChart3 className="h-4 w-4" />
             <span className="sr-only sm:not-sr-only">Analytics</span>
@@ -58,6 +73,18 @@ const EmailCenterPage = ({ defaultTab }: EmailCenterPageProps) => {
           <EmailHistorySettings />
         </TabsContent>
 
+        <TabsContent value="campaigns" className="mt-6">
+          <EmailCampaignsSettings />
+        </TabsContent>
+
+        <TabsContent value="sequences" className="mt-6">
+          <EmailSequencesSettings />
+        </TabsContent>
+
+        <TabsContent value="suppressions" className="mt-6">
+          <EmailSuppressionsSettings />
+        </TabsContent>
+
         <TabsContent value="analytics" className="mt-6">
           <EmailAnalyticsDashboard />
         </TabsContent>
@@ -30,8 +30,32 @@ interface EmailHistoryRecord {
   account_id: string | null;
 }
 
+interface InboundEmailRecord {
+  id: string;
+  kind: string;
+  from_email: string | null;
+  from_name: string | null;
+  body_text: string | null;
+  diagnostic: string | null;
+  received_at: string;
+}
+
+interface EmailLinkClicks {
+  id: string;
+  url: string;
+  click_count: number;
+  last_clicked_at: string | null;
+}
+
 const ITEMS_PER_PAGE = 10;
 
+const inboundKindLabels: Record<string, string> = {
+  reply: "Reply",
+  auto_reply: "Automatic reply",
+  bounce: "Bounce",
+  delivery: "Delivered",
+};
+
 const EmailHistorySettings = () => {
   const { user } = useAuth();
   const [emails, setEmails] = useState<EmailHistoryRecord[]>([]);
@@ -40,6 +64,8 @@ const EmailHistorySettings = () => {
   const [filterType, setFilterType] = useState<string>("all");
   const [selectedEmail, setSelectedEmail] = useState<EmailHistoryRecord | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
+  const [linkClicks, setLinkClicks] = useState<EmailLinkClicks[]>([]);
+  const [inboundEmails, setInboundEmails] = useState<InboundEmailRecord[]>([]);
 
   useEffect(() => {
     fetchEmailHistory();
@@ -50,6 +76,44 @@ const EmailHistorySettings = () => {
     setCurrentPage(1);
   }, [searchQuery, filterType]);
 
+  // Clicks per tracked link of the email being viewed
+  useEffect(() => {
+    setLinkClicks([]);
+    if (!selectedEmail) return;
+
+    supabase
+      .from('email_links')
+      .select('id, url, click_count, last_clicked_at')
+      .eq('email_history_id', selectedEmail.id)
+      .order('position')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching email links:', error);
+          return;
+        }
+        setLinkClicks(data || []);
+      });
+  }, [selectedEmail]);
+
+  // Replies, bounces and receipts threaded to the email being viewed
+  useEffect(() => {
+    setInboundEmails([]);
+    if (!selectedEmail) return;
+
+    supabase
+      .from('inbound_emails')
+      .select('id, kind, from_email, from_name, body_text, diagnostic, received_at')
+      .eq('email_history_id', selectedEmail.id)
+      .order('received_at')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching inbound emails:', error);
+          return;
+        }
+        setInboundEmails(data || []);
+      });
+  }, [selectedEmail]);
+
   const fetchEmailHistory = async () => {
     if (!user) return;
     
@@ -92,6 +156,8 @@ const EmailHistorySettings = () => {
       delivered: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
       opened: "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400",
       clicked: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400",
+      replied: "bg-teal-100 text-teal-800 dark:bg-teal-900/30 dark:text-teal-400",
+      bounced: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
       failed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
     };
     return (
@@ -426,6 +492,65 @@ const EmailHistorySettings = () => {
                   </Badge>
                 </div>
               </div>
+
+              {linkClicks.length > 0 && (
+                <div className="pt-2 border-t">
+                  <p className="text-sm text-muted-foreground mb-2">Link Clicks</p>
+                  <div className="space-y-1">
+                    {linkClicks.map((link) => (
+                      <div key={link.id} className="flex items-center justify-between gap-3 p-2 bg-muted/30 rounded-lg text-sm">
+                        <a
+                          href={link.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="truncate text-primary hover:underline"
+                          title={link.url}
+                        >
+                          {link.url}
+                        </a>
+                        <div className="flex items-center gap-3 shrink-0">
+                          {link.last_clicked_at && (
+                            <span className="text-xs text-muted-foreground">
+                              Last: {format(new Date(link.last_clicked_at), "MMM d, HH:mm")}
+                            </span>
+                          )}
+                          <span className={link.click_count ? "font-medium text-primary" : "text-muted-foreground"}>
+                            {link.click_count} {link.click_count === 1 ? "click" : "clicks"}
+                          </span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {inboundEmails.length > 0 && (
+                <div className="pt-2 border-t">
+                  <p className="text-sm text-muted-foreground mb-2">Responses</p>
+                  <div className="space-y-2">
+                    {inboundEmails.map((inbound) => (
+                      <div key={inbound.id} className="p-2 bg-muted/30 rounded-lg text-sm">
+                        <div className="flex items-center justify-between gap-3">
+                          <span className="font-medium">
+                            {inboundKindLabels[inbound.kind] || inbound.kind}
+                            {inbound.kind !== 'delivery' && inbound.from_email && (
+                              <span className="font-normal text-muted-foreground"> from {inbound.from_name || inbound.from_email}</span>
+                            )}
+                          </span>
+                          <span className="text-xs text-muted-foreground shrink-0">
+                            {format(new Date(inbound.received_at), "MMM d, HH:mm")}
+                          </span>
+                        </div>
+                        {(inbound.body_text || inbound.diagnostic) && (
+                          <p className="mt-1 text-muted-foreground whitespace-pre-wrap line-clamp-6">
+                            {inbound.body_text || inbound.diagnostic}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </DialogContent>
@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { EmailSequence, EmailSequenceInput, EmailSequenceStep, EmailSequenceStepType } from "@/hooks/useEmailSequences";
+import { validateTemplate } from "@/utils/emailTemplateEngine";
+import { ArrowDown, ArrowUp, ClipboardList, Loader2, Mail, Trash2 } from "lucide-react";
+
+interface EmailSequenceEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sequence: EmailSequence | null;
+  onSave: (input: EmailSequenceInput) => Promise<void>;
+  isSaving: boolean;
+}
+
+interface TemplateOption {
+  id: string;
+  name: string;
+}
+
+const MAX_DELAY_DAYS = 365;
+
+const newStep = (stepType: EmailSequenceStepType, isFirst: boolean): EmailSequenceStep => ({
+  step_type: stepType,
+  delay_days: isFirst ? 0 : 3,
+  template_id: null,
+  task_title: stepType === 'task' ? 'Call {{first_name | default: "lead"}}' : null,
+  task_description: null,
+});
+
+// Returns the first problem with the steps, if any, so the sequence can't be saved half-configured
+const stepsError = (steps: EmailSequenceStep[]) => {
+  if (steps.length === 0) return 'Add at least one step';
+  for (const [index, step] of steps.entries()) {
+    const label = `Step ${index + 1}`;
+    if (!Number.isInteger(step.delay_days) || step.delay_days < 0 || step.delay_days > MAX_DELAY_DAYS) {
+      return `${label}: the delay must be between 0 and ${MAX_DELAY_DAYS} days`;
+    }
+    if (step.step_type === 'email' && !step.template_id) return `${label}: choose an email template`;
+    if (step.step_type === 'task') {
+      if (!step.task_title?.trim()) return `${label}: enter a task title`;
+      const [templateError] = validateTemplate(`${step.task_title} ${step.task_description || ''}`);
+      if (templateError) return `${label}: ${templateError}`;
+    }
+  }
+  return null;
+};
+
+const EmailSequenceEditor = ({ open, onOpenChange, sequence, onSave, isSaving }: EmailSequenceEditorProps) => {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [steps, setSteps] = useState<EmailSequenceStep[]>([]);
+  const [templates, setTemplates] = useState<TemplateOption[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(sequence?.name || "");
+    setDescription(sequence?.description || "");
+    setSteps(sequence ? sequence.steps.map(step => ({ ...step })) : [newStep('email', true)]);
+
+    supabase
+      .from('email_templates')
+      .select('id, name')
+      .order('name')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching templates:', error);
+          return;
+        }
+        setTemplates(data || []);
+      });
+  }, [open, sequence]);
+
+  const updateStep = (index: number, changes: Partial<EmailSequenceStep>) => {
+    setSteps(prev => prev.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    setSteps(prev => {
+      const next = [...prev];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const removeStep = (index: number) => {
+    setSteps(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const addStep = (stepType: EmailSequenceStepType) => {
+    setSteps(prev => [...prev, newStep(stepType, prev.length === 0)]);
+  };
+
+  const error = stepsError(steps);
+
+  const handleSave = async () => {
+    if (!name.trim() || error) return;
+    await onSave({ id: sequence?.id, name: name.trim(), description: description.trim(), steps });
+  };
+
+  // Running total of days since enrolment, shown next to each step
+  let elapsedDays = 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{sequence ? 'Edit Sequence' : 'New Sequence'}</DialogTitle>
+          <DialogDescription>
+            Each step runs its delay after the previous one. Enrolments stop as soon as the recipient replies or a meeting is booked with them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="sequence-name">Name *</Label>
+              <Input
+                id="sequence-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., New lead follow-up"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sequence-description">Description</Label>
+              <Input
+                id="sequence-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="When to use this sequence"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Steps</Label>
+            {steps.map((step, index) => {
+              elapsedDays += step.delay_days || 0;
+              return (
+                <div key={index} className="border rounded-lg p-3 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium w-14">Step {index + 1}</span>
+                    <Select
+                      value={step.step_type}
+                      onValueChange={(value) => updateStep(index, { ...newStep(value as EmailSequenceStepType, index === 0), delay_days: step.delay_days })}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="email">Email</SelectItem>
+                        <SelectItem value="task">Task</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <span className="text-sm text-muted-foreground">after</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={MAX_DELAY_DAYS}
+                      className="w-20"
+                      value={step.delay_days}
+                      onChange={(e) => updateStep(index, { delay_days: parseInt(e.target.value) || 0 })}
+                    />
+                    <span className="text-sm text-muted-foreground">days (day {elapsedDays})</span>
+                    <div className="ml-auto flex gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => moveStep(index, -1)} disabled={index === 0} title="Move up">
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1} title="Move down">
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => removeStep(index)} title="Remove step">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {step.step_type === 'email' ? (
+                    <Select
+                      value={step.template_id || ""}
+                      onValueChange={(value) => updateStep(index, { template_id: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose an email template" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {templates.map(template => (
+                          <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <div className="space-y-2">
+                      <Input
+                        value={step.task_title || ""}
+                        onChange={(e) => updateStep(index, { task_title: e.target.value })}
+                        placeholder="Task title"
+                      />
+                      <Textarea
+                        value={step.task_description || ""}
+                        onChange={(e) => updateStep(index, { task_description: e.target.value })}
+                        placeholder="Task notes (optional)"
+                        rows={2}
+                      />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => addStep('email')}>
+                <Mail className="h-4 w-4 mr-1" />
+                Add Email Step
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => addStep('task')}>
+                <ClipboardList className="h-4 w-4 mr-1" />
+                Add Task Step
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Tasks are assigned to whoever enrolled the record. Task titles can use the same variables as templates.
+            </p>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim() || !!error}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Sequence
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EmailSequenceEditor;
@@ -0,0 +1,293 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useEmailSequences, useEmailSequenceEnrollments, EmailSequence, EmailSequenceInput } from "@/hooks/useEmailSequences";
+import EmailSequenceEditor from "./EmailSequenceEditor";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Edit, Loader2, Plus, RefreshCw, Square, Trash2, Workflow, XCircle } from "lucide-react";
+
+const statusColors: Record<string, string> = {
+  active: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+  completed: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-400",
+  replied: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  meeting_booked: "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400",
+  stopped: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+};
+
+const statusLabels: Record<string, string> = {
+  active: 'Active',
+  completed: 'Completed',
+  replied: 'Replied',
+  meeting_booked: 'Meeting booked',
+  stopped: 'Stopped',
+  failed: 'Failed',
+};
+
+const StatusBadge = ({ status }: { status: string }) => (
+  <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusColors[status] || statusColors.completed}`}>
+    {statusLabels[status] || status}
+  </span>
+);
+
+const percent = (value: number, total: number) => (total > 0 ? Math.round((value / total) * 100) : 0);
+
+const describeSteps = (sequence: EmailSequence) => {
+  const emails = sequence.steps.filter(step => step.step_type === 'email').length;
+  const days = sequence.steps.reduce((sum, step) => sum + step.delay_days, 0);
+  return `${emails} email${emails === 1 ? '' : 's'}, ${sequence.steps.length - emails} task${sequence.steps.length - emails === 1 ? '' : 's'} over ${days} day${days === 1 ? '' : 's'}`;
+};
+
+const EmailSequencesSettings = () => {
+  const { sequences, isLoading, refetch, saveSequence, isSaving, setSequenceActive, deleteSequence } = useEmailSequences();
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingSequence, setEditingSequence] = useState<EmailSequence | null>(null);
+  const [sequenceToDelete, setSequenceToDelete] = useState<EmailSequence | null>(null);
+  const [selectedSequenceId, setSelectedSequenceId] = useState<string | null>(null);
+
+  const selectedSequence = sequences.find(sequence => sequence.id === selectedSequenceId) || null;
+  const { data: enrollments = [], isLoading: enrollmentsLoading, stopEnrollment, isStopping } = useEmailSequenceEnrollments(selectedSequenceId);
+
+  const openEditor = (sequence: EmailSequence | null) => {
+    setEditingSequence(sequence);
+    setEditorOpen(true);
+  };
+
+  const handleSave = async (input: EmailSequenceInput) => {
+    try {
+      await saveSequence(input);
+      toast.success(input.id ? 'Sequence updated' : 'Sequence created');
+      setEditorOpen(false);
+    } catch (error) {
+      toast.error(`Failed to save sequence: ${(error as Error).message}`);
+    }
+  };
+
+  const handleToggleActive = async (sequence: EmailSequence, isActive: boolean) => {
+    try {
+      await setSequenceActive({ id: sequence.id, isActive });
+      toast.success(isActive ? 'Sequence resumed' : 'Sequence paused; enrolments will wait until it is resumed');
+    } catch (error) {
+      toast.error(`Failed to update sequence: ${(error as Error).message}`);
+    }
+  };
+
+  const handleDelete = async (sequence: EmailSequence) => {
+    try {
+      await deleteSequence(sequence.id);
+      toast.success('Sequence deleted');
+    } catch (error) {
+      toast.error(`Failed to delete sequence: ${(error as Error).message}`);
+    }
+  };
+
+  const handleStop = async (enrollmentId: string) => {
+    try {
+      await stopEnrollment(enrollmentId);
+      toast.success('Enrolment stopped');
+    } catch (error) {
+      toast.error(`Failed to stop enrolment: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Sequences</CardTitle>
+            <CardDescription>
+              Follow-ups of emails and tasks on a schedule. Enrol leads or contacts from their list pages; they leave the sequence when they reply or book a meeting.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => refetch()}>
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Refresh
+            </Button>
+            <Button size="sm" onClick={() => openEditor(null)}>
+              <Plus className="h-4 w-4 mr-1" />
+              New Sequence
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : sequences.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Workflow className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No sequences yet</p>
+              <p className="text-sm">Create one to automate your follow-ups</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sequence</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-center">Enrolled</TableHead>
+                  <TableHead className="text-center">In progress</TableHead>
+                  <TableHead className="text-center">Replied</TableHead>
+                  <TableHead className="text-center">Meetings</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sequences.map(sequence => {
+                  const { stats } = sequence;
+                  return (
+                    <TableRow key={sequence.id} className="cursor-pointer" onClick={() => setSelectedSequenceId(sequence.id)}>
+                      <TableCell>
+                        <p className="font-medium">{sequence.name}</p>
+                        <p className="text-xs text-muted-foreground">{describeSteps(sequence)}</p>
+                      </TableCell>
+                      <TableCell onClick={e => e.stopPropagation()}>
+                        <Switch
+                          checked={sequence.is_active}
+                          onCheckedChange={checked => handleToggleActive(sequence, checked)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-center">{stats.enrolled}</TableCell>
+                      <TableCell className="text-center">{stats.active}</TableCell>
+                      <TableCell className="text-center">{stats.replied} ({percent(stats.replied, stats.enrolled)}%)</TableCell>
+                      <TableCell className="text-center">{stats.meeting_booked}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1" onClick={e => e.stopPropagation()}>
+                          <Button variant="ghost" size="sm" onClick={() => openEditor(sequence)} title="Edit">
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setSequenceToDelete(sequence)} title="Delete">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <EmailSequenceEditor
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        sequence={editingSequence}
+        onSave={handleSave}
+        isSaving={isSaving}
+      />
+
+      <Dialog open={!!selectedSequence} onOpenChange={open => !open && setSelectedSequenceId(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{selectedSequence?.name}</DialogTitle>
+            <DialogDescription>
+              {selectedSequence && describeSteps(selectedSequence)}
+              {selectedSequence && !selectedSequence.is_active && ' · paused'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <ScrollArea className="h-96">
+            {enrollmentsLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : enrollments.length === 0 ? (
+              <p className="text-center py-8 text-sm text-muted-foreground">Nobody has been enrolled yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Recipient</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Progress</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {enrollments.map(enrollment => (
+                    <TableRow key={enrollment.id}>
+                      <TableCell>
+                        <p className="text-sm">{enrollment.recipient_name || enrollment.recipient_email}</p>
+                        {enrollment.recipient_name && (
+                          <p className="text-xs text-muted-foreground">{enrollment.recipient_email}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <StatusBadge status={enrollment.status} />
+                        {enrollment.last_error && (
+                          <p className="text-xs text-destructive mt-1 flex items-start gap-1" title={enrollment.last_error}>
+                            <XCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                            <span className="line-clamp-2">{enrollment.last_error}</span>
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {enrollment.status === 'active' ? (
+                          <>
+                            <p>Step {enrollment.current_step + 1} of {selectedSequence?.steps.length}</p>
+                            <p className="text-xs text-muted-foreground">
+                              Due {format(new Date(enrollment.next_step_at), 'dd MMM yyyy, HH:mm')}
+                            </p>
+                          </>
+                        ) : (
+                          <p className="text-muted-foreground">
+                            {Math.min(enrollment.current_step, selectedSequence?.steps.length || 0)} of {selectedSequence?.steps.length} steps
+                            {enrollment.exited_at && ` · ${format(new Date(enrollment.exited_at), 'dd MMM yyyy')}`}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {enrollment.status === 'active' && (
+                          <Button variant="ghost" size="sm" onClick={() => handleStop(enrollment.id)} disabled={isStopping} title="Stop">
+                            <Square className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!sequenceToDelete} onOpenChange={open => !open && setSequenceToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Sequence</AlertDialogTitle>
+            <AlertDialogDescription>
+              Deleting "{sequenceToDelete?.name}" also removes its enrolments. Emails already sent stay in the email history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (sequenceToDelete) {
+                  handleDelete(sequenceToDelete);
+                  setSequenceToDelete(null);
+                }
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default EmailSequencesSettings;
@@ -0,0 +1,166 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useEmailSuppressions, EmailSuppression, SUPPRESSION_REASON_LABELS } from "@/hooks/useEmailSuppressions";
+import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Ban, Loader2, MailX, RefreshCw, Search, Trash2 } from "lucide-react";
+
+const reasonColors: Record<string, string> = {
+  unsubscribed: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  bounced: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  manual: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-400",
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const EmailSuppressionsSettings = () => {
+  const { suppressions, isLoading, refetch, blockEmail, isBlocking, unblockEmail, isUnblocking } = useEmailSuppressions();
+  const [search, setSearch] = useState("");
+  const [newEmail, setNewEmail] = useState("");
+  const [newNotes, setNewNotes] = useState("");
+
+  const creatorIds = useMemo(
+    () => [...new Set(suppressions.map(s => s.created_by).filter((id): id is string => !!id))],
+    [suppressions]
+  );
+  const { displayNames } = useUserDisplayNames(creatorIds);
+
+  const filtered = suppressions.filter(suppression =>
+    !search.trim() || suppression.email.includes(search.trim().toLowerCase())
+  );
+
+  const handleBlock = async () => {
+    if (!EMAIL_PATTERN.test(newEmail.trim())) {
+      toast.error('Enter a valid email address');
+      return;
+    }
+
+    try {
+      await blockEmail({ email: newEmail, notes: newNotes });
+      toast.success(`${newEmail.trim().toLowerCase()} added to the suppression list`);
+      setNewEmail("");
+      setNewNotes("");
+    } catch (error) {
+      toast.error(`Failed to block address: ${(error as Error).message}`);
+    }
+  };
+
+  const handleRemove = async (suppression: EmailSuppression) => {
+    try {
+      await unblockEmail(suppression.id);
+      toast.success(`${suppression.email} can be emailed again`);
+    } catch (error) {
+      toast.error(`Failed to remove address: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Suppression List</CardTitle>
+            <CardDescription>
+              Addresses that never receive email: recipients who unsubscribed, addresses that hard-bounced and addresses blocked by hand.
+              Single emails, campaigns and sequences all skip them.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => refetch()}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Input
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+              placeholder="Address to block"
+              className="max-w-xs"
+            />
+            <Input
+              value={newNotes}
+              onChange={(e) => setNewNotes(e.target.value)}
+              placeholder="Reason (optional)"
+            />
+            <Button onClick={handleBlock} disabled={isBlocking || !newEmail.trim()}>
+              {isBlocking ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Ban className="h-4 w-4 mr-1" />}
+              Block
+            </Button>
+          </div>
+
+          <div className="relative max-w-xs">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search addresses"
+              className="pl-8"
+            />
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : filtered.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <MailX className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>{suppressions.length === 0 ? 'No suppressed addresses' : 'No addresses match your search'}</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Address</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead>Added</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map(suppression => (
+                  <TableRow key={suppression.id}>
+                    <TableCell className="font-medium">{suppression.email}</TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${reasonColors[suppression.reason]}`}>
+                        {SUPPRESSION_REASON_LABELS[suppression.reason]}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-xs">
+                      <span className="line-clamp-2" title={suppression.notes || undefined}>{suppression.notes || '—'}</span>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <p>{format(new Date(suppression.created_at), 'dd MMM yyyy')}</p>
+                      {suppression.created_by && displayNames[suppression.created_by] && (
+                        <p className="text-xs text-muted-foreground">by {displayNames[suppression.created_by]}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemove(suppression)}
+                        disabled={isUnblocking}
+                        title="Allow email again"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default EmailSuppressionsSettings;
@@ -0,0 +1,100 @@
+import { useMemo, useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SearchableSelect } from "@/components/shared/SearchableSelect";
+import {
+  EmailTemplatePreviewKind,
+  useEmailTemplateContext,
+  useEmailTemplatePreviewRecords,
+} from "@/hooks/useEmailTemplateContext";
+import { renderTemplate } from "@/utils/emailTemplateEngine";
+import { Loader2 } from "lucide-react";
+
+interface EmailTemplatePreviewProps {
+  subject: string;
+  body: string;
+}
+
+// Renders the template being edited against a real lead or contact, the way a campaign would send it
+export const EmailTemplatePreview = ({ subject, body }: EmailTemplatePreviewProps) => {
+  const [kind, setKind] = useState<EmailTemplatePreviewKind>('lead');
+  const [recordId, setRecordId] = useState<string>("");
+  const { data: records = [], isLoading: recordsLoading } = useEmailTemplatePreviewRecords(kind);
+
+  const record = records.find(r => r.id === recordId);
+  const { data: context, isFetching } = useEmailTemplateContext(
+    record
+      ? {
+          leadId: kind === 'lead' ? record.id : null,
+          contactId: kind === 'contact' ? record.id : null,
+          recipient: { name: record.name, email: record.email },
+        }
+      : null
+  );
+
+  const options = useMemo(
+    () => records.map(r => ({
+      value: r.id,
+      label: r.name,
+      description: [r.company, r.email].filter(Boolean).join(' · ') || undefined,
+    })),
+    [records]
+  );
+
+  const renderedSubject = context ? renderTemplate(subject, context) : '';
+  const renderedBody = context ? renderTemplate(body, context, { escapeHtml: true }) : '';
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-[120px_1fr] gap-2">
+        <Select
+          value={kind}
+          onValueChange={(value) => {
+            setKind(value as EmailTemplatePreviewKind);
+            setRecordId("");
+          }}
+        >
+          <SelectTrigger aria-label="Preview record type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="lead">Lead</SelectItem>
+            <SelectItem value="contact">Contact</SelectItem>
+          </SelectContent>
+        </Select>
+        <SearchableSelect
+          options={options}
+          value={recordId || undefined}
+          onValueChange={setRecordId}
+          placeholder={recordsLoading ? 'Loading...' : `Preview as ${kind}...`}
+          searchPlaceholder={`Search ${kind}s...`}
+          emptyMessage={`No ${kind}s found.`}
+        />
+      </div>
+
+      {!record ? (
+        <p className="text-sm text-muted-foreground text-center py-8 border rounded-lg">
+          Choose a {kind} to see the email as they would receive it
+        </p>
+      ) : isFetching && !context ? (
+        <div className="flex justify-center py-8 border rounded-lg">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="border rounded-lg overflow-hidden">
+          <div className="px-3 py-2 border-b bg-muted/50 space-y-1">
+            <Label className="text-xs text-muted-foreground">Subject</Label>
+            <p className="text-sm font-medium break-words">{renderedSubject || '(empty)'}</p>
+          </div>
+          {/* Sandboxed so template HTML can't run scripts or reach the app */}
+          <iframe
+            title="Email preview"
+            sandbox=""
+            srcDoc={renderedBody}
+            className="w-full h-64 bg-white"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { format } from "date-fns";
+import { Loader2, RotateCcw } from "lucide-react";
+
+export interface EmailTemplateVersion {
+  id: string;
+  version: number;
+  name: string;
+  subject: string;
+  body: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface EmailTemplateVersionsDialogProps {
+  template: { id: string; name: string; version: number } | null;
+  onOpenChange: (open: boolean) => void;
+  onRestore: (version: EmailTemplateVersion) => Promise<void>;
+}
+
+export const EmailTemplateVersionsDialog = ({ template, onOpenChange, onRestore }: EmailTemplateVersionsDialogProps) => {
+  const [versions, setVersions] = useState<EmailTemplateVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const { displayNames } = useUserDisplayNames(
+    versions.map(v => v.created_by).filter((id): id is string => !!id)
+  );
+
+  useEffect(() => {
+    if (!template) return;
+    setLoading(true);
+    setSelectedId(null);
+
+    supabase
+      .from('email_template_versions')
+      .select('id, version, name, subject, body, created_by, created_at')
+      .eq('template_id', template.id)
+      .order('version', { ascending: false })
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching template versions:', error);
+        setVersions(data || []);
+        setSelectedId(data?.[0]?.id || null);
+        setLoading(false);
+      });
+  }, [template]);
+
+  const selected = versions.find(v => v.id === selectedId) || null;
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setRestoring(true);
+    try {
+      await onRestore(selected);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!template} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>
+            {template?.name} · restoring an old version saves it as a new version, so nothing is lost
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-[200px_1fr] gap-4">
+            <ScrollArea className="h-80 border rounded-lg">
+              {versions.map(version => (
+                <button
+                  key={version.id}
+                  type="button"
+                  onClick={() => setSelectedId(version.id)}
+                  className={`w-full text-left px-3 py-2 border-b last:border-b-0 hover:bg-muted/50 ${version.id === selectedId ? 'bg-muted' : ''}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">Version {version.version}</span>
+                    {version.version === template?.version && <Badge variant="secondary" className="text-xs">Current</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(version.created_at), 'dd MMM yyyy, HH:mm')}
+                  </p>
+                  {version.created_by && (
+                    <p className="text-xs text-muted-foreground truncate">{displayNames[version.created_by] || 'Unknown user'}</p>
+                  )}
+                </button>
+              ))}
+            </ScrollArea>
+
+            {selected && (
+              <div className="space-y-3 min-w-0">
+                <div>
+                  <p className="text-xs text-muted-foreground">Name</p>
+                  <p className="text-sm">{selected.name}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Subject</p>
+                  <p className="text-sm break-words">{selected.subject}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Body</p>
+                  <ScrollArea className="h-40 border rounded-lg p-2">
+                    <pre className="text-xs whitespace-pre-wrap font-mono">{selected.body}</pre>
+                  </ScrollArea>
+                </div>
+                {selected.version !== template?.version && (
+                  <div className="flex justify-end">
+                    <Button onClick={handleRestore} disabled={restoring} className="gap-2">
+                      {restoring ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                      Restore version {selected.version}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -10,11 +10,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
-import { Plus, Edit, Trash2, Info } from "lucide-react";
+import { Plus, Edit, Trash2, Info, History, AlertCircle } from "lucide-react";
 import { format } from "date-fns";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { TablePagination } from "@/components/shared/TablePagination";
+import { EmailTemplatePreview } from "@/components/settings/EmailTemplatePreview";
+import { EmailTemplateVersion, EmailTemplateVersionsDialog } from "@/components/settings/EmailTemplateVersionsDialog";
+import { TEMPLATE_FILTERS, TEMPLATE_RECIPIENT_FIELDS, TEMPLATE_SCOPES, validateTemplate } from "@/utils/emailTemplateEngine";
 
 interface EmailTemplate {
   id: string;
@@ -24,10 +27,26 @@ interface EmailTemplate {
   created_by?: string;
   created_at: string;
   updated_at: string;
+  version: number;
 }
 
 const ITEMS_PER_PAGE = 10;
 
+const variableGroups = [
+  { label: 'Recipient', fields: TEMPLATE_RECIPIENT_FIELDS.map(field => ({ variable: field.key, description: field.label })) },
+  ...TEMPLATE_SCOPES.map(({ scope, label, fields }) => ({
+    label,
+    fields: fields.map(field => ({ variable: `${scope}.${field.key}`, description: field.label })),
+  })),
+];
+
+const syntaxExamples = [
+  { example: '{{first_name | default:"there"}}', description: 'Fallback when the field is empty' },
+  { example: '{{account.name | upper}}', description: `Filters: ${TEMPLATE_FILTERS.map(filter => filter.name).join(', ')}` },
+  { example: '{{#if deal.name}}...{{else}}...{{/if}}', description: 'Only included when the field has a value' },
+  { example: '{{#unless meeting.start}}...{{/unless}}', description: 'Only included when the field is empty' },
+];
+
 const EmailTemplatesSettings = () => {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -39,6 +58,7 @@ const EmailTemplatesSettings = () => {
   const [templateToDelete, setTemplateToDelete] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
+  const [versionsTemplate, setVersionsTemplate] = useState<EmailTemplate | null>(null);
   const [formData, setFormData] = useState({
     name: "",
     subject: "",
@@ -100,6 +120,11 @@ const EmailTemplatesSettings = () => {
     setShowModal(true);
   };
 
+  const templateErrors = useMemo(
+    () => [...validateTemplate(formData.subject), ...validateTemplate(formData.body)],
+    [formData.subject, formData.body]
+  );
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -112,6 +137,15 @@ const EmailTemplatesSettings = () => {
       return;
     }
 
+    if (templateErrors.length > 0) {
+      toast({
+        title: "Template problems",
+        description: "Fix the problems listed under the body before saving",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setSaving(true);
     try {
       const templateData = {
@@ -138,11 +172,11 @@ const EmailTemplatesSettings = () => {
 
       setShowModal(false);
       fetchTemplates();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error saving template:', error);
       toast({
         title: "Error",
-        description: error.message || "Failed to save template",
+        description: (error as Error).message || "Failed to save template",
         variant: "destructive",
       });
     } finally {
@@ -171,12 +205,29 @@ const EmailTemplatesSettings = () => {
     }
   };
 
-  const availableVariables = [
-    { variable: "{{contact_name}}", description: "Contact's full name" },
-    { variable: "{{company_name}}", description: "Company name" },
-    { variable: "{{position}}", description: "Contact's position" },
-    { variable: "{{email}}", description: "Contact's email" },
-  ];
+  // Saved as a new version; the trigger keeps the one being replaced in the history
+  const handleRestore = async (version: EmailTemplateVersion) => {
+    if (!versionsTemplate) return;
+    try {
+      const { error } = await supabase
+        .from('email_templates')
+        .update({ name: version.name, subject: version.subject, body: version.body })
+        .eq('id', versionsTemplate.id);
+
+      if (error) throw error;
+
+      toast({ title: "Success", description: `Restored version ${version.version}` });
+      setVersionsTemplate(null);
+      fetchTemplates();
+    } catch (error) {
+      console.error('Restore error:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to restore version",
+        variant: "destructive",
+      });
+    }
+  };
 
   if (loading) {
     return (
@@ -213,16 +264,29 @@ const EmailTemplatesSettings = () => {
               <Info className="h-4 w-4 text-muted-foreground" />
               <span className="text-sm font-medium">Available Variables</span>
             </div>
-            <div className="flex flex-wrap gap-2">
-              {availableVariables.map((v) => (
-                <Tooltip key={v.variable}>
-                  <TooltipTrigger asChild>
-                    <Badge variant="outline" className="cursor-help">
-                      {v.variable}
-                    </Badge>
-                  </TooltipTrigger>
-                  <TooltipContent>{v.description}</TooltipContent>
-                </Tooltip>
+            <div className="space-y-2">
+              {variableGroups.map((group) => (
+                <div key={group.label} className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-muted-foreground w-40 shrink-0">{group.label}</span>
+                  {group.fields.map((v) => (
+                    <Tooltip key={v.variable}>
+                      <TooltipTrigger asChild>
+                        <Badge variant="outline" className="cursor-help">
+                          {`{{${v.variable}}}`}
+                        </Badge>
+                      </TooltipTrigger>
+                      <TooltipContent>{v.description}</TooltipContent>
+                    </Tooltip>
+                  ))}
+                </div>
+              ))}
+            </div>
+            <div className="mt-3 pt-3 border-t grid gap-1 sm:grid-cols-2">
+              {syntaxExamples.map((s) => (
+                <p key={s.example} className="text-xs">
+                  <code className="font-mono">{s.example}</code>
+                  <span className="text-muted-foreground"> — {s.description}</span>
+                </p>
               ))}
             </div>
           </div>
@@ -234,13 +298,14 @@ const EmailTemplatesSettings = () => {
                 <TableHead>Name</TableHead>
                 <TableHead>Subject</TableHead>
                 <TableHead>Created</TableHead>
-                <TableHead className="w-[100px]">Actions</TableHead>
+                <TableHead>Version</TableHead>
+                <TableHead className="w-[140px]">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {paginatedTemplates.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
                     No email templates yet. Create your first template to get started.
                   </TableCell>
                 </TableRow>
@@ -250,8 +315,17 @@ const EmailTemplatesSettings = () => {
                     <TableCell className="font-medium">{template.name}</TableCell>
                     <TableCell>{template.subject}</TableCell>
                     <TableCell>{format(new Date(template.created_at), 'dd/MM/yyyy')}</TableCell>
+                    <TableCell>v{template.version}</TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setVersionsTemplate(template)}
+                          aria-label={`Version history of ${template.name} template`}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="icon"
@@ -295,58 +369,81 @@ const EmailTemplatesSettings = () => {
 
       {/* Template Modal */}
       <Dialog open={showModal} onOpenChange={setShowModal}>
-        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{editingTemplate ? "Edit Template" : "New Template"}</DialogTitle>
           </DialogHeader>
           
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="name">Template Name *</Label>
-              <Input
-                id="name"
-                value={formData.name}
-                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
-                placeholder="e.g., Welcome Email, Follow-up"
-                required
-              />
-            </div>
+          <div className="grid gap-6 md:grid-cols-2">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Template Name *</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., Welcome Email, Follow-up"
+                  required
+                />
+              </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="subject">Email Subject *</Label>
-              <Input
-                id="subject"
-                value={formData.subject}
-                onChange={(e) => setFormData(prev => ({ ...prev, subject: e.target.value }))}
-                placeholder="e.g., Hello {{contact_name}}, following up..."
-                required
-              />
-            </div>
+              <div className="space-y-2">
+                <Label htmlFor="subject">Email Subject *</Label>
+                <Input
+                  id="subject"
+                  value={formData.subject}
+                  onChange={(e) => setFormData(prev => ({ ...prev, subject: e.target.value }))}
+                  placeholder='e.g., Hello {{first_name | default:"there"}}, following up...'
+                  required
+                />
+              </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="body">Email Body *</Label>
-              <Textarea
-                id="body"
-                value={formData.body}
-                onChange={(e) => setFormData(prev => ({ ...prev, body: e.target.value }))}
-                placeholder="Write your email content here. Use variables like {{contact_name}} for personalization."
-                rows={8}
-                required
-              />
-            </div>
+              <div className="space-y-2">
+                <Label htmlFor="body">Email Body *</Label>
+                <Textarea
+                  id="body"
+                  value={formData.body}
+                  onChange={(e) => setFormData(prev => ({ ...prev, body: e.target.value }))}
+                  placeholder="Write your email content here. Use variables like {{first_name}} or {{account.name}} for personalization."
+                  rows={12}
+                  required
+                />
+                {templateErrors.length > 0 && (
+                  <ul className="space-y-1">
+                    {templateErrors.map((error) => (
+                      <li key={error} className="text-xs text-destructive flex items-start gap-1">
+                        <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                        {error}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="flex justify-end gap-2 pt-4">
+                <Button type="button" variant="outline" onClick={() => setShowModal(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {saving ? "Saving..." : editingTemplate ? "Update" : "Create"}
+                </Button>
+              </div>
+            </form>
 
-            <div className="flex justify-end gap-2 pt-4">
-              <Button type="button" variant="outline" onClick={() => setShowModal(false)}>
-                Cancel
-              </Button>
-              <Button type="submit" disabled={saving}>
-                {saving ? "Saving..." : editingTemplate ? "Update" : "Create"}
-              </Button>
+            <div className="space-y-2">
+              <Label>Preview</Label>
+              <EmailTemplatePreview subject={formData.subject} body={formData.body} />
             </div>
-          </form>
+          </div>
         </DialogContent>
       </Dialog>
 
+      <EmailTemplateVersionsDialog
+        template={versionsTemplate}
+        onOpenChange={(open) => !open && setVersionsTemplate(null)}
+        onRestore={handleRestore}
+      />
+
       {/* Delete Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
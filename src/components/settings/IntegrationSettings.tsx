@@ -5,6 +5,7 @@ import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { useUserRole } from '@/hooks/useUserRole';
@@ -27,6 +28,25 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import CapturedEmailsPanel from '@/components/settings/CapturedEmailsPanel';
+
+interface ConfigField {
+  key: string;
+  label: string;
+  type: string;
+  options?: { value: string; label: string }[];
+  defaultValue?: string;
+  // Only shown while the rest of the configuration makes it relevant
+  visible?: (config: Record<string, string>) => boolean;
+}
+
+const EMAIL_TRANSPORT_OPTIONS = [
+  { value: 'graph', label: 'Microsoft Graph (Microsoft 365)' },
+  { value: 'smtp', label: 'SMTP server' },
+  { value: 'capture', label: 'Capture only (development)' },
+];
+
+const isSmtpTransport = (config: Record<string, string>) => config.transport === 'smtp';
 
 interface Integration {
   id: string;
@@ -130,7 +150,7 @@ const IntegrationSettings = () => {
     }
   };
 
-  const getConfigFields = (integrationName: string): { key: string; label: string; type: string }[] => {
+  const getConfigFields = (integrationName: string): ConfigField[] => {
     switch (integrationName.toLowerCase()) {
       case 'microsoft teams':
         return [
@@ -139,8 +159,23 @@ const IntegrationSettings = () => {
         ];
       case 'email (smtp)':
         return [
-          { key: 'sender_email', label: 'Sender Email', type: 'email' },
-          { key: 'sender_name', label: 'Sender Name', type: 'text' },
+          { key: 'transport', label: 'Send Email Through', type: 'select', options: EMAIL_TRANSPORT_OPTIONS, defaultValue: 'graph' },
+          { key: 'host', label: 'SMTP Host', type: 'text', visible: isSmtpTransport },
+          { key: 'port', label: 'SMTP Port', type: 'number', visible: isSmtpTransport },
+          {
+            key: 'secure',
+            label: 'Encryption',
+            type: 'select',
+            options: [
+              { value: 'false', label: 'STARTTLS (usually port 587)' },
+              { value: 'true', label: 'TLS (usually port 465)' },
+            ],
+            defaultValue: 'false',
+            visible: isSmtpTransport,
+          },
+          { key: 'username', label: 'SMTP Username', type: 'text', visible: isSmtpTransport },
+          { key: 'sender_email', label: 'Sender Email', type: 'email', visible: isSmtpTransport },
+          { key: 'sender_name', label: 'Sender Name', type: 'text', visible: isSmtpTransport },
         ];
       case 'calendar sync':
         return [
@@ -298,6 +333,10 @@ const IntegrationSettings = () => {
           </CardContent>
         </Card>
 
+        {integrations.some(i =>
+          i.integration_name === 'Email (SMTP)' && i.is_enabled && i.config?.transport === 'capture'
+        ) && <CapturedEmailsPanel />}
+
         {/* Setup Instructions */}
         <Card>
           <CardHeader>
@@ -328,8 +367,19 @@ const IntegrationSettings = () => {
             <div className="p-4 bg-muted rounded-lg">
               <h4 className="font-medium mb-2">Email (SMTP)</h4>
               <p className="text-sm text-muted-foreground">
-                Configure AZURE_EMAIL_CLIENT_ID, AZURE_EMAIL_CLIENT_SECRET, and AZURE_EMAIL_TENANT_ID
-                for Microsoft Graph email integration.
+                Enable this integration and choose how email is sent. Microsoft Graph (also used while the
+                integration is disabled) needs AZURE_EMAIL_CLIENT_ID, AZURE_EMAIL_CLIENT_SECRET, and
+                AZURE_EMAIL_TENANT_ID. SMTP reads its password from SMTP_PASSWORD. Capture only stores
+                messages below instead of sending them; set EMAIL_TRANSPORT=capture to force it locally.
+              </p>
+              <p className="text-sm text-muted-foreground mt-2">
+                Links in outgoing email are rewritten for click tracking and signed with EMAIL_TRACKING_SECRET.
+                Older unsigned tracking links only redirect to hosts listed in EMAIL_REDIRECT_ALLOWED_HOSTS.
+              </p>
+              <p className="text-sm text-muted-foreground mt-2">
+                Replies, bounces and delivery receipts are read from the senders' inboxes every 5 minutes, which needs
+                the Mail.Read application permission (limit it with INBOUND_MAILBOXES). Other systems can post raw
+                messages to the process-inbound-email function with the INBOUND_EMAIL_SECRET.
               </p>
             </div>
           </CardContent>
@@ -347,19 +397,40 @@ const IntegrationSettings = () => {
           </DialogHeader>
           
           <div className="space-y-4 py-4">
-            {selectedIntegration && getConfigFields(selectedIntegration.integration_name).map((field) => (
+            {selectedIntegration && getConfigFields(selectedIntegration.integration_name)
+              .filter((field) => !field.visible || field.visible(configData))
+              .map((field) => (
               <div key={field.key} className="space-y-2">
                 <Label htmlFor={field.key}>{field.label}</Label>
-                <Input
-                  id={field.key}
-                  type={field.type}
-                  value={configData[field.key] || ''}
-                  onChange={(e) => setConfigData(prev => ({
-                    ...prev,
-                    [field.key]: e.target.value
-                  }))}
-                  placeholder={`Enter ${field.label.toLowerCase()}`}
-                />
+                {field.options ? (
+                  <Select
+                    value={String(configData[field.key] ?? field.defaultValue ?? '')}
+                    onValueChange={(value) => setConfigData(prev => ({
+                      ...prev,
+                      [field.key]: value
+                    }))}
+                  >
+                    <SelectTrigger id={field.key}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {field.options.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    id={field.key}
+                    type={field.type}
+                    value={configData[field.key] ?? ''}
+                    onChange={(e) => setConfigData(prev => ({
+                      ...prev,
+                      [field.key]: e.target.value
+                    }))}
+                    placeholder={`Enter ${field.label.toLowerCase()}`}
+                  />
+                )}
               </div>
             ))}
             
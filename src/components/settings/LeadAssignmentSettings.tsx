@@ -0,0 +1,383 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
+import { toast } from 'sonner';
+import {
+  useAssignableUsers,
+  useLeadAssignmentLog,
+  useLeadAssignmentRules,
+  LeadAssignmentRule,
+  LeadAssignmentRuleInput,
+  DistributionMethod,
+  COMPANY_SIZE_OPTIONS,
+  DISTRIBUTION_METHOD_LABELS,
+} from '@/hooks/useLeadAssignment';
+import { History, Loader2, Pencil, Plus, Shuffle, Trash2 } from 'lucide-react';
+
+const emptyRule: LeadAssignmentRuleInput = {
+  name: '',
+  countries: [],
+  industries: [],
+  sources: [],
+  company_sizes: [],
+  distribution_method: 'round_robin',
+  assignee_ids: [],
+  is_active: true,
+  priority: 0,
+};
+
+const splitValues = (text: string) => text.split(',').map(value => value.trim()).filter(Boolean);
+
+const describeConditions = (rule: LeadAssignmentRule) => {
+  const conditions = [
+    rule.countries.length > 0 && `Country: ${rule.countries.join(', ')}`,
+    rule.industries.length > 0 && `Industry: ${rule.industries.join(', ')}`,
+    rule.sources.length > 0 && `Source: ${rule.sources.join(', ')}`,
+    rule.company_sizes.length > 0 && `Company size: ${rule.company_sizes.join(', ')}`,
+  ].filter(Boolean);
+  return conditions.length > 0 ? conditions.join(' · ') : 'Any lead';
+};
+
+const LeadAssignmentSettings = () => {
+  const { rules, isLoading, saveRule, isSaving, deleteRule } = useLeadAssignmentRules();
+  const { entries, isLoading: isLogLoading } = useLeadAssignmentLog();
+  const { users } = useAssignableUsers();
+  const [editingRule, setEditingRule] = useState<LeadAssignmentRuleInput | null>(null);
+  const [conditionText, setConditionText] = useState({ countries: '', industries: '', sources: '' });
+  const [ruleToDelete, setRuleToDelete] = useState<LeadAssignmentRule | null>(null);
+
+  const userName = (id: string) => users.find(u => u.id === id)?.full_name || 'Unknown user';
+
+  const openEditor = (rule?: LeadAssignmentRule) => {
+    const next = rule ? { ...rule } : { ...emptyRule, priority: rules.length };
+    setEditingRule(next);
+    setConditionText({
+      countries: next.countries.join(', '),
+      industries: next.industries.join(', '),
+      sources: next.sources.join(', '),
+    });
+  };
+
+  const toggleListValue = (key: 'company_sizes' | 'assignee_ids', value: string, checked: boolean) => {
+    if (!editingRule) return;
+    const current = editingRule[key];
+    setEditingRule({
+      ...editingRule,
+      [key]: checked ? [...current, value] : current.filter(v => v !== value),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editingRule) return;
+    if (!editingRule.name.trim()) {
+      toast.error('Rule name is required');
+      return;
+    }
+    if (editingRule.assignee_ids.length === 0) {
+      toast.error('Select at least one user to assign leads to');
+      return;
+    }
+
+    try {
+      await saveRule({
+        ...editingRule,
+        name: editingRule.name.trim(),
+        countries: splitValues(conditionText.countries),
+        industries: splitValues(conditionText.industries),
+        sources: splitValues(conditionText.sources),
+      });
+      toast.success('Assignment rule saved');
+      setEditingRule(null);
+    } catch (error) {
+      toast.error(`Failed to save rule: ${(error as Error).message}`);
+    }
+  };
+
+  const handleToggle = async (rule: LeadAssignmentRule, isActive: boolean) => {
+    try {
+      await saveRule({ ...rule, is_active: isActive });
+    } catch (error) {
+      toast.error(`Failed to update rule: ${(error as Error).message}`);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!ruleToDelete) return;
+    try {
+      await deleteRule(ruleToDelete.id);
+      toast.success('Assignment rule deleted');
+    } catch (error) {
+      toast.error(`Failed to delete rule: ${(error as Error).message}`);
+    } finally {
+      setRuleToDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Shuffle className="h-5 w-5" />
+              Lead Assignment Rules
+            </CardTitle>
+            <CardDescription>
+              New leads without an owner, including imported ones, go to the first active rule they match, in priority order.
+              Leads added in the app that match no rule go to whoever created them.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openEditor()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : rules.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No assignment rules yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Priority</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Conditions</TableHead>
+                  <TableHead>Assign To</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">{rule.priority}</TableCell>
+                    <TableCell>
+                      <p className="font-medium">{rule.name}</p>
+                      <Badge variant="outline" className="mt-1">{DISTRIBUTION_METHOD_LABELS[rule.distribution_method]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-sm">{describeConditions(rule)}</TableCell>
+                    <TableCell className="text-sm max-w-xs">{rule.assignee_ids.map(userName).join(', ')}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.is_active}
+                        onCheckedChange={(checked) => handleToggle(rule, checked)}
+                        aria-label={`Toggle ${rule.name}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => openEditor(rule)} aria-label={`Edit ${rule.name}`}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive"
+                        onClick={() => setRuleToDelete(rule)}
+                        aria-label={`Delete ${rule.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Routing Log
+          </CardTitle>
+          <CardDescription>Recently routed leads, who they went to and why.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLogLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No leads have been routed yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Lead</TableHead>
+                  <TableHead>Assigned To</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-sm whitespace-nowrap">{format(new Date(entry.created_at), 'MMM d, yyyy HH:mm')}</TableCell>
+                    <TableCell className="font-medium">{entry.lead_name || '-'}</TableCell>
+                    <TableCell>{userName(entry.assigned_to)}</TableCell>
+                    <TableCell>{entry.rule_name}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-sm">{entry.reason}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editingRule} onOpenChange={(open) => !open && setEditingRule(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule?.id ? 'Edit Assignment Rule' : 'Add Assignment Rule'}</DialogTitle>
+          </DialogHeader>
+          {editingRule && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2 space-y-2">
+                  <Label htmlFor="assignment-rule-name">Name</Label>
+                  <Input
+                    id="assignment-rule-name"
+                    value={editingRule.name}
+                    onChange={(e) => setEditingRule({ ...editingRule, name: e.target.value })}
+                    placeholder="e.g. DACH manufacturing"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="assignment-rule-priority">Priority</Label>
+                  <Input
+                    id="assignment-rule-priority"
+                    type="number"
+                    min="0"
+                    value={editingRule.priority}
+                    onChange={(e) => setEditingRule({ ...editingRule, priority: Math.max(0, parseInt(e.target.value) || 0) })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="assignment-rule-countries">Countries</Label>
+                <Input
+                  id="assignment-rule-countries"
+                  value={conditionText.countries}
+                  onChange={(e) => setConditionText({ ...conditionText, countries: e.target.value })}
+                  placeholder="Comma-separated, e.g. Germany, Austria"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assignment-rule-industries">Industries</Label>
+                <Input
+                  id="assignment-rule-industries"
+                  value={conditionText.industries}
+                  onChange={(e) => setConditionText({ ...conditionText, industries: e.target.value })}
+                  placeholder="Comma-separated, e.g. Automotive, Manufacturing"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assignment-rule-sources">Sources</Label>
+                <Input
+                  id="assignment-rule-sources"
+                  value={conditionText.sources}
+                  onChange={(e) => setConditionText({ ...conditionText, sources: e.target.value })}
+                  placeholder="Comma-separated, e.g. Website, Referral"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Company Size</Label>
+                <div className="grid grid-cols-4 gap-2">
+                  {COMPANY_SIZE_OPTIONS.map(size => (
+                    <label key={size} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={editingRule.company_sizes.includes(size)}
+                        onCheckedChange={(checked) => toggleListValue('company_sizes', size, !!checked)}
+                      />
+                      {size}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leave a condition empty to match any value. Matching ignores case, and leads without a country or industry use their account's.
+              </p>
+
+              <div className="space-y-2">
+                <Label>Distribution</Label>
+                <Select
+                  value={editingRule.distribution_method}
+                  onValueChange={(value) => setEditingRule({ ...editingRule, distribution_method: value as DistributionMethod })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="round_robin">Round-robin: take turns in order</SelectItem>
+                    <SelectItem value="load_balanced">Load-balanced: fewest open leads</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Assign To</Label>
+                <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto rounded-md border p-2">
+                  {users.map(user => (
+                    <label key={user.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={editingRule.assignee_ids.includes(user.id)}
+                        onCheckedChange={(checked) => toggleListValue('assignee_ids', user.id, !!checked)}
+                      />
+                      {user.full_name || 'Unnamed user'}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="assignment-rule-active">Active</Label>
+                <Switch
+                  id="assignment-rule-active"
+                  checked={editingRule.is_active}
+                  onCheckedChange={(checked) => setEditingRule({ ...editingRule, is_active: checked })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingRule(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmDialog
+        open={!!ruleToDelete}
+        onOpenChange={(open) => !open && setRuleToDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete Assignment Rule"
+        description={`Are you sure you want to delete the "${ruleToDelete?.name}" rule? Leads it already routed keep their owners.`}
+      />
+    </div>
+  );
+};
+
+export default LeadAssignmentSettings;
@@ -8,6 +8,11 @@ import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { useUserRole } from '@/hooks/useUserRole';
+import { useQueryClient } from '@tanstack/react-query';
+import { PIPELINE_STAGES_QUERY_KEY } from '@/hooks/usePipelineStages';
+import { LEAD_STATUSES_QUERY_KEY, LeadStatus } from '@/hooks/useLeadStatuses';
+import { PipelineStage, StageOutcome, STAGE_FIELDS, OUTCOME_FIELDS } from '@/types/deal';
+import { Checkbox } from '@/components/ui/checkbox';
 import { 
   Loader2, 
   Plus, 
@@ -15,15 +20,19 @@ import {
   GripVertical, 
   Settings2, 
   Check,
-  AlertCircle
+  AlertCircle,
+  ArrowUp,
+  ArrowDown
 } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
+  DialogDescription,
   DialogFooter,
 } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
 import {
   AlertDialog,
@@ -36,25 +45,25 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 
-interface PipelineStage {
-  id: string;
-  stage_name: string;
-  stage_order: number;
-  stage_color: string;
-  stage_probability: number;
-  is_active: boolean;
-  is_won_stage: boolean;
-  is_lost_stage: boolean;
+// Leads still holding a status that is being deactivated or deleted, and where to move them
+interface StatusRemap {
+  status: LeadStatus;
+  action: 'deactivate' | 'delete';
+  leadCount: number;
 }
 
-interface LeadStatus {
-  id: string;
-  status_name: string;
-  status_color: string;
-  status_order: number;
-  is_active: boolean;
-  is_converted_status: boolean;
-}
+const outcomeOptions: { value: StageOutcome | 'open'; label: string }[] = [
+  { value: 'open', label: 'Open (deal still in progress)' },
+  { value: 'won', label: 'Won' },
+  { value: 'lost', label: 'Lost (records a lost reason)' },
+  { value: 'dropped', label: 'Dropped (records a drop reason)' },
+];
+
+// Deal fields a stage can require, as collected by the stage forms
+const requirableFields = [...new Set([...Object.values(STAGE_FIELDS), ...Object.values(OUTCOME_FIELDS)].flat())];
+
+const formatFieldName = (field: string) =>
+  field.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
 
 const colorOptions = [
   { hex: '#3b82f6', name: 'Blue' },
@@ -71,6 +80,7 @@ const colorOptions = [
 
 const PipelineSettings = () => {
   const { userRole } = useUserRole();
+  const queryClient = useQueryClient();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [stages, setStages] = useState<PipelineStage[]>([]);
@@ -81,6 +91,8 @@ const PipelineSettings = () => {
   const [editingStatus, setEditingStatus] = useState<Partial<LeadStatus> | null>(null);
   const [stageToDelete, setStageToDelete] = useState<PipelineStage | null>(null);
   const [statusToDelete, setStatusToDelete] = useState<LeadStatus | null>(null);
+  const [statusRemap, setStatusRemap] = useState<StatusRemap | null>(null);
+  const [remapTarget, setRemapTarget] = useState('');
   const [validationError, setValidationError] = useState<string | null>(null);
   const [showUnsavedDialog, setShowUnsavedDialog] = useState(false);
   
@@ -128,12 +140,19 @@ const PipelineSettings = () => {
       const stagesData = stagesRes.data || [];
       const statusesData = statusesRes.data || [];
       
-      setStages(stagesData);
-      setStatuses(statusesData);
+      const statusesList = statusesData.map(status => ({
+        ...status,
+        status_color: status.status_color || '#6b7280',
+        is_active: status.is_active ?? true,
+        is_converted_status: !!status.is_converted_status,
+      }));
+
+      setStages(stagesData.map(stage => ({ ...stage, outcome: stage.outcome as StageOutcome | null })));
+      setStatuses(statusesList);
       
       // Store initial state
       initialStagesRef.current = JSON.stringify(stagesData);
-      initialStatusesRef.current = JSON.stringify(statusesData);
+      initialStatusesRef.current = JSON.stringify(statusesList);
     } catch (error) {
       console.error('Error fetching pipeline data:', error);
       toast.error('Failed to load pipeline settings');
@@ -199,6 +218,8 @@ const PipelineSettings = () => {
             is_active: editingStage?.is_active ?? true,
             is_won_stage: editingStage?.is_won_stage || false,
             is_lost_stage: editingStage?.is_lost_stage || false,
+            outcome: editingStage?.outcome ?? null,
+            required_fields: editingStage?.required_fields || [],
             stage_order: stages.length,
           });
         if (error) throw error;
@@ -208,6 +229,7 @@ const PipelineSettings = () => {
       setShowStageModal(false);
       setEditingStage(null);
       fetchData();
+      queryClient.invalidateQueries({ queryKey: PIPELINE_STAGES_QUERY_KEY });
     } catch (error) {
       console.error('Error saving stage:', error);
       toast.error('Failed to save stage');
@@ -216,13 +238,49 @@ const PipelineSettings = () => {
     }
   };
 
+  const countLeadsWithStatus = async (statusName: string) => {
+    const { count, error } = await supabase
+      .from('leads')
+      .select('id', { count: 'exact', head: true })
+      .eq('lead_status', statusName);
+    if (error) throw error;
+    return count || 0;
+  };
+
+  const openStatusRemap = (remap: StatusRemap) => {
+    const fallback = statuses.find(s => s.is_active && s.id !== remap.status.id && !s.is_converted_status)
+      || statuses.find(s => s.is_active && s.id !== remap.status.id);
+    setRemapTarget(fallback?.status_name || '');
+    setStatusRemap(remap);
+  };
+
   const saveStatus = async () => {
     const error = validateStageName(editingStatus?.status_name || '', false);
     if (error) {
       setValidationError(error);
       return;
     }
-    
+
+    // Deactivating a status that leads still hold asks where to move them first
+    const original = statuses.find(s => s.id === editingStatus?.id);
+    if (original?.is_active && editingStatus?.is_active === false) {
+      try {
+        const leadCount = await countLeadsWithStatus(original.status_name);
+        if (leadCount > 0) {
+          openStatusRemap({ status: original, action: 'deactivate', leadCount });
+          return;
+        }
+      } catch (error) {
+        console.error('Error counting leads for status:', error);
+        toast.error('Failed to check leads using this status');
+        return;
+      }
+    }
+
+    await persistStatus();
+  };
+
+  const persistStatus = async () => {
     setSaving(true);
     setValidationError(null);
 
@@ -250,6 +308,7 @@ const PipelineSettings = () => {
       setShowStatusModal(false);
       setEditingStatus(null);
       fetchData();
+      queryClient.invalidateQueries({ queryKey: LEAD_STATUSES_QUERY_KEY });
     } catch (error) {
       console.error('Error saving status:', error);
       toast.error('Failed to save status');
@@ -258,9 +317,51 @@ const PipelineSettings = () => {
     }
   };
 
+  const moveStage = async (index: number, direction: -1 | 1) => {
+    const targetIndex = index + direction;
+    if (targetIndex < 0 || targetIndex >= stages.length) return;
+
+    const reordered = [...stages];
+    [reordered[index], reordered[targetIndex]] = [reordered[targetIndex], reordered[index]];
+
+    setSaving(true);
+    try {
+      // Persist every changed position so stage_order stays contiguous
+      const updates = reordered
+        .map((stage, order) => ({ id: stage.id, order, changed: stage.stage_order !== order }))
+        .filter(update => update.changed);
+      const results = await Promise.all(
+        updates.map(update =>
+          supabase.from('pipeline_stages').update({ stage_order: update.order }).eq('id', update.id)
+        )
+      );
+      const failed = results.find(result => result.error);
+      if (failed) throw failed.error;
+
+      fetchData();
+      queryClient.invalidateQueries({ queryKey: PIPELINE_STAGES_QUERY_KEY });
+    } catch (error) {
+      console.error('Error reordering stages:', error);
+      toast.error('Failed to reorder stages');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const confirmDeleteStage = async () => {
     if (!stageToDelete) return;
     try {
+      const { count, error: countError } = await supabase
+        .from('deals')
+        .select('id', { count: 'exact', head: true })
+        .eq('stage', stageToDelete.stage_name);
+      if (countError) throw countError;
+      if (count && count > 0) {
+        toast.error(`${count} deal(s) are still in "${stageToDelete.stage_name}". Move them or deactivate the stage instead.`);
+        setStageToDelete(null);
+        return;
+      }
+
       const { error } = await supabase
         .from('pipeline_stages')
         .delete()
@@ -269,24 +370,64 @@ const PipelineSettings = () => {
       toast.success('Stage deleted');
       setStageToDelete(null);
       fetchData();
+      queryClient.invalidateQueries({ queryKey: PIPELINE_STAGES_QUERY_KEY });
     } catch (error) {
       toast.error('Failed to delete stage');
     }
   };
 
+  const deleteStatus = async (status: LeadStatus) => {
+    const { error } = await supabase
+      .from('lead_statuses')
+      .delete()
+      .eq('id', status.id);
+    if (error) throw error;
+    toast.success('Status deleted');
+    fetchData();
+    queryClient.invalidateQueries({ queryKey: LEAD_STATUSES_QUERY_KEY });
+  };
+
   const confirmDeleteStatus = async () => {
     if (!statusToDelete) return;
+    const status = statusToDelete;
+    setStatusToDelete(null);
+    try {
+      const leadCount = await countLeadsWithStatus(status.status_name);
+      if (leadCount > 0) {
+        openStatusRemap({ status, action: 'delete', leadCount });
+        return;
+      }
+      await deleteStatus(status);
+    } catch (error) {
+      toast.error('Failed to delete status');
+    }
+  };
+
+  // Moves the leads off the status, then finishes the deactivation or deletion that was held back
+  const confirmStatusRemap = async () => {
+    if (!statusRemap || !remapTarget) return;
+    setSaving(true);
     try {
       const { error } = await supabase
-        .from('lead_statuses')
-        .delete()
-        .eq('id', statusToDelete.id);
+        .from('leads')
+        .update({ lead_status: remapTarget })
+        .eq('lead_status', statusRemap.status.status_name);
       if (error) throw error;
-      toast.success('Status deleted');
-      setStatusToDelete(null);
-      fetchData();
+
+      toast.success(`Moved ${statusRemap.leadCount} lead(s) to "${remapTarget}"`);
+      const remap = statusRemap;
+      setStatusRemap(null);
+
+      if (remap.action === 'delete') {
+        await deleteStatus(remap.status);
+      } else {
+        await persistStatus();
+      }
     } catch (error) {
-      toast.error('Failed to delete status');
+      console.error('Error remapping lead status:', error);
+      toast.error(`Failed to move leads: ${(error as Error).message}`);
+    } finally {
+      setSaving(false);
     }
   };
 
@@ -339,7 +480,7 @@ const PipelineSettings = () => {
         </CardHeader>
         <CardContent>
           <div className="space-y-2">
-            {stages.map((stage) => (
+            {stages.map((stage, index) => (
               <div
                 key={stage.id}
                 className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50"
@@ -354,10 +495,30 @@ const PipelineSettings = () => {
                   <span className="font-medium">{stage.stage_name}</span>
                   <Badge variant="outline">{stage.stage_probability}%</Badge>
                   {stage.is_won_stage && <Badge className="bg-green-500">Won</Badge>}
-                  {stage.is_lost_stage && <Badge variant="destructive">Lost/Dropped</Badge>}
+                  {stage.is_lost_stage && (
+                    <Badge variant="destructive">{stage.outcome === 'dropped' ? 'Dropped' : 'Lost'}</Badge>
+                  )}
                   {!stage.is_active && <Badge variant="secondary">Inactive</Badge>}
                 </div>
                 <div className="flex items-center gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={saving || index === 0}
+                    onClick={() => moveStage(index, -1)}
+                    aria-label={`Move ${stage.stage_name} up`}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={saving || index === stages.length - 1}
+                    onClick={() => moveStage(index, 1)}
+                    aria-label={`Move ${stage.stage_name} down`}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
                   <Button
                     variant="ghost"
                     size="sm"
@@ -544,21 +705,53 @@ const PipelineSettings = () => {
                 onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_active: checked }))}
               />
             </div>
-            <div className="flex items-center justify-between">
-              <Label htmlFor="stage-won">Won Stage</Label>
-              <Switch
-                id="stage-won"
-                checked={editingStage?.is_won_stage || false}
-                onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_won_stage: checked, is_lost_stage: false }))}
-              />
+            <div className="space-y-2">
+              <Label htmlFor="stage-outcome">Outcome</Label>
+              <Select
+                value={editingStage?.outcome || 'open'}
+                onValueChange={(value) => {
+                  const outcome = value === 'open' ? null : (value as StageOutcome);
+                  setEditingStage(s => ({
+                    ...s,
+                    outcome,
+                    is_won_stage: outcome === 'won',
+                    is_lost_stage: outcome === 'lost' || outcome === 'dropped',
+                  }));
+                }}
+              >
+                <SelectTrigger id="stage-outcome">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {outcomeOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
-            <div className="flex items-center justify-between">
-              <Label htmlFor="stage-lost">Lost/Dropped Stage</Label>
-              <Switch
-                id="stage-lost"
-                checked={editingStage?.is_lost_stage || false}
-                onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_lost_stage: checked, is_won_stage: false }))}
-              />
+            <div className="space-y-2">
+              <Label>Required Fields</Label>
+              <p className="text-xs text-muted-foreground">Fields a deal must have filled in at this stage</p>
+              <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto rounded-md border p-2">
+                {requirableFields.map(field => {
+                  const checked = editingStage?.required_fields?.includes(field) || false;
+                  return (
+                    <label key={field} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={checked}
+                        onCheckedChange={(value) => setEditingStage(s => {
+                          const current = s?.required_fields || [];
+                          return {
+                            ...s,
+                            required_fields: value ? [...current, field] : current.filter(f => f !== field),
+                          };
+                        })}
+                      />
+                      {formatFieldName(field)}
+                    </label>
+                  );
+                })}
+              </div>
             </div>
           </div>
           <DialogFooter>
@@ -673,7 +866,7 @@ const PipelineSettings = () => {
         onOpenChange={(open) => !open && setStageToDelete(null)}
         onConfirm={confirmDeleteStage}
         title="Delete Pipeline Stage"
-        description={`Are you sure you want to delete the "${stageToDelete?.stage_name}" stage? Deals in this stage will need to be reassigned.`}
+        description={`Are you sure you want to delete the "${stageToDelete?.stage_name}" stage? Stages that still hold deals cannot be deleted; deactivate them instead.`}
       />
 
       <DeleteConfirmDialog
@@ -681,9 +874,48 @@ const PipelineSettings = () => {
         onOpenChange={(open) => !open && setStatusToDelete(null)}
         onConfirm={confirmDeleteStatus}
         title="Delete Lead Status"
-        description={`Are you sure you want to delete the "${statusToDelete?.status_name}" status? Leads with this status will need to be updated.`}
+        description={`Are you sure you want to delete the "${statusToDelete?.status_name}" status? Leads with this status will be moved to another status first.`}
       />
 
+      {/* Lead Status Remap Dialog */}
+      <Dialog open={!!statusRemap} onOpenChange={(open) => !open && setStatusRemap(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Move Leads to Another Status</DialogTitle>
+            <DialogDescription>
+              {statusRemap?.leadCount} lead(s) still have the "{statusRemap?.status.status_name}" status.
+              Choose where to move them before the status is {statusRemap?.action === 'delete' ? 'deleted' : 'deactivated'}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="status-remap-target">Move leads to</Label>
+            <Select value={remapTarget} onValueChange={setRemapTarget}>
+              <SelectTrigger id="status-remap-target">
+                <SelectValue placeholder="Select status" />
+              </SelectTrigger>
+              <SelectContent>
+                {statuses
+                  .filter(s => s.is_active && s.id !== statusRemap?.status.id)
+                  .map(s => (
+                    <SelectItem key={s.id} value={s.status_name}>
+                      {s.status_name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStatusRemap(null)}>
+              Cancel
+            </Button>
+            <Button onClick={confirmStatusRemap} disabled={saving || !remapTarget}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Move Leads
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Unsaved Changes Dialog */}
       <AlertDialog open={showUnsavedDialog} onOpenChange={setShowUnsavedDialog}>
         <AlertDialogContent>
@@ -18,7 +18,10 @@ import {
   RefreshCw,
   Calendar,
   Clock,
-  Mail
+  Mail,
+  Send,
+  History,
+  AlertCircle
 } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -30,13 +33,29 @@ interface ReportSchedule {
   day_of_week: number | null;
   day_of_month: number | null;
   time_of_day: string;
+  timezone: string;
   recipients: any;
   filters: any;
+  attachment_format: string;
   is_enabled: boolean;
   last_sent_at: string | null;
+  last_run_at: string | null;
+  last_run_status: string | null;
+  last_error: string | null;
   created_at: string;
 }
 
+interface ReportRun {
+  id: string;
+  status: string;
+  trigger: string;
+  sent_count: number | null;
+  row_count: number | null;
+  error_message: string | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
 const reportTypes = [
   { value: 'deals_summary', label: 'Deals Summary' },
   { value: 'leads_activity', label: 'Leads Activity' },
@@ -51,6 +70,18 @@ const frequencyOptions = [
   { value: 'monthly', label: 'Monthly' },
 ];
 
+const attachmentFormats = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'pdf', label: 'PDF' },
+];
+
+const runStatusStyles: Record<string, string> = {
+  success: 'bg-green-100 text-green-800 border-green-200',
+  partial: 'bg-amber-100 text-amber-800 border-amber-200',
+  failed: 'bg-red-100 text-red-800 border-red-200',
+  running: 'bg-blue-100 text-blue-800 border-blue-200',
+};
+
 const daysOfWeek = [
   { value: 0, label: 'Sunday' },
   { value: 1, label: 'Monday' },
@@ -61,6 +92,20 @@ const daysOfWeek = [
   { value: 6, label: 'Saturday' },
 ];
 
+// Time zones a schedule's time of day can be set in
+const timezones = [
+  { value: 'UTC', label: 'UTC' },
+  { value: 'Asia/Kolkata', label: 'IST (India Standard Time)' },
+  { value: 'America/New_York', label: 'EST (Eastern Standard Time)' },
+  { value: 'America/Los_Angeles', label: 'PST (Pacific Standard Time)' },
+  { value: 'Europe/London', label: 'GMT (Greenwich Mean Time)' },
+  { value: 'Europe/Paris', label: 'CET (Central European Time)' },
+  { value: 'Asia/Tokyo', label: 'JST (Japan Standard Time)' },
+  { value: 'Asia/Singapore', label: 'SGT (Singapore Time)' },
+  { value: 'Australia/Sydney', label: 'AEST (Australian Eastern Time)' },
+  { value: 'Asia/Dubai', label: 'GST (Gulf Standard Time)' }
+];
+
 const ScheduledReportsSettings = () => {
   const { user } = useAuth();
   const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
@@ -68,6 +113,10 @@ const ScheduledReportsSettings = () => {
   const [saving, setSaving] = useState(false);
   const [showModal, setShowModal] = useState(false);
   const [editingSchedule, setEditingSchedule] = useState<ReportSchedule | null>(null);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+  const [historySchedule, setHistorySchedule] = useState<ReportSchedule | null>(null);
+  const [runs, setRuns] = useState<ReportRun[]>([]);
+  const [loadingRuns, setLoadingRuns] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
     report_type: 'deals_summary',
@@ -75,7 +124,9 @@ const ScheduledReportsSettings = () => {
     day_of_week: 1,
     day_of_month: 1,
     time_of_day: '08:00',
+    timezone: 'UTC',
     recipients: '',
+    attachment_format: 'csv',
     is_enabled: true,
   });
 
@@ -110,7 +161,9 @@ const ScheduledReportsSettings = () => {
         day_of_week: schedule.day_of_week || 1,
         day_of_month: schedule.day_of_month || 1,
         time_of_day: schedule.time_of_day || '08:00',
+        timezone: schedule.timezone || 'UTC',
         recipients: (schedule.recipients || []).join(', '),
+        attachment_format: schedule.attachment_format || 'csv',
         is_enabled: schedule.is_enabled,
       });
     } else {
@@ -122,7 +175,9 @@ const ScheduledReportsSettings = () => {
         day_of_week: 1,
         day_of_month: 1,
         time_of_day: '08:00',
+        timezone: 'UTC',
         recipients: user?.email || '',
+        attachment_format: 'csv',
         is_enabled: true,
       });
     }
@@ -146,7 +201,9 @@ const ScheduledReportsSettings = () => {
         day_of_week: formData.frequency === 'weekly' ? formData.day_of_week : null,
         day_of_month: formData.frequency === 'monthly' ? formData.day_of_month : null,
         time_of_day: formData.time_of_day,
+        timezone: formData.timezone,
         recipients: recipientsList,
+        attachment_format: formData.attachment_format,
         is_enabled: formData.is_enabled,
         created_by: user?.id,
       };
@@ -211,15 +268,63 @@ const ScheduledReportsSettings = () => {
     }
   };
 
+  const handleSendNow = async (schedule: ReportSchedule) => {
+    setSendingId(schedule.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('run-scheduled-reports', {
+        body: { scheduleId: schedule.id },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      const result = data?.results?.[0];
+      if (result?.status === 'success') {
+        toast.success(`Report sent to ${result.sent_count} recipient(s)`);
+      } else if (result?.status === 'partial') {
+        toast.warning(`Report sent to ${result.sent_count} recipient(s) with failures`, { description: result.error });
+      } else {
+        toast.error('Failed to send report', { description: result?.error });
+      }
+      fetchSchedules();
+    } catch (error) {
+      console.error('Error sending report:', error);
+      toast.error((error as Error).message || 'Failed to send report');
+    } finally {
+      setSendingId(null);
+    }
+  };
+
+  const handleOpenHistory = async (schedule: ReportSchedule) => {
+    setHistorySchedule(schedule);
+    setLoadingRuns(true);
+    try {
+      const { data, error } = await supabase
+        .from('report_runs')
+        .select('*')
+        .eq('schedule_id', schedule.id)
+        .order('started_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      setRuns(data || []);
+    } catch (error) {
+      console.error('Error fetching report runs:', error);
+      toast.error('Failed to load report history');
+    } finally {
+      setLoadingRuns(false);
+    }
+  };
+
   const getFrequencyLabel = (schedule: ReportSchedule) => {
     switch (schedule.frequency) {
       case 'daily':
-        return `Daily at ${schedule.time_of_day}`;
+        return `Daily at ${schedule.time_of_day} ${schedule.timezone}`;
       case 'weekly':
         const day = daysOfWeek.find(d => d.value === schedule.day_of_week);
-        return `Every ${day?.label} at ${schedule.time_of_day}`;
+        return `Every ${day?.label} at ${schedule.time_of_day} ${schedule.timezone}`;
       case 'monthly':
-        return `Monthly on day ${schedule.day_of_month} at ${schedule.time_of_day}`;
+        return `Monthly on day ${schedule.day_of_month} at ${schedule.time_of_day} ${schedule.timezone}`;
       default:
         return schedule.frequency;
     }
@@ -268,6 +373,14 @@ const ScheduledReportsSettings = () => {
                         <Badge variant="outline">
                           {reportTypes.find(t => t.value === schedule.report_type)?.label}
                         </Badge>
+                        <Badge variant="outline">
+                          {(schedule.attachment_format || 'csv').toUpperCase()}
+                        </Badge>
+                        {schedule.last_run_status && (
+                          <Badge variant="outline" className={runStatusStyles[schedule.last_run_status]}>
+                            {schedule.last_run_status}
+                          </Badge>
+                        )}
                         {!schedule.is_enabled && (
                           <Badge variant="secondary">Disabled</Badge>
                         )}
@@ -288,9 +401,29 @@ const ScheduledReportsSettings = () => {
                           </span>
                         )}
                       </div>
+                      {schedule.last_run_status && schedule.last_run_status !== 'success' && schedule.last_error && (
+                        <p className="flex items-center gap-1 text-xs text-destructive mt-1">
+                          <AlertCircle className="h-3 w-3" />
+                          {schedule.last_error}
+                        </p>
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Send now"
+                      disabled={sendingId === schedule.id}
+                      onClick={() => handleSendNow(schedule)}
+                    >
+                      {sendingId === schedule.id
+                        ? <RefreshCw className="h-4 w-4 animate-spin" />
+                        : <Send className="h-4 w-4" />}
+                    </Button>
+                    <Button variant="ghost" size="icon" title="Run history" onClick={() => handleOpenHistory(schedule)}>
+                      <History className="h-4 w-4" />
+                    </Button>
                     <Switch
                       checked={schedule.is_enabled}
                       onCheckedChange={() => handleToggleEnabled(schedule.id, schedule.is_enabled)}
@@ -410,14 +543,56 @@ const ScheduledReportsSettings = () => {
               )}
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="time">Time of Day</Label>
-              <Input
-                id="time"
-                type="time"
-                value={formData.time_of_day}
-                onChange={(e) => setFormData({ ...formData, time_of_day: e.target.value })}
-              />
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="time">Time of Day</Label>
+                <Input
+                  id="time"
+                  type="time"
+                  value={formData.time_of_day}
+                  onChange={(e) => setFormData({ ...formData, time_of_day: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Time Zone</Label>
+                <Select 
+                  value={formData.timezone} 
+                  onValueChange={(v) => setFormData({ ...formData, timezone: v })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {timezones.map((tz) => (
+                      <SelectItem key={tz.value} value={tz.value}>
+                        {tz.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Attachment</Label>
+                <Select 
+                  value={formData.attachment_format} 
+                  onValueChange={(v) => setFormData({ ...formData, attachment_format: v })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {attachmentFormats.map((fmt) => (
+                      <SelectItem key={fmt.value} value={fmt.value}>
+                        {fmt.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
             <div className="space-y-2">
@@ -447,6 +622,46 @@ const ScheduledReportsSettings = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Run History Modal */}
+      <Dialog open={!!historySchedule} onOpenChange={(open) => !open && setHistorySchedule(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Run History: {historySchedule?.name}</DialogTitle>
+          </DialogHeader>
+          {loadingRuns ? (
+            <div className="flex items-center justify-center py-8">
+              <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">This report has not run yet</p>
+          ) : (
+            <div className="space-y-2 max-h-[400px] overflow-y-auto">
+              {runs.map((run) => (
+                <div key={run.id} className="border rounded-md p-3 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className={runStatusStyles[run.status]}>
+                        {run.status}
+                      </Badge>
+                      <span className="text-muted-foreground capitalize">{run.trigger}</span>
+                    </div>
+                    <span className="text-muted-foreground">
+                      {format(new Date(run.started_at), 'MMM d, yyyy HH:mm')}
+                    </span>
+                  </div>
+                  <div className="text-muted-foreground mt-1">
+                    {run.sent_count ?? 0} sent · {run.row_count ?? 0} row(s)
+                  </div>
+                  {run.error_message && (
+                    <p className="text-xs text-destructive mt-1">{run.error_message}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
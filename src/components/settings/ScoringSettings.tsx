@@ -0,0 +1,412 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
+import { toast } from 'sonner';
+import {
+  useScoringRules,
+  ScoringRule,
+  ScoringRuleInput,
+  ScoringRuleType,
+  ScoringEntityType,
+  SCORING_FIELDS,
+  SCORING_RULE_TYPES,
+  SCORING_RULE_TYPE_LABELS,
+} from '@/hooks/useScoring';
+import { Loader2, Pencil, Plus, RefreshCw, Target, Trash2 } from 'lucide-react';
+
+const emptyRule: ScoringRuleInput = {
+  name: '',
+  rule_type: 'field_match',
+  field: 'industry',
+  match_operator: 'equals',
+  match_values: [],
+  points: 10,
+  max_points: null,
+  period_days: null,
+  is_active: true,
+};
+
+// Counted rules add points per occurrence, up to their cap
+const COUNTED_RULE_TYPES: ScoringRuleType[] = [
+  'contact_count', 'activity_count', 'deals_won', 'email_opens', 'email_clicks', 'meetings_held',
+];
+
+const ENTITY_SCORING: Record<ScoringEntityType, { label: string; description: string }> = {
+  leads: {
+    label: 'Lead',
+    description: 'Each lead scores 0-100 from the active rules. Scores update when a lead, its emails, meetings or activities change, and once a day for inactivity decay.',
+  },
+  accounts: {
+    label: 'Account',
+    description: 'Each account scores 0-100 from the active rules. Engagement of its contacts counts towards the account. Scores update when the account, its contacts, activities, deals or emails change, and once a day.',
+  },
+  contacts: {
+    label: 'Contact',
+    description: 'Each contact scores 0-100 from the active rules. Scores update when a contact, its activities, deals, emails or meetings change, and once a day for inactivity decay.',
+  },
+};
+
+const describeRule = (rule: ScoringRule, entityType: ScoringEntityType) => {
+  const field = SCORING_FIELDS[entityType].find(f => f.value === rule.field)?.label || rule.field;
+  switch (rule.rule_type) {
+    case 'field_match': {
+      const values = rule.match_values.length > 0 ? rule.match_values.join(', ') : 'no values set';
+      return `${field} ${rule.match_operator === 'contains' ? 'contains' : 'is'} ${values}`;
+    }
+    case 'field_present':
+      return `${field} is filled in`;
+    case 'recent_activity':
+      return `Activity in the last ${rule.period_days ?? 30} days`;
+    case 'inactivity_decay':
+      return `Every ${rule.period_days ?? 30} days without activity${rule.max_points != null ? `, at most -${rule.max_points}` : ''}`;
+    default:
+      return `${SCORING_RULE_TYPE_LABELS[rule.rule_type]}${rule.max_points != null ? `, up to ${rule.max_points}` : ''}`;
+  }
+};
+
+const ScoringRulesCard = ({ entityType }: { entityType: ScoringEntityType }) => {
+  const { label, description } = ENTITY_SCORING[entityType];
+  const { rules, isLoading, saveRule, isSaving, deleteRule, recalculateScores, isRecalculating } = useScoringRules(entityType);
+  const [editingRule, setEditingRule] = useState<ScoringRuleInput | null>(null);
+  const [matchValuesText, setMatchValuesText] = useState('');
+  const [ruleToDelete, setRuleToDelete] = useState<ScoringRule | null>(null);
+  const [rulesChanged, setRulesChanged] = useState(false);
+
+  const openEditor = (rule?: ScoringRule) => {
+    const next = rule ? { ...rule } : { ...emptyRule };
+    setEditingRule(next);
+    setMatchValuesText(next.match_values.join(', '));
+  };
+
+  const handleSave = async () => {
+    if (!editingRule) return;
+    if (!editingRule.name.trim()) {
+      toast.error('Rule name is required');
+      return;
+    }
+
+    try {
+      await saveRule({
+        ...editingRule,
+        name: editingRule.name.trim(),
+        match_values: matchValuesText.split(',').map(value => value.trim()).filter(Boolean),
+      });
+      toast.success('Scoring rule saved');
+      setEditingRule(null);
+      setRulesChanged(true);
+    } catch (error) {
+      toast.error(`Failed to save rule: ${(error as Error).message}`);
+    }
+  };
+
+  const handleToggle = async (rule: ScoringRule, isActive: boolean) => {
+    try {
+      await saveRule({ ...rule, is_active: isActive });
+      setRulesChanged(true);
+    } catch (error) {
+      toast.error(`Failed to update rule: ${(error as Error).message}`);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!ruleToDelete) return;
+    try {
+      await deleteRule(ruleToDelete.id);
+      toast.success('Scoring rule deleted');
+      setRulesChanged(true);
+    } catch (error) {
+      toast.error(`Failed to delete rule: ${(error as Error).message}`);
+    } finally {
+      setRuleToDelete(null);
+    }
+  };
+
+  const handleRecalculate = async () => {
+    try {
+      const changed = await recalculateScores();
+      toast.success(`${label} scores recalculated, ${changed} changed`);
+      setRulesChanged(false);
+    } catch (error) {
+      toast.error(`Failed to recalculate scores: ${(error as Error).message}`);
+    }
+  };
+
+  const ruleType = editingRule?.rule_type;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Target className="h-5 w-5" />
+              {label} Scoring Rules
+            </CardTitle>
+            <CardDescription>{description}</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleRecalculate} disabled={isRecalculating}>
+              {isRecalculating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+              Recalculate Scores
+            </Button>
+            <Button onClick={() => openEditor()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {rulesChanged && (
+            <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800 dark:border-amber-800 dark:bg-amber-900/20 dark:text-amber-300">
+              Rules have changed. Recalculate scores to apply them to existing records.
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : rules.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No scoring rules yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Condition</TableHead>
+                  <TableHead className="text-right">Points</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule.id}>
+                    <TableCell>
+                      <p className="font-medium">{rule.name}</p>
+                      <Badge variant="outline" className="mt-1">{SCORING_RULE_TYPE_LABELS[rule.rule_type]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-sm">{describeRule(rule, entityType)}</TableCell>
+                    <TableCell className={`text-right font-medium ${rule.points < 0 ? 'text-destructive' : ''}`}>
+                      {rule.points > 0 ? `+${rule.points}` : rule.points}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.is_active}
+                        onCheckedChange={(checked) => handleToggle(rule, checked)}
+                        aria-label={`Toggle ${rule.name}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => openEditor(rule)} aria-label={`Edit ${rule.name}`}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive"
+                        onClick={() => setRuleToDelete(rule)}
+                        aria-label={`Delete ${rule.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editingRule} onOpenChange={(open) => !open && setEditingRule(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingRule?.id ? 'Edit Scoring Rule' : 'Add Scoring Rule'}</DialogTitle>
+          </DialogHeader>
+          {editingRule && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-name">Name</Label>
+                <Input
+                  id="rule-name"
+                  value={editingRule.name}
+                  onChange={(e) => setEditingRule({ ...editingRule, name: e.target.value })}
+                  placeholder="e.g. Target industry"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={editingRule.rule_type}
+                  onValueChange={(value) => setEditingRule({ ...editingRule, rule_type: value as ScoringRuleType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SCORING_RULE_TYPES[entityType].map(type => (
+                      <SelectItem key={type} value={type}>{SCORING_RULE_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {(ruleType === 'field_match' || ruleType === 'field_present') && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Field</Label>
+                    <Select
+                      value={editingRule.field || 'industry'}
+                      onValueChange={(value) => setEditingRule({ ...editingRule, field: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SCORING_FIELDS[entityType].map(field => (
+                          <SelectItem key={field.value} value={field.value}>{field.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {ruleType === 'field_match' && (
+                    <div className="space-y-2">
+                      <Label>Match</Label>
+                      <Select
+                        value={editingRule.match_operator}
+                        onValueChange={(value) => setEditingRule({ ...editingRule, match_operator: value as ScoringRule['match_operator'] })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="equals">Is one of</SelectItem>
+                          <SelectItem value="contains">Contains one of</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {ruleType === 'field_match' && (
+                <div className="space-y-2">
+                  <Label htmlFor="rule-values">Values</Label>
+                  <Input
+                    id="rule-values"
+                    value={matchValuesText}
+                    onChange={(e) => setMatchValuesText(e.target.value)}
+                    placeholder="Comma-separated, e.g. Director, VP, Head"
+                  />
+                  <p className="text-xs text-muted-foreground">Matching ignores case.</p>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="rule-points">
+                    {ruleType === 'inactivity_decay' ? 'Points per idle period' : ruleType && COUNTED_RULE_TYPES.includes(ruleType) ? 'Points each' : 'Points'}
+                  </Label>
+                  <Input
+                    id="rule-points"
+                    type="number"
+                    value={editingRule.points}
+                    onChange={(e) => setEditingRule({ ...editingRule, points: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                {(ruleType === 'inactivity_decay' || (ruleType && COUNTED_RULE_TYPES.includes(ruleType))) && (
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-max">{ruleType === 'inactivity_decay' ? 'Maximum deduction' : 'Maximum points'}</Label>
+                    <Input
+                      id="rule-max"
+                      type="number"
+                      min="0"
+                      value={editingRule.max_points ?? ''}
+                      onChange={(e) => setEditingRule({ ...editingRule, max_points: e.target.value === '' ? null : Math.max(0, parseInt(e.target.value) || 0) })}
+                      placeholder="No limit"
+                    />
+                  </div>
+                )}
+                {(ruleType === 'recent_activity' || ruleType === 'inactivity_decay') && (
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-period">{ruleType === 'recent_activity' ? 'Within days' : 'Idle period (days)'}</Label>
+                    <Input
+                      id="rule-period"
+                      type="number"
+                      min="1"
+                      value={editingRule.period_days ?? 30}
+                      onChange={(e) => setEditingRule({ ...editingRule, period_days: Math.max(1, parseInt(e.target.value) || 1) })}
+                    />
+                  </div>
+                )}
+              </div>
+              {ruleType === 'inactivity_decay' && (
+                <p className="text-xs text-muted-foreground">Use negative points so the score drops for each idle period.</p>
+              )}
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="rule-active">Active</Label>
+                <Switch
+                  id="rule-active"
+                  checked={editingRule.is_active}
+                  onCheckedChange={(checked) => setEditingRule({ ...editingRule, is_active: checked })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingRule(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmDialog
+        open={!!ruleToDelete}
+        onOpenChange={(open) => !open && setRuleToDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete Scoring Rule"
+        description={`Are you sure you want to delete the "${ruleToDelete?.name}" rule? Scores keep its points until they are recalculated.`}
+      />
+    </div>
+  );
+};
+
+const ScoringSettings = () => {
+  return (
+    <Tabs defaultValue="leads" className="w-full">
+      <TabsList>
+        <TabsTrigger value="leads">Leads</TabsTrigger>
+        <TabsTrigger value="accounts">Accounts</TabsTrigger>
+        <TabsTrigger value="contacts">Contacts</TabsTrigger>
+      </TabsList>
+      <TabsContent value="leads" className="mt-4">
+        <ScoringRulesCard entityType="leads" />
+      </TabsContent>
+      <TabsContent value="accounts" className="mt-4">
+        <ScoringRulesCard entityType="accounts" />
+      </TabsContent>
+      <TabsContent value="contacts" className="mt-4">
+        <ScoringRulesCard entityType="contacts" />
+      </TabsContent>
+    </Tabs>
+  );
+};
+
+export default ScoringSettings;
@@ -13,7 +13,8 @@ import {
   CheckCircle, 
   AlertCircle,
   Clock,
-  Server
+  Server,
+  CalendarClock
 } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -27,9 +28,19 @@ interface SystemStats {
   totalRecords: number;
   activeSessions: number;
   lastBackup: string | null;
+  backupSchedule: BackupScheduleStatus | null;
   storageUsed: number;
 }
 
+interface BackupScheduleStatus {
+  is_enabled: boolean | null;
+  last_run_at: string | null;
+  last_run_status: string | null;
+  last_error: string | null;
+  last_success_at: string | null;
+  next_run_at: string | null;
+}
+
 const SystemStatusSettings = () => {
   const [stats, setStats] = useState<SystemStats | null>(null);
   const [loading, setLoading] = useState(true);
@@ -67,6 +78,14 @@ const SystemStatusSettings = () => {
         .limit(1)
         .single();
 
+      // Fetch scheduled backup status
+      const { data: backupScheduleData } = await supabase
+        .from('backup_schedules')
+        .select('is_enabled, last_run_at, last_run_status, last_error, last_success_at, next_run_at')
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
       // Estimate storage (rough calculation based on records)
       const estimatedStorageMB = totalRecords * 0.001; // ~1KB per record average
 
@@ -75,6 +94,7 @@ const SystemStatusSettings = () => {
         totalRecords,
         activeSessions: sessionCount || 0,
         lastBackup: lastBackupData?.created_at || null,
+        backupSchedule: backupScheduleData || null,
         storageUsed: estimatedStorageMB,
       });
 
@@ -241,6 +261,47 @@ const SystemStatusSettings = () => {
                   : 'Never'}
               </span>
             </div>
+            <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+              <div className="flex items-center gap-2">
+                <CalendarClock className="h-4 w-4 text-muted-foreground" />
+                <span className="text-sm">Scheduled Backups</span>
+              </div>
+              {!stats?.backupSchedule?.is_enabled ? (
+                <Badge variant="secondary">Disabled</Badge>
+              ) : stats.backupSchedule.last_run_status === 'failed' ? (
+                <Badge variant="destructive">Last run failed</Badge>
+              ) : (
+                <span className="text-sm font-medium">
+                  {stats.backupSchedule.next_run_at
+                    ? `Next: ${format(new Date(stats.backupSchedule.next_run_at), 'MMM d, yyyy HH:mm')}`
+                    : 'Pending'}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+              <div className="flex items-center gap-2">
+                <CheckCircle className="h-4 w-4 text-muted-foreground" />
+                <span className="text-sm">Last Scheduled Success</span>
+              </div>
+              <span className="text-sm font-medium">
+                {stats?.backupSchedule?.last_success_at
+                  ? format(new Date(stats.backupSchedule.last_success_at), 'MMM d, yyyy HH:mm')
+                  : 'Never'}
+              </span>
+            </div>
+            {stats?.backupSchedule?.last_run_status === 'failed' && stats.backupSchedule.last_run_at && (
+              <div className="md:col-span-2 flex items-start gap-2 p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+                <AlertCircle className="h-4 w-4 text-destructive mt-0.5" />
+                <div className="text-sm">
+                  <p className="font-medium text-destructive">
+                    Scheduled backup failed on {format(new Date(stats.backupSchedule.last_run_at), 'MMM d, yyyy HH:mm')}
+                  </p>
+                  {stats.backupSchedule.last_error && (
+                    <p className="text-muted-foreground">{stats.backupSchedule.last_error}</p>
+                  )}
+                </div>
+              </div>
+            )}
             <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
               <div className="flex items-center gap-2">
                 <RefreshCw className="h-4 w-4 text-muted-foreground" />
@@ -0,0 +1,92 @@
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { toast } from '@/hooks/use-toast';
+import { SUPPRESSION_REASON_LABELS, useEmailSuppression, useEmailSuppressionActions } from '@/hooks/useEmailSuppressions';
+import { Ban, MailCheck, MailX } from 'lucide-react';
+
+interface EmailSuppressionStatusProps {
+  email: string | null;
+  // Badge only, for headers; the full control offers blocking and unblocking
+  compact?: boolean;
+}
+
+/**
+ * "Do not email" state of a lead or contact address: unsubscribed, bounced or blocked by a user.
+ */
+export const EmailSuppressionStatus = ({ email, compact = false }: EmailSuppressionStatusProps) => {
+  const { suppression } = useEmailSuppression(email);
+  const { blockEmail, isBlocking, unblockEmail, isUnblocking } = useEmailSuppressionActions();
+
+  if (!email) return null;
+
+  const handleBlock = async () => {
+    try {
+      await blockEmail({ email });
+      toast({
+        title: "Email blocked",
+        description: `${email} won't receive emails, campaigns or sequence steps`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleUnblock = async () => {
+    if (!suppression) return;
+    try {
+      await unblockEmail(suppression.id);
+      toast({
+        title: "Email allowed",
+        description: `${email} can be emailed again`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const badge = suppression && (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge variant="destructive" className="gap-1">
+            <MailX className="h-3 w-3" />
+            Do not email
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>
+            {SUPPRESSION_REASON_LABELS[suppression.reason]} on {format(new Date(suppression.created_at), 'dd MMM yyyy')}
+            {suppression.notes && ` · ${suppression.notes}`}
+          </p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+
+  if (compact) return badge || null;
+
+  return suppression ? (
+    <div className="flex items-center gap-2">
+      {badge}
+      <Button variant="ghost" size="sm" className="h-7 gap-1" onClick={handleUnblock} disabled={isUnblocking}>
+        <MailCheck className="h-3 w-3" />
+        Allow email
+      </Button>
+    </div>
+  ) : (
+    <Button variant="ghost" size="sm" className="h-7 gap-1 text-muted-foreground" onClick={handleBlock} disabled={isBlocking}>
+      <Ban className="h-3 w-3" />
+      Do not email
+    </Button>
+  );
+};
@@ -83,6 +83,7 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
       case 'sent': return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
       case 'opened': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
       case 'clicked': return 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200';
+      case 'replied': return 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200';
       case 'bounced': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
       default: return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200';
     }
@@ -0,0 +1,56 @@
+import { ReactElement } from 'react';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { ScoreBreakdownItem, getScoreColor } from '@/hooks/useScoring';
+import { TrendingUp } from 'lucide-react';
+
+interface ScoreBreakdownTooltipProps {
+  breakdown?: ScoreBreakdownItem[];
+  children: ReactElement;
+}
+
+/**
+ * Shows the scoring rules behind a score when hovering over it.
+ */
+export const ScoreBreakdownTooltip = ({ breakdown = [], children }: ScoreBreakdownTooltipProps) => {
+  if (breakdown.length === 0) return children;
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>{children}</TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          <div className="space-y-1 text-xs">
+            {breakdown.map(item => (
+              <div key={item.rule_id} className="flex justify-between gap-4">
+                <span>
+                  {item.name}
+                  {item.detail && <span className="text-muted-foreground"> · {item.detail}</span>}
+                </span>
+                <span className={item.points < 0 ? 'text-destructive' : 'font-medium'}>
+                  {item.points > 0 ? `+${item.points}` : item.points}
+                </span>
+              </div>
+            ))}
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+};
+
+interface ScoreBadgeProps {
+  score: number;
+  breakdown?: ScoreBreakdownItem[];
+}
+
+/**
+ * Lead or contact score with the rules behind it on hover.
+ */
+export const ScoreBadge = ({ score, breakdown }: ScoreBadgeProps) => (
+  <ScoreBreakdownTooltip breakdown={breakdown}>
+    <span className={`inline-flex items-center gap-1 font-medium ${getScoreColor(score)}`}>
+      <TrendingUp className="h-3 w-3" />
+      {score}
+    </span>
+  </ScoreBreakdownTooltip>
+);
@@ -0,0 +1,125 @@
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { useUserRole } from '@/hooks/useUserRole';
+import { ScoringEntityType, useRecordScore, getScoreColor } from '@/hooks/useScoring';
+import { ArrowDown, ArrowUp, History, Loader2, RefreshCw, Target } from 'lucide-react';
+
+interface ScorePanelProps {
+  entityType: ScoringEntityType;
+  entityId: string;
+  title: string;
+  onUpdate?: () => void;
+}
+
+/**
+ * Score of a lead, account or contact with the rules behind it and its history of changes.
+ */
+export const ScorePanel = ({ entityType, entityId, title, onUpdate }: ScorePanelProps) => {
+  const { toast } = useToast();
+  const { isAdmin } = useUserRole();
+  const { score, breakdown, updatedAt, history, isLoading, refreshScore, isRefreshing } = useRecordScore(entityType, entityId);
+
+  const handleRefresh = async () => {
+    try {
+      await refreshScore();
+      onUpdate?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to recalculate score: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Target className="h-4 w-4" />
+            {title}
+          </CardTitle>
+          {isAdmin && (
+            <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isRefreshing}>
+              {isRefreshing ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+              Recalculate
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className={`text-2xl font-bold ${getScoreColor(score)}`}>{score}<span className="text-sm text-muted-foreground">/100</span></span>
+              {updatedAt && (
+                <span className="text-xs text-muted-foreground">Updated {format(new Date(updatedAt), 'dd MMM yyyy HH:mm')}</span>
+              )}
+            </div>
+            <Progress value={score} className="h-2" />
+          </div>
+
+          {breakdown.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No scoring rule applies to this record yet.</p>
+          ) : (
+            <div className="divide-y rounded-md border">
+              {breakdown.map(item => (
+                <div key={item.rule_id} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <div>
+                    <p className="font-medium">{item.name}</p>
+                    {item.detail && <p className="text-xs text-muted-foreground">{item.detail}</p>}
+                  </div>
+                  <span className={item.points < 0 ? 'text-destructive font-medium' : 'text-green-600 dark:text-green-400 font-medium'}>
+                    {item.points > 0 ? `+${item.points}` : item.points}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Score History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">The score hasn't changed yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {history.map(entry => {
+                const change = entry.score - (entry.previous_score ?? 0);
+                return (
+                  <div key={entry.id} className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-2">
+                      {change >= 0
+                        ? <ArrowUp className="h-3 w-3 text-green-600" />
+                        : <ArrowDown className="h-3 w-3 text-destructive" />}
+                      <span className="font-medium">{entry.previous_score ?? 0} → {entry.score}</span>
+                      {entry.reason && <span className="text-muted-foreground">{entry.reason}</span>}
+                    </div>
+                    <span className="text-xs text-muted-foreground">{format(new Date(entry.created_at), 'dd MMM yyyy HH:mm')}</span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -1,9 +1,10 @@
 import { useState, useMemo } from 'react';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, addMonths, subMonths, isToday } from 'date-fns';
 import { Task, TaskStatus } from '@/types/task';
+import { describeRecurrence, getTaskSeriesId, getUpcomingOccurrenceDates } from '@/utils/taskRecurrence';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ChevronLeft, ChevronRight, Calendar, Clock } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Calendar, Clock, Repeat } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 
 interface TaskCalendarViewProps {
@@ -35,6 +36,20 @@ export const TaskCalendarView = ({ tasks, onEdit }: TaskCalendarViewProps) => {
   const startDayOfWeek = monthStart.getDay();
   const paddingDays = Array(startDayOfWeek).fill(null);
 
+  // Occurrences of open recurring tasks that will be created later, keyed by due date
+  const upcomingByDate = useMemo(() => {
+    const byDate = new Map<string, Task[]>();
+    const until = endOfMonth(currentMonth);
+    const dueDates = new Map(tasks.map(task => [task.id, task.due_date]));
+    tasks.forEach(task => {
+      const seriesStart = dueDates.get(getTaskSeriesId(task));
+      getUpcomingOccurrenceDates(task, until, undefined, seriesStart).forEach(date => {
+        byDate.set(date, [...(byDate.get(date) || []), task]);
+      });
+    });
+    return byDate;
+  }, [tasks, currentMonth]);
+
   const getTasksForDay = (day: Date) => {
     return tasks.filter(task => {
       if (!task.due_date) return false;
@@ -90,6 +105,9 @@ export const TaskCalendarView = ({ tasks, onEdit }: TaskCalendarViewProps) => {
           {/* Actual days */}
           {daysInMonth.map((day) => {
             const dayTasks = getTasksForDay(day);
+            const upcomingTasks = upcomingByDate.get(format(day, 'yyyy-MM-dd')) || [];
+            const visibleUpcoming = upcomingTasks.slice(0, Math.max(0, 3 - dayTasks.length));
+            const hiddenCount = dayTasks.length + upcomingTasks.length - Math.min(dayTasks.length, 3) - visibleUpcoming.length;
             const isCurrentDay = isToday(day);
 
             return (
@@ -139,9 +157,31 @@ export const TaskCalendarView = ({ tasks, onEdit }: TaskCalendarViewProps) => {
                       </TooltipContent>
                     </Tooltip>
                   ))}
-                  {dayTasks.length > 3 && (
+                  {visibleUpcoming.map((task) => (
+                    <Tooltip key={`${task.id}-upcoming`}>
+                      <TooltipTrigger asChild>
+                        <button
+                          onClick={() => onEdit(task)}
+                          className="w-full text-left text-xs p-1 rounded border-l-2 border-dashed border-l-muted-foreground bg-card/50 text-muted-foreground hover:bg-muted/50 transition-colors truncate"
+                        >
+                          <div className="flex items-center gap-1">
+                            <Repeat className="h-3 w-3 flex-shrink-0" />
+                            <span className="truncate">{task.title}</span>
+                          </div>
+                        </button>
+                      </TooltipTrigger>
+                      <TooltipContent side="right" className="max-w-xs">
+                        <div className="space-y-1">
+                          <p className="font-medium">{task.title}</p>
+                          <p className="text-xs">Upcoming occurrence • {describeRecurrence(task)}</p>
+                          <p className="text-xs text-muted-foreground">Created when the current occurrence is completed</p>
+                        </div>
+                      </TooltipContent>
+                    </Tooltip>
+                  ))}
+                  {hiddenCount > 0 && (
                     <div className="text-xs text-muted-foreground text-center">
-                      +{dayTasks.length - 3} more
+                      +{hiddenCount} more
                     </div>
                   )}
                 </div>
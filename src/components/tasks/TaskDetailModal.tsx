@@ -14,6 +14,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
+import { describeRecurrence, isRecurringTask } from '@/utils/taskRecurrence';
+import { TaskSeriesSection } from './TaskSeriesSection';
 import {
   CheckSquare,
   User,
@@ -29,6 +31,7 @@ import {
   Activity,
   Loader2,
   Plus,
+  Repeat,
 } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -151,6 +154,7 @@ export const TaskDetailModal = ({
 
   const linkedEntity = getLinkedEntity();
   const completedSubtasks = subtasks.filter(s => s.is_completed).length;
+  const inSeries = isRecurringTask(task) || !!task.parent_task_id;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -187,11 +191,12 @@ export const TaskDetailModal = ({
         </DialogHeader>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className={`grid w-full ${inSeries ? 'grid-cols-5' : 'grid-cols-4'}`}>
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="subtasks">
               Subtasks {subtasks.length > 0 && `(${completedSubtasks}/${subtasks.length})`}
             </TabsTrigger>
+            {inSeries && <TabsTrigger value="series">Series</TabsTrigger>}
             <TabsTrigger value="activity">Activity</TabsTrigger>
             <TabsTrigger value="related">Related</TabsTrigger>
           </TabsList>
@@ -216,6 +221,12 @@ export const TaskDetailModal = ({
                       {task.due_time && <span>at {task.due_time}</span>}
                     </div>
                   )}
+                  {isRecurringTask(task) && (
+                    <div className="flex items-center gap-2 text-sm">
+                      <Repeat className="h-4 w-4 text-muted-foreground" />
+                      <span>Repeats: {describeRecurrence(task)}</span>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
 
@@ -323,6 +334,12 @@ export const TaskDetailModal = ({
             </Card>
           </TabsContent>
 
+          {inSeries && (
+            <TabsContent value="series" className="mt-4">
+              <TaskSeriesSection task={task} onEditSeries={onEdit} onStopped={onUpdate} />
+            </TabsContent>
+          )}
+
           <TabsContent value="activity" className="mt-4">
             <Card>
               <CardHeader className="pb-3">
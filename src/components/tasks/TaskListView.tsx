@@ -50,6 +50,7 @@ interface TaskListViewProps {
   onDelete: (taskId: string) => void;
   onStatusChange: (taskId: string, status: TaskStatus) => void;
   onToggleComplete: (task: Task) => void;
+  onRefresh?: () => void;
   initialStatusFilter?: string;
   initialOwnerFilter?: string;
 }
@@ -83,6 +84,7 @@ export const TaskListView = ({
   onDelete,
   onStatusChange,
   onToggleComplete,
+  onRefresh,
   initialStatusFilter = 'all',
   initialOwnerFilter = 'all',
 }: TaskListViewProps) => {
@@ -473,6 +475,7 @@ export const TaskListView = ({
           setViewingTask(null);
           onEdit(task);
         }}
+        onUpdate={onRefresh}
       />
     </div>
   );
@@ -4,7 +4,9 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
-import { Task, CreateTaskData, TaskStatus, TaskPriority, TaskModuleType, TaskModalContext } from '@/types/task';
+import { Task, CreateTaskData, TaskStatus, TaskPriority, TaskModuleType, TaskModalContext, TaskRecurrence } from '@/types/task';
+import { TASK_RECURRENCE_OPTIONS, isRecurringTask } from '@/utils/taskRecurrence';
+import { TASK_REMINDER_OFFSETS, computeReminderDate, getReminderOffsetValue } from '@/utils/taskReminders';
 import { format } from 'date-fns';
 import {
   Dialog,
@@ -48,6 +50,12 @@ const taskSchema = z.object({
   lead_id: z.string().optional(),
   meeting_id: z.string().optional(),
   deal_id: z.string().optional(),
+  recurrence: z.enum(['none', 'daily', 'weekly', 'monthly', 'yearly']),
+  recurrence_end_date: z.string().optional(),
+  reminder_offset: z.string(),
+}).refine(data => !data.recurrence_end_date || data.recurrence === 'none' || data.recurrence_end_date >= data.due_date, {
+  message: 'Must be on or after the due date',
+  path: ['recurrence_end_date'],
 });
 
 type TaskFormData = z.infer<typeof taskSchema>;
@@ -58,6 +66,8 @@ interface TaskModalProps {
   task?: Task | null;
   onSubmit: (data: CreateTaskData) => Promise<any>;
   onUpdate?: (taskId: string, data: Partial<Task>, originalTask?: Task) => Promise<boolean>;
+  // Applies an edit to this and the following occurrences of a recurring task
+  onUpdateSeries?: (task: Task, data: Partial<Task>) => Promise<boolean>;
   context?: TaskModalContext;
 }
 
@@ -67,6 +77,7 @@ export const TaskModal = ({
   task,
   onSubmit,
   onUpdate,
+  onUpdateSeries,
   context,
 }: TaskModalProps) => {
   const { user } = useAuth();
@@ -80,6 +91,7 @@ export const TaskModal = ({
   const [deals, setDeals] = useState<{ id: string; deal_name: string; stage: string }[]>([]);
   const [subtasks, setSubtasks] = useState<SubtaskItem[]>([]);
   const [activeTab, setActiveTab] = useState('details');
+  const [editScope, setEditScope] = useState<'occurrence' | 'series'>('series');
   
   const [selectedContact, setSelectedContact] = useState<typeof contacts[0] | null>(null);
   const [selectedLead, setSelectedLead] = useState<typeof leads[0] | null>(null);
@@ -120,15 +132,22 @@ export const TaskModal = ({
       lead_id: '',
       meeting_id: '',
       deal_id: '',
+      recurrence: 'none',
+      recurrence_end_date: '',
+      reminder_offset: 'none',
     },
   });
 
   const selectedModule = form.watch('module_type');
+  const selectedRecurrence = form.watch('recurrence');
+  const [watchedDueDate, watchedDueTime, selectedReminderOffset] = form.watch(['due_date', 'due_time', 'reminder_offset']);
+  const canEditSeries = !!task && isRecurringTask(task) && !!onUpdateSeries;
 
   useEffect(() => {
     if (open) {
       fetchDropdownData();
       setActiveTab('details');
+      setEditScope('series');
       if (task) {
         form.reset({
           title: task.title,
@@ -144,6 +163,9 @@ export const TaskModal = ({
           lead_id: task.lead_id || '',
           meeting_id: task.meeting_id || '',
           deal_id: task.deal_id || '',
+          recurrence: task.recurrence || 'none',
+          recurrence_end_date: task.recurrence_end_date || '',
+          reminder_offset: getReminderOffsetValue(task.reminder_date, task.due_date, task.due_time),
         });
         fetchSubtasks(task.id);
       } else {
@@ -161,6 +183,9 @@ export const TaskModal = ({
           lead_id: context?.module === 'leads' ? context?.recordId : '',
           meeting_id: context?.module === 'meetings' ? context?.recordId : '',
           deal_id: context?.module === 'deals' ? context?.recordId : '',
+          recurrence: 'none',
+          recurrence_end_date: '',
+          reminder_offset: 'none',
         });
         setSubtasks([]);
       }
@@ -284,16 +309,30 @@ export const TaskModal = ({
     }
   };
 
+  // The reminder time for the chosen offset; a custom (e.g. snoozed) reminder is kept as it is
+  const getReminderDate = (data: Pick<TaskFormData, 'due_date' | 'due_time' | 'reminder_offset'>) => {
+    if (data.reminder_offset === 'none' || !data.due_date) return null;
+    if (data.reminder_offset === 'custom') return task?.reminder_date || null;
+    return computeReminderDate(data.due_date, data.due_time, Number(data.reminder_offset));
+  };
+
+  const reminderPreview = getReminderDate({
+    due_date: watchedDueDate,
+    due_time: watchedDueTime,
+    reminder_offset: selectedReminderOffset,
+  });
+
   const handleSubmit = async (data: TaskFormData) => {
     setLoading(true);
     try {
-      const taskData: CreateTaskData & { due_time?: string } = {
+      const taskData: CreateTaskData = {
         title: data.title,
         description: data.description || undefined,
         status: data.status as TaskStatus,
         priority: data.priority as TaskPriority,
         due_date: data.due_date,
         due_time: data.due_time || undefined,
+        reminder_date: getReminderDate(data),
         assigned_to: data.assigned_to || undefined,
         module_type: data.module_type as TaskModuleType | undefined,
         account_id: data.account_id || undefined,
@@ -301,9 +340,14 @@ export const TaskModal = ({
         lead_id: data.lead_id || undefined,
         meeting_id: data.meeting_id || undefined,
         deal_id: data.deal_id || undefined,
+        recurrence: data.recurrence as TaskRecurrence,
+        recurrence_end_date: data.recurrence !== 'none' && data.recurrence_end_date ? data.recurrence_end_date : null,
       };
 
-      if (task && onUpdate) {
+      if (task && canEditSeries && editScope === 'series') {
+        await onUpdateSeries!(task, taskData);
+        await saveSubtasks(task.id);
+      } else if (task && onUpdate) {
         await onUpdate(task.id, taskData, task);
         await saveSubtasks(task.id);
       } else {
@@ -584,7 +628,7 @@ export const TaskModal = ({
                   />
                 </div>
 
-                {/* Due Time */}
+                {/* Due Time and Recurrence */}
                 <div className="grid grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
@@ -598,9 +642,102 @@ export const TaskModal = ({
                       </FormItem>
                     )}
                   />
-                  <div />
+                  <FormField
+                    control={form.control}
+                    name="recurrence"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Repeat</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {TASK_RECURRENCE_OPTIONS.map(option => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Reminder */}
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="reminder_offset"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Reminder</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {TASK_REMINDER_OFFSETS.map(option => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                            {field.value === 'custom' && (
+                              <SelectItem value="custom">Custom</SelectItem>
+                            )}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  <p className="text-xs text-muted-foreground self-end pb-2">
+                    {reminderPreview
+                      ? `Reminds ${format(new Date(reminderPreview), 'dd/MM/yyyy HH:mm')}${watchedDueTime ? '' : ' (no due time, 09:00 assumed)'}`
+                      : ''}
+                  </p>
                 </div>
 
+                {selectedRecurrence !== 'none' && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="recurrence_end_date"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Repeat Until</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {canEditSeries ? (
+                      <FormItem>
+                        <FormLabel>Apply Changes To</FormLabel>
+                        <Select value={editScope} onValueChange={(value) => setEditScope(value as 'occurrence' | 'series')}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="occurrence">This occurrence only</SelectItem>
+                            <SelectItem value="series">This and future occurrences</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    ) : (
+                      <p className="text-xs text-muted-foreground self-end pb-2">
+                        The next occurrence is created when this one is completed.
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {/* Status & Priority */}
                 <div className="grid grid-cols-2 gap-4">
                   <FormField
@@ -0,0 +1,102 @@
+import { format, parseISO } from 'date-fns';
+import { Task } from '@/types/task';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/hooks/use-toast';
+import { useTaskSeries } from '@/hooks/useTaskSeries';
+import { describeRecurrence, getTaskSeriesId, getUpcomingOccurrenceDates, isRecurringTask } from '@/utils/taskRecurrence';
+import { CheckSquare, Circle, Edit, Loader2, Repeat, StopCircle } from 'lucide-react';
+
+interface TaskSeriesSectionProps {
+  task: Task;
+  onEditSeries: (task: Task) => void;
+  onStopped?: () => void;
+}
+
+const UPCOMING_PREVIEW_COUNT = 5;
+
+export const TaskSeriesSection = ({ task, onEditSeries, onStopped }: TaskSeriesSectionProps) => {
+  const { occurrences, isLoading, stopSeries, isStopping } = useTaskSeries(task);
+
+  // The task passed in may predate a stop, so read the recurrence from the fetched row
+  const current = { ...task, ...occurrences.find(o => o.id === task.id) };
+  const recurring = isRecurringTask(current);
+  const openOccurrence = occurrences.find(o => o.status === 'open' || o.status === 'in_progress');
+  const upcoming = recurring && task.id === openOccurrence?.id
+    ? getUpcomingOccurrenceDates(current, null, UPCOMING_PREVIEW_COUNT, occurrences.find(o => o.id === getTaskSeriesId(task))?.due_date)
+    : [];
+
+  const handleStop = async () => {
+    try {
+      await stopSeries();
+      toast({ title: 'Success', description: 'No further occurrences will be created' });
+      onStopped?.();
+    } catch (error) {
+      console.error('Error stopping task series:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to stop series', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Repeat className="h-4 w-4" />
+            {recurring ? describeRecurrence(current) : 'Series ended'}
+          </CardTitle>
+          {recurring && (
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" className="gap-2" onClick={() => onEditSeries(task)}>
+                <Edit className="h-4 w-4" />
+                Edit Series
+              </Button>
+              <Button variant="outline" size="sm" className="gap-2" onClick={handleStop} disabled={isStopping}>
+                {isStopping ? <Loader2 className="h-4 w-4 animate-spin" /> : <StopCircle className="h-4 w-4" />}
+                Stop Repeating
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-1">
+            {occurrences.map(occurrence => (
+              <div
+                key={occurrence.id}
+                className={`flex items-center gap-3 p-2 rounded-lg ${occurrence.id === task.id ? 'bg-muted/50' : ''}`}
+              >
+                {occurrence.status === 'completed'
+                  ? <CheckSquare className="h-4 w-4 text-green-500" />
+                  : <Circle className="h-4 w-4 text-muted-foreground" />}
+                <span className="text-sm flex-1">
+                  {occurrence.due_date ? format(parseISO(occurrence.due_date), 'dd/MM/yyyy') : 'No due date'}
+                </span>
+                {occurrence.id === task.id && <Badge variant="outline">This task</Badge>}
+                <Badge variant="secondary" className="capitalize">{occurrence.status.replace('_', ' ')}</Badge>
+              </div>
+            ))}
+            {upcoming.map(date => (
+              <div key={date} className="flex items-center gap-3 p-2 rounded-lg text-muted-foreground">
+                <Repeat className="h-4 w-4" />
+                <span className="text-sm flex-1">{format(parseISO(date), 'dd/MM/yyyy')}</span>
+                <Badge variant="outline">Upcoming</Badge>
+              </div>
+            ))}
+            {recurring && (
+              <p className="text-xs text-muted-foreground pt-2">
+                Each occurrence is created when the previous one is completed, with the same assignee, linked record and subtasks.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
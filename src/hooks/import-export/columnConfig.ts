@@ -79,6 +79,7 @@ export const getColumnConfig = (table: string): ColumnConfig => {
         'city',
         'state',
         'country',
+        'company_size',
         'description',
         'contact_owner',
         'lead_owner'
@@ -86,7 +87,6 @@ export const getColumnConfig = (table: string): ColumnConfig => {
       required: ['lead_name', 'contact_owner'],
       enums: {
         contact_source: ['Website', 'Referral', 'Cold Call', 'Email', 'Social Media', 'Trade Show', 'Other'],
-        lead_status: ['New', 'Contacted', 'Qualified', 'Lost'],
         industry: ['Automotive', 'Technology', 'Healthcare', 'Finance', 'Manufacturing', 'Retail', 'Other']
       }
     },
@@ -162,7 +162,6 @@ export const getColumnConfig = (table: string): ColumnConfig => {
       ],
       required: ['deal_name', 'stage'],
       enums: {
-        stage: ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'],
         currency_type: ['EUR', 'USD', 'INR'],
         customer_challenges: ['Open', 'Ongoing', 'Done'],
         relationship_strength: ['Low', 'Medium', 'High'],
@@ -1,6 +1,8 @@
 
 import { GenericCSVExporter } from './genericCSVExporter';
 import { supabase } from '@/integrations/supabase/client';
+import { fetchCurrencySettings } from '@/hooks/useCurrencyConversion';
+import { createCurrencyConverter, getDealConversionDate } from '@/utils/currencyConversion';
 
 // Exact field order as specified, including action items
 const DEALS_EXPORT_FIELDS = [
@@ -13,7 +15,9 @@ const DEALS_EXPORT_FIELDS = [
   'total_contract_value', 'project_duration', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 
   'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue', 'closing', 
   'signed_contract_date', 'implementation_start_date', 'handoff_status', 
-  'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items_json'
+  'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items_json',
+  // Converted values for reporting; ignored on import
+  'reporting_currency', 'total_contract_value_reporting', 'total_revenue_reporting'
 ];
 
 export class DealsCSVExporter {
@@ -52,10 +56,22 @@ export class DealsCSVExporter {
       return acc;
     }, {} as Record<string, any[]>);
 
+    const { periods, reportingCurrency } = await fetchCurrencySettings();
+    const converter = createCurrencyConverter(periods, reportingCurrency);
+    // Blank when there's no amount or no exchange rate for the deal's currency
+    const toReporting = (amount: number | null, deal: { currency_type?: string | null; signed_contract_date?: string | null; expected_closing_date?: string | null }) => {
+      if (!amount) return '';
+      const converted = converter.convert(amount, deal.currency_type, getDealConversionDate(deal));
+      return converted.converted ? Math.round(converted.amount * 100) / 100 : '';
+    };
+
     // Combine deals with their action items and ensure date format consistency
     const dealsWithActionItems = deals.map(deal => ({
       ...deal,
-      action_items_json: JSON.stringify(actionItemsByDeal[deal.id] || [])
+      action_items_json: JSON.stringify(actionItemsByDeal[deal.id] || []),
+      reporting_currency: reportingCurrency,
+      total_contract_value_reporting: toReporting(deal.total_contract_value, deal),
+      total_revenue_reporting: toReporting(deal.total_revenue, deal)
     }));
 
     await this.genericExporter.exportToCSV(dealsWithActionItems, filename, DEALS_EXPORT_FIELDS);
@@ -3,6 +3,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { CSVParser } from '@/utils/csvParser';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { createPipelineHelpers, fetchPipelineStages } from '@/hooks/usePipelineStages';
 
 export interface DealsProcessingOptions {
   userId: string;
@@ -18,6 +19,7 @@ export interface DealsProcessingResult {
 
 export class DealsCSVProcessor {
   private userIdMap: Record<string, string> = {};
+  private pipeline = createPipelineHelpers([]);
 
   async processCSV(csvText: string, options: DealsProcessingOptions): Promise<DealsProcessingResult> {
     console.log('DealsCSVProcessor: Starting processing with standardized YYYY-MM-DD date format');
@@ -35,6 +37,9 @@ export class DealsCSVProcessor {
       this.userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
       console.log('DealsCSVProcessor: Fetched user IDs for', Object.keys(this.userIdMap).length, 'users');
 
+      // Stages are matched against the configured pipeline stages
+      this.pipeline = createPipelineHelpers(await fetchPipelineStages());
+
       const result: DealsProcessingResult = {
         successCount: 0,
         updateCount: 0,
@@ -124,6 +129,12 @@ export class DealsCSVProcessor {
           continue;
         }
 
+        if (dealRecord.stage && !this.pipeline.getStage(dealRecord.stage)) {
+          result.errorCount++;
+          result.errors.push(`Row ${actualRowNumber}: Unknown stage "${dealRecord.stage}". Valid stages: ${this.pipeline.stageNames.join(', ')}`);
+          continue;
+        }
+
         // Check for existing deal by name
         const { data: existingDeals } = await supabase
           .from('deals')
@@ -151,7 +162,7 @@ export class DealsCSVProcessor {
           // Insert new deal
           const dealToInsert = {
             deal_name: dealRecord.deal_name,
-            stage: dealRecord.stage || 'Lead',
+            stage: dealRecord.stage || this.pipeline.firstStageName,
             project_name: dealRecord.project_name,
             customer_name: dealRecord.customer_name,
             lead_name: dealRecord.lead_name,
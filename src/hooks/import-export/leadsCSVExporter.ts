@@ -20,6 +20,7 @@ export class LeadsCSVExporter {
       'lead_status',
       'industry',
       'country',
+      'company_size',
       'description',
       'contact_owner',
       'created_by',
@@ -3,6 +3,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { CSVParser } from '@/utils/csvParser';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { createLeadStatusHelpers, fetchLeadStatuses } from '@/hooks/useLeadStatuses';
 
 export interface LeadsProcessingOptions {
   userId: string;
@@ -18,6 +19,7 @@ export interface LeadsProcessingResult {
 
 export class LeadsCSVProcessor {
   private userIdMap: Record<string, string> = {};
+  private leadStatuses = createLeadStatusHelpers([]);
 
   async processCSV(csvText: string, options: LeadsProcessingOptions): Promise<LeadsProcessingResult> {
     console.log('LeadsCSVProcessor: Starting processing');
@@ -35,6 +37,9 @@ export class LeadsCSVProcessor {
       this.userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
       console.log('LeadsCSVProcessor: Fetched user IDs for', Object.keys(this.userIdMap).length, 'users');
 
+      // Statuses are matched against the configured lead statuses
+      this.leadStatuses = createLeadStatusHelpers(await fetchLeadStatuses());
+
       const result: LeadsProcessingResult = {
         successCount: 0,
         updateCount: 0,
@@ -111,6 +116,16 @@ export class LeadsCSVProcessor {
           continue;
         }
 
+        if (leadRecord.lead_status !== undefined) {
+          const status = this.leadStatuses.getStatus(leadRecord.lead_status);
+          if (!status) {
+            result.errorCount++;
+            result.errors.push(`Unknown lead status "${leadRecord.lead_status}" for ${leadRecord.lead_name}. Valid statuses: ${this.leadStatuses.statusNames.join(', ')}`);
+            continue;
+          }
+          leadRecord.lead_status = status.status_name;
+        }
+
         let leadId: string;
         let isUpdate = false;
 
@@ -222,6 +237,7 @@ export class LeadsCSVProcessor {
       'lead_status': 'lead_status',
       'industry': 'industry',
       'country': 'country',
+      'company_size': 'company_size',
       'description': 'description'
     };
 
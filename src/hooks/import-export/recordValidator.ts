@@ -1,7 +1,8 @@
 
 import { getColumnConfig } from './columnConfig';
 
-export const createRecordValidator = (tableName: string) => {
+// Deals are validated against the configured pipeline stage names, passed in by the caller
+export const createRecordValidator = (tableName: string, validStages: string[] = []) => {
   const config = getColumnConfig(tableName);
 
   return (record: any): boolean => {
@@ -10,7 +11,6 @@ export const createRecordValidator = (tableName: string) => {
     if (tableName === 'deals') {
       // Check if we have the basic required fields
       const hasValidDealName = record.deal_name && typeof record.deal_name === 'string' && record.deal_name.trim() !== '';
-      const validStages = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
       const hasValidStage = record.stage && validStages.includes(record.stage);
       
       console.log(`Import validation - deal_name: "${record.deal_name}", stage: "${record.stage}"`);
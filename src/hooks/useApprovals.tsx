@@ -0,0 +1,191 @@
+import { useCallback, useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserRole } from "@/hooks/useUserRole";
+
+export type ApprovalEntityType = 'deals' | 'leads' | 'accounts';
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected';
+export type ApprovalDecision = 'approved' | 'rejected';
+
+export interface ApprovalStep {
+  step: number;
+  role: string;
+  user_id?: string;
+}
+
+export interface ApprovalAction {
+  id: string;
+  request_id: string | null;
+  step_number: number;
+  approver_id: string;
+  action: ApprovalDecision;
+  comments: string | null;
+  acted_at: string | null;
+}
+
+export interface ApprovalRequest {
+  id: string;
+  workflow_id: string | null;
+  workflow_name: string;
+  approval_steps: ApprovalStep[];
+  entity_type: ApprovalEntityType;
+  entity_id: string;
+  entity_label: string;
+  current_step: number;
+  status: ApprovalStatus;
+  requested_changes: Record<string, unknown> | null;
+  submitted_by: string | null;
+  submitted_at: string | null;
+  completed_at: string | null;
+  actions: ApprovalAction[];
+}
+
+// The field each entity type's workflows can guard (see approval_guard_field in the database)
+export const APPROVAL_GUARD_FIELDS: Record<ApprovalEntityType, string> = {
+  deals: 'stage',
+  leads: 'lead_status',
+  accounts: 'status',
+};
+
+export const APPROVAL_REQUESTS_QUERY_KEY = ['approval-requests'];
+
+type EntityRow = Record<string, string | null>;
+
+const ENTITY_LABEL_SOURCES: Record<ApprovalEntityType, { table: ApprovalEntityType; columns: string; label: (row: EntityRow) => string }> = {
+  deals: { table: 'deals', columns: 'id, project_name, deal_name', label: row => row.project_name || row.deal_name },
+  leads: { table: 'leads', columns: 'id, lead_name', label: row => row.lead_name },
+  accounts: { table: 'accounts', columns: 'id, company_name', label: row => row.company_name },
+};
+
+const fetchEntityLabels = async (entityType: ApprovalEntityType, ids: string[]) => {
+  if (ids.length === 0) return {};
+
+  const source = ENTITY_LABEL_SOURCES[entityType];
+  const { data, error } = await supabase
+    .from(source.table)
+    .select(source.columns)
+    .in('id', ids);
+
+  if (error) {
+    console.error(`Error fetching ${entityType} for approvals:`, error);
+    return {};
+  }
+
+  const rows = (data || []) as unknown as EntityRow[];
+  return Object.fromEntries(rows.map(row => [row.id, source.label(row)]));
+};
+
+const fetchApprovalRequests = async (): Promise<ApprovalRequest[]> => {
+  const { data, error } = await supabase
+    .from('approval_requests')
+    .select('*, approval_workflows(name, approval_steps), approval_actions(*)')
+    .order('submitted_at', { ascending: false });
+
+  if (error) throw error;
+
+  const rows = data || [];
+  const idsByType = (entityType: ApprovalEntityType) =>
+    [...new Set(rows.filter(row => row.entity_type === entityType).map(row => row.entity_id))];
+
+  const [dealLabels, leadLabels, accountLabels] = await Promise.all([
+    fetchEntityLabels('deals', idsByType('deals')),
+    fetchEntityLabels('leads', idsByType('leads')),
+    fetchEntityLabels('accounts', idsByType('accounts')),
+  ]);
+  const labels: Record<string, Record<string, string>> = { deals: dealLabels, leads: leadLabels, accounts: accountLabels };
+
+  return rows.map(row => ({
+    id: row.id,
+    workflow_id: row.workflow_id,
+    workflow_name: row.approval_workflows?.name || 'Deleted workflow',
+    approval_steps: (row.approval_workflows?.approval_steps as unknown as ApprovalStep[]) || [],
+    entity_type: row.entity_type as ApprovalEntityType,
+    entity_id: row.entity_id,
+    entity_label: labels[row.entity_type]?.[row.entity_id] || 'Untitled',
+    current_step: row.current_step ?? 1,
+    status: (row.status || 'pending') as ApprovalStatus,
+    requested_changes: row.requested_changes as Record<string, unknown> | null,
+    submitted_by: row.submitted_by,
+    submitted_at: row.submitted_at,
+    completed_at: row.completed_at,
+    actions: ((row.approval_actions || []) as ApprovalAction[])
+      .sort((a, b) => (a.acted_at || '').localeCompare(b.acted_at || '')),
+  }));
+};
+
+// The guarded value the database held back for approval, if the saved record didn't take the requested one
+export const getHeldApprovalChange = (
+  entityType: ApprovalEntityType,
+  requested: object,
+  saved: object | null | void
+): string | null => {
+  const field = APPROVAL_GUARD_FIELDS[entityType];
+  const requestedValue = (requested as Record<string, unknown>)[field];
+  if (!saved || requestedValue === undefined || requestedValue === (saved as Record<string, unknown>)[field]) return null;
+  return String(requestedValue);
+};
+
+export const useApprovalRequests = () => {
+  const { data: requests = [], isLoading, refetch } = useQuery({
+    queryKey: APPROVAL_REQUESTS_QUERY_KEY,
+    queryFn: fetchApprovalRequests,
+    staleTime: 30 * 1000,
+  });
+
+  // Requests are newest first, so the first one seen for a record is its latest
+  const latestByEntity = useMemo(() => {
+    const latest = new Map<string, ApprovalRequest>();
+    requests.forEach(request => {
+      const key = `${request.entity_type}:${request.entity_id}`;
+      if (!latest.has(key)) latest.set(key, request);
+    });
+    return latest;
+  }, [requests]);
+
+  const getLatestRequest = useCallback(
+    (entityType: ApprovalEntityType, entityId: string) => latestByEntity.get(`${entityType}:${entityId}`),
+    [latestByEntity]
+  );
+
+  return { requests, isLoading, refetch, getLatestRequest };
+};
+
+export const useApprovals = () => {
+  const { user } = useAuth();
+  const { userRole, isAdmin } = useUserRole();
+  const queryClient = useQueryClient();
+  const approvalRequests = useApprovalRequests();
+
+  const canActOn = useCallback((request: ApprovalRequest) => {
+    if (!user || request.status !== 'pending') return false;
+    if (isAdmin) return true;
+
+    const step = request.approval_steps.find(s => s.step === request.current_step);
+    if (!step) return false;
+    return step.user_id ? step.user_id === user.id : step.role === userRole;
+  }, [user, isAdmin, userRole]);
+
+  const decisionMutation = useMutation({
+    mutationFn: async ({ requestId, action, comments }: { requestId: string; action: ApprovalDecision; comments?: string }) => {
+      const { data, error } = await supabase.rpc('act_on_approval_request', {
+        p_request_id: requestId,
+        p_action: action,
+        p_comments: comments || undefined,
+      });
+
+      if (error) throw error;
+      return data as ApprovalStatus;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: APPROVAL_REQUESTS_QUERY_KEY });
+    },
+  });
+
+  return {
+    ...approvalRequests,
+    canActOn,
+    actOnRequest: decisionMutation.mutateAsync,
+    isActing: decisionMutation.isPending,
+  };
+};
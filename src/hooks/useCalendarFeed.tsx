@@ -0,0 +1,61 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+
+export const CALENDAR_FEED_QUERY_KEY = ['calendar-feed-token'];
+
+export const getCalendarFeedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+
+// The signed-in user's read-only calendar subscription (meetings and task due dates)
+export const useCalendarFeed = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const { data: feed, isLoading } = useQuery({
+    queryKey: [...CALENDAR_FEED_QUERY_KEY, user?.id],
+    enabled: !!user?.id,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('calendar_feed_tokens')
+        .select('id, token, last_accessed_at, created_at')
+        .eq('user_id', user!.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: CALENDAR_FEED_QUERY_KEY });
+
+  // The token is generated by the database; rotating replaces the row so the old URL stops working
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const { error: deleteError } = await supabase.from('calendar_feed_tokens').delete().eq('user_id', user!.id);
+      if (deleteError) throw deleteError;
+
+      const { error } = await supabase.from('calendar_feed_tokens').insert({ user_id: user!.id });
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('calendar_feed_tokens').delete().eq('user_id', user!.id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    feed: feed ?? null,
+    feedUrl: feed ? getCalendarFeedUrl(feed.token) : null,
+    isLoading,
+    createFeed: createMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    disableFeed: disableMutation.mutateAsync,
+    isDisabling: disableMutation.isPending,
+  };
+};
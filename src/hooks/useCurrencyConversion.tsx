@@ -0,0 +1,73 @@
+import { useCallback, useMemo } from "react";
+import { QueryClient, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { createCurrencyConverter, DEFAULT_DEAL_CURRENCY, DEFAULT_REPORTING_CURRENCY, RatePeriod } from "@/utils/currencyConversion";
+import { formatCurrency } from "@/utils/formatUtils";
+
+export const CURRENCY_SETTINGS_QUERY_KEY = ['currency-settings'];
+const CURRENCY_STALE_TIME = 5 * 60 * 1000; // 5 minutes
+
+interface CurrencySettings {
+  reportingCurrency: string;
+  periods: RatePeriod[];
+}
+
+export const fetchCurrencySettings = async (): Promise<CurrencySettings> => {
+  const { data: settings, error: settingsError } = await supabase
+    .from('currency_settings')
+    .select('reporting_currency')
+    .limit(1)
+    .maybeSingle();
+  if (settingsError) console.error('Error fetching currency settings:', settingsError);
+
+  const reportingCurrency = settings?.reporting_currency || DEFAULT_REPORTING_CURRENCY;
+  const { data: periods, error: periodsError } = await supabase.rpc('currency_rate_periods', { p_to: reportingCurrency });
+  if (periodsError) console.error('Error fetching exchange rates:', periodsError);
+
+  return { reportingCurrency, periods: periods || [] };
+};
+
+// For use inside other queryFns, so rollups share the cached rates with useCurrencyConversion
+export const getCurrencyConverter = async (queryClient: QueryClient) => {
+  const { reportingCurrency, periods } = await queryClient.fetchQuery({
+    queryKey: CURRENCY_SETTINGS_QUERY_KEY,
+    queryFn: fetchCurrencySettings,
+    staleTime: CURRENCY_STALE_TIME,
+  });
+  return createCurrencyConverter(periods, reportingCurrency);
+};
+
+export const useCurrencyConversion = () => {
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: CURRENCY_SETTINGS_QUERY_KEY,
+    queryFn: fetchCurrencySettings,
+    staleTime: CURRENCY_STALE_TIME,
+  });
+
+  const converter = useMemo(
+    () => createCurrencyConverter(data?.periods || [], data?.reportingCurrency || DEFAULT_REPORTING_CURRENCY),
+    [data]
+  );
+
+  // Original amount, followed by its reporting currency value when it's in another currency,
+  // or a note that it can't be converted yet
+  const formatWithConversion = useCallback((
+    amount: number,
+    currency?: string | null,
+    date?: Date | string | null
+  ) => {
+    const original = currency || DEFAULT_DEAL_CURRENCY;
+    const converted = converter.convert(amount, original, date);
+    if (!converted.converted) {
+      return `${formatCurrency(amount, original)} (no ${converter.reportingCurrency} rate)`;
+    }
+    return formatCurrency(amount, original, converted);
+  }, [converter]);
+
+  return {
+    ...converter,
+    formatWithConversion,
+    isLoading,
+    refetch,
+  };
+};
@@ -0,0 +1,156 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { SearchableSelectOption } from "@/components/shared/SearchableSelect";
+
+export const DEAL_CONTACT_ROLES = [
+  'Decision Maker',
+  'Economic Buyer',
+  'Champion',
+  'Influencer',
+  'Technical Evaluator',
+  'End User',
+  'Other',
+] as const;
+
+export interface DealAccountOption {
+  id: string;
+  company_name: string;
+  region: string | null;
+  country: string | null;
+}
+
+export interface DealContactOption {
+  id: string;
+  contact_name: string;
+  company_name: string | null;
+  position: string | null;
+  account_id: string | null;
+}
+
+export interface DealContact {
+  id: string;
+  deal_id: string;
+  contact_id: string;
+  role: string;
+  notes: string | null;
+  contact: DealContactOption | null;
+}
+
+export const DEAL_ACCOUNT_OPTIONS_QUERY_KEY = ['deal-account-options'];
+export const DEAL_CONTACT_OPTIONS_QUERY_KEY = ['deal-contact-options'];
+export const DEAL_CONTACTS_QUERY_KEY = ['deal-contacts'];
+
+export const toAccountOption = (account: DealAccountOption): SearchableSelectOption => ({
+  value: account.id,
+  label: account.company_name,
+  description: [account.region, account.country].filter(Boolean).join(' · ') || undefined,
+});
+
+export const toContactOption = (contact: DealContactOption): SearchableSelectOption => ({
+  value: contact.id,
+  label: contact.contact_name,
+  description: [contact.position, contact.company_name].filter(Boolean).join(' · ') || undefined,
+});
+
+export const useDealAccountOptions = () => {
+  const { data: accounts = [], isLoading } = useQuery({
+    queryKey: DEAL_ACCOUNT_OPTIONS_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('id, company_name, region, country')
+        .order('company_name');
+
+      if (error) throw error;
+      return (data || []) as DealAccountOption[];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return { accounts, isLoading };
+};
+
+export const useDealContactOptions = () => {
+  const { data: contacts = [], isLoading } = useQuery({
+    queryKey: DEAL_CONTACT_OPTIONS_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('contacts')
+        .select('id, contact_name, company_name, position, account_id')
+        .order('contact_name');
+
+      if (error) throw error;
+      return (data || []) as DealContactOption[];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return { contacts, isLoading };
+};
+
+// Everyone on a deal besides its primary contact, with the part they play
+export const useDealContacts = (dealId: string | undefined) => {
+  const queryClient = useQueryClient();
+  const queryKey = [...DEAL_CONTACTS_QUERY_KEY, dealId];
+
+  const { data: dealContacts = [], isLoading } = useQuery({
+    queryKey,
+    enabled: !!dealId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('deal_contacts')
+        .select('id, deal_id, contact_id, role, notes, contact:contacts(id, contact_name, company_name, position, account_id)')
+        .eq('deal_id', dealId!)
+        .order('created_at');
+
+      if (error) throw error;
+      return (data || []) as DealContact[];
+    },
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey });
+
+  const addMutation = useMutation({
+    mutationFn: async ({ contactId, role }: { contactId: string; role: string }) => {
+      const { error } = await supabase
+        .from('deal_contacts')
+        .insert({ deal_id: dealId!, contact_id: contactId, role });
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: string }) => {
+      const { error } = await supabase
+        .from('deal_contacts')
+        .update({ role })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('deal_contacts')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    dealContacts,
+    isLoading,
+    addContact: addMutation.mutateAsync,
+    updateRole: updateRoleMutation.mutateAsync,
+    removeContact: removeMutation.mutateAsync,
+    isSaving: addMutation.isPending || updateRoleMutation.isPending || removeMutation.isPending,
+  };
+};
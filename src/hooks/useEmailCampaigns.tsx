@@ -0,0 +1,204 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchSuppressedEmails } from "@/hooks/useEmailSuppressions";
+import { useAuth } from "@/hooks/useAuth";
+
+export const EMAIL_CAMPAIGNS_QUERY_KEY = ['email-campaigns'];
+
+// Progress is polled while something is still sending
+const ACTIVE_REFRESH_MS = 10 * 1000;
+
+export type EmailCampaignStatus = 'sending' | 'paused' | 'completed' | 'cancelled';
+
+export interface EmailCampaignStats {
+  total: number;
+  pending: number;
+  sent: number;
+  failed: number;
+  cancelled: number;
+  opened: number;
+  clicked: number;
+}
+
+export interface EmailCampaign {
+  id: string;
+  name: string;
+  subject: string;
+  body: string | null;
+  sender_email: string;
+  status: EmailCampaignStatus;
+  send_rate_per_minute: number;
+  max_attempts: number;
+  started_at: string;
+  completed_at: string | null;
+  created_at: string;
+  stats: EmailCampaignStats;
+}
+
+export interface EmailCampaignRecipientInput {
+  email: string;
+  name?: string;
+  leadId?: string;
+  contactId?: string;
+}
+
+export interface NewEmailCampaign {
+  name: string;
+  subject: string;
+  body: string;
+  senderEmail: string;
+  templateId?: string | null;
+  sendRatePerMinute: number;
+  recipients: EmailCampaignRecipientInput[];
+}
+
+const EMPTY_STATS: EmailCampaignStats = { total: 0, pending: 0, sent: 0, failed: 0, cancelled: 0, opened: 0, clicked: 0 };
+
+// Sends the first batch now instead of waiting for the next cron run. Not awaited: the function
+// paces its batch over most of a minute.
+const startProcessing = (campaignId: string) => {
+  supabase.functions.invoke('process-email-campaigns', { body: { campaignId } }).then(({ error }) => {
+    if (error) console.error('Error starting campaign processing:', error);
+  });
+};
+
+export const useEmailCampaigns = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const { data: campaigns = [], isLoading, refetch } = useQuery({
+    queryKey: EMAIL_CAMPAIGNS_QUERY_KEY,
+    queryFn: async (): Promise<EmailCampaign[]> => {
+      const [{ data, error }, { data: stats, error: statsError }] = await Promise.all([
+        supabase.from('email_campaigns').select('*').order('created_at', { ascending: false }),
+        supabase.rpc('get_email_campaign_stats'),
+      ]);
+
+      if (error) throw error;
+      if (statsError) throw statsError;
+
+      const statsByCampaign = new Map((stats || []).map(row => [row.campaign_id, row]));
+      return (data || []).map(campaign => {
+        const row = statsByCampaign.get(campaign.id);
+        return {
+          ...campaign,
+          status: campaign.status as EmailCampaignStatus,
+          stats: row
+            ? {
+                total: Number(row.total),
+                pending: Number(row.pending),
+                sent: Number(row.sent),
+                failed: Number(row.failed),
+                cancelled: Number(row.cancelled),
+                opened: Number(row.opened),
+                clicked: Number(row.clicked),
+              }
+            : EMPTY_STATS,
+        };
+      });
+    },
+    refetchInterval: (query) =>
+      query.state.data?.some(campaign => campaign.status === 'sending') ? ACTIVE_REFRESH_MS : false,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: EMAIL_CAMPAIGNS_QUERY_KEY });
+
+  const createMutation = useMutation({
+    mutationFn: async (campaign: NewEmailCampaign) => {
+      // One queue entry per address, even if a lead and a contact share it
+      const recipients = new Map<string, EmailCampaignRecipientInput>();
+      campaign.recipients.forEach(recipient => {
+        const key = recipient.email.trim().toLowerCase();
+        if (key && !recipients.has(key)) recipients.set(key, recipient);
+      });
+
+      // Unsubscribed, bounced and blocked addresses are left out of the queue
+      const suppressed = await fetchSuppressedEmails([...recipients.keys()]);
+      suppressed.forEach((_reason, email) => recipients.delete(email));
+      if (recipients.size === 0) throw new Error('Every recipient is on the suppression list');
+
+      const { data, error } = await supabase
+        .from('email_campaigns')
+        .insert({
+          name: campaign.name,
+          subject: campaign.subject,
+          body: campaign.body,
+          sender_email: campaign.senderEmail,
+          template_id: campaign.templateId || null,
+          send_rate_per_minute: campaign.sendRatePerMinute,
+          created_by: user?.id,
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      const { error: recipientsError } = await supabase.from('email_campaign_recipients').insert(
+        [...recipients.values()].map(recipient => ({
+          campaign_id: data.id,
+          recipient_email: recipient.email.trim(),
+          recipient_name: recipient.name || null,
+          lead_id: recipient.leadId || null,
+          contact_id: recipient.contactId || null,
+        }))
+      );
+
+      if (recipientsError) {
+        await supabase.from('email_campaigns').delete().eq('id', data.id);
+        throw recipientsError;
+      }
+
+      startProcessing(data.id);
+      return { id: data.id, queued: recipients.size, suppressed: suppressed.size };
+    },
+    onSuccess: invalidate,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: 'sending' | 'paused' | 'cancelled' }) => {
+      const { error } = await supabase.from('email_campaigns').update({ status }).eq('id', id);
+      if (error) throw error;
+
+      if (status === 'cancelled') {
+        const { error: recipientsError } = await supabase
+          .from('email_campaign_recipients')
+          .update({ status: 'cancelled' })
+          .eq('campaign_id', id)
+          .eq('status', 'pending');
+        if (recipientsError) throw recipientsError;
+      }
+
+      if (status === 'sending') startProcessing(id);
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    campaigns,
+    isLoading,
+    refetch,
+    createCampaign: createMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    setCampaignStatus: statusMutation.mutateAsync,
+    isUpdatingStatus: statusMutation.isPending,
+  };
+};
+
+// Per-recipient delivery and engagement for the campaign report
+export const useEmailCampaignRecipients = (campaignId: string | null, refresh: boolean) => {
+  return useQuery({
+    queryKey: [...EMAIL_CAMPAIGNS_QUERY_KEY, campaignId, 'recipients'],
+    enabled: !!campaignId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('email_campaign_recipients')
+        .select('id, recipient_email, recipient_name, status, attempts, last_error, next_attempt_at, sent_at, email_history:email_history_id(open_count, click_count, opened_at, clicked_at)')
+        .eq('campaign_id', campaignId!)
+        .order('created_at');
+
+      if (error) throw error;
+      return data || [];
+    },
+    refetchInterval: refresh ? ACTIVE_REFRESH_MS : false,
+  });
+};
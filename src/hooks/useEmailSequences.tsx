@@ -0,0 +1,278 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { fetchSuppressedEmails, normalizeEmail } from "@/hooks/useEmailSuppressions";
+
+export const EMAIL_SEQUENCES_QUERY_KEY = ['email-sequences'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type EmailSequenceStepType = 'email' | 'task';
+
+export type EmailSequenceEnrollmentStatus = 'active' | 'completed' | 'replied' | 'meeting_booked' | 'stopped' | 'failed';
+
+export interface EmailSequenceStep {
+  step_type: EmailSequenceStepType;
+  delay_days: number;
+  template_id: string | null;
+  task_title: string | null;
+  task_description: string | null;
+}
+
+export interface EmailSequenceStats {
+  enrolled: number;
+  active: number;
+  completed: number;
+  replied: number;
+  meeting_booked: number;
+  stopped: number;
+  failed: number;
+  emails_sent: number;
+  opened: number;
+  clicked: number;
+}
+
+export interface EmailSequence {
+  id: string;
+  name: string;
+  description: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  steps: EmailSequenceStep[];
+  stats: EmailSequenceStats;
+}
+
+export interface EmailSequenceInput {
+  id?: string;
+  name: string;
+  description: string;
+  steps: EmailSequenceStep[];
+}
+
+export interface EmailSequenceEnrollee {
+  email?: string;
+  name?: string;
+  leadId?: string;
+  contactId?: string;
+}
+
+const EMPTY_STATS: EmailSequenceStats = {
+  enrolled: 0, active: 0, completed: 0, replied: 0, meeting_booked: 0, stopped: 0, failed: 0, emails_sent: 0, opened: 0, clicked: 0,
+};
+
+export const useEmailSequences = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const { data: sequences = [], isLoading, refetch } = useQuery({
+    queryKey: EMAIL_SEQUENCES_QUERY_KEY,
+    queryFn: async (): Promise<EmailSequence[]> => {
+      const [{ data, error }, { data: stats, error: statsError }] = await Promise.all([
+        supabase
+          .from('email_sequences')
+          .select('id, name, description, is_active, created_by, created_at, email_sequence_steps(position, step_type, delay_days, template_id, task_title, task_description)')
+          .order('created_at', { ascending: false }),
+        supabase.rpc('get_email_sequence_stats'),
+      ]);
+
+      if (error) throw error;
+      if (statsError) throw statsError;
+
+      const statsBySequence = new Map((stats || []).map(row => [row.sequence_id, row]));
+      return (data || []).map(({ email_sequence_steps, ...sequence }) => {
+        const row = statsBySequence.get(sequence.id);
+        return {
+          ...sequence,
+          steps: [...email_sequence_steps]
+            .sort((a, b) => a.position - b.position)
+            .map(({ position: _position, ...step }) => ({ ...step, step_type: step.step_type as EmailSequenceStepType })),
+          stats: row
+            ? {
+                enrolled: Number(row.enrolled),
+                active: Number(row.active),
+                completed: Number(row.completed),
+                replied: Number(row.replied),
+                meeting_booked: Number(row.meeting_booked),
+                stopped: Number(row.stopped),
+                failed: Number(row.failed),
+                emails_sent: Number(row.emails_sent),
+                opened: Number(row.opened),
+                clicked: Number(row.clicked),
+              }
+            : EMPTY_STATS,
+        };
+      });
+    },
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: EMAIL_SEQUENCES_QUERY_KEY });
+
+  // Steps are written over by position and only the ones past the new end are removed, so a failed
+  // save never leaves a sequence without steps. Enrolments refer to steps by position, so in-flight
+  // enrolments pick up the edited steps from where they are
+  const saveMutation = useMutation({
+    mutationFn: async (input: EmailSequenceInput) => {
+      let sequenceId = input.id;
+      if (sequenceId) {
+        const { error } = await supabase
+          .from('email_sequences')
+          .update({ name: input.name, description: input.description || null })
+          .eq('id', sequenceId);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('email_sequences')
+          .insert({ name: input.name, description: input.description || null, created_by: user?.id })
+          .select('id')
+          .single();
+        if (error) throw error;
+        sequenceId = data.id;
+      }
+
+      if (input.steps.length > 0) {
+        const { error: stepsError } = await supabase.from('email_sequence_steps').upsert(
+          input.steps.map((step, position) => ({
+            sequence_id: sequenceId!,
+            position,
+            step_type: step.step_type,
+            delay_days: step.delay_days,
+            template_id: step.step_type === 'email' ? step.template_id : null,
+            task_title: step.step_type === 'task' ? step.task_title : null,
+            task_description: step.step_type === 'task' ? step.task_description : null,
+          })),
+          { onConflict: 'sequence_id,position' }
+        );
+        if (stepsError) throw stepsError;
+      }
+
+      if (input.id) {
+        const { error: deleteError } = await supabase
+          .from('email_sequence_steps')
+          .delete()
+          .eq('sequence_id', sequenceId!)
+          .gte('position', input.steps.length);
+        if (deleteError) throw deleteError;
+      }
+
+      return sequenceId!;
+    },
+    onSuccess: invalidate,
+  });
+
+  const setActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const { error } = await supabase.from('email_sequences').update({ is_active: isActive }).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('email_sequences').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  // Records without an email address, on the suppression list, or already running through the sequence are skipped
+  const enrollMutation = useMutation({
+    mutationFn: async ({ sequence, enrollees }: { sequence: EmailSequence; enrollees: EmailSequenceEnrollee[] }) => {
+      const suppressed = await fetchSuppressedEmails(enrollees.map(enrollee => enrollee.email || ''));
+      const withEmail = enrollees.filter(enrollee =>
+        enrollee.email?.trim() && (enrollee.leadId || enrollee.contactId) && !suppressed.has(normalizeEmail(enrollee.email))
+      );
+      const leadIds = withEmail.map(e => e.leadId).filter((id): id is string => !!id);
+      const contactIds = withEmail.map(e => e.contactId).filter((id): id is string => !!id);
+
+      const { data: running, error: runningError } = await supabase
+        .from('email_sequence_enrollments')
+        .select('lead_id, contact_id')
+        .eq('sequence_id', sequence.id)
+        .eq('status', 'active')
+        .or([
+          leadIds.length > 0 ? `lead_id.in.(${leadIds.join(',')})` : null,
+          contactIds.length > 0 ? `contact_id.in.(${contactIds.join(',')})` : null,
+        ].filter(Boolean).join(',') || 'id.is.null');
+      if (runningError) throw runningError;
+
+      const runningIds = new Set((running || []).flatMap(row => [row.lead_id, row.contact_id]).filter(Boolean));
+      const toEnroll = withEmail.filter(e => !runningIds.has(e.leadId || e.contactId || ''));
+      const firstStepAt = new Date(Date.now() + (sequence.steps[0]?.delay_days || 0) * DAY_MS).toISOString();
+
+      if (toEnroll.length > 0) {
+        const { error } = await supabase.from('email_sequence_enrollments').insert(
+          toEnroll.map(enrollee => ({
+            sequence_id: sequence.id,
+            lead_id: enrollee.leadId || null,
+            contact_id: enrollee.contactId || null,
+            recipient_email: enrollee.email!.trim(),
+            recipient_name: enrollee.name || null,
+            sender_email: user?.email || '',
+            next_step_at: firstStepAt,
+            enrolled_by: user?.id,
+          }))
+        );
+        if (error) throw error;
+      }
+
+      return { enrolled: toEnroll.length, skipped: enrollees.length - toEnroll.length };
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    sequences,
+    isLoading,
+    refetch,
+    saveSequence: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+    setSequenceActive: setActiveMutation.mutateAsync,
+    deleteSequence: deleteMutation.mutateAsync,
+    enroll: enrollMutation.mutateAsync,
+    isEnrolling: enrollMutation.isPending,
+  };
+};
+
+// Where each lead or contact is in the sequence, for the sequence detail view
+export const useEmailSequenceEnrollments = (sequenceId: string | null) => {
+  const queryClient = useQueryClient();
+  const queryKey = [...EMAIL_SEQUENCES_QUERY_KEY, sequenceId, 'enrollments'];
+
+  const query = useQuery({
+    queryKey,
+    enabled: !!sequenceId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('email_sequence_enrollments')
+        .select('id, lead_id, contact_id, recipient_email, recipient_name, status, current_step, next_step_at, last_step_at, last_error, exited_at, created_at')
+        .eq('sequence_id', sequenceId!)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(row => ({ ...row, status: row.status as EmailSequenceEnrollmentStatus }));
+    },
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async (enrollmentId: string) => {
+      const { error } = await supabase
+        .from('email_sequence_enrollments')
+        .update({ status: 'stopped', exited_at: new Date().toISOString() })
+        .eq('id', enrollmentId)
+        .eq('status', 'active');
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: EMAIL_SEQUENCES_QUERY_KEY, exact: true });
+    },
+  });
+
+  return {
+    ...query,
+    stopEnrollment: stopMutation.mutateAsync,
+    isStopping: stopMutation.isPending,
+  };
+};
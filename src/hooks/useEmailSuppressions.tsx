@@ -0,0 +1,132 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+
+export const EMAIL_SUPPRESSIONS_QUERY_KEY = ['email-suppressions'];
+
+export type EmailSuppressionReason = 'unsubscribed' | 'bounced' | 'manual';
+
+export const SUPPRESSION_REASON_LABELS: Record<EmailSuppressionReason, string> = {
+  unsubscribed: 'Unsubscribed',
+  bounced: 'Bounced',
+  manual: 'Blocked',
+};
+
+export interface EmailSuppression {
+  id: string;
+  email: string;
+  reason: EmailSuppressionReason;
+  notes: string | null;
+  email_history_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Keeps `.in()` filters well inside URL length limits for large bulk sends
+const LOOKUP_CHUNK_SIZE = 200;
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+/**
+ * Which of these addresses are on the suppression list, keyed by the normalized address.
+ * send-email refuses them anyway; callers use this to leave them out up front.
+ */
+export const fetchSuppressedEmails = async (emails: string[]) => {
+  const normalized = [...new Set(emails.map(normalizeEmail).filter(Boolean))];
+  const suppressed = new Map<string, EmailSuppressionReason>();
+
+  for (let i = 0; i < normalized.length; i += LOOKUP_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('email_suppressions')
+      .select('email, reason')
+      .in('email', normalized.slice(i, i + LOOKUP_CHUNK_SIZE));
+    if (error) throw error;
+    (data || []).forEach(row => suppressed.set(row.email, row.reason as EmailSuppressionReason));
+  }
+
+  return suppressed;
+};
+
+// Manual blocks and removals; shared by the suppression list and the per-record "do not email" control
+export const useEmailSuppressionActions = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: EMAIL_SUPPRESSIONS_QUERY_KEY });
+
+  const blockMutation = useMutation({
+    mutationFn: async ({ email, notes }: { email: string; notes?: string }) => {
+      const { error } = await supabase
+        .from('email_suppressions')
+        .insert({ email: normalizeEmail(email), reason: 'manual', notes: notes?.trim() || null, created_by: user?.id });
+      if (error) {
+        if (error.code === '23505') throw new Error(`${normalizeEmail(email)} is already on the suppression list`);
+        throw error;
+      }
+    },
+    onSuccess: invalidate,
+  });
+
+  const unblockMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.from('email_suppressions').delete().eq('id', id).select('id');
+      if (error) throw error;
+      // RLS hides the row from the delete rather than raising an error
+      if (!data?.length) throw new Error('Only admins can remove unsubscribes and bounces, or blocks added by someone else');
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    blockEmail: blockMutation.mutateAsync,
+    isBlocking: blockMutation.isPending,
+    unblockEmail: unblockMutation.mutateAsync,
+    isUnblocking: unblockMutation.isPending,
+  };
+};
+
+export const useEmailSuppressions = () => {
+  const actions = useEmailSuppressionActions();
+
+  const { data: suppressions = [], isLoading, refetch } = useQuery({
+    queryKey: EMAIL_SUPPRESSIONS_QUERY_KEY,
+    queryFn: async (): Promise<EmailSuppression[]> => {
+      const { data, error } = await supabase
+        .from('email_suppressions')
+        .select('id, email, reason, notes, email_history_id, created_by, created_at')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(row => ({ ...row, reason: row.reason as EmailSuppressionReason }));
+    },
+  });
+
+  return {
+    suppressions,
+    isLoading,
+    refetch,
+    ...actions,
+  };
+};
+
+// Suppression state of a single address, for record detail views and the send dialog
+export const useEmailSuppression = (email: string | null | undefined) => {
+  const normalized = email ? normalizeEmail(email) : '';
+
+  const { data: suppression = null, isLoading } = useQuery({
+    queryKey: [...EMAIL_SUPPRESSIONS_QUERY_KEY, normalized],
+    enabled: !!normalized,
+    queryFn: async (): Promise<EmailSuppression | null> => {
+      const { data, error } = await supabase
+        .from('email_suppressions')
+        .select('id, email, reason, notes, email_history_id, created_by, created_at')
+        .eq('email', normalized)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? { ...data, reason: data.reason as EmailSuppressionReason } : null;
+    },
+  });
+
+  return { suppression, isLoading };
+};
@@ -0,0 +1,113 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { buildTemplateContext, TemplateContext, TemplateContextSources } from "@/utils/emailTemplateEngine";
+
+export interface EmailTemplateTarget {
+  leadId?: string | null;
+  contactId?: string | null;
+  accountId?: string | null;
+  // What the caller already knows about the recipient, used where the records are missing
+  recipient?: TemplateContextSources['recipient'];
+}
+
+const LEAD_COLUMNS = 'id, account_id, lead_name, email, company_name, position, phone_no, industry, website, country, lead_status, contact_source';
+const CONTACT_COLUMNS = 'id, account_id, contact_name, email, company_name, position, phone_no, industry, website, region';
+const ACCOUNT_COLUMNS = 'id, company_name, industry, company_type, website, phone, country, region';
+
+// The same records process-email-campaigns reads for a campaign recipient: the lead or contact, its
+// account, its most recently updated deal and its next scheduled meeting
+const fetchTemplateContext = async (
+  target: EmailTemplateTarget,
+  sender: { id: string; email: string | null }
+): Promise<TemplateContext> => {
+  const [{ data: lead }, { data: contact }, { data: profile }] = await Promise.all([
+    target.leadId
+      ? supabase.from('leads').select(LEAD_COLUMNS).eq('id', target.leadId).maybeSingle()
+      : Promise.resolve({ data: null }),
+    !target.leadId && target.contactId
+      ? supabase.from('contacts').select(CONTACT_COLUMNS).eq('id', target.contactId).maybeSingle()
+      : Promise.resolve({ data: null }),
+    supabase.from('profiles').select('full_name, timezone').eq('id', sender.id).maybeSingle(),
+  ]);
+
+  const person = lead
+    ? { column: 'lead_id' as const, id: lead.id }
+    : contact ? { column: 'contact_id' as const, id: contact.id } : null;
+  const accountId = lead?.account_id || contact?.account_id || target.accountId;
+
+  const [{ data: account }, { data: deal }, { data: meeting }] = await Promise.all([
+    accountId
+      ? supabase.from('accounts').select(ACCOUNT_COLUMNS).eq('id', accountId).maybeSingle()
+      : Promise.resolve({ data: null }),
+    person
+      ? supabase
+        .from('deals')
+        .select('deal_name, stage, total_contract_value, currency_type, expected_closing_date, project_name')
+        .eq(person.column, person.id)
+        .order('modified_at', { ascending: false, nullsFirst: false })
+        .limit(1)
+        .maybeSingle()
+      : Promise.resolve({ data: null }),
+    person
+      ? supabase
+        .from('meetings')
+        .select('subject, start_time, end_time, join_url')
+        .eq(person.column, person.id)
+        .eq('status', 'scheduled')
+        .gte('start_time', new Date().toISOString())
+        .order('start_time')
+        .limit(1)
+        .maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  return buildTemplateContext({
+    lead,
+    contact,
+    account,
+    deal,
+    meeting,
+    sender: { name: profile?.full_name || null, email: sender.email },
+    recipient: target.recipient,
+    timezone: profile?.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+};
+
+// Template values for one recipient, for filling in a template before sending or previewing it
+export const useEmailTemplateContext = (target: EmailTemplateTarget | null) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['email-template-context', target, user?.id],
+    enabled: !!target && !!user,
+    queryFn: () => fetchTemplateContext(target!, { id: user!.id, email: user!.email || null }),
+  });
+};
+
+export type EmailTemplatePreviewKind = 'lead' | 'contact';
+
+// Records to preview a template against
+export const useEmailTemplatePreviewRecords = (kind: EmailTemplatePreviewKind) => {
+  return useQuery({
+    queryKey: ['email-template-preview-records', kind],
+    queryFn: async () => {
+      if (kind === 'lead') {
+        const { data, error } = await supabase
+          .from('leads')
+          .select('id, lead_name, company_name, email')
+          .order('lead_name');
+        if (error) throw error;
+        return (data || []).map(lead => ({ id: lead.id, name: lead.lead_name, company: lead.company_name, email: lead.email }));
+      }
+
+      const { data, error } = await supabase
+        .from('contacts')
+        .select('id, contact_name, company_name, email')
+        .order('contact_name');
+      if (error) throw error;
+      return (data || []).map(contact => ({ id: contact.id, name: contact.contact_name, company: contact.company_name, email: contact.email }));
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+};
@@ -0,0 +1,137 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+
+export const LEAD_ASSIGNMENT_RULES_QUERY_KEY = ['lead-assignment-rules'];
+export const LEAD_ASSIGNMENT_LOG_QUERY_KEY = ['lead-assignment-log'];
+
+// Company size bands offered on leads and in assignment rules
+export const COMPANY_SIZE_OPTIONS = ['1-10', '11-50', '51-200', '201-500', '501-1000', '1001-5000', '5000+'];
+
+export type DistributionMethod = 'round_robin' | 'load_balanced';
+
+export const DISTRIBUTION_METHOD_LABELS: Record<DistributionMethod, string> = {
+  round_robin: 'Round-robin',
+  load_balanced: 'Load-balanced',
+};
+
+export interface LeadAssignmentRule {
+  id: string;
+  name: string;
+  countries: string[];
+  industries: string[];
+  sources: string[];
+  company_sizes: string[];
+  distribution_method: DistributionMethod;
+  assignee_ids: string[];
+  last_assigned_to: string | null;
+  is_active: boolean;
+  priority: number;
+}
+
+export type LeadAssignmentRuleInput = Omit<LeadAssignmentRule, 'id' | 'last_assigned_to'> & { id?: string };
+
+export interface LeadAssignmentLogEntry {
+  id: string;
+  lead_id: string;
+  lead_name: string | null;
+  rule_name: string;
+  assigned_to: string;
+  distribution_method: DistributionMethod;
+  reason: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export const useLeadAssignmentRules = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const { data: rules = [], isLoading } = useQuery({
+    queryKey: LEAD_ASSIGNMENT_RULES_QUERY_KEY,
+    queryFn: async (): Promise<LeadAssignmentRule[]> => {
+      const { data, error } = await supabase
+        .from('lead_assignment_rules')
+        .select('id, name, countries, industries, sources, company_sizes, distribution_method, assignee_ids, last_assigned_to, is_active, priority')
+        .order('priority')
+        .order('created_at');
+
+      if (error) throw error;
+      return (data || []).map(rule => ({
+        ...rule,
+        distribution_method: rule.distribution_method as DistributionMethod,
+      }));
+    },
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: LEAD_ASSIGNMENT_RULES_QUERY_KEY });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, ...rule }: LeadAssignmentRuleInput) => {
+      if (id) {
+        const { error } = await supabase.from('lead_assignment_rules').update(rule).eq('id', id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('lead_assignment_rules')
+          .insert({ ...rule, created_by: user?.id });
+        if (error) throw error;
+      }
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('lead_assignment_rules').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    rules,
+    isLoading,
+    saveRule: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+    deleteRule: deleteMutation.mutateAsync,
+    isDeleting: deleteMutation.isPending,
+  };
+};
+
+// Most recent routings, newest first
+export const useLeadAssignmentLog = (limit = 50) => {
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: [...LEAD_ASSIGNMENT_LOG_QUERY_KEY, limit],
+    queryFn: async (): Promise<LeadAssignmentLogEntry[]> => {
+      const { data, error } = await supabase
+        .from('lead_assignment_log')
+        .select('id, lead_id, rule_name, assigned_to, distribution_method, reason, created_by, created_at, leads:lead_id (lead_name)')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []).map(({ leads, ...entry }) => ({
+        ...entry,
+        lead_name: leads?.lead_name ?? null,
+        distribution_method: entry.distribution_method as DistributionMethod,
+      }));
+    },
+  });
+
+  return { entries, isLoading };
+};
+
+// Users leads can be routed or assigned to
+export const useAssignableUsers = () => {
+  const { data: users = [], isLoading } = useQuery({
+    queryKey: ['profiles-for-lead-assignment'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('profiles').select('id, full_name').order('full_name');
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  return { users, isLoading };
+};
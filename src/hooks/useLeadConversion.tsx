@@ -0,0 +1,172 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useCRUDAudit } from "@/hooks/useCRUDAudit";
+import { APPROVAL_REQUESTS_QUERY_KEY } from "@/hooks/useApprovals";
+import { createPipelineHelpers, getPipelineStages } from "@/hooks/usePipelineStages";
+import { Deal } from "@/types/deal";
+
+export const LEAD_CONVERSION_QUERY_KEY = ['lead-conversion'];
+
+export interface ConvertibleLead {
+  id: string;
+  lead_name: string;
+  account_id?: string | null;
+  company_name?: string | null;
+  email?: string | null;
+  phone_no?: string | null;
+  position?: string | null;
+  linkedin?: string | null;
+  website?: string | null;
+  contact_source?: string | null;
+  industry?: string | null;
+  country?: string | null;
+  description?: string | null;
+  contact_owner?: string | null;
+  created_by?: string | null;
+  lead_status?: string | null;
+}
+
+export interface NewAccountValues {
+  company_name: string;
+  industry: string;
+  country: string;
+  website: string;
+}
+
+export interface NewContactValues {
+  contact_name: string;
+  email: string;
+  phone_no: string;
+  position: string;
+  linkedin: string;
+}
+
+// Either link to a record that already exists or create a new one from the lead
+export type ConversionTarget<T> = { mode: 'existing'; id: string; name: string } | { mode: 'new'; values: T };
+
+export interface LeadConversionInput {
+  lead: ConvertibleLead;
+  account: ConversionTarget<NewAccountValues>;
+  contact: ConversionTarget<NewContactValues>;
+  deal: Partial<Deal>;
+  leadStatus?: string;
+}
+
+export interface LeadConversionResult {
+  deal: Deal;
+  lead_status: string | null;
+  action_items_moved: number;
+  meetings_moved: number;
+  emails_moved: number;
+}
+
+export interface LeadConversion {
+  id: string;
+  converted_at: string;
+  converted_by: string | null;
+  account_created: boolean;
+  contact_created: boolean;
+  action_items_moved: number;
+  meetings_moved: number;
+  emails_moved: number;
+  account: { id: string; company_name: string } | null;
+  contact: { id: string; contact_name: string } | null;
+  deal: { id: string; deal_name: string; stage: string } | null;
+}
+
+// What a converted lead became, or null for leads that were never converted this way
+export const useLeadConversion = (leadId: string | undefined) => {
+  const { data, isLoading } = useQuery({
+    queryKey: [...LEAD_CONVERSION_QUERY_KEY, leadId],
+    enabled: !!leadId,
+    queryFn: async (): Promise<LeadConversion | null> => {
+      const { data, error } = await supabase
+        .from('lead_conversions')
+        .select(`
+          id, converted_at, converted_by, account_created, contact_created,
+          action_items_moved, meetings_moved, emails_moved,
+          account:account_id (id, company_name),
+          contact:contact_id (id, contact_name),
+          deal:deal_id (id, deal_name, stage)
+        `)
+        .eq('lead_id', leadId!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  return { conversion: data ?? null, isLoading };
+};
+
+/**
+ * Converts a lead in one go: complete_lead_conversion creates or reuses its account and contact, creates
+ * a deal linked to both and moves the lead's action items, meetings and emails over, all in one
+ * transaction, so a failed conversion leaves nothing behind and can simply be retried.
+ */
+export const useConvertLead = () => {
+  const queryClient = useQueryClient();
+  const { logCreate, logUpdate } = useCRUDAudit();
+
+  const mutation = useMutation({
+    mutationFn: async ({ lead, account, contact, deal, leadStatus }: LeadConversionInput): Promise<LeadConversionResult> => {
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error("User not authenticated");
+      }
+
+      // Only include fields that have actual values; the database fills in the rest from the lead
+      const { firstStageName } = createPipelineHelpers(await getPipelineStages(queryClient));
+      const dealValues = {
+        deal_name: deal.deal_name || `Deal for ${lead.lead_name}`,
+        stage: deal.stage || firstStageName,
+        project_name: deal.project_name || '',
+        lead_name: deal.lead_name || lead.lead_name,
+        lead_owner: deal.lead_owner || '',
+        region: deal.region || lead.country || '',
+        priority: deal.priority || 3,
+        ...(deal.currency_type && { currency_type: deal.currency_type }),
+        ...(deal.quarterly_revenue_q1 !== undefined && { quarterly_revenue_q1: deal.quarterly_revenue_q1 }),
+        ...(deal.quarterly_revenue_q2 !== undefined && { quarterly_revenue_q2: deal.quarterly_revenue_q2 }),
+        ...(deal.quarterly_revenue_q3 !== undefined && { quarterly_revenue_q3: deal.quarterly_revenue_q3 }),
+        ...(deal.quarterly_revenue_q4 !== undefined && { quarterly_revenue_q4: deal.quarterly_revenue_q4 }),
+      };
+
+      const { data, error } = await supabase.rpc('complete_lead_conversion', {
+        p_lead_id: lead.id,
+        p_deal: dealValues,
+        ...(account.mode === 'existing' ? { p_account_id: account.id } : { p_new_account: { ...account.values } }),
+        ...(contact.mode === 'existing' ? { p_contact_id: contact.id } : { p_new_contact: { ...contact.values } }),
+        p_lead_status: leadStatus,
+      });
+      if (error) throw error;
+
+      const result = data as unknown as LeadConversionResult & { account_id: string; contact_id: string };
+      if (account.mode === 'new') {
+        await logCreate('accounts', result.account_id, account.values);
+      }
+      if (contact.mode === 'new') {
+        await logCreate('contacts', result.contact_id, { ...contact.values, account_id: result.account_id });
+      }
+      await logCreate('deals', result.deal.id, dealValues);
+      await logUpdate(
+        'leads',
+        lead.id,
+        { account_id: result.account_id, lead_status: result.lead_status },
+        { account_id: lead.account_id, lead_status: lead.lead_status }
+      );
+
+      return result;
+    },
+    onSuccess: (_result, { lead }) => {
+      queryClient.invalidateQueries({ queryKey: [...LEAD_CONVERSION_QUERY_KEY, lead.id] });
+      queryClient.invalidateQueries({ queryKey: APPROVAL_REQUESTS_QUERY_KEY });
+    },
+  });
+
+  return {
+    convertLead: mutation.mutateAsync,
+    isConverting: mutation.isPending,
+  };
+};
@@ -0,0 +1,98 @@
+import { useMemo } from "react";
+import { QueryClient, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export const LEAD_STATUSES_QUERY_KEY = ['lead-statuses'];
+const STATUSES_STALE_TIME = 5 * 60 * 1000; // 5 minutes
+const FALLBACK_STATUS_COLOR = '#6b7280';
+
+export interface LeadStatus {
+  id: string;
+  status_name: string;
+  status_color: string;
+  status_order: number;
+  is_active: boolean;
+  is_converted_status: boolean;
+}
+
+// Used until lead_statuses has loaded, or when it is empty
+export const DEFAULT_LEAD_STATUSES: LeadStatus[] = [
+  { id: 'default-new', status_name: 'New', status_color: '#3b82f6', status_order: 0, is_active: true, is_converted_status: false },
+  { id: 'default-contacted', status_name: 'Contacted', status_color: '#8b5cf6', status_order: 1, is_active: true, is_converted_status: false },
+  { id: 'default-qualified', status_name: 'Qualified', status_color: '#10b981', status_order: 2, is_active: true, is_converted_status: false },
+  { id: 'default-unqualified', status_name: 'Unqualified', status_color: '#ef4444', status_order: 3, is_active: true, is_converted_status: false },
+  { id: 'default-converted', status_name: 'Converted', status_color: '#22c55e', status_order: 4, is_active: true, is_converted_status: true },
+];
+
+export const fetchLeadStatuses = async (): Promise<LeadStatus[]> => {
+  const { data, error } = await supabase
+    .from('lead_statuses')
+    .select('*')
+    .order('status_order');
+
+  if (error) {
+    console.error('Error fetching lead statuses:', error);
+    return DEFAULT_LEAD_STATUSES;
+  }
+
+  if (!data || data.length === 0) {
+    return DEFAULT_LEAD_STATUSES;
+  }
+
+  return data.map(status => ({
+    id: status.id,
+    status_name: status.status_name,
+    status_color: status.status_color || FALLBACK_STATUS_COLOR,
+    status_order: status.status_order,
+    is_active: status.is_active ?? true,
+    is_converted_status: !!status.is_converted_status,
+  }));
+};
+
+// For use outside React (imports, other queryFns), sharing the cached statuses with useLeadStatuses
+export const getLeadStatuses = (queryClient: QueryClient) => {
+  return queryClient.fetchQuery({
+    queryKey: LEAD_STATUSES_QUERY_KEY,
+    queryFn: fetchLeadStatuses,
+    staleTime: STATUSES_STALE_TIME,
+  });
+};
+
+export const createLeadStatusHelpers = (allStatuses: LeadStatus[]) => {
+  const statuses = allStatuses.filter(status => status.is_active);
+  const openStatuses = statuses.filter(status => !status.is_converted_status);
+  const convertedStatuses = allStatuses.filter(status => status.is_converted_status);
+
+  // Status names are matched case-insensitively so imported and legacy values still resolve
+  const getStatus = (statusName?: string | null) => {
+    const key = statusName?.trim().toLowerCase();
+    if (!key) return undefined;
+    return allStatuses.find(status => status.status_name.toLowerCase() === key);
+  };
+
+  return {
+    statuses,
+    statusNames: statuses.map(status => status.status_name),
+    openStatusNames: openStatuses.map(status => status.status_name),
+    convertedStatusNames: convertedStatuses.map(status => status.status_name),
+    // New leads start in the first active status that isn't a converted one
+    defaultStatusName: (openStatuses[0] || statuses[0])?.status_name,
+    // Converting a lead to a deal marks it with the first converted status
+    convertedStatusName: (convertedStatuses.find(status => status.is_active) || convertedStatuses[0])?.status_name,
+    getStatus,
+    getStatusColor: (statusName?: string | null) => getStatus(statusName)?.status_color || FALLBACK_STATUS_COLOR,
+    isConvertedStatus: (statusName?: string | null) => !!getStatus(statusName)?.is_converted_status,
+  };
+};
+
+export const useLeadStatuses = () => {
+  const { data: allStatuses = DEFAULT_LEAD_STATUSES, isLoading } = useQuery({
+    queryKey: LEAD_STATUSES_QUERY_KEY,
+    queryFn: fetchLeadStatuses,
+    staleTime: STATUSES_STALE_TIME,
+  });
+
+  const helpers = useMemo(() => createLeadStatusHelpers(allStatuses), [allStatuses]);
+
+  return { ...helpers, allStatuses, isLoading };
+};
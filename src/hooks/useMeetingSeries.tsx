@@ -0,0 +1,259 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  MeetingOccurrence,
+  MeetingRecurrenceRule,
+  MeetingSeries,
+  ruleToSeriesColumns,
+} from "@/utils/meetingRecurrence";
+
+export interface SeriesOccurrenceRow {
+  id: string;
+  start_time: string;
+  end_time: string;
+  original_start_time: string | null;
+  status: string;
+  is_series_exception: boolean;
+}
+
+// Fields every occurrence of a series shares
+export interface SeriesMeetingFields {
+  subject: string;
+  description: string | null;
+  join_url: string | null;
+  lead_id: string | null;
+  contact_id: string | null;
+  attendees: { email: string; name: string }[] | null;
+}
+
+export interface SeriesEditedMeeting {
+  id: string;
+  series_id?: string | null;
+}
+
+interface SeriesSchedule {
+  rule: MeetingRecurrenceRule;
+  timezone: string;
+  durationMinutes: number;
+  // Expanded from the rule; the first one anchors the series
+  occurrences: MeetingOccurrence[];
+}
+
+export const MEETING_SERIES_QUERY_KEY = ['meeting-series'];
+
+const toSeriesRow = ({ rule, timezone, durationMinutes, occurrences }: SeriesSchedule) => ({
+  ...ruleToSeriesColumns(rule),
+  timezone,
+  starts_at: occurrences[0].start.toISOString(),
+  duration_minutes: durationMinutes,
+});
+
+const sameSchedule = (series: MeetingSeries, row: ReturnType<typeof toSeriesRow>) =>
+  series.frequency === row.frequency &&
+  series.repeat_interval === row.repeat_interval &&
+  (series.by_weekday || []).join() === (row.by_weekday || []).join() &&
+  series.occurrence_count === row.occurrence_count &&
+  series.until_date === row.until_date &&
+  series.timezone === row.timezone &&
+  series.duration_minutes === row.duration_minutes &&
+  new Date(series.starts_at).getTime() === new Date(row.starts_at).getTime();
+
+// A recurring meeting: its rule plus every occurrence created for it
+export const useMeetingSeries = (seriesId: string | null | undefined) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const queryKey = [...MEETING_SERIES_QUERY_KEY, seriesId];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    enabled: !!seriesId,
+    queryFn: async () => {
+      const [seriesRes, occurrencesRes] = await Promise.all([
+        supabase.from('meeting_series').select('*').eq('id', seriesId!).single(),
+        supabase
+          .from('meetings')
+          .select('id, start_time, end_time, original_start_time, status, is_series_exception')
+          .eq('series_id', seriesId!)
+          .order('start_time'),
+      ]);
+
+      if (seriesRes.error) throw seriesRes.error;
+      if (occurrencesRes.error) throw occurrencesRes.error;
+      return {
+        series: seriesRes.data as MeetingSeries,
+        occurrences: (occurrencesRes.data || []) as SeriesOccurrenceRow[],
+      };
+    },
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: MEETING_SERIES_QUERY_KEY });
+
+  const insertOccurrences = async (id: string, fields: SeriesMeetingFields, occurrences: MeetingOccurrence[]) => {
+    if (occurrences.length === 0) return;
+    const { error } = await supabase.from('meetings').insert(occurrences.map(occurrence => ({
+      ...fields,
+      start_time: occurrence.start.toISOString(),
+      end_time: occurrence.end.toISOString(),
+      original_start_time: occurrence.start.toISOString(),
+      status: 'scheduled',
+      series_id: id,
+      created_by: user?.id,
+    })));
+
+    if (error) throw error;
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async ({ fields, ...schedule }: SeriesSchedule & { fields: SeriesMeetingFields }) => {
+      const { data: series, error } = await supabase
+        .from('meeting_series')
+        .insert({ ...toSeriesRow(schedule), created_by: user?.id })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      await insertOccurrences(series.id, fields, schedule.occurrences);
+      return series.id;
+    },
+    onSuccess: invalidate,
+  });
+
+  /**
+   * Applies a series-wide edit made from one of its meetings (or turns a one-off meeting into a series).
+   * Upcoming occurrences take the new fields; when the rule or timing changed, upcoming occurrences that
+   * weren't edited on their own are recreated from the new rule. Past occurrences are left as they happened.
+   */
+  const updateMutation = useMutation({
+    mutationFn: async ({
+      meeting,
+      start,
+      end,
+      fields,
+      ...schedule
+    }: SeriesSchedule & { meeting: SeriesEditedMeeting; start: Date; end: Date; fields: SeriesMeetingFields }) => {
+      const now = new Date().toISOString();
+      const seriesRow = toSeriesRow(schedule);
+      let id = meeting.series_id;
+      let regenerate = true;
+
+      if (id) {
+        const { data: existing, error: fetchError } = await supabase
+          .from('meeting_series')
+          .select('*')
+          .eq('id', id)
+          .single();
+        if (fetchError) throw fetchError;
+        regenerate = !sameSchedule(existing as MeetingSeries, seriesRow);
+
+        const { error } = await supabase.from('meeting_series').update(seriesRow).eq('id', id);
+        if (error) throw error;
+      } else {
+        const { data: created, error } = await supabase
+          .from('meeting_series')
+          .insert({ ...seriesRow, created_by: user?.id })
+          .select('id')
+          .single();
+        if (error) throw error;
+        id = created.id;
+      }
+
+      // Occurrences edited on their own (exceptions) keep their own details
+      const { error: fieldsError } = await supabase
+        .from('meetings')
+        .update(fields)
+        .eq('series_id', id)
+        .gte('start_time', now)
+        .neq('status', 'cancelled')
+        .eq('is_series_exception', false);
+      if (fieldsError) throw fieldsError;
+
+      // The meeting being edited stays (with its notes and follow-ups); it's a regular occurrence
+      // when the rule lands on its new time, otherwise a one-off exception
+      const matchesRule = schedule.occurrences.some(o => o.start.getTime() === start.getTime());
+      const { error: editedError } = await supabase
+        .from('meetings')
+        .update({
+          ...fields,
+          start_time: start.toISOString(),
+          end_time: end.toISOString(),
+          series_id: id,
+          original_start_time: start.toISOString(),
+          is_series_exception: !matchesRule,
+        })
+        .eq('id', meeting.id);
+      if (editedError) throw editedError;
+
+      if (!regenerate) return id;
+
+      const { error: deleteError } = await supabase
+        .from('meetings')
+        .delete()
+        .eq('series_id', id)
+        .neq('id', meeting.id)
+        .gte('start_time', now)
+        .eq('status', 'scheduled')
+        .eq('is_series_exception', false);
+      if (deleteError) throw deleteError;
+
+      const { data: kept, error: keptError } = await supabase
+        .from('meetings')
+        .select('original_start_time')
+        .eq('series_id', id);
+      if (keptError) throw keptError;
+
+      const taken = new Set((kept || []).map(row => row.original_start_time && new Date(row.original_start_time).getTime()));
+      await insertOccurrences(
+        id,
+        fields,
+        schedule.occurrences.filter(o => o.start.toISOString() >= now && !taken.has(o.start.getTime()))
+      );
+      return id;
+    },
+    onSuccess: invalidate,
+  });
+
+  // One occurrence is cancelled on its own and survives later series edits
+  const cancelOccurrenceMutation = useMutation({
+    mutationFn: async (meetingId: string) => {
+      const { error } = await supabase
+        .from('meetings')
+        .update({ status: 'cancelled', is_series_exception: true })
+        .eq('id', meetingId);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  // Cancels every upcoming occurrence and ends the rule on endDate (the last day kept, if any)
+  const cancelSeriesMutation = useMutation({
+    mutationFn: async ({ id, endDate }: { id: string; endDate: string }) => {
+      const { error: seriesError } = await supabase
+        .from('meeting_series')
+        .update({ until_date: endDate, occurrence_count: null })
+        .eq('id', id);
+      if (seriesError) throw seriesError;
+
+      const { error } = await supabase
+        .from('meetings')
+        .update({ status: 'cancelled' })
+        .eq('series_id', id)
+        .gte('start_time', new Date().toISOString())
+        .neq('status', 'cancelled');
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    series: data?.series ?? null,
+    occurrences: data?.occurrences ?? [],
+    isLoading,
+    createSeries: createMutation.mutateAsync,
+    updateSeries: updateMutation.mutateAsync,
+    cancelOccurrence: cancelOccurrenceMutation.mutateAsync,
+    cancelSeries: cancelSeriesMutation.mutateAsync,
+  };
+};
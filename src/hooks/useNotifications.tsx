@@ -12,6 +12,8 @@ interface Notification {
   status: 'read' | 'unread';
   notification_type: string;
   action_item_id: string | null;
+  task_id: string | null;
+  meeting_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -142,6 +144,42 @@ export const useNotifications = () => {
     }
   };
 
+  // Snooze a task reminder: the task's reminder fires again after the given minutes
+  const snoozeReminder = async (notificationId: string, minutes: number) => {
+    if (!user) return;
+
+    try {
+      const { data: remindAt, error } = await supabase.rpc('snooze_task_reminder', {
+        p_notification_id: notificationId,
+        p_minutes: minutes,
+      });
+
+      if (error) throw error;
+
+      const snoozed = notifications.find(n => n.id === notificationId);
+      setNotifications(prev =>
+        prev.map(n =>
+          n.id === notificationId ? { ...n, status: 'read' as const } : n
+        )
+      );
+      if (snoozed?.status === 'unread') {
+        setUnreadCount(prev => Math.max(0, prev - 1));
+      }
+
+      toast({
+        title: "Reminder snoozed",
+        description: `You'll be reminded again at ${new Date(remindAt).toLocaleString()}`
+      });
+    } catch (error) {
+      console.error('Error snoozing reminder:', error);
+      toast({
+        title: "Error",
+        description: "Failed to snooze reminder",
+        variant: "destructive"
+      });
+    }
+  };
+
   // Delete notification
   const deleteNotification = async (notificationId: string) => {
     if (!user) return;
@@ -210,6 +248,18 @@ export const useNotifications = () => {
               description: newNotification.message,
               duration: 5000,
             });
+          } else if (newNotification.notification_type === 'task_reminder') {
+            toast({
+              title: "Task Reminder",
+              description: newNotification.message,
+              duration: 10000,
+            });
+          } else if (newNotification.notification_type === 'meeting_reminder') {
+            toast({
+              title: "Meeting Reminder",
+              description: newNotification.message,
+              duration: 10000,
+            });
           }
         }
       )
@@ -281,6 +331,7 @@ export const useNotifications = () => {
     itemsPerPage,
     markAsRead,
     markAllAsRead,
+    snoozeReminder,
     deleteNotification,
     fetchNotifications,
     setCurrentPage
@@ -0,0 +1,142 @@
+import { useMemo, CSSProperties } from "react";
+import { QueryClient, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Deal,
+  DealStage,
+  PipelineStage,
+  StageOutcome,
+  DEFAULT_PIPELINE_STAGES,
+  STAGE_FIELDS,
+  OUTCOME_FIELDS,
+} from "@/types/deal";
+
+export const PIPELINE_STAGES_QUERY_KEY = ['pipeline-stages'];
+const STAGES_STALE_TIME = 5 * 60 * 1000; // 5 minutes
+const FALLBACK_STAGE_COLOR = '#6b7280';
+
+export const fetchPipelineStages = async (): Promise<PipelineStage[]> => {
+  const { data, error } = await supabase
+    .from('pipeline_stages')
+    .select('*')
+    .order('stage_order');
+
+  if (error) {
+    console.error('Error fetching pipeline stages:', error);
+    return DEFAULT_PIPELINE_STAGES;
+  }
+
+  if (!data || data.length === 0) {
+    return DEFAULT_PIPELINE_STAGES;
+  }
+
+  return data.map(stage => ({
+    id: stage.id,
+    stage_name: stage.stage_name,
+    stage_order: stage.stage_order,
+    stage_color: stage.stage_color || FALLBACK_STAGE_COLOR,
+    stage_probability: stage.stage_probability ?? 0,
+    is_active: stage.is_active ?? true,
+    is_won_stage: !!stage.is_won_stage,
+    is_lost_stage: !!stage.is_lost_stage,
+    outcome: (stage.outcome as StageOutcome | null) ?? null,
+    required_fields: stage.required_fields ?? [],
+  }));
+};
+
+// For use inside other queryFns, so they share the cached stages with usePipelineStages
+export const getPipelineStages = (queryClient: QueryClient) => {
+  return queryClient.fetchQuery({
+    queryKey: PIPELINE_STAGES_QUERY_KEY,
+    queryFn: fetchPipelineStages,
+    staleTime: STAGES_STALE_TIME,
+  });
+};
+
+export const createPipelineHelpers = (allStages: PipelineStage[]) => {
+  const stages = allStages.filter(stage => stage.is_active);
+  const stageNames = stages.map(stage => stage.stage_name);
+  const openStages = stages.filter(stage => !stage.is_won_stage && !stage.is_lost_stage);
+
+  const getStage = (stageName?: string) => allStages.find(stage => stage.stage_name === stageName);
+  const isWonStage = (stageName?: string) => !!getStage(stageName)?.is_won_stage;
+  const isLostStage = (stageName?: string) => !!getStage(stageName)?.is_lost_stage;
+  const isClosedStage = (stageName?: string) => isWonStage(stageName) || isLostStage(stageName);
+
+  // Deals advance through the open stages in order; closing a deal as won or lost is an explicit choice
+  const getNextStage = (stageName: DealStage): DealStage | null => {
+    const index = openStages.findIndex(stage => stage.stage_name === stageName);
+    if (index === -1 || index === openStages.length - 1) return null;
+    return openStages[index + 1].stage_name;
+  };
+
+  // Moving to another stage picks up that stage's default probability,
+  // unless the deal's probability was changed by hand from its current stage default
+  const getStageTransitionUpdates = (deal: Partial<Deal>, targetStage: DealStage): Partial<Deal> => {
+    const updates: Partial<Deal> = { stage: targetStage };
+    const currentDefault = getStage(deal.stage)?.stage_probability;
+    if (deal.probability === undefined || deal.probability === null || deal.probability === currentDefault) {
+      updates.probability = getStage(targetStage)?.stage_probability ?? deal.probability;
+    }
+    return updates;
+  };
+
+  // A closing stage records the fields of its configured outcome (won, lost or dropped)
+  const getOutcomeFields = (stageName?: string): string[] => {
+    const outcome = getStage(stageName)?.outcome;
+    return outcome ? OUTCOME_FIELDS[outcome] : [];
+  };
+
+  const getRequiredFields = (stageName?: string): string[] => getStage(stageName)?.required_fields ?? [];
+
+  // Fields collected by the open stages up to this one (all of them for a closed stage), plus its outcome fields
+  const getFieldsForStage = (stageName: DealStage): string[] => {
+    const currentIndex = openStages.findIndex(stage => stage.stage_name === stageName);
+    const reached = currentIndex === -1 ? openStages : openStages.slice(0, currentIndex + 1);
+    const fields = [
+      ...reached.flatMap(stage => STAGE_FIELDS[stage.stage_name] || []),
+      ...getOutcomeFields(stageName),
+      'internal_comment',
+    ];
+    return [...new Set(fields)];
+  };
+
+  return {
+    stages,
+    stageNames,
+    openStageNames: openStages.map(stage => stage.stage_name),
+    wonStageNames: allStages.filter(stage => stage.is_won_stage).map(stage => stage.stage_name),
+    lostStageNames: allStages.filter(stage => stage.is_lost_stage).map(stage => stage.stage_name),
+    firstStageName: (openStages[0] || stages[0])?.stage_name as DealStage | undefined,
+    getStage,
+    getStageColor: (stageName?: string) => getStage(stageName)?.stage_color || FALLBACK_STAGE_COLOR,
+    getStageProbability: (stageName?: string) => getStage(stageName)?.stage_probability ?? 0,
+    isWonStage,
+    isLostStage,
+    isClosedStage,
+    getNextStage,
+    getStageTransitionUpdates,
+    getOutcomeFields,
+    getRequiredFields,
+    getFieldsForStage,
+  };
+};
+
+// Badge/header styling derived from a stage's hex color
+export const getStageStyle = (color: string): CSSProperties => ({
+  backgroundColor: `${color}1a`,
+  borderColor: `${color}4d`,
+  color,
+});
+
+export const usePipelineStages = () => {
+  const { data: allStages = DEFAULT_PIPELINE_STAGES, isLoading } = useQuery({
+    queryKey: PIPELINE_STAGES_QUERY_KEY,
+    queryFn: fetchPipelineStages,
+    staleTime: STAGES_STALE_TIME,
+  });
+
+  const helpers = useMemo(() => createPipelineHelpers(allStages), [allStages]);
+
+  return { ...helpers, allStages, isLoading };
+};
@@ -0,0 +1,265 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+
+export const SCORING_RULES_QUERY_KEY = ['scoring-rules'];
+export const SCORE_HISTORY_QUERY_KEY = ['score-history'];
+
+export type ScoringEntityType = 'leads' | 'accounts' | 'contacts';
+
+export type ScoringRuleType =
+  | 'field_match'
+  | 'field_present'
+  | 'contact_count'
+  | 'activity_count'
+  | 'deals_won'
+  | 'email_opens'
+  | 'email_clicks'
+  | 'meetings_held'
+  | 'recent_activity'
+  | 'inactivity_decay';
+
+export const SCORING_RULE_TYPE_LABELS: Record<ScoringRuleType, string> = {
+  field_match: 'Field matches',
+  field_present: 'Field is filled in',
+  contact_count: 'Per contact',
+  activity_count: 'Per logged activity',
+  deals_won: 'Per won deal',
+  email_opens: 'Per email open',
+  email_clicks: 'Per link click',
+  meetings_held: 'Per meeting held',
+  recent_activity: 'Recent activity',
+  inactivity_decay: 'Inactivity decay',
+};
+
+// Rule types each record type supports; mirrors scoring_rules_rule_type_check
+export const SCORING_RULE_TYPES: Record<ScoringEntityType, ScoringRuleType[]> = {
+  leads: ['field_match', 'field_present', 'email_opens', 'email_clicks', 'meetings_held', 'recent_activity', 'inactivity_decay'],
+  accounts: [
+    'field_match', 'field_present', 'contact_count', 'activity_count', 'deals_won',
+    'email_opens', 'email_clicks', 'meetings_held', 'recent_activity', 'inactivity_decay',
+  ],
+  contacts: [
+    'field_match', 'field_present', 'activity_count', 'deals_won',
+    'email_opens', 'email_clicks', 'meetings_held', 'recent_activity', 'inactivity_decay',
+  ],
+};
+
+// Record fields a field_match / field_present rule can look at; mirrors scoring_rules_field_check
+export const SCORING_FIELDS: Record<ScoringEntityType, { value: string; label: string }[]> = {
+  leads: [
+    { value: 'industry', label: 'Industry' },
+    { value: 'country', label: 'Country' },
+    { value: 'position', label: 'Position' },
+    { value: 'contact_source', label: 'Source' },
+    { value: 'lead_status', label: 'Lead Status' },
+    { value: 'email', label: 'Email' },
+    { value: 'phone_no', label: 'Phone' },
+    { value: 'linkedin', label: 'LinkedIn' },
+    { value: 'website', label: 'Website' },
+  ],
+  accounts: [
+    { value: 'industry', label: 'Industry' },
+    { value: 'country', label: 'Country' },
+    { value: 'region', label: 'Region' },
+    { value: 'segment', label: 'Segment' },
+    { value: 'company_type', label: 'Company Type' },
+    { value: 'status', label: 'Status' },
+    { value: 'email', label: 'Email' },
+    { value: 'phone', label: 'Phone' },
+    { value: 'website', label: 'Website' },
+  ],
+  contacts: [
+    { value: 'industry', label: 'Industry' },
+    { value: 'region', label: 'Region' },
+    { value: 'position', label: 'Position' },
+    { value: 'contact_source', label: 'Source' },
+    { value: 'segment', label: 'Segment' },
+    { value: 'email', label: 'Email' },
+    { value: 'phone_no', label: 'Phone' },
+    { value: 'linkedin', label: 'LinkedIn' },
+    { value: 'website', label: 'Website' },
+  ],
+};
+
+export interface ScoringRule {
+  id: string;
+  name: string;
+  rule_type: ScoringRuleType;
+  field: string | null;
+  match_operator: 'equals' | 'contains';
+  match_values: string[];
+  points: number;
+  max_points: number | null;
+  period_days: number | null;
+  is_active: boolean;
+  sort_order: number;
+}
+
+export type ScoringRuleInput = Omit<ScoringRule, 'id' | 'sort_order'> & { id?: string };
+
+// One rule's contribution to a score, as stored in score_breakdown / score_history.breakdown
+export interface ScoreBreakdownItem {
+  rule_id: string;
+  name: string;
+  rule_type: ScoringRuleType;
+  points: number;
+  detail: string | null;
+}
+
+export interface ScoreHistoryEntry {
+  id: string;
+  score: number;
+  previous_score: number | null;
+  breakdown: ScoreBreakdownItem[];
+  reason: string | null;
+  created_at: string;
+}
+
+export const parseScoreBreakdown = (value: unknown): ScoreBreakdownItem[] =>
+  Array.isArray(value) ? (value as ScoreBreakdownItem[]) : [];
+
+export const getScoreColor = (score: number) => {
+  if (score >= 70) return 'text-green-600 dark:text-green-400';
+  if (score >= 40) return 'text-amber-600 dark:text-amber-400';
+  return 'text-muted-foreground';
+};
+
+export const useScoringRules = (entityType: ScoringEntityType) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const { data: rules = [], isLoading } = useQuery({
+    queryKey: [...SCORING_RULES_QUERY_KEY, entityType],
+    queryFn: async (): Promise<ScoringRule[]> => {
+      const { data, error } = await supabase
+        .from('scoring_rules')
+        .select('id, name, rule_type, field, match_operator, match_values, points, max_points, period_days, is_active, sort_order')
+        .eq('entity_type', entityType)
+        .order('sort_order')
+        .order('created_at');
+
+      if (error) throw error;
+      return (data || []).map(rule => ({
+        ...rule,
+        rule_type: rule.rule_type as ScoringRuleType,
+        match_operator: rule.match_operator as ScoringRule['match_operator'],
+      }));
+    },
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: [...SCORING_RULES_QUERY_KEY, entityType] });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, ...rule }: ScoringRuleInput) => {
+      const usesField = rule.rule_type === 'field_match' || rule.rule_type === 'field_present';
+      const values = {
+        ...rule,
+        field: usesField ? rule.field : null,
+        match_values: rule.rule_type === 'field_match' ? rule.match_values : [],
+      };
+
+      if (id) {
+        const { error } = await supabase.from('scoring_rules').update(values).eq('id', id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('scoring_rules')
+          .insert({ ...values, entity_type: entityType, sort_order: rules.length, created_by: user?.id });
+        if (error) throw error;
+      }
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('scoring_rules').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  // Rule changes only apply to stored scores once every record of the type is rescored
+  const recalculateMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('recalculate_scores', {
+        p_entity_type: entityType,
+        p_reason: 'Scoring rules changed',
+      });
+      if (error) throw error;
+      return data ?? 0;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [...SCORE_HISTORY_QUERY_KEY, entityType] }),
+  });
+
+  return {
+    rules,
+    isLoading,
+    saveRule: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+    deleteRule: deleteMutation.mutateAsync,
+    isDeleting: deleteMutation.isPending,
+    recalculateScores: recalculateMutation.mutateAsync,
+    isRecalculating: recalculateMutation.isPending,
+  };
+};
+
+// Current score of one lead, account or contact with its breakdown and the history of changes
+export const useRecordScore = (entityType: ScoringEntityType, entityId: string | undefined) => {
+  const queryClient = useQueryClient();
+  const queryKey = [...SCORE_HISTORY_QUERY_KEY, entityType, entityId];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    enabled: !!entityId,
+    queryFn: async () => {
+      const [recordRes, historyRes] = await Promise.all([
+        supabase.from(entityType).select('score, score_breakdown, score_updated_at').eq('id', entityId!).single(),
+        supabase
+          .from('score_history')
+          .select('id, score, previous_score, breakdown, reason, created_at')
+          .eq('entity_type', entityType)
+          .eq('entity_id', entityId!)
+          .order('created_at', { ascending: false })
+          .limit(50),
+      ]);
+
+      if (recordRes.error) throw recordRes.error;
+      if (historyRes.error) throw historyRes.error;
+
+      return {
+        score: recordRes.data.score ?? 0,
+        breakdown: parseScoreBreakdown(recordRes.data.score_breakdown),
+        updatedAt: recordRes.data.score_updated_at,
+        history: (historyRes.data || []).map(entry => ({
+          ...entry,
+          breakdown: parseScoreBreakdown(entry.breakdown),
+        })) as ScoreHistoryEntry[],
+      };
+    },
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: async () => {
+      // Admins only; recalculate_scores turns everyone else away
+      const { error } = await supabase.rpc('recalculate_scores', {
+        p_entity_type: entityType,
+        p_entity_id: entityId!,
+        p_reason: 'Recalculated manually',
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  return {
+    score: data?.score ?? 0,
+    breakdown: data?.breakdown ?? [],
+    updatedAt: data?.updatedAt ?? null,
+    history: data?.history ?? [],
+    isLoading,
+    refreshScore: refreshMutation.mutateAsync,
+    isRefreshing: refreshMutation.isPending,
+  };
+};
@@ -22,6 +22,7 @@ interface Lead {
   contact_source?: string;
   industry?: string;
   country?: string;
+  company_size?: string;
   description?: string;
 }
 
@@ -0,0 +1,60 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Task, TaskRecurrence, TaskStatus } from "@/types/task";
+import { getTaskSeriesId } from "@/utils/taskRecurrence";
+
+export interface TaskOccurrence {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  due_date: string | null;
+  completed_at: string | null;
+  assigned_to: string | null;
+  recurrence: TaskRecurrence | null;
+  recurrence_end_date: string | null;
+}
+
+export const TASK_SERIES_QUERY_KEY = ['task-series'];
+
+// Every occurrence created so far in the recurring series a task belongs to
+export const useTaskSeries = (task: Task | null) => {
+  const queryClient = useQueryClient();
+  const seriesId = task ? getTaskSeriesId(task) : undefined;
+  const queryKey = [...TASK_SERIES_QUERY_KEY, seriesId];
+
+  const { data: occurrences = [], isLoading } = useQuery({
+    queryKey,
+    enabled: !!seriesId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('id, title, status, due_date, completed_at, assigned_to, recurrence, recurrence_end_date')
+        .or(`id.eq.${seriesId},parent_task_id.eq.${seriesId}`)
+        .order('due_date', { ascending: true, nullsFirst: true });
+
+      if (error) throw error;
+      return (data || []) as TaskOccurrence[];
+    },
+  });
+
+  // Open occurrences stay, but completing them no longer creates the next one
+  const stopMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ recurrence: 'none' })
+        .or(`id.eq.${seriesId},parent_task_id.eq.${seriesId}`)
+        .in('status', ['open', 'in_progress']);
+
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  return {
+    occurrences,
+    isLoading,
+    stopSeries: stopMutation.mutateAsync,
+    isStopping: stopMutation.isPending,
+  };
+};
@@ -3,6 +3,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
 import { Task, CreateTaskData, TaskStatus } from '@/types/task';
+import { getTaskSeriesId } from '@/utils/taskRecurrence';
 
 export const useTasks = () => {
   const { user } = useAuth();
@@ -148,6 +149,33 @@ export const useTasks = () => {
     }
   };
 
+  // Apply an edit to this occurrence and every open occurrence in its series. Occurrences that
+  // don't exist yet are copied from the one completed before them, so they pick it up too.
+  const updateSeries = async (task: Task, updates: Partial<Task>) => {
+    if (!user?.id) return false;
+
+    // Status and dates belong to each occurrence, not the series
+    const { status, due_date, completed_at, reminder_date, ...seriesUpdates } = updates;
+    const seriesId = getTaskSeriesId(task);
+
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .update(seriesUpdates)
+        .or(`id.eq.${seriesId},parent_task_id.eq.${seriesId}`)
+        .neq('id', task.id)
+        .in('status', ['open', 'in_progress']);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating task series:', error);
+      toast({ title: "Error", description: (error as Error).message || "Failed to update series", variant: "destructive" });
+      return false;
+    }
+
+    return updateTask(task.id, updates, task);
+  };
+
   const deleteTask = async (taskId: string) => {
     try {
       const { error } = await supabase
@@ -177,6 +205,7 @@ export const useTasks = () => {
     fetchTasks,
     createTask,
     updateTask,
+    updateSeries,
     deleteTask,
   };
 };
@@ -1,7 +1,10 @@
 
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getPipelineStages, createPipelineHelpers } from "@/hooks/usePipelineStages";
+import { getCurrencyConverter } from "@/hooks/useCurrencyConversion";
+import { getDealConversionDate } from "@/utils/currencyConversion";
 
 interface QuarterlyData {
   q1: number;
@@ -18,23 +21,37 @@ interface YearlyRevenueData {
   totalActual: number;
   totalProjected: number;
   hasDeals: boolean;
+  // Every amount above is in this currency
+  currency: string;
+  // Deals left out of the totals because their currency has no exchange rate
+  unconvertedDeals: number;
 }
 
 export const useYearlyRevenueData = (selectedYear: number) => {
+  const queryClient = useQueryClient();
   const { data: revenueData, isLoading, error } = useQuery({
     queryKey: ['yearly-revenue', selectedYear],
     queryFn: async (): Promise<YearlyRevenueData> => {
       console.log('Fetching revenue data for year:', selectedYear);
 
+      const converter = await getCurrencyConverter(queryClient);
+
       // Get yearly target
       const { data: targetData } = await supabase
         .from('yearly_revenue_targets')
-        .select('total_target')
+        .select('total_target, currency')
         .eq('year', selectedYear)
         .single();
 
       console.log('Target data:', targetData);
 
+      // Targets set under an earlier reporting currency are converted like everything else
+      const target = converter.toReporting(
+        targetData?.total_target,
+        targetData?.currency || converter.reportingCurrency,
+        `${selectedYear}-01-01`
+      );
+
       // Get all deals and filter by year
       const { data: allDeals } = await supabase
         .from('deals')
@@ -56,21 +73,28 @@ export const useYearlyRevenueData = (selectedYear: number) => {
       if (dealsForYear.length === 0) {
         return {
           year: selectedYear,
-          target: targetData?.total_target || 0,
+          target,
           actualRevenue: { q1: 0, q2: 0, q3: 0, q4: 0 },
           projectedRevenue: { q1: 0, q2: 0, q3: 0, q4: 0 },
           totalActual: 0,
           totalProjected: 0,
-          hasDeals: false
+          hasDeals: false,
+          currency: converter.reportingCurrency,
+          unconvertedDeals: 0
         };
       }
 
-      // Separate Won and RFQ deals from filtered results
-      const wonDeals = dealsForYear.filter(deal => deal.stage === 'Won');
-      const rfqDeals = dealsForYear.filter(deal => deal.stage === 'RFQ');
+      // Separate won deals from deals still open in the pipeline
+      const { isWonStage, isClosedStage } = createPipelineHelpers(await getPipelineStages(queryClient));
+      const wonDeals = dealsForYear.filter(deal => isWonStage(deal.stage));
+      const openDeals = dealsForYear.filter(deal => !isClosedStage(deal.stage));
+
+      // Without an exchange rate to the reporting currency a deal's amounts count as 0
+      const unconvertedDeals = [...wonDeals, ...openDeals]
+        .filter(deal => !converter.hasRate(deal.currency_type)).length;
 
       console.log('Won deals for year:', wonDeals);
-      console.log('RFQ deals for year:', rfqDeals);
+      console.log('Open deals for year:', openDeals);
 
       const actualRevenue: QuarterlyData = { q1: 0, q2: 0, q3: 0, q4: 0 };
       const projectedRevenue: QuarterlyData = { q1: 0, q2: 0, q3: 0, q4: 0 };
@@ -78,51 +102,33 @@ export const useYearlyRevenueData = (selectedYear: number) => {
       let totalActualRevenue = 0;
       let totalProjectedRevenue = 0;
 
-      // Process Won deals for actual revenue
+      // Process won deals for actual revenue, converted to the reporting currency
       wonDeals?.forEach(deal => {
-        console.log('Processing Won deal:', deal.deal_name, 'Total Revenue:', deal.total_revenue);
+        console.log('Processing won deal:', deal.deal_name, 'Total Revenue:', deal.total_revenue, deal.currency_type);
         
         if (deal.total_revenue) {
-          const revenue = Number(deal.total_revenue);
+          const toReporting = (amount: number | null) =>
+            converter.toReporting(amount, deal.currency_type, getDealConversionDate(deal));
+          const revenue = toReporting(deal.total_revenue);
           if (!isNaN(revenue)) {
             totalActualRevenue += revenue;
             console.log('Added actual revenue:', revenue, 'Running total:', totalActualRevenue);
             
             // Quarterly breakdown for actual revenue (Q1-Q4 Revenue from Won deals)
-            if (deal.quarterly_revenue_q1) {
-              const q1Revenue = Number(deal.quarterly_revenue_q1);
-              if (!isNaN(q1Revenue)) {
-                actualRevenue.q1 += q1Revenue;
-              }
-            }
-            if (deal.quarterly_revenue_q2) {
-              const q2Revenue = Number(deal.quarterly_revenue_q2);
-              if (!isNaN(q2Revenue)) {
-                actualRevenue.q2 += q2Revenue;
-              }
-            }
-            if (deal.quarterly_revenue_q3) {
-              const q3Revenue = Number(deal.quarterly_revenue_q3);
-              if (!isNaN(q3Revenue)) {
-                actualRevenue.q3 += q3Revenue;
-              }
-            }
-            if (deal.quarterly_revenue_q4) {
-              const q4Revenue = Number(deal.quarterly_revenue_q4);
-              if (!isNaN(q4Revenue)) {
-                actualRevenue.q4 += q4Revenue;
-              }
-            }
+            actualRevenue.q1 += toReporting(deal.quarterly_revenue_q1);
+            actualRevenue.q2 += toReporting(deal.quarterly_revenue_q2);
+            actualRevenue.q3 += toReporting(deal.quarterly_revenue_q3);
+            actualRevenue.q4 += toReporting(deal.quarterly_revenue_q4);
           }
         }
       });
 
-      // Process RFQ deals for projected revenue - sum all TCV values by expected closing quarter
-      rfqDeals?.forEach(deal => {
-        console.log('Processing RFQ deal:', deal.deal_name, 'Total Contract Value:', deal.total_contract_value, 'Expected Closing:', deal.expected_closing_date);
+      // Process open deals for projected revenue - sum all TCV values by expected closing quarter
+      openDeals?.forEach(deal => {
+        console.log('Processing open deal:', deal.deal_name, 'Total Contract Value:', deal.total_contract_value, 'Expected Closing:', deal.expected_closing_date);
         
         if (deal.total_contract_value) {
-          const contractValue = Number(deal.total_contract_value);
+          const contractValue = converter.toReporting(deal.total_contract_value, deal.currency_type, getDealConversionDate(deal));
           if (!isNaN(contractValue)) {
             totalProjectedRevenue += contractValue;
             console.log('Added projected revenue:', contractValue, 'Running total:', totalProjectedRevenue);
@@ -170,12 +176,14 @@ export const useYearlyRevenueData = (selectedYear: number) => {
 
       return {
         year: selectedYear,
-        target: targetData?.total_target || 0,
+        target,
         actualRevenue,
         projectedRevenue,
         totalActual: totalActualRevenue,
         totalProjected: totalProjectedRevenue,
-        hasDeals: true
+        hasDeals: true,
+        currency: converter.reportingCurrency,
+        unconvertedDeals
       };
     },
   });
@@ -225,6 +233,7 @@ export const useAvailableYears = () => {
 
 // Hook to get live dashboard stats
 export const useDashboardStats = () => {
+  const queryClient = useQueryClient();
   const { data: stats, isLoading } = useQuery({
     queryKey: ['dashboard-stats'],
     queryFn: async () => {
@@ -237,14 +246,16 @@ export const useDashboardStats = () => {
       console.log('All deals for dashboard stats:', deals);
 
       const totalDeals = deals?.length || 0;
+      const { isWonStage } = createPipelineHelpers(await getPipelineStages(queryClient));
+      const converter = await getCurrencyConverter(queryClient);
       
-      // Calculate total revenue from Won deals using total_revenue field
+      // Calculate total revenue from won deals using total_revenue field, in the reporting currency
       let totalRevenue = 0;
       deals?.forEach(deal => {
         console.log('Processing deal for dashboard:', deal.deal_name, 'Stage:', deal.stage, 'Total Revenue:', deal.total_revenue);
         
-        if (deal.stage === 'Won' && deal.total_revenue) {
-          const revenue = Number(deal.total_revenue);
+        if (isWonStage(deal.stage) && deal.total_revenue) {
+          const revenue = converter.toReporting(deal.total_revenue, deal.currency_type, getDealConversionDate(deal));
           totalRevenue += revenue;
           console.log('Adding revenue from Won deal:', revenue, 'Running total:', totalRevenue);
         }
@@ -252,12 +263,13 @@ export const useDashboardStats = () => {
       
       console.log('Final dashboard total revenue:', totalRevenue);
       
-      const wonDeals = deals?.filter(deal => deal.stage === 'Won').length || 0;
+      const wonDeals = deals?.filter(deal => isWonStage(deal.stage)).length || 0;
 
       return {
         totalDeals,
         totalRevenue,
         wonDeals,
+        currency: converter.reportingCurrency,
         todayMeetings: 0 // Remove meetings dependency
       };
     },
@@ -83,6 +83,8 @@ export type Database = {
           phone: string | null
           region: string | null
           score: number | null
+          score_breakdown: Json
+          score_updated_at: string | null
           segment: string | null
           status: string | null
           tags: string[] | null
@@ -108,6 +110,8 @@ export type Database = {
           phone?: string | null
           region?: string | null
           score?: number | null
+          score_breakdown?: Json
+          score_updated_at?: string | null
           segment?: string | null
           status?: string | null
           tags?: string[] | null
@@ -133,6 +137,8 @@ export type Database = {
           phone?: string | null
           region?: string | null
           score?: number | null
+          score_breakdown?: Json
+          score_updated_at?: string | null
           segment?: string | null
           status?: string | null
           tags?: string[] | null
@@ -256,12 +262,14 @@ export type Database = {
       }
       approval_requests: {
         Row: {
+          applied_at: string | null
           completed_at: string | null
           created_at: string | null
           current_step: number | null
           entity_id: string
           entity_type: string
           id: string
+          requested_changes: Json | null
           status: string | null
           submitted_at: string | null
           submitted_by: string | null
@@ -269,12 +277,14 @@ export type Database = {
           workflow_id: string | null
         }
         Insert: {
+          applied_at?: string | null
           completed_at?: string | null
           created_at?: string | null
           current_step?: number | null
           entity_id: string
           entity_type: string
           id?: string
+          requested_changes?: Json | null
           status?: string | null
           submitted_at?: string | null
           submitted_by?: string | null
@@ -282,12 +292,14 @@ export type Database = {
           workflow_id?: string | null
         }
         Update: {
+          applied_at?: string | null
           completed_at?: string | null
           created_at?: string | null
           current_step?: number | null
           entity_id?: string
           entity_type?: string
           id?: string
+          requested_changes?: Json | null
           status?: string | null
           submitted_at?: string | null
           submitted_by?: string | null
@@ -348,7 +360,11 @@ export type Database = {
           frequency: string
           id: string
           is_enabled: boolean | null
+          last_backup_id: string | null
+          last_error: string | null
           last_run_at: string | null
+          last_run_status: string | null
+          last_success_at: string | null
           next_run_at: string | null
           retention_days: number | null
           time_of_day: string
@@ -361,7 +377,11 @@ export type Database = {
           frequency?: string
           id?: string
           is_enabled?: boolean | null
+          last_backup_id?: string | null
+          last_error?: string | null
           last_run_at?: string | null
+          last_run_status?: string | null
+          last_success_at?: string | null
           next_run_at?: string | null
           retention_days?: number | null
           time_of_day?: string
@@ -374,13 +394,25 @@ export type Database = {
           frequency?: string
           id?: string
           is_enabled?: boolean | null
+          last_backup_id?: string | null
+          last_error?: string | null
           last_run_at?: string | null
+          last_run_status?: string | null
+          last_success_at?: string | null
           next_run_at?: string | null
           retention_days?: number | null
           time_of_day?: string
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "backup_schedules_last_backup_id_fkey"
+            columns: ["last_backup_id"]
+            isOneToOne: false
+            referencedRelation: "backups"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       backups: {
         Row: {
@@ -392,6 +424,7 @@ export type Database = {
           id: string
           manifest: Json | null
           records_count: number | null
+          schedule_id: string | null
           size_bytes: number | null
           status: string
           tables_count: number | null
@@ -405,6 +438,7 @@ export type Database = {
           id?: string
           manifest?: Json | null
           records_count?: number | null
+          schedule_id?: string | null
           size_bytes?: number | null
           status?: string
           tables_count?: number | null
@@ -418,11 +452,20 @@ export type Database = {
           id?: string
           manifest?: Json | null
           records_count?: number | null
+          schedule_id?: string | null
           size_bytes?: number | null
           status?: string
           tables_count?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "backups_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "backup_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       branding_settings: {
         Row: {
@@ -466,6 +509,77 @@ export type Database = {
         }
         Relationships: []
       }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          id: string
+          last_accessed_at: string | null
+          token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_accessed_at?: string | null
+          token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_accessed_at?: string | null
+          token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      captured_emails: {
+        Row: {
+          attachments: Json
+          created_at: string
+          email_history_id: string | null
+          html_body: string | null
+          id: string
+          recipient_email: string
+          recipient_name: string | null
+          sender_email: string
+          subject: string
+        }
+        Insert: {
+          attachments?: Json
+          created_at?: string
+          email_history_id?: string | null
+          html_body?: string | null
+          id?: string
+          recipient_email: string
+          recipient_name?: string | null
+          sender_email: string
+          subject: string
+        }
+        Update: {
+          attachments?: Json
+          created_at?: string
+          email_history_id?: string | null
+          html_body?: string | null
+          id?: string
+          recipient_email?: string
+          recipient_name?: string | null
+          sender_email?: string
+          subject?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "captured_emails_email_history_id_fkey"
+            columns: ["email_history_id"]
+            isOneToOne: false
+            referencedRelation: "email_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       contact_activities: {
         Row: {
           activity_date: string
@@ -541,6 +655,8 @@ export type Database = {
           position: string | null
           region: string | null
           score: number | null
+          score_breakdown: Json
+          score_updated_at: string | null
           segment: string | null
           tags: string[] | null
           website: string | null
@@ -569,6 +685,8 @@ export type Database = {
           position?: string | null
           region?: string | null
           score?: number | null
+          score_breakdown?: Json
+          score_updated_at?: string | null
           segment?: string | null
           tags?: string[] | null
           website?: string | null
@@ -597,6 +715,8 @@ export type Database = {
           position?: string | null
           region?: string | null
           score?: number | null
+          score_breakdown?: Json
+          score_updated_at?: string | null
           segment?: string | null
           tags?: string[] | null
           website?: string | null
@@ -656,6 +776,30 @@ export type Database = {
         }
         Relationships: []
       }
+      currency_settings: {
+        Row: {
+          created_at: string
+          id: string
+          reporting_currency: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          reporting_currency?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          reporting_currency?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       dashboard_preferences: {
         Row: {
           card_order: Json | null
@@ -736,12 +880,62 @@ export type Database = {
           },
         ]
       }
+      deal_contacts: {
+        Row: {
+          contact_id: string
+          created_at: string
+          created_by: string | null
+          deal_id: string
+          id: string
+          notes: string | null
+          role: string
+          updated_at: string
+        }
+        Insert: {
+          contact_id: string
+          created_at?: string
+          created_by?: string | null
+          deal_id: string
+          id?: string
+          notes?: string | null
+          role?: string
+          updated_at?: string
+        }
+        Update: {
+          contact_id?: string
+          created_at?: string
+          created_by?: string | null
+          deal_id?: string
+          id?: string
+          notes?: string | null
+          role?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deal_contacts_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deal_contacts_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       deals: {
         Row: {
+          account_id: string | null
           action_items: string | null
           budget: string | null
           business_value: string | null
           closing: string | null
+          contact_id: string | null
           created_at: string | null
           created_by: string | null
           currency_type: string | null
@@ -759,6 +953,7 @@ export type Database = {
           implementation_start_date: string | null
           internal_comment: string | null
           is_recurring: string | null
+          lead_id: string | null
           lead_name: string | null
           lead_owner: string | null
           lost_reason: string | null
@@ -786,10 +981,12 @@ export type Database = {
           won_reason: string | null
         }
         Insert: {
+          account_id?: string | null
           action_items?: string | null
           budget?: string | null
           business_value?: string | null
           closing?: string | null
+          contact_id?: string | null
           created_at?: string | null
           created_by?: string | null
           currency_type?: string | null
@@ -807,6 +1004,7 @@ export type Database = {
           implementation_start_date?: string | null
           internal_comment?: string | null
           is_recurring?: string | null
+          lead_id?: string | null
           lead_name?: string | null
           lead_owner?: string | null
           lost_reason?: string | null
@@ -834,10 +1032,12 @@ export type Database = {
           won_reason?: string | null
         }
         Update: {
+          account_id?: string | null
           action_items?: string | null
           budget?: string | null
           business_value?: string | null
           closing?: string | null
+          contact_id?: string | null
           created_at?: string | null
           created_by?: string | null
           currency_type?: string | null
@@ -855,6 +1055,7 @@ export type Database = {
           implementation_start_date?: string | null
           internal_comment?: string | null
           is_recurring?: string | null
+          lead_id?: string | null
           lead_name?: string | null
           lead_owner?: string | null
           lost_reason?: string | null
@@ -881,12 +1082,179 @@ export type Database = {
           total_revenue?: number | null
           won_reason?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "deals_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deals_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deals_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_campaign_recipients: {
+        Row: {
+          attempts: number
+          campaign_id: string
+          contact_id: string | null
+          created_at: string
+          email_history_id: string | null
+          id: string
+          last_attempt_at: string | null
+          last_error: string | null
+          lead_id: string | null
+          next_attempt_at: string
+          recipient_email: string
+          recipient_name: string | null
+          sent_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          campaign_id: string
+          contact_id?: string | null
+          created_at?: string
+          email_history_id?: string | null
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          lead_id?: string | null
+          next_attempt_at?: string
+          recipient_email: string
+          recipient_name?: string | null
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          campaign_id?: string
+          contact_id?: string | null
+          created_at?: string
+          email_history_id?: string | null
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          lead_id?: string | null
+          next_attempt_at?: string
+          recipient_email?: string
+          recipient_name?: string | null
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_campaign_recipients_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "email_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_campaign_recipients_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_campaign_recipients_email_history_id_fkey"
+            columns: ["email_history_id"]
+            isOneToOne: false
+            referencedRelation: "email_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_campaign_recipients_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_campaigns: {
+        Row: {
+          body: string | null
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          max_attempts: number
+          name: string
+          send_rate_per_minute: number
+          sender_email: string
+          started_at: string
+          status: string
+          subject: string
+          template_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          body?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          max_attempts?: number
+          name: string
+          send_rate_per_minute?: number
+          sender_email: string
+          started_at?: string
+          status?: string
+          subject: string
+          template_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          body?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          max_attempts?: number
+          name?: string
+          send_rate_per_minute?: number
+          sender_email?: string
+          started_at?: string
+          status?: string
+          subject?: string
+          template_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_campaigns_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "email_templates"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       email_history: {
         Row: {
           account_id: string | null
           body: string | null
+          bounce_reason: string | null
+          bounced_at: string | null
+          campaign_id: string | null
           click_count: number | null
           clicked_at: string | null
           contact_id: string | null
@@ -894,20 +1262,28 @@ export type Database = {
           delivered_at: string | null
           id: string
           lead_id: string | null
+          message_id: string | null
           open_count: number | null
           opened_at: string | null
           recipient_email: string
           recipient_name: string | null
+          replied_at: string | null
+          reply_count: number
           sender_email: string
           sent_at: string
           sent_by: string | null
+          sequence_enrollment_id: string | null
           status: string
           subject: string
+          transport: string | null
           updated_at: string
         }
         Insert: {
           account_id?: string | null
           body?: string | null
+          bounce_reason?: string | null
+          bounced_at?: string | null
+          campaign_id?: string | null
           click_count?: number | null
           clicked_at?: string | null
           contact_id?: string | null
@@ -915,20 +1291,28 @@ export type Database = {
           delivered_at?: string | null
           id?: string
           lead_id?: string | null
+          message_id?: string | null
           open_count?: number | null
           opened_at?: string | null
           recipient_email: string
           recipient_name?: string | null
+          replied_at?: string | null
+          reply_count?: number
           sender_email: string
           sent_at?: string
           sent_by?: string | null
+          sequence_enrollment_id?: string | null
           status?: string
           subject: string
+          transport?: string | null
           updated_at?: string
         }
         Update: {
           account_id?: string | null
           body?: string | null
+          bounce_reason?: string | null
+          bounced_at?: string | null
+          campaign_id?: string | null
           click_count?: number | null
           clicked_at?: string | null
           contact_id?: string | null
@@ -936,15 +1320,20 @@ export type Database = {
           delivered_at?: string | null
           id?: string
           lead_id?: string | null
+          message_id?: string | null
           open_count?: number | null
           opened_at?: string | null
           recipient_email?: string
           recipient_name?: string | null
+          replied_at?: string | null
+          reply_count?: number
           sender_email?: string
           sent_at?: string
           sent_by?: string | null
+          sequence_enrollment_id?: string | null
           status?: string
           subject?: string
+          transport?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -955,6 +1344,13 @@ export type Database = {
             referencedRelation: "accounts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "email_history_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "email_campaigns"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "email_history_contact_id_fkey"
             columns: ["contact_id"]
@@ -969,8 +1365,304 @@ export type Database = {
             referencedRelation: "leads"
             referencedColumns: ["id"]
           },
-        ]
-      }
+          {
+            foreignKeyName: "email_history_sequence_enrollment_id_fkey"
+            columns: ["sequence_enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequence_enrollments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_links: {
+        Row: {
+          click_count: number
+          created_at: string
+          email_history_id: string
+          first_clicked_at: string | null
+          id: string
+          last_clicked_at: string | null
+          position: number
+          url: string
+        }
+        Insert: {
+          click_count?: number
+          created_at?: string
+          email_history_id: string
+          first_clicked_at?: string | null
+          id?: string
+          last_clicked_at?: string | null
+          position: number
+          url: string
+        }
+        Update: {
+          click_count?: number
+          created_at?: string
+          email_history_id?: string
+          first_clicked_at?: string | null
+          id?: string
+          last_clicked_at?: string | null
+          position?: number
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_links_email_history_id_fkey"
+            columns: ["email_history_id"]
+            isOneToOne: false
+            referencedRelation: "email_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_sequence_enrollments: {
+        Row: {
+          attempts: number
+          contact_id: string | null
+          created_at: string
+          current_step: number
+          enrolled_by: string | null
+          exited_at: string | null
+          id: string
+          last_error: string | null
+          last_step_at: string | null
+          lead_id: string | null
+          next_step_at: string
+          recipient_email: string
+          recipient_name: string | null
+          sender_email: string
+          sequence_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          contact_id?: string | null
+          created_at?: string
+          current_step?: number
+          enrolled_by?: string | null
+          exited_at?: string | null
+          id?: string
+          last_error?: string | null
+          last_step_at?: string | null
+          lead_id?: string | null
+          next_step_at?: string
+          recipient_email: string
+          recipient_name?: string | null
+          sender_email: string
+          sequence_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          contact_id?: string | null
+          created_at?: string
+          current_step?: number
+          enrolled_by?: string | null
+          exited_at?: string | null
+          id?: string
+          last_error?: string | null
+          last_step_at?: string | null
+          lead_id?: string | null
+          next_step_at?: string
+          recipient_email?: string
+          recipient_name?: string | null
+          sender_email?: string
+          sequence_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_sequence_enrollments_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_enrollments_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_enrollments_sequence_id_fkey"
+            columns: ["sequence_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequences"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_sequence_steps: {
+        Row: {
+          created_at: string
+          delay_days: number
+          id: string
+          position: number
+          sequence_id: string
+          step_type: string
+          task_description: string | null
+          task_title: string | null
+          template_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          delay_days?: number
+          id?: string
+          position: number
+          sequence_id: string
+          step_type: string
+          task_description?: string | null
+          task_title?: string | null
+          template_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          delay_days?: number
+          id?: string
+          position?: number
+          sequence_id?: string
+          step_type?: string
+          task_description?: string | null
+          task_title?: string | null
+          template_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_sequence_steps_sequence_id_fkey"
+            columns: ["sequence_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequences"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_steps_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "email_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_sequences: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      email_suppressions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          email: string
+          email_history_id: string | null
+          id: string
+          notes: string | null
+          reason: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          email: string
+          email_history_id?: string | null
+          id?: string
+          notes?: string | null
+          reason: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          email?: string
+          email_history_id?: string | null
+          id?: string
+          notes?: string | null
+          reason?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_suppressions_email_history_id_fkey"
+            columns: ["email_history_id"]
+            isOneToOne: false
+            referencedRelation: "email_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_template_versions: {
+        Row: {
+          body: string
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          subject: string
+          template_id: string
+          version: number
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          subject: string
+          template_id: string
+          version: number
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          subject?: string
+          template_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_template_versions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "email_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       email_templates: {
         Row: {
           body: string
@@ -980,6 +1672,7 @@ export type Database = {
           name: string
           subject: string
           updated_at: string
+          version: number
         }
         Insert: {
           body: string
@@ -989,6 +1682,7 @@ export type Database = {
           name: string
           subject: string
           updated_at?: string
+          version?: number
         }
         Update: {
           body?: string
@@ -998,6 +1692,40 @@ export type Database = {
           name?: string
           subject?: string
           updated_at?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          effective_date: string
+          from_currency: string
+          id: string
+          rate: number
+          to_currency: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          effective_date?: string
+          from_currency: string
+          id?: string
+          rate: number
+          to_currency: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          effective_date?: string
+          from_currency?: string
+          id?: string
+          rate?: number
+          to_currency?: string
+          updated_at?: string
         }
         Relationships: []
       }
@@ -1034,6 +1762,119 @@ export type Database = {
         }
         Relationships: []
       }
+      inbound_emails: {
+        Row: {
+          account_id: string | null
+          body_text: string | null
+          bounce_type: string | null
+          contact_id: string | null
+          created_at: string
+          diagnostic: string | null
+          email_history_id: string
+          from_email: string | null
+          from_name: string | null
+          id: string
+          kind: string
+          lead_id: string | null
+          message_id: string | null
+          received_at: string
+          source: string
+          subject: string | null
+        }
+        Insert: {
+          account_id?: string | null
+          body_text?: string | null
+          bounce_type?: string | null
+          contact_id?: string | null
+          created_at?: string
+          diagnostic?: string | null
+          email_history_id: string
+          from_email?: string | null
+          from_name?: string | null
+          id?: string
+          kind: string
+          lead_id?: string | null
+          message_id?: string | null
+          received_at?: string
+          source?: string
+          subject?: string | null
+        }
+        Update: {
+          account_id?: string | null
+          body_text?: string | null
+          bounce_type?: string | null
+          contact_id?: string | null
+          created_at?: string
+          diagnostic?: string | null
+          email_history_id?: string
+          from_email?: string | null
+          from_name?: string | null
+          id?: string
+          kind?: string
+          lead_id?: string | null
+          message_id?: string | null
+          received_at?: string
+          source?: string
+          subject?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inbound_emails_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inbound_emails_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inbound_emails_email_history_id_fkey"
+            columns: ["email_history_id"]
+            isOneToOne: false
+            referencedRelation: "email_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inbound_emails_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inbound_mailbox_cursors: {
+        Row: {
+          created_at: string
+          last_error: string | null
+          last_polled_at: string | null
+          last_received_at: string
+          mailbox: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          last_error?: string | null
+          last_polled_at?: string | null
+          last_received_at: string
+          mailbox: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          last_error?: string | null
+          last_polled_at?: string | null
+          last_received_at?: string
+          mailbox?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       integration_settings: {
         Row: {
           config: Json | null
@@ -1071,55 +1912,231 @@ export type Database = {
         Row: {
           "Able to read DB": string | null
           created_at: string
-          id: number
+          id: number
+        }
+        Insert: {
+          "Able to read DB"?: string | null
+          created_at?: string
+          id?: number
+        }
+        Update: {
+          "Able to read DB"?: string | null
+          created_at?: string
+          id?: number
+        }
+        Relationships: []
+      }
+      lead_action_items: {
+        Row: {
+          assigned_to: string | null
+          created_at: string
+          created_by: string | null
+          due_date: string | null
+          id: string
+          lead_id: string
+          next_action: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          created_at?: string
+          created_by?: string | null
+          due_date?: string | null
+          id?: string
+          lead_id: string
+          next_action: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          assigned_to?: string | null
+          created_at?: string
+          created_by?: string | null
+          due_date?: string | null
+          id?: string
+          lead_id?: string
+          next_action?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      lead_assignment_log: {
+        Row: {
+          assigned_to: string
+          created_at: string
+          created_by: string | null
+          distribution_method: string
+          id: string
+          lead_id: string
+          reason: string
+          rule_id: string | null
+          rule_name: string
+        }
+        Insert: {
+          assigned_to: string
+          created_at?: string
+          created_by?: string | null
+          distribution_method: string
+          id?: string
+          lead_id: string
+          reason: string
+          rule_id?: string | null
+          rule_name: string
+        }
+        Update: {
+          assigned_to?: string
+          created_at?: string
+          created_by?: string | null
+          distribution_method?: string
+          id?: string
+          lead_id?: string
+          reason?: string
+          rule_id?: string | null
+          rule_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_assignment_log_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_assignment_log_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "lead_assignment_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_assignment_rules: {
+        Row: {
+          assignee_ids: string[]
+          company_sizes: string[]
+          countries: string[]
+          created_at: string
+          created_by: string | null
+          distribution_method: string
+          id: string
+          industries: string[]
+          is_active: boolean
+          last_assigned_to: string | null
+          name: string
+          priority: number
+          sources: string[]
+          updated_at: string
         }
         Insert: {
-          "Able to read DB"?: string | null
+          assignee_ids?: string[]
+          company_sizes?: string[]
+          countries?: string[]
           created_at?: string
-          id?: number
+          created_by?: string | null
+          distribution_method?: string
+          id?: string
+          industries?: string[]
+          is_active?: boolean
+          last_assigned_to?: string | null
+          name: string
+          priority?: number
+          sources?: string[]
+          updated_at?: string
         }
         Update: {
-          "Able to read DB"?: string | null
+          assignee_ids?: string[]
+          company_sizes?: string[]
+          countries?: string[]
           created_at?: string
-          id?: number
+          created_by?: string | null
+          distribution_method?: string
+          id?: string
+          industries?: string[]
+          is_active?: boolean
+          last_assigned_to?: string | null
+          name?: string
+          priority?: number
+          sources?: string[]
+          updated_at?: string
         }
         Relationships: []
       }
-      lead_action_items: {
+      lead_conversions: {
         Row: {
-          assigned_to: string | null
-          created_at: string
-          created_by: string | null
-          due_date: string | null
+          account_created: boolean
+          account_id: string | null
+          action_items_moved: number
+          contact_created: boolean
+          contact_id: string | null
+          converted_at: string
+          converted_by: string | null
+          deal_id: string | null
+          emails_moved: number
           id: string
           lead_id: string
-          next_action: string
-          status: string
-          updated_at: string
+          meetings_moved: number
         }
         Insert: {
-          assigned_to?: string | null
-          created_at?: string
-          created_by?: string | null
-          due_date?: string | null
+          account_created?: boolean
+          account_id?: string | null
+          action_items_moved?: number
+          contact_created?: boolean
+          contact_id?: string | null
+          converted_at?: string
+          converted_by?: string | null
+          deal_id?: string | null
+          emails_moved?: number
           id?: string
           lead_id: string
-          next_action: string
-          status?: string
-          updated_at?: string
+          meetings_moved?: number
         }
         Update: {
-          assigned_to?: string | null
-          created_at?: string
-          created_by?: string | null
-          due_date?: string | null
+          account_created?: boolean
+          account_id?: string | null
+          action_items_moved?: number
+          contact_created?: boolean
+          contact_id?: string | null
+          converted_at?: string
+          converted_by?: string | null
+          deal_id?: string | null
+          emails_moved?: number
           id?: string
           lead_id?: string
-          next_action?: string
-          status?: string
-          updated_at?: string
+          meetings_moved?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "lead_conversions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_conversions_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_conversions_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_conversions_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       lead_statuses: {
         Row: {
@@ -1160,7 +2177,9 @@ export type Database = {
       leads: {
         Row: {
           account_id: string | null
+          assignment_rule_id: string | null
           company_name: string | null
+          company_size: string | null
           contact_owner: string | null
           contact_source: string | null
           country: string | null
@@ -1177,11 +2196,16 @@ export type Database = {
           modified_time: string | null
           phone_no: string | null
           position: string | null
+          score: number
+          score_breakdown: Json
+          score_updated_at: string | null
           website: string | null
         }
         Insert: {
           account_id?: string | null
+          assignment_rule_id?: string | null
           company_name?: string | null
+          company_size?: string | null
           contact_owner?: string | null
           contact_source?: string | null
           country?: string | null
@@ -1198,11 +2222,16 @@ export type Database = {
           modified_time?: string | null
           phone_no?: string | null
           position?: string | null
+          score?: number
+          score_breakdown?: Json
+          score_updated_at?: string | null
           website?: string | null
         }
         Update: {
           account_id?: string | null
+          assignment_rule_id?: string | null
           company_name?: string | null
+          company_size?: string | null
           contact_owner?: string | null
           contact_source?: string | null
           country?: string | null
@@ -1219,6 +2248,9 @@ export type Database = {
           modified_time?: string | null
           phone_no?: string | null
           position?: string | null
+          score?: number
+          score_breakdown?: Json
+          score_updated_at?: string | null
           website?: string | null
         }
         Relationships: [
@@ -1325,6 +2357,51 @@ export type Database = {
           },
         ]
       }
+      meeting_series: {
+        Row: {
+          by_weekday: number[] | null
+          created_at: string
+          created_by: string | null
+          duration_minutes: number
+          frequency: string
+          id: string
+          occurrence_count: number | null
+          repeat_interval: number
+          starts_at: string
+          timezone: string
+          until_date: string | null
+          updated_at: string
+        }
+        Insert: {
+          by_weekday?: number[] | null
+          created_at?: string
+          created_by?: string | null
+          duration_minutes: number
+          frequency: string
+          id?: string
+          occurrence_count?: number | null
+          repeat_interval?: number
+          starts_at: string
+          timezone?: string
+          until_date?: string | null
+          updated_at?: string
+        }
+        Update: {
+          by_weekday?: number[] | null
+          created_at?: string
+          created_by?: string | null
+          duration_minutes?: number
+          frequency?: string
+          id?: string
+          occurrence_count?: number | null
+          repeat_interval?: number
+          starts_at?: string
+          timezone?: string
+          until_date?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       meetings: {
         Row: {
           attendees: Json | null
@@ -1334,10 +2411,13 @@ export type Database = {
           description: string | null
           end_time: string
           id: string
+          is_series_exception: boolean
           join_url: string | null
           lead_id: string | null
           notes: string | null
+          original_start_time: string | null
           outcome: string | null
+          series_id: string | null
           start_time: string
           status: string
           subject: string
@@ -1351,10 +2431,13 @@ export type Database = {
           description?: string | null
           end_time: string
           id?: string
+          is_series_exception?: boolean
           join_url?: string | null
           lead_id?: string | null
           notes?: string | null
+          original_start_time?: string | null
           outcome?: string | null
+          series_id?: string | null
           start_time: string
           status?: string
           subject: string
@@ -1368,10 +2451,13 @@ export type Database = {
           description?: string | null
           end_time?: string
           id?: string
+          is_series_exception?: boolean
           join_url?: string | null
           lead_id?: string | null
           notes?: string | null
+          original_start_time?: string | null
           outcome?: string | null
+          series_id?: string | null
           start_time?: string
           status?: string
           subject?: string
@@ -1392,6 +2478,13 @@ export type Database = {
             referencedRelation: "leads"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "meetings_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "meeting_series"
+            referencedColumns: ["id"]
+          },
         ]
       }
       notification_preferences: {
@@ -1445,9 +2538,11 @@ export type Database = {
           created_at: string
           id: string
           lead_id: string | null
+          meeting_id: string | null
           message: string
           notification_type: string
           status: string
+          task_id: string | null
           updated_at: string
           user_id: string
         }
@@ -1456,9 +2551,11 @@ export type Database = {
           created_at?: string
           id?: string
           lead_id?: string | null
+          meeting_id?: string | null
           message: string
           notification_type?: string
           status?: string
+          task_id?: string | null
           updated_at?: string
           user_id: string
         }
@@ -1467,13 +2564,30 @@ export type Database = {
           created_at?: string
           id?: string
           lead_id?: string | null
+          meeting_id?: string | null
           message?: string
           notification_type?: string
           status?: string
+          task_id?: string | null
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "notifications_meeting_id_fkey"
+            columns: ["meeting_id"]
+            isOneToOne: false
+            referencedRelation: "meetings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       page_permissions: {
         Row: {
@@ -1519,6 +2633,8 @@ export type Database = {
           is_active: boolean | null
           is_lost_stage: boolean | null
           is_won_stage: boolean | null
+          outcome: string | null
+          required_fields: string[]
           stage_color: string | null
           stage_name: string
           stage_order: number
@@ -1532,6 +2648,8 @@ export type Database = {
           is_active?: boolean | null
           is_lost_stage?: boolean | null
           is_won_stage?: boolean | null
+          outcome?: string | null
+          required_fields?: string[]
           stage_color?: string | null
           stage_name: string
           stage_order?: number
@@ -1545,6 +2663,8 @@ export type Database = {
           is_active?: boolean | null
           is_lost_stage?: boolean | null
           is_won_stage?: boolean | null
+          outcome?: string | null
+          required_fields?: string[]
           stage_color?: string | null
           stage_name?: string
           stage_order?: number
@@ -1589,8 +2709,65 @@ export type Database = {
         }
         Relationships: []
       }
+      report_runs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          error_message: string | null
+          failed_recipients: Json | null
+          id: string
+          recipients: Json | null
+          row_count: number | null
+          schedule_id: string
+          sent_count: number | null
+          started_at: string
+          status: string
+          trigger: string
+          triggered_by: string | null
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          error_message?: string | null
+          failed_recipients?: Json | null
+          id?: string
+          recipients?: Json | null
+          row_count?: number | null
+          schedule_id: string
+          sent_count?: number | null
+          started_at?: string
+          status?: string
+          trigger?: string
+          triggered_by?: string | null
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          error_message?: string | null
+          failed_recipients?: Json | null
+          id?: string
+          recipients?: Json | null
+          row_count?: number | null
+          schedule_id?: string
+          sent_count?: number | null
+          started_at?: string
+          status?: string
+          trigger?: string
+          triggered_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_runs_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "report_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       report_schedules: {
         Row: {
+          attachment_format: string
           created_at: string | null
           created_by: string | null
           day_of_month: number | null
@@ -1599,14 +2776,19 @@ export type Database = {
           frequency: string
           id: string
           is_enabled: boolean | null
+          last_error: string | null
+          last_run_at: string | null
+          last_run_status: string | null
           last_sent_at: string | null
           name: string
           recipients: Json | null
           report_type: string
           time_of_day: string
+          timezone: string
           updated_at: string | null
         }
         Insert: {
+          attachment_format?: string
           created_at?: string | null
           created_by?: string | null
           day_of_month?: number | null
@@ -1615,14 +2797,19 @@ export type Database = {
           frequency?: string
           id?: string
           is_enabled?: boolean | null
+          last_error?: string | null
+          last_run_at?: string | null
+          last_run_status?: string | null
           last_sent_at?: string | null
           name: string
           recipients?: Json | null
           report_type: string
           time_of_day?: string
+          timezone?: string
           updated_at?: string | null
         }
         Update: {
+          attachment_format?: string
           created_at?: string | null
           created_by?: string | null
           day_of_month?: number | null
@@ -1631,11 +2818,15 @@ export type Database = {
           frequency?: string
           id?: string
           is_enabled?: boolean | null
+          last_error?: string | null
+          last_run_at?: string | null
+          last_run_status?: string | null
           last_sent_at?: string | null
           name?: string
           recipients?: Json | null
           report_type?: string
           time_of_day?: string
+          timezone?: string
           updated_at?: string | null
         }
         Relationships: []
@@ -1670,6 +2861,93 @@ export type Database = {
         }
         Relationships: []
       }
+      score_history: {
+        Row: {
+          breakdown: Json
+          created_at: string
+          entity_id: string
+          entity_type: string
+          id: string
+          previous_score: number | null
+          reason: string | null
+          score: number
+        }
+        Insert: {
+          breakdown?: Json
+          created_at?: string
+          entity_id: string
+          entity_type: string
+          id?: string
+          previous_score?: number | null
+          reason?: string | null
+          score: number
+        }
+        Update: {
+          breakdown?: Json
+          created_at?: string
+          entity_id?: string
+          entity_type?: string
+          id?: string
+          previous_score?: number | null
+          reason?: string | null
+          score?: number
+        }
+        Relationships: []
+      }
+      scoring_rules: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          entity_type: string
+          field: string | null
+          id: string
+          is_active: boolean
+          match_operator: string
+          match_values: string[]
+          max_points: number | null
+          name: string
+          period_days: number | null
+          points: number
+          rule_type: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          entity_type?: string
+          field?: string | null
+          id?: string
+          is_active?: boolean
+          match_operator?: string
+          match_values?: string[]
+          max_points?: number | null
+          name: string
+          period_days?: number | null
+          points?: number
+          rule_type: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          entity_type?: string
+          field?: string | null
+          id?: string
+          is_active?: boolean
+          match_operator?: string
+          match_values?: string[]
+          max_points?: number | null
+          name?: string
+          period_days?: number | null
+          points?: number
+          rule_type?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       security_audit_log: {
         Row: {
           action: string
@@ -1793,6 +3071,7 @@ export type Database = {
           recurrence: string | null
           recurrence_end_date: string | null
           reminder_date: string | null
+          reminder_sent_at: string | null
           status: string
           tags: string[] | null
           title: string
@@ -1819,6 +3098,7 @@ export type Database = {
           recurrence?: string | null
           recurrence_end_date?: string | null
           reminder_date?: string | null
+          reminder_sent_at?: string | null
           status?: string
           tags?: string[] | null
           title: string
@@ -1845,6 +3125,7 @@ export type Database = {
           recurrence?: string | null
           recurrence_end_date?: string | null
           reminder_date?: string | null
+          reminder_sent_at?: string | null
           status?: string
           tags?: string[] | null
           title?: string
@@ -2004,6 +3285,7 @@ export type Database = {
         Row: {
           created_at: string
           created_by: string | null
+          currency: string | null
           id: string
           total_target: number
           updated_at: string
@@ -2012,6 +3294,7 @@ export type Database = {
         Insert: {
           created_at?: string
           created_by?: string | null
+          currency?: string | null
           id?: string
           total_target?: number
           updated_at?: string
@@ -2020,6 +3303,7 @@ export type Database = {
         Update: {
           created_at?: string
           created_by?: string | null
+          currency?: string | null
           id?: string
           total_target?: number
           updated_at?: string
@@ -2032,14 +3316,150 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      calculate_account_score: {
-        Args: { p_account_id: string }
-        Returns: number
+      act_on_approval_request: {
+        Args: { p_action: string; p_comments?: string; p_request_id: string }
+        Returns: string
       }
-      calculate_contact_score: {
-        Args: { p_contact_id: string }
+      approval_condition_matches: {
+        Args: { p_conditions: Json; p_record: Json }
+        Returns: boolean
+      }
+      approval_entity_label: {
+        Args: { p_entity_id: string; p_entity_type: string }
+        Returns: string
+      }
+      approval_guard_field: { Args: { p_entity_type: string }; Returns: string }
+      approval_step_approvers: { Args: { p_step: Json }; Returns: string[] }
+      calculate_score: {
+        Args: { p_entity_id: string; p_entity_type: string }
+        Returns: Json
+      }
+      claim_email_campaign_recipients: {
+        Args: { p_campaign_id: string }
+        Returns: {
+          attempts: number
+          campaign_id: string
+          contact_id: string | null
+          created_at: string
+          email_history_id: string | null
+          id: string
+          last_attempt_at: string | null
+          last_error: string | null
+          lead_id: string | null
+          next_attempt_at: string
+          recipient_email: string
+          recipient_name: string | null
+          sent_at: string | null
+          status: string
+          updated_at: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "email_campaign_recipients"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      claim_email_sequence_enrollments: {
+        Args: { p_limit?: number }
+        Returns: {
+          attempts: number
+          contact_id: string | null
+          created_at: string
+          current_step: number
+          enrolled_by: string | null
+          exited_at: string | null
+          id: string
+          last_error: string | null
+          last_step_at: string | null
+          lead_id: string | null
+          next_step_at: string
+          recipient_email: string
+          recipient_name: string | null
+          sender_email: string
+          sequence_id: string
+          status: string
+          updated_at: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "email_sequence_enrollments"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      complete_lead_conversion: {
+        Args: {
+          p_account_id?: string
+          p_contact_id?: string
+          p_deal: Json
+          p_lead_id: string
+          p_lead_status?: string
+          p_new_account?: Json
+          p_new_contact?: Json
+        }
+        Returns: Json
+      }
+      compute_backup_next_run: {
+        Args: {
+          p_after?: string
+          p_day_of_week: number
+          p_frequency: string
+          p_time_of_day: string
+        }
+        Returns: string
+      }
+      convert_currency: {
+        Args: {
+          p_amount: number
+          p_from: string
+          p_on?: string
+          p_to: string
+        }
         Returns: number
       }
+      currency_rate_periods: {
+        Args: { p_to?: string }
+        Returns: {
+          currency: string
+          rate: number
+          valid_from: string
+          valid_to: string
+        }[]
+      }
+      get_active_sender_mailboxes: {
+        Args: { p_since: string }
+        Returns: string[]
+      }
+      get_email_campaign_stats: {
+        Args: never
+        Returns: {
+          campaign_id: string
+          cancelled: number
+          clicked: number
+          failed: number
+          opened: number
+          pending: number
+          sent: number
+          total: number
+        }[]
+      }
+      get_email_sequence_stats: {
+        Args: never
+        Returns: {
+          active: number
+          clicked: number
+          completed: number
+          emails_sent: number
+          enrolled: number
+          failed: number
+          meeting_booked: number
+          opened: number
+          replied: number
+          sequence_id: string
+          stopped: number
+        }[]
+      }
       get_user_role: { Args: { p_user_id: string }; Returns: string }
       is_current_user_admin: { Args: never; Returns: boolean }
       is_current_user_admin_by_metadata: { Args: never; Returns: boolean }
@@ -2061,6 +3481,46 @@ export type Database = {
         }
         Returns: undefined
       }
+      next_task_due_date: {
+        Args: {
+          p_anchor?: string
+          p_from: string
+          p_recurrence: Database["public"]["Enums"]["task_recurrence"]
+        }
+        Returns: string
+      }
+      notify_approval_step: {
+        Args: { p_request_id: string }
+        Returns: undefined
+      }
+      rearm_meeting_reminders: {
+        Args: { p_meeting_id: string }
+        Returns: undefined
+      }
+      recalculate_scores: {
+        Args: { p_entity_id?: string; p_entity_type?: string; p_reason?: string }
+        Returns: number
+      }
+      record_email_link_click: {
+        Args: { p_link_id: string }
+        Returns: {
+          email_history_id: string
+          first_click: boolean
+          url: string
+        }[]
+      }
+      refresh_score: {
+        Args: { p_entity_id: string; p_entity_type: string; p_reason?: string }
+        Returns: number
+      }
+      restore_backup_rows: {
+        Args: { p_rows: Json; p_table: string }
+        Returns: number
+      }
+      snooze_task_reminder: {
+        Args: { p_minutes: number; p_notification_id: string }
+        Returns: string
+      }
       update_account_stats: {
         Args: { p_account_id: string }
         Returns: undefined
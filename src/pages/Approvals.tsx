@@ -0,0 +1,262 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow, format } from 'date-fns';
+import { ClipboardCheck, CheckCircle2, XCircle, ArrowRight, ExternalLink, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
+import { ApprovalDecision, ApprovalRequest, useApprovals } from '@/hooks/useApprovals';
+
+const entityRoutes: Record<string, string> = {
+  deals: '/deals',
+  leads: '/leads',
+  accounts: '/accounts',
+};
+
+const statusStyles: Record<string, string> = {
+  pending: 'bg-amber-50 text-amber-700 border-amber-200',
+  approved: 'bg-green-50 text-green-700 border-green-200',
+  rejected: 'bg-red-50 text-red-700 border-red-200',
+};
+
+const formatRequestedChanges = (changes: Record<string, unknown> | null) => {
+  if (!changes) return null;
+  return Object.entries(changes)
+    .map(([field, value]) => `${field.replace(/_/g, ' ')} → ${value ?? '—'}`)
+    .join(', ');
+};
+
+const Approvals = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { requests, isLoading, refetch, canActOn, actOnRequest, isActing } = useApprovals();
+  const [decision, setDecision] = useState<{ request: ApprovalRequest; action: ApprovalDecision } | null>(null);
+  const [comments, setComments] = useState('');
+
+  const userIds = useMemo(() => {
+    const ids = new Set<string>();
+    requests.forEach(request => {
+      if (request.submitted_by) ids.add(request.submitted_by);
+      request.actions.forEach(action => ids.add(action.approver_id));
+    });
+    return [...ids];
+  }, [requests]);
+  const { displayNames } = useUserDisplayNames(userIds);
+
+  const awaitingMe = requests.filter(canActOn);
+  const submittedByMe = requests.filter(request => request.submitted_by === user?.id);
+
+  const openDecision = (request: ApprovalRequest, action: ApprovalDecision) => {
+    setComments('');
+    setDecision({ request, action });
+  };
+
+  const handleConfirmDecision = async () => {
+    if (!decision) return;
+
+    if (decision.action === 'rejected' && !comments.trim()) {
+      toast.error('Please add a comment explaining the rejection');
+      return;
+    }
+
+    try {
+      const status = await actOnRequest({
+        requestId: decision.request.id,
+        action: decision.action,
+        comments,
+      });
+
+      if (status === 'approved') {
+        toast.success(`Approved "${decision.request.entity_label}"`);
+      } else if (status === 'rejected') {
+        toast.success(`Rejected "${decision.request.entity_label}"`);
+      } else {
+        toast.success('Step approved, sent to the next approver');
+      }
+      setDecision(null);
+    } catch (error) {
+      console.error('Error acting on approval request:', error);
+      toast.error((error as { message?: string }).message || 'Failed to record decision');
+    }
+  };
+
+  const renderRequest = (request: ApprovalRequest) => {
+    const totalSteps = request.approval_steps.length || 1;
+    const requestedChange = formatRequestedChanges(request.requested_changes);
+
+    return (
+      <Card key={request.id}>
+        <CardContent className="py-4">
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex-1 min-w-0 space-y-2">
+              <div className="flex items-center gap-2 flex-wrap">
+                <h4 className="font-medium truncate">{request.entity_label}</h4>
+                <Badge variant="outline" className="capitalize">{request.entity_type}</Badge>
+                <Badge variant="outline" className={`capitalize ${statusStyles[request.status]}`}>
+                  {request.status === 'pending' ? `Pending (step ${request.current_step}/${totalSteps})` : request.status}
+                </Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {request.workflow_name}
+                {requestedChange && <> • Requested change: <span className="text-foreground capitalize">{requestedChange}</span></>}
+              </p>
+              <div className="flex items-center gap-2 text-xs text-muted-foreground flex-wrap">
+                {request.approval_steps.map((step, i) => {
+                  const action = request.actions.find(a => a.step_number === step.step);
+                  return (
+                    <div key={step.step} className="flex items-center gap-1">
+                      <Badge
+                        variant="secondary"
+                        className={`capitalize ${action ? statusStyles[action.action] : ''}`}
+                      >
+                        {step.role}
+                      </Badge>
+                      {i < request.approval_steps.length - 1 && <ArrowRight className="h-3 w-3" />}
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Submitted by {request.submitted_by ? displayNames[request.submitted_by] || 'Unknown' : 'System'}
+                {request.submitted_at && ` ${formatDistanceToNow(new Date(request.submitted_at), { addSuffix: true })}`}
+              </p>
+              {request.actions.length > 0 && (
+                <div className="border-l-2 pl-3 space-y-1">
+                  {request.actions.map(action => (
+                    <p key={action.id} className="text-xs">
+                      <span className="font-medium capitalize">{action.action}</span>
+                      {' '}at step {action.step_number} by {displayNames[action.approver_id] || 'Unknown'}
+                      {action.acted_at && ` on ${format(new Date(action.acted_at), 'dd/MM/yyyy HH:mm')}`}
+                      {action.comments && <span className="text-muted-foreground"> — {action.comments}</span>}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <Button variant="ghost" size="icon" title="Open record" onClick={() => navigate(entityRoutes[request.entity_type])}>
+                <ExternalLink className="h-4 w-4" />
+              </Button>
+              {canActOn(request) && (
+                <>
+                  <Button variant="outline" size="sm" onClick={() => openDecision(request, 'rejected')}>
+                    <XCircle className="h-4 w-4 mr-1 text-destructive" />
+                    Reject
+                  </Button>
+                  <Button size="sm" onClick={() => openDecision(request, 'approved')}>
+                    <CheckCircle2 className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderList = (items: ApprovalRequest[], emptyMessage: string) => {
+    if (items.length === 0) {
+      return (
+        <div className="text-center text-muted-foreground py-16">
+          <ClipboardCheck className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>{emptyMessage}</p>
+        </div>
+      );
+    }
+    return <div className="space-y-3">{items.map(renderRequest)}</div>;
+  };
+
+  return (
+    <div className="h-screen flex flex-col bg-background overflow-hidden">
+      {/* Fixed Header */}
+      <div className="flex-shrink-0 bg-background">
+        <div className="px-6 h-16 flex items-center border-b w-full">
+          <div className="flex items-center justify-between w-full">
+            <div className="flex items-center gap-3">
+              <ClipboardCheck className="h-6 w-6 text-primary" />
+              <h1 className="text-2xl font-bold text-foreground">Approvals</h1>
+              {awaitingMe.length > 0 && (
+                <Badge variant="destructive" className="rounded-full">
+                  {awaitingMe.length} awaiting you
+                </Badge>
+              )}
+            </div>
+            <Button variant="outline" size="sm" onClick={() => refetch()} className="flex items-center gap-2">
+              <RefreshCw className="h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto p-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Tabs defaultValue="awaiting">
+            <TabsList>
+              <TabsTrigger value="awaiting">Awaiting me ({awaitingMe.length})</TabsTrigger>
+              <TabsTrigger value="submitted">Submitted by me ({submittedByMe.length})</TabsTrigger>
+              <TabsTrigger value="all">All ({requests.length})</TabsTrigger>
+            </TabsList>
+            <TabsContent value="awaiting" className="mt-4">
+              {renderList(awaitingMe, 'Nothing is waiting for your approval')}
+            </TabsContent>
+            <TabsContent value="submitted" className="mt-4">
+              {renderList(submittedByMe, 'You have no approval requests')}
+            </TabsContent>
+            <TabsContent value="all" className="mt-4">
+              {renderList(requests, 'No approval requests yet')}
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+
+      <Dialog open={!!decision} onOpenChange={(open) => !open && setDecision(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {decision?.action === 'approved' ? 'Approve' : 'Reject'} "{decision?.request.entity_label}"
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="approval-comments">
+              Comments{decision?.action === 'rejected' ? ' *' : ''}
+            </Label>
+            <Textarea
+              id="approval-comments"
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              placeholder={decision?.action === 'rejected' ? 'Why is this being rejected?' : 'Optional comments'}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDecision(null)}>Cancel</Button>
+            <Button
+              variant={decision?.action === 'rejected' ? 'destructive' : 'default'}
+              onClick={handleConfirmDecision}
+              disabled={isActing}
+            >
+              {isActing && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+              {decision?.action === 'approved' ? 'Approve' : 'Reject'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Approvals;
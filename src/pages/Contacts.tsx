@@ -1,7 +1,7 @@
 import { ContactTable, ContactTableRef } from "@/components/ContactTable";
 import { Button } from "@/components/ui/button";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Settings, Trash2, Upload, Download, Mail, Plus } from "lucide-react";
+import { Settings, Trash2, Upload, Download, Mail, Workflow, Plus } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useState, useRef } from "react";
 import { Input } from "@/components/ui/input";
@@ -9,6 +9,7 @@ import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useSimpleContactsImportExport } from "@/hooks/useSimpleContactsImportExport";
 import { BulkEmailModal, BulkEmailRecipient } from "@/components/BulkEmailModal";
+import { EnrollInSequenceModal } from "@/components/EnrollInSequenceModal";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 
 const Contacts = () => {
@@ -19,6 +20,7 @@ const Contacts = () => {
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [showBulkEmailModal, setShowBulkEmailModal] = useState(false);
   const [bulkEmailRecipients, setBulkEmailRecipients] = useState<BulkEmailRecipient[]>([]);
+  const [showEnrollModal, setShowEnrollModal] = useState(false);
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
@@ -61,9 +63,8 @@ const Contacts = () => {
     setShowBulkDeleteDialog(false);
   };
 
-  const handleBulkEmailClick = async () => {
-    if (selectedContacts.length === 0) return;
-    
+  // Recipients for bulk email and sequence enrolment, or null if the contact details couldn't be loaded
+  const fetchSelectedRecipients = async (): Promise<BulkEmailRecipient[] | null> => {
     const { data: contacts, error } = await supabase
       .from('contacts')
       .select('id, contact_name, email')
@@ -75,20 +76,35 @@ const Contacts = () => {
         description: "Failed to fetch contact details",
         variant: "destructive",
       });
-      return;
+      return null;
     }
 
-    const recipients: BulkEmailRecipient[] = (contacts || []).map(contact => ({
+    return (contacts || []).map(contact => ({
       id: contact.id,
       name: contact.contact_name,
       email: contact.email || undefined,
       type: 'contact' as const,
     }));
+  };
+
+  const handleBulkEmailClick = async () => {
+    if (selectedContacts.length === 0) return;
+    const recipients = await fetchSelectedRecipients();
+    if (!recipients) return;
 
     setBulkEmailRecipients(recipients);
     setShowBulkEmailModal(true);
   };
 
+  const handleEnrollClick = async () => {
+    if (selectedContacts.length === 0) return;
+    const recipients = await fetchSelectedRecipients();
+    if (!recipients) return;
+
+    setBulkEmailRecipients(recipients);
+    setShowEnrollModal(true);
+  };
+
   return (
     <div className="h-screen flex flex-col bg-background overflow-hidden">
       {/* Fixed Header */}
@@ -113,6 +129,18 @@ const Contacts = () => {
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button variant="outline" size="icon" onClick={handleEnrollClick}>
+                          <Workflow className="w-4 h-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Enrol Selected in Sequence ({selectedContacts.length})</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
                   <TooltipProvider>
                     <Tooltip>
                       <TooltipTrigger asChild>
@@ -151,6 +179,10 @@ const Contacts = () => {
                     <Mail className="w-4 h-4 mr-2" />
                     Send Bulk Email ({selectedContacts.length})
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleEnrollClick} disabled={selectedContacts.length === 0}>
+                    <Workflow className="w-4 h-4 mr-2" />
+                    Enrol in Sequence ({selectedContacts.length})
+                  </DropdownMenuItem>
                   <DropdownMenuItem 
                     onClick={handleBulkDeleteClick} 
                     disabled={selectedContacts.length === 0}
@@ -227,6 +259,16 @@ const Contacts = () => {
           setSelectedContacts([]);
         }}
       />
+
+      {/* Sequence Enrolment Modal */}
+      <EnrollInSequenceModal
+        open={showEnrollModal}
+        onOpenChange={setShowEnrollModal}
+        recipients={bulkEmailRecipients}
+        onEnrolled={() => {
+          setSelectedContacts([]);
+        }}
+      />
     </div>
   );
 };
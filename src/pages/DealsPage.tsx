@@ -12,6 +12,9 @@ import { Plus, LayoutGrid, List } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { DealsSettingsDropdown } from "@/components/DealsSettingsDropdown";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { useQueryClient } from "@tanstack/react-query";
+import { APPROVAL_REQUESTS_QUERY_KEY, getHeldApprovalChange } from "@/hooks/useApprovals";
 const DealsPage = () => {
   const [searchParams] = useSearchParams();
   const initialStageFilter = searchParams.get('stage') || 'all';
@@ -28,6 +31,7 @@ const DealsPage = () => {
     logUpdate,
     logBulkDelete
   } = useCRUDAudit();
+  const queryClient = useQueryClient();
   const [deals, setDeals] = useState<Deal[]>([]);
   const [filteredDeals, setFilteredDeals] = useState<Deal[]>([]);
   const [loading, setLoading] = useState(true);
@@ -35,6 +39,7 @@ const DealsPage = () => {
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [initialStage, setInitialStage] = useState<DealStage>('Lead');
+  const { firstStageName } = usePipelineStages();
   const [activeView, setActiveView] = useState<'kanban' | 'list'>('list');
   const [stageFilterFromUrl, setStageFilterFromUrl] = useState(initialStageFilter);
   
@@ -133,15 +138,26 @@ const DealsPage = () => {
       // Log update operation
       await logUpdate('deals', dealId, updates, existingDeal);
 
-      // Update local state
+      // Update local state from the saved row, which may have held a guarded change back for approval
       setDeals(prev => prev.map(deal => deal.id === dealId ? {
         ...deal,
-        ...updateData
+        ...updateData,
+        ...(data as unknown as Deal)
       } : deal));
-      toast({
-        title: "Success",
-        description: "Deal updated successfully"
-      });
+      queryClient.invalidateQueries({ queryKey: APPROVAL_REQUESTS_QUERY_KEY });
+      const heldStage = getHeldApprovalChange('deals', updates, data);
+      if (heldStage) {
+        toast({
+          title: "Approval required",
+          description: `Moving to ${heldStage} needs approval. A request has been sent to the approvers.`
+        });
+      } else {
+        toast({
+          title: "Success",
+          description: "Deal updated successfully"
+        });
+      }
+      return data as unknown as Deal;
     } catch (error: any) {
       console.error("Update deal error:", error);
       toast({
@@ -199,8 +215,9 @@ const DealsPage = () => {
           modified_by: user?.id
         };
         console.log("Update data for existing deal:", updateData);
-        await handleUpdateDeal(selectedDeal.id, updateData);
+        const savedDeal = await handleUpdateDeal(selectedDeal.id, updateData);
         await fetchDeals();
+        return savedDeal;
       }
     } catch (error: any) {
       console.error("Error in handleSaveDeal:", error);
@@ -367,7 +384,7 @@ const DealsPage = () => {
               window.dispatchEvent(new CustomEvent('open-deal-columns'));
             }} />
 
-              <Button size="sm" onClick={() => handleCreateDeal('Lead')} className="gap-1.5">
+              <Button size="sm" onClick={() => handleCreateDeal(firstStageName || 'Lead')} className="gap-1.5">
                 <Plus className="h-4 w-4" />
                 Add Deal
               </Button>
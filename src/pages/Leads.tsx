@@ -1,6 +1,6 @@
 import LeadTable, { LeadTableRef } from "@/components/LeadTable";
 import { Button } from "@/components/ui/button";
-import { Settings, Plus, Trash2, Upload, Download, Mail } from "lucide-react";
+import { Settings, Plus, Trash2, Upload, Download, Mail, Workflow } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useState, useRef } from "react";
 import { useToast } from "@/hooks/use-toast";
@@ -8,6 +8,7 @@ import { useSimpleLeadsImportExport } from "@/hooks/useSimpleLeadsImportExport";
 import { LeadDeleteConfirmDialog } from "@/components/LeadDeleteConfirmDialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { BulkEmailModal, BulkEmailRecipient } from "@/components/BulkEmailModal";
+import { EnrollInSequenceModal } from "@/components/EnrollInSequenceModal";
 import { supabase } from "@/integrations/supabase/client";
 import { useSearchParams } from "react-router-dom";
 
@@ -22,6 +23,7 @@ const Leads = () => {
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
   const [showBulkEmailModal, setShowBulkEmailModal] = useState(false);
   const [bulkEmailRecipients, setBulkEmailRecipients] = useState<BulkEmailRecipient[]>([]);
+  const [showEnrollModal, setShowEnrollModal] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const leadTableRef = useRef<LeadTableRef>(null);
@@ -46,9 +48,8 @@ const Leads = () => {
     setShowBulkDeleteDialog(true);
   };
 
-  const handleBulkEmailClick = async () => {
-    if (selectedLeads.length === 0) return;
-    
+  // Recipients for bulk email and sequence enrolment, or null if the lead details couldn't be loaded
+  const fetchSelectedRecipients = async (): Promise<BulkEmailRecipient[] | null> => {
     // Fetch lead details for selected leads
     const { data: leads, error } = await supabase
       .from('leads')
@@ -61,20 +62,35 @@ const Leads = () => {
         description: "Failed to fetch lead details",
         variant: "destructive",
       });
-      return;
+      return null;
     }
 
-    const recipients: BulkEmailRecipient[] = (leads || []).map(lead => ({
+    return (leads || []).map(lead => ({
       id: lead.id,
       name: lead.lead_name,
       email: lead.email || undefined,
       type: 'lead' as const,
     }));
+  };
+
+  const handleBulkEmailClick = async () => {
+    if (selectedLeads.length === 0) return;
+    const recipients = await fetchSelectedRecipients();
+    if (!recipients) return;
 
     setBulkEmailRecipients(recipients);
     setShowBulkEmailModal(true);
   };
 
+  const handleEnrollClick = async () => {
+    if (selectedLeads.length === 0) return;
+    const recipients = await fetchSelectedRecipients();
+    if (!recipients) return;
+
+    setBulkEmailRecipients(recipients);
+    setShowEnrollModal(true);
+  };
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file && file.type === 'text/csv') {
@@ -120,6 +136,18 @@ const Leads = () => {
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button variant="outline" size="icon" onClick={handleEnrollClick}>
+                          <Workflow className="w-4 h-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Enrol Selected in Sequence ({selectedLeads.length})</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
                   <TooltipProvider>
                     <Tooltip>
                       <TooltipTrigger asChild>
@@ -158,6 +186,10 @@ const Leads = () => {
                     <Mail className="w-4 h-4 mr-2" />
                     Send Bulk Email ({selectedLeads.length})
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleEnrollClick} disabled={selectedLeads.length === 0}>
+                    <Workflow className="w-4 h-4 mr-2" />
+                    Enrol in Sequence ({selectedLeads.length})
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleBulkDeleteClick} disabled={selectedLeads.length === 0 || isDeleting} className="text-destructive focus:text-destructive">
                     <Trash2 className="w-4 h-4 mr-2" />
                     {isDeleting ? 'Deleting...' : `Delete Selected (${selectedLeads.length})`}
@@ -217,6 +249,16 @@ const Leads = () => {
           setSelectedLeads([]);
         }}
       />
+
+      {/* Sequence Enrolment Modal */}
+      <EnrollInSequenceModal
+        open={showEnrollModal}
+        onOpenChange={setShowEnrollModal}
+        recipients={bulkEmailRecipients}
+        onEnrolled={() => {
+          setSelectedLeads([]);
+        }}
+      />
     </div>
   );
 };
@@ -11,7 +11,7 @@ import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Plus, Search, Video, Trash2, Edit, Calendar, ArrowUpDown, ArrowUp, ArrowDown, List, CalendarDays, CheckCircle2, AlertCircle, UserX, CalendarClock, User, Columns, Upload, Download, X, Eye } from "lucide-react";
+import { Plus, Search, Video, Trash2, Edit, Calendar, ArrowUpDown, ArrowUp, ArrowDown, List, CalendarDays, CheckCircle2, AlertCircle, UserX, CalendarClock, User, Columns, Upload, Download, X, Eye, Repeat } from "lucide-react";
 import { RowActionsDropdown } from "@/components/RowActionsDropdown";
 import { HighlightedText } from "@/components/shared/HighlightedText";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
@@ -24,6 +24,7 @@ import { TablePagination } from "@/components/shared/TablePagination";
 import { format } from "date-fns";
 import { Badge } from "@/components/ui/badge";
 import { getMeetingStatus } from "@/utils/meetingStatus";
+import { buildIcsCalendar, downloadIcsFile, meetingToIcsEvent } from "@/utils/icsExport";
 
 type SortColumn = 'subject' | 'date' | 'time' | 'lead_contact' | 'status' | null;
 type SortDirection = 'asc' | 'desc';
@@ -45,6 +46,8 @@ interface Meeting {
   notes?: string | null;
   lead_name?: string | null;
   contact_name?: string | null;
+  series_id?: string | null;
+  original_start_time?: string | null;
 }
 
 const ITEMS_PER_PAGE = 25;
@@ -313,6 +316,24 @@ const Meetings = () => {
     }
   };
 
+  // Selected meetings, or everything the filters show, as one calendar file in the browser timezone
+  const handleExportIcs = () => {
+    const selected = filteredMeetings.filter(m => selectedMeetings.includes(m.id));
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const organizer = user?.email ? { email: user.email } : null;
+    const events = (selected.length > 0 ? selected : filteredMeetings).map(m => meetingToIcsEvent({
+      id: m.id,
+      subject: m.subject,
+      description: m.description ?? null,
+      start_time: m.start_time,
+      end_time: m.end_time,
+      join_url: m.join_url ?? null,
+      status: m.status,
+      attendees: m.attendees
+    }, timezone, organizer));
+    downloadIcsFile(buildIcsCalendar(events), `meetings_${format(new Date(), 'yyyy-MM-dd')}.ics`);
+  };
+
   const isAllSelected = paginatedMeetings.length > 0 && paginatedMeetings.every(m => selectedMeetings.includes(m.id));
   const isSomeSelected = paginatedMeetings.some(m => selectedMeetings.includes(m.id)) && !isAllSelected;
 
@@ -491,6 +512,10 @@ const Meetings = () => {
                     <Download className="h-4 w-4 mr-2" />
                     {isExporting ? 'Exporting...' : 'Export CSV'}
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleExportIcs} disabled={filteredMeetings.length === 0}>
+                    <CalendarDays className="h-4 w-4 mr-2" />
+                    {selectedMeetings.length > 0 ? 'Export Selected (.ics)' : 'Export Calendar (.ics)'}
+                  </DropdownMenuItem>
                   <DropdownMenuItem 
                     disabled={selectedMeetings.length === 0} 
                     className="text-destructive focus:text-destructive"
@@ -646,8 +671,9 @@ const Meetings = () => {
                                 setEditingMeeting(meeting);
                                 setShowModal(true);
                               }}
-                              className="text-primary hover:underline font-medium text-left truncate"
+                              className="text-primary hover:underline font-medium text-left truncate inline-flex items-center gap-1.5"
                             >
+                              {meeting.series_id && <Repeat className="h-3.5 w-3.5 flex-shrink-0" aria-label="Recurring meeting" />}
                               <HighlightedText text={meeting.subject} highlight={searchTerm} />
                             </button>
                           </TableCell>
@@ -61,7 +61,13 @@ const Notifications = () => {
     const dealMatch = message.match(/deal[:\s]+([a-f0-9-]{36})/);
     const leadMatch = message.match(/lead[:\s]+([a-f0-9-]{36})/);
     
-    if (notification.lead_id) {
+    if (notification.notification_type === 'approval_request') {
+      navigate('/approvals');
+    } else if (notification.task_id) {
+      navigate(`/tasks?viewId=${notification.task_id}`);
+    } else if (notification.meeting_id) {
+      navigate(`/meetings?viewId=${notification.meeting_id}`);
+    } else if (notification.lead_id) {
       navigate(`/leads?highlight=${notification.lead_id}`);
     } else if (dealMatch) {
       const dealId = dealMatch[1];
@@ -100,8 +106,16 @@ const Notifications = () => {
         return '📋';
       case 'lead_update':
         return '👤';
+      case 'lead_assigned':
+        return '🎯';
       case 'deal_update':
         return '💼';
+      case 'approval_request':
+        return '✅';
+      case 'task_reminder':
+        return '⏰';
+      case 'meeting_reminder':
+        return '📅';
       default:
         return '🔔';
     }
@@ -21,7 +21,7 @@ const Tasks = () => {
   const [searchParams] = useSearchParams();
   const initialStatus = searchParams.get('status') || 'all';
   const { user } = useAuth();
-  const { tasks, loading, fetchTasks, createTask, updateTask, deleteTask } = useTasks();
+  const { tasks, loading, fetchTasks, createTask, updateTask, updateSeries, deleteTask } = useTasks();
   const { importing, exporting, exportToCSV, importFromCSV } = useTasksImportExport(tasks, fetchTasks);
   
   const [showModal, setShowModal] = useState(false);
@@ -234,6 +234,7 @@ const Tasks = () => {
             onDelete={handleDelete} 
             onStatusChange={handleStatusChange} 
             onToggleComplete={handleToggleComplete} 
+            onRefresh={fetchTasks}
             initialStatusFilter={initialStatusFilter} 
             initialOwnerFilter={initialOwnerFilter}
           />
@@ -255,7 +256,7 @@ const Tasks = () => {
       </div>
 
       {/* Task Modal */}
-      <TaskModal open={showModal} onOpenChange={handleCloseModal} task={editingTask} onSubmit={createTask} onUpdate={updateTask} />
+      <TaskModal open={showModal} onOpenChange={handleCloseModal} task={editingTask} onSubmit={createTask} onUpdate={updateTask} onUpdateSeries={updateSeries} />
 
       {/* Column Customizer */}
       <TaskColumnCustomizer open={showColumnCustomizer} onOpenChange={setShowColumnCustomizer} />
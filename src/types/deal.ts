@@ -1,4 +1,23 @@
-export type DealStage = 'Lead' | 'Discussions' | 'Qualified' | 'RFQ' | 'Offered' | 'Won' | 'Lost' | 'Dropped';
+// Stages shipped with the default pipeline. Admins can add, rename and reorder stages
+// in Pipeline Settings, so a deal's stage can be any configured pipeline_stages name.
+export type DefaultDealStage = 'Lead' | 'Discussions' | 'Qualified' | 'RFQ' | 'Offered' | 'Won' | 'Lost' | 'Dropped';
+export type DealStage = DefaultDealStage | (string & {});
+
+// What a closing stage records about how the deal ended
+export type StageOutcome = 'won' | 'lost' | 'dropped';
+
+export interface PipelineStage {
+  id: string;
+  stage_name: string;
+  stage_order: number;
+  stage_color: string;
+  stage_probability: number;
+  is_active: boolean;
+  is_won_stage: boolean;
+  is_lost_stage: boolean;
+  outcome: StageOutcome | null;
+  required_fields: string[];
+}
 
 export interface Deal {
   id: string;
@@ -11,6 +30,11 @@ export interface Deal {
   deal_name: string;
   stage: DealStage;
   
+  // Linked records; customer_name and lead_name are kept as display copies
+  account_id?: string | null;
+  contact_id?: string | null;
+  lead_id?: string | null;
+  
   // Lead stage fields
   project_name?: string;
   customer_name?: string;
@@ -67,90 +91,31 @@ export interface Deal {
   drop_reason?: string;
 }
 
-export const DEAL_STAGES: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
-
-export const STAGE_COLORS = {
-  Lead: 'bg-stage-lead text-stage-lead-foreground border-stage-lead-foreground/20',
-  Discussions: 'bg-stage-discussions text-stage-discussions-foreground border-stage-discussions-foreground/20',
-  Qualified: 'bg-stage-qualified text-stage-qualified-foreground border-stage-qualified-foreground/20',
-  RFQ: 'bg-stage-rfq text-stage-rfq-foreground border-stage-rfq-foreground/20',
-  Offered: 'bg-stage-offered text-stage-offered-foreground border-stage-offered-foreground/20',
-  Won: 'bg-stage-won text-stage-won-foreground border-stage-won-foreground/20',
-  Lost: 'bg-stage-lost text-stage-lost-foreground border-stage-lost-foreground/20',
-  Dropped: 'bg-stage-dropped text-stage-dropped-foreground border-stage-dropped-foreground/20',
-};
-
-export const getStageIndex = (stage: DealStage): number => {
-  return DEAL_STAGES.indexOf(stage);
-};
-
-export const getFieldsForStage = (stage: DealStage): string[] => {
-  const stageIndex = getStageIndex(stage);
-  const allStages = [
-    // Lead fields
-    ['project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority'],
-    // Discussions fields  
-    ['customer_need', 'relationship_strength', 'internal_comment'],
-    // Qualified fields
-    ['budget', 'business_value', 'decision_maker_level', 'customer_challenges', 'probability', 'expected_closing_date', 'is_recurring'],
-    // RFQ fields
-    ['total_contract_value', 'currency_type', 'start_date', 'end_date', 'project_duration', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items'],
-    // Offered fields
-    ['business_value', 'decision_maker_level', 'current_status', 'closing'],
-  ];
-  
-  let availableFields: string[] = [];
-  for (let i = 0; i <= stageIndex && i < allStages.length; i++) {
-    availableFields = [...availableFields, ...allStages[i]];
-  }
-  
-  // Add final stage-specific reason fields based on the current stage
-  if (stage === 'Won') {
-    availableFields.push('won_reason', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue', 'signed_contract_date', 'implementation_start_date', 'handoff_status');
-  } else if (stage === 'Lost') {
-    availableFields.push('lost_reason', 'need_improvement');
-  } else if (stage === 'Dropped') {
-    availableFields.push('drop_reason');
-  }
-  
-  // Always include internal_comment field
-  if (!availableFields.includes('internal_comment')) {
-    availableFields.push('internal_comment');
-  }
-  
-  return availableFields;
-};
-
-export const getEditableFieldsForStage = (stage: DealStage): string[] => {
-  // All fields are always editable according to requirements
-  return getFieldsForStage(stage);
-};
-
-export const getRequiredFieldsForStage = (stage: DealStage): string[] => {
-  const requiredFields = {
-    Lead: ['project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority'],
-    Discussions: ['customer_need', 'relationship_strength', 'internal_comment'],
-    Qualified: ['customer_challenges', 'budget', 'probability', 'expected_closing_date', 'is_recurring', 'internal_comment'],
-    RFQ: ['total_contract_value', 'currency_type', 'start_date', 'end_date', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items', 'internal_comment'],
-    Offered: ['business_value', 'decision_maker_level', 'current_status', 'closing'],
-    Won: ['won_reason', 'start_date', 'total_revenue', 'signed_contract_date', 'handoff_status'],
-    Lost: ['lost_reason', 'need_improvement'],
-    Dropped: ['drop_reason'],
-  };
-  return requiredFields[stage] || [];
-};
+// Used until pipeline_stages has loaded, or when it is empty
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  { id: 'default-lead', stage_name: 'Lead', stage_order: 0, stage_color: '#6b7280', stage_probability: 10, is_active: true, is_won_stage: false, is_lost_stage: false, outcome: null, required_fields: ['project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority'] },
+  { id: 'default-discussions', stage_name: 'Discussions', stage_order: 1, stage_color: '#10b981', stage_probability: 20, is_active: true, is_won_stage: false, is_lost_stage: false, outcome: null, required_fields: ['customer_need', 'relationship_strength', 'internal_comment'] },
+  { id: 'default-qualified', stage_name: 'Qualified', stage_order: 2, stage_color: '#3b82f6', stage_probability: 40, is_active: true, is_won_stage: false, is_lost_stage: false, outcome: null, required_fields: ['customer_challenges', 'budget', 'probability', 'expected_closing_date', 'is_recurring', 'internal_comment'] },
+  { id: 'default-rfq', stage_name: 'RFQ', stage_order: 3, stage_color: '#8b5cf6', stage_probability: 60, is_active: true, is_won_stage: false, is_lost_stage: false, outcome: null, required_fields: ['total_contract_value', 'currency_type', 'start_date', 'end_date', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items', 'internal_comment'] },
+  { id: 'default-offered', stage_name: 'Offered', stage_order: 4, stage_color: '#f59e0b', stage_probability: 80, is_active: true, is_won_stage: false, is_lost_stage: false, outcome: null, required_fields: ['business_value', 'decision_maker_level', 'current_status', 'closing'] },
+  { id: 'default-won', stage_name: 'Won', stage_order: 5, stage_color: '#22c55e', stage_probability: 100, is_active: true, is_won_stage: true, is_lost_stage: false, outcome: 'won', required_fields: ['won_reason', 'start_date', 'total_revenue', 'signed_contract_date', 'handoff_status'] },
+  { id: 'default-lost', stage_name: 'Lost', stage_order: 6, stage_color: '#ef4444', stage_probability: 0, is_active: true, is_won_stage: false, is_lost_stage: true, outcome: 'lost', required_fields: ['lost_reason', 'need_improvement'] },
+  { id: 'default-dropped', stage_name: 'Dropped', stage_order: 7, stage_color: '#94a3b8', stage_probability: 0, is_active: true, is_won_stage: false, is_lost_stage: true, outcome: 'dropped', required_fields: ['drop_reason'] },
+];
 
-export const getNextStage = (currentStage: DealStage): DealStage | null => {
-  const stageFlow = {
-    Lead: 'Discussions',
-    Discussions: 'Qualified', 
-    Qualified: 'RFQ',
-    RFQ: 'Offered',
-    Offered: null, // After Offered, user can choose Won/Lost/Dropped
-  };
-  return stageFlow[currentStage] || null;
+// Fields collected by each default open stage's form. A stage without its own fields (a custom stage)
+// adds nothing beyond the stages configured before it.
+export const STAGE_FIELDS: Record<string, string[]> = {
+  Lead: ['project_name', 'lead_name', 'customer_name', 'account_id', 'contact_id', 'region', 'lead_owner', 'priority'],
+  Discussions: ['customer_need', 'relationship_strength', 'internal_comment'],
+  Qualified: ['budget', 'business_value', 'decision_maker_level', 'customer_challenges', 'probability', 'expected_closing_date', 'is_recurring'],
+  RFQ: ['total_contract_value', 'currency_type', 'start_date', 'end_date', 'project_duration', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items'],
+  Offered: ['business_value', 'decision_maker_level', 'current_status', 'closing'],
 };
 
-export const getFinalStageOptions = (): DealStage[] => {
-  return ['Won', 'Lost', 'Dropped'];
+// Outcome fields recorded when a deal closes, by the closing stage's outcome
+export const OUTCOME_FIELDS: Record<StageOutcome, string[]> = {
+  won: ['won_reason', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue', 'signed_contract_date', 'implementation_start_date', 'handoff_status'],
+  lost: ['lost_reason', 'need_improvement'],
+  dropped: ['drop_reason'],
 };
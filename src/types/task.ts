@@ -1,6 +1,7 @@
 export type TaskStatus = 'open' | 'in_progress' | 'completed' | 'cancelled';
 export type TaskPriority = 'high' | 'medium' | 'low';
 export type TaskModuleType = 'accounts' | 'contacts' | 'leads' | 'meetings' | 'deals';
+export type TaskRecurrence = 'none' | 'daily' | 'weekly' | 'monthly' | 'yearly';
 
 export interface Task {
   id: string;
@@ -10,6 +11,7 @@ export interface Task {
   priority: TaskPriority;
   due_date: string | null;
   due_time: string | null;
+  reminder_date: string | null;
   assigned_to: string | null;
   created_by: string | null;
   module_type: TaskModuleType | null;
@@ -18,6 +20,10 @@ export interface Task {
   lead_id: string | null;
   meeting_id: string | null;
   deal_id: string | null;
+  recurrence: TaskRecurrence | null;
+  recurrence_end_date: string | null;
+  // Root task of the recurring series this occurrence belongs to
+  parent_task_id: string | null;
   created_at: string;
   updated_at: string;
   completed_at: string | null;
@@ -40,6 +46,8 @@ export interface CreateTaskData {
   status?: TaskStatus;
   priority?: TaskPriority;
   due_date?: string;
+  due_time?: string;
+  reminder_date?: string | null;
   assigned_to?: string;
   module_type?: TaskModuleType;
   account_id?: string;
@@ -47,6 +55,8 @@ export interface CreateTaskData {
   lead_id?: string;
   meeting_id?: string;
   deal_id?: string;
+  recurrence?: TaskRecurrence;
+  recurrence_end_date?: string | null;
 }
 
 export interface TaskModalContext {
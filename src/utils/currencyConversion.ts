@@ -0,0 +1,74 @@
+// A currency's rate to the reporting currency over a period, as resolved by the
+// currency_rate_periods database function; open-ended where valid_from or valid_to is null
+export interface RatePeriod {
+  currency: string;
+  rate: number;
+  valid_from: string | null;
+  valid_to: string | null;
+}
+
+export interface ConvertedAmount {
+  amount: number;
+  currency: string;
+  // False when there is no rate for the currency and the amount was left unconverted
+  converted: boolean;
+}
+
+export const DEFAULT_REPORTING_CURRENCY = 'EUR';
+
+// Deals saved before currencies were tracked are treated as EUR, the form's default
+export const DEFAULT_DEAL_CURRENCY = 'EUR';
+
+const toDateKey = (date?: Date | string | null): string => {
+  if (!date) return new Date().toISOString().slice(0, 10);
+  if (typeof date === 'string') return date.slice(0, 10);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Build a converter to the reporting currency from the rate periods the database resolved.
+ * Which rate applies is decided only there (see convert_currency); this just looks the period up.
+ * Amounts in a currency without a rate are reported as not converted and left out of totals.
+ */
+export const createCurrencyConverter = (periods: RatePeriod[], reportingCurrency: string = DEFAULT_REPORTING_CURRENCY) => {
+  const getRate = (from: string, date?: Date | string | null): number | null => {
+    if (from === reportingCurrency) return 1;
+    const dateKey = toDateKey(date);
+    const period = periods.find(candidate =>
+      candidate.currency === from
+      && (!candidate.valid_from || candidate.valid_from.slice(0, 10) <= dateKey)
+      && (!candidate.valid_to || dateKey < candidate.valid_to.slice(0, 10))
+    );
+    return period ? Number(period.rate) : null;
+  };
+
+  const convert = (amount: number, fromCurrency?: string | null, date?: Date | string | null): ConvertedAmount => {
+    const from = fromCurrency || DEFAULT_DEAL_CURRENCY;
+    const rate = getRate(from, date);
+    if (rate === null) {
+      return { amount, currency: from, converted: false };
+    }
+    return { amount: amount * rate, currency: reportingCurrency, converted: true };
+  };
+
+  // Shorthand for rollups that only need the number; unconvertible amounts count as 0
+  const toReporting = (amount: number | null | undefined, fromCurrency?: string | null, date?: Date | string | null): number => {
+    const value = Number(amount);
+    if (!amount || isNaN(value)) return 0;
+    const converted = convert(value, fromCurrency, date);
+    return converted.converted ? converted.amount : 0;
+  };
+
+  // Periods leave no gaps, so a currency either converts on every date or on none
+  const hasRate = (fromCurrency?: string | null) => getRate(fromCurrency || DEFAULT_DEAL_CURRENCY) !== null;
+
+  return { reportingCurrency, getRate, convert, toReporting, hasRate };
+};
+
+export type CurrencyConverter = ReturnType<typeof createCurrencyConverter>;
+
+// The date a deal's amounts are converted at: when it was signed, else when it's expected to close
+export const getDealConversionDate = (deal: {
+  signed_contract_date?: string | null;
+  expected_closing_date?: string | null;
+}) => deal.signed_contract_date || deal.expected_closing_date || null;
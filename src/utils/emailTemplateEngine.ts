@@ -0,0 +1,3 @@
+// The {{variable}} template language lives in supabase/functions/_shared/emailTemplateEngine.ts so the
+// app renders and validates templates exactly as the campaign and sequence senders do.
+export * from '../../supabase/functions/_shared/emailTemplateEngine';
@@ -64,14 +64,9 @@ export const formatDateTime = (
   return `${formatDate(date, dateFormat)} ${formatTime(date, use24Hour)}`;
 };
 
-/**
- * Format a number as currency
- */
-export const formatCurrency = (
-  amount: number | null | undefined,
-  currency: string = 'INR'
-): string => {
-  if (amount === null || amount === undefined) return '';
+export const SUPPORTED_CURRENCIES = Object.keys(currencyConfig);
+
+const formatAmount = (amount: number, currency: string): string => {
   const config = currencyConfig[currency] || currencyConfig.INR;
   return new Intl.NumberFormat(config.locale, {
     style: 'currency',
@@ -81,6 +76,21 @@ export const formatCurrency = (
   }).format(amount);
 };
 
+/**
+ * Format a number as currency. When a converted amount in another currency is given
+ * (e.g. the reporting currency), it is shown after the original: "€1.000 (≈ $1,080)"
+ */
+export const formatCurrency = (
+  amount: number | null | undefined,
+  currency: string = 'INR',
+  converted?: { amount: number; currency: string } | null
+): string => {
+  if (amount === null || amount === undefined) return '';
+  const original = formatAmount(amount, currency);
+  if (!converted || converted.currency === currency) return original;
+  return `${original} (≈ ${formatAmount(converted.amount, converted.currency)})`;
+};
+
 /**
  * Get currency symbol
  */
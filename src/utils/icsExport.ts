@@ -0,0 +1,18 @@
+// RFC 5545 iCalendar output for meetings and tasks. The builders live in supabase/functions/_shared/ics.ts,
+// which has no Deno-specific imports, so the app and the send-email and calendar-feed functions share them.
+export * from '../../supabase/functions/_shared/ics';
+
+export const getIcsFilename = (title: string) =>
+  `${title.replace(/[^a-z0-9]+/gi, '_').replace(/^_+|_+$/g, '') || 'meeting'}.ics`;
+
+export const downloadIcsFile = (content: string, filename: string) => {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
@@ -0,0 +1,223 @@
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, format, parseISO, startOfWeek } from 'date-fns';
+import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+
+export type MeetingFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface MeetingRecurrenceRule {
+  frequency: MeetingFrequency;
+  interval: number;
+  // Weekly only: 0 = Sunday ... 6 = Saturday
+  byWeekday: number[];
+  // A series ends after a number of occurrences or on a date (yyyy-MM-dd), never both
+  occurrenceCount: number | null;
+  untilDate: string | null;
+}
+
+export interface MeetingSeries {
+  id: string;
+  frequency: MeetingFrequency;
+  repeat_interval: number;
+  by_weekday: number[] | null;
+  occurrence_count: number | null;
+  until_date: string | null;
+  timezone: string;
+  starts_at: string;
+  duration_minutes: number;
+  created_by: string | null;
+}
+
+export interface MeetingOccurrence {
+  start: Date;
+  end: Date;
+}
+
+export const MEETING_FREQUENCY_OPTIONS: { value: MeetingFrequency; label: string; unit: string }[] = [
+  { value: 'daily', label: 'Daily', unit: 'day' },
+  { value: 'weekly', label: 'Weekly', unit: 'week' },
+  { value: 'monthly', label: 'Monthly', unit: 'month' },
+];
+
+export const WEEKDAY_OPTIONS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
+
+// Matches the meeting_series.occurrence_count check; also caps date-bounded series
+export const MAX_SERIES_OCCURRENCES = 200;
+
+export const seriesToRule = (series: MeetingSeries): MeetingRecurrenceRule => ({
+  frequency: series.frequency,
+  interval: series.repeat_interval,
+  byWeekday: series.by_weekday || [],
+  occurrenceCount: series.occurrence_count,
+  untilDate: series.until_date,
+});
+
+export const ruleToSeriesColumns = (rule: MeetingRecurrenceRule) => ({
+  frequency: rule.frequency,
+  repeat_interval: rule.interval,
+  by_weekday: rule.frequency === 'weekly' ? [...rule.byWeekday].sort((a, b) => a - b) : null,
+  occurrence_count: rule.untilDate ? null : rule.occurrenceCount,
+  until_date: rule.untilDate,
+});
+
+/**
+ * Start and end of every occurrence of a series whose pattern begins at firstStart. Dates and the
+ * time of day follow the series timezone, so a 09:00 meeting stays at 09:00 across DST changes.
+ * Weekly series start on the first listed weekday on or after firstStart, like Outlook does.
+ */
+export const expandMeetingSeries = (
+  rule: MeetingRecurrenceRule,
+  firstStart: Date,
+  durationMinutes: number,
+  timezone: string
+): MeetingOccurrence[] => {
+  const local = toZonedTime(firstStart, timezone);
+  const firstDay = new Date(local.getFullYear(), local.getMonth(), local.getDate());
+  const interval = Math.max(1, rule.interval);
+  const maxCount = Math.min(rule.occurrenceCount || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const withinRange = (day: Date) => !rule.untilDate || format(day, 'yyyy-MM-dd') <= rule.untilDate;
+  const days: Date[] = [];
+
+  if (rule.frequency === 'weekly') {
+    const weekdays = rule.byWeekday.length > 0 ? [...new Set(rule.byWeekday)].sort((a, b) => a - b) : [firstDay.getDay()];
+    let weekStart = startOfWeek(firstDay);
+    while (days.length < maxCount) {
+      const weekDays = weekdays.map(weekday => addDays(weekStart, weekday)).filter(day => day >= firstDay);
+      const inRange = weekDays.filter(withinRange);
+      days.push(...inRange.slice(0, maxCount - days.length));
+      if (inRange.length < weekDays.length) break;
+      weekStart = addWeeks(weekStart, interval);
+    }
+  } else {
+    for (let i = 0; days.length < maxCount; i++) {
+      // Monthly steps clamp to the last day of shorter months
+      const day = rule.frequency === 'daily' ? addDays(firstDay, i * interval) : addMonths(firstDay, i * interval);
+      if (!withinRange(day)) break;
+      days.push(day);
+    }
+  }
+
+  return days.map(day => {
+    const wallClock = new Date(day.getFullYear(), day.getMonth(), day.getDate(), local.getHours(), local.getMinutes());
+    const start = fromZonedTime(wallClock, timezone);
+    return { start, end: new Date(start.getTime() + durationMinutes * 60 * 1000) };
+  });
+};
+
+export const describeMeetingRecurrence = (rule: MeetingRecurrenceRule) => {
+  const option = MEETING_FREQUENCY_OPTIONS.find(o => o.value === rule.frequency);
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${option?.unit}s` : option?.label || rule.frequency;
+
+  if (rule.frequency === 'weekly' && rule.byWeekday.length > 0) {
+    const days = WEEKDAY_OPTIONS.filter(d => rule.byWeekday.includes(d.value)).map(d => d.label);
+    text += ` on ${days.join(', ')}`;
+  }
+
+  if (rule.untilDate) {
+    text += ` until ${format(parseISO(rule.untilDate), 'dd/MM/yyyy')}`;
+  } else if (rule.occurrenceCount) {
+    text += `, ${rule.occurrenceCount} time${rule.occurrenceCount === 1 ? '' : 's'}`;
+  }
+
+  return text;
+};
+
+// Calendar date (yyyy-MM-dd) of an instant in the series timezone
+export const getSeriesDate = (date: Date | string, timezone: string) =>
+  format(toZonedTime(typeof date === 'string' ? new Date(date) : date, timezone), 'yyyy-MM-dd');
+
+// Last day to keep when a series is ended just before the given occurrence
+export const getSeriesEndDateBefore = (occurrenceStart: string, timezone: string) =>
+  format(addDays(toZonedTime(new Date(occurrenceStart), timezone), -1), 'yyyy-MM-dd');
+
+// Body for create-teams-meeting / update-teams-meeting, mapped onto a Graph recurrence there
+export const toTeamsRecurrence = (rule: MeetingRecurrenceRule, firstStart: Date, timezone: string) => {
+  const local = toZonedTime(firstStart, timezone);
+  return {
+    frequency: rule.frequency,
+    interval: rule.interval,
+    daysOfWeek: rule.frequency === 'weekly' ? [...rule.byWeekday].sort((a, b) => a - b) : [],
+    dayOfMonth: local.getDate(),
+    startDate: format(local, 'yyyy-MM-dd'),
+    endDate: rule.untilDate,
+    numberOfOccurrences: rule.untilDate ? null : rule.occurrenceCount,
+    timezone,
+  };
+};
+
+/**
+ * Moves a series so the given occurrence lands on newStart: the first date shifts by the same
+ * number of days and every occurrence takes newStart's time of day.
+ */
+export const shiftSeriesStart = (seriesStart: string, occurrenceStart: string, newStart: Date, timezone: string) => {
+  const from = toZonedTime(new Date(occurrenceStart), timezone);
+  const to = toZonedTime(newStart, timezone);
+  const anchor = addDays(toZonedTime(new Date(seriesStart), timezone), differenceInCalendarDays(to, from));
+  anchor.setHours(to.getHours(), to.getMinutes(), 0, 0);
+  return fromZonedTime(anchor, timezone);
+};
+
+// Form state behind MeetingRecurrenceFields
+export interface MeetingRecurrenceFormValue {
+  frequency: MeetingFrequency | 'none';
+  interval: number;
+  byWeekday: number[];
+  ends: 'count' | 'until';
+  occurrenceCount: number;
+  untilDate: string;
+}
+
+export const DEFAULT_RECURRENCE_FORM_VALUE: MeetingRecurrenceFormValue = {
+  frequency: 'none',
+  interval: 1,
+  byWeekday: [],
+  ends: 'count',
+  occurrenceCount: 10,
+  untilDate: '',
+};
+
+export const toRecurrenceRule = (value: MeetingRecurrenceFormValue): MeetingRecurrenceRule | null => {
+  if (value.frequency === 'none') return null;
+  return {
+    frequency: value.frequency,
+    interval: value.interval,
+    byWeekday: value.frequency === 'weekly' ? value.byWeekday : [],
+    occurrenceCount: value.ends === 'count' ? value.occurrenceCount : null,
+    untilDate: value.ends === 'until' ? value.untilDate || null : null,
+  };
+};
+
+export const toRecurrenceFormValue = (rule: MeetingRecurrenceRule): MeetingRecurrenceFormValue => ({
+  frequency: rule.frequency,
+  interval: rule.interval,
+  byWeekday: rule.byWeekday,
+  ends: rule.untilDate ? 'until' : 'count',
+  occurrenceCount: rule.occurrenceCount || DEFAULT_RECURRENCE_FORM_VALUE.occurrenceCount,
+  untilDate: rule.untilDate || '',
+});
+
+// Why a rule can't be saved, if it can't
+export const validateRecurrenceRule = (rule: MeetingRecurrenceRule, occurrences: MeetingOccurrence[]) => {
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 99) {
+    return 'Repeat interval must be between 1 and 99';
+  }
+  if (rule.frequency === 'weekly' && rule.byWeekday.length === 0) {
+    return 'Pick at least one weekday';
+  }
+  if (!rule.untilDate && !(rule.occurrenceCount && rule.occurrenceCount >= 1 && rule.occurrenceCount <= MAX_SERIES_OCCURRENCES)) {
+    return `A series can have 1 to ${MAX_SERIES_OCCURRENCES} meetings`;
+  }
+  if (occurrences.length === 0) {
+    return 'The repeat settings don\'t produce any meetings';
+  }
+  if (rule.untilDate && occurrences.length >= MAX_SERIES_OCCURRENCES) {
+    return `A series can have at most ${MAX_SERIES_OCCURRENCES} meetings; choose an earlier end date`;
+  }
+  return null;
+};
@@ -0,0 +1,75 @@
+import { addDays, addMonths, addWeeks, addYears, differenceInCalendarMonths, differenceInCalendarYears, format, parseISO } from 'date-fns';
+import { Task, TaskRecurrence } from '@/types/task';
+
+export const TASK_RECURRENCE_OPTIONS: { value: TaskRecurrence; label: string }[] = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+// Upper bound for projections so a daily series over a long range can't hang the calendar
+const MAX_PROJECTED_OCCURRENCES = 366;
+
+export const isRecurringTask = (task: Pick<Task, 'recurrence'>) =>
+  !!task.recurrence && task.recurrence !== 'none';
+
+// The first task of a series is its root; later occurrences point at it
+export const getTaskSeriesId = (task: Pick<Task, 'id' | 'parent_task_id'>) =>
+  task.parent_task_id || task.id;
+
+/**
+ * Due date of the occurrence after the given one. Month and year steps count from `anchor`, the
+ * series' first due date, so a series on the 31st clamps to the last day of shorter months and
+ * returns to the 31st after them. Mirrors the next_task_due_date database function.
+ */
+export const getNextOccurrenceDate = (recurrence: TaskRecurrence | null, from: Date, anchor: Date = from): Date | null => {
+  switch (recurrence) {
+    case 'daily':
+      return addDays(from, 1);
+    case 'weekly':
+      return addWeeks(from, 1);
+    case 'monthly':
+      return addMonths(anchor, differenceInCalendarMonths(from, anchor) + 1);
+    case 'yearly':
+      return addYears(anchor, differenceInCalendarYears(from, anchor) + 1);
+    default:
+      return null;
+  }
+};
+
+export const describeRecurrence = (task: Pick<Task, 'recurrence' | 'recurrence_end_date'>) => {
+  if (!isRecurringTask(task)) return null;
+  const label = TASK_RECURRENCE_OPTIONS.find(option => option.value === task.recurrence)?.label || task.recurrence;
+  return task.recurrence_end_date
+    ? `${label} until ${format(parseISO(task.recurrence_end_date), 'dd/MM/yyyy')}`
+    : label;
+};
+
+/**
+ * Due dates (yyyy-MM-dd) of the occurrences that will follow an open recurring task, up to and
+ * including `until` when given. They don't exist yet: each one is created when the previous one is completed.
+ * `seriesStart` is the first due date of the series; without it the task's own due date is used.
+ */
+export const getUpcomingOccurrenceDates = (
+  task: Task,
+  until: Date | null,
+  limit = MAX_PROJECTED_OCCURRENCES,
+  seriesStart?: string | null
+): string[] => {
+  if (!isRecurringTask(task) || !task.due_date) return [];
+  if (task.status === 'completed' || task.status === 'cancelled') return [];
+
+  const endDate = task.recurrence_end_date ? parseISO(task.recurrence_end_date) : null;
+  const dates: string[] = [];
+  const anchor = parseISO(seriesStart || task.due_date);
+  let next = getNextOccurrenceDate(task.recurrence, parseISO(task.due_date), anchor);
+
+  while (next && (!until || next <= until) && (!endDate || next <= endDate) && dates.length < limit) {
+    dates.push(format(next, 'yyyy-MM-dd'));
+    next = getNextOccurrenceDate(task.recurrence, next, anchor);
+  }
+
+  return dates;
+};
@@ -0,0 +1,43 @@
+import { parseISO } from 'date-fns';
+
+export const TASK_REMINDER_OFFSETS: { value: string; label: string; minutes: number | null }[] = [
+  { value: 'none', label: 'No reminder', minutes: null },
+  { value: '0', label: 'At due time', minutes: 0 },
+  { value: '15', label: '15 minutes before', minutes: 15 },
+  { value: '60', label: '1 hour before', minutes: 60 },
+  { value: '1440', label: '1 day before', minutes: 1440 },
+  { value: '2880', label: '2 days before', minutes: 2880 },
+  { value: '10080', label: '1 week before', minutes: 10080 },
+];
+
+export const TASK_SNOOZE_OPTIONS: { label: string; minutes: number }[] = [
+  { label: '15 minutes', minutes: 15 },
+  { label: '1 hour', minutes: 60 },
+  { label: '3 hours', minutes: 180 },
+  { label: 'Tomorrow', minutes: 1440 },
+];
+
+// Tasks without a due time are treated as due at the start of the working day
+const DEFAULT_DUE_TIME = '09:00';
+
+// Due date and time in the user's local time zone
+export const getTaskDueDateTime = (dueDate: string, dueTime?: string | null) =>
+  parseISO(`${dueDate}T${(dueTime || DEFAULT_DUE_TIME).slice(0, 5)}`);
+
+export const computeReminderDate = (dueDate: string, dueTime: string | null | undefined, offsetMinutes: number) =>
+  new Date(getTaskDueDateTime(dueDate, dueTime).getTime() - offsetMinutes * 60 * 1000).toISOString();
+
+/**
+ * The offset option a saved reminder corresponds to, 'custom' when it was set some other way
+ * (e.g. snoozed), or 'none' when the task has no reminder.
+ */
+export const getReminderOffsetValue = (
+  reminderDate: string | null,
+  dueDate: string | null,
+  dueTime: string | null
+): string => {
+  if (!reminderDate) return 'none';
+  if (!dueDate) return 'custom';
+  const minutes = Math.round((getTaskDueDateTime(dueDate, dueTime).getTime() - new Date(reminderDate).getTime()) / 60000);
+  return TASK_REMINDER_OFFSETS.find(option => option.minutes === minutes)?.value || 'custom';
+};
@@ -0,0 +1,139 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { BACKUP_SCHEMA_VERSION, BackupManifest, getBackupTableNames } from './backupTables.ts'
+
+const PAGE_SIZE = 1000;
+
+export interface CreateBackupOptions {
+  createdBy: string | null;
+  backupType: 'manual' | 'scheduled';
+  includeAuditLogs: boolean;
+  scheduleId?: string | null;
+}
+
+// PostgREST caps each response, so read tables page by page
+export const fetchAllRows = async (supabaseAdmin: SupabaseClient, tableName: string) => {
+  const rows: Record<string, unknown>[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from(tableName)
+      .select('*')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+export const createBackup = async (supabaseAdmin: SupabaseClient, options: CreateBackupOptions) => {
+  const tablesToBackup = getBackupTableNames(options.includeAuditLogs);
+
+  const backupData: Record<string, unknown[]> = {};
+  const manifest: BackupManifest = {
+    schema_version: BACKUP_SCHEMA_VERSION,
+    version: '2.0',
+    created_at: new Date().toISOString(),
+    created_by: options.createdBy,
+    backup_type: options.backupType,
+    tables: [],
+    total_records: 0,
+    include_audit_logs: options.includeAuditLogs,
+  };
+
+  // Fetch data from each table. A table that fails to export is left out of the data
+  // (and flagged in the manifest) so restoring this backup won't clear it.
+  for (const tableName of tablesToBackup) {
+    try {
+      const rows = await fetchAllRows(supabaseAdmin, tableName);
+      backupData[tableName] = rows;
+      manifest.tables.push({ name: tableName, row_count: rows.length });
+      manifest.total_records += rows.length;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.warn(`Failed to backup ${tableName}:`, message);
+      manifest.tables.push({ name: tableName, row_count: 0, error: message });
+    }
+  }
+
+  // Create backup JSON
+  const backupContent = JSON.stringify({
+    manifest,
+    data: backupData,
+  }, null, 2);
+
+  // Generate file name; scheduled backups have no acting user so they get their own folder
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  const fileName = `backup_${timestamp}.json`;
+  const filePath = `${options.createdBy || options.backupType}/${fileName}`;
+
+  // Upload to storage
+  const { error: uploadError } = await supabaseAdmin.storage
+    .from('backups')
+    .upload(filePath, new Blob([backupContent], { type: 'application/json' }), {
+      contentType: 'application/json',
+      upsert: false,
+    });
+
+  if (uploadError) {
+    console.error('Upload error:', uploadError);
+    throw new Error(`Failed to upload backup: ${uploadError.message}`);
+  }
+
+  // Get file size
+  const sizeBytes = new Blob([backupContent]).size;
+
+  // Save backup metadata
+  const { data: backupRecord, error: dbError } = await supabaseAdmin
+    .from('backups')
+    .insert({
+      file_name: fileName,
+      file_path: filePath,
+      size_bytes: sizeBytes,
+      tables_count: manifest.tables.length,
+      records_count: manifest.total_records,
+      backup_type: options.backupType,
+      status: 'completed',
+      manifest: manifest,
+      created_by: options.createdBy,
+      schedule_id: options.scheduleId ?? null,
+    })
+    .select()
+    .single();
+
+  if (dbError) {
+    console.error('Database error:', dbError);
+    // Don't leave an orphaned file behind
+    await supabaseAdmin.storage.from('backups').remove([filePath]);
+    throw new Error(`Failed to save backup metadata: ${dbError.message}`);
+  }
+
+  return backupRecord;
+};
+
+// Remove backup files from storage along with their metadata rows
+export const deleteBackups = async (
+  supabaseAdmin: SupabaseClient,
+  backups: { id: string; file_path: string }[]
+) => {
+  if (backups.length === 0) return 0;
+
+  const { error: storageError } = await supabaseAdmin.storage
+    .from('backups')
+    .remove(backups.map(backup => backup.file_path));
+
+  if (storageError) {
+    throw new Error(`Failed to delete backup files: ${storageError.message}`);
+  }
+
+  const { error: dbError } = await supabaseAdmin
+    .from('backups')
+    .delete()
+    .in('id', backups.map(backup => backup.id));
+
+  if (dbError) {
+    throw new Error(`Failed to delete backup metadata: ${dbError.message}`);
+  }
+
+  return backups.length;
+};
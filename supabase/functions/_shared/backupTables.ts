@@ -0,0 +1,211 @@
+// Single source of truth for what create-backup captures and how restore-backup puts it back.
+// Add new tables here; restore order is derived from dependsOn so parents are inserted before children.
+
+// Bump when the backup file layout changes and add a matching step to BACKUP_UPGRADES
+export const BACKUP_SCHEMA_VERSION = 2;
+
+export interface BackupTableDefinition {
+  name: string;
+  // Tables whose rows must exist before this table's rows can be inserted (foreign keys)
+  dependsOn?: string[];
+  // Column referencing the same table; rows are restored parents-first
+  selfReference?: string;
+  // Upserted on restore without clearing existing rows (keeps current users able to sign in)
+  preserveExisting?: boolean;
+  // Only captured when the backup is created with audit logs
+  auditLog?: boolean;
+}
+
+export const BACKUP_TABLES: BackupTableDefinition[] = [
+  // Users and preferences
+  { name: 'profiles', preserveExisting: true },
+  { name: 'user_roles', preserveExisting: true },
+  { name: 'user_preferences' },
+  { name: 'dashboard_preferences' },
+  { name: 'notification_preferences' },
+  { name: 'table_column_preferences' },
+  { name: 'saved_filters' },
+  // calendar_feed_tokens is left out on purpose: a feed token works like a password, and a restore
+  // would bring back tokens their users had already revoked
+
+  // Settings
+  { name: 'page_permissions' },
+  { name: 'pipeline_stages' },
+  { name: 'lead_statuses' },
+  { name: 'scoring_rules' },
+  { name: 'crm_custom_fields' },
+  { name: 'branding_settings' },
+  { name: 'integration_settings' },
+  { name: 'import_export_settings' },
+  { name: 'email_templates' },
+  { name: 'email_template_versions', dependsOn: ['email_templates'] },
+  { name: 'yearly_revenue_targets' },
+  { name: 'currency_settings' },
+  { name: 'exchange_rates' },
+  { name: 'announcements' },
+  { name: 'announcement_dismissals', dependsOn: ['announcements'] },
+  { name: 'report_schedules' },
+  { name: 'report_runs', dependsOn: ['report_schedules'] },
+  // Leads point at the rule that routed them. Routing skips restored rows, so restored leads keep the
+  // owner they were backed up with.
+  { name: 'lead_assignment_rules' },
+
+  // CRM records
+  { name: 'accounts' },
+  { name: 'contacts', dependsOn: ['accounts'] },
+  { name: 'leads', dependsOn: ['accounts', 'lead_assignment_rules'] },
+  { name: 'deals', dependsOn: ['accounts', 'contacts', 'leads'] },
+  { name: 'deal_contacts', dependsOn: ['deals', 'contacts'] },
+  { name: 'deal_action_items', dependsOn: ['deals'] },
+  { name: 'lead_action_items', dependsOn: ['leads'] },
+  { name: 'lead_conversions', dependsOn: ['leads', 'accounts', 'contacts', 'deals'] },
+  { name: 'account_activities', dependsOn: ['accounts'] },
+  { name: 'contact_activities', dependsOn: ['contacts'] },
+  { name: 'meeting_series' },
+  { name: 'meetings', dependsOn: ['contacts', 'leads', 'meeting_series'] },
+  { name: 'meeting_follow_ups', dependsOn: ['meetings'] },
+  { name: 'meeting_reminders', dependsOn: ['meetings'] },
+  { name: 'tasks', dependsOn: ['accounts', 'contacts', 'deals', 'leads', 'meetings'], selfReference: 'parent_task_id' },
+  { name: 'task_subtasks', dependsOn: ['tasks'] },
+  { name: 'email_campaigns', dependsOn: ['email_templates'] },
+  { name: 'email_sequences' },
+  { name: 'email_sequence_steps', dependsOn: ['email_sequences', 'email_templates'] },
+  { name: 'email_sequence_enrollments', dependsOn: ['email_sequences', 'contacts', 'leads'] },
+  { name: 'email_history', dependsOn: ['accounts', 'contacts', 'leads', 'email_campaigns', 'email_sequence_enrollments'] },
+  { name: 'email_campaign_recipients', dependsOn: ['email_campaigns', 'contacts', 'leads', 'email_history'] },
+  { name: 'captured_emails', dependsOn: ['email_history'] },
+  { name: 'email_links', dependsOn: ['email_history'] },
+  { name: 'inbound_emails', dependsOn: ['email_history', 'accounts', 'contacts', 'leads'] },
+  { name: 'email_suppressions', dependsOn: ['email_history'] },
+  // inbound_mailbox_cursors is left out: it is only process-inbound-email's polling position, which it
+  // picks up again on its own, and it is keyed by mailbox rather than id
+  { name: 'notifications', dependsOn: ['leads', 'tasks', 'meetings'] },
+  { name: 'score_history', dependsOn: ['leads'] },
+
+  // Restored rows are written through restore_backup_rows, which the approval triggers let through unchanged
+  { name: 'approval_workflows', dependsOn: ['accounts', 'deals', 'leads'] },
+  { name: 'approval_requests', dependsOn: ['approval_workflows'] },
+  { name: 'approval_actions', dependsOn: ['approval_requests'] },
+
+  { name: 'lead_assignment_log', dependsOn: ['leads', 'lead_assignment_rules'] },
+
+  { name: 'security_audit_log', auditLog: true },
+];
+
+export const getBackupTableNames = (includeAuditLogs: boolean) =>
+  BACKUP_TABLES
+    .filter(table => includeAuditLogs || !table.auditLog)
+    .map(table => table.name);
+
+export const getBackupTable = (name: string) =>
+  BACKUP_TABLES.find(table => table.name === name);
+
+// Topologically sort the given tables so every table follows the tables it depends on.
+// Dependencies outside the given set are ignored; registry order breaks ties.
+export const getRestoreOrder = (tableNames: string[]): string[] => {
+  const wanted = new Set(tableNames);
+  const ordered: string[] = [];
+  const visiting = new Set<string>();
+
+  const visit = (name: string) => {
+    if (ordered.includes(name)) return;
+    if (visiting.has(name)) {
+      throw new Error(`Circular backup table dependency involving ${name}`);
+    }
+    visiting.add(name);
+    (getBackupTable(name)?.dependsOn || [])
+      .filter(dependency => wanted.has(dependency))
+      .forEach(visit);
+    visiting.delete(name);
+    ordered.push(name);
+  };
+
+  BACKUP_TABLES.map(table => table.name).filter(name => wanted.has(name)).forEach(visit);
+  return ordered;
+};
+
+type BackupRecord = Record<string, unknown>;
+
+// Order rows of a self-referencing table so parents are inserted before their children
+export const sortSelfReferencing = (records: BackupRecord[], column: string): BackupRecord[] => {
+  const ids = new Set(records.map(record => record.id));
+  const placed = new Set<unknown>();
+  const sorted: BackupRecord[] = [];
+  let pending = records;
+
+  while (pending.length > 0) {
+    const ready = pending.filter(record => !record[column] || !ids.has(record[column]) || placed.has(record[column]));
+    // Anything left is a cycle in the data; insert it as-is rather than looping forever
+    const batch = ready.length > 0 ? ready : pending;
+    batch.forEach(record => {
+      sorted.push(record);
+      placed.add(record.id);
+    });
+    pending = pending.filter(record => !batch.includes(record));
+  }
+
+  return sorted;
+};
+
+export interface BackupManifest {
+  schema_version: number;
+  version: string;
+  created_at: string;
+  created_by: string | null;
+  backup_type?: string;
+  tables: {
+    name: string;
+    row_count: number;
+    error?: string;
+  }[];
+  total_records: number;
+  include_audit_logs: boolean;
+  upgraded_from?: number;
+}
+
+export interface BackupFile {
+  manifest: BackupManifest;
+  data: Record<string, BackupRecord[]>;
+}
+
+// Each step takes a backup at schema version N and returns it at N + 1
+const BACKUP_UPGRADES: Record<number, (backup: BackupFile) => BackupFile> = {
+  // v1 recorded tables that failed to export as empty arrays, indistinguishable from empty tables.
+  // Drop them so a restore leaves the current rows alone instead of wiping them.
+  1: (backup) => {
+    const data = Object.fromEntries(
+      Object.entries(backup.data).filter(([, records]) => Array.isArray(records) && records.length > 0)
+    );
+    return {
+      manifest: {
+        ...backup.manifest,
+        schema_version: 2,
+        tables: backup.manifest.tables.filter(table => table.name in data),
+      },
+      data,
+    };
+  },
+};
+
+export const upgradeBackup = (backup: BackupFile): BackupFile => {
+  const originalVersion = backup.manifest.schema_version || 1;
+  if (originalVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error(`Backup schema version ${originalVersion} is newer than this system supports (${BACKUP_SCHEMA_VERSION})`);
+  }
+
+  let upgraded = backup;
+  for (let version = originalVersion; version < BACKUP_SCHEMA_VERSION; version++) {
+    const upgrade = BACKUP_UPGRADES[version];
+    if (!upgrade) {
+      throw new Error(`No upgrade path from backup schema version ${version}`);
+    }
+    upgraded = upgrade(upgraded);
+  }
+
+  if (originalVersion !== BACKUP_SCHEMA_VERSION) {
+    upgraded.manifest.upgraded_from = originalVersion;
+    console.log(`Upgraded backup from schema version ${originalVersion} to ${BACKUP_SCHEMA_VERSION}`);
+  }
+
+  return upgraded;
+};
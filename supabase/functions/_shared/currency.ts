@@ -0,0 +1,39 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+
+// Server-side counterpart of src/utils/currencyConversion.ts. Which rate applies is decided only by
+// the currency_rate_periods database function; this just looks the period up.
+
+interface RatePeriod {
+  currency: string;
+  rate: number;
+  valid_from: string | null;
+  valid_to: string | null;
+}
+
+const DEFAULT_REPORTING_CURRENCY = 'EUR';
+const DEFAULT_DEAL_CURRENCY = 'EUR';
+
+export const loadCurrencyConverter = async (supabase: SupabaseClient) => {
+  const { data: settings } = await supabase.from('currency_settings').select('reporting_currency').limit(1).maybeSingle();
+  const reportingCurrency: string = settings?.reporting_currency || DEFAULT_REPORTING_CURRENCY;
+
+  const { data: periods, error } = await supabase.rpc('currency_rate_periods', { p_to: reportingCurrency });
+  if (error) throw new Error(`Failed to load exchange rates: ${error.message}`);
+
+  // Null when the currency has no rate to the reporting currency; callers leave such amounts out of totals
+  const toReporting = (amount: number | null, fromCurrency: string | null, date: string | null): number | null => {
+    const value = Number(amount) || 0;
+    const from = fromCurrency || DEFAULT_DEAL_CURRENCY;
+    if (from === reportingCurrency) return value;
+
+    const dateKey = (date || new Date().toISOString()).slice(0, 10);
+    const period = ((periods || []) as RatePeriod[]).find(candidate =>
+      candidate.currency === from
+      && (!candidate.valid_from || candidate.valid_from.slice(0, 10) <= dateKey)
+      && (!candidate.valid_to || dateKey < candidate.valid_to.slice(0, 10))
+    );
+    return period ? value * Number(period.rate) : null;
+  };
+
+  return { reportingCurrency, toReporting };
+};
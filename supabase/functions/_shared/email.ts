@@ -0,0 +1,31 @@
+import { SuppressedRecipientError } from './emailSuppression.ts';
+
+// Send through the send-email function so scheduled jobs share its Graph delivery and email history.
+// Callers run with the service role key, which send-email accepts in place of a user session.
+export const sendEmailViaFunction = async (payload: Record<string, unknown>): Promise<{ emailId?: string }> => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (result.suppressed) {
+    throw new SuppressedRecipientError(result.error, result.reason);
+  }
+  if (!response.ok) {
+    throw new Error(result.error || `send-email responded with ${response.status}`);
+  }
+  return result;
+};
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
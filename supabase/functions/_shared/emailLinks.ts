@@ -0,0 +1,121 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+
+// Click tracking for outbound email. send-email records every http(s) anchor in email_links and
+// points it at track-email-click with the link id and an HMAC signature, so the redirect target
+// always comes from our own table and a forged or edited URL is rejected. Unsubscribe links are
+// signed the same way, over the id of the email they came in.
+
+const ANCHOR_HREF = /(<a\b[^>]*?\bhref\s*=\s*)(["'])(.*?)\2/gi;
+
+const encoder = new TextEncoder();
+
+const getSigningKey = () =>
+  crypto.subtle.importKey(
+    'raw',
+    encoder.encode(Deno.env.get('EMAIL_TRACKING_SECRET') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4)), char => char.charCodeAt(0));
+};
+
+export const signLinkId = async (linkId: string) => {
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(linkId));
+  return toBase64Url(new Uint8Array(signature));
+};
+
+export const verifyLinkSignature = async (linkId: string, signature: string) => {
+  try {
+    return await crypto.subtle.verify('HMAC', await getSigningKey(), fromBase64Url(signature), encoder.encode(linkId));
+  } catch {
+    return false;
+  }
+};
+
+// Prefixed so a click-tracking signature can't be replayed as an unsubscribe and vice versa
+const unsubscribeToken = (emailHistoryId: string) => `unsubscribe:${emailHistoryId}`;
+
+export const buildUnsubscribeUrl = async (emailHistoryId: string) => {
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(unsubscribeToken(emailHistoryId)));
+  return `${Deno.env.get('SUPABASE_URL')!}/functions/v1/email-unsubscribe?e=${emailHistoryId}&s=${toBase64Url(new Uint8Array(signature))}`;
+};
+
+export const verifyUnsubscribeSignature = (emailHistoryId: string, signature: string) =>
+  verifyLinkSignature(unsubscribeToken(emailHistoryId), signature);
+
+const decodeHtmlAttribute = (value: string) =>
+  value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+const parseHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+// Hosts from EMAIL_REDIRECT_ALLOWED_HOSTS (comma separated, "*.example.com" matches subdomains)
+const getAllowedHosts = () =>
+  (Deno.env.get('EMAIL_REDIRECT_ALLOWED_HOSTS') || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+
+/**
+ * Whether track-email-click may send the browser to this URL. Recorded links only need to be
+ * http(s); anything else (unsigned legacy ?url= links) must also be on the allow-list.
+ */
+export const isAllowedRedirect = (value: string, { recorded }: { recorded: boolean }) => {
+  const url = parseHttpUrl(value);
+  if (!url) return false;
+  if (recorded) return true;
+
+  const host = url.hostname.toLowerCase();
+  return getAllowedHosts().some(allowed =>
+    allowed.startsWith('*.') ? host.endsWith(allowed.slice(1)) : host === allowed
+  );
+};
+
+/**
+ * Records each http(s) link of the email body and rewrites it to a signed track-email-click URL.
+ * mailto:, tel: and in-page links are left alone.
+ */
+export const rewriteLinksForTracking = async (supabase: SupabaseClient, emailHistoryId: string, html: string) => {
+  const links: { id: string; email_history_id: string; position: number; url: string }[] = [];
+  const matches = [...html.matchAll(ANCHOR_HREF)];
+
+  for (const match of matches) {
+    const url = decodeHtmlAttribute(match[3].trim());
+    if (parseHttpUrl(url)) {
+      links.push({ id: crypto.randomUUID(), email_history_id: emailHistoryId, position: links.length, url });
+    }
+  }
+
+  if (links.length === 0) return html;
+
+  const { error } = await supabase.from('email_links').insert(links);
+  if (error) throw new Error(`Failed to record email links: ${error.message}`);
+
+  const trackingBase = `${Deno.env.get('SUPABASE_URL')!}/functions/v1/track-email-click`;
+  const trackedUrls = await Promise.all(
+    links.map(async link => `${trackingBase}?l=${link.id}&amp;s=${await signLinkId(link.id)}`)
+  );
+
+  let index = 0;
+  return html.replace(ANCHOR_HREF, (anchor, prefix: string, quote: string, href: string) =>
+    parseHttpUrl(decodeHtmlAttribute(href.trim())) ? `${prefix}${quote}${trackedUrls[index++]}${quote}` : anchor
+  );
+};
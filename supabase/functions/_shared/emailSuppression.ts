@@ -0,0 +1,44 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+
+// Who must not be emailed: addresses on email_suppressions (unsubscribed, hard-bounced or blocked by
+// a user) and contacts whose communication_preferences opt them out of email.
+
+export type SuppressionReason = 'unsubscribed' | 'bounced' | 'manual';
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const findSuppression = async (
+  supabase: SupabaseClient,
+  email: string,
+  contactId?: string | null
+): Promise<{ reason: SuppressionReason } | null> => {
+  const { data: suppression, error } = await supabase
+    .from('email_suppressions')
+    .select('reason')
+    .eq('email', normalizeEmail(email))
+    .maybeSingle();
+  if (error) throw new Error(`Failed to check the suppression list: ${error.message}`);
+  if (suppression) return { reason: suppression.reason as SuppressionReason };
+
+  if (contactId) {
+    const { data: contact } = await supabase
+      .from('contacts')
+      .select('communication_preferences')
+      .eq('id', contactId)
+      .maybeSingle();
+    const preferences = contact?.communication_preferences as { email_opt_out?: boolean; email_opt_out_reason?: SuppressionReason } | null;
+    if (preferences?.email_opt_out) return { reason: preferences.email_opt_out_reason || 'manual' };
+  }
+
+  return null;
+};
+
+export const suppressionMessage = (email: string, reason: SuppressionReason) =>
+  `${email} is on the suppression list (${reason}) and can't be emailed`;
+
+// Thrown by sendEmailViaFunction when send-email refuses the recipient; retrying won't help
+export class SuppressedRecipientError extends Error {
+  constructor(message: string, readonly reason: SuppressionReason) {
+    super(message);
+  }
+}
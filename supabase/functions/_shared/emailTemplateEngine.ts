@@ -0,0 +1,353 @@
+// Email template language used by templates, SendEmailModal, campaigns and sequences. The app imports it
+// through src/utils/emailTemplateEngine.ts, so keep it free of Deno-specific imports.
+//
+//   {{first_name}}                       recipient fields (from the lead or contact being emailed)
+//   {{account.name}} {{deal.stage}}      fields of a related record, see TEMPLATE_SCOPES
+//   {{first_name | default:"there"}}     filters: default, upper, lower, capitalize
+//   {{#if deal.name}}...{{else}}...{{/if}}, {{#unless ...}}...{{/unless}}   blocks, which can nest
+
+type TemplateRecord = Record<string, unknown>;
+type FieldType = 'text' | 'date' | 'datetime' | 'number';
+
+export interface TemplateFieldDefinition {
+  key: string;
+  label: string;
+  type?: FieldType;
+  get: (record: TemplateRecord) => unknown;
+}
+
+export type TemplateScope = 'lead' | 'contact' | 'account' | 'deal' | 'meeting' | 'sender';
+
+export interface TemplateScopeDefinition {
+  scope: TemplateScope;
+  label: string;
+  fields: TemplateFieldDefinition[];
+}
+
+export interface TemplateContext {
+  // Formatted values by path, e.g. "first_name" or "deal.stage"; missing records leave their paths empty
+  values: Record<string, string>;
+}
+
+export interface TemplateContextSources {
+  lead?: TemplateRecord | null;
+  contact?: TemplateRecord | null;
+  account?: TemplateRecord | null;
+  deal?: TemplateRecord | null;
+  meeting?: TemplateRecord | null;
+  sender?: { name?: string | null; email?: string | null } | null;
+  // Fills in whatever the lead or contact record doesn't provide (or stands in for it)
+  recipient?: { name?: string | null; email?: string | null; company_name?: string | null; position?: string | null } | null;
+  // Meeting times are written in this zone (defaults to UTC)
+  timezone?: string | null;
+}
+
+const column = (name: string) => (record: TemplateRecord) => record[name];
+
+const namePart = (name: string, part: 'first' | 'last') => {
+  const [first = '', ...rest] = (name || '').trim().split(/\s+/);
+  return part === 'first' ? first : rest.join(' ');
+};
+
+const personFields = (nameColumn: string): TemplateFieldDefinition[] => [
+  { key: 'name', label: 'Full name', get: column(nameColumn) },
+  { key: 'first_name', label: 'First name', get: record => namePart(String(record[nameColumn] ?? ''), 'first') },
+  { key: 'last_name', label: 'Last name', get: record => namePart(String(record[nameColumn] ?? ''), 'last') },
+  { key: 'email', label: 'Email', get: column('email') },
+  { key: 'company_name', label: 'Company', get: column('company_name') },
+  { key: 'position', label: 'Position', get: column('position') },
+  { key: 'phone', label: 'Phone', get: column('phone_no') },
+  { key: 'industry', label: 'Industry', get: column('industry') },
+  { key: 'website', label: 'Website', get: column('website') },
+];
+
+export const TEMPLATE_SCOPES: TemplateScopeDefinition[] = [
+  {
+    scope: 'lead',
+    label: 'Lead',
+    fields: [
+      ...personFields('lead_name'),
+      { key: 'country', label: 'Country', get: column('country') },
+      { key: 'status', label: 'Status', get: column('lead_status') },
+      { key: 'source', label: 'Source', get: column('contact_source') },
+    ],
+  },
+  {
+    scope: 'contact',
+    label: 'Contact',
+    fields: [
+      ...personFields('contact_name'),
+      { key: 'region', label: 'Region', get: column('region') },
+    ],
+  },
+  {
+    scope: 'account',
+    label: 'Account',
+    fields: [
+      { key: 'name', label: 'Account name', get: column('company_name') },
+      { key: 'industry', label: 'Industry', get: column('industry') },
+      { key: 'type', label: 'Company type', get: column('company_type') },
+      { key: 'website', label: 'Website', get: column('website') },
+      { key: 'phone', label: 'Phone', get: column('phone') },
+      { key: 'country', label: 'Country', get: column('country') },
+      { key: 'region', label: 'Region', get: column('region') },
+    ],
+  },
+  {
+    scope: 'deal',
+    label: 'Deal (most recent)',
+    fields: [
+      { key: 'name', label: 'Deal name', get: column('deal_name') },
+      { key: 'stage', label: 'Stage', get: column('stage') },
+      { key: 'value', label: 'Contract value', type: 'number', get: column('total_contract_value') },
+      { key: 'currency', label: 'Currency', get: column('currency_type') },
+      { key: 'expected_close', label: 'Expected closing date', type: 'date', get: column('expected_closing_date') },
+      { key: 'project', label: 'Project', get: column('project_name') },
+    ],
+  },
+  {
+    scope: 'meeting',
+    label: 'Meeting (next upcoming)',
+    fields: [
+      { key: 'subject', label: 'Subject', get: column('subject') },
+      { key: 'start', label: 'Start', type: 'datetime', get: column('start_time') },
+      { key: 'end', label: 'End', type: 'datetime', get: column('end_time') },
+      { key: 'join_url', label: 'Join link', get: column('join_url') },
+    ],
+  },
+  {
+    scope: 'sender',
+    label: 'Sender',
+    fields: [
+      { key: 'name', label: 'Your name', get: column('name') },
+      { key: 'email', label: 'Your email', get: column('email') },
+    ],
+  },
+];
+
+// Unscoped fields, taken from whichever of lead or contact is being emailed
+export const TEMPLATE_RECIPIENT_FIELDS: TemplateFieldDefinition[] = [
+  ...personFields('name'),
+  { key: 'contact_name', label: 'Full name (same as name)', get: column('name') },
+  { key: 'country', label: 'Country or region', get: column('country') },
+];
+
+// Names that earlier templates and campaigns used
+const TEMPLATE_ALIASES: Record<string, string> = {
+  account_name: 'account.name',
+  account_industry: 'account.industry',
+  account_website: 'account.website',
+  sender_name: 'sender.name',
+  sender_email: 'sender.email',
+};
+
+export const TEMPLATE_FILTERS = [
+  { name: 'default', usage: 'default:"there"', description: 'Used when the value is empty' },
+  { name: 'upper', usage: 'upper', description: 'UPPER CASE' },
+  { name: 'lower', usage: 'lower', description: 'lower case' },
+  { name: 'capitalize', usage: 'capitalize', description: 'First letter upper case' },
+];
+
+const KNOWN_PATHS = new Set([
+  ...TEMPLATE_RECIPIENT_FIELDS.map(field => field.key),
+  ...TEMPLATE_SCOPES.flatMap(({ scope, fields }) => fields.map(field => `${scope}.${field.key}`)),
+  ...Object.keys(TEMPLATE_ALIASES),
+]);
+
+const formatValue = (value: unknown, type: FieldType = 'text', timezone?: string | null) => {
+  if (value === null || value === undefined || value === '') return '';
+
+  if (type === 'number') {
+    const number = Number(value);
+    return Number.isFinite(number) ? new Intl.NumberFormat('en-GB').format(number) : String(value);
+  }
+
+  if (type === 'date' || type === 'datetime') {
+    const date = new Date(String(value));
+    if (isNaN(date.getTime())) return String(value);
+    const options: Intl.DateTimeFormatOptions = type === 'date'
+      ? { dateStyle: 'medium', timeZone: 'UTC' }
+      : {
+          day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit',
+          timeZone: timezone || 'UTC', timeZoneName: 'short',
+        };
+    try {
+      return new Intl.DateTimeFormat('en-GB', options).format(date);
+    } catch {
+      // Unknown time zone
+      return new Intl.DateTimeFormat('en-GB', { ...options, timeZone: 'UTC' }).format(date);
+    }
+  }
+
+  return String(value).trim();
+};
+
+export const buildTemplateContext = (sources: TemplateContextSources): TemplateContext => {
+  const values: Record<string, string> = {};
+  const records: Record<TemplateScope, TemplateRecord | null | undefined> = {
+    lead: sources.lead,
+    contact: sources.contact,
+    account: sources.account,
+    deal: sources.deal,
+    meeting: sources.meeting,
+    sender: sources.sender,
+  };
+
+  for (const { scope, fields } of TEMPLATE_SCOPES) {
+    const record = records[scope];
+    for (const field of fields) {
+      values[`${scope}.${field.key}`] = record ? formatValue(field.get(record), field.type, sources.timezone) : '';
+    }
+  }
+
+  const person = sources.lead ? 'lead' : sources.contact ? 'contact' : null;
+  const fallback = sources.recipient || {};
+  const recipient: TemplateRecord = {
+    name: (person && values[`${person}.name`]) || fallback.name,
+    email: (person && values[`${person}.email`]) || fallback.email,
+    company_name: (person && values[`${person}.company_name`]) || fallback.company_name || values['account.name'],
+    position: (person && values[`${person}.position`]) || fallback.position,
+    phone_no: person ? values[`${person}.phone`] : '',
+    industry: (person && values[`${person}.industry`]) || values['account.industry'],
+    website: (person && values[`${person}.website`]) || values['account.website'],
+    country: values['lead.country'] || values['contact.region'] || values['account.country'] || values['account.region'],
+  };
+  for (const field of TEMPLATE_RECIPIENT_FIELDS) {
+    values[field.key] = formatValue(field.get(recipient));
+  }
+
+  return { values };
+};
+
+interface TemplateFilter {
+  name: string;
+  arg?: string;
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; path: string; filters: TemplateFilter[]; source: string }
+  | { type: 'block'; negate: boolean; path: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const PATH_PATTERN = /^[a-z_]+(\.[a-z_]+)?$/i;
+const FILTER_PATTERN = /^([a-z_]+)\s*(?::\s*(?:"([^"]*)"|'([^']*)'))?$/i;
+
+const parseTemplate = (source: string) => {
+  const root: TemplateNode[] = [];
+  const errors: string[] = [];
+  // Open blocks, innermost last; nodes are appended to the branch currently being filled
+  const stack: { node: Extract<TemplateNode, { type: 'block' }>; kind: 'if' | 'unless'; inElse: boolean }[] = [];
+  const current = () => {
+    const open = stack[stack.length - 1];
+    return open ? (open.inElse ? open.node.otherwise : open.node.then) : root;
+  };
+
+  const checkPath = (path: string, tag: string) => {
+    if (!PATH_PATTERN.test(path)) {
+      errors.push(`"${tag}" is not a valid variable`);
+    } else if (!KNOWN_PATHS.has(path.toLowerCase())) {
+      errors.push(`Unknown variable "${path}"`);
+    }
+  };
+
+  let lastIndex = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    if (match.index! > lastIndex) current().push({ type: 'text', text: source.slice(lastIndex, match.index) });
+    lastIndex = match.index! + match[0].length;
+
+    const tag = match[0];
+    const content = match[1].trim();
+    const blockOpen = content.match(/^#(if|unless)\s+(.+)$/i);
+
+    if (blockOpen) {
+      const path = blockOpen[2].trim();
+      checkPath(path, tag);
+      const node: Extract<TemplateNode, { type: 'block' }> = {
+        type: 'block', negate: blockOpen[1].toLowerCase() === 'unless', path, then: [], otherwise: [],
+      };
+      current().push(node);
+      stack.push({ node, kind: blockOpen[1].toLowerCase() as 'if' | 'unless', inElse: false });
+    } else if (/^else$/i.test(content)) {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) errors.push('{{else}} without a matching {{#if}}');
+      else open.inElse = true;
+    } else if (content.startsWith('/')) {
+      const kind = content.slice(1).trim().toLowerCase();
+      const open = stack[stack.length - 1];
+      if (!open || open.kind !== kind) errors.push(`${tag} without a matching {{#${kind}}}`);
+      else stack.pop();
+    } else {
+      const [path = '', ...filterSources] = content.match(/(?:[^|"']+|"[^"]*"|'[^']*')+/g) || [];
+      const filters: TemplateFilter[] = [];
+      for (const filterSource of filterSources) {
+        const filter = filterSource.trim().match(FILTER_PATTERN);
+        if (!filter || !TEMPLATE_FILTERS.some(known => known.name === filter[1].toLowerCase())) {
+          errors.push(`Unknown filter "${filterSource.trim()}" in ${tag}`);
+          continue;
+        }
+        filters.push({ name: filter[1].toLowerCase(), arg: filter[2] ?? filter[3] });
+      }
+      checkPath(path.trim(), tag);
+      current().push({ type: 'variable', path: path.trim(), filters, source: tag });
+    }
+  }
+
+  if (lastIndex < source.length) current().push({ type: 'text', text: source.slice(lastIndex) });
+  for (const open of stack.reverse()) errors.push(`{{#${open.kind} ${open.node.path}}} is never closed with {{/${open.kind}}}`);
+
+  return { nodes: root, errors };
+};
+
+// Problems that would stop the template from rendering as written, in order of appearance
+export const validateTemplate = (source: string) => [...new Set(parseTemplate(source).errors)];
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const applyFilter = (value: string, filter: TemplateFilter) => {
+  switch (filter.name) {
+    case 'default':
+      return value.trim() ? value : filter.arg ?? '';
+    case 'upper':
+      return value.toUpperCase();
+    case 'lower':
+      return value.toLowerCase();
+    case 'capitalize':
+      return value.charAt(0).toUpperCase() + value.slice(1);
+    default:
+      return value;
+  }
+};
+
+const lookup = (context: TemplateContext, path: string): string | undefined => {
+  const key = path.toLowerCase();
+  return context.values[TEMPLATE_ALIASES[key] || key];
+};
+
+const renderNodes = (nodes: TemplateNode[], context: TemplateContext, options: { escapeHtml?: boolean }): string =>
+  nodes.map(node => {
+    if (node.type === 'text') return node.text;
+
+    if (node.type === 'block') {
+      const truthy = !!lookup(context, node.path)?.trim();
+      return renderNodes(truthy !== node.negate ? node.then : node.otherwise, context, options);
+    }
+
+    const value = lookup(context, node.path);
+    // Unknown variables stay visible rather than silently disappearing
+    if (value === undefined) return node.source;
+    const filtered = node.filters.reduce(applyFilter, value);
+    return options.escapeHtml ? escapeHtml(filtered) : filtered;
+  }).join('');
+
+/**
+ * Fills in a template for one recipient. Values going into an HTML body should be escaped so a
+ * name like "A <B>" can't break the markup.
+ */
+export const renderTemplate = (source: string, context: TemplateContext, options: { escapeHtml?: boolean } = {}) =>
+  renderNodes(parseTemplate(source).nodes, context, options);
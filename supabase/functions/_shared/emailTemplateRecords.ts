@@ -0,0 +1,106 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+
+// Server-side counterpart of src/hooks/useEmailTemplateContext.tsx: the records a template is filled in
+// from (lead or contact, its account, its most recently updated deal and its next scheduled meeting),
+// loaded once for a whole batch of recipients.
+
+export interface TemplatePerson {
+  lead_id: string | null;
+  contact_id: string | null;
+}
+
+interface PersonRecord extends Record<string, unknown> {
+  id: string;
+  account_id: string | null;
+}
+
+interface AccountRecord extends Record<string, unknown> {
+  id: string;
+}
+
+interface RelatedRecord extends Record<string, unknown> {
+  id: string;
+  lead_id: string | null;
+  contact_id: string | null;
+}
+
+export type TemplateRecords = Awaited<ReturnType<typeof loadTemplateRecords>>;
+
+// First row per lead and per contact, in the order the query returned them
+const firstByPerson = (rows: RelatedRecord[]) => {
+  const byPerson = new Map<string, RelatedRecord>();
+  for (const row of rows) {
+    if (row.lead_id && !byPerson.has(`lead:${row.lead_id}`)) byPerson.set(`lead:${row.lead_id}`, row);
+    if (row.contact_id && !byPerson.has(`contact:${row.contact_id}`)) byPerson.set(`contact:${row.contact_id}`, row);
+  }
+  return byPerson;
+};
+
+export const loadTemplateRecords = async (supabase: SupabaseClient, people: TemplatePerson[]) => {
+  const leadIds = [...new Set(people.map(p => p.lead_id).filter((id): id is string => !!id))];
+  const contactIds = [...new Set(people.map(p => p.contact_id).filter((id): id is string => !!id))];
+  const personFilter = [
+    leadIds.length > 0 ? `lead_id.in.(${leadIds.join(',')})` : null,
+    contactIds.length > 0 ? `contact_id.in.(${contactIds.join(',')})` : null,
+  ].filter(Boolean).join(',');
+
+  const [{ data: leads }, { data: contacts }, { data: deals }, { data: meetings }] = await Promise.all([
+    leadIds.length > 0
+      ? supabase.from('leads')
+        .select('id, account_id, lead_name, email, company_name, position, phone_no, industry, website, country, lead_status, contact_source')
+        .in('id', leadIds)
+      : Promise.resolve({ data: [] }),
+    contactIds.length > 0
+      ? supabase.from('contacts')
+        .select('id, account_id, contact_name, email, company_name, position, phone_no, industry, website, region')
+        .in('id', contactIds)
+      : Promise.resolve({ data: [] }),
+    personFilter
+      ? supabase.from('deals')
+        .select('id, lead_id, contact_id, deal_name, stage, total_contract_value, currency_type, expected_closing_date, project_name')
+        .or(personFilter)
+        .order('modified_at', { ascending: false, nullsFirst: false })
+      : Promise.resolve({ data: [] }),
+    personFilter
+      ? supabase.from('meetings')
+        .select('id, lead_id, contact_id, subject, start_time, end_time, join_url')
+        .or(personFilter)
+        .eq('status', 'scheduled')
+        .gte('start_time', new Date().toISOString())
+        .order('start_time')
+      : Promise.resolve({ data: [] }),
+  ]);
+
+  const leadsById = new Map(((leads || []) as PersonRecord[]).map(lead => [lead.id, lead]));
+  const contactsById = new Map(((contacts || []) as PersonRecord[]).map(contact => [contact.id, contact]));
+  const dealsByPerson = firstByPerson((deals || []) as RelatedRecord[]);
+  const meetingsByPerson = firstByPerson((meetings || []) as RelatedRecord[]);
+
+  const accountIds = [...leadsById.values(), ...contactsById.values()]
+    .map(record => record.account_id)
+    .filter((id): id is string => !!id);
+  const { data: accounts } = accountIds.length > 0
+    ? await supabase.from('accounts')
+      .select('id, company_name, industry, company_type, website, phone, country, region')
+      .in('id', [...new Set(accountIds)])
+    : { data: [] };
+  const accountsById = new Map(((accounts || []) as AccountRecord[]).map(account => [account.id, account]));
+
+  return { leadsById, contactsById, accountsById, dealsByPerson, meetingsByPerson };
+};
+
+// The lead/contact, account, deal and meeting for one recipient, ready for buildTemplateContext
+export const templateSourcesFor = (records: TemplateRecords, person: TemplatePerson) => {
+  const lead = person.lead_id ? records.leadsById.get(person.lead_id) : undefined;
+  const contact = person.contact_id ? records.contactsById.get(person.contact_id) : undefined;
+  const accountId = lead?.account_id || contact?.account_id;
+  const personKey = lead ? `lead:${lead.id}` : contact ? `contact:${contact.id}` : '';
+
+  return {
+    lead,
+    contact,
+    account: accountId ? records.accountsById.get(accountId) : undefined,
+    deal: records.dealsByPerson.get(personKey),
+    meeting: records.meetingsByPerson.get(personKey),
+  };
+};
@@ -0,0 +1,225 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+
+// How send-email hands a message over for delivery. Every transport receives the final HTML
+// (tracking pixel included); email_history bookkeeping stays in send-email.
+// The Message-ID each transport reports is stored on email_history so replies and bounces can be
+// threaded back to the email by process-inbound-email.
+
+export type EmailTransportName = 'graph' | 'smtp' | 'capture';
+
+export interface EmailAttachment {
+  name: string;
+  contentType: string;
+  contentBytes: string; // Base64 encoded
+}
+
+export interface OutgoingEmail {
+  emailHistoryId: string;
+  // Message-ID proposed by send-email (angle brackets included)
+  messageId: string;
+  from: string;
+  to: string;
+  toName?: string;
+  subject: string;
+  html: string;
+  attachments?: EmailAttachment[];
+  // Extra headers such as List-Unsubscribe; only transports that can set arbitrary headers (SMTP) send them
+  headers?: Record<string, string>;
+}
+
+export interface SentEmail {
+  // Message-ID the message actually went out with
+  messageId: string;
+}
+
+export interface EmailTransport {
+  name: EmailTransportName;
+  send: (email: OutgoingEmail) => Promise<SentEmail>;
+}
+
+// integration_settings row for outgoing email; its config picks the transport and holds the SMTP server
+export const EMAIL_INTEGRATION_NAME = 'Email (SMTP)';
+
+interface EmailIntegrationConfig {
+  transport?: EmailTransportName;
+  host?: string | null;
+  port?: number | string | null;
+  secure?: boolean | string | null;
+  username?: string | null;
+  sender_email?: string | null;
+  sender_name?: string | null;
+}
+
+export const getGraphAccessToken = async (): Promise<string> => {
+  // Use email-specific Azure credentials
+  const tenantId = Deno.env.get('AZURE_EMAIL_TENANT_ID');
+  const clientId = Deno.env.get('AZURE_EMAIL_CLIENT_ID');
+  const clientSecret = Deno.env.get('AZURE_EMAIL_CLIENT_SECRET');
+
+  if (!tenantId || !clientId || !clientSecret) {
+    throw new Error('Azure email credentials not configured. Please set AZURE_EMAIL_TENANT_ID, AZURE_EMAIL_CLIENT_ID, and AZURE_EMAIL_CLIENT_SECRET.');
+  }
+
+  const params = new URLSearchParams();
+  params.append('client_id', clientId);
+  params.append('client_secret', clientSecret);
+  params.append('scope', 'https://graph.microsoft.com/.default');
+  params.append('grant_type', 'client_credentials');
+
+  const response = await fetch(`https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: params.toString(),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to get access token: ${response.status} ${errorText}`);
+  }
+
+  const data = await response.json();
+  return data.access_token as string;
+};
+
+// Microsoft Graph sendMail from the sender's own mailbox (client-credentials app, Mail.Send). Graph only
+// accepts custom internet headers named x-*, so the Message-ID goes in the message's internetMessageId.
+const graphTransport: EmailTransport = {
+  name: 'graph',
+  send: async (email) => {
+    const accessToken = await getGraphAccessToken();
+    const message: Record<string, unknown> = {
+      subject: email.subject,
+      body: { contentType: 'HTML', content: email.html },
+      toRecipients: [{ emailAddress: { address: email.to, name: email.toName || email.to } }],
+      internetMessageId: email.messageId,
+    };
+
+    if (email.attachments?.length) {
+      message.attachments = email.attachments.map(att => ({
+        '@odata.type': '#microsoft.graph.fileAttachment',
+        name: att.name,
+        contentType: att.contentType,
+        contentBytes: att.contentBytes,
+      }));
+    }
+
+    const response = await fetch(`https://graph.microsoft.com/v1.0/users/${email.from}/sendMail`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ message, saveToSentItems: true }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to send email: ${response.status} ${errorText}`);
+    }
+
+    return { messageId: email.messageId };
+  },
+};
+
+const formatAddress = (email: string, name?: string | null) =>
+  name ? `${name.replace(/["<>]/g, '')} <${email}>` : email;
+
+// Any SMTP server; the password is kept in the SMTP_PASSWORD secret rather than in the settings table
+const createSmtpTransport = (config: EmailIntegrationConfig): EmailTransport => ({
+  name: 'smtp',
+  send: async (email) => {
+    if (!config.host) {
+      throw new Error('SMTP host not configured. Set it under Settings → Integrations → Email (SMTP).');
+    }
+
+    const port = Number(config.port) || 587;
+    const client = new SMTPClient({
+      connection: {
+        hostname: config.host,
+        port,
+        // Implicit TLS (usually port 465); otherwise the connection is upgraded with STARTTLS when offered
+        tls: config.secure === true || config.secure === 'true',
+        auth: config.username
+          ? { username: config.username, password: Deno.env.get('SMTP_PASSWORD') || '' }
+          : undefined,
+      },
+    });
+
+    // Relays usually only accept their own sender address, so replies are routed back to the user
+    const sender = config.sender_email || email.from;
+    try {
+      await client.send({
+        from: formatAddress(sender, config.sender_name),
+        to: formatAddress(email.to, email.toName),
+        replyTo: sender !== email.from ? email.from : undefined,
+        subject: email.subject,
+        html: email.html,
+        headers: { ...email.headers, 'Message-ID': email.messageId },
+        attachments: (email.attachments || []).map(att => ({
+          filename: att.name,
+          contentType: att.contentType,
+          encoding: 'base64' as const,
+          content: att.contentBytes,
+        })),
+      });
+    } finally {
+      await client.close();
+    }
+
+    return { messageId: email.messageId };
+  },
+});
+
+// Development sink: nothing leaves the system, the message is stored in captured_emails instead
+const createCaptureTransport = (supabase: SupabaseClient): EmailTransport => ({
+  name: 'capture',
+  send: async (email) => {
+    const { error } = await supabase.from('captured_emails').insert({
+      email_history_id: email.emailHistoryId,
+      sender_email: email.from,
+      recipient_email: email.to,
+      recipient_name: email.toName || null,
+      subject: email.subject,
+      html_body: email.html,
+      attachments: (email.attachments || []).map(att => ({
+        name: att.name,
+        contentType: att.contentType,
+        size: Math.floor((att.contentBytes.length * 3) / 4),
+      })),
+    });
+
+    if (error) throw new Error(`Failed to capture email: ${error.message}`);
+    return { messageId: email.messageId };
+  },
+});
+
+/**
+ * Transport chosen in the Email integration settings. EMAIL_TRANSPORT overrides it (e.g. "capture"
+ * for local development); a disabled integration keeps the Microsoft Graph default.
+ */
+export const getEmailTransport = async (supabase: SupabaseClient): Promise<EmailTransport> => {
+  const { data: integration, error } = await supabase
+    .from('integration_settings')
+    .select('is_enabled, config')
+    .eq('integration_name', EMAIL_INTEGRATION_NAME)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to load email integration settings, using Microsoft Graph:', error.message);
+  }
+
+  const config = (integration?.config || {}) as EmailIntegrationConfig;
+  const name = (Deno.env.get('EMAIL_TRANSPORT') as EmailTransportName | undefined)
+    || (integration?.is_enabled ? config.transport : undefined)
+    || 'graph';
+
+  switch (name) {
+    case 'smtp':
+      return createSmtpTransport(config);
+    case 'capture':
+      return createCaptureTransport(supabase);
+    default:
+      return graphTransport;
+  }
+};
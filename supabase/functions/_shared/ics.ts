@@ -0,0 +1,296 @@
+// RFC 5545 iCalendar output for meetings and tasks, used for send-email invites, the calendar-feed
+// function and, through src/utils/icsExport.ts, the app's .ics downloads. Keep it free of Deno-specific
+// imports so the app can bundle it.
+
+export interface IcsAttendee {
+  email: string;
+  name?: string | null;
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  start: Date;
+  end: Date;
+  // All-day events cover the single calendar date of start in the timezone (UTC when unset)
+  allDay?: boolean;
+  // IANA timezone the event is written in; UTC times are used when unset or unknown
+  timezone?: string | null;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  organizer?: IcsAttendee | null;
+  attendees?: IcsAttendee[];
+  sequence?: number;
+  lastModified?: Date | null;
+}
+
+export interface IcsCalendarOptions {
+  // REQUEST for invites sent by email, PUBLISH for downloads and subscriptions
+  method?: 'PUBLISH' | 'REQUEST' | 'CANCEL';
+  name?: string;
+}
+
+export interface IcsMeeting {
+  id: string;
+  subject: string;
+  description: string | null;
+  start_time: string;
+  end_time: string;
+  join_url: string | null;
+  status: string;
+  attendees: unknown;
+  updated_at?: string | null;
+}
+
+const PRODID = '-//InsideSales-RT//CRM//EN';
+const UID_DOMAIN = 'insidesales-rt';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Timezone definitions cover at most this many years of events
+const MAX_TIMEZONE_YEARS = 20;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Parameter values are quoted so names with commas or colons survive
+const quoteParam = (value: string) => `"${value.replace(/"/g, "'")}"`;
+
+// Lines longer than 75 octets continue on the next line after a single space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatUtc = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string) => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimezone = (timezone: string | null | undefined): timezone is string => {
+  if (!timezone) return false;
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wall-clock time of an instant in the timezone, as a Date whose UTC fields hold it
+const toWallClock = (date: Date, timezone: string) => {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second));
+};
+
+const offsetMinutes = (date: Date, timezone: string) =>
+  Math.round((toWallClock(date, timezone).getTime() - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+
+const formatOffset = (minutes: number) => {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+};
+
+const formatLocal = (date: Date, timezone: string) => formatUtc(toWallClock(date, timezone)).slice(0, -1);
+
+const formatDate = (date: Date, timezone: string | null) => {
+  const wallClock = timezone ? toWallClock(date, timezone) : date;
+  return `${wallClock.getUTCFullYear()}${pad(wallClock.getUTCMonth() + 1)}${pad(wallClock.getUTCDate())}`;
+};
+
+interface OffsetTransition {
+  at: Date;
+  from: number;
+  to: number;
+}
+
+// Offset changes between two instants, found by daily sampling and narrowed to the minute
+const findTransitions = (timezone: string, from: Date, to: Date) => {
+  const transitions: OffsetTransition[] = [];
+  let previous = from;
+  let previousOffset = offsetMinutes(from, timezone);
+
+  for (let time = from.getTime() + DAY_MS; time <= to.getTime() + DAY_MS; time += DAY_MS) {
+    const current = new Date(time);
+    const currentOffset = offsetMinutes(current, timezone);
+    if (currentOffset !== previousOffset) {
+      let low = previous.getTime();
+      let high = time;
+      while (high - low > 60000) {
+        const middle = low + Math.floor((high - low) / 120000) * 60000;
+        if (offsetMinutes(new Date(middle), timezone) === previousOffset) low = middle;
+        else high = middle;
+      }
+      transitions.push({ at: new Date(high), from: previousOffset, to: currentOffset });
+    }
+    previous = current;
+    previousOffset = currentOffset;
+  }
+  return transitions;
+};
+
+// VTIMEZONE with every offset change between the first and last instant the events touch
+const buildTimezone = (timezone: string, from: Date, to: Date) => {
+  const rangeStart = new Date(Date.UTC(from.getUTCFullYear(), 0, 1));
+  const lastYear = Math.min(to.getUTCFullYear(), from.getUTCFullYear() + MAX_TIMEZONE_YEARS - 1);
+  const rangeEnd = new Date(Date.UTC(lastYear, 11, 31));
+  const initialOffset = offsetMinutes(rangeStart, timezone);
+  const transitions = findTransitions(timezone, rangeStart, rangeEnd);
+
+  const observance = (type: string, start: string, fromOffset: number, toOffset: number) => [
+    `BEGIN:${type}`,
+    `DTSTART:${start}`,
+    `TZOFFSETFROM:${formatOffset(fromOffset)}`,
+    `TZOFFSETTO:${formatOffset(toOffset)}`,
+    `END:${type}`,
+  ];
+
+  const initialType = transitions.length > 0 && transitions[0].to < initialOffset ? 'DAYLIGHT' : 'STANDARD';
+  const lines = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timezone}`,
+    ...observance(initialType, '19700101T000000', initialOffset, initialOffset),
+  ];
+
+  for (const transition of transitions) {
+    // Observance starts are written in the wall-clock time that was in effect before the change
+    const localStart = formatUtc(new Date(transition.at.getTime() + transition.from * 60000)).slice(0, -1);
+    lines.push(...observance(transition.to > transition.from ? 'DAYLIGHT' : 'STANDARD', localStart, transition.from, transition.to));
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
+
+const addressLine = (property: string, person: IcsAttendee, params: string[] = []) =>
+  [property, ...(person.name ? [`CN=${quoteParam(person.name)}`] : []), ...params].join(';') + `:mailto:${person.email}`;
+
+const eventTimezone = (event: IcsEvent) =>
+  event.timezone && event.timezone !== 'UTC' && isValidTimezone(event.timezone) ? event.timezone : null;
+
+const buildEvent = (event: IcsEvent, stamp: string) => {
+  const timezone = eventTimezone(event);
+  const lines = ['BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`];
+
+  if (event.allDay) {
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatDate(event.start, timezone)}`,
+      `DTEND;VALUE=DATE:${formatDate(new Date(event.start.getTime() + DAY_MS), timezone)}`
+    );
+  } else if (timezone) {
+    lines.push(`DTSTART;TZID=${timezone}:${formatLocal(event.start, timezone)}`, `DTEND;TZID=${timezone}:${formatLocal(event.end, timezone)}`);
+  } else {
+    lines.push(`DTSTART:${formatUtc(event.start)}`, `DTEND:${formatUtc(event.end)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  lines.push(`STATUS:${event.status || 'CONFIRMED'}`, `SEQUENCE:${event.sequence ?? 0}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`);
+  if (event.organizer) lines.push(addressLine('ORGANIZER', event.organizer));
+  for (const attendee of event.attendees || []) {
+    lines.push(addressLine('ATTENDEE', attendee, ['ROLE=REQ-PARTICIPANT', 'PARTSTAT=NEEDS-ACTION', 'RSVP=TRUE']));
+  }
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+export const buildIcsCalendar = (events: IcsEvent[], options: IcsCalendarOptions = {}) => {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN', `METHOD:${options.method || 'PUBLISH'}`];
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+
+  // One definition per timezone, spanning every event written in it
+  const ranges = new Map<string, { from: Date; to: Date }>();
+  for (const event of events) {
+    const timezone = eventTimezone(event);
+    if (!timezone || event.allDay) continue;
+    const range = ranges.get(timezone);
+    ranges.set(timezone, {
+      from: range && range.from < event.start ? range.from : event.start,
+      to: range && range.to > event.end ? range.to : event.end,
+    });
+  }
+  ranges.forEach((range, timezone) => lines.push(...buildTimezone(timezone, range.from, range.to)));
+
+  const stamp = formatUtc(new Date());
+  for (const event of events) lines.push(...buildEvent(event, stamp));
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const getMeetingUid = (meetingId: string) => `meeting-${meetingId}@${UID_DOMAIN}`;
+
+export const getTaskUid = (taskId: string) => `task-${taskId}@${UID_DOMAIN}`;
+
+export const getIcsAttendees = (attendees: unknown): IcsAttendee[] =>
+  Array.isArray(attendees)
+    ? attendees
+        .filter((a): a is { email: string; name?: string } => !!a && typeof a === 'object' && typeof (a as { email?: unknown }).email === 'string')
+        .map(a => ({ email: a.email, name: a.name || null }))
+    : [];
+
+// A meeting row as one calendar event, written in the given timezone
+export const meetingToIcsEvent = (
+  meeting: IcsMeeting,
+  timezone: string | null,
+  organizer?: IcsAttendee | null
+): IcsEvent => ({
+  uid: getMeetingUid(meeting.id),
+  summary: meeting.subject,
+  description: [meeting.description, meeting.join_url && `Join: ${meeting.join_url}`].filter(Boolean).join('\n\n') || null,
+  location: meeting.join_url ? 'Microsoft Teams Meeting' : null,
+  url: meeting.join_url,
+  start: new Date(meeting.start_time),
+  end: new Date(meeting.end_time),
+  timezone,
+  status: meeting.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+  organizer,
+  attendees: getIcsAttendees(meeting.attendees),
+  lastModified: meeting.updated_at ? new Date(meeting.updated_at) : null,
+});
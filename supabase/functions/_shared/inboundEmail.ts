@@ -0,0 +1,293 @@
+// Reads raw RFC 822 messages for process-inbound-email: MIME structure, transfer encodings and the
+// delivery status reports (RFC 3464) that bounces and delivery receipts arrive as, and works out
+// which of our emails a message answers.
+
+export interface MimePart {
+  // Lower-cased names; the first occurrence wins
+  headers: Map<string, string>;
+  mimeType: string;
+  params: Record<string, string>;
+  // Decoded body of a leaf part
+  text: string;
+  parts: MimePart[];
+}
+
+export type InboundKind = 'reply' | 'auto_reply' | 'bounce' | 'delivery';
+
+export interface InboundMessage {
+  // null for messages nothing is recorded for, such as delay notices
+  kind: InboundKind | null;
+  messageId: string | null;
+  fromEmail: string | null;
+  fromName: string | null;
+  subject: string;
+  receivedAt: string;
+  // Message-IDs of the email this one answers, most specific first
+  threadIds: string[];
+  // For bounces and receipts: the address the report is about
+  reportRecipient: string | null;
+  bodyText: string | null;
+  bounceType: 'hard' | 'soft' | null;
+  diagnostic: string | null;
+}
+
+const MAX_MIME_DEPTH = 8;
+const MAX_BODY_LENGTH = 10000;
+
+const EMBEDDED_MESSAGE_TYPES = ['message/rfc822', 'message/global', 'text/rfc822-headers', 'message/global-headers'];
+const DELIVERY_STATUS_TYPES = ['message/delivery-status', 'message/global-delivery-status'];
+
+const decodeBytes = (bytes: Uint8Array, charset = 'utf-8') => {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    // Unknown charset label
+    return new TextDecoder().decode(bytes);
+  }
+};
+
+const binaryToBytes = (value: string) => Uint8Array.from(value, char => char.charCodeAt(0) & 0xff);
+
+const decodeBase64 = (value: string, charset?: string) => {
+  try {
+    return decodeBytes(binaryToBytes(atob(value.replace(/[^A-Za-z0-9+/=]/g, ''))), charset);
+  } catch {
+    return value;
+  }
+};
+
+// Runs of =XX escapes are decoded together so multi-byte characters survive
+const decodeQuotedPrintable = (value: string, charset?: string) =>
+  value
+    .replace(/=\r?\n/g, '')
+    .replace(/(?:=[0-9A-Fa-f]{2})+/g, run =>
+      decodeBytes(Uint8Array.from(run.slice(1).split('='), hex => parseInt(hex, 16)), charset)
+    );
+
+// RFC 2047 encoded words in Subject and From
+const decodeEncodedWords = (value: string) =>
+  value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_word, charset: string, encoding: string, text: string) =>
+      encoding.toUpperCase() === 'B'
+        ? decodeBase64(text, charset)
+        : decodeQuotedPrintable(text.replace(/_/g, ' '), charset)
+    );
+
+const splitHeaderBlock = (raw: string): [string, string] => {
+  const separator = /\r?\n\r?\n/.exec(raw);
+  return separator
+    ? [raw.slice(0, separator.index), raw.slice(separator.index + separator[0].length)]
+    : [raw, ''];
+};
+
+const parseHeaders = (block: string) => {
+  const headers = new Map<string, string>();
+  for (const line of block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return headers;
+};
+
+// "text/plain; charset=utf-8" -> value and lower-cased parameter names
+const parseHeaderValue = (value: string) => {
+  const params: Record<string, string> = {};
+  for (const match of value.matchAll(/;\s*([\w*-]+)\s*=\s*(?:"([^"]*)"|([^;\s]*))/g)) {
+    params[match[1].toLowerCase()] = match[2] ?? match[3];
+  }
+  return { value: value.split(';')[0].trim().toLowerCase(), params };
+};
+
+const decodeBody = (body: string, transferEncoding: string | undefined, charset: string | undefined) => {
+  switch ((transferEncoding || '').trim().toLowerCase()) {
+    case 'base64':
+      return decodeBase64(body, charset);
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body, charset);
+    default:
+      // 7bit/8bit text reached us already decoded as UTF-8
+      return body;
+  }
+};
+
+export const parseMime = (raw: string, depth = 0): MimePart => {
+  const [headerBlock, body] = splitHeaderBlock(raw);
+  const headers = parseHeaders(headerBlock);
+  const { value: mimeType, params } = parseHeaderValue(headers.get('content-type') || 'text/plain');
+  const part: MimePart = { headers, mimeType, params, text: '', parts: [] };
+
+  if (mimeType.startsWith('multipart/') && params.boundary && depth < MAX_MIME_DEPTH) {
+    // The first section is the preamble; a section starting with "--" follows the closing delimiter
+    for (const section of body.split(`--${params.boundary}`).slice(1)) {
+      if (section.startsWith('--')) break;
+      part.parts.push(parseMime(section.replace(/^[ \t]*\r?\n/, ''), depth + 1));
+    }
+    return part;
+  }
+
+  part.text = decodeBody(body, headers.get('content-transfer-encoding'), params.charset);
+  if (EMBEDDED_MESSAGE_TYPES.includes(mimeType) && depth < MAX_MIME_DEPTH) {
+    part.parts.push(parseMime(part.text, depth + 1));
+  }
+  return part;
+};
+
+const findParts = (part: MimePart, predicate: (part: MimePart) => boolean): MimePart[] => [
+  ...(predicate(part) ? [part] : []),
+  ...part.parts.flatMap(child => findParts(child, predicate)),
+];
+
+export const parseMessageIds = (value: string | undefined) => value?.match(/<[^<>\s]+>/g) || [];
+
+export const parseAddress = (value: string | undefined) => {
+  const decoded = decodeEncodedWords(value || '');
+  const named = decoded.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>/);
+  if (named) return { name: named[1].trim() || null, email: named[2].trim().toLowerCase() };
+  const email = decoded.match(/[^\s<>,;"]+@[^\s<>,;"]+/)?.[0];
+  return { name: null, email: email?.toLowerCase() || null };
+};
+
+// "rfc822; someone@example.com" -> someone@example.com
+const stripTypePrefix = (value: string | undefined) => value?.replace(/^[^;]*;\s*/, '').trim() || null;
+
+const parseDeliveryStatus = (text: string) =>
+  text
+    .split(/\r?\n[ \t]*\r?\n/)
+    .map(parseHeaders)
+    .filter(fields => fields.has('action'))
+    .map(fields => ({
+      action: fields.get('action')!.toLowerCase(),
+      status: fields.get('status') || null,
+      recipient: stripTypePrefix(fields.get('final-recipient') || fields.get('original-recipient'))?.toLowerCase() || null,
+      diagnostic: stripTypePrefix(fields.get('diagnostic-code')),
+    }));
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Drops the quoted original that mail clients put below a reply (Gmail, Outlook and plain-text styles)
+const HTML_QUOTE_MARKERS = [/<div[^>]*class="?gmail_quote/i, /<div[^>]*id="?divRplyFwdMsg/i, /<blockquote/i, /<hr[^>]*id="?stopSpelling/i];
+const TEXT_QUOTE_MARKERS = [
+  /^On .{5,200} wrote:\s*$/m,
+  /^-{2,}\s*Original Message\s*-{2,}/im,
+  /^_{10,}\s*$/m,
+  /^From: .+\r?\n(?:Sent|Date): /m,
+];
+
+const cutAtFirst = (value: string, markers: RegExp[]) => {
+  const cut = Math.min(...markers.map(marker => value.search(marker)).filter(index => index >= 0));
+  return Number.isFinite(cut) ? value.slice(0, cut) : value;
+};
+
+const htmlToText = (html: string) =>
+  decodeEntities(
+    cutAtFirst(html, HTML_QUOTE_MARKERS)
+      .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|tr|h\d)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  );
+
+export const extractReplyText = (root: MimePart) => {
+  const isBody = (part: MimePart) => !/attachment/i.test(part.headers.get('content-disposition') || '');
+  const plain = findParts(root, part => part.mimeType === 'text/plain' && isBody(part))[0];
+  const html = findParts(root, part => part.mimeType === 'text/html' && isBody(part))[0];
+
+  const text = plain ? cutAtFirst(plain.text, TEXT_QUOTE_MARKERS) : html ? cutAtFirst(htmlToText(html.text), TEXT_QUOTE_MARKERS) : '';
+  return text
+    .split(/\r?\n/)
+    .filter(line => !line.startsWith('>'))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .slice(0, MAX_BODY_LENGTH);
+};
+
+const isAutomatic = (headers: Map<string, string>, subject: string) => {
+  const autoSubmitted = headers.get('auto-submitted')?.toLowerCase();
+  return (!!autoSubmitted && autoSubmitted !== 'no')
+    || headers.has('x-autoreply')
+    || headers.has('x-autorespond')
+    || /^(auto_reply|bulk|junk)$/i.test(headers.get('precedence') || '')
+    || /^(automatic reply|auto[- ]?reply|out of (the )?office)/i.test(subject);
+};
+
+const isMailerDaemon = (email: string | null) => !!email && /^(mailer-daemon|postmaster)@/i.test(email);
+
+/**
+ * Classifies a raw message as a reply, an automatic reply, a bounce or a delivery receipt, and
+ * collects the Message-IDs that link it to the email it is about.
+ */
+export const interpretInboundEmail = (raw: string): InboundMessage => {
+  const root = parseMime(raw);
+  const { headers } = root;
+  const from = parseAddress(headers.get('from'));
+  const subject = decodeEncodedWords(headers.get('subject') || '').trim();
+  const date = headers.get('date') ? new Date(headers.get('date')!) : null;
+
+  const message: InboundMessage = {
+    kind: 'reply',
+    messageId: parseMessageIds(headers.get('message-id'))[0] || null,
+    fromEmail: from.email,
+    fromName: from.name,
+    subject,
+    receivedAt: date && !isNaN(date.getTime()) ? date.toISOString() : new Date().toISOString(),
+    threadIds: [...new Set([
+      ...parseMessageIds(headers.get('in-reply-to')),
+      ...parseMessageIds(headers.get('references')).reverse(),
+    ])],
+    reportRecipient: null,
+    bodyText: null,
+    bounceType: null,
+    diagnostic: null,
+  };
+
+  const statusPart = findParts(root, part => DELIVERY_STATUS_TYPES.includes(part.mimeType))[0];
+  const original = findParts(root, part => EMBEDDED_MESSAGE_TYPES.includes(part.mimeType))[0]?.parts[0];
+  const originalIds = parseMessageIds(original?.headers.get('message-id'));
+
+  if (statusPart) {
+    const report = parseDeliveryStatus(statusPart.text)[0];
+    message.threadIds = [...new Set([...originalIds, ...message.threadIds])];
+    message.reportRecipient = report?.recipient || null;
+    message.diagnostic = report?.diagnostic || null;
+
+    if (!report || report.action === 'failed') {
+      message.kind = 'bounce';
+      message.bounceType = report?.status?.startsWith('4') ? 'soft' : 'hard';
+    } else if (['delivered', 'relayed', 'expanded'].includes(report.action)) {
+      message.kind = 'delivery';
+    } else {
+      // "delayed": the server is still trying
+      message.kind = null;
+    }
+    return message;
+  }
+
+  if (isMailerDaemon(from.email)) {
+    // Non-standard bounce: no status report, only a human-readable explanation
+    message.kind = 'bounce';
+    message.bounceType = 'hard';
+    message.threadIds = [...new Set([...originalIds, ...message.threadIds])];
+    message.reportRecipient = parseAddress(original?.headers.get('to')).email;
+    message.diagnostic = extractReplyText(root).slice(0, 500) || null;
+    return message;
+  }
+
+  message.kind = isAutomatic(headers, subject) ? 'auto_reply' : 'reply';
+  message.bodyText = extractReplyText(root);
+  return message;
+};
+
+// "Re: Fwd: Proposal" -> "proposal", for matching replies whose client dropped In-Reply-To
+export const normalizeSubject = (subject: string) =>
+  subject.replace(/^\s*((re|fw|fwd|aw|wg|sv|vs)(\[\d+\])?\s*:\s*)+/i, '').trim().toLowerCase();
@@ -0,0 +1,48 @@
+// Recurrence of a meeting series as sent by MeetingModal (built by toTeamsRecurrence in
+// src/utils/meetingRecurrence.ts). Dates are calendar dates in the series timezone.
+export interface TeamsRecurrence {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval: number;
+  // 0 = Sunday ... 6 = Saturday
+  daysOfWeek: number[];
+  dayOfMonth: number;
+  startDate: string;
+  endDate: string | null;
+  numberOfOccurrences: number | null;
+  timezone: string;
+}
+
+const GRAPH_WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Microsoft Graph patternedRecurrence for a calendar event
+export const toGraphRecurrence = (recurrence: TeamsRecurrence) => {
+  const pattern: Record<string, unknown> = {
+    interval: recurrence.interval,
+    firstDayOfWeek: 'sunday',
+  };
+
+  if (recurrence.frequency === 'weekly') {
+    pattern.type = 'weekly';
+    pattern.daysOfWeek = recurrence.daysOfWeek.map(day => GRAPH_WEEKDAYS[day]);
+  } else if (recurrence.frequency === 'monthly') {
+    pattern.type = 'absoluteMonthly';
+    pattern.dayOfMonth = recurrence.dayOfMonth;
+  } else {
+    pattern.type = 'daily';
+  }
+
+  const range: Record<string, unknown> = {
+    startDate: recurrence.startDate,
+    recurrenceTimeZone: recurrence.timezone,
+  };
+
+  if (recurrence.numberOfOccurrences) {
+    range.type = 'numbered';
+    range.numberOfOccurrences = recurrence.numberOfOccurrences;
+  } else {
+    range.type = 'endDate';
+    range.endDate = recurrence.endDate;
+  }
+
+  return { pattern, range };
+};
@@ -0,0 +1,163 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { buildIcsCalendar, getTaskUid, IcsEvent, IcsMeeting, meetingToIcsEvent } from '../_shared/ics.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar clients re-download the whole feed on every poll, so it only reaches back this far
+const PAST_DAYS = 90;
+
+interface FeedMeeting extends IcsMeeting {
+  series_id: string | null;
+}
+
+interface FeedTask {
+  id: string;
+  title: string;
+  description: string | null;
+  due_date: string;
+  due_time: string | null;
+  priority: string;
+  status: string;
+  updated_at: string;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const MEETING_COLUMNS = 'id, subject, description, start_time, end_time, join_url, status, attendees, updated_at, series_id';
+
+// Meetings the user organised or was invited to
+const loadMeetings = async (supabase: SupabaseClient, userId: string, email: string | null, since: string) => {
+  const [organised, invited] = await Promise.all([
+    supabase.from('meetings').select(MEETING_COLUMNS).eq('created_by', userId).gte('start_time', since),
+    email
+      ? supabase.from('meetings').select(MEETING_COLUMNS).contains('attendees', [{ email }]).gte('start_time', since)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (organised.error) throw new Error(`Failed to load meetings: ${organised.error.message}`);
+  if (invited.error) throw new Error(`Failed to load meetings: ${invited.error.message}`);
+
+  const meetings = new Map<string, FeedMeeting>();
+  for (const meeting of [...(organised.data || []), ...(invited.data || [])] as FeedMeeting[]) {
+    meetings.set(meeting.id, meeting);
+  }
+  return [...meetings.values()];
+};
+
+// Series meetings are written in the timezone the series was planned in
+const loadSeriesTimezones = async (supabase: SupabaseClient, meetings: FeedMeeting[]) => {
+  const seriesIds = [...new Set(meetings.map(meeting => meeting.series_id).filter((id): id is string => !!id))];
+  if (seriesIds.length === 0) return new Map<string, string>();
+
+  const { data, error } = await supabase.from('meeting_series').select('id, timezone').in('id', seriesIds);
+  if (error) throw new Error(`Failed to load meeting series: ${error.message}`);
+  return new Map((data || []).map(series => [series.id as string, series.timezone as string]));
+};
+
+// Open tasks assigned to the user, or created by them and not assigned to anyone
+const loadTasks = async (supabase: SupabaseClient, userId: string, since: string) => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('id, title, description, due_date, due_time, priority, status, updated_at')
+    .or(`assigned_to.eq.${userId},and(assigned_to.is.null,created_by.eq.${userId})`)
+    .in('status', ['open', 'in_progress'])
+    .not('due_date', 'is', null)
+    .gte('due_date', since.slice(0, 10));
+
+  if (error) throw new Error(`Failed to load tasks: ${error.message}`);
+  return (data || []) as FeedTask[];
+};
+
+// Due dates are plain dates, so tasks show as all-day events on that date
+const taskToIcsEvent = (task: FeedTask): IcsEvent => {
+  const day = new Date(`${task.due_date}T00:00:00Z`);
+  return {
+    uid: getTaskUid(task.id),
+    summary: `Task due: ${task.title}`,
+    description: [
+      task.due_time && `Due at ${task.due_time.slice(0, 5)}`,
+      `Priority: ${task.priority}`,
+      task.description,
+    ].filter(Boolean).join('\n'),
+    start: day,
+    end: day,
+    allDay: true,
+    lastModified: new Date(task.updated_at),
+  };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token');
+    if (!token) {
+      return new Response('Missing feed token', { status: 400, headers: corsHeaders });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    // The token is the only credential calendar clients can send; a rotated token stops matching
+    const { data: feed, error: feedError } = await supabaseAdmin
+      .from('calendar_feed_tokens')
+      .select('id, user_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (feedError) throw new Error(`Failed to look up feed token: ${feedError.message}`);
+    if (!feed) {
+      return new Response('Calendar feed not found', { status: 404, headers: corsHeaders });
+    }
+
+    const { data: profile } = await supabaseAdmin
+      .from('profiles')
+      .select('"Email ID", timezone')
+      .eq('id', feed.user_id)
+      .maybeSingle();
+
+    const since = new Date(Date.now() - PAST_DAYS * DAY_MS).toISOString();
+    const [meetings, tasks] = await Promise.all([
+      loadMeetings(supabaseAdmin, feed.user_id, profile?.['Email ID'] || null, since),
+      loadTasks(supabaseAdmin, feed.user_id, since),
+    ]);
+
+    // Series keep their own timezone; everything else follows the user's profile
+    const seriesTimezones = await loadSeriesTimezones(supabaseAdmin, meetings);
+    const events = [
+      ...meetings.map(meeting =>
+        meetingToIcsEvent(meeting, (meeting.series_id && seriesTimezones.get(meeting.series_id)) || profile?.timezone || null)
+      ),
+      ...tasks.map(taskToIcsEvent),
+    ];
+    const calendar = buildIcsCalendar(events, { method: 'PUBLISH', name: 'CRM Meetings & Tasks' });
+
+    await supabaseAdmin
+      .from('calendar_feed_tokens')
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq('id', feed.id);
+
+    console.log(`Served calendar feed for user ${feed.user_id}: ${meetings.length} meeting(s), ${tasks.length} task(s)`);
+
+    return new Response(calendar, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="calendar.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error in calendar-feed function:', error);
+    return new Response(errorMessage(error), { status: 500, headers: corsHeaders });
+  }
+});
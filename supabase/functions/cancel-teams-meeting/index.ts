@@ -10,6 +10,17 @@ const corsHeaders = {
 interface CancelRequest {
   meetingId: string;
   joinUrl: string;
+  // Recurring meetings: "occurrence" cancels the instance originally at occurrenceStart; "series" with
+  // seriesEndDate (last day to keep, in the series timezone) ends the series early, without it the whole series goes
+  scope?: 'occurrence' | 'series';
+  occurrenceStart?: string;
+  seriesEndDate?: string;
+}
+
+interface CancelOptions {
+  scope?: CancelRequest['scope'];
+  occurrenceStart?: string;
+  seriesEndDate?: string;
 }
 
 async function getAccessToken(): Promise<string> {
@@ -72,7 +83,62 @@ async function getUserId(accessToken: string, email: string): Promise<string> {
   return userData.id;
 }
 
-async function cancelCalendarEvents(accessToken: string, userId: string, joinUrl: string): Promise<boolean> {
+// calendarView expands a series into its instances; originalStart is where the pattern put each one
+function isOccurrenceAt(event: { originalStart?: string; start?: { dateTime?: string } }, occurrenceStart: string): boolean {
+  const eventStart = event.originalStart || (event.start?.dateTime ? `${event.start.dateTime}Z` : null);
+  return !!eventStart && new Date(eventStart).getTime() === new Date(occurrenceStart).getTime();
+}
+
+// Keeps the occurrences up to endDate and drops the rest of the series
+async function endSeries(accessToken: string, userId: string, seriesMasterId: string, endDate: string): Promise<boolean> {
+  const eventResponse = await fetch(
+    `https://graph.microsoft.com/v1.0/users/${userId}/events/${seriesMasterId}?$select=recurrence`,
+    {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+
+  if (!eventResponse.ok) {
+    console.error('Failed to fetch series master:', await eventResponse.text());
+    return false;
+  }
+
+  const { recurrence } = await eventResponse.json();
+  if (!recurrence) {
+    console.warn('Event is not a series:', seriesMasterId);
+    return false;
+  }
+
+  const patchResponse = await fetch(
+    `https://graph.microsoft.com/v1.0/users/${userId}/events/${seriesMasterId}`,
+    {
+      method: 'PATCH',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        recurrence: {
+          pattern: recurrence.pattern,
+          range: { ...recurrence.range, type: 'endDate', endDate, numberOfOccurrences: 0 },
+        },
+      }),
+    }
+  );
+
+  if (!patchResponse.ok) {
+    console.error('Failed to end series:', await patchResponse.text());
+    return false;
+  }
+
+  console.log('Series ended on', endDate);
+  return true;
+}
+
+async function cancelCalendarEvents(accessToken: string, userId: string, joinUrl: string, options: CancelOptions = {}): Promise<boolean> {
   console.log('Searching for calendar events with join URL:', joinUrl);
   
   // Normalize the join URL by decoding it for comparison
@@ -87,13 +153,16 @@ async function cancelCalendarEvents(accessToken: string, userId: string, joinUrl
   const normalizedTargetUrl = normalizeUrl(joinUrl);
   console.log('Normalized target URL:', normalizedTargetUrl);
   
-  // Search for calendar events - limited time range for better performance
-  const now = new Date();
-  const startDateTime = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString(); // 7 days ago
-  const endDateTime = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000).toISOString(); // 30 days ahead
+  // Search for calendar events - limited time range for better performance;
+  // a single occurrence is looked up around the slot the pattern gave it
+  const dayMs = 24 * 60 * 60 * 1000;
+  const occurrenceStart = options.scope === 'occurrence' ? options.occurrenceStart : undefined;
+  const anchor = occurrenceStart ? new Date(occurrenceStart) : new Date();
+  const startDateTime = new Date(anchor.getTime() - (occurrenceStart ? 1 : 7) * dayMs).toISOString();
+  const endDateTime = new Date(anchor.getTime() + (occurrenceStart ? 1 : 30) * dayMs).toISOString();
   
   const eventsResponse = await fetch(
-    `https://graph.microsoft.com/v1.0/users/${userId}/calendarView?startDateTime=${startDateTime}&endDateTime=${endDateTime}&$top=50&$select=id,subject,onlineMeeting,isOnlineMeeting,body`,
+    `https://graph.microsoft.com/v1.0/users/${userId}/calendarView?startDateTime=${startDateTime}&endDateTime=${endDateTime}&$top=50&$select=id,subject,onlineMeeting,isOnlineMeeting,body,type,seriesMasterId,originalStart,start`,
     {
       headers: {
         'Authorization': `Bearer ${accessToken}`,
@@ -130,11 +199,25 @@ async function cancelCalendarEvents(accessToken: string, userId: string, joinUrl
     console.log(`Comparing event "${event.subject}": targetMeetingId=${targetMeetingId}, eventMeetingId=${eventMeetingId}`);
     
     if (targetMeetingId && eventMeetingId && targetMeetingId === eventMeetingId) {
+      if (occurrenceStart && !isOccurrenceAt(event, occurrenceStart)) {
+        continue;
+      }
+
       console.log('Found matching calendar event:', event.id, event.subject);
+
+      // Deleting an instance cancels just that occurrence; anything else acts on the whole series
+      const targetEventId = !occurrenceStart && event.seriesMasterId ? event.seriesMasterId : event.id;
+
+      if (options.scope === 'series' && options.seriesEndDate) {
+        if (await endSeries(accessToken, userId, targetEventId, options.seriesEndDate)) {
+          cancelledCount++;
+        }
+        break;
+      }
       
       // Cancel/Delete the calendar event
       const deleteResponse = await fetch(
-        `https://graph.microsoft.com/v1.0/users/${userId}/events/${event.id}`,
+        `https://graph.microsoft.com/v1.0/users/${userId}/events/${targetEventId}`,
         {
           method: 'DELETE',
           headers: {
@@ -144,7 +227,7 @@ async function cancelCalendarEvents(accessToken: string, userId: string, joinUrl
       );
       
       if (deleteResponse.ok || deleteResponse.status === 204) {
-        console.log('Successfully deleted calendar event:', event.id);
+        console.log('Successfully deleted calendar event:', targetEventId);
         cancelledCount++;
         // Only delete ONE matching event
         break;
@@ -257,7 +340,7 @@ serve(async (req) => {
       );
     }
 
-    const { meetingId, joinUrl }: CancelRequest = await req.json();
+    const { meetingId, joinUrl, scope, occurrenceStart, seriesEndDate }: CancelRequest = await req.json();
 
     if (!meetingId || !joinUrl) {
       return new Response(
@@ -266,17 +349,18 @@ serve(async (req) => {
       );
     }
 
-    console.log('Cancelling Teams meeting:', { meetingId, joinUrl });
+    console.log('Cancelling Teams meeting:', { meetingId, joinUrl, scope, occurrenceStart, seriesEndDate });
 
     const accessToken = await getAccessToken();
     const organizerEmail = user.email!;
     const userId = await getUserId(accessToken, organizerEmail);
 
-    // Try to delete the online meeting
-    const onlineMeetingDeleted = await deleteOnlineMeeting(accessToken, userId, joinUrl);
+    // The online meeting stays while any occurrence of its series still uses the join link
+    const keepsOnlineMeeting = scope === 'occurrence' || (scope === 'series' && !!seriesEndDate);
+    const onlineMeetingDeleted = keepsOnlineMeeting ? false : await deleteOnlineMeeting(accessToken, userId, joinUrl);
     
     // Cancel/delete calendar events with this meeting link
-    const calendarEventsCancelled = await cancelCalendarEvents(accessToken, userId, joinUrl);
+    const calendarEventsCancelled = await cancelCalendarEvents(accessToken, userId, joinUrl, { scope, occurrenceStart, seriesEndDate });
 
     // Log the cancellation
     const adminClient = createClient(
@@ -292,6 +376,7 @@ serve(async (req) => {
         p_details: {
           meeting_id: meetingId,
           join_url: joinUrl,
+          scope: scope ?? null,
           online_meeting_deleted: onlineMeetingDeleted,
           calendar_events_cancelled: calendarEventsCancelled,
           cancelled_by: user.id,
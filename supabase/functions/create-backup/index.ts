@@ -1,22 +1,11 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { createBackup, deleteBackups } from '../_shared/backup.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-interface BackupManifest {
-  version: string;
-  created_at: string;
-  created_by: string;
-  tables: {
-    name: string;
-    row_count: number;
-  }[];
-  total_records: number;
-  include_audit_logs: boolean;
-}
-
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -61,133 +50,22 @@ Deno.serve(async (req) => {
 
     const { includeAuditLogs = true } = await req.json().catch(() => ({}));
 
-    // Tables to backup
-    const tablesToBackup = [
-      'accounts',
-      'contacts',
-      'leads',
-      'deals',
-      'deal_action_items',
-      'lead_action_items',
-      'notifications',
-      'profiles',
-      'saved_filters',
-      'user_preferences',
-      'user_roles',
-      'dashboard_preferences',
-      'yearly_revenue_targets',
-      'page_permissions',
-    ];
-
-    if (includeAuditLogs) {
-      tablesToBackup.push('security_audit_log');
-    }
-
-    const backupData: Record<string, any[]> = {};
-    const manifest: BackupManifest = {
-      version: '1.0',
-      created_at: new Date().toISOString(),
-      created_by: user.id,
-      tables: [],
-      total_records: 0,
-      include_audit_logs: includeAuditLogs,
-    };
-
-    // Fetch data from each table
-    for (const tableName of tablesToBackup) {
-      try {
-        const { data, error } = await supabaseAdmin
-          .from(tableName)
-          .select('*');
-
-        if (error) {
-          console.warn(`Error fetching ${tableName}:`, error.message);
-          backupData[tableName] = [];
-          manifest.tables.push({ name: tableName, row_count: 0 });
-        } else {
-          backupData[tableName] = data || [];
-          manifest.tables.push({ name: tableName, row_count: data?.length || 0 });
-          manifest.total_records += data?.length || 0;
-        }
-      } catch (err) {
-        console.warn(`Failed to backup ${tableName}:`, err);
-        backupData[tableName] = [];
-        manifest.tables.push({ name: tableName, row_count: 0 });
-      }
-    }
-
-    // Create backup JSON
-    const backupContent = JSON.stringify({
-      manifest,
-      data: backupData,
-    }, null, 2);
-
-    // Generate file name
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-    const fileName = `backup_${timestamp}.json`;
-    const filePath = `${user.id}/${fileName}`;
-
-    // Upload to storage
-    const { error: uploadError } = await supabaseAdmin.storage
-      .from('backups')
-      .upload(filePath, new Blob([backupContent], { type: 'application/json' }), {
-        contentType: 'application/json',
-        upsert: false,
-      });
-
-    if (uploadError) {
-      console.error('Upload error:', uploadError);
-      throw new Error(`Failed to upload backup: ${uploadError.message}`);
-    }
-
-    // Get file size
-    const sizeBytes = new Blob([backupContent]).size;
-
-    // Save backup metadata
-    const { data: backupRecord, error: dbError } = await supabaseAdmin
-      .from('backups')
-      .insert({
-        file_name: fileName,
-        file_path: filePath,
-        size_bytes: sizeBytes,
-        tables_count: manifest.tables.length,
-        records_count: manifest.total_records,
-        backup_type: 'manual',
-        status: 'completed',
-        manifest: manifest,
-        created_by: user.id,
-      })
-      .select()
-      .single();
-
-    if (dbError) {
-      console.error('Database error:', dbError);
-      throw new Error(`Failed to save backup metadata: ${dbError.message}`);
-    }
+    const backupRecord = await createBackup(supabaseAdmin, {
+      createdBy: user.id,
+      backupType: 'manual',
+      includeAuditLogs,
+    });
 
-    // Clean up old backups (keep only last 10)
-    const { data: allBackups } = await supabaseAdmin
+    // Clean up old manual backups (keep only last 10); scheduled backups are pruned by their retention policy
+    const { data: manualBackups } = await supabaseAdmin
       .from('backups')
       .select('id, file_path, created_at')
+      .eq('backup_type', 'manual')
       .order('created_at', { ascending: false });
 
-    if (allBackups && allBackups.length > 10) {
-      const backupsToDelete = allBackups.slice(10);
-      
-      for (const oldBackup of backupsToDelete) {
-        // Delete from storage
-        await supabaseAdmin.storage
-          .from('backups')
-          .remove([oldBackup.file_path]);
-        
-        // Delete metadata
-        await supabaseAdmin
-          .from('backups')
-          .delete()
-          .eq('id', oldBackup.id);
-      }
-      
-      console.log(`Cleaned up ${backupsToDelete.length} old backups`);
+    if (manualBackups && manualBackups.length > 10) {
+      const removed = await deleteBackups(supabaseAdmin, manualBackups.slice(10));
+      console.log(`Cleaned up ${removed} old backups`);
     }
 
     // Log the backup action
@@ -196,14 +74,14 @@ Deno.serve(async (req) => {
       p_resource_type: 'backup',
       p_resource_id: backupRecord.id,
       p_details: {
-        file_name: fileName,
-        tables_count: manifest.tables.length,
-        records_count: manifest.total_records,
-        size_bytes: sizeBytes,
+        file_name: backupRecord.file_name,
+        tables_count: backupRecord.tables_count,
+        records_count: backupRecord.records_count,
+        size_bytes: backupRecord.size_bytes,
       }
     });
 
-    console.log('Backup created successfully:', fileName);
+    console.log('Backup created successfully:', backupRecord.file_name);
 
     return new Response(
       JSON.stringify({ 
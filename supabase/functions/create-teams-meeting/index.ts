@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.52.0';
+import { TeamsRecurrence, toGraphRecurrence } from '../_shared/teamsRecurrence.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -19,6 +20,8 @@ interface MeetingRequest {
   endTime: string;
   timezone?: string;
   description?: string;
+  // Present for a meeting series; startTime/endTime are then the first occurrence
+  recurrence?: TeamsRecurrence;
 }
 
 async function getAccessToken(): Promise<string> {
@@ -213,6 +216,11 @@ async function createCalendarEvent(
     }
   };
 
+  // Every occurrence of a series shares the one online meeting and its join link
+  if (meetingRequest.recurrence) {
+    eventBody.recurrence = toGraphRecurrence(meetingRequest.recurrence);
+  }
+
   console.log('Calendar event request body:', JSON.stringify(eventBody, null, 2));
 
   const eventResponse = await fetch(
@@ -250,6 +258,7 @@ async function createCalendarEvent(
     subject: eventData.subject,
     startDateTime: eventData.start?.dateTime,
     endDateTime: eventData.end?.dateTime,
+    recurrence: eventData.recurrence,
   };
 }
 
@@ -291,7 +300,7 @@ serve(async (req) => {
       );
     }
 
-    const { subject, attendees, startTime, endTime, timezone, description }: MeetingRequest = await req.json();
+    const { subject, attendees, startTime, endTime, timezone, description, recurrence }: MeetingRequest = await req.json();
 
     if (!subject || !attendees || !startTime || !endTime) {
       return new Response(
@@ -300,7 +309,7 @@ serve(async (req) => {
       );
     }
 
-    console.log('Creating Teams meeting:', { subject, attendeesCount: attendees.length, startTime, endTime, timezone });
+    console.log('Creating Teams meeting:', { subject, attendeesCount: attendees.length, startTime, endTime, timezone, recurring: !!recurrence });
 
     // Get Azure AD access token
     const accessToken = await getAccessToken();
@@ -319,7 +328,7 @@ serve(async (req) => {
     try {
       calendarEvent = await createCalendarEvent(
         accessToken, 
-        { subject, attendees, startTime, endTime, timezone, description }, 
+        { subject, attendees, startTime, endTime, timezone, description, recurrence }, 
         organizerUserId, 
         onlineMeeting
       );
@@ -0,0 +1,86 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { escapeHtml } from '../_shared/email.ts'
+import { verifyUnsubscribeSignature } from '../_shared/emailLinks.ts'
+import { normalizeEmail } from '../_shared/emailSuppression.ts'
+
+// Public endpoint behind the unsubscribe link in campaign and sequence emails. Opening the link (GET)
+// only shows a confirmation page, because link scanners and mail prefetchers open links on their own;
+// its button POSTs back here. Mail clients' one-click List-Unsubscribe (RFC 8058) POSTs directly.
+// Only a POST puts the recipient of the signed email on the suppression list.
+// Supabase renders HTML from edge functions only on a custom domain; on the default domain the page
+// arrives as plain text.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const htmlResponse = (body: string, status: number) =>
+  new Response(
+    `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">`
+      + `<title>Unsubscribe</title></head><body style="font-family: sans-serif; max-width: 480px; margin: 48px auto; padding: 0 16px;">`
+      + `${body}</body></html>`,
+    { status, headers: { ...corsHeaders, 'Content-Type': 'text/html; charset=utf-8' } }
+  );
+
+const messageResponse = (message: string, status: number) => htmlResponse(`<p>${escapeHtml(message)}</p>`, status);
+
+const confirmationPage = (email: string) =>
+  htmlResponse(
+    `<p>Unsubscribe <strong>${escapeHtml(email)}</strong> from our emails?</p>`
+      + `<form method="POST"><button type="submit" style="padding: 8px 16px;">Unsubscribe</button></form>`,
+    200
+  );
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return messageResponse('Method not allowed', 405);
+  }
+
+  try {
+    const url = new URL(req.url);
+    const emailHistoryId = url.searchParams.get('e');
+    const signature = url.searchParams.get('s');
+
+    if (!emailHistoryId || !signature || !(await verifyUnsubscribeSignature(emailHistoryId, signature))) {
+      console.warn(`Rejected unsubscribe with an invalid signature for email ${emailHistoryId}`);
+      return messageResponse('This unsubscribe link is invalid.', 400);
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: emailRecord } = await supabase
+      .from('email_history')
+      .select('id, recipient_email')
+      .eq('id', emailHistoryId)
+      .maybeSingle();
+    if (!emailRecord?.recipient_email) {
+      return messageResponse('This unsubscribe link has expired.', 404);
+    }
+
+    const email = normalizeEmail(emailRecord.recipient_email);
+
+    if (req.method === 'GET') {
+      return confirmationPage(email);
+    }
+
+    // An address that is already suppressed (bounced, blocked or unsubscribed before) stays as it is
+    const { error } = await supabase
+      .from('email_suppressions')
+      .upsert(
+        { email, reason: 'unsubscribed', email_history_id: emailRecord.id, created_by: null },
+        { onConflict: 'email', ignoreDuplicates: true }
+      );
+    if (error) throw new Error(`Failed to record unsubscribe: ${error.message}`);
+
+    console.log(`Unsubscribed ${email} via email ${emailRecord.id}`);
+    return messageResponse(`You have been unsubscribed. We won't send any more emails to ${email}.`, 200);
+  } catch (error) {
+    console.error('Email unsubscribe error:', error);
+    return messageResponse('Something went wrong. Please try the link again later.', 500);
+  }
+});
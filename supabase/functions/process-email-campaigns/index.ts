@@ -0,0 +1,272 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { sendEmailViaFunction } from '../_shared/email.ts'
+import { SuppressedRecipientError } from '../_shared/emailSuppression.ts'
+import { buildTemplateContext, renderTemplate } from '../_shared/emailTemplateEngine.ts'
+import { loadTemplateRecords, templateSourcesFor } from '../_shared/emailTemplateRecords.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// A claimed batch is spread over this window so it finishes before the next cron run
+const BATCH_WINDOW_MS = 50 * 1000;
+
+// Recipients left in "sending" this long belong to a run that died and go back in the queue
+const STALE_SENDING_MINUTES = 10;
+
+// Retries wait 5, 10, 20... minutes
+const RETRY_BASE_MINUTES = 5;
+
+interface Campaign {
+  id: string;
+  subject: string;
+  body: string | null;
+  sender_email: string;
+  send_rate_per_minute: number;
+  max_attempts: number;
+  created_by: string | null;
+}
+
+interface CampaignRecipient {
+  id: string;
+  lead_id: string | null;
+  contact_id: string | null;
+  recipient_email: string;
+  recipient_name: string | null;
+  attempts: number;
+}
+
+interface CampaignResult {
+  campaign_id: string;
+  sent: number;
+  retrying: number;
+  suppressed: number;
+  failed: number;
+  completed: boolean;
+  error?: string;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const releaseStaleRecipients = async (supabase: SupabaseClient) => {
+  const { error } = await supabase
+    .from('email_campaign_recipients')
+    .update({ status: 'pending' })
+    .eq('status', 'sending')
+    .lt('last_attempt_at', new Date(Date.now() - STALE_SENDING_MINUTES * MINUTE_MS).toISOString());
+
+  if (error) console.error('Failed to release stale campaign recipients:', error.message);
+};
+
+const getSender = async (supabase: SupabaseClient, campaign: Campaign) => {
+  if (!campaign.created_by) return { name: null, email: campaign.sender_email, timezone: null };
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('full_name, timezone')
+    .eq('id', campaign.created_by)
+    .maybeSingle();
+  return { name: profile?.full_name || null, email: campaign.sender_email, timezone: profile?.timezone || null };
+};
+
+const getCampaignStatus = async (supabase: SupabaseClient, campaignId: string) => {
+  const { data } = await supabase.from('email_campaigns').select('status').eq('id', campaignId).single();
+  return data?.status as string | undefined;
+};
+
+// Paused or cancelled mid-batch: the recipients not reached yet are handed back without using up an attempt
+const returnUnsentRecipients = async (supabase: SupabaseClient, recipients: CampaignRecipient[], status: string | undefined) => {
+  for (const recipient of recipients) {
+    await supabase
+      .from('email_campaign_recipients')
+      .update({
+        status: status === 'cancelled' ? 'cancelled' : 'pending',
+        attempts: recipient.attempts - 1,
+      })
+      .eq('id', recipient.id);
+  }
+};
+
+const completeIfDone = async (supabase: SupabaseClient, campaignId: string) => {
+  const { count } = await supabase
+    .from('email_campaign_recipients')
+    .select('id', { count: 'exact', head: true })
+    .eq('campaign_id', campaignId)
+    .in('status', ['pending', 'sending']);
+
+  if (count !== 0) return false;
+
+  await supabase
+    .from('email_campaigns')
+    .update({ status: 'completed', completed_at: new Date().toISOString() })
+    .eq('id', campaignId)
+    .eq('status', 'sending');
+  return true;
+};
+
+const processCampaign = async (supabase: SupabaseClient, campaign: Campaign): Promise<CampaignResult> => {
+  const result: CampaignResult = { campaign_id: campaign.id, sent: 0, retrying: 0, suppressed: 0, failed: 0, completed: false };
+
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_email_campaign_recipients', {
+    p_campaign_id: campaign.id,
+  });
+  if (claimError) throw new Error(`Failed to claim recipients: ${claimError.message}`);
+
+  const recipients = (claimed || []) as CampaignRecipient[];
+  if (recipients.length > 0) {
+    const [records, sender] = await Promise.all([
+      loadTemplateRecords(supabase, recipients),
+      getSender(supabase, campaign),
+    ]);
+    const spacing = BATCH_WINDOW_MS / campaign.send_rate_per_minute;
+
+    for (const [index, recipient] of recipients.entries()) {
+      if (index > 0) {
+        await sleep(spacing);
+        const status = await getCampaignStatus(supabase, campaign.id);
+        if (status !== 'sending') {
+          await returnUnsentRecipients(supabase, recipients.slice(index), status);
+          break;
+        }
+      }
+
+      const sources = templateSourcesFor(records, recipient);
+      const { lead, contact } = sources;
+      const context = buildTemplateContext({
+        ...sources,
+        sender,
+        recipient: { name: recipient.recipient_name, email: recipient.recipient_email },
+        timezone: sender.timezone,
+      });
+
+      try {
+        const { emailId } = await sendEmailViaFunction({
+          to: recipient.recipient_email,
+          toName: recipient.recipient_name || undefined,
+          subject: renderTemplate(campaign.subject, context),
+          body: renderTemplate(campaign.body || '', context, { escapeHtml: true }),
+          from: campaign.sender_email,
+          entityType: lead ? 'lead' : contact ? 'contact' : undefined,
+          entityId: lead?.id || contact?.id,
+          campaignId: campaign.id,
+          sentBy: campaign.created_by,
+        });
+
+        await supabase
+          .from('email_campaign_recipients')
+          .update({ status: 'sent', sent_at: new Date().toISOString(), email_history_id: emailId || null, last_error: null })
+          .eq('id', recipient.id);
+        result.sent++;
+      } catch (error) {
+        // Unsubscribed or blocked since the campaign was queued: dropped like a cancelled recipient
+        if (error instanceof SuppressedRecipientError) {
+          await supabase
+            .from('email_campaign_recipients')
+            .update({ status: 'cancelled', last_error: error.message })
+            .eq('id', recipient.id);
+          result.suppressed++;
+          continue;
+        }
+
+        const retry = recipient.attempts < campaign.max_attempts;
+        const delayMinutes = RETRY_BASE_MINUTES * 2 ** (recipient.attempts - 1);
+        console.error(`Campaign ${campaign.id} email to ${recipient.recipient_email} failed (attempt ${recipient.attempts}):`, error);
+
+        await supabase
+          .from('email_campaign_recipients')
+          .update({
+            status: retry ? 'pending' : 'failed',
+            last_error: errorMessage(error),
+            ...(retry ? { next_attempt_at: new Date(Date.now() + delayMinutes * MINUTE_MS).toISOString() } : {}),
+          })
+          .eq('id', recipient.id);
+        if (retry) result.retrying++;
+        else result.failed++;
+      }
+    }
+  }
+
+  result.completed = await completeIfDone(supabase, campaign.id);
+  return result;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Unauthorized');
+    }
+
+    const { campaignId } = await req.json().catch(() => ({})) as { campaignId?: string };
+    const isCron = authHeader.replace('Bearer ', '') === supabaseServiceKey;
+
+    let campaignIds: string[] | null = null;
+    if (isCron) {
+      await releaseStaleRecipients(supabaseAdmin);
+      if (campaignId) campaignIds = [campaignId];
+    } else {
+      // A user starting or resuming a campaign sends its first batch right away; row level security
+      // limits this to campaigns they can see
+      if (!campaignId) throw new Error('campaignId is required');
+      const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const { data: visible } = await supabaseUser.from('email_campaigns').select('id').eq('id', campaignId).maybeSingle();
+      if (!visible) throw new Error('Unauthorized');
+      campaignIds = [campaignId];
+    }
+
+    let query = supabaseAdmin
+      .from('email_campaigns')
+      .select('id, subject, body, sender_email, send_rate_per_minute, max_attempts, created_by')
+      .eq('status', 'sending');
+    if (campaignIds) query = query.in('id', campaignIds);
+
+    const { data: campaigns, error: campaignsError } = await query;
+    if (campaignsError) {
+      throw new Error(`Failed to load campaigns: ${campaignsError.message}`);
+    }
+
+    console.log(`Processing ${campaigns?.length || 0} email campaign(s)`);
+
+    // Campaigns are throttled independently, so their batches run side by side
+    const results = await Promise.all(
+      ((campaigns || []) as Campaign[]).map(campaign =>
+        processCampaign(supabaseAdmin, campaign).catch((error): CampaignResult => {
+          console.error(`Email campaign ${campaign.id} failed:`, error);
+          return { campaign_id: campaign.id, sent: 0, retrying: 0, suppressed: 0, failed: 0, completed: false, error: errorMessage(error) };
+        })
+      )
+    );
+
+    return new Response(
+      JSON.stringify({ success: true, processed: results.length, results }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error) {
+    console.error('Email campaign processing error:', error);
+    const message = errorMessage(error);
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: message === 'Unauthorized' ? 401 : 500
+      }
+    );
+  }
+});
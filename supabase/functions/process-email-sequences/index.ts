@@ -0,0 +1,276 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { sendEmailViaFunction } from '../_shared/email.ts'
+import { SuppressedRecipientError } from '../_shared/emailSuppression.ts'
+import { buildTemplateContext, renderTemplate } from '../_shared/emailTemplateEngine.ts'
+import { loadTemplateRecords, templateSourcesFor } from '../_shared/emailTemplateRecords.ts'
+
+// Runs from cron every 10 minutes: each due enrolment gets its next step (an email from a template or a
+// task for the person who enrolled it) and is scheduled for the step after. Replies and booked meetings
+// end enrolments through database triggers, so this only ever sees enrolments that are still running.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const BATCH_SIZE = 100;
+
+// A failed email is retried after 30, 60... minutes before the enrolment is marked failed
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MINUTES = 30;
+
+interface Enrollment {
+  id: string;
+  sequence_id: string;
+  lead_id: string | null;
+  contact_id: string | null;
+  recipient_email: string;
+  recipient_name: string | null;
+  sender_email: string;
+  current_step: number;
+  attempts: number;
+  enrolled_by: string | null;
+}
+
+interface SequenceStep {
+  sequence_id: string;
+  position: number;
+  step_type: 'email' | 'task';
+  template_id: string | null;
+  task_title: string | null;
+  task_description: string | null;
+  delay_days: number;
+}
+
+interface StepResult {
+  enrollment_id: string;
+  step: number;
+  outcome: 'sent' | 'task_created' | 'completed' | 'retrying' | 'failed' | 'exited';
+  error?: string;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// A step that can't run until someone edits the sequence, so retrying won't help
+class StepConfigurationError extends Error {}
+
+const loadSteps = async (supabase: SupabaseClient, sequenceIds: string[]) => {
+  const { data, error } = await supabase
+    .from('email_sequence_steps')
+    .select('sequence_id, position, step_type, template_id, task_title, task_description, delay_days')
+    .in('sequence_id', sequenceIds)
+    .order('position');
+  if (error) throw new Error(`Failed to load sequence steps: ${error.message}`);
+
+  const bySequence = new Map<string, SequenceStep[]>();
+  for (const step of (data || []) as SequenceStep[]) {
+    bySequence.set(step.sequence_id, [...(bySequence.get(step.sequence_id) || []), step]);
+  }
+  return bySequence;
+};
+
+const loadTemplates = async (supabase: SupabaseClient, steps: SequenceStep[]) => {
+  const templateIds = [...new Set(steps.map(step => step.template_id).filter((id): id is string => !!id))];
+  const { data } = templateIds.length > 0
+    ? await supabase.from('email_templates').select('id, subject, body').in('id', templateIds)
+    : { data: [] };
+  return new Map((data || []).map(template => [template.id as string, template as { subject: string; body: string }]));
+};
+
+const loadSenders = async (supabase: SupabaseClient, userIds: string[]) => {
+  const { data } = userIds.length > 0
+    ? await supabase.from('profiles').select('id, full_name, timezone').in('id', userIds)
+    : { data: [] };
+  return new Map((data || []).map(profile => [
+    profile.id as string,
+    { name: (profile.full_name as string | null) || null, timezone: (profile.timezone as string | null) || null },
+  ]));
+};
+
+// Only moves enrolments that are still active, so a reply that arrived mid-step keeps its status
+const updateEnrollment = (supabase: SupabaseClient, id: string, values: Record<string, unknown>) =>
+  supabase.from('email_sequence_enrollments').update(values).eq('id', id).eq('status', 'active');
+
+const advance = async (supabase: SupabaseClient, enrollment: Enrollment, steps: SequenceStep[]) => {
+  const now = new Date();
+  const nextStep = steps[enrollment.current_step + 1];
+
+  await updateEnrollment(supabase, enrollment.id, nextStep
+    ? {
+        current_step: enrollment.current_step + 1,
+        next_step_at: new Date(now.getTime() + nextStep.delay_days * DAY_MS).toISOString(),
+        attempts: 0,
+        last_step_at: now.toISOString(),
+        last_error: null,
+      }
+    : {
+        current_step: enrollment.current_step + 1,
+        status: 'completed',
+        exited_at: now.toISOString(),
+        last_step_at: now.toISOString(),
+        last_error: null,
+      });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    if (req.headers.get('Authorization')?.replace('Bearer ', '') !== supabaseServiceKey) {
+      throw new Error('Unauthorized');
+    }
+
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_email_sequence_enrollments', {
+      p_limit: BATCH_SIZE,
+    });
+    if (claimError) throw new Error(`Failed to claim enrollments: ${claimError.message}`);
+
+    const enrollments = (claimed || []) as Enrollment[];
+    console.log(`Processing ${enrollments.length} email sequence enrollment(s)`);
+    if (enrollments.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, processed: 0, results: [] }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      );
+    }
+
+    const stepsBySequence = await loadSteps(supabase, [...new Set(enrollments.map(e => e.sequence_id))]);
+    const [templates, senders, records] = await Promise.all([
+      loadTemplates(supabase, [...stepsBySequence.values()].flat()),
+      loadSenders(supabase, [...new Set(enrollments.map(e => e.enrolled_by).filter((id): id is string => !!id))]),
+      loadTemplateRecords(supabase, enrollments),
+    ]);
+
+    const results: StepResult[] = [];
+    for (const enrollment of enrollments) {
+      const steps = stepsBySequence.get(enrollment.sequence_id) || [];
+      const step = steps[enrollment.current_step];
+      const result: StepResult = { enrollment_id: enrollment.id, step: enrollment.current_step, outcome: 'completed' };
+      results.push(result);
+
+      // Steps removed since the enrolment got here
+      if (!step) {
+        await updateEnrollment(supabase, enrollment.id, { status: 'completed', exited_at: new Date().toISOString() });
+        continue;
+      }
+
+      // Exited between the claim and now
+      const { data: current } = await supabase
+        .from('email_sequence_enrollments')
+        .select('status')
+        .eq('id', enrollment.id)
+        .single();
+      if (current?.status !== 'active') {
+        result.outcome = 'exited';
+        continue;
+      }
+
+      const sources = templateSourcesFor(records, enrollment);
+      const { lead, contact } = sources;
+      const sender = senders.get(enrollment.enrolled_by || '');
+      const context = buildTemplateContext({
+        ...sources,
+        sender: { name: sender?.name, email: enrollment.sender_email },
+        recipient: { name: enrollment.recipient_name, email: enrollment.recipient_email },
+        timezone: sender?.timezone,
+      });
+
+      try {
+        if (step.step_type === 'email') {
+          const template = step.template_id ? templates.get(step.template_id) : undefined;
+          if (!template) throw new StepConfigurationError('The email template for this step was deleted');
+
+          await sendEmailViaFunction({
+            to: enrollment.recipient_email,
+            toName: enrollment.recipient_name || undefined,
+            subject: renderTemplate(template.subject, context),
+            body: renderTemplate(template.body, context, { escapeHtml: true }),
+            from: enrollment.sender_email,
+            entityType: lead ? 'lead' : contact ? 'contact' : undefined,
+            entityId: lead?.id || contact?.id,
+            sequenceEnrollmentId: enrollment.id,
+            sentBy: enrollment.enrolled_by,
+          });
+          result.outcome = 'sent';
+        } else {
+          const title = renderTemplate(step.task_title || 'Sequence follow-up', context);
+          const { data: task, error: taskError } = await supabase
+            .from('tasks')
+            .insert({
+              title,
+              description: step.task_description ? renderTemplate(step.task_description, context) : null,
+              status: 'open',
+              priority: 'medium',
+              due_date: new Date().toISOString().slice(0, 10),
+              lead_id: lead?.id || null,
+              contact_id: contact?.id || null,
+              module_type: lead ? 'leads' : 'contacts',
+              assigned_to: enrollment.enrolled_by,
+              created_by: enrollment.enrolled_by,
+            })
+            .select('id')
+            .single();
+          if (taskError) throw new Error(`Failed to create task: ${taskError.message}`);
+
+          if (enrollment.enrolled_by) {
+            await supabase.from('notifications').insert({
+              user_id: enrollment.enrolled_by,
+              message: `Sequence task due today: ${title}`,
+              notification_type: 'task_assigned',
+              task_id: task.id,
+              lead_id: lead?.id || null,
+            });
+          }
+          result.outcome = 'task_created';
+        }
+
+        await advance(supabase, enrollment, steps);
+      } catch (error) {
+        // Unsubscribed or blocked: the enrolment ends rather than failing
+        if (error instanceof SuppressedRecipientError) {
+          await updateEnrollment(supabase, enrollment.id, { last_error: error.message, status: 'stopped', exited_at: new Date().toISOString() });
+          result.outcome = 'exited';
+          result.error = error.message;
+          continue;
+        }
+
+        const retry = !(error instanceof StepConfigurationError) && enrollment.attempts < MAX_ATTEMPTS;
+        const delayMinutes = RETRY_BASE_MINUTES * 2 ** (enrollment.attempts - 1);
+        console.error(`Sequence enrollment ${enrollment.id} step ${step.position} failed (attempt ${enrollment.attempts}):`, error);
+
+        await updateEnrollment(supabase, enrollment.id, retry
+          ? { last_error: errorMessage(error), next_step_at: new Date(Date.now() + delayMinutes * MINUTE_MS).toISOString() }
+          : { last_error: errorMessage(error), status: 'failed', exited_at: new Date().toISOString() });
+        result.outcome = retry ? 'retrying' : 'failed';
+        result.error = errorMessage(error);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, processed: results.length, results }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error) {
+    console.error('Email sequence processing error:', error);
+    const message = errorMessage(error);
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: message === 'Unauthorized' ? 401 : 500
+      }
+    );
+  }
+});
@@ -0,0 +1,257 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { getGraphAccessToken } from '../_shared/emailTransport.ts'
+import { InboundMessage, interpretInboundEmail, normalizeSubject } from '../_shared/inboundEmail.ts'
+
+// Two ways in:
+//  - POST a raw RFC 822 message (Content-Type: message/rfc822) with the service role key or the
+//    INBOUND_EMAIL_SECRET in x-inbound-secret, e.g. `curl --data-binary @reply.eml` when developing.
+//  - POST {} from cron: polls the Graph inboxes of everyone who sent email recently (or the
+//    INBOUND_MAILBOXES list) and feeds each new message's MIME through the same path.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-inbound-secret',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Senders whose inboxes are polled when INBOUND_MAILBOXES isn't set
+const ACTIVE_SENDER_DAYS = 30;
+// A new mailbox starts this far back
+const INITIAL_LOOKBACK_MS = DAY_MS;
+const GRAPH_PAGE_SIZE = 50;
+
+// Fallback matching when a message carries no usable Message-ID references
+const REPLY_MATCH_DAYS = 60;
+const REPORT_MATCH_DAYS = 7;
+
+type InboundSource = 'graph' | 'upload';
+
+interface OriginalEmail {
+  id: string;
+  lead_id: string | null;
+  contact_id: string | null;
+  account_id: string | null;
+}
+
+interface IngestResult {
+  message_id: string | null;
+  kind: string | null;
+  status: 'recorded' | 'duplicate' | 'unmatched' | 'ignored';
+  email_history_id?: string;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const findOriginalEmail = async (supabase: SupabaseClient, message: InboundMessage): Promise<OriginalEmail | null> => {
+  const columns = 'id, lead_id, contact_id, account_id, message_id';
+
+  if (message.threadIds.length > 0) {
+    const { data } = await supabase.from('email_history').select(columns).in('message_id', message.threadIds);
+    if (data && data.length > 0) {
+      // Most specific reference first (In-Reply-To, then the newest References entry)
+      const rank = (row: { message_id: string }) => message.threadIds.indexOf(row.message_id);
+      return [...data].sort((a, b) => rank(a) - rank(b))[0];
+    }
+  }
+
+  // Clients that drop the headers: match on who it came from (or is about) and the subject
+  const counterpart = message.kind === 'reply' || message.kind === 'auto_reply' ? message.fromEmail : message.reportRecipient;
+  if (!counterpart) return null;
+
+  const days = message.kind === 'bounce' || message.kind === 'delivery' ? REPORT_MATCH_DAYS : REPLY_MATCH_DAYS;
+  const { data: candidates } = await supabase
+    .from('email_history')
+    .select(`${columns}, subject`)
+    .ilike('recipient_email', counterpart.replace(/[%_\\]/g, '\\$&'))
+    .gte('sent_at', new Date(Date.now() - days * DAY_MS).toISOString())
+    .order('sent_at', { ascending: false })
+    .limit(20);
+
+  if (!candidates || candidates.length === 0) return null;
+  if (message.kind === 'bounce' || message.kind === 'delivery') return candidates[0];
+
+  const subject = normalizeSubject(message.subject);
+  return candidates.find(candidate => normalizeSubject(candidate.subject || '') === subject) || null;
+};
+
+const ingestMessage = async (supabase: SupabaseClient, raw: string, source: InboundSource): Promise<IngestResult> => {
+  const message = interpretInboundEmail(raw);
+  const result: IngestResult = { message_id: message.messageId, kind: message.kind, status: 'ignored' };
+  if (!message.kind) return result;
+
+  const original = await findOriginalEmail(supabase, message);
+  if (!original) {
+    result.status = 'unmatched';
+    return result;
+  }
+
+  const { data: inserted, error } = await supabase
+    .from('inbound_emails')
+    .upsert({
+      email_history_id: original.id,
+      kind: message.kind,
+      message_id: message.messageId,
+      from_email: message.fromEmail,
+      from_name: message.fromName,
+      subject: message.subject || null,
+      body_text: message.bodyText,
+      bounce_type: message.bounceType,
+      diagnostic: message.diagnostic,
+      lead_id: original.lead_id,
+      contact_id: original.contact_id,
+      account_id: original.account_id,
+      source,
+      received_at: message.receivedAt,
+    }, { onConflict: 'message_id', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) throw new Error(`Failed to record inbound email: ${error.message}`);
+
+  result.status = inserted && inserted.length > 0 ? 'recorded' : 'duplicate';
+  result.email_history_id = original.id;
+  return result;
+};
+
+const getPolledMailboxes = async (supabase: SupabaseClient) => {
+  const configured = (Deno.env.get('INBOUND_MAILBOXES') || '')
+    .split(',')
+    .map(mailbox => mailbox.trim().toLowerCase())
+    .filter(Boolean);
+  if (configured.length > 0) return configured;
+
+  const { data, error } = await supabase.rpc('get_active_sender_mailboxes', {
+    p_since: new Date(Date.now() - ACTIVE_SENDER_DAYS * DAY_MS).toISOString(),
+  });
+  if (error) throw new Error(`Failed to load sender mailboxes: ${error.message}`);
+
+  return (data || []) as string[];
+};
+
+// New inbox messages since the mailbox's cursor, oldest first, each read as raw MIME
+const pollMailbox = async (supabase: SupabaseClient, accessToken: string, mailbox: string) => {
+  const { data: cursor } = await supabase
+    .from('inbound_mailbox_cursors')
+    .select('last_received_at')
+    .eq('mailbox', mailbox)
+    .maybeSingle();
+
+  const since = new Date(cursor?.last_received_at || Date.now() - INITIAL_LOOKBACK_MS).toISOString();
+  const mailboxUrl = `https://graph.microsoft.com/v1.0/users/${encodeURIComponent(mailbox)}`;
+  const headers = { Authorization: `Bearer ${accessToken}` };
+  const results: IngestResult[] = [];
+  let lastReceivedAt = since;
+
+  try {
+    const params = new URLSearchParams({
+      '$filter': `receivedDateTime gt ${since}`,
+      '$orderby': 'receivedDateTime asc',
+      '$select': 'id,receivedDateTime',
+      '$top': String(GRAPH_PAGE_SIZE),
+    });
+    const listResponse = await fetch(`${mailboxUrl}/mailFolders/inbox/messages?${params}`, { headers });
+    if (!listResponse.ok) {
+      throw new Error(`Failed to list messages: ${listResponse.status} ${await listResponse.text()}`);
+    }
+
+    const { value: messages = [] } = await listResponse.json() as { value?: { id: string; receivedDateTime: string }[] };
+    for (const message of messages) {
+      const mimeResponse = await fetch(`${mailboxUrl}/messages/${message.id}/$value`, { headers });
+      if (!mimeResponse.ok) {
+        throw new Error(`Failed to read message: ${mimeResponse.status} ${await mimeResponse.text()}`);
+      }
+
+      results.push(await ingestMessage(supabase, await mimeResponse.text(), 'graph'));
+      lastReceivedAt = message.receivedDateTime;
+    }
+
+    await supabase.from('inbound_mailbox_cursors').upsert({
+      mailbox,
+      last_received_at: lastReceivedAt,
+      last_polled_at: new Date().toISOString(),
+      last_error: null,
+    });
+  } catch (error) {
+    // Keep the progress made so far; the rest is picked up on the next run
+    await supabase.from('inbound_mailbox_cursors').upsert({
+      mailbox,
+      last_received_at: lastReceivedAt,
+      last_polled_at: new Date().toISOString(),
+      last_error: errorMessage(error),
+    });
+    throw error;
+  }
+
+  return results;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const inboundSecret = Deno.env.get('INBOUND_EMAIL_SECRET');
+    const authorized = req.headers.get('Authorization')?.replace('Bearer ', '') === supabaseServiceKey
+      || (!!inboundSecret && req.headers.get('x-inbound-secret') === inboundSecret);
+    if (!authorized) {
+      throw new Error('Unauthorized');
+    }
+
+    const contentType = req.headers.get('Content-Type') || '';
+    if (!contentType.includes('application/json')) {
+      const raw = await req.text();
+      if (!raw.trim()) {
+        return jsonResponse({ error: 'Empty message' }, 400);
+      }
+
+      const result = await ingestMessage(supabaseAdmin, raw, 'upload');
+      console.log(`Uploaded inbound email ${result.message_id || '(no Message-ID)'}: ${result.kind} ${result.status}`);
+      return jsonResponse({ success: true, result });
+    }
+
+    const mailboxes = await getPolledMailboxes(supabaseAdmin);
+    if (mailboxes.length === 0) {
+      return jsonResponse({ success: true, mailboxes: 0, results: [] });
+    }
+
+    const accessToken = await getGraphAccessToken();
+    const results: (IngestResult & { mailbox: string })[] = [];
+    const errors: { mailbox: string; error: string }[] = [];
+
+    for (const mailbox of mailboxes) {
+      try {
+        const mailboxResults = await pollMailbox(supabaseAdmin, accessToken, mailbox);
+        results.push(...mailboxResults.map(result => ({ ...result, mailbox })));
+      } catch (error) {
+        console.error(`Polling ${mailbox} failed:`, error);
+        errors.push({ mailbox, error: errorMessage(error) });
+      }
+    }
+
+    const recorded = results.filter(result => result.status === 'recorded').length;
+    console.log(`Polled ${mailboxes.length} mailbox(es): ${results.length} message(s), ${recorded} recorded`);
+
+    return jsonResponse({
+      success: true,
+      mailboxes: mailboxes.length,
+      recorded,
+      results: results.filter(result => result.status !== 'ignored' && result.status !== 'unmatched'),
+      errors: errors.length > 0 ? errors : undefined,
+    });
+  } catch (error) {
+    console.error('Inbound email error:', error);
+    const message = errorMessage(error);
+    return jsonResponse({ error: message }, message === 'Unauthorized' ? 401 : 500);
+  }
+});
@@ -1,4 +1,12 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import {
+  BackupFile,
+  getBackupTable,
+  getRestoreOrder,
+  sortSelfReferencing,
+  upgradeBackup,
+} from '../_shared/backupTables.ts'
+import { deleteRows, planTableRestore, RestoreMode, summarizePlan, TablePlan } from './plan.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -45,12 +53,28 @@ Deno.serve(async (req) => {
       throw new Error('Only admins can restore backups');
     }
 
-    const { backupId } = await req.json();
+    const {
+      backupId,
+      mode = 'replace',
+      dryRun = false,
+      tables: selectedTables,
+      recordIds,
+    }: {
+      backupId?: string;
+      mode?: RestoreMode;
+      dryRun?: boolean;
+      tables?: string[];
+      recordIds?: string[];
+    } = await req.json();
+
     if (!backupId) {
       throw new Error('Backup ID is required');
     }
+    if (!['replace', 'merge'].includes(mode)) {
+      throw new Error(`Unknown restore mode: ${mode}`);
+    }
 
-    console.log('Starting restore for backup:', backupId, 'by user:', user.email);
+    console.log(`Starting ${dryRun ? 'dry-run ' : ''}${mode} restore for backup:`, backupId, 'by user:', user.email);
 
     // Get backup metadata
     const { data: backup, error: backupError } = await supabaseAdmin
@@ -72,16 +96,54 @@ Deno.serve(async (req) => {
       throw new Error('Failed to download backup file');
     }
 
-    const backupContent = JSON.parse(await fileData.text());
-    const { manifest, data: backupData } = backupContent;
-
-    console.log('Restore manifest:', manifest);
+    const backupContent = JSON.parse(await fileData.text()) as BackupFile;
 
     // Validate manifest
-    if (!manifest || !manifest.version || !backupData) {
+    if (!backupContent?.manifest || !backupContent.manifest.version || !backupContent.data) {
       throw new Error('Invalid backup file format');
     }
 
+    // Bring older backups up to the current layout before touching any data
+    const { manifest, data: backupData } = upgradeBackup(backupContent);
+
+    console.log('Restore manifest:', manifest);
+
+    // Only tables this system knows about; anything else in the file is reported and left alone
+    const unknownTables = Object.keys(backupData).filter(tableName => !getBackupTable(tableName));
+    if (unknownTables.length > 0) {
+      console.warn('Skipping unknown tables in backup:', unknownTables.join(', '));
+    }
+
+    const tablesToRestore = Object.keys(backupData)
+      .filter(tableName => getBackupTable(tableName))
+      .filter(tableName => !selectedTables?.length || selectedTables.includes(tableName));
+
+    // Parents before children (respecting foreign key constraints)
+    const restoreOrder = getRestoreOrder(tablesToRestore);
+
+    const plans: TablePlan[] = [];
+    for (const tableName of restoreOrder) {
+      plans.push(await planTableRestore(supabaseAdmin, tableName, backupData[tableName], { mode, recordIds }));
+    }
+    const diff = plans.map(summarizePlan);
+
+    if (dryRun) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          dry_run: true,
+          mode,
+          tables: diff,
+          skipped_tables: unknownTables,
+          upgraded_from: manifest.upgraded_from,
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
+    }
+
     // Log restore start
     await supabaseAdmin.rpc('log_security_event', {
       p_action: 'RESTORE_STARTED',
@@ -89,77 +151,54 @@ Deno.serve(async (req) => {
       p_resource_id: backupId,
       p_details: {
         backup_file: backup.file_name,
-        tables_count: manifest.tables.length,
-        records_count: manifest.total_records,
+        mode,
+        tables: restoreOrder,
+        record_ids: recordIds?.length ? recordIds : undefined,
+        schema_version: manifest.schema_version,
+        upgraded_from: manifest.upgraded_from,
       }
     });
 
-    // Tables to restore in order (respecting foreign key constraints)
-    const restoreOrder = [
-      'profiles',
-      'user_roles',
-      'user_preferences',
-      'dashboard_preferences',
-      'accounts',
-      'contacts',
-      'leads',
-      'deals',
-      'deal_action_items',
-      'lead_action_items',
-      'notifications',
-      'saved_filters',
-      'yearly_revenue_targets',
-      'page_permissions',
-    ];
-
-    // Optional: include audit logs if they were in the backup
-    if (manifest.include_audit_logs && backupData['security_audit_log']) {
-      restoreOrder.push('security_audit_log');
-    }
-
     const errors: string[] = [];
     const restoredTables: string[] = [];
 
-    // Restore each table
-    for (const tableName of restoreOrder) {
-      if (!backupData[tableName]) {
-        console.log(`Skipping ${tableName} - not in backup`);
-        continue;
+    // Remove rows that aren't in the backup children-first, so no delete is blocked by a row that is about to go anyway
+    for (const plan of [...plans].reverse()) {
+      if (plan.deletes.length === 0) continue;
+
+      try {
+        await deleteRows(supabaseAdmin, plan.table, plan.deletes);
+      } catch (err) {
+        const message = (err as Error).message;
+        console.warn(`Warning deleting ${plan.table}:`, message);
+        errors.push(`${plan.table}: failed to delete rows (${message})`);
       }
+    }
 
+    // Restore each table
+    for (const plan of plans) {
+      const tableName = plan.table;
       try {
-        const records = backupData[tableName];
-        
+        const changed = [...plan.inserts, ...plan.updates];
+        const selfReference = getBackupTable(tableName)?.selfReference;
+        const records = selfReference ? sortSelfReferencing(changed, selfReference) : changed;
+
         if (records.length === 0) {
-          console.log(`Skipping ${tableName} - no records`);
+          console.log(`Skipping ${tableName} - nothing to change`);
           restoredTables.push(tableName);
           continue;
         }
 
-        // Delete existing data first (for non-critical tables)
-        // Skip deletion for profiles and user_roles to preserve current users
-        if (!['profiles', 'user_roles'].includes(tableName)) {
-          const { error: deleteError } = await supabaseAdmin
-            .from(tableName)
-            .delete()
-            .neq('id', '00000000-0000-0000-0000-000000000000'); // Delete all
-
-          if (deleteError) {
-            console.warn(`Warning deleting ${tableName}:`, deleteError.message);
-          }
-        }
-
-        // Insert backup data in batches
+        // Insert backup data in batches. restore_backup_rows upserts them with the restore flag set,
+        // so approval workflows let the restored values through as they were.
         const batchSize = 100;
         for (let i = 0; i < records.length; i += batchSize) {
           const batch = records.slice(i, i + batchSize);
           
-          const { error: insertError } = await supabaseAdmin
-            .from(tableName)
-            .upsert(batch, { 
-              onConflict: 'id',
-              ignoreDuplicates: false 
-            });
+          const { error: insertError } = await supabaseAdmin.rpc('restore_backup_rows', {
+            p_table: tableName,
+            p_rows: batch,
+          });
 
           if (insertError) {
             console.warn(`Warning inserting ${tableName}:`, insertError.message);
@@ -182,7 +221,10 @@ Deno.serve(async (req) => {
       p_resource_id: backupId,
       p_details: {
         backup_file: backup.file_name,
+        mode,
         restored_tables: restoredTables,
+        changes: diff.map(({ sample_ids, ...counts }) => counts),
+        skipped_tables: unknownTables,
         errors: errors,
         success: errors.length === 0,
       }
@@ -193,7 +235,11 @@ Deno.serve(async (req) => {
     return new Response(
       JSON.stringify({ 
         success: errors.length === 0,
+        mode,
         restored_tables: restoredTables,
+        tables: diff,
+        skipped_tables: unknownTables,
+        upgraded_from: manifest.upgraded_from,
         errors: errors,
         message: errors.length === 0 
           ? 'Restore completed successfully' 
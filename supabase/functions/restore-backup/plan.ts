@@ -0,0 +1,132 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { fetchAllRows } from '../_shared/backup.ts'
+import { getBackupTable } from '../_shared/backupTables.ts'
+
+type BackupRecord = Record<string, unknown>;
+
+// replace: make each table match the backup (rows missing from the backup are deleted)
+// merge: only add missing rows and update rows that haven't changed since the backup; never deletes
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestoreOptions {
+  mode: RestoreMode;
+  recordIds?: string[];
+}
+
+export interface TablePlan {
+  table: string;
+  inserts: BackupRecord[];
+  updates: BackupRecord[];
+  deletes: string[];
+  // Rows left alone in merge mode because the current copy is newer than the backup
+  skipped: string[];
+}
+
+export interface TableDiff {
+  table: string;
+  inserts: number;
+  updates: number;
+  deletes: number;
+  skipped: number;
+  sample_ids: {
+    inserts: string[];
+    updates: string[];
+    deletes: string[];
+  };
+}
+
+const SAMPLE_SIZE = 5;
+const ID_CHUNK_SIZE = 200;
+
+const getUpdatedAt = (row: BackupRecord) => {
+  const value = row.updated_at ?? row.modified_at ?? row.modified_time;
+  return typeof value === 'string' ? new Date(value).getTime() : null;
+};
+
+const isSameRow = (backupRow: BackupRecord, currentRow: BackupRecord) =>
+  Object.keys(backupRow).every(key => JSON.stringify(backupRow[key]) === JSON.stringify(currentRow[key]));
+
+const fetchRowsById = async (supabaseAdmin: SupabaseClient, tableName: string, ids: string[]) => {
+  const rows: BackupRecord[] = [];
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from(tableName)
+      .select('*')
+      .in('id', ids.slice(i, i + ID_CHUNK_SIZE));
+
+    if (error) throw new Error(error.message);
+    rows.push(...(data || []));
+  }
+  return rows;
+};
+
+export const planTableRestore = async (
+  supabaseAdmin: SupabaseClient,
+  tableName: string,
+  backupRecords: BackupRecord[],
+  options: RestoreOptions
+): Promise<TablePlan> => {
+  const recordIds = options.recordIds?.length ? new Set(options.recordIds) : null;
+  const records = recordIds
+    ? backupRecords.filter(record => recordIds.has(String(record.id)))
+    : backupRecords;
+
+  // With specific records only those rows need comparing, otherwise the whole table does
+  const currentRows = recordIds
+    ? await fetchRowsById(supabaseAdmin, tableName, records.map(record => String(record.id)))
+    : await fetchAllRows(supabaseAdmin, tableName);
+  const currentById = new Map(currentRows.map(row => [String(row.id), row]));
+
+  const plan: TablePlan = { table: tableName, inserts: [], updates: [], deletes: [], skipped: [] };
+
+  records.forEach(record => {
+    const current = currentById.get(String(record.id));
+    if (!current) {
+      plan.inserts.push(record);
+      return;
+    }
+    if (isSameRow(record, current)) return;
+
+    const currentUpdatedAt = getUpdatedAt(current);
+    const backupUpdatedAt = getUpdatedAt(record);
+    if (options.mode === 'merge' && currentUpdatedAt !== null && backupUpdatedAt !== null && currentUpdatedAt > backupUpdatedAt) {
+      plan.skipped.push(String(record.id));
+      return;
+    }
+    plan.updates.push(record);
+  });
+
+  // Deleting only makes sense when restoring a whole table over itself
+  if (options.mode === 'replace' && !recordIds && !getBackupTable(tableName)?.preserveExisting) {
+    const backupIds = new Set(records.map(record => String(record.id)));
+    plan.deletes = currentRows
+      .map(row => String(row.id))
+      .filter(id => !backupIds.has(id));
+  }
+
+  return plan;
+};
+
+export const summarizePlan = (plan: TablePlan): TableDiff => ({
+  table: plan.table,
+  inserts: plan.inserts.length,
+  updates: plan.updates.length,
+  deletes: plan.deletes.length,
+  skipped: plan.skipped.length,
+  sample_ids: {
+    inserts: plan.inserts.slice(0, SAMPLE_SIZE).map(record => String(record.id)),
+    updates: plan.updates.slice(0, SAMPLE_SIZE).map(record => String(record.id)),
+    deletes: plan.deletes.slice(0, SAMPLE_SIZE),
+  },
+});
+
+export const deleteRows = async (supabaseAdmin: SupabaseClient, tableName: string, ids: string[]) => {
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    const { error } = await supabaseAdmin
+      .from(tableName)
+      .delete()
+      .in('id', ids.slice(i, i + ID_CHUNK_SIZE));
+
+    if (error) throw new Error(error.message);
+  }
+};
@@ -0,0 +1,203 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { createBackup, deleteBackups } from '../_shared/backup.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface BackupSchedule {
+  id: string;
+  frequency: string;
+  day_of_week: number | null;
+  time_of_day: string;
+  retention_days: number | null;
+  is_enabled: boolean | null;
+  next_run_at: string | null;
+}
+
+interface RunResult {
+  schedule_id: string;
+  status: 'success' | 'failed';
+  backup_id?: string;
+  pruned: number;
+  error?: string;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Delete this schedule's backups (files and rows) older than its retention window
+const pruneScheduledBackups = async (supabaseAdmin: SupabaseClient, schedule: BackupSchedule) => {
+  const cutoff = new Date(Date.now() - (schedule.retention_days || 30) * DAY_MS).toISOString();
+
+  const { data: expired, error } = await supabaseAdmin
+    .from('backups')
+    .select('id, file_path')
+    .eq('backup_type', 'scheduled')
+    .eq('schedule_id', schedule.id)
+    .lt('created_at', cutoff);
+
+  if (error) {
+    throw new Error(`Failed to load expired backups: ${error.message}`);
+  }
+
+  return deleteBackups(supabaseAdmin, expired || []);
+};
+
+const runSchedule = async (supabaseAdmin: SupabaseClient, schedule: BackupSchedule): Promise<RunResult> => {
+  const startedAt = new Date();
+  let result: RunResult;
+
+  try {
+    const backupRecord = await createBackup(supabaseAdmin, {
+      createdBy: null,
+      backupType: 'scheduled',
+      includeAuditLogs: true,
+      scheduleId: schedule.id,
+    });
+
+    await supabaseAdmin.rpc('log_security_event', {
+      p_action: 'BACKUP_CREATED',
+      p_resource_type: 'backup',
+      p_resource_id: backupRecord.id,
+      p_details: {
+        file_name: backupRecord.file_name,
+        backup_type: 'scheduled',
+        schedule_id: schedule.id,
+        records_count: backupRecord.records_count,
+        size_bytes: backupRecord.size_bytes,
+      }
+    });
+
+    result = { schedule_id: schedule.id, status: 'success', backup_id: backupRecord.id, pruned: 0 };
+
+    // A failed prune shouldn't mark a good backup as failed, but it should still be visible
+    try {
+      result.pruned = await pruneScheduledBackups(supabaseAdmin, schedule);
+      if (result.pruned > 0) {
+        console.log(`Pruned ${result.pruned} scheduled backup(s) older than ${schedule.retention_days || 30} days`);
+      }
+    } catch (error) {
+      console.error(`Retention pruning failed for schedule ${schedule.id}:`, error);
+      result.error = `Backup created but retention pruning failed: ${errorMessage(error)}`;
+    }
+  } catch (error) {
+    console.error(`Backup schedule ${schedule.id} failed:`, error);
+    result = { schedule_id: schedule.id, status: 'failed', pruned: 0, error: errorMessage(error) };
+  }
+
+  // Always move on to the next slot so a persistent failure doesn't retry on every tick
+  const { data: nextRunAt } = await supabaseAdmin.rpc('compute_backup_next_run', {
+    p_frequency: schedule.frequency,
+    p_day_of_week: schedule.day_of_week,
+    p_time_of_day: schedule.time_of_day,
+    p_after: new Date().toISOString(),
+  });
+
+  const scheduleUpdates: Record<string, unknown> = {
+    last_run_at: startedAt.toISOString(),
+    last_run_status: result.status,
+    last_error: result.error || null,
+    next_run_at: nextRunAt,
+  };
+  if (result.status === 'success') {
+    scheduleUpdates.last_success_at = new Date().toISOString();
+    scheduleUpdates.last_backup_id = result.backup_id;
+  }
+
+  await supabaseAdmin
+    .from('backup_schedules')
+    .update(scheduleUpdates)
+    .eq('id', schedule.id);
+
+  return result;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    const { scheduleId } = await req.json().catch(() => ({}));
+
+    // The cron job calls with the service role key; anyone else must be an admin running one schedule now
+    if (authHeader.replace('Bearer ', '') !== supabaseServiceKey) {
+      const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+        global: { headers: { Authorization: authHeader } }
+      });
+
+      const { data: { user }, error: authError } = await supabaseUser.auth.getUser();
+      if (authError || !user) {
+        throw new Error('Unauthorized');
+      }
+
+      const { data: roleData } = await supabaseAdmin
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user.id)
+        .single();
+
+      const userRole = roleData?.role || user.user_metadata?.role || 'user';
+      if (userRole !== 'admin') {
+        throw new Error('Only admins can run scheduled backups');
+      }
+
+      if (!scheduleId) {
+        throw new Error('scheduleId is required');
+      }
+    }
+
+    let query = supabaseAdmin.from('backup_schedules').select('*');
+    query = scheduleId ? query.eq('id', scheduleId) : query.eq('is_enabled', true);
+
+    const { data: schedules, error: schedulesError } = await query;
+    if (schedulesError) {
+      throw new Error(`Failed to load backup schedules: ${schedulesError.message}`);
+    }
+
+    const now = new Date();
+    const toRun = ((schedules || []) as BackupSchedule[])
+      .filter(schedule => scheduleId || (schedule.next_run_at && new Date(schedule.next_run_at) <= now));
+
+    console.log(`Running ${toRun.length} of ${schedules?.length || 0} backup schedule(s)`);
+
+    const results: RunResult[] = [];
+    for (const schedule of toRun) {
+      results.push(await runSchedule(supabaseAdmin, schedule));
+    }
+
+    if (scheduleId && results.length === 0) {
+      throw new Error('Backup schedule not found');
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, processed: results.length, results }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error) {
+    console.error('Scheduled backups error:', error);
+    const message = errorMessage(error);
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: message === 'Unauthorized' ? 401 : 500
+      }
+    );
+  }
+});
@@ -0,0 +1,342 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { buildReport, ReportFilters, ReportPeriod } from './reports.ts'
+import { renderCsv, renderHtml, renderPdf, toBase64 } from './render.ts'
+import { sendEmailViaFunction } from '../_shared/email.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ReportSchedule {
+  id: string;
+  name: string;
+  report_type: string;
+  frequency: string;
+  day_of_week: number | null;
+  day_of_month: number | null;
+  time_of_day: string;
+  timezone: string | null;
+  recipients: unknown;
+  filters: ReportFilters | null;
+  attachment_format: string | null;
+  is_enabled: boolean | null;
+  last_run_at: string | null;
+  created_by: string | null;
+  created_at: string | null;
+}
+
+interface RunResult {
+  schedule_id: string;
+  status: 'success' | 'partial' | 'failed';
+  sent_count: number;
+  error?: string;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Offset of a time zone from UTC at the given instant, in milliseconds
+const getTimeZoneOffset = (date: Date, timeZone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+      .formatToParts(date)
+      .map(part => [part.type, Number(part.value)])
+  );
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - (date.getTime() - date.getUTCMilliseconds());
+};
+
+// Most recent wall-clock time at or before `now` (also wall-clock) when the schedule should have run.
+// Both are expressed as Dates whose UTC fields hold the schedule's local date and time.
+const getLatestWallClockOccurrence = (schedule: ReportSchedule, now: Date): Date => {
+  const [hours, minutes] = (schedule.time_of_day || '08:00').split(':').map(Number);
+  const atTime = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day, hours, minutes));
+
+  if (schedule.frequency === 'monthly') {
+    const dayOfMonth = schedule.day_of_month || 1;
+    let year = now.getUTCFullYear();
+    let month = now.getUTCMonth();
+    let occurrence = atTime(year, month, Math.min(dayOfMonth, daysInMonth(year, month)));
+    if (occurrence > now) {
+      month -= 1;
+      if (month < 0) {
+        month = 11;
+        year -= 1;
+      }
+      occurrence = atTime(year, month, Math.min(dayOfMonth, daysInMonth(year, month)));
+    }
+    return occurrence;
+  }
+
+  let occurrence = atTime(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  if (schedule.frequency === 'weekly') {
+    const dayOfWeek = schedule.day_of_week ?? 1;
+    const daysBack = (occurrence.getUTCDay() - dayOfWeek + 7) % 7;
+    occurrence = new Date(occurrence.getTime() - daysBack * DAY_MS);
+    if (occurrence > now) occurrence = new Date(occurrence.getTime() - 7 * DAY_MS);
+  } else if (occurrence > now) {
+    occurrence = new Date(occurrence.getTime() - DAY_MS);
+  }
+  return occurrence;
+};
+
+// Most recent instant at or before `now` when the schedule should have run in its own time zone
+const getLatestOccurrence = (schedule: ReportSchedule, now: Date): Date => {
+  const timeZone = schedule.timezone || 'UTC';
+  const wallClock = getLatestWallClockOccurrence(schedule, new Date(now.getTime() + getTimeZoneOffset(now, timeZone)));
+  // The offset at the occurrence itself can differ from the one at `now` across a daylight saving change
+  const firstGuess = new Date(wallClock.getTime() - getTimeZoneOffset(wallClock, timeZone));
+  return new Date(wallClock.getTime() - getTimeZoneOffset(firstGuess, timeZone));
+};
+
+const isDue = (schedule: ReportSchedule, now: Date) => {
+  const lastRun = new Date(schedule.last_run_at || schedule.created_at || 0);
+  return getLatestOccurrence(schedule, now) > lastRun;
+};
+
+const getReportPeriod = (schedule: ReportSchedule, end: Date): ReportPeriod => {
+  const periodDays = schedule.filters?.period_days
+    || (schedule.frequency === 'daily' ? 1 : schedule.frequency === 'weekly' ? 7 : null);
+
+  if (periodDays) {
+    return { start: new Date(end.getTime() - periodDays * DAY_MS), end };
+  }
+
+  const start = new Date(end);
+  start.setUTCMonth(start.getUTCMonth() - 1);
+  return { start, end };
+};
+
+const getRecipients = (recipients: unknown): string[] =>
+  Array.isArray(recipients)
+    ? recipients.filter((email): email is string => typeof email === 'string' && email.includes('@'))
+    : [];
+
+const resolveSender = async (supabaseAdmin: SupabaseClient, schedule: ReportSchedule) => {
+  const configuredSender = Deno.env.get('REPORTS_SENDER_EMAIL');
+  if (configuredSender) return configuredSender;
+
+  if (schedule.created_by) {
+    const { data } = await supabaseAdmin.auth.admin.getUserById(schedule.created_by);
+    if (data?.user?.email) return data.user.email;
+  }
+
+  throw new Error('No sender mailbox: set REPORTS_SENDER_EMAIL or recreate the schedule as a user with an email address');
+};
+
+const runSchedule = async (
+  supabaseAdmin: SupabaseClient,
+  schedule: ReportSchedule,
+  trigger: 'scheduled' | 'manual',
+  triggeredBy: string | null
+): Promise<RunResult> => {
+  const startedAt = new Date();
+  const recipients = getRecipients(schedule.recipients);
+
+  const { data: run, error: runError } = await supabaseAdmin
+    .from('report_runs')
+    .insert({
+      schedule_id: schedule.id,
+      status: 'running',
+      trigger,
+      triggered_by: triggeredBy,
+      recipients,
+      started_at: startedAt.toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (runError) {
+    throw new Error(`Failed to record report run: ${runError.message}`);
+  }
+
+  let result: RunResult;
+  let rowCount = 0;
+  const failedRecipients: { email: string; error: string }[] = [];
+
+  try {
+    if (recipients.length === 0) {
+      throw new Error('No recipients configured');
+    }
+
+    const period = getReportPeriod(schedule, startedAt);
+    const report = await buildReport(supabaseAdmin, schedule.report_type, period, schedule.filters || {});
+    rowCount = report.rows.length;
+
+    const format = schedule.attachment_format === 'pdf' ? 'pdf' : 'csv';
+    const fileBytes = format === 'pdf' ? renderPdf(report, schedule.name) : renderCsv(report);
+    const fileName = `${schedule.report_type}_${startedAt.toISOString().slice(0, 10)}.${format}`;
+    const sender = await resolveSender(supabaseAdmin, schedule);
+
+    const emailPayload = {
+      from: sender,
+      subject: `${schedule.name}: ${report.title} (${report.periodLabel})`,
+      body: renderHtml(report, schedule.name),
+      attachments: [{
+        name: fileName,
+        contentType: format === 'pdf' ? 'application/pdf' : 'text/csv',
+        contentBytes: toBase64(fileBytes),
+      }],
+    };
+
+    for (const recipient of recipients) {
+      try {
+        await sendEmailViaFunction({ ...emailPayload, to: recipient });
+      } catch (error) {
+        console.error(`Failed to send report ${schedule.id} to ${recipient}:`, error);
+        failedRecipients.push({ email: recipient, error: errorMessage(error) });
+      }
+    }
+
+    const sentCount = recipients.length - failedRecipients.length;
+    result = {
+      schedule_id: schedule.id,
+      status: failedRecipients.length === 0 ? 'success' : sentCount > 0 ? 'partial' : 'failed',
+      sent_count: sentCount,
+      error: failedRecipients.length > 0
+        ? `Failed for ${failedRecipients.map(f => f.email).join(', ')}: ${failedRecipients[0].error}`
+        : undefined,
+    };
+  } catch (error) {
+    console.error(`Report schedule ${schedule.id} failed:`, error);
+    result = { schedule_id: schedule.id, status: 'failed', sent_count: 0, error: errorMessage(error) };
+  }
+
+  const completedAt = new Date().toISOString();
+
+  await supabaseAdmin
+    .from('report_runs')
+    .update({
+      status: result.status,
+      completed_at: completedAt,
+      sent_count: result.sent_count,
+      row_count: rowCount,
+      failed_recipients: failedRecipients,
+      error_message: result.error || null,
+    })
+    .eq('id', run.id);
+
+  const scheduleUpdates: Record<string, unknown> = {
+    last_run_at: startedAt.toISOString(),
+    last_run_status: result.status,
+    last_error: result.error || null,
+  };
+  if (result.sent_count > 0) {
+    scheduleUpdates.last_sent_at = completedAt;
+  }
+
+  await supabaseAdmin
+    .from('report_schedules')
+    .update(scheduleUpdates)
+    .eq('id', schedule.id);
+
+  return result;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    const { scheduleId } = await req.json().catch(() => ({}));
+    let trigger: 'scheduled' | 'manual' = 'scheduled';
+    let triggeredBy: string | null = null;
+
+    // The cron job calls with the service role key; anyone else must be an admin sending one schedule now
+    if (authHeader.replace('Bearer ', '') !== supabaseServiceKey) {
+      const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+        global: { headers: { Authorization: authHeader } }
+      });
+
+      const { data: { user }, error: authError } = await supabaseUser.auth.getUser();
+      if (authError || !user) {
+        throw new Error('Unauthorized');
+      }
+
+      const { data: roleData } = await supabaseAdmin
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user.id)
+        .single();
+
+      const userRole = roleData?.role || user.user_metadata?.role || 'user';
+      if (userRole !== 'admin') {
+        throw new Error('Only admins can run scheduled reports');
+      }
+
+      if (!scheduleId) {
+        throw new Error('scheduleId is required');
+      }
+
+      triggeredBy = user.id;
+    }
+
+    if (scheduleId) {
+      trigger = 'manual';
+    }
+
+    let query = supabaseAdmin.from('report_schedules').select('*');
+    query = scheduleId ? query.eq('id', scheduleId) : query.eq('is_enabled', true);
+
+    const { data: schedules, error: schedulesError } = await query;
+    if (schedulesError) {
+      throw new Error(`Failed to load report schedules: ${schedulesError.message}`);
+    }
+
+    const now = new Date();
+    const toRun = ((schedules || []) as ReportSchedule[])
+      .filter(schedule => scheduleId || isDue(schedule, now));
+
+    console.log(`Running ${toRun.length} of ${schedules?.length || 0} report schedule(s)`);
+
+    const results: RunResult[] = [];
+    for (const schedule of toRun) {
+      results.push(await runSchedule(supabaseAdmin, schedule, trigger, triggeredBy));
+    }
+
+    if (scheduleId && results.length === 0) {
+      throw new Error('Report schedule not found');
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, processed: results.length, results }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error) {
+    console.error('Scheduled reports error:', error);
+    const message = errorMessage(error);
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: message === 'Unauthorized' ? 401 : 500
+      }
+    );
+  }
+});
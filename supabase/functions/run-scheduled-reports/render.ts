@@ -0,0 +1,155 @@
+import { ReportResult, ReportValue } from './reports.ts'
+import { escapeHtml } from '../_shared/email.ts'
+
+const EMAIL_ROW_LIMIT = 50;
+
+const formatCell = (value: ReportValue) => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  return value;
+};
+
+export const renderHtml = (report: ReportResult, scheduleName: string) => {
+  const visibleRows = report.rows.slice(0, EMAIL_ROW_LIMIT);
+  const cellStyle = 'padding:6px 10px;border-bottom:1px solid #e5e7eb;text-align:left;font-size:13px;';
+
+  const summaryRows = report.summary
+    .map(item => `<tr><td style="${cellStyle}color:#6b7280;">${escapeHtml(item.label)}</td><td style="${cellStyle}font-weight:600;">${escapeHtml(item.value)}</td></tr>`)
+    .join('');
+
+  const headerCells = report.columns
+    .map(column => `<th style="${cellStyle}background:#f3f4f6;">${escapeHtml(column.label)}</th>`)
+    .join('');
+
+  const bodyRows = visibleRows
+    .map(row => `<tr>${report.columns.map(column => `<td style="${cellStyle}">${escapeHtml(formatCell(row[column.key]))}</td>`).join('')}</tr>`)
+    .join('');
+
+  const truncatedNote = report.rows.length > EMAIL_ROW_LIMIT
+    ? `<p style="color:#6b7280;font-size:12px;">Showing ${EMAIL_ROW_LIMIT} of ${report.rows.length} rows. The attachment contains the full report.</p>`
+    : '';
+
+  return `
+<div style="font-family:Arial,Helvetica,sans-serif;color:#111827;max-width:900px;">
+  <h2 style="margin:0 0 4px;">${escapeHtml(report.title)}</h2>
+  <p style="margin:0 0 16px;color:#6b7280;font-size:13px;">${escapeHtml(scheduleName)} &middot; ${escapeHtml(report.periodLabel)}</p>
+  <table style="border-collapse:collapse;margin-bottom:20px;">${summaryRows}</table>
+  ${report.rows.length === 0
+    ? '<p style="color:#6b7280;font-size:13px;">No records for this period.</p>'
+    : `<table style="border-collapse:collapse;width:100%;"><thead><tr>${headerCells}</tr></thead><tbody>${bodyRows}</tbody></table>${truncatedNote}`}
+</div>`.trim();
+};
+
+const escapeCsv = (value: ReportValue) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const renderCsv = (report: ReportResult): Uint8Array => {
+  const lines = [
+    report.columns.map(column => escapeCsv(column.label)).join(','),
+    ...report.rows.map(row => report.columns.map(column => escapeCsv(row[column.key])).join(',')),
+  ];
+  // BOM so spreadsheet apps detect UTF-8
+  return new TextEncoder().encode('\uFEFF' + lines.join('\r\n'));
+};
+
+// Minimal single-font PDF writer: landscape A4 pages with the summary followed by the table
+const toPdfText = (value: string) =>
+  value
+    .replace(/€/g, 'EUR ')
+    .replace(/[^\x20-\x7E]/g, '?')
+    .replace(/([\\()])/g, '\\$1');
+
+export const renderPdf = (report: ReportResult, scheduleName: string): Uint8Array => {
+  const pageWidth = 842;
+  const pageHeight = 595;
+  const margin = 36;
+  const fontSize = 8;
+  const lineHeight = 13;
+  const columnWidth = (pageWidth - margin * 2) / Math.max(report.columns.length, 1);
+  const maxChars = Math.max(Math.floor(columnWidth / (fontSize * 0.5)) - 1, 4);
+
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = pageHeight - margin;
+
+  const text = (value: string, x: number, size: number, bold = false) => {
+    ops.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(1)} ${y.toFixed(1)} Td (${toPdfText(value)}) Tj ET`);
+  };
+
+  const fit = (value: string) => (value.length > maxChars ? `${value.slice(0, maxChars - 1)}~` : value);
+
+  const tableHeader = () => {
+    report.columns.forEach((column, i) => text(fit(column.label), margin + i * columnWidth, fontSize, true));
+    y -= lineHeight;
+  };
+
+  const newPage = () => {
+    pages.push(ops);
+    ops = [];
+    y = pageHeight - margin;
+    tableHeader();
+  };
+
+  text(report.title, margin, 16, true);
+  y -= 20;
+  text(`${scheduleName} - ${report.periodLabel}`, margin, 10);
+  y -= 20;
+  report.summary.forEach(item => {
+    text(`${item.label}: ${item.value}`, margin, 10);
+    y -= 14;
+  });
+  y -= 10;
+
+  if (report.rows.length === 0) {
+    text('No records for this period.', margin, 10);
+  } else {
+    tableHeader();
+    report.rows.forEach(row => {
+      if (y < margin) newPage();
+      report.columns.forEach((column, i) => text(fit(formatCell(row[column.key])), margin + i * columnWidth, fontSize));
+      y -= lineHeight;
+    });
+  }
+  pages.push(ops);
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page and content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  pages.forEach((pageOps, i) => {
+    const content = pageOps.join('\n');
+    objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+  // Every character was reduced to ASCII above, so string offsets are byte offsets
+  return new TextEncoder().encode(output);
+};
+
+export const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
@@ -0,0 +1,438 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { loadCurrencyConverter } from '../_shared/currency.ts'
+
+export type ReportValue = string | number | null;
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+}
+
+export interface ReportResult {
+  title: string;
+  periodLabel: string;
+  summary: { label: string; value: string }[];
+  columns: ReportColumn[];
+  rows: Record<string, ReportValue>[];
+}
+
+export interface ReportPeriod {
+  start: Date;
+  end: Date;
+}
+
+export interface ReportFilters {
+  owner_id?: string;
+  period_days?: number;
+}
+
+interface StageInfo {
+  stage_name: string;
+  stage_order: number;
+  stage_probability: number;
+  is_won_stage: boolean;
+  is_lost_stage: boolean;
+}
+
+// Used when pipeline_stages is empty, mirroring the app's default pipeline
+const DEFAULT_STAGES: StageInfo[] = [
+  { stage_name: 'Lead', stage_order: 0, stage_probability: 10, is_won_stage: false, is_lost_stage: false },
+  { stage_name: 'Discussions', stage_order: 1, stage_probability: 20, is_won_stage: false, is_lost_stage: false },
+  { stage_name: 'Qualified', stage_order: 2, stage_probability: 40, is_won_stage: false, is_lost_stage: false },
+  { stage_name: 'RFQ', stage_order: 3, stage_probability: 60, is_won_stage: false, is_lost_stage: false },
+  { stage_name: 'Offered', stage_order: 4, stage_probability: 80, is_won_stage: false, is_lost_stage: false },
+  { stage_name: 'Won', stage_order: 5, stage_probability: 100, is_won_stage: true, is_lost_stage: false },
+  { stage_name: 'Lost', stage_order: 6, stage_probability: 0, is_won_stage: false, is_lost_stage: true },
+  { stage_name: 'Dropped', stage_order: 7, stage_probability: 0, is_won_stage: false, is_lost_stage: true },
+];
+
+interface DealRow {
+  id: string;
+  project_name: string | null;
+  deal_name: string | null;
+  customer_name: string | null;
+  stage: string;
+  probability: number | null;
+  total_contract_value: number | null;
+  currency_type: string | null;
+  expected_closing_date: string | null;
+  signed_contract_date: string | null;
+  created_by: string | null;
+  created_at: string | null;
+  modified_at: string | null;
+  // total_contract_value converted to the reporting currency, or null when its currency has no rate
+  reporting_value: number | null;
+}
+
+interface LeadRow {
+  id: string;
+  lead_name: string;
+  company_name: string | null;
+  lead_status: string | null;
+  contact_source: string | null;
+  contact_owner: string | null;
+  created_by: string | null;
+  created_time: string | null;
+  modified_time: string | null;
+}
+
+const DEAL_COLUMNS = 'id, project_name, deal_name, customer_name, stage, probability, total_contract_value, currency_type, expected_closing_date, signed_contract_date, created_by, created_at, modified_at';
+
+const formatAmount = (amount: number, currency: string) =>
+  `${currency} ${amount.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+
+const formatDate = (value: string | null) => (value ? value.slice(0, 10) : '');
+
+const inPeriod = (value: string | null, period: ReportPeriod) => {
+  if (!value) return false;
+  const date = new Date(value);
+  return date >= period.start && date <= period.end;
+};
+
+const fetchStages = async (supabase: SupabaseClient): Promise<StageInfo[]> => {
+  const { data, error } = await supabase
+    .from('pipeline_stages')
+    .select('stage_name, stage_order, stage_probability, is_won_stage, is_lost_stage')
+    .order('stage_order');
+
+  if (error || !data || data.length === 0) return DEFAULT_STAGES;
+
+  return (data as StageInfo[]).map(stage => ({
+    stage_name: stage.stage_name,
+    stage_order: stage.stage_order,
+    stage_probability: stage.stage_probability ?? 0,
+    is_won_stage: !!stage.is_won_stage,
+    is_lost_stage: !!stage.is_lost_stage,
+  }));
+};
+
+// Deals with their values converted, so totals across currencies add up
+const fetchDeals = async (supabase: SupabaseClient, filters: ReportFilters) => {
+  let query = supabase.from('deals').select(DEAL_COLUMNS);
+  if (filters.owner_id) query = query.eq('created_by', filters.owner_id);
+
+  const [{ data, error }, converter] = await Promise.all([query, loadCurrencyConverter(supabase)]);
+  if (error) throw new Error(`Failed to load deals: ${error.message}`);
+
+  const deals = ((data || []) as Omit<DealRow, 'reporting_value'>[]).map(deal => ({
+    ...deal,
+    reporting_value: converter.toReporting(
+      deal.total_contract_value,
+      deal.currency_type,
+      deal.signed_contract_date || deal.expected_closing_date
+    ),
+  }));
+  return { deals, currency: converter.reportingCurrency, toReporting: converter.toReporting };
+};
+
+const fetchLeads = async (supabase: SupabaseClient, filters: ReportFilters) => {
+  let query = supabase
+    .from('leads')
+    .select('id, lead_name, company_name, lead_status, contact_source, contact_owner, created_by, created_time, modified_time');
+  if (filters.owner_id) query = query.eq('contact_owner', filters.owner_id);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load leads: ${error.message}`);
+  return (data || []) as LeadRow[];
+};
+
+const fetchOwnerNames = async (supabase: SupabaseClient, ids: (string | null)[]) => {
+  const uniqueIds = [...new Set(ids.filter((id): id is string => !!id))];
+  if (uniqueIds.length === 0) return {} as Record<string, string>;
+
+  const { data } = await supabase
+    .from('profiles')
+    .select('id, full_name, "Email ID"')
+    .in('id', uniqueIds);
+
+  return Object.fromEntries(
+    ((data || []) as { id: string; full_name: string | null; 'Email ID': string | null }[]).map(profile => [profile.id, profile.full_name || profile['Email ID'] || 'Unknown'])
+  ) as Record<string, string>;
+};
+
+// Deals without an exchange rate count as 0 in totals
+const dealValue = (deal: DealRow) => deal.reporting_value ?? 0;
+
+const dealsSummary = async (supabase: SupabaseClient, period: ReportPeriod, filters: ReportFilters, periodLabel: string): Promise<ReportResult> => {
+  const [stages, { deals, currency }] = await Promise.all([fetchStages(supabase), fetchDeals(supabase, filters)]);
+  const wonStages = new Set(stages.filter(s => s.is_won_stage).map(s => s.stage_name));
+  const lostStages = new Set(stages.filter(s => s.is_lost_stage).map(s => s.stage_name));
+
+  const touched = deals.filter(deal => inPeriod(deal.modified_at, period) || inPeriod(deal.created_at, period));
+  const created = touched.filter(deal => inPeriod(deal.created_at, period));
+  const won = touched.filter(deal => wonStages.has(deal.stage));
+  const lost = touched.filter(deal => lostStages.has(deal.stage));
+  const owners = await fetchOwnerNames(supabase, touched.map(deal => deal.created_by));
+
+  return {
+    title: 'Deals Summary',
+    periodLabel,
+    summary: [
+      { label: 'Deals created', value: String(created.length) },
+      { label: 'Deals updated', value: String(touched.length) },
+      { label: 'Won', value: `${won.length} (${formatAmount(won.reduce((sum, d) => sum + dealValue(d), 0), currency)})` },
+      { label: 'Lost / dropped', value: String(lost.length) },
+      { label: 'Value of created deals', value: formatAmount(created.reduce((sum, d) => sum + dealValue(d), 0), currency) },
+    ],
+    columns: [
+      { key: 'deal', label: 'Deal' },
+      { key: 'customer', label: 'Customer' },
+      { key: 'stage', label: 'Stage' },
+      { key: 'value', label: 'Contract Value' },
+      { key: 'currency', label: 'Currency' },
+      { key: 'reporting_value', label: `Value (${currency})` },
+      { key: 'owner', label: 'Owner' },
+      { key: 'updated', label: 'Last Updated' },
+    ],
+    rows: touched
+      .sort((a, b) => (b.modified_at || '').localeCompare(a.modified_at || ''))
+      .map(deal => ({
+        deal: deal.project_name || deal.deal_name,
+        customer: deal.customer_name,
+        stage: deal.stage,
+        value: Number(deal.total_contract_value) || 0,
+        currency: deal.currency_type || 'EUR',
+        reporting_value: deal.reporting_value === null ? 'No rate' : Math.round(deal.reporting_value),
+        owner: owners[deal.created_by ?? ''] || '',
+        updated: formatDate(deal.modified_at),
+      })),
+  };
+};
+
+const leadsActivity = async (supabase: SupabaseClient, period: ReportPeriod, filters: ReportFilters, periodLabel: string): Promise<ReportResult> => {
+  const leads = await fetchLeads(supabase, filters);
+  const created = leads.filter(lead => inPeriod(lead.created_time, period));
+  const updated = leads.filter(lead => inPeriod(lead.modified_time, period) && !inPeriod(lead.created_time, period));
+  const owners = await fetchOwnerNames(supabase, [...created, ...updated].map(lead => lead.contact_owner));
+
+  const countBy = (items: LeadRow[], key: 'lead_status' | 'contact_source') => {
+    const counts: Record<string, number> = {};
+    items.forEach(item => {
+      const value = item[key] || 'Unknown';
+      counts[value] = (counts[value] || 0) + 1;
+    });
+    return Object.entries(counts)
+      .sort((a, b) => b[1] - a[1])
+      .map(([value, count]) => `${value}: ${count}`)
+      .join(', ') || '—';
+  };
+
+  return {
+    title: 'Leads Activity',
+    periodLabel,
+    summary: [
+      { label: 'New leads', value: String(created.length) },
+      { label: 'Updated leads', value: String(updated.length) },
+      { label: 'New leads by status', value: countBy(created, 'lead_status') },
+      { label: 'New leads by source', value: countBy(created, 'contact_source') },
+    ],
+    columns: [
+      { key: 'lead', label: 'Lead' },
+      { key: 'company', label: 'Company' },
+      { key: 'status', label: 'Status' },
+      { key: 'source', label: 'Source' },
+      { key: 'owner', label: 'Owner' },
+      { key: 'activity', label: 'Activity' },
+      { key: 'date', label: 'Date' },
+    ],
+    rows: [
+      ...created.map(lead => ({ lead, activity: 'Created', date: lead.created_time })),
+      ...updated.map(lead => ({ lead, activity: 'Updated', date: lead.modified_time })),
+    ]
+      .sort((a, b) => (b.date || '').localeCompare(a.date || ''))
+      .map(({ lead, activity, date }) => ({
+        lead: lead.lead_name,
+        company: lead.company_name,
+        status: lead.lead_status || 'New',
+        source: lead.contact_source,
+        owner: owners[lead.contact_owner ?? ''] || '',
+        activity,
+        date: formatDate(date),
+      })),
+  };
+};
+
+const pipelineStatus = async (supabase: SupabaseClient, _period: ReportPeriod, filters: ReportFilters, periodLabel: string): Promise<ReportResult> => {
+  const [stages, { deals, currency }] = await Promise.all([fetchStages(supabase), fetchDeals(supabase, filters)]);
+
+  const rows = stages.map(stage => {
+    const stageDeals = deals.filter(deal => deal.stage === stage.stage_name);
+    const value = stageDeals.reduce((sum, deal) => sum + dealValue(deal), 0);
+    const weighted = stageDeals.reduce(
+      (sum, deal) => sum + dealValue(deal) * ((deal.probability ?? stage.stage_probability) / 100),
+      0
+    );
+    return {
+      stage: stage.stage_name,
+      deals: stageDeals.length,
+      value: Math.round(value),
+      weighted: Math.round(weighted),
+      type: stage.is_won_stage ? 'Won' : stage.is_lost_stage ? 'Lost' : 'Open',
+    };
+  });
+
+  const open = rows.filter(row => row.type === 'Open');
+
+  return {
+    title: 'Pipeline Status',
+    periodLabel,
+    summary: [
+      { label: 'Open deals', value: String(open.reduce((sum, row) => sum + row.deals, 0)) },
+      { label: 'Open pipeline value', value: formatAmount(open.reduce((sum, row) => sum + row.value, 0), currency) },
+      { label: 'Weighted pipeline value', value: formatAmount(open.reduce((sum, row) => sum + row.weighted, 0), currency) },
+    ],
+    columns: [
+      { key: 'stage', label: 'Stage' },
+      { key: 'type', label: 'Type' },
+      { key: 'deals', label: 'Deals' },
+      { key: 'value', label: `Contract Value (${currency})` },
+      { key: 'weighted', label: `Weighted Value (${currency})` },
+    ],
+    rows,
+  };
+};
+
+const revenueForecast = async (supabase: SupabaseClient, period: ReportPeriod, filters: ReportFilters, periodLabel: string): Promise<ReportResult> => {
+  const [stages, { deals, currency, toReporting }] = await Promise.all([fetchStages(supabase), fetchDeals(supabase, filters)]);
+  const openStages = new Map(
+    stages.filter(s => !s.is_won_stage && !s.is_lost_stage).map(s => [s.stage_name, s])
+  );
+  const wonStages = new Set(stages.filter(s => s.is_won_stage).map(s => s.stage_name));
+
+  // Six calendar months starting with the month the report runs in
+  const months = Array.from({ length: 6 }, (_, i) => {
+    const date = new Date(Date.UTC(period.end.getUTCFullYear(), period.end.getUTCMonth() + i, 1));
+    return date.toISOString().slice(0, 7);
+  });
+
+  const rows = months.map(month => {
+    const closing = deals.filter(deal => (deal.expected_closing_date || '').startsWith(month));
+    const open = closing.filter(deal => openStages.has(deal.stage));
+    const won = closing.filter(deal => wonStages.has(deal.stage));
+    return {
+      month,
+      open_deals: open.length,
+      pipeline: Math.round(open.reduce((sum, deal) => sum + dealValue(deal), 0)),
+      weighted: Math.round(open.reduce(
+        (sum, deal) => sum + dealValue(deal) * ((deal.probability ?? openStages.get(deal.stage)!.stage_probability) / 100),
+        0
+      )),
+      won: Math.round(won.reduce((sum, deal) => sum + dealValue(deal), 0)),
+    };
+  });
+
+  const year = period.end.getUTCFullYear();
+  const { data: target } = await supabase
+    .from('yearly_revenue_targets')
+    .select('total_target, currency')
+    .eq('year', year)
+    .maybeSingle();
+
+  const targetValue = target?.total_target
+    ? toReporting(target.total_target, target.currency || currency, `${year}-01-01`)
+    : null;
+
+  const wonThisYear = deals
+    .filter(deal => wonStages.has(deal.stage) && (deal.expected_closing_date || '').startsWith(String(year)))
+    .reduce((sum, deal) => sum + dealValue(deal), 0);
+
+  return {
+    title: 'Revenue Forecast',
+    periodLabel,
+    summary: [
+      {
+        label: `${year} target`,
+        value: !target?.total_target
+          ? 'Not set'
+          : targetValue === null
+            ? `${formatAmount(Number(target.total_target), target.currency || currency)} (no ${currency} rate)`
+            : formatAmount(targetValue, currency),
+      },
+      { label: `Won in ${year}`, value: formatAmount(wonThisYear, currency) },
+      { label: 'Weighted forecast (6 months)', value: formatAmount(rows.reduce((sum, row) => sum + row.weighted, 0), currency) },
+    ],
+    columns: [
+      { key: 'month', label: 'Month' },
+      { key: 'open_deals', label: 'Open Deals' },
+      { key: 'pipeline', label: `Pipeline Value (${currency})` },
+      { key: 'weighted', label: `Weighted Value (${currency})` },
+      { key: 'won', label: `Won Value (${currency})` },
+    ],
+    rows,
+  };
+};
+
+const teamPerformance = async (supabase: SupabaseClient, period: ReportPeriod, filters: ReportFilters, periodLabel: string): Promise<ReportResult> => {
+  const [stages, { deals, currency }, leads] = await Promise.all([
+    fetchStages(supabase),
+    fetchDeals(supabase, filters),
+    fetchLeads(supabase, filters),
+  ]);
+  const wonStages = new Set(stages.filter(s => s.is_won_stage).map(s => s.stage_name));
+  const closedStages = new Set(stages.filter(s => s.is_won_stage || s.is_lost_stage).map(s => s.stage_name));
+
+  const ownerIds = [...new Set([
+    ...deals.map(deal => deal.created_by),
+    ...leads.map(lead => lead.contact_owner),
+  ].filter(Boolean))] as string[];
+  const owners = await fetchOwnerNames(supabase, ownerIds);
+
+  const rows = ownerIds.map(ownerId => {
+    const ownerDeals = deals.filter(deal => deal.created_by === ownerId);
+    const wonInPeriod = ownerDeals.filter(deal => wonStages.has(deal.stage) && inPeriod(deal.modified_at, period));
+    return {
+      owner: owners[ownerId] || 'Unknown',
+      new_leads: leads.filter(lead => lead.contact_owner === ownerId && inPeriod(lead.created_time, period)).length,
+      new_deals: ownerDeals.filter(deal => inPeriod(deal.created_at, period)).length,
+      won_deals: wonInPeriod.length,
+      won_value: Math.round(wonInPeriod.reduce((sum, deal) => sum + dealValue(deal), 0)),
+      open_pipeline: Math.round(ownerDeals
+        .filter(deal => !closedStages.has(deal.stage))
+        .reduce((sum, deal) => sum + dealValue(deal), 0)),
+    };
+  })
+    .filter(row => row.new_leads || row.new_deals || row.won_deals || row.open_pipeline)
+    .sort((a, b) => b.won_value - a.won_value || b.open_pipeline - a.open_pipeline);
+
+  return {
+    title: 'Team Performance',
+    periodLabel,
+    summary: [
+      { label: 'Team members with activity', value: String(rows.length) },
+      { label: 'Deals won', value: String(rows.reduce((sum, row) => sum + row.won_deals, 0)) },
+      { label: 'Won value', value: formatAmount(rows.reduce((sum, row) => sum + row.won_value, 0), currency) },
+    ],
+    columns: [
+      { key: 'owner', label: 'Owner' },
+      { key: 'new_leads', label: 'New Leads' },
+      { key: 'new_deals', label: 'New Deals' },
+      { key: 'won_deals', label: 'Deals Won' },
+      { key: 'won_value', label: `Won Value (${currency})` },
+      { key: 'open_pipeline', label: `Open Pipeline (${currency})` },
+    ],
+    rows,
+  };
+};
+
+const REPORT_BUILDERS: Record<string, typeof dealsSummary> = {
+  deals_summary: dealsSummary,
+  leads_activity: leadsActivity,
+  pipeline_status: pipelineStatus,
+  revenue_forecast: revenueForecast,
+  team_performance: teamPerformance,
+};
+
+export const buildReport = (
+  supabase: SupabaseClient,
+  reportType: string,
+  period: ReportPeriod,
+  filters: ReportFilters
+): Promise<ReportResult> => {
+  const builder = REPORT_BUILDERS[reportType];
+  if (!builder) {
+    throw new Error(`Unknown report type: ${reportType}`);
+  }
+
+  const periodLabel = `${formatDate(period.start.toISOString())} to ${formatDate(period.end.toISOString())}`;
+  return builder(supabase, period, filters, periodLabel);
+};
@@ -1,17 +1,15 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import { buildIcsCalendar, meetingToIcsEvent } from "../_shared/ics.ts";
+import { EmailAttachment, getEmailTransport } from "../_shared/emailTransport.ts";
+import { buildUnsubscribeUrl, rewriteLinksForTracking } from "../_shared/emailLinks.ts";
+import { findSuppression, suppressionMessage } from "../_shared/emailSuppression.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-interface EmailAttachment {
-  name: string;
-  contentType: string;
-  contentBytes: string; // Base64 encoded
-}
-
 interface EmailRequest {
   to: string;
   subject: string;
@@ -21,110 +19,69 @@ interface EmailRequest {
   attachments?: EmailAttachment[];
   entityType?: string; // 'lead', 'contact', 'account'
   entityId?: string;
+  // Attach an .ics invite for this meeting; series meetings are written in the series timezone
+  calendarInvite?: { meetingId: string; timezone?: string };
+  campaignId?: string;
+  sequenceEnrollmentId?: string;
+  // Recorded as sent_by when a scheduled job sends on a user's behalf (service role callers only)
+  sentBy?: string;
 }
 
-async function getAccessToken(): Promise<string> {
-  // Use email-specific Azure credentials
-  const tenantId = Deno.env.get("AZURE_EMAIL_TENANT_ID");
-  const clientId = Deno.env.get("AZURE_EMAIL_CLIENT_ID");
-  const clientSecret = Deno.env.get("AZURE_EMAIL_CLIENT_SECRET");
+const toBase64 = (value: string) => {
+  const bytes = new TextEncoder().encode(value);
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
 
-  if (!tenantId || !clientId || !clientSecret) {
-    throw new Error("Azure email credentials not configured. Please set AZURE_EMAIL_TENANT_ID, AZURE_EMAIL_CLIENT_ID, and AZURE_EMAIL_CLIENT_SECRET.");
+async function buildCalendarInvite(
+  supabase: SupabaseClient,
+  invite: NonNullable<EmailRequest["calendarInvite"]>,
+  from: string
+): Promise<EmailAttachment> {
+  const { data: meeting, error } = await supabase
+    .from("meetings")
+    .select("id, subject, description, start_time, end_time, join_url, status, attendees, updated_at, series_id")
+    .eq("id", invite.meetingId)
+    .single();
+
+  if (error || !meeting) {
+    throw new Error(`Meeting ${invite.meetingId} not found for the calendar invite`);
   }
 
-  const tokenUrl = `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`;
-
-  const params = new URLSearchParams();
-  params.append("client_id", clientId);
-  params.append("client_secret", clientSecret);
-  params.append("scope", "https://graph.microsoft.com/.default");
-  params.append("grant_type", "client_credentials");
-
-  console.log("Requesting access token from Azure AD...");
-
-  const response = await fetch(tokenUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body: params.toString(),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error("Failed to get access token:", errorText);
-    throw new Error(`Failed to get access token: ${response.status} ${errorText}`);
+  let timezone = invite.timezone || null;
+  if (meeting.series_id) {
+    const { data: series } = await supabase.from("meeting_series").select("timezone").eq("id", meeting.series_id).single();
+    timezone = series?.timezone || timezone;
   }
 
-  const data = await response.json();
-  console.log("Successfully obtained access token");
-  return data.access_token as string;
-}
+  const ics = buildIcsCalendar(
+    [meetingToIcsEvent(meeting, timezone, { email: from })],
+    { method: "REQUEST" }
+  );
 
-async function sendEmail(accessToken: string, emailRequest: EmailRequest, emailHistoryId: string): Promise<void> {
-  const graphUrl = `https://graph.microsoft.com/v1.0/users/${emailRequest.from}/sendMail`;
+  return {
+    name: "invite.ics",
+    contentType: "text/calendar; method=REQUEST; charset=UTF-8",
+    contentBytes: toBase64(ics),
+  };
+}
 
-  // Build attachments array for Microsoft Graph API
-  const attachments = emailRequest.attachments?.map(att => ({
-    "@odata.type": "#microsoft.graph.fileAttachment",
-    name: att.name,
-    contentType: att.contentType,
-    contentBytes: att.contentBytes,
-  })) || [];
+// Our own Message-ID for the email; the transport may replace it with the one it actually used
+const buildMessageId = (emailHistoryId: string, from: string) =>
+  `<${emailHistoryId}@${from.split("@")[1] || "crm.local"}>`;
 
-  // Generate tracking pixel URL
+// Open and click tracking work the same whichever transport delivers the message
+const withTrackingPixel = (body: string, emailHistoryId: string) => {
   const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
   const trackingPixelUrl = `${supabaseUrl}/functions/v1/track-email-open?id=${emailHistoryId}`;
-  
-  // Embed tracking pixel in email body (append to HTML content)
-  const trackingPixel = `<img src="${trackingPixelUrl}" width="1" height="1" style="display:none;" alt="" />`;
-  const bodyWithTracking = emailRequest.body + trackingPixel;
-
-  const emailPayload: any = {
-    message: {
-      subject: emailRequest.subject,
-      body: {
-        contentType: "HTML",
-        content: bodyWithTracking,
-      },
-      toRecipients: [
-        {
-          emailAddress: {
-            address: emailRequest.to,
-            name: emailRequest.toName || emailRequest.to,
-          },
-        },
-      ],
-    },
-    saveToSentItems: true,
-  };
-
-  // Add attachments if present
-  if (attachments.length > 0) {
-    emailPayload.message.attachments = attachments;
-    console.log(`Adding ${attachments.length} attachment(s) to email`);
-  }
-
-  console.log(`Sending email to ${emailRequest.to} with tracking pixel...`);
-
-  const response = await fetch(graphUrl, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(emailPayload),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error("Failed to send email:", errorText);
-    throw new Error(`Failed to send email: ${response.status} ${errorText}`);
-  }
+  return body + `<img src="${trackingPixelUrl}" width="1" height="1" style="display:none;" alt="" />`;
+};
 
-  console.log("Email sent successfully with tracking pixel embedded");
-}
+// Campaign and sequence emails carry an unsubscribe link. It is added after link tracking so that
+// unsubscribing isn't counted as a click.
+const withUnsubscribeFooter = (body: string, unsubscribeUrl: string) =>
+  body + `<p style="margin-top:24px;font-size:12px;color:#6b7280;">Don't want to hear from us? <a href="${unsubscribeUrl}">Unsubscribe</a></p>`;
 
 const handler = async (req: Request): Promise<Response> => {
   // Handle CORS preflight requests
@@ -133,7 +90,7 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   try {
-    const { to, subject, body, toName, from, attachments, entityType, entityId }: EmailRequest = await req.json();
+    const { to, subject, body, toName, from, attachments, entityType, entityId, calendarInvite, campaignId, sequenceEnrollmentId, sentBy }: EmailRequest = await req.json();
 
     if (!to || !subject || !from) {
       return new Response(
@@ -145,23 +102,63 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
-    console.log(`Processing email request from ${from} to: ${to}${attachments?.length ? ` with ${attachments.length} attachment(s)` : ''}`);
+    console.log(`Processing email request from ${from} to: ${to}${attachments?.length ? ` with ${attachments.length} attachment(s)` : ''}${calendarInvite ? ' with a calendar invite' : ''}`);
 
     // Create Supabase client for storing email history
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    const suppression = await findSuppression(supabase, to, entityType === "contact" ? entityId : null);
+    if (suppression) {
+      console.log(`Refusing to email ${to}: on the suppression list (${suppression.reason})`);
+      return new Response(
+        JSON.stringify({ error: suppressionMessage(to, suppression.reason), suppressed: true, reason: suppression.reason }),
+        {
+          status: 422,
+          headers: { "Content-Type": "application/json", ...corsHeaders },
+        }
+      );
+    }
+
     // Get the user ID from the authorization header
     const authHeader = req.headers.get("authorization");
     let userId: string | null = null;
+    let isServiceCaller = false;
     
     if (authHeader) {
       const token = authHeader.replace("Bearer ", "");
-      const { data: { user } } = await supabase.auth.getUser(token);
-      userId = user?.id || null;
+      if (token === supabaseServiceKey) {
+        isServiceCaller = true;
+        userId = sentBy || null;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser(token);
+        userId = user?.id || null;
+      }
+    }
+
+    // The meeting is read with the caller's own rights, so an invite can only carry a meeting they can see
+    let allAttachments = attachments;
+    if (calendarInvite) {
+      if (!isServiceCaller && !userId) {
+        return new Response(
+          JSON.stringify({ error: "Sign in to send a calendar invite" }),
+          {
+            status: 401,
+            headers: { "Content-Type": "application/json", ...corsHeaders },
+          }
+        );
+      }
+      const meetingClient = isServiceCaller
+        ? supabase
+        : createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+            global: { headers: { Authorization: authHeader! } },
+          });
+      allAttachments = [...(attachments || []), await buildCalendarInvite(meetingClient, calendarInvite, from)];
     }
 
+    const transport = await getEmailTransport(supabase);
+
     // Create email history record first to get the ID for tracking
     const emailHistoryData: any = {
       recipient_email: to,
@@ -171,6 +168,9 @@ const handler = async (req: Request): Promise<Response> => {
       body: body,
       status: "sent",
       sent_by: userId,
+      transport: transport.name,
+      campaign_id: campaignId || null,
+      sequence_enrollment_id: sequenceEnrollmentId || null,
     };
 
     // Add entity references if provided
@@ -195,22 +195,39 @@ const handler = async (req: Request): Promise<Response> => {
 
     console.log(`Created email history record with ID: ${emailRecord.id}`);
 
-    // Get access token from Azure AD
-    const accessToken = await getAccessToken();
-
-    // Send email via Microsoft Graph API with tracking pixel
-    await sendEmail(accessToken, { to, subject, body, toName, from, attachments }, emailRecord.id);
+    let messageId: string;
+    try {
+      const unsubscribeUrl = campaignId || sequenceEnrollmentId ? await buildUnsubscribeUrl(emailRecord.id) : null;
+      const trackedBody = await rewriteLinksForTracking(supabase, emailRecord.id, body);
+      ({ messageId } = await transport.send({
+        emailHistoryId: emailRecord.id,
+        messageId: buildMessageId(emailRecord.id, from),
+        from,
+        to,
+        toName,
+        subject,
+        html: withTrackingPixel(unsubscribeUrl ? withUnsubscribeFooter(trackedBody, unsubscribeUrl) : trackedBody, emailRecord.id),
+        attachments: allAttachments,
+        headers: unsubscribeUrl
+          ? { "List-Unsubscribe": `<${unsubscribeUrl}>`, "List-Unsubscribe-Post": "List-Unsubscribe=One-Click" }
+          : undefined,
+      }));
+    } catch (sendError) {
+      await supabase.from("email_history").update({ status: "failed" }).eq("id", emailRecord.id);
+      throw sendError;
+    }
 
     // Update email history to mark as delivered
     await supabase
       .from("email_history")
       .update({ 
         status: "delivered",
-        delivered_at: new Date().toISOString()
+        delivered_at: new Date().toISOString(),
+        message_id: messageId,
       })
       .eq("id", emailRecord.id);
 
-    console.log(`Email marked as delivered for record: ${emailRecord.id}`);
+    console.log(`Email sent via ${transport.name} and marked as delivered for record: ${emailRecord.id}`);
 
     return new Response(
       JSON.stringify({ 
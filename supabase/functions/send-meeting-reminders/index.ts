@@ -0,0 +1,290 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { escapeHtml, sendEmailViaFunction } from '../_shared/email.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Longest lead first; each offset maps to a remind_* setting and its sent_* flag
+const REMINDER_OFFSETS = [
+  { key: '1day', minutes: 1440 },
+  { key: '1hr', minutes: 60 },
+  { key: '15min', minutes: 15 },
+] as const;
+
+type ReminderKey = typeof REMINDER_OFFSETS[number]['key'];
+
+interface ReminderMeeting {
+  id: string;
+  subject: string;
+  start_time: string;
+  end_time: string;
+  join_url: string | null;
+  attendees: unknown;
+  created_by: string | null;
+  lead_id: string | null;
+  status: string;
+}
+
+interface MeetingReminderRow {
+  id: string;
+  meeting_id: string;
+  remind_15min: boolean;
+  remind_1hr: boolean;
+  remind_1day: boolean;
+  sent_15min: boolean;
+  sent_1hr: boolean;
+  sent_1day: boolean;
+  meetings: ReminderMeeting;
+}
+
+interface Recipient {
+  id: string;
+  email: string | null;
+  timezone: string | null;
+}
+
+interface ReminderPreferences {
+  user_id: string;
+  email_notifications: boolean | null;
+  in_app_notifications: boolean | null;
+  meeting_reminders: boolean | null;
+}
+
+interface DeliveryResult {
+  meeting_id: string;
+  reminders: ReminderKey[];
+  notified: number;
+  emailed: number;
+  errors?: string[];
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Enabled, unsent offsets whose time has come
+const getDueOffsets = (row: MeetingReminderRow, now: Date) => {
+  const startsAt = new Date(row.meetings.start_time).getTime();
+  return REMINDER_OFFSETS.filter(offset =>
+    row[`remind_${offset.key}`] && !row[`sent_${offset.key}`] && startsAt - offset.minutes * MINUTE_MS <= now.getTime()
+  );
+};
+
+const formatStartTime = (startTime: string, timezone: string | null) => {
+  const options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' };
+  try {
+    return new Intl.DateTimeFormat('en-GB', { ...options, timeZone: timezone || 'UTC', timeZoneName: 'short' }).format(new Date(startTime));
+  } catch {
+    // Unknown time zone in the profile
+    return new Intl.DateTimeFormat('en-GB', { ...options, timeZone: 'UTC', timeZoneName: 'short' }).format(new Date(startTime));
+  }
+};
+
+const describeLeadTime = (startTime: string, now: Date) => {
+  const minutes = Math.max(0, Math.round((new Date(startTime).getTime() - now.getTime()) / MINUTE_MS));
+  if (minutes < 60) return `in ${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `in ${hours} hour${hours === 1 ? '' : 's'}`;
+  return 'tomorrow';
+};
+
+const renderReminderEmail = (meeting: ReminderMeeting, startsAt: string, leadTime: string) =>
+  `<div style="font-family:Arial,sans-serif;font-size:14px;color:#111827;">
+  <h2 style="margin:0 0 8px;">Meeting reminder</h2>
+  <p style="margin:0 0 4px;font-weight:600;">${escapeHtml(meeting.subject)}</p>
+  <p style="margin:0 0 4px;color:#6b7280;">Starts ${escapeHtml(leadTime)} &middot; ${escapeHtml(startsAt)}</p>
+  ${meeting.join_url ? `<p style="margin:12px 0 0;"><a href="${escapeHtml(meeting.join_url)}">Join Microsoft Teams Meeting</a></p>` : ''}
+</div>`;
+
+const getAttendeeEmails = (attendees: unknown): string[] =>
+  Array.isArray(attendees)
+    ? attendees
+        .map(attendee => (typeof attendee === 'string' ? attendee : (attendee as { email?: unknown })?.email))
+        .filter((email): email is string => typeof email === 'string' && email.includes('@'))
+        .map(email => email.toLowerCase())
+    : [];
+
+// Organizer plus every attendee who is a CRM user; external attendees get the Teams invite's own reminders
+const getRecipients = (meeting: ReminderMeeting, usersById: Map<string, Recipient>, usersByEmail: Map<string, Recipient>) => {
+  const recipients = new Map<string, Recipient>();
+  const organizer = meeting.created_by ? usersById.get(meeting.created_by) : undefined;
+  if (organizer) recipients.set(organizer.id, organizer);
+
+  getAttendeeEmails(meeting.attendees).forEach(email => {
+    const user = usersByEmail.get(email);
+    if (user) recipients.set(user.id, user);
+  });
+
+  return [...recipients.values()];
+};
+
+// Flip the sent flags before delivering, and only if no other run already did, so each reminder goes out once
+const claimReminders = async (supabaseAdmin: SupabaseClient, row: MeetingReminderRow, keys: ReminderKey[]) => {
+  let query = supabaseAdmin
+    .from('meeting_reminders')
+    .update(Object.fromEntries(keys.map(key => [`sent_${key}`, true])))
+    .eq('id', row.id);
+  keys.forEach(key => {
+    query = query.eq(`sent_${key}`, false);
+  });
+
+  const { data, error } = await query.select('id');
+  if (error) throw new Error(`Failed to claim reminders: ${error.message}`);
+  return (data || []).length > 0;
+};
+
+const deliverReminder = async (
+  supabaseAdmin: SupabaseClient,
+  meeting: ReminderMeeting,
+  recipients: Recipient[],
+  preferencesByUser: Map<string, ReminderPreferences>,
+  now: Date
+) => {
+  const leadTime = describeLeadTime(meeting.start_time, now);
+  let notified = 0;
+  let emailed = 0;
+  const errors: string[] = [];
+
+  for (const recipient of recipients) {
+    // Preferences default to on, matching the notification_preferences column defaults
+    const preferences = preferencesByUser.get(recipient.id);
+    if (preferences?.meeting_reminders === false) continue;
+
+    const startsAt = formatStartTime(meeting.start_time, recipient.timezone);
+
+    if (preferences?.in_app_notifications !== false) {
+      const { error } = await supabaseAdmin.from('notifications').insert({
+        user_id: recipient.id,
+        message: `Reminder: "${meeting.subject}" starts ${leadTime} (${startsAt})`,
+        notification_type: 'meeting_reminder',
+        meeting_id: meeting.id,
+        lead_id: meeting.lead_id,
+      });
+      if (error) {
+        errors.push(`Notification for ${recipient.id} failed: ${error.message}`);
+      } else {
+        notified++;
+      }
+    }
+
+    if (preferences?.email_notifications !== false && recipient.email) {
+      try {
+        await sendEmailViaFunction({
+          // Without a configured mailbox the reminder is sent from the recipient's own
+          from: Deno.env.get('NOTIFICATIONS_SENDER_EMAIL') || recipient.email,
+          to: recipient.email,
+          subject: `Reminder: ${meeting.subject} starts ${leadTime}`,
+          body: renderReminderEmail(meeting, startsAt, leadTime),
+        });
+        emailed++;
+      } catch (error) {
+        console.error(`Failed to email meeting reminder for ${meeting.id} to ${recipient.email}:`, error);
+        errors.push(`Email to ${recipient.email} failed: ${errorMessage(error)}`);
+      }
+    }
+  }
+
+  return { notified, emailed, errors };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Only the cron job (service role key) runs the dispatcher
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader || authHeader.replace('Bearer ', '') !== supabaseServiceKey) {
+      throw new Error('Unauthorized');
+    }
+
+    const now = new Date();
+    const longestLead = REMINDER_OFFSETS[0].minutes * MINUTE_MS;
+
+    const { data: rows, error: rowsError } = await supabaseAdmin
+      .from('meeting_reminders')
+      .select('*, meetings!inner(id, subject, start_time, end_time, join_url, attendees, created_by, lead_id, status)')
+      .gt('meetings.start_time', now.toISOString())
+      .lte('meetings.start_time', new Date(now.getTime() + longestLead).toISOString())
+      .neq('meetings.status', 'cancelled')
+      .or('and(remind_15min.eq.true,sent_15min.eq.false),and(remind_1hr.eq.true,sent_1hr.eq.false),and(remind_1day.eq.true,sent_1day.eq.false)');
+
+    if (rowsError) {
+      throw new Error(`Failed to load meeting reminders: ${rowsError.message}`);
+    }
+
+    const dueRows = ((rows || []) as MeetingReminderRow[])
+      .map(row => ({ row, offsets: getDueOffsets(row, now) }))
+      .filter(({ offsets }) => offsets.length > 0);
+
+    console.log(`Delivering reminders for ${dueRows.length} meeting(s)`);
+
+    const results: DeliveryResult[] = [];
+    if (dueRows.length > 0) {
+      const [{ data: profiles, error: profilesError }, { data: preferences }] = await Promise.all([
+        supabaseAdmin.from('profiles').select('id, "Email ID", timezone'),
+        supabaseAdmin.from('notification_preferences').select('user_id, email_notifications, in_app_notifications, meeting_reminders'),
+      ]);
+      if (profilesError) {
+        throw new Error(`Failed to load users: ${profilesError.message}`);
+      }
+
+      const users = (profiles || []).map((profile: Record<string, string | null>) => ({
+        id: profile.id as string,
+        email: profile['Email ID'],
+        timezone: profile.timezone,
+      }));
+      const usersById = new Map(users.map(user => [user.id, user]));
+      const usersByEmail = new Map(users.filter(user => user.email).map(user => [user.email!.toLowerCase(), user]));
+      const preferencesByUser = new Map(
+        ((preferences || []) as ReminderPreferences[]).map(pref => [pref.user_id, pref])
+      );
+
+      for (const { row, offsets } of dueRows) {
+        // Offsets that came due together (e.g. a meeting booked an hour ahead) go out as a single reminder
+        const keys = offsets.map(offset => offset.key);
+        try {
+          if (!(await claimReminders(supabaseAdmin, row, keys))) continue;
+
+          const recipients = getRecipients(row.meetings, usersById, usersByEmail);
+          const delivery = await deliverReminder(supabaseAdmin, row.meetings, recipients, preferencesByUser, now);
+          results.push({
+            meeting_id: row.meeting_id,
+            reminders: keys,
+            notified: delivery.notified,
+            emailed: delivery.emailed,
+            errors: delivery.errors.length > 0 ? delivery.errors : undefined,
+          });
+        } catch (error) {
+          console.error(`Meeting reminder for ${row.meeting_id} failed:`, error);
+          results.push({ meeting_id: row.meeting_id, reminders: keys, notified: 0, emailed: 0, errors: [errorMessage(error)] });
+        }
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, processed: results.length, results }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error) {
+    console.error('Meeting reminders error:', error);
+    const message = errorMessage(error);
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: message === 'Unauthorized' ? 401 : 500
+      }
+    );
+  }
+});
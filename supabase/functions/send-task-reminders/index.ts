@@ -0,0 +1,216 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { escapeHtml, sendEmailViaFunction } from '../_shared/email.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Cap per run so a backlog (e.g. after downtime) is worked off over a few ticks
+const BATCH_SIZE = 200;
+
+interface ReminderTask {
+  id: string;
+  title: string;
+  description: string | null;
+  due_date: string | null;
+  due_time: string | null;
+  priority: string;
+  reminder_date: string;
+  assigned_to: string | null;
+  created_by: string | null;
+  lead_id: string | null;
+}
+
+interface ReminderPreferences {
+  user_id: string;
+  email_notifications: boolean | null;
+  in_app_notifications: boolean | null;
+  task_reminders: boolean | null;
+}
+
+interface DeliveryResult {
+  task_id: string;
+  in_app: boolean;
+  email: boolean;
+  error?: string;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const describeDue = (task: ReminderTask) => {
+  if (!task.due_date) return null;
+  return task.due_time ? `${task.due_date} at ${task.due_time.slice(0, 5)}` : task.due_date;
+};
+
+const renderReminderEmail = (task: ReminderTask) => {
+  const due = describeDue(task);
+  return `<div style="font-family:Arial,sans-serif;font-size:14px;color:#111827;">
+  <h2 style="margin:0 0 8px;">Task reminder</h2>
+  <p style="margin:0 0 4px;font-weight:600;">${escapeHtml(task.title)}</p>
+  ${due ? `<p style="margin:0 0 4px;color:#6b7280;">Due ${escapeHtml(due)} &middot; ${escapeHtml(task.priority)} priority</p>` : ''}
+  ${task.description ? `<p style="margin:12px 0 0;white-space:pre-wrap;">${escapeHtml(task.description)}</p>` : ''}
+</div>`;
+};
+
+// Mark the reminder sent before delivering it, so overlapping runs can't both deliver it.
+// Returns the claim's timestamp, or null when another run got there first.
+const claimReminder = async (supabaseAdmin: SupabaseClient, task: ReminderTask) => {
+  const claimedAt = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('tasks')
+    .update({ reminder_sent_at: claimedAt })
+    .eq('id', task.id)
+    .eq('reminder_date', task.reminder_date)
+    .is('reminder_sent_at', null)
+    .select('id');
+
+  if (error) throw new Error(`Failed to claim reminder: ${error.message}`);
+  return (data || []).length > 0 ? claimedAt : null;
+};
+
+// Undo a claim whose delivery failed so the next run tries again. Only our own claim is cleared:
+// a reminder that was moved in the meantime has already been re-armed.
+const releaseReminder = async (supabaseAdmin: SupabaseClient, task: ReminderTask, claimedAt: string) => {
+  const { error } = await supabaseAdmin
+    .from('tasks')
+    .update({ reminder_sent_at: null })
+    .eq('id', task.id)
+    .eq('reminder_sent_at', claimedAt);
+
+  if (error) console.error(`Failed to release reminder for task ${task.id}:`, error);
+};
+
+const deliverReminder = async (
+  supabaseAdmin: SupabaseClient,
+  task: ReminderTask,
+  preferences: ReminderPreferences | undefined
+): Promise<DeliveryResult> => {
+  const result: DeliveryResult = { task_id: task.id, in_app: false, email: false };
+  const recipientId = task.assigned_to || task.created_by;
+
+  // Preferences default to on, matching the notification_preferences column defaults
+  if (!recipientId || preferences?.task_reminders === false) {
+    return result;
+  }
+
+  const due = describeDue(task);
+
+  if (preferences?.in_app_notifications !== false) {
+    const { error } = await supabaseAdmin.from('notifications').insert({
+      user_id: recipientId,
+      message: due ? `Reminder: "${task.title}" is due ${due}` : `Reminder: "${task.title}"`,
+      notification_type: 'task_reminder',
+      task_id: task.id,
+      lead_id: task.lead_id,
+    });
+    if (error) throw new Error(`Failed to create notification: ${error.message}`);
+    result.in_app = true;
+  }
+
+  if (preferences?.email_notifications !== false) {
+    try {
+      const { data } = await supabaseAdmin.auth.admin.getUserById(recipientId);
+      const recipientEmail = data?.user?.email;
+      if (!recipientEmail) throw new Error('Recipient has no email address');
+
+      await sendEmailViaFunction({
+        // Without a configured mailbox the reminder is sent from the recipient's own
+        from: Deno.env.get('NOTIFICATIONS_SENDER_EMAIL') || recipientEmail,
+        to: recipientEmail,
+        subject: `Reminder: ${task.title}`,
+        body: renderReminderEmail(task),
+      });
+      result.email = true;
+    } catch (error) {
+      // The in-app reminder already went out; record the email failure without retrying the whole reminder
+      console.error(`Failed to email reminder for task ${task.id}:`, error);
+      result.error = `Email failed: ${errorMessage(error)}`;
+    }
+  }
+
+  return result;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Only the cron job (service role key) runs the dispatcher
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader || authHeader.replace('Bearer ', '') !== supabaseServiceKey) {
+      throw new Error('Unauthorized');
+    }
+
+    const { data: tasks, error: tasksError } = await supabaseAdmin
+      .from('tasks')
+      .select('id, title, description, due_date, due_time, priority, reminder_date, assigned_to, created_by, lead_id')
+      .lte('reminder_date', new Date().toISOString())
+      .is('reminder_sent_at', null)
+      .in('status', ['open', 'in_progress'])
+      .order('reminder_date')
+      .limit(BATCH_SIZE);
+
+    if (tasksError) {
+      throw new Error(`Failed to load due reminders: ${tasksError.message}`);
+    }
+
+    const dueTasks = (tasks || []) as ReminderTask[];
+    const recipientIds = [...new Set(dueTasks.map(task => task.assigned_to || task.created_by).filter(Boolean))];
+
+    const { data: preferences } = recipientIds.length > 0
+      ? await supabaseAdmin
+          .from('notification_preferences')
+          .select('user_id, email_notifications, in_app_notifications, task_reminders')
+          .in('user_id', recipientIds)
+      : { data: [] };
+
+    const preferencesByUser = new Map(
+      ((preferences || []) as ReminderPreferences[]).map(pref => [pref.user_id, pref])
+    );
+
+    console.log(`Delivering ${dueTasks.length} task reminder(s)`);
+
+    const results: DeliveryResult[] = [];
+    for (const task of dueTasks) {
+      let claimedAt: string | null = null;
+      try {
+        claimedAt = await claimReminder(supabaseAdmin, task);
+        if (!claimedAt) continue;
+        results.push(await deliverReminder(
+          supabaseAdmin,
+          task,
+          preferencesByUser.get(task.assigned_to || task.created_by || '')
+        ));
+      } catch (error) {
+        console.error(`Task reminder ${task.id} failed:`, error);
+        if (claimedAt) await releaseReminder(supabaseAdmin, task, claimedAt);
+        results.push({ task_id: task.id, in_app: false, email: false, error: errorMessage(error) });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, processed: results.length, results }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error) {
+    console.error('Task reminders error:', error);
+    const message = errorMessage(error);
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: message === 'Unauthorized' ? 401 : 500
+      }
+    );
+  }
+});
@@ -1,11 +1,70 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import { isAllowedRedirect, verifyLinkSignature } from "../_shared/emailLinks.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+// A contact's email_clicks counts emails clicked, not clicks
+const countContactClick = async (supabase: SupabaseClient, contactId: string) => {
+  const { data: contact } = await supabase
+    .from('contacts')
+    .select('email_clicks')
+    .eq('id', contactId)
+    .single();
+
+  if (contact) {
+    await supabase
+      .from('contacts')
+      .update({
+        email_clicks: (contact.email_clicks || 0) + 1,
+      })
+      .eq('id', contactId);
+  }
+};
+
+// Signed link written by send-email: count it and redirect to the URL recorded for it
+const handleTrackedLink = async (supabase: SupabaseClient, linkId: string, signature: string) => {
+  if (!(await verifyLinkSignature(linkId, signature))) {
+    console.warn(`Rejected click with an invalid signature for link ${linkId}`);
+    return jsonResponse({ error: 'Invalid link' }, 400);
+  }
+
+  const { data, error } = await supabase.rpc('record_email_link_click', { p_link_id: linkId });
+  if (error) {
+    console.error('Error recording link click:', error);
+  }
+
+  let click = data?.[0] as { url: string; email_history_id: string; first_click: boolean } | undefined;
+  if (!click) {
+    // Tracking failed; still send the reader on if the link exists
+    const { data: link } = await supabase.from('email_links').select('url, email_history_id').eq('id', linkId).maybeSingle();
+    if (!link) return jsonResponse({ error: 'Link not found' }, 404);
+    click = { ...link, first_click: false };
+  }
+
+  if (click.first_click) {
+    const { data: emailRecord } = await supabase
+      .from('email_history')
+      .select('contact_id')
+      .eq('id', click.email_history_id)
+      .single();
+    if (emailRecord?.contact_id) await countContactClick(supabase, emailRecord.contact_id);
+  }
+
+  if (!isAllowedRedirect(click.url, { recorded: true })) {
+    return jsonResponse({ error: 'Redirect target not allowed' }, 400);
+  }
+
+  console.log(`Click tracked for link ${linkId} of email ${click.email_history_id}`);
+  return Response.redirect(click.url, 302);
+};
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -14,21 +73,30 @@ serve(async (req) => {
 
   try {
     const url = new URL(req.url);
+    const linkId = url.searchParams.get('l');
+    const signature = url.searchParams.get('s');
     const emailId = url.searchParams.get('id');
     const redirectUrl = url.searchParams.get('url');
 
-    if (!emailId) {
-      return new Response(
-        JSON.stringify({ error: 'Email ID is required' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     // Create Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    if (linkId && signature) {
+      return await handleTrackedLink(supabase, linkId, signature);
+    }
+
+    if (!emailId) {
+      return jsonResponse({ error: 'Email ID is required' }, 400);
+    }
+
+    // Unsigned links carry their own target, so only allow-listed hosts are followed
+    if (redirectUrl && !isAllowedRedirect(redirectUrl, { recorded: false })) {
+      console.warn(`Rejected redirect to ${redirectUrl} for email ${emailId}`);
+      return jsonResponse({ error: 'Redirect target not allowed' }, 400);
+    }
+
     // Update email click tracking
     const { data: emailRecord, error: fetchError } = await supabase
       .from('email_history')
@@ -42,10 +110,7 @@ serve(async (req) => {
       if (redirectUrl) {
         return Response.redirect(redirectUrl, 302);
       }
-      return new Response(
-        JSON.stringify({ error: 'Email not found' }),
-        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return jsonResponse({ error: 'Email not found' }, 404);
     }
 
     const currentClickCount = emailRecord.click_count || 0;
@@ -65,24 +130,9 @@ serve(async (req) => {
       console.error('Error updating email click:', updateError);
     }
 
-    // Update contact/lead/account email_clicks if this is the first click for this email
-    if (isFirstClick) {
-      if (emailRecord.contact_id) {
-        const { data: contact } = await supabase
-          .from('contacts')
-          .select('email_clicks')
-          .eq('id', emailRecord.contact_id)
-          .single();
-
-        if (contact) {
-          await supabase
-            .from('contacts')
-            .update({
-              email_clicks: (contact.email_clicks || 0) + 1,
-            })
-            .eq('id', emailRecord.contact_id);
-        }
-      }
+    // Update contact email_clicks if this is the first click for this email
+    if (isFirstClick && emailRecord.contact_id) {
+      await countContactClick(supabase, emailRecord.contact_id);
     }
 
     console.log(`Click tracked for email ${emailId}, total clicks: ${currentClickCount + 1}`);
@@ -93,17 +143,11 @@ serve(async (req) => {
     }
 
     // Return success response if no redirect URL
-    return new Response(
-      JSON.stringify({ success: true, clicks: currentClickCount + 1 }),
-      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({ success: true, clicks: currentClickCount + 1 }, 200);
 
   } catch (error: unknown) {
     console.error('Error tracking click:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({ error: errorMessage }, 500);
   }
 });
@@ -33,16 +33,6 @@ const handler = async (req: Request): Promise<Response> => {
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Update email history with open tracking
-    const { error } = await supabase
-      .from("email_history")
-      .update({
-        status: "opened",
-        open_count: supabase.rpc("increment_open_count", { row_id: emailId }),
-        opened_at: new Date().toISOString(),
-      })
-      .eq("id", emailId);
-
     // Simple increment approach
     const { data: emailData } = await supabase
       .from("email_history")
@@ -54,12 +44,18 @@ const handler = async (req: Request): Promise<Response> => {
       await supabase
         .from("email_history")
         .update({
-          status: "opened",
           open_count: (emailData.open_count || 0) + 1,
           opened_at: new Date().toISOString(),
         })
         .eq("id", emailId);
 
+      // An open only moves the status forward; a click, reply or bounce already says more
+      await supabase
+        .from("email_history")
+        .update({ status: "opened" })
+        .eq("id", emailId)
+        .in("status", ["sent", "delivered"]);
+
       console.log(`Successfully tracked open for email ${emailId}`);
     }
 
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.52.0";
+import { TeamsRecurrence, toGraphRecurrence } from "../_shared/teamsRecurrence.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -21,6 +22,11 @@ interface UpdateRequest {
   endTime?: string;
   timezone?: string;
   description?: string;
+  // Recurring meetings: "occurrence" patches the instance that was originally at occurrenceStart,
+  // "series" patches the series master (startTime/endTime are then the first occurrence)
+  scope?: "occurrence" | "series";
+  occurrenceStart?: string;
+  recurrence?: TeamsRecurrence;
 }
 
 async function getAccessToken(): Promise<string> {
@@ -97,22 +103,38 @@ function normalizeUrl(url: string): string {
   }
 }
 
-async function findCalendarEventId(accessToken: string, userId: string, joinUrl: string): Promise<string | null> {
+// calendarView expands a series into its instances; originalStart is where the pattern put each one
+function isOccurrenceAt(event: { originalStart?: string; start?: { dateTime?: string } }, occurrenceStart: string): boolean {
+  const eventStart = event.originalStart || (event.start?.dateTime ? `${event.start.dateTime}Z` : null);
+  return !!eventStart && new Date(eventStart).getTime() === new Date(occurrenceStart).getTime();
+}
+
+async function findCalendarEventId(
+  accessToken: string,
+  userId: string,
+  joinUrl: string,
+  options: { scope?: UpdateRequest["scope"]; occurrenceStart?: string } = {}
+): Promise<string | null> {
   const normalizedTargetUrl = normalizeUrl(joinUrl);
   const targetMeetingId = extractMeetingId(normalizedTargetUrl);
+  const occurrenceStart = options.scope === "occurrence" ? options.occurrenceStart : undefined;
 
   console.log("Searching for calendar event to update", {
     targetMeetingId,
     joinUrl: normalizedTargetUrl,
+    scope: options.scope,
+    occurrenceStart,
   });
 
-  // Wide search window to handle reschedules (event may still be at old time)
-  const now = new Date();
-  const startDateTime = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString();
-  const endDateTime = new Date(now.getTime() + 365 * 24 * 60 * 60 * 1000).toISOString();
+  // Wide search window to handle reschedules (event may still be at old time);
+  // a single occurrence is looked up around the slot the pattern gave it
+  const dayMs = 24 * 60 * 60 * 1000;
+  const anchor = occurrenceStart ? new Date(occurrenceStart) : new Date();
+  const startDateTime = new Date(anchor.getTime() - (occurrenceStart ? 1 : 30) * dayMs).toISOString();
+  const endDateTime = new Date(anchor.getTime() + (occurrenceStart ? 1 : 365) * dayMs).toISOString();
 
   const eventsResponse = await fetch(
-    `https://graph.microsoft.com/v1.0/users/${userId}/calendarView?startDateTime=${startDateTime}&endDateTime=${endDateTime}&$top=100&$select=id,subject,onlineMeeting,isOnlineMeeting`,
+    `https://graph.microsoft.com/v1.0/users/${userId}/calendarView?startDateTime=${startDateTime}&endDateTime=${endDateTime}&$top=100&$select=id,subject,onlineMeeting,isOnlineMeeting,type,seriesMasterId,originalStart,start`,
     {
       headers: {
         Authorization: `Bearer ${accessToken}`,
@@ -146,10 +168,11 @@ async function findCalendarEventId(accessToken: string, userId: string, joinUrl:
       normalizedEventUrl.includes(normalizedTargetUrl) ||
       normalizedTargetUrl.includes(normalizedEventUrl);
 
-    if (isMatch) {
-      console.log("Matched event:", { id: event.id, subject: event.subject });
-      return event.id;
-    }
+    if (!isMatch) continue;
+    if (occurrenceStart && !isOccurrenceAt(event, occurrenceStart)) continue;
+
+    console.log("Matched event:", { id: event.id, type: event.type, seriesMasterId: event.seriesMasterId });
+    return options.scope === "series" && event.seriesMasterId ? event.seriesMasterId : event.id;
   }
 
   console.warn("No matching calendar event found for joinUrl");
@@ -208,13 +231,18 @@ serve(async (req) => {
       startTime: body.startTime,
       endTime: body.endTime,
       timezone: body.timezone,
+      scope: body.scope,
+      occurrenceStart: body.occurrenceStart,
     });
 
     const accessToken = await getAccessToken();
     const organizerEmail = user.email!;
     const userId = await getUserId(accessToken, organizerEmail);
 
-    const eventId = await findCalendarEventId(accessToken, userId, body.joinUrl);
+    const eventId = await findCalendarEventId(accessToken, userId, body.joinUrl, {
+      scope: body.scope,
+      occurrenceStart: body.occurrenceStart,
+    });
     if (!eventId) {
       return new Response(
         JSON.stringify({
@@ -244,6 +272,11 @@ serve(async (req) => {
       };
     }
 
+    // Turns a one-off event into a series, or changes the pattern of an existing series
+    if (body.scope === "series" && body.recurrence) {
+      patch.recurrence = toGraphRecurrence(body.recurrence);
+    }
+
     if (body.attendees) {
       patch.attendees = body.attendees.map((a) => ({
         emailAddress: { address: a.email, name: a.name || a.email },
@@ -281,12 +314,30 @@ serve(async (req) => {
       });
     }
 
-    // Log security event
     const adminClient = createClient(
       Deno.env.get("SUPABASE_URL") ?? "",
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
     );
 
+    // A new start time means the reminders already sent were for the old one.
+    // Series edits send the first occurrence's time, so their occurrences are re-armed as they are rescheduled.
+    if (body.meetingId && body.startTime && body.scope !== "series") {
+      try {
+        const { data: meeting } = await adminClient
+          .from("meetings")
+          .select("start_time")
+          .eq("id", body.meetingId)
+          .maybeSingle();
+
+        if (meeting && new Date(meeting.start_time).getTime() !== new Date(body.startTime).getTime()) {
+          await adminClient.rpc("rearm_meeting_reminders", { p_meeting_id: body.meetingId });
+          console.log("Re-armed reminders for rescheduled meeting", body.meetingId);
+        }
+      } catch (rearmError) {
+        console.warn("Failed to re-arm meeting reminders:", rearmError);
+      }
+    }
+
     try {
       await adminClient.rpc("log_security_event", {
         p_action: "TEAMS_MEETING_UPDATED",
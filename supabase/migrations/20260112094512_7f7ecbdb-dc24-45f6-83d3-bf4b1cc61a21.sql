@@ -0,0 +1,74 @@
+-- Deal stages are configured in pipeline_stages, so the hardcoded stage list on deals
+-- is replaced by a lookup against that table
+ALTER TABLE public.deals DROP CONSTRAINT IF EXISTS deals_stage_check;
+
+-- Stage names are used as the deal.stage value and must be unique
+CREATE UNIQUE INDEX IF NOT EXISTS pipeline_stages_stage_name_key ON public.pipeline_stages (stage_name);
+
+-- Align the seeded default stages with the deal flow (Lead -> Discussions -> Qualified -> RFQ -> Offered).
+-- Only rows that still carry their seeded order are touched so admin edits are preserved.
+UPDATE public.pipeline_stages SET stage_order = 1, stage_probability = 20 WHERE stage_name = 'Discussions' AND stage_order = 4;
+UPDATE public.pipeline_stages SET stage_order = 2, stage_probability = 40 WHERE stage_name = 'Qualified' AND stage_order = 1;
+UPDATE public.pipeline_stages SET stage_order = 3, stage_probability = 60 WHERE stage_name = 'RFQ' AND stage_order = 2;
+UPDATE public.pipeline_stages SET stage_order = 4, stage_probability = 80 WHERE stage_name = 'Offered' AND stage_order = 3;
+
+-- Reject deals whose stage is not a configured pipeline stage
+CREATE OR REPLACE FUNCTION public.validate_deal_stage()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stage IS NOT NULL
+     AND EXISTS (SELECT 1 FROM public.pipeline_stages)
+     AND NOT EXISTS (SELECT 1 FROM public.pipeline_stages WHERE stage_name = NEW.stage) THEN
+    RAISE EXCEPTION 'Unknown deal stage: %', NEW.stage USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_deal_stage_trigger ON public.deals;
+CREATE TRIGGER validate_deal_stage_trigger
+  BEFORE INSERT OR UPDATE OF stage ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.validate_deal_stage();
+
+-- Carry stage renames over to the deals that sit in that stage
+CREATE OR REPLACE FUNCTION public.cascade_pipeline_stage_rename()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stage_name IS DISTINCT FROM OLD.stage_name THEN
+    UPDATE public.deals SET stage = NEW.stage_name WHERE stage = OLD.stage_name;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS cascade_pipeline_stage_rename_trigger ON public.pipeline_stages;
+CREATE TRIGGER cascade_pipeline_stage_rename_trigger
+  AFTER UPDATE OF stage_name ON public.pipeline_stages
+  FOR EACH ROW EXECUTE FUNCTION public.cascade_pipeline_stage_rename();
+
+-- A stage that still holds deals cannot be deleted; deactivate it or move the deals first
+CREATE OR REPLACE FUNCTION public.prevent_pipeline_stage_delete_in_use()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.deals WHERE stage = OLD.stage_name) THEN
+    RAISE EXCEPTION 'Pipeline stage "%" still has deals', OLD.stage_name USING ERRCODE = 'foreign_key_violation';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_pipeline_stage_delete_in_use_trigger ON public.pipeline_stages;
+CREATE TRIGGER prevent_pipeline_stage_delete_in_use_trigger
+  BEFORE DELETE ON public.pipeline_stages
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_pipeline_stage_delete_in_use();
@@ -0,0 +1,365 @@
+-- Approval workflow engine
+-- Saving a deal, lead or account that matches an enabled workflow opens an approval request.
+-- Moving the record into one of the workflow's guarded values (trigger_conditions.guard_values,
+-- e.g. a won stage) is held back until every approval step has approved.
+
+-- The change that was held back, applied once the request is approved
+ALTER TABLE public.approval_requests
+  ADD COLUMN IF NOT EXISTS requested_changes JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_approval_requests_entity
+  ON public.approval_requests (entity_type, entity_id);
+
+CREATE INDEX IF NOT EXISTS idx_approval_requests_status
+  ON public.approval_requests (status);
+
+CREATE INDEX IF NOT EXISTS idx_approval_actions_request
+  ON public.approval_actions (request_id);
+
+DROP TRIGGER IF EXISTS update_approval_requests_updated_at ON public.approval_requests;
+CREATE TRIGGER update_approval_requests_updated_at
+  BEFORE UPDATE ON public.approval_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Field whose changes a workflow can guard for each entity type
+CREATE OR REPLACE FUNCTION public.approval_guard_field(p_entity_type text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_entity_type
+    WHEN 'deals' THEN 'stage'
+    WHEN 'leads' THEN 'lead_status'
+    WHEN 'accounts' THEN 'status'
+  END;
+$$;
+
+-- Evaluates {"field", "operator", "value"} against a record; no field means always matched
+CREATE OR REPLACE FUNCTION public.approval_condition_matches(p_record jsonb, p_conditions jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_field text := p_conditions->>'field';
+  v_operator text := COALESCE(p_conditions->>'operator', '=');
+  v_actual text;
+  v_expected text := p_conditions->>'value';
+BEGIN
+  IF v_field IS NULL OR v_field = '' THEN
+    RETURN true;
+  END IF;
+
+  v_actual := p_record->>v_field;
+  IF v_actual IS NULL OR v_expected IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF jsonb_typeof(p_conditions->'value') = 'number' THEN
+    IF v_actual !~ '^-?[0-9]+(\.[0-9]+)?$' THEN
+      RETURN false;
+    END IF;
+
+    RETURN CASE v_operator
+      WHEN '>=' THEN v_actual::numeric >= v_expected::numeric
+      WHEN '>' THEN v_actual::numeric > v_expected::numeric
+      WHEN '<=' THEN v_actual::numeric <= v_expected::numeric
+      WHEN '<' THEN v_actual::numeric < v_expected::numeric
+      ELSE v_actual::numeric = v_expected::numeric
+    END;
+  END IF;
+
+  RETURN CASE v_operator
+    WHEN '>=' THEN v_actual >= v_expected
+    WHEN '>' THEN v_actual > v_expected
+    WHEN '<=' THEN v_actual <= v_expected
+    WHEN '<' THEN v_actual < v_expected
+    ELSE lower(v_actual) = lower(v_expected)
+  END;
+END;
+$$;
+
+-- Display name of the record an approval request is about
+CREATE OR REPLACE FUNCTION public.approval_entity_label(p_entity_type text, p_entity_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_label text;
+BEGIN
+  IF p_entity_type = 'deals' THEN
+    SELECT COALESCE(project_name, deal_name) INTO v_label FROM public.deals WHERE id = p_entity_id;
+  ELSIF p_entity_type = 'leads' THEN
+    SELECT lead_name INTO v_label FROM public.leads WHERE id = p_entity_id;
+  ELSIF p_entity_type = 'accounts' THEN
+    SELECT company_name INTO v_label FROM public.accounts WHERE id = p_entity_id;
+  END IF;
+
+  RETURN COALESCE(v_label, 'Untitled');
+END;
+$$;
+
+-- Users who may act on a step: the named user, otherwise everyone holding the step's role
+CREATE OR REPLACE FUNCTION public.approval_step_approvers(p_step jsonb)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (p_step->>'user_id')::uuid
+  WHERE COALESCE(p_step->>'user_id', '') <> ''
+  UNION
+  SELECT ur.user_id
+  FROM public.user_roles ur
+  WHERE COALESCE(p_step->>'user_id', '') = ''
+    AND ur.role::text = p_step->>'role';
+$$;
+
+-- Sends an in-app notification to the approvers of the request's current step
+CREATE OR REPLACE FUNCTION public.notify_approval_step(p_request_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.approval_requests%ROWTYPE;
+  v_workflow public.approval_workflows%ROWTYPE;
+  v_step jsonb;
+  v_message text;
+BEGIN
+  SELECT * INTO v_request FROM public.approval_requests WHERE id = p_request_id;
+  SELECT * INTO v_workflow FROM public.approval_workflows WHERE id = v_request.workflow_id;
+
+  SELECT s INTO v_step
+  FROM jsonb_array_elements(v_workflow.approval_steps) s
+  WHERE (s->>'step')::int = v_request.current_step;
+
+  IF v_step IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_message := format(
+    'Approval needed: %s "%s" (%s, step %s of %s)',
+    rtrim(v_request.entity_type, 's'),
+    public.approval_entity_label(v_request.entity_type, v_request.entity_id),
+    v_workflow.name,
+    v_request.current_step,
+    jsonb_array_length(v_workflow.approval_steps)
+  );
+
+  INSERT INTO public.notifications (user_id, message, notification_type, lead_id)
+  SELECT approver_id,
+         v_message,
+         'approval_request',
+         CASE WHEN v_request.entity_type = 'leads' THEN v_request.entity_id END
+  FROM public.approval_step_approvers(v_step) AS approver_id
+  WHERE approver_id IS DISTINCT FROM v_request.submitted_by
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notification_preferences np
+      WHERE np.user_id = approver_id AND np.in_app_notifications = false
+    );
+END;
+$$;
+
+-- Opens approval requests for matching workflows and holds back guarded changes until approved
+CREATE OR REPLACE FUNCTION public.enforce_approval_workflows()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_workflow public.approval_workflows%ROWTYPE;
+  v_record jsonb := to_jsonb(NEW);
+  v_guard_field text := public.approval_guard_field(TG_TABLE_NAME);
+  v_new_value text;
+  v_old_value text;
+  v_held jsonb;
+  v_request_id uuid;
+BEGIN
+  v_new_value := v_record->>v_guard_field;
+  IF TG_OP = 'UPDATE' THEN
+    v_old_value := to_jsonb(OLD)->>v_guard_field;
+  END IF;
+
+  FOR v_workflow IN
+    SELECT * FROM public.approval_workflows
+    WHERE entity_type = TG_TABLE_NAME AND is_enabled = true
+  LOOP
+    CONTINUE WHEN NOT public.approval_condition_matches(v_record, v_workflow.trigger_conditions);
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.approval_requests
+      WHERE workflow_id = v_workflow.id AND entity_id = NEW.id AND status = 'approved'
+    );
+
+    IF v_new_value IS DISTINCT FROM v_old_value
+       AND COALESCE(v_workflow.trigger_conditions->'guard_values', '[]'::jsonb) ? v_new_value THEN
+      IF TG_OP = 'INSERT' THEN
+        RAISE EXCEPTION 'Approval required: "%" needs approval from the "%" workflow. Save the record first, then request the change.',
+          v_new_value, v_workflow.name;
+      END IF;
+
+      v_held := jsonb_build_object(v_guard_field, v_new_value);
+      -- A deal's stage move also carries the new stage's probability
+      IF TG_TABLE_NAME = 'deals' AND (v_record->'probability') IS DISTINCT FROM (to_jsonb(OLD)->'probability') THEN
+        v_held := v_held || jsonb_build_object('probability', v_record->'probability');
+        NEW := jsonb_populate_record(NEW, jsonb_build_object('probability', to_jsonb(OLD)->'probability'));
+      END IF;
+      NEW := jsonb_populate_record(NEW, jsonb_build_object(v_guard_field, v_old_value));
+      v_record := to_jsonb(NEW);
+    ELSIF EXISTS (
+      -- Without a guarded change, a single open request per workflow is enough
+      SELECT 1 FROM public.approval_requests
+      WHERE workflow_id = v_workflow.id AND entity_id = NEW.id AND status IN ('pending', 'rejected')
+    ) THEN
+      CONTINUE;
+    ELSE
+      v_held := NULL;
+    END IF;
+
+    SELECT id INTO v_request_id
+    FROM public.approval_requests
+    WHERE workflow_id = v_workflow.id AND entity_id = NEW.id AND status = 'pending';
+
+    IF v_request_id IS NOT NULL THEN
+      UPDATE public.approval_requests
+      SET requested_changes = COALESCE(v_held, requested_changes)
+      WHERE id = v_request_id;
+    ELSE
+      INSERT INTO public.approval_requests (workflow_id, entity_type, entity_id, submitted_by, requested_changes)
+      VALUES (v_workflow.id, TG_TABLE_NAME, NEW.id, auth.uid(), v_held)
+      RETURNING id INTO v_request_id;
+
+      PERFORM public.notify_approval_step(v_request_id);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_deal_approval_workflows ON public.deals;
+CREATE TRIGGER enforce_deal_approval_workflows
+  BEFORE INSERT OR UPDATE ON public.deals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_approval_workflows();
+
+DROP TRIGGER IF EXISTS enforce_lead_approval_workflows ON public.leads;
+CREATE TRIGGER enforce_lead_approval_workflows
+  BEFORE INSERT OR UPDATE ON public.leads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_approval_workflows();
+
+DROP TRIGGER IF EXISTS enforce_account_approval_workflows ON public.accounts;
+CREATE TRIGGER enforce_account_approval_workflows
+  BEFORE INSERT OR UPDATE ON public.accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_approval_workflows();
+
+-- Records an approver's decision on the current step and advances or closes the request
+CREATE OR REPLACE FUNCTION public.act_on_approval_request(
+  p_request_id uuid,
+  p_action text,
+  p_comments text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.approval_requests%ROWTYPE;
+  v_workflow public.approval_workflows%ROWTYPE;
+  v_step jsonb;
+  v_total_steps integer;
+  v_status text;
+  v_field text;
+  v_label text;
+BEGIN
+  IF p_action NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid approval action: %', p_action;
+  END IF;
+
+  SELECT * INTO v_request FROM public.approval_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval request not found';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been %', v_request.status;
+  END IF;
+
+  SELECT * INTO v_workflow FROM public.approval_workflows WHERE id = v_request.workflow_id;
+  v_total_steps := jsonb_array_length(COALESCE(v_workflow.approval_steps, '[]'::jsonb));
+
+  SELECT s INTO v_step
+  FROM jsonb_array_elements(v_workflow.approval_steps) s
+  WHERE (s->>'step')::int = v_request.current_step;
+
+  IF NOT is_user_admin() AND NOT EXISTS (
+    SELECT 1 FROM public.approval_step_approvers(v_step) AS approver_id WHERE approver_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You are not an approver for step % of this request', v_request.current_step;
+  END IF;
+
+  INSERT INTO public.approval_actions (request_id, step_number, approver_id, action, comments)
+  VALUES (p_request_id, v_request.current_step, auth.uid(), p_action, NULLIF(trim(p_comments), ''));
+
+  IF p_action = 'rejected' THEN
+    v_status := 'rejected';
+  ELSIF v_request.current_step >= v_total_steps THEN
+    v_status := 'approved';
+  ELSE
+    v_status := 'pending';
+  END IF;
+
+  IF v_status = 'pending' THEN
+    UPDATE public.approval_requests SET current_step = current_step + 1 WHERE id = p_request_id;
+    PERFORM public.notify_approval_step(p_request_id);
+    RETURN v_status;
+  END IF;
+
+  UPDATE public.approval_requests
+  SET status = v_status, completed_at = now()
+  WHERE id = p_request_id;
+
+  IF v_status = 'approved' AND v_request.requested_changes IS NOT NULL
+     AND v_request.entity_type IN ('deals', 'leads', 'accounts') THEN
+    FOR v_field IN SELECT jsonb_object_keys(v_request.requested_changes)
+    LOOP
+      EXECUTE format(
+        'UPDATE public.%I SET %I = (jsonb_populate_record(NULL::public.%I, $1)).%I WHERE id = $2',
+        v_request.entity_type, v_field, v_request.entity_type, v_field
+      ) USING v_request.requested_changes, v_request.entity_id;
+    END LOOP;
+  END IF;
+
+  v_label := public.approval_entity_label(v_request.entity_type, v_request.entity_id);
+  IF v_request.submitted_by IS NOT NULL AND v_request.submitted_by <> auth.uid() THEN
+    INSERT INTO public.notifications (user_id, message, notification_type, lead_id)
+    VALUES (
+      v_request.submitted_by,
+      format('Your approval request for %s "%s" was %s%s',
+        rtrim(v_request.entity_type, 's'), v_label, v_status,
+        CASE WHEN NULLIF(trim(p_comments), '') IS NOT NULL THEN ': ' || trim(p_comments) ELSE '' END),
+      'approval_request',
+      CASE WHEN v_request.entity_type = 'leads' THEN v_request.entity_id END
+    );
+  END IF;
+
+  RETURN v_status;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.act_on_approval_request(uuid, text, text) TO authenticated;
+
+-- Approvals inbox page
+INSERT INTO public.page_permissions (page_name, description, route, admin_access, manager_access, user_access)
+VALUES ('Approvals', 'Review and act on approval requests', '/approvals', true, true, true)
+ON CONFLICT (route) DO NOTHING;
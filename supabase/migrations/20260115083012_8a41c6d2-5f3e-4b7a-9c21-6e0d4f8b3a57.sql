@@ -0,0 +1,60 @@
+-- Scheduled report delivery
+-- The run-scheduled-reports edge function renders due report_schedules and emails them;
+-- each attempt is recorded in report_runs.
+
+ALTER TABLE public.report_schedules
+  ADD COLUMN IF NOT EXISTS attachment_format TEXT NOT NULL DEFAULT 'csv',
+  ADD COLUMN IF NOT EXISTS last_run_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_run_status TEXT,
+  ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+ALTER TABLE public.report_schedules
+  DROP CONSTRAINT IF EXISTS report_schedules_attachment_format_check;
+ALTER TABLE public.report_schedules
+  ADD CONSTRAINT report_schedules_attachment_format_check CHECK (attachment_format IN ('csv', 'pdf'));
+
+CREATE TABLE IF NOT EXISTS public.report_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id UUID NOT NULL REFERENCES public.report_schedules(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'running', -- running, success, partial, failed
+  trigger TEXT NOT NULL DEFAULT 'scheduled', -- scheduled, manual
+  triggered_by UUID,
+  recipients JSONB DEFAULT '[]'::jsonb,
+  sent_count INTEGER DEFAULT 0,
+  failed_recipients JSONB DEFAULT '[]'::jsonb,
+  row_count INTEGER,
+  error_message TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_runs_schedule ON public.report_runs (schedule_id, started_at DESC);
+
+ALTER TABLE public.report_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage report runs" ON public.report_runs
+  FOR ALL USING (is_user_admin());
+
+CREATE POLICY "Authenticated users can view report runs" ON public.report_runs
+  FOR SELECT USING (true);
+
+-- Check for due reports every 15 minutes.
+-- Requires the Vault secrets 'project_url' and 'service_role_key' to be set for the project.
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'run-scheduled-reports',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/run-scheduled-reports',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,89 @@
+-- Scheduled backups
+-- The run-scheduled-backups edge function runs due backup_schedules, records the outcome on the
+-- schedule and prunes scheduled backups older than retention_days.
+
+ALTER TABLE public.backup_schedules
+  ADD COLUMN IF NOT EXISTS last_run_status TEXT, -- success, failed
+  ADD COLUMN IF NOT EXISTS last_error TEXT,
+  ADD COLUMN IF NOT EXISTS last_success_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_backup_id UUID REFERENCES public.backups(id) ON DELETE SET NULL;
+
+-- Next run time (UTC) strictly after p_after for a daily or weekly schedule
+CREATE OR REPLACE FUNCTION public.compute_backup_next_run(
+  p_frequency TEXT,
+  p_day_of_week INTEGER,
+  p_time_of_day TIME,
+  p_after TIMESTAMPTZ DEFAULT now()
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_candidate TIMESTAMPTZ;
+BEGIN
+  v_candidate := ((p_after AT TIME ZONE 'UTC')::date + p_time_of_day) AT TIME ZONE 'UTC';
+
+  IF p_frequency = 'weekly' THEN
+    v_candidate := v_candidate
+      + make_interval(days => ((COALESCE(p_day_of_week, 0) - EXTRACT(DOW FROM v_candidate AT TIME ZONE 'UTC')::int + 7) % 7));
+    IF v_candidate <= p_after THEN
+      v_candidate := v_candidate + interval '7 days';
+    END IF;
+  ELSIF v_candidate <= p_after THEN
+    v_candidate := v_candidate + interval '1 day';
+  END IF;
+
+  RETURN v_candidate;
+END;
+$$;
+
+-- Keep next_run_at in step with the schedule whenever it is created, re-enabled or re-timed
+CREATE OR REPLACE FUNCTION public.set_backup_schedule_next_run()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT COALESCE(NEW.is_enabled, false) THEN
+    NEW.next_run_at := NULL;
+  ELSIF TG_OP = 'INSERT'
+     OR NEW.next_run_at IS NULL
+     OR NEW.frequency IS DISTINCT FROM OLD.frequency
+     OR NEW.day_of_week IS DISTINCT FROM OLD.day_of_week
+     OR NEW.time_of_day IS DISTINCT FROM OLD.time_of_day
+     OR NOT COALESCE(OLD.is_enabled, false) THEN
+    NEW.next_run_at := public.compute_backup_next_run(NEW.frequency, NEW.day_of_week, NEW.time_of_day, now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_backup_schedule_next_run ON public.backup_schedules;
+CREATE TRIGGER set_backup_schedule_next_run
+  BEFORE INSERT OR UPDATE ON public.backup_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.set_backup_schedule_next_run();
+
+CREATE INDEX IF NOT EXISTS idx_backups_type_created ON public.backups (backup_type, created_at DESC);
+
+-- Check for due backups every 15 minutes.
+-- Requires the Vault secrets 'project_url' and 'service_role_key' to be set for the project.
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'run-scheduled-backups',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/run-scheduled-backups',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,148 @@
+-- Link deals to accounts, contacts and leads
+-- customer_name / lead_name stay as display copies so existing lists, filters and exports keep working.
+
+ALTER TABLE public.deals
+  ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_deals_account_id ON public.deals (account_id);
+CREATE INDEX IF NOT EXISTS idx_deals_contact_id ON public.deals (contact_id);
+CREATE INDEX IF NOT EXISTS idx_deals_lead_id ON public.deals (lead_id);
+
+-- Everyone involved in a deal and the part they play in it
+CREATE TABLE IF NOT EXISTS public.deal_contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  deal_id UUID NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'Influencer', -- Decision Maker, Economic Buyer, Champion, Influencer, Technical Evaluator, End User, Other
+  notes TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (deal_id, contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_contacts_contact_id ON public.deal_contacts (contact_id);
+
+ALTER TABLE public.deal_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view deal contacts" ON public.deal_contacts
+  FOR SELECT TO authenticated USING (true);
+
+-- Same ownership rule as the deal itself
+CREATE POLICY "Deal owners and admins can manage deal contacts" ON public.deal_contacts
+  FOR ALL TO authenticated
+  USING (
+    is_user_admin()
+    OR EXISTS (SELECT 1 FROM public.deals d WHERE d.id = deal_id AND d.created_by = auth.uid())
+  )
+  WITH CHECK (
+    is_user_admin()
+    OR EXISTS (SELECT 1 FROM public.deals d WHERE d.id = deal_id AND d.created_by = auth.uid())
+  );
+
+CREATE TRIGGER update_deal_contacts_updated_at
+  BEFORE UPDATE ON public.deal_contacts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Backfill: match existing free-text customer names to accounts (case and whitespace insensitive).
+-- Names that match more than one account are left for users to link by hand.
+-- Linking isn't an edit users made, so it shouldn't open approval requests.
+ALTER TABLE public.deals DISABLE TRIGGER enforce_deal_approval_workflows;
+
+WITH account_names AS (
+  SELECT lower(btrim(company_name)) AS name_key, (array_agg(id))[1] AS account_id
+  FROM public.accounts
+  GROUP BY lower(btrim(company_name))
+  HAVING COUNT(*) = 1
+)
+UPDATE public.deals d
+SET account_id = a.account_id
+FROM account_names a
+WHERE d.account_id IS NULL
+  AND d.customer_name IS NOT NULL
+  AND lower(btrim(d.customer_name)) = a.name_key;
+
+WITH lead_names AS (
+  SELECT lower(btrim(lead_name)) AS name_key, (array_agg(id))[1] AS lead_id
+  FROM public.leads
+  GROUP BY lower(btrim(lead_name))
+  HAVING COUNT(*) = 1
+)
+UPDATE public.deals d
+SET lead_id = l.lead_id
+FROM lead_names l
+WHERE d.lead_id IS NULL
+  AND d.lead_name IS NOT NULL
+  AND lower(btrim(d.lead_name)) = l.name_key;
+
+-- Deals whose customer name didn't match can still pick up the account of their source lead
+UPDATE public.deals d
+SET account_id = l.account_id
+FROM public.leads l
+WHERE d.account_id IS NULL
+  AND d.lead_id = l.id
+  AND l.account_id IS NOT NULL;
+
+ALTER TABLE public.deals ENABLE TRIGGER enforce_deal_approval_workflows;
+
+-- Account rollups now include linked deals: deal_count and the revenue of won deals
+CREATE OR REPLACE FUNCTION public.update_account_stats(p_account_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.accounts
+  SET
+    contact_count = (SELECT COUNT(*) FROM public.contacts WHERE account_id = p_account_id),
+    deal_count = (SELECT COUNT(*) FROM public.deals WHERE account_id = p_account_id),
+    total_revenue = (
+      SELECT COALESCE(SUM(COALESCE(d.total_revenue, d.total_contract_value, 0)), 0)
+      FROM public.deals d
+      WHERE d.account_id = p_account_id
+        AND (
+          d.stage IN (SELECT stage_name FROM public.pipeline_stages WHERE is_won_stage)
+          OR (d.stage = 'Won' AND NOT EXISTS (SELECT 1 FROM public.pipeline_stages WHERE is_won_stage))
+        )
+    ),
+    last_activity_date = (SELECT MAX(activity_date) FROM public.account_activities WHERE account_id = p_account_id)
+  WHERE id = p_account_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_deal_account_stats()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.account_id IS NOT DISTINCT FROM OLD.account_id
+     AND NEW.stage IS NOT DISTINCT FROM OLD.stage
+     AND NEW.total_revenue IS NOT DISTINCT FROM OLD.total_revenue
+     AND NEW.total_contract_value IS NOT DISTINCT FROM OLD.total_contract_value THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.account_id IS NOT NULL THEN
+    PERFORM public.update_account_stats(OLD.account_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.account_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.account_id IS DISTINCT FROM OLD.account_id) THEN
+    PERFORM public.update_account_stats(NEW.account_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_deal_account_stats ON public.deals;
+CREATE TRIGGER refresh_deal_account_stats
+  AFTER INSERT OR UPDATE OR DELETE ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_deal_account_stats();
+
+-- Bring every linked account up to date once
+SELECT public.update_account_stats(id) FROM public.accounts;
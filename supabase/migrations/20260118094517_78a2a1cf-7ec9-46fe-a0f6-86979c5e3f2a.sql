@@ -0,0 +1,205 @@
+-- Multi-currency revenue: a company reporting currency and manually maintained, dated exchange rates
+
+-- Company-wide currency settings (single row table)
+CREATE TABLE IF NOT EXISTS public.currency_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporting_currency TEXT NOT NULL DEFAULT 'EUR',
+  updated_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.currency_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage currency settings" ON public.currency_settings
+  FOR ALL USING (is_user_admin());
+
+CREATE POLICY "Authenticated users can view currency settings" ON public.currency_settings
+  FOR SELECT USING (true);
+
+INSERT INTO public.currency_settings (id)
+VALUES ('00000000-0000-0000-0000-000000000001')
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TRIGGER update_currency_settings_updated_at
+  BEFORE UPDATE ON public.currency_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 1 from_currency = rate to_currency, valid from effective_date until the next rate for the pair
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_currency TEXT NOT NULL,
+  to_currency TEXT NOT NULL,
+  rate NUMERIC(18, 8) NOT NULL CHECK (rate > 0),
+  effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (from_currency <> to_currency),
+  UNIQUE (from_currency, to_currency, effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_pair_date
+  ON public.exchange_rates (from_currency, to_currency, effective_date DESC);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage exchange rates" ON public.exchange_rates
+  FOR ALL USING (is_user_admin());
+
+CREATE POLICY "Authenticated users can view exchange rates" ON public.exchange_rates
+  FOR SELECT USING (true);
+
+CREATE TRIGGER update_exchange_rates_updated_at
+  BEFORE UPDATE ON public.exchange_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Targets are entered in the reporting currency of the day; remember which one
+ALTER TABLE public.yearly_revenue_targets
+  ADD COLUMN IF NOT EXISTS currency TEXT;
+
+UPDATE public.yearly_revenue_targets
+SET currency = (SELECT reporting_currency FROM public.currency_settings LIMIT 1)
+WHERE currency IS NULL;
+
+-- Convert an amount using the latest rate on or before p_on (or the earliest rate when all are later).
+-- Falls back to the inverse pair, and returns the amount unchanged when no rate exists so totals
+-- never silently drop revenue. Mirrors src/utils/currencyConversion.ts.
+CREATE OR REPLACE FUNCTION public.convert_currency(
+  p_amount NUMERIC,
+  p_from TEXT,
+  p_to TEXT,
+  p_on DATE DEFAULT CURRENT_DATE
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_rate NUMERIC;
+BEGIN
+  IF p_amount IS NULL THEN
+    RETURN NULL;
+  END IF;
+  IF p_from IS NULL OR p_to IS NULL OR p_from = p_to THEN
+    RETURN p_amount;
+  END IF;
+
+  SELECT rate INTO v_rate
+  FROM public.exchange_rates
+  WHERE from_currency = p_from AND to_currency = p_to
+  ORDER BY (effective_date <= COALESCE(p_on, CURRENT_DATE)) DESC,
+           CASE WHEN effective_date <= COALESCE(p_on, CURRENT_DATE) THEN effective_date END DESC,
+           effective_date ASC
+  LIMIT 1;
+
+  IF v_rate IS NOT NULL THEN
+    RETURN p_amount * v_rate;
+  END IF;
+
+  SELECT rate INTO v_rate
+  FROM public.exchange_rates
+  WHERE from_currency = p_to AND to_currency = p_from
+  ORDER BY (effective_date <= COALESCE(p_on, CURRENT_DATE)) DESC,
+           CASE WHEN effective_date <= COALESCE(p_on, CURRENT_DATE) THEN effective_date END DESC,
+           effective_date ASC
+  LIMIT 1;
+
+  IF v_rate IS NOT NULL THEN
+    RETURN p_amount / v_rate;
+  END IF;
+
+  RETURN p_amount;
+END;
+$$;
+
+-- Account revenue is now the sum of won deals converted to the reporting currency
+CREATE OR REPLACE FUNCTION public.update_account_stats(p_account_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reporting_currency TEXT := COALESCE((SELECT reporting_currency FROM public.currency_settings LIMIT 1), 'EUR');
+BEGIN
+  UPDATE public.accounts
+  SET
+    contact_count = (SELECT COUNT(*) FROM public.contacts WHERE account_id = p_account_id),
+    deal_count = (SELECT COUNT(*) FROM public.deals WHERE account_id = p_account_id),
+    total_revenue = (
+      SELECT COALESCE(SUM(public.convert_currency(
+        COALESCE(d.total_revenue, d.total_contract_value, 0),
+        COALESCE(d.currency_type, 'EUR'),
+        v_reporting_currency,
+        COALESCE(d.signed_contract_date, d.expected_closing_date)
+      )), 0)
+      FROM public.deals d
+      WHERE d.account_id = p_account_id
+        AND (
+          d.stage IN (SELECT stage_name FROM public.pipeline_stages WHERE is_won_stage)
+          OR (d.stage = 'Won' AND NOT EXISTS (SELECT 1 FROM public.pipeline_stages WHERE is_won_stage))
+        )
+    ),
+    last_activity_date = (SELECT MAX(activity_date) FROM public.account_activities WHERE account_id = p_account_id)
+  WHERE id = p_account_id;
+END;
+$$;
+
+-- A deal's converted value also changes with its currency and contract date
+CREATE OR REPLACE FUNCTION public.refresh_deal_account_stats()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.account_id IS NOT DISTINCT FROM OLD.account_id
+     AND NEW.stage IS NOT DISTINCT FROM OLD.stage
+     AND NEW.total_revenue IS NOT DISTINCT FROM OLD.total_revenue
+     AND NEW.total_contract_value IS NOT DISTINCT FROM OLD.total_contract_value
+     AND NEW.currency_type IS NOT DISTINCT FROM OLD.currency_type
+     AND NEW.signed_contract_date IS NOT DISTINCT FROM OLD.signed_contract_date
+     AND NEW.expected_closing_date IS NOT DISTINCT FROM OLD.expected_closing_date THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.account_id IS NOT NULL THEN
+    PERFORM public.update_account_stats(OLD.account_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.account_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.account_id IS DISTINCT FROM OLD.account_id) THEN
+    PERFORM public.update_account_stats(NEW.account_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- New rates or a new reporting currency change every account's converted revenue
+CREATE OR REPLACE FUNCTION public.refresh_all_account_revenue()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.update_account_stats(a.id)
+  FROM public.accounts a
+  WHERE EXISTS (SELECT 1 FROM public.deals d WHERE d.account_id = a.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_account_revenue_on_exchange_rates
+  AFTER INSERT OR UPDATE OR DELETE ON public.exchange_rates
+  FOR EACH STATEMENT EXECUTE FUNCTION public.refresh_all_account_revenue();
+
+CREATE TRIGGER refresh_account_revenue_on_currency_settings
+  AFTER UPDATE OF reporting_currency ON public.currency_settings
+  FOR EACH STATEMENT EXECUTE FUNCTION public.refresh_all_account_revenue();
+
+SELECT public.update_account_stats(id) FROM public.accounts;
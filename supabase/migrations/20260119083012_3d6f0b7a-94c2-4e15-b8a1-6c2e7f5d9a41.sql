@@ -0,0 +1,84 @@
+-- Recurring tasks: completing an occurrence creates the next one in its series.
+-- The first task of a series is its root; later occurrences point at it through parent_task_id.
+
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_task_id ON public.tasks(parent_task_id);
+
+-- Next due date after p_from. Month and year steps clamp to the last day of shorter months.
+-- Mirrors getNextOccurrenceDate in src/utils/taskRecurrence.ts.
+CREATE OR REPLACE FUNCTION public.next_task_due_date(p_recurrence TEXT, p_from DATE)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE p_recurrence
+    WHEN 'daily' THEN p_from + 1
+    WHEN 'weekly' THEN p_from + 7
+    WHEN 'monthly' THEN (p_from + INTERVAL '1 month')::DATE
+    WHEN 'yearly' THEN (p_from + INTERVAL '1 year')::DATE
+    ELSE NULL
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.spawn_next_task_occurrence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_series_id UUID := COALESCE(NEW.parent_task_id, NEW.id);
+  v_from DATE := COALESCE(NEW.due_date, NEW.completed_at::DATE, CURRENT_DATE);
+  v_next_due DATE;
+  v_next_id UUID;
+BEGIN
+  v_next_due := public.next_task_due_date(NEW.recurrence, v_from);
+
+  IF v_next_due IS NULL
+     OR (NEW.recurrence_end_date IS NOT NULL AND v_next_due > NEW.recurrence_end_date) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Re-completing a reopened occurrence must not create a second copy of the next one
+  IF EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE (id = v_series_id OR parent_task_id = v_series_id)
+      AND id <> NEW.id
+      AND due_date >= v_next_due
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.tasks (
+    title, description, status, priority, due_date, due_time, reminder_date,
+    assigned_to, created_by, module_type,
+    lead_id, contact_id, deal_id, account_id, meeting_id,
+    tags, category, recurrence, recurrence_end_date, parent_task_id
+  )
+  VALUES (
+    NEW.title, NEW.description, 'open', NEW.priority, v_next_due, NEW.due_time,
+    NEW.reminder_date + (v_next_due - v_from) * INTERVAL '1 day',
+    NEW.assigned_to, NEW.created_by, NEW.module_type,
+    NEW.lead_id, NEW.contact_id, NEW.deal_id, NEW.account_id, NEW.meeting_id,
+    NEW.tags, NEW.category, NEW.recurrence, NEW.recurrence_end_date, v_series_id
+  )
+  RETURNING id INTO v_next_id;
+
+  INSERT INTO public.task_subtasks (task_id, title, is_completed, order_index)
+  SELECT v_next_id, title, false, order_index
+  FROM public.task_subtasks
+  WHERE task_id = NEW.id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER spawn_next_task_occurrence
+  AFTER UPDATE OF status ON public.tasks
+  FOR EACH ROW
+  WHEN (
+    NEW.status = 'completed'
+    AND OLD.status IS DISTINCT FROM 'completed'
+    AND COALESCE(NEW.recurrence, 'none') <> 'none'
+  )
+  EXECUTE FUNCTION public.spawn_next_task_occurrence();
@@ -0,0 +1,87 @@
+-- Task reminders: send-task-reminders delivers tasks.reminder_date as an in-app notification
+-- (and email when the recipient allows it), then stamps reminder_sent_at so it fires once.
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS reminder_sent_at TIMESTAMPTZ;
+
+-- Reminders that were already in the past aren't worth delivering late
+UPDATE public.tasks
+SET reminder_sent_at = now()
+WHERE reminder_date IS NOT NULL AND reminder_date < now();
+
+CREATE INDEX IF NOT EXISTS idx_tasks_pending_reminders
+  ON public.tasks(reminder_date)
+  WHERE reminder_sent_at IS NULL;
+
+-- Moving a reminder (editing it or snoozing it) arms it again
+CREATE OR REPLACE FUNCTION public.rearm_task_reminder()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.reminder_date IS DISTINCT FROM OLD.reminder_date THEN
+    NEW.reminder_sent_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rearm_task_reminder
+  BEFORE UPDATE OF reminder_date ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.rearm_task_reminder();
+
+-- Reminder notifications point at their task so they can be opened and snoozed
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_task_id ON public.notifications(task_id);
+
+-- Push a task reminder notification's task reminder back by p_minutes and mark the notification read.
+-- The recipient may not be allowed to update the task itself, so this checks ownership of the notification instead.
+CREATE OR REPLACE FUNCTION public.snooze_task_reminder(p_notification_id UUID, p_minutes INTEGER)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task_id UUID;
+  v_reminder TIMESTAMPTZ := now() + make_interval(mins => p_minutes);
+BEGIN
+  IF p_minutes IS NULL OR p_minutes <= 0 THEN
+    RAISE EXCEPTION 'Snooze duration must be positive';
+  END IF;
+
+  SELECT task_id INTO v_task_id
+  FROM public.notifications
+  WHERE id = p_notification_id AND user_id = auth.uid();
+
+  IF v_task_id IS NULL THEN
+    RAISE EXCEPTION 'Task reminder not found';
+  END IF;
+
+  UPDATE public.tasks SET reminder_date = v_reminder WHERE id = v_task_id;
+  UPDATE public.notifications SET status = 'read' WHERE id = p_notification_id;
+
+  RETURN v_reminder;
+END;
+$$;
+
+-- Deliver due reminders every 5 minutes.
+-- Uses the same Vault secrets as run-scheduled-backups.
+SELECT cron.schedule(
+  'send-task-reminders',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-task-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
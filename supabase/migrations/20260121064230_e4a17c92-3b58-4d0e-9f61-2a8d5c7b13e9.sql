@@ -0,0 +1,81 @@
+-- Meeting reminders: send-meeting-reminders delivers the remind_* offsets before each meeting and flips
+-- the matching sent_* flags. Moving a meeting re-arms them.
+
+-- Every meeting gets reminder settings, using the same defaults MeetingReminderSettings shows
+CREATE OR REPLACE FUNCTION public.create_default_meeting_reminders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.meeting_reminders (meeting_id)
+  VALUES (NEW.id)
+  ON CONFLICT (meeting_id) DO NOTHING;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER create_default_meeting_reminders
+  AFTER INSERT ON public.meetings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_default_meeting_reminders();
+
+INSERT INTO public.meeting_reminders (meeting_id)
+SELECT m.id
+FROM public.meetings m
+WHERE m.start_time > now()
+ON CONFLICT (meeting_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.rearm_meeting_reminders(p_meeting_id UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.meeting_reminders
+  SET sent_15min = false, sent_1hr = false, sent_1day = false
+  WHERE meeting_id = p_meeting_id
+    AND (sent_15min OR sent_1hr OR sent_1day);
+$$;
+
+CREATE OR REPLACE FUNCTION public.rearm_rescheduled_meeting_reminders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.rearm_meeting_reminders(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER rearm_rescheduled_meeting_reminders
+  AFTER UPDATE OF start_time ON public.meetings
+  FOR EACH ROW
+  WHEN (NEW.start_time IS DISTINCT FROM OLD.start_time)
+  EXECUTE FUNCTION public.rearm_rescheduled_meeting_reminders();
+
+-- Reminder notifications point at their meeting so they can be opened from the bell
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS meeting_id UUID REFERENCES public.meetings(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_meeting_id ON public.notifications(meeting_id);
+
+-- Deliver due reminders every 5 minutes.
+-- Uses the same Vault secrets as run-scheduled-backups.
+SELECT cron.schedule(
+  'send-meeting-reminders',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-meeting-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,50 @@
+-- Recurring meetings: a series holds the recurrence rule, and every occurrence is its own meetings row
+-- so notes, outcomes, reminders and follow-ups stay per occurrence. Rules are expanded by
+-- src/utils/meetingRecurrence.ts, which also maps them onto the recurring Teams calendar event.
+CREATE TABLE IF NOT EXISTS public.meeting_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+  repeat_interval INTEGER NOT NULL DEFAULT 1 CHECK (repeat_interval BETWEEN 1 AND 99),
+  -- Weekly only: 0 = Sunday ... 6 = Saturday, in the series timezone
+  by_weekday SMALLINT[],
+  -- Exactly one way to end the series
+  occurrence_count INTEGER CHECK (occurrence_count BETWEEN 1 AND 200),
+  until_date DATE,
+  -- Wall-clock time and weekday are kept in this timezone across DST changes
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  starts_at TIMESTAMPTZ NOT NULL,
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes > 0),
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK ((occurrence_count IS NULL) <> (until_date IS NULL)),
+  CHECK (frequency <> 'weekly' OR cardinality(by_weekday) > 0)
+);
+
+ALTER TABLE public.meeting_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view meeting series" ON public.meeting_series
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can insert meeting series" ON public.meeting_series
+  FOR INSERT WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can update their own meeting series, admins can update all" ON public.meeting_series
+  FOR UPDATE USING (is_user_admin() OR created_by = auth.uid());
+
+CREATE POLICY "Users can delete their own meeting series, admins can delete all" ON public.meeting_series
+  FOR DELETE USING (is_user_admin() OR created_by = auth.uid());
+
+CREATE TRIGGER update_meeting_series_updated_at
+  BEFORE UPDATE ON public.meeting_series
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- original_start_time is where the rule put the occurrence; it identifies the Teams instance even
+-- after the occurrence is moved. Exceptions were edited or cancelled on their own and survive series edits.
+ALTER TABLE public.meetings
+  ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.meeting_series(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS original_start_time TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS is_series_exception BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_meetings_series_id ON public.meetings(series_id, original_start_time);
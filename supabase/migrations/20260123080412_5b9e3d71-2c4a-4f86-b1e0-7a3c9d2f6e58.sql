@@ -0,0 +1,29 @@
+-- Personal calendar subscriptions: the token in a user's feed URL stands in for a login, so it is
+-- long, random and can be rotated. The calendar-feed function resolves it with the service role.
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  last_accessed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar feed token" ON public.calendar_feed_tokens
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own calendar feed token" ON public.calendar_feed_tokens
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own calendar feed token" ON public.calendar_feed_tokens
+  FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own calendar feed token" ON public.calendar_feed_tokens
+  FOR DELETE USING (user_id = auth.uid());
+
+CREATE TRIGGER update_calendar_feed_tokens_updated_at
+  BEFORE UPDATE ON public.calendar_feed_tokens
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
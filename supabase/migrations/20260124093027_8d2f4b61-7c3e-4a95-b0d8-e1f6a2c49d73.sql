@@ -0,0 +1,34 @@
+-- Outgoing email goes through a selectable transport (Microsoft Graph, SMTP or a capture sink for
+-- development), configured on the existing Email (SMTP) integration. The SMTP password stays in the
+-- SMTP_PASSWORD edge function secret.
+UPDATE public.integration_settings
+SET config = COALESCE(config, '{}'::jsonb) || '{"transport": "graph"}'::jsonb
+WHERE integration_name = 'Email (SMTP)'
+  AND NOT (COALESCE(config, '{}'::jsonb) ? 'transport');
+
+ALTER TABLE public.email_history
+  ADD COLUMN IF NOT EXISTS transport TEXT;
+
+-- Messages kept by the capture transport instead of being delivered
+CREATE TABLE IF NOT EXISTS public.captured_emails (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email_history_id UUID REFERENCES public.email_history(id) ON DELETE CASCADE,
+  sender_email TEXT NOT NULL,
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT,
+  subject TEXT NOT NULL,
+  html_body TEXT,
+  -- Name, content type and size of each attachment; the content itself is not kept
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.captured_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view captured emails" ON public.captured_emails
+  FOR SELECT USING (is_user_admin());
+
+CREATE POLICY "Admins can delete captured emails" ON public.captured_emails
+  FOR DELETE USING (is_user_admin());
+
+CREATE INDEX IF NOT EXISTS idx_captured_emails_created_at ON public.captured_emails(created_at DESC);
@@ -0,0 +1,62 @@
+-- Per-link click tracking: send-email records every link of an outbound email here and rewrites it
+-- to a signed track-email-click URL, which redirects to the recorded url only.
+CREATE TABLE IF NOT EXISTS public.email_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email_history_id UUID NOT NULL REFERENCES public.email_history(id) ON DELETE CASCADE,
+  -- Order of the link in the email body, starting at 0
+  position INTEGER NOT NULL,
+  url TEXT NOT NULL,
+  click_count INTEGER NOT NULL DEFAULT 0,
+  first_clicked_at TIMESTAMPTZ,
+  last_clicked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.email_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view links of emails they sent, admins can view all" ON public.email_links
+  FOR SELECT USING (
+    is_user_admin() OR EXISTS (
+      SELECT 1 FROM public.email_history eh
+      WHERE eh.id = email_links.email_history_id AND eh.sent_by = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_email_links_email_history_id ON public.email_links(email_history_id, position);
+
+-- Counts a click on the link and on its email in one step, so concurrent clicks aren't lost.
+-- Returns nothing for an unknown link.
+CREATE OR REPLACE FUNCTION public.record_email_link_click(p_link_id uuid)
+RETURNS TABLE (url text, email_history_id uuid, first_click boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link public.email_links%ROWTYPE;
+  v_previous_clicks integer;
+BEGIN
+  UPDATE public.email_links
+  SET click_count = click_count + 1,
+      first_clicked_at = COALESCE(first_clicked_at, now()),
+      last_clicked_at = now()
+  WHERE id = p_link_id
+  RETURNING * INTO v_link;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.email_history eh
+  SET click_count = COALESCE(eh.click_count, 0) + 1,
+      clicked_at = COALESCE(eh.clicked_at, now()),
+      status = 'clicked'
+  WHERE eh.id = v_link.email_history_id
+  RETURNING eh.click_count - 1 INTO v_previous_clicks;
+
+  RETURN QUERY SELECT v_link.url, v_link.email_history_id, COALESCE(v_previous_clicks, 0) = 0;
+END;
+$$;
+
+-- Only track-email-click (service role) records clicks
+REVOKE EXECUTE ON FUNCTION public.record_email_link_click(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,179 @@
+-- Bulk email campaigns: BulkEmailModal queues one recipient row per address and
+-- process-email-campaigns sends them in throttled batches, retrying failures with backoff.
+CREATE TABLE IF NOT EXISTS public.email_campaigns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  body TEXT,
+  sender_email TEXT NOT NULL,
+  template_id UUID REFERENCES public.email_templates(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'sending' CHECK (status IN ('sending', 'paused', 'completed', 'cancelled')),
+  -- Throttle: at most this many send attempts per minute for the campaign
+  send_rate_per_minute INTEGER NOT NULL DEFAULT 20 CHECK (send_rate_per_minute BETWEEN 1 AND 300),
+  max_attempts INTEGER NOT NULL DEFAULT 3 CHECK (max_attempts BETWEEN 1 AND 10),
+  created_by UUID DEFAULT auth.uid(),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.email_campaign_recipients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES public.email_campaigns(id) ON DELETE CASCADE,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_attempt_at TIMESTAMPTZ,
+  last_error TEXT,
+  email_history_id UUID REFERENCES public.email_history(id) ON DELETE SET NULL,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (campaign_id, recipient_email)
+);
+
+-- Every email of a campaign points back at it, whichever attempt delivered it
+ALTER TABLE public.email_history
+  ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES public.email_campaigns(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_email_history_campaign_id ON public.email_history(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_email_campaign_recipients_queue
+  ON public.email_campaign_recipients(campaign_id, status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_email_campaigns_status ON public.email_campaigns(status);
+
+ALTER TABLE public.email_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_campaign_recipients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own campaigns, admins can view all" ON public.email_campaigns
+  FOR SELECT USING (created_by = auth.uid() OR is_user_admin());
+
+CREATE POLICY "Users can create their own campaigns" ON public.email_campaigns
+  FOR INSERT WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can update their own campaigns, admins can update all" ON public.email_campaigns
+  FOR UPDATE USING (created_by = auth.uid() OR is_user_admin());
+
+CREATE POLICY "Users can delete their own campaigns, admins can delete all" ON public.email_campaigns
+  FOR DELETE USING (created_by = auth.uid() OR is_user_admin());
+
+CREATE POLICY "Users can manage recipients of their own campaigns, admins can manage all" ON public.email_campaign_recipients
+  FOR ALL USING (
+    is_user_admin() OR EXISTS (
+      SELECT 1 FROM public.email_campaigns c
+      WHERE c.id = email_campaign_recipients.campaign_id AND c.created_by = auth.uid()
+    )
+  )
+  WITH CHECK (
+    is_user_admin() OR EXISTS (
+      SELECT 1 FROM public.email_campaigns c
+      WHERE c.id = email_campaign_recipients.campaign_id AND c.created_by = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_email_campaigns_updated_at
+  BEFORE UPDATE ON public.email_campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_email_campaign_recipients_updated_at
+  BEFORE UPDATE ON public.email_campaign_recipients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Hands the next due recipients of a sending campaign to process-email-campaigns, within what is left
+-- of the campaign's per-minute budget. SKIP LOCKED keeps overlapping runs from sending twice.
+CREATE OR REPLACE FUNCTION public.claim_email_campaign_recipients(p_campaign_id uuid)
+RETURNS SETOF public.email_campaign_recipients
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_budget integer;
+BEGIN
+  SELECT c.send_rate_per_minute - (
+    SELECT count(*) FROM public.email_campaign_recipients r
+    WHERE r.campaign_id = c.id AND r.last_attempt_at > now() - interval '1 minute'
+  )
+  INTO v_budget
+  FROM public.email_campaigns c
+  WHERE c.id = p_campaign_id AND c.status = 'sending'
+  FOR UPDATE;
+
+  IF v_budget IS NULL OR v_budget <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.email_campaign_recipients r
+  SET status = 'sending',
+      attempts = r.attempts + 1,
+      last_attempt_at = now()
+  WHERE r.id IN (
+    SELECT q.id FROM public.email_campaign_recipients q
+    WHERE q.campaign_id = p_campaign_id
+      AND q.status = 'pending'
+      AND q.next_attempt_at <= now()
+    ORDER BY q.next_attempt_at, q.created_at
+    LIMIT v_budget
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING r.*;
+END;
+$$;
+
+-- Only process-email-campaigns (service role) claims recipients
+REVOKE EXECUTE ON FUNCTION public.claim_email_campaign_recipients(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Campaign report: recipient progress plus engagement from the linked email_history rows.
+-- Runs with the caller's rights, so users only see their own campaigns.
+CREATE OR REPLACE FUNCTION public.get_email_campaign_stats()
+RETURNS TABLE (
+  campaign_id uuid,
+  total bigint,
+  pending bigint,
+  sent bigint,
+  failed bigint,
+  cancelled bigint,
+  opened bigint,
+  clicked bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    r.campaign_id,
+    count(*),
+    count(*) FILTER (WHERE r.status IN ('pending', 'sending')),
+    count(*) FILTER (WHERE r.status = 'sent'),
+    count(*) FILTER (WHERE r.status = 'failed'),
+    count(*) FILTER (WHERE r.status = 'cancelled'),
+    count(*) FILTER (WHERE COALESCE(eh.open_count, 0) > 0 OR COALESCE(eh.click_count, 0) > 0),
+    count(*) FILTER (WHERE COALESCE(eh.click_count, 0) > 0)
+  FROM public.email_campaign_recipients r
+  LEFT JOIN public.email_history eh ON eh.id = r.email_history_id
+  GROUP BY r.campaign_id;
+$$;
+
+-- Send queued campaign emails every minute.
+-- Uses the same Vault secrets as run-scheduled-backups.
+SELECT cron.schedule(
+  'process-email-campaigns',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-email-campaigns',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,121 @@
+-- Inbound email: process-inbound-email threads replies, bounces and delivery receipts back to the
+-- email_history row they answer (by Message-ID) and records them here. The trigger below moves the
+-- original email's status along.
+ALTER TABLE public.email_history
+  ADD COLUMN IF NOT EXISTS message_id TEXT,
+  ADD COLUMN IF NOT EXISTS replied_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS reply_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS bounced_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS bounce_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_email_history_message_id ON public.email_history(message_id);
+
+CREATE TABLE IF NOT EXISTS public.inbound_emails (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email_history_id UUID NOT NULL REFERENCES public.email_history(id) ON DELETE CASCADE,
+  -- reply, auto_reply (out of office and similar), bounce or delivery (receipt)
+  kind TEXT NOT NULL CHECK (kind IN ('reply', 'auto_reply', 'bounce', 'delivery')),
+  message_id TEXT,
+  from_email TEXT,
+  from_name TEXT,
+  subject TEXT,
+  -- Reply text without the quoted original
+  body_text TEXT,
+  bounce_type TEXT CHECK (bounce_type IN ('hard', 'soft')),
+  diagnostic TEXT,
+  -- Copied from the original email so timelines can query by record
+  lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  -- graph (mailbox poll) or upload (raw RFC 822 posted to the function)
+  source TEXT NOT NULL DEFAULT 'upload' CHECK (source IN ('graph', 'upload')),
+  received_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- The same message arriving twice (re-polled or re-uploaded) is only recorded once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inbound_emails_message_id ON public.inbound_emails(message_id) WHERE message_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_inbound_emails_email_history_id ON public.inbound_emails(email_history_id);
+CREATE INDEX IF NOT EXISTS idx_inbound_emails_lead_id ON public.inbound_emails(lead_id);
+CREATE INDEX IF NOT EXISTS idx_inbound_emails_contact_id ON public.inbound_emails(contact_id);
+
+ALTER TABLE public.inbound_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view inbound emails" ON public.inbound_emails
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can delete inbound emails" ON public.inbound_emails
+  FOR DELETE USING (is_user_admin());
+
+-- Graph mailbox poll position, per mailbox
+CREATE TABLE IF NOT EXISTS public.inbound_mailbox_cursors (
+  mailbox TEXT PRIMARY KEY,
+  last_received_at TIMESTAMPTZ NOT NULL,
+  last_polled_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.inbound_mailbox_cursors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view inbound mailbox cursors" ON public.inbound_mailbox_cursors
+  FOR SELECT USING (is_user_admin());
+
+CREATE TRIGGER update_inbound_mailbox_cursors_updated_at
+  BEFORE UPDATE ON public.inbound_mailbox_cursors
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A reply wins over every other status; a hard bounce marks the email bounced unless it was
+-- answered; a delivery receipt only records when the message arrived.
+CREATE OR REPLACE FUNCTION public.apply_inbound_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.kind = 'reply' THEN
+    UPDATE public.email_history
+    SET status = 'replied',
+        replied_at = COALESCE(replied_at, NEW.received_at),
+        reply_count = reply_count + 1
+    WHERE id = NEW.email_history_id;
+  ELSIF NEW.kind = 'bounce' THEN
+    UPDATE public.email_history
+    SET status = CASE WHEN NEW.bounce_type = 'hard' AND status <> 'replied' THEN 'bounced' ELSE status END,
+        bounced_at = NEW.received_at,
+        bounce_reason = NEW.diagnostic
+    WHERE id = NEW.email_history_id;
+  ELSIF NEW.kind = 'delivery' THEN
+    UPDATE public.email_history
+    SET delivered_at = NEW.received_at,
+        status = CASE WHEN status IN ('sent', 'delivered') THEN 'delivered' ELSE status END
+    WHERE id = NEW.email_history_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER apply_inbound_email
+  AFTER INSERT ON public.inbound_emails
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_inbound_email();
+
+-- Poll the Graph mailboxes for replies and bounces every 5 minutes.
+-- Uses the same Vault secrets as run-scheduled-backups.
+SELECT cron.schedule(
+  'process-inbound-email',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-inbound-email',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,80 @@
+-- Email template versions: every change to a template's name, subject or body bumps its version and
+-- keeps a copy of the previous wording here, so edits can be reviewed and restored.
+ALTER TABLE public.email_templates
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS public.email_template_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES public.email_templates(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (template_id, version)
+);
+
+ALTER TABLE public.email_template_versions ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility as the templates; rows are only ever written by the triggers below or by a backup restore
+CREATE POLICY "Authenticated users can view email template versions"
+ON public.email_template_versions FOR SELECT USING (true);
+
+CREATE OR REPLACE FUNCTION public.bump_email_template_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Backup restores (service role) bring their own version numbers and history rows
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.subject IS DISTINCT FROM OLD.subject
+    OR NEW.body IS DISTINCT FROM OLD.body THEN
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_email_template_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.version <> OLD.version THEN
+    INSERT INTO public.email_template_versions (template_id, version, name, subject, body, created_by)
+    VALUES (NEW.id, NEW.version, NEW.name, NEW.subject, NEW.body, COALESCE(auth.uid(), NEW.created_by))
+    ON CONFLICT (template_id, version) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_email_template_version
+  BEFORE UPDATE ON public.email_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_email_template_version();
+
+CREATE TRIGGER record_email_template_version
+  AFTER INSERT OR UPDATE ON public.email_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_email_template_version();
+
+-- Existing templates start their history at version 1
+INSERT INTO public.email_template_versions (template_id, version, name, subject, body, created_by, created_at)
+SELECT id, version, name, subject, body, created_by, updated_at
+FROM public.email_templates
+ON CONFLICT (template_id, version) DO NOTHING;
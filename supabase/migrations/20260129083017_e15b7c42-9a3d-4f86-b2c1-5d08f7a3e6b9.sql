@@ -0,0 +1,285 @@
+-- Email sequences: an ordered list of email and manual task steps, each waiting a number of days
+-- after the previous one. Leads and contacts are enrolled from the Leads and Contacts pages and
+-- process-email-sequences works through their steps. A reply or a booked meeting ends the enrolment.
+CREATE TABLE IF NOT EXISTS public.email_sequences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  -- Inactive sequences keep their enrolments but send nothing until reactivated
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.email_sequence_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sequence_id UUID NOT NULL REFERENCES public.email_sequences(id) ON DELETE CASCADE,
+  -- 0-based order within the sequence
+  position INTEGER NOT NULL CHECK (position >= 0),
+  step_type TEXT NOT NULL CHECK (step_type IN ('email', 'task')),
+  -- Days after the previous step (after enrolment for the first step)
+  delay_days INTEGER NOT NULL DEFAULT 0 CHECK (delay_days BETWEEN 0 AND 365),
+  template_id UUID REFERENCES public.email_templates(id) ON DELETE SET NULL,
+  task_title TEXT,
+  task_description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (sequence_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS public.email_sequence_enrollments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sequence_id UUID NOT NULL REFERENCES public.email_sequences(id) ON DELETE CASCADE,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE CASCADE,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE CASCADE,
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT,
+  sender_email TEXT NOT NULL,
+  -- active, completed (ran out of steps), replied, meeting_booked, stopped (by a user) or failed
+  status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'completed', 'replied', 'meeting_booked', 'stopped', 'failed')),
+  -- Position of the next step to run
+  current_step INTEGER NOT NULL DEFAULT 0,
+  next_step_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Tries at the current step; reset when the enrolment moves on
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_step_at TIMESTAMPTZ,
+  last_error TEXT,
+  exited_at TIMESTAMPTZ,
+  enrolled_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (lead_id IS NOT NULL OR contact_id IS NOT NULL)
+);
+
+-- A lead or contact is only ever in one running copy of a sequence
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_sequence_enrollments_active_lead
+  ON public.email_sequence_enrollments(sequence_id, lead_id) WHERE status = 'active' AND lead_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_sequence_enrollments_active_contact
+  ON public.email_sequence_enrollments(sequence_id, contact_id) WHERE status = 'active' AND contact_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_email_sequence_enrollments_queue
+  ON public.email_sequence_enrollments(status, next_step_at);
+CREATE INDEX IF NOT EXISTS idx_email_sequence_enrollments_lead_id ON public.email_sequence_enrollments(lead_id);
+CREATE INDEX IF NOT EXISTS idx_email_sequence_enrollments_contact_id ON public.email_sequence_enrollments(contact_id);
+
+-- Emails sent by a sequence step point back at the enrolment, for its stats
+ALTER TABLE public.email_history
+  ADD COLUMN IF NOT EXISTS sequence_enrollment_id UUID REFERENCES public.email_sequence_enrollments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_email_history_sequence_enrollment_id ON public.email_history(sequence_enrollment_id);
+
+ALTER TABLE public.email_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_sequence_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_sequence_enrollments ENABLE ROW LEVEL SECURITY;
+
+-- Sequences are shared like email templates; only their owner or an admin changes them
+CREATE POLICY "Authenticated users can view email sequences" ON public.email_sequences
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create their own email sequences" ON public.email_sequences
+  FOR INSERT WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can update their own email sequences, admins can update all" ON public.email_sequences
+  FOR UPDATE USING (created_by = auth.uid() OR is_user_admin());
+
+CREATE POLICY "Users can delete their own email sequences, admins can delete all" ON public.email_sequences
+  FOR DELETE USING (created_by = auth.uid() OR is_user_admin());
+
+CREATE POLICY "Authenticated users can view email sequence steps" ON public.email_sequence_steps
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can manage steps of their own email sequences, admins can manage all" ON public.email_sequence_steps
+  FOR ALL USING (
+    is_user_admin() OR EXISTS (
+      SELECT 1 FROM public.email_sequences s
+      WHERE s.id = email_sequence_steps.sequence_id AND s.created_by = auth.uid()
+    )
+  )
+  WITH CHECK (
+    is_user_admin() OR EXISTS (
+      SELECT 1 FROM public.email_sequences s
+      WHERE s.id = email_sequence_steps.sequence_id AND s.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Authenticated users can view email sequence enrollments" ON public.email_sequence_enrollments
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can enroll records in email sequences" ON public.email_sequence_enrollments
+  FOR INSERT WITH CHECK (enrolled_by = auth.uid());
+
+CREATE POLICY "Enrollers, sequence owners and admins can update email sequence enrollments" ON public.email_sequence_enrollments
+  FOR UPDATE USING (
+    enrolled_by = auth.uid() OR is_user_admin() OR EXISTS (
+      SELECT 1 FROM public.email_sequences s
+      WHERE s.id = email_sequence_enrollments.sequence_id AND s.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can delete email sequence enrollments" ON public.email_sequence_enrollments
+  FOR DELETE USING (is_user_admin());
+
+CREATE TRIGGER update_email_sequences_updated_at
+  BEFORE UPDATE ON public.email_sequences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_email_sequence_steps_updated_at
+  BEFORE UPDATE ON public.email_sequence_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_email_sequence_enrollments_updated_at
+  BEFORE UPDATE ON public.email_sequence_enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A reply from the lead or contact ends every sequence they are in; a hard bounce fails the
+-- enrolment that sent the email
+CREATE OR REPLACE FUNCTION public.exit_email_sequences_on_inbound_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_enrollment_id uuid;
+BEGIN
+  SELECT sequence_enrollment_id INTO v_enrollment_id
+  FROM public.email_history
+  WHERE id = NEW.email_history_id;
+
+  IF NEW.kind = 'reply' THEN
+    UPDATE public.email_sequence_enrollments
+    SET status = 'replied', exited_at = now()
+    WHERE status = 'active'
+      AND (
+        id = v_enrollment_id
+        OR (NEW.lead_id IS NOT NULL AND lead_id = NEW.lead_id)
+        OR (NEW.contact_id IS NOT NULL AND contact_id = NEW.contact_id)
+      );
+  ELSIF NEW.kind = 'bounce' AND NEW.bounce_type = 'hard' AND v_enrollment_id IS NOT NULL THEN
+    UPDATE public.email_sequence_enrollments
+    SET status = 'failed', exited_at = now(), last_error = COALESCE('Bounced: ' || NEW.diagnostic, 'Bounced')
+    WHERE id = v_enrollment_id AND status = 'active';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER exit_email_sequences_on_inbound_email
+  AFTER INSERT ON public.inbound_emails
+  FOR EACH ROW
+  EXECUTE FUNCTION public.exit_email_sequences_on_inbound_email();
+
+CREATE OR REPLACE FUNCTION public.exit_email_sequences_on_meeting()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.email_sequence_enrollments
+  SET status = 'meeting_booked', exited_at = now()
+  WHERE status = 'active'
+    AND (
+      (NEW.lead_id IS NOT NULL AND lead_id = NEW.lead_id)
+      OR (NEW.contact_id IS NOT NULL AND contact_id = NEW.contact_id)
+    );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER exit_email_sequences_on_meeting
+  AFTER INSERT ON public.meetings
+  FOR EACH ROW
+  WHEN (NEW.status = 'scheduled' AND (NEW.lead_id IS NOT NULL OR NEW.contact_id IS NOT NULL))
+  EXECUTE FUNCTION public.exit_email_sequences_on_meeting();
+
+-- Hands due enrolments of active sequences to process-email-sequences. next_step_at is pushed out as a
+-- lease, so a run that dies mid-step is picked up again once it expires; SKIP LOCKED keeps overlapping
+-- runs apart.
+CREATE OR REPLACE FUNCTION public.claim_email_sequence_enrollments(p_limit integer DEFAULT 100)
+RETURNS SETOF public.email_sequence_enrollments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.email_sequence_enrollments e
+  SET next_step_at = now() + interval '15 minutes',
+      attempts = e.attempts + 1
+  WHERE e.id IN (
+    SELECT q.id FROM public.email_sequence_enrollments q
+    JOIN public.email_sequences s ON s.id = q.sequence_id
+    WHERE q.status = 'active'
+      AND s.is_active
+      AND q.next_step_at <= now()
+    ORDER BY q.next_step_at
+    LIMIT p_limit
+    FOR UPDATE OF q SKIP LOCKED
+  )
+  RETURNING e.*;
+END;
+$$;
+
+-- Only process-email-sequences (service role) claims enrolments
+REVOKE EXECUTE ON FUNCTION public.claim_email_sequence_enrollments(integer) FROM PUBLIC, anon, authenticated;
+
+-- Sequence performance: enrolment outcomes plus engagement with the emails the sequence sent.
+-- Runs with the caller's rights.
+CREATE OR REPLACE FUNCTION public.get_email_sequence_stats()
+RETURNS TABLE (
+  sequence_id uuid,
+  enrolled bigint,
+  active bigint,
+  completed bigint,
+  replied bigint,
+  meeting_booked bigint,
+  stopped bigint,
+  failed bigint,
+  emails_sent bigint,
+  opened bigint,
+  clicked bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    e.sequence_id,
+    count(DISTINCT e.id),
+    count(DISTINCT e.id) FILTER (WHERE e.status = 'active'),
+    count(DISTINCT e.id) FILTER (WHERE e.status = 'completed'),
+    count(DISTINCT e.id) FILTER (WHERE e.status = 'replied'),
+    count(DISTINCT e.id) FILTER (WHERE e.status = 'meeting_booked'),
+    count(DISTINCT e.id) FILTER (WHERE e.status = 'stopped'),
+    count(DISTINCT e.id) FILTER (WHERE e.status = 'failed'),
+    count(eh.id),
+    count(eh.id) FILTER (WHERE COALESCE(eh.open_count, 0) > 0 OR COALESCE(eh.click_count, 0) > 0),
+    count(eh.id) FILTER (WHERE COALESCE(eh.click_count, 0) > 0)
+  FROM public.email_sequence_enrollments e
+  LEFT JOIN public.email_history eh ON eh.sequence_enrollment_id = e.id
+  GROUP BY e.sequence_id;
+$$;
+
+-- Run due sequence steps every 10 minutes; delays are in days, so this is plenty.
+-- Uses the same Vault secrets as run-scheduled-backups.
+SELECT cron.schedule(
+  'process-email-sequences',
+  '*/10 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-email-sequences',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
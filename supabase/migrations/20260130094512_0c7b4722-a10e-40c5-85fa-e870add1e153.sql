@@ -0,0 +1,94 @@
+-- Suppression list: addresses that must not be emailed because the recipient unsubscribed, an email
+-- to them hard-bounced, or a user blocked them. send-email refuses these addresses, so single sends,
+-- campaigns and sequences all honour it. Addresses are stored lower-cased.
+CREATE TABLE IF NOT EXISTS public.email_suppressions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL UNIQUE CHECK (email = lower(btrim(email)) AND email <> ''),
+  reason TEXT NOT NULL CHECK (reason IN ('unsubscribed', 'bounced', 'manual')),
+  notes TEXT,
+  -- The email that was unsubscribed from or bounced
+  email_history_id UUID REFERENCES public.email_history(id) ON DELETE SET NULL,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.email_suppressions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view email suppressions" ON public.email_suppressions
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- Unsubscribes and bounces are recorded by the server; users can only block addresses by hand
+CREATE POLICY "Users can block email addresses" ON public.email_suppressions
+  FOR INSERT WITH CHECK (reason = 'manual' AND created_by = auth.uid());
+
+CREATE POLICY "Admins and blockers can remove email suppressions" ON public.email_suppressions
+  FOR DELETE USING (is_user_admin() OR (reason = 'manual' AND created_by = auth.uid()));
+
+CREATE TRIGGER update_email_suppressions_updated_at
+  BEFORE UPDATE ON public.email_suppressions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A hard bounce suppresses the address the email went to
+CREATE OR REPLACE FUNCTION public.suppress_bounced_email_address()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.email_suppressions (email, reason, notes, email_history_id, created_by)
+  SELECT lower(btrim(eh.recipient_email)), 'bounced', NEW.diagnostic, eh.id, NULL
+  FROM public.email_history eh
+  WHERE eh.id = NEW.email_history_id AND btrim(eh.recipient_email) <> ''
+  ON CONFLICT (email) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER suppress_bounced_email_address
+  AFTER INSERT ON public.inbound_emails
+  FOR EACH ROW
+  WHEN (NEW.kind = 'bounce' AND NEW.bounce_type = 'hard')
+  EXECUTE FUNCTION public.suppress_bounced_email_address();
+
+-- Keeps contacts.communication_preferences in step with the list (email_opt_out and its reason), and
+-- takes a newly suppressed address out of queued campaign emails and running sequences
+CREATE OR REPLACE FUNCTION public.apply_email_suppression()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    UPDATE public.contacts
+    SET communication_preferences = communication_preferences - 'email_opt_out' - 'email_opt_out_reason'
+    WHERE lower(btrim(email)) = OLD.email
+      AND communication_preferences ? 'email_opt_out';
+    RETURN OLD;
+  END IF;
+
+  UPDATE public.contacts
+  SET communication_preferences = COALESCE(communication_preferences, '{}'::jsonb)
+    || jsonb_build_object('email_opt_out', true, 'email_opt_out_reason', NEW.reason)
+  WHERE lower(btrim(email)) = NEW.email;
+
+  UPDATE public.email_campaign_recipients
+  SET status = 'cancelled', last_error = 'Address is on the suppression list (' || NEW.reason || ')'
+  WHERE status = 'pending' AND lower(btrim(recipient_email)) = NEW.email;
+
+  UPDATE public.email_sequence_enrollments
+  SET status = 'stopped', exited_at = now(), last_error = 'Address is on the suppression list (' || NEW.reason || ')'
+  WHERE status = 'active' AND lower(btrim(recipient_email)) = NEW.email;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_email_suppression
+  AFTER INSERT OR DELETE ON public.email_suppressions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_email_suppression();
@@ -0,0 +1,73 @@
+-- Lead statuses are configured in lead_statuses, so the hardcoded status list on leads
+-- is replaced by a lookup against that table
+ALTER TABLE public.leads DROP CONSTRAINT IF EXISTS lead_status_check;
+
+-- Statuses already in use on leads but missing from the table are added (inactive past the seeded list)
+-- so existing leads stay valid and admins can remap them from the pipeline settings
+INSERT INTO public.lead_statuses (status_name, status_order, is_active)
+SELECT used.lead_status,
+       (SELECT COALESCE(MAX(status_order), -1) FROM public.lead_statuses) + ROW_NUMBER() OVER (ORDER BY used.lead_status),
+       false
+FROM (SELECT DISTINCT lead_status FROM public.leads WHERE lead_status IS NOT NULL) used
+WHERE NOT EXISTS (SELECT 1 FROM public.lead_statuses WHERE status_name = used.lead_status);
+
+-- Reject leads whose status is not a configured lead status
+CREATE OR REPLACE FUNCTION public.validate_lead_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.lead_status IS NOT NULL
+     AND EXISTS (SELECT 1 FROM public.lead_statuses)
+     AND NOT EXISTS (SELECT 1 FROM public.lead_statuses WHERE status_name = NEW.lead_status) THEN
+    RAISE EXCEPTION 'Unknown lead status: %', NEW.lead_status USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_lead_status_trigger ON public.leads;
+CREATE TRIGGER validate_lead_status_trigger
+  BEFORE INSERT OR UPDATE OF lead_status ON public.leads
+  FOR EACH ROW EXECUTE FUNCTION public.validate_lead_status();
+
+-- Carry status renames over to the leads that hold that status
+CREATE OR REPLACE FUNCTION public.cascade_lead_status_rename()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status_name IS DISTINCT FROM OLD.status_name THEN
+    UPDATE public.leads SET lead_status = NEW.status_name WHERE lead_status = OLD.status_name;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS cascade_lead_status_rename_trigger ON public.lead_statuses;
+CREATE TRIGGER cascade_lead_status_rename_trigger
+  AFTER UPDATE OF status_name ON public.lead_statuses
+  FOR EACH ROW EXECUTE FUNCTION public.cascade_lead_status_rename();
+
+-- A status that leads still hold cannot be deleted; remap those leads first
+CREATE OR REPLACE FUNCTION public.prevent_lead_status_delete_in_use()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.leads WHERE lead_status = OLD.status_name) THEN
+    RAISE EXCEPTION 'Lead status "%" is still used by leads', OLD.status_name USING ERRCODE = 'foreign_key_violation';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_lead_status_delete_in_use_trigger ON public.lead_statuses;
+CREATE TRIGGER prevent_lead_status_delete_in_use_trigger
+  BEFORE DELETE ON public.lead_statuses
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_lead_status_delete_in_use();
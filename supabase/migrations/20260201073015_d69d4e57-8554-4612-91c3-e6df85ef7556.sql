@@ -0,0 +1,428 @@
+-- Rules-based lead scoring
+-- Admins configure scoring rules (field matches, email engagement, meetings held, recent activity and
+-- inactivity decay). Each lead's score (0-100) and the rules that produced it are stored on the lead
+-- and refreshed when the lead or its activity changes; every change of score is kept in score_history.
+
+CREATE TABLE IF NOT EXISTS public.scoring_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  entity_type TEXT NOT NULL DEFAULT 'leads' CHECK (entity_type IN ('leads')),
+  name TEXT NOT NULL,
+  rule_type TEXT NOT NULL CHECK (rule_type IN ('field_match', 'email_opens', 'email_clicks', 'meetings_held', 'recent_activity', 'inactivity_decay')),
+  -- field_match: the record field compared against match_values
+  field TEXT,
+  match_operator TEXT NOT NULL DEFAULT 'equals' CHECK (match_operator IN ('equals', 'contains')),
+  match_values TEXT[] NOT NULL DEFAULT '{}',
+  -- Points for a match, or per open / click / meeting / idle period; negative for decay
+  points INTEGER NOT NULL DEFAULT 0,
+  -- Cap on what a counted rule (or decay) can add or take away
+  max_points INTEGER CHECK (max_points IS NULL OR max_points >= 0),
+  -- recent_activity: activity window; inactivity_decay: length of one idle period
+  period_days INTEGER CHECK (period_days IS NULL OR period_days > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT scoring_rules_field_check CHECK (
+    rule_type <> 'field_match' OR field IN ('industry', 'country', 'position', 'contact_source', 'lead_status')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_scoring_rules_entity_type ON public.scoring_rules (entity_type, sort_order);
+
+ALTER TABLE public.scoring_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view scoring rules"
+  ON public.scoring_rules FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage scoring rules"
+  ON public.scoring_rules FOR ALL USING (is_user_admin());
+
+CREATE TRIGGER update_scoring_rules_updated_at
+  BEFORE UPDATE ON public.scoring_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.score_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  entity_type TEXT NOT NULL,
+  entity_id UUID NOT NULL,
+  score INTEGER NOT NULL,
+  previous_score INTEGER,
+  breakdown JSONB NOT NULL DEFAULT '[]'::jsonb,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_score_history_entity ON public.score_history (entity_type, entity_id, created_at DESC);
+
+ALTER TABLE public.score_history ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the scoring functions
+CREATE POLICY "Authenticated users can view score history"
+  ON public.score_history FOR SELECT USING (true);
+
+ALTER TABLE public.leads
+  ADD COLUMN IF NOT EXISTS score INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS score_breakdown JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS score_updated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_leads_score ON public.leads (score DESC);
+
+-- Default model; admins adjust it under Settings
+INSERT INTO public.scoring_rules (name, rule_type, field, match_operator, match_values, points, max_points, period_days, is_active, sort_order)
+VALUES
+  ('Target industry', 'field_match', 'industry', 'equals', ARRAY['Technology', 'Manufacturing', 'Automotive'], 15, NULL, NULL, true, 0),
+  ('Target country', 'field_match', 'country', 'equals', '{}', 10, NULL, NULL, false, 1),
+  ('Senior decision maker', 'field_match', 'position', 'contains', ARRAY['CEO', 'CTO', 'CFO', 'COO', 'Chief', 'Founder', 'Owner', 'President', 'VP', 'Director', 'Head'], 20, NULL, NULL, true, 2),
+  ('Email opens', 'email_opens', NULL, 'equals', '{}', 2, 10, NULL, true, 3),
+  ('Email clicks', 'email_clicks', NULL, 'equals', '{}', 5, 20, NULL, true, 4),
+  ('Meetings held', 'meetings_held', NULL, 'equals', '{}', 15, 30, NULL, true, 5),
+  ('Recent activity', 'recent_activity', NULL, 'equals', '{}', 15, NULL, 14, true, 6),
+  ('Inactivity decay', 'inactivity_decay', NULL, 'equals', '{}', -5, 25, 30, true, 7);
+
+-- Score of a lead under the active rules: {"score", "breakdown": [{"rule_id", "name", "rule_type", "points", "detail"}]}
+CREATE OR REPLACE FUNCTION public.calculate_lead_score(p_lead_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lead public.leads%ROWTYPE;
+  v_rule public.scoring_rules%ROWTYPE;
+  v_breakdown jsonb := '[]'::jsonb;
+  v_total integer := 0;
+  v_points integer;
+  v_detail text;
+  v_value text;
+  v_opens integer;
+  v_clicks integer;
+  v_meetings integer;
+  v_last_activity timestamptz;
+  v_idle_days integer;
+  v_periods integer;
+BEGIN
+  SELECT * INTO v_lead FROM public.leads WHERE id = p_lead_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(COALESCE(open_count, 0)), 0), COALESCE(SUM(COALESCE(click_count, 0)), 0)
+  INTO v_opens, v_clicks
+  FROM public.email_history
+  WHERE lead_id = p_lead_id;
+
+  SELECT count(*) INTO v_meetings
+  FROM public.meetings
+  WHERE lead_id = p_lead_id AND status <> 'cancelled' AND end_time <= now();
+
+  -- Latest touch point: logged activity, a meeting that has started, or an email sent, opened, clicked or answered
+  SELECT GREATEST(
+    (SELECT max(created_at) FROM public.lead_action_items WHERE lead_id = p_lead_id),
+    (SELECT max(start_time) FROM public.meetings WHERE lead_id = p_lead_id AND status <> 'cancelled' AND start_time <= now()),
+    (SELECT max(GREATEST(sent_at, opened_at, clicked_at, replied_at)) FROM public.email_history WHERE lead_id = p_lead_id),
+    (SELECT max(received_at) FROM public.inbound_emails WHERE lead_id = p_lead_id)
+  ) INTO v_last_activity;
+
+  -- Leads never touched decay from the day they were created
+  v_idle_days := floor(extract(epoch FROM now() - COALESCE(v_last_activity, v_lead.created_time, now())) / 86400);
+
+  FOR v_rule IN
+    SELECT * FROM public.scoring_rules
+    WHERE entity_type = 'leads' AND is_active
+    ORDER BY sort_order, created_at
+  LOOP
+    v_points := 0;
+    v_detail := NULL;
+
+    CASE v_rule.rule_type
+      WHEN 'field_match' THEN
+        v_value := to_jsonb(v_lead)->>v_rule.field;
+        IF NULLIF(trim(v_value), '') IS NOT NULL AND EXISTS (
+          SELECT 1 FROM unnest(v_rule.match_values) AS m(val)
+          WHERE CASE v_rule.match_operator
+            WHEN 'contains' THEN position(lower(trim(m.val)) IN lower(v_value)) > 0
+            ELSE lower(trim(m.val)) = lower(trim(v_value))
+          END
+        ) THEN
+          v_points := v_rule.points;
+          v_detail := format('%s is %s', initcap(replace(v_rule.field, '_', ' ')), trim(v_value));
+        END IF;
+      WHEN 'email_opens' THEN
+        v_points := v_opens * v_rule.points;
+        v_detail := format('%s email open(s)', v_opens);
+      WHEN 'email_clicks' THEN
+        v_points := v_clicks * v_rule.points;
+        v_detail := format('%s link click(s)', v_clicks);
+      WHEN 'meetings_held' THEN
+        v_points := v_meetings * v_rule.points;
+        v_detail := format('%s meeting(s) held', v_meetings);
+      WHEN 'recent_activity' THEN
+        IF v_last_activity > now() - make_interval(days => COALESCE(v_rule.period_days, 30)) THEN
+          v_points := v_rule.points;
+          v_detail := format('Last activity %s day(s) ago', v_idle_days);
+        END IF;
+      WHEN 'inactivity_decay' THEN
+        v_periods := v_idle_days / COALESCE(v_rule.period_days, 30);
+        v_points := v_periods * v_rule.points;
+        v_detail := format('%s day(s) without activity', v_idle_days);
+      ELSE
+        NULL;
+    END CASE;
+
+    IF v_rule.max_points IS NOT NULL THEN
+      v_points := CASE WHEN v_points < 0 THEN -LEAST(-v_points, v_rule.max_points) ELSE LEAST(v_points, v_rule.max_points) END;
+    END IF;
+
+    IF v_points <> 0 THEN
+      v_total := v_total + v_points;
+      v_breakdown := v_breakdown || jsonb_build_object(
+        'rule_id', v_rule.id,
+        'name', v_rule.name,
+        'rule_type', v_rule.rule_type,
+        'points', v_points,
+        'detail', v_detail
+      );
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('score', GREATEST(0, LEAST(v_total, 100)), 'breakdown', v_breakdown);
+END;
+$$;
+
+-- Stores a lead's current score and records the change in score_history
+CREATE OR REPLACE FUNCTION public.refresh_lead_score(p_lead_id uuid, p_reason text DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb := public.calculate_lead_score(p_lead_id);
+  v_score integer;
+  v_previous integer;
+BEGIN
+  IF v_result IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_score := (v_result->>'score')::integer;
+  SELECT score INTO v_previous FROM public.leads WHERE id = p_lead_id;
+
+  PERFORM set_config('crm.system_update', 'on', true);
+  UPDATE public.leads
+  SET score = v_score,
+      score_breakdown = v_result->'breakdown',
+      score_updated_at = now()
+  WHERE id = p_lead_id;
+  PERFORM set_config('crm.system_update', 'off', true);
+
+  IF v_score IS DISTINCT FROM v_previous THEN
+    INSERT INTO public.score_history (entity_type, entity_id, score, previous_score, breakdown, reason)
+    VALUES ('leads', p_lead_id, v_score, v_previous, v_result->'breakdown', p_reason);
+  END IF;
+
+  RETURN v_score;
+END;
+$$;
+
+-- Rescores every lead, after rule changes and nightly for decay. Returns how many scores changed.
+CREATE OR REPLACE FUNCTION public.recalculate_lead_scores(p_reason text DEFAULT 'Scoring rules changed')
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lead record;
+  v_changed integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can recalculate lead scores';
+  END IF;
+
+  FOR v_lead IN SELECT id, score FROM public.leads LOOP
+    IF public.refresh_lead_score(v_lead.id, p_reason) IS DISTINCT FROM v_lead.score THEN
+      v_changed := v_changed + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_changed;
+END;
+$$;
+
+-- Rescores the lead behind a changed lead, email, meeting, reply or logged activity
+CREATE OR REPLACE FUNCTION public.refresh_lead_score_on_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reason text;
+BEGIN
+  IF TG_TABLE_NAME = 'leads' THEN
+    PERFORM public.refresh_lead_score(NEW.id, CASE TG_OP WHEN 'INSERT' THEN 'Lead created' ELSE 'Lead details changed' END);
+    RETURN NULL;
+  END IF;
+
+  v_reason := CASE TG_TABLE_NAME
+    WHEN 'email_history' THEN 'Email engagement'
+    WHEN 'inbound_emails' THEN 'Email reply received'
+    WHEN 'meetings' THEN 'Meeting changed'
+    ELSE 'Activity logged'
+  END;
+
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.lead_id IS NOT NULL THEN
+      PERFORM public.refresh_lead_score(OLD.lead_id, v_reason);
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  IF NEW.lead_id IS NOT NULL THEN
+    PERFORM public.refresh_lead_score(NEW.lead_id, v_reason);
+  END IF;
+  IF TG_OP = 'UPDATE' AND OLD.lead_id IS NOT NULL AND OLD.lead_id IS DISTINCT FROM NEW.lead_id THEN
+    PERFORM public.refresh_lead_score(OLD.lead_id, v_reason);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_lead_score_trigger ON public.leads;
+CREATE TRIGGER refresh_lead_score_trigger
+  AFTER INSERT OR UPDATE OF industry, country, position, contact_source, lead_status ON public.leads
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_lead_score_on_change();
+
+DROP TRIGGER IF EXISTS refresh_lead_score_trigger ON public.email_history;
+CREATE TRIGGER refresh_lead_score_trigger
+  AFTER INSERT OR UPDATE OF open_count, click_count, replied_at, lead_id ON public.email_history
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_lead_score_on_change();
+
+DROP TRIGGER IF EXISTS refresh_lead_score_trigger ON public.inbound_emails;
+CREATE TRIGGER refresh_lead_score_trigger
+  AFTER INSERT ON public.inbound_emails
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_lead_score_on_change();
+
+DROP TRIGGER IF EXISTS refresh_lead_score_trigger ON public.meetings;
+CREATE TRIGGER refresh_lead_score_trigger
+  AFTER INSERT OR UPDATE OF status, start_time, end_time, lead_id OR DELETE ON public.meetings
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_lead_score_on_change();
+
+DROP TRIGGER IF EXISTS refresh_lead_score_trigger ON public.lead_action_items;
+CREATE TRIGGER refresh_lead_score_trigger
+  AFTER INSERT OR DELETE ON public.lead_action_items
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_lead_score_on_change();
+
+-- score_history is keyed by entity, so it is cleared with the lead
+CREATE OR REPLACE FUNCTION public.delete_lead_score_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.score_history WHERE entity_type = 'leads' AND entity_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS delete_lead_score_history_trigger ON public.leads;
+CREATE TRIGGER delete_lead_score_history_trigger
+  AFTER DELETE ON public.leads
+  FOR EACH ROW EXECUTE FUNCTION public.delete_lead_score_history();
+
+-- Score refreshes write to leads; they must not open approval requests
+CREATE OR REPLACE FUNCTION public.enforce_approval_workflows()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_workflow public.approval_workflows%ROWTYPE;
+  v_record jsonb := to_jsonb(NEW);
+  v_guard_field text := public.approval_guard_field(TG_TABLE_NAME);
+  v_new_value text;
+  v_old_value text;
+  v_held jsonb;
+  v_request_id uuid;
+BEGIN
+  -- Values the system maintains itself (scores and the like) never need approval
+  IF current_setting('crm.system_update', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  v_new_value := v_record->>v_guard_field;
+  IF TG_OP = 'UPDATE' THEN
+    v_old_value := to_jsonb(OLD)->>v_guard_field;
+  END IF;
+
+  FOR v_workflow IN
+    SELECT * FROM public.approval_workflows
+    WHERE entity_type = TG_TABLE_NAME AND is_enabled = true
+  LOOP
+    CONTINUE WHEN NOT public.approval_condition_matches(v_record, v_workflow.trigger_conditions);
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.approval_requests
+      WHERE workflow_id = v_workflow.id AND entity_id = NEW.id AND status = 'approved'
+    );
+
+    IF v_new_value IS DISTINCT FROM v_old_value
+       AND COALESCE(v_workflow.trigger_conditions->'guard_values', '[]'::jsonb) ? v_new_value THEN
+      IF TG_OP = 'INSERT' THEN
+        RAISE EXCEPTION 'Approval required: "%" needs approval from the "%" workflow. Save the record first, then request the change.',
+          v_new_value, v_workflow.name;
+      END IF;
+
+      v_held := jsonb_build_object(v_guard_field, v_new_value);
+      -- A deal's stage move also carries the new stage's probability
+      IF TG_TABLE_NAME = 'deals' AND (v_record->'probability') IS DISTINCT FROM (to_jsonb(OLD)->'probability') THEN
+        v_held := v_held || jsonb_build_object('probability', v_record->'probability');
+        NEW := jsonb_populate_record(NEW, jsonb_build_object('probability', to_jsonb(OLD)->'probability'));
+      END IF;
+      NEW := jsonb_populate_record(NEW, jsonb_build_object(v_guard_field, v_old_value));
+      v_record := to_jsonb(NEW);
+    ELSIF EXISTS (
+      -- Without a guarded change, a single open request per workflow is enough
+      SELECT 1 FROM public.approval_requests
+      WHERE workflow_id = v_workflow.id AND entity_id = NEW.id AND status IN ('pending', 'rejected')
+    ) THEN
+      CONTINUE;
+    ELSE
+      v_held := NULL;
+    END IF;
+
+    SELECT id INTO v_request_id
+    FROM public.approval_requests
+    WHERE workflow_id = v_workflow.id AND entity_id = NEW.id AND status = 'pending';
+
+    IF v_request_id IS NOT NULL THEN
+      UPDATE public.approval_requests
+      SET requested_changes = COALESCE(v_held, requested_changes)
+      WHERE id = v_request_id;
+    ELSE
+      INSERT INTO public.approval_requests (workflow_id, entity_type, entity_id, submitted_by, requested_changes)
+      VALUES (v_workflow.id, TG_TABLE_NAME, NEW.id, auth.uid(), v_held)
+      RETURNING id INTO v_request_id;
+
+      PERFORM public.notify_approval_step(v_request_id);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Score existing leads
+SELECT public.recalculate_lead_scores('Initial score');
+
+-- Apply inactivity decay and meetings that have since taken place once a day
+SELECT cron.schedule(
+  'recalculate-lead-scores',
+  '30 2 * * *',
+  $$SELECT public.recalculate_lead_scores('Daily recalculation')$$
+);
@@ -0,0 +1,491 @@
+-- Configurable, explainable account and contact scoring
+-- Accounts and contacts are scored by admin-editable scoring rules, like leads. The hardcoded
+-- calculate_account_score is replaced by one scoring engine for all three record types; each record keeps
+-- its score breakdown and every change of score is kept in score_history.
+
+ALTER TABLE public.scoring_rules
+  DROP CONSTRAINT IF EXISTS scoring_rules_entity_type_check,
+  DROP CONSTRAINT IF EXISTS scoring_rules_rule_type_check,
+  DROP CONSTRAINT IF EXISTS scoring_rules_field_check;
+
+ALTER TABLE public.scoring_rules
+  ADD CONSTRAINT scoring_rules_entity_type_check CHECK (entity_type IN ('leads', 'accounts', 'contacts')),
+  ADD CONSTRAINT scoring_rules_rule_type_check CHECK (
+    (entity_type = 'leads' AND rule_type IN (
+      'field_match', 'field_present', 'email_opens', 'email_clicks', 'meetings_held', 'recent_activity', 'inactivity_decay'
+    ))
+    OR (entity_type = 'accounts' AND rule_type IN (
+      'field_match', 'field_present', 'contact_count', 'activity_count', 'deals_won', 'email_opens', 'email_clicks',
+      'meetings_held', 'recent_activity', 'inactivity_decay'
+    ))
+    OR (entity_type = 'contacts' AND rule_type IN (
+      'field_match', 'field_present', 'activity_count', 'deals_won', 'email_opens', 'email_clicks', 'meetings_held',
+      'recent_activity', 'inactivity_decay'
+    ))
+  ),
+  -- field_match / field_present: the record fields a rule can look at
+  ADD CONSTRAINT scoring_rules_field_check CHECK (
+    rule_type NOT IN ('field_match', 'field_present')
+    OR (entity_type = 'leads' AND field IN (
+      'industry', 'country', 'position', 'contact_source', 'lead_status', 'email', 'phone_no', 'linkedin', 'website'
+    ))
+    OR (entity_type = 'accounts' AND field IN (
+      'industry', 'country', 'region', 'segment', 'company_type', 'status', 'email', 'phone', 'website'
+    ))
+    OR (entity_type = 'contacts' AND field IN (
+      'industry', 'region', 'position', 'contact_source', 'segment', 'email', 'phone_no', 'linkedin', 'website'
+    ))
+  );
+
+ALTER TABLE public.accounts
+  ADD COLUMN IF NOT EXISTS score_breakdown JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS score_updated_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.contacts
+  ADD COLUMN IF NOT EXISTS score_breakdown JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS score_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Default models; the account rules carry over the weights calculate_account_score had hardcoded
+INSERT INTO public.scoring_rules (entity_type, name, rule_type, field, match_operator, match_values, points, max_points, period_days, is_active, sort_order)
+VALUES
+  ('accounts', 'Contacts', 'contact_count', NULL, 'equals', '{}', 10, 30, NULL, true, 0),
+  ('accounts', 'Logged activities', 'activity_count', NULL, 'equals', '{}', 5, 30, NULL, true, 1),
+  ('accounts', 'Recent activity', 'recent_activity', NULL, 'equals', '{}', 20, NULL, 30, true, 2),
+  ('accounts', 'Has website', 'field_present', 'website', 'equals', '{}', 10, NULL, NULL, true, 3),
+  ('accounts', 'Has phone', 'field_present', 'phone', 'equals', '{}', 10, NULL, NULL, true, 4),
+  ('accounts', 'Won deals', 'deals_won', NULL, 'equals', '{}', 10, 20, NULL, true, 5),
+  ('accounts', 'Email clicks', 'email_clicks', NULL, 'equals', '{}', 2, 10, NULL, true, 6),
+  ('contacts', 'Senior decision maker', 'field_match', 'position', 'contains', ARRAY['CEO', 'CTO', 'CFO', 'COO', 'Chief', 'Founder', 'Owner', 'President', 'VP', 'Director', 'Head'], 20, NULL, NULL, true, 0),
+  ('contacts', 'Has phone', 'field_present', 'phone_no', 'equals', '{}', 5, NULL, NULL, true, 1),
+  ('contacts', 'Email opens', 'email_opens', NULL, 'equals', '{}', 2, 10, NULL, true, 2),
+  ('contacts', 'Email clicks', 'email_clicks', NULL, 'equals', '{}', 5, 20, NULL, true, 3),
+  ('contacts', 'Meetings held', 'meetings_held', NULL, 'equals', '{}', 15, 30, NULL, true, 4),
+  ('contacts', 'Logged activities', 'activity_count', NULL, 'equals', '{}', 5, 20, NULL, true, 5),
+  ('contacts', 'Won deals', 'deals_won', NULL, 'equals', '{}', 10, 20, NULL, true, 6),
+  ('contacts', 'Recent activity', 'recent_activity', NULL, 'equals', '{}', 15, NULL, 30, true, 7),
+  ('contacts', 'Inactivity decay', 'inactivity_decay', NULL, 'equals', '{}', -5, 25, 60, true, 8);
+
+-- The lead-only functions and the fixed account and contact formulas are replaced by the entity-aware ones below
+DROP TRIGGER IF EXISTS refresh_lead_score_trigger ON public.leads;
+DROP TRIGGER IF EXISTS refresh_lead_score_trigger ON public.email_history;
+DROP TRIGGER IF EXISTS refresh_lead_score_trigger ON public.inbound_emails;
+DROP TRIGGER IF EXISTS refresh_lead_score_trigger ON public.meetings;
+DROP TRIGGER IF EXISTS refresh_lead_score_trigger ON public.lead_action_items;
+DROP TRIGGER IF EXISTS delete_lead_score_history_trigger ON public.leads;
+DROP FUNCTION IF EXISTS public.refresh_lead_score_on_change();
+DROP FUNCTION IF EXISTS public.delete_lead_score_history();
+DROP FUNCTION IF EXISTS public.recalculate_lead_scores(text);
+DROP FUNCTION IF EXISTS public.refresh_lead_score(uuid, text);
+DROP FUNCTION IF EXISTS public.calculate_lead_score(uuid);
+DROP FUNCTION IF EXISTS public.calculate_account_score(uuid);
+DROP FUNCTION IF EXISTS public.calculate_contact_score(uuid);
+
+SELECT cron.unschedule('recalculate-lead-scores');
+
+-- Score of a lead, account or contact under the active rules:
+-- {"score", "breakdown": [{"rule_id", "name", "rule_type", "points", "detail"}]}
+CREATE OR REPLACE FUNCTION public.calculate_score(p_entity_type text, p_entity_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_record jsonb;
+  v_created timestamptz;
+  v_contact_ids uuid[] := '{}';
+  v_rule public.scoring_rules%ROWTYPE;
+  v_breakdown jsonb := '[]'::jsonb;
+  v_total integer := 0;
+  v_points integer;
+  v_detail text;
+  v_value text;
+  v_label text;
+  v_contacts integer := 0;
+  v_activities integer := 0;
+  v_deals_won integer := 0;
+  v_opens integer := 0;
+  v_clicks integer := 0;
+  v_meetings integer := 0;
+  v_last_activity timestamptz;
+  v_idle_days integer;
+  v_periods integer;
+BEGIN
+  CASE p_entity_type
+    WHEN 'leads' THEN
+      SELECT to_jsonb(l), l.created_time INTO v_record, v_created FROM public.leads l WHERE l.id = p_entity_id;
+    WHEN 'accounts' THEN
+      SELECT to_jsonb(a), a.created_at INTO v_record, v_created FROM public.accounts a WHERE a.id = p_entity_id;
+    WHEN 'contacts' THEN
+      SELECT to_jsonb(c), c.created_time INTO v_record, v_created FROM public.contacts c WHERE c.id = p_entity_id;
+    ELSE
+      RAISE EXCEPTION 'Unknown scoring entity type: %', p_entity_type;
+  END CASE;
+
+  IF v_record IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_entity_type = 'leads' THEN
+    SELECT COALESCE(SUM(COALESCE(open_count, 0)), 0), COALESCE(SUM(COALESCE(click_count, 0)), 0)
+    INTO v_opens, v_clicks
+    FROM public.email_history
+    WHERE lead_id = p_entity_id;
+
+    SELECT count(*) INTO v_meetings
+    FROM public.meetings
+    WHERE lead_id = p_entity_id AND status <> 'cancelled' AND end_time <= now();
+
+    -- Latest touch point: logged activity, a meeting that has started, or an email sent, opened, clicked or answered
+    SELECT GREATEST(
+      (SELECT max(created_at) FROM public.lead_action_items WHERE lead_id = p_entity_id),
+      (SELECT max(start_time) FROM public.meetings WHERE lead_id = p_entity_id AND status <> 'cancelled' AND start_time <= now()),
+      (SELECT max(GREATEST(sent_at, opened_at, clicked_at, replied_at)) FROM public.email_history WHERE lead_id = p_entity_id),
+      (SELECT max(received_at) FROM public.inbound_emails WHERE lead_id = p_entity_id)
+    ) INTO v_last_activity;
+  ELSE
+    -- An account's engagement is its own plus that of its contacts
+    IF p_entity_type = 'accounts' THEN
+      v_contact_ids := ARRAY(SELECT id FROM public.contacts WHERE account_id = p_entity_id);
+      v_contacts := cardinality(v_contact_ids);
+      SELECT count(*) INTO v_activities FROM public.account_activities WHERE account_id = p_entity_id;
+    ELSE
+      v_contact_ids := ARRAY[p_entity_id];
+      SELECT count(*) INTO v_activities FROM public.contact_activities WHERE contact_id = p_entity_id;
+    END IF;
+
+    SELECT count(*) INTO v_deals_won
+    FROM public.deals d
+    WHERE CASE WHEN p_entity_type = 'accounts' THEN d.account_id = p_entity_id ELSE d.contact_id = p_entity_id END
+      AND (
+        d.stage IN (SELECT stage_name FROM public.pipeline_stages WHERE is_won_stage)
+        OR (d.stage = 'Won' AND NOT EXISTS (SELECT 1 FROM public.pipeline_stages WHERE is_won_stage))
+      );
+
+    SELECT COALESCE(SUM(COALESCE(open_count, 0)), 0), COALESCE(SUM(COALESCE(click_count, 0)), 0)
+    INTO v_opens, v_clicks
+    FROM public.email_history
+    WHERE contact_id = ANY(v_contact_ids) OR (p_entity_type = 'accounts' AND account_id = p_entity_id);
+
+    SELECT count(*) INTO v_meetings
+    FROM public.meetings
+    WHERE contact_id = ANY(v_contact_ids) AND status <> 'cancelled' AND end_time <= now();
+
+    SELECT GREATEST(
+      (SELECT max(activity_date) FROM public.account_activities
+        WHERE p_entity_type = 'accounts' AND account_id = p_entity_id AND activity_date <= now()),
+      (SELECT max(activity_date) FROM public.contact_activities WHERE contact_id = ANY(v_contact_ids) AND activity_date <= now()),
+      (SELECT max(start_time) FROM public.meetings
+        WHERE contact_id = ANY(v_contact_ids) AND status <> 'cancelled' AND start_time <= now()),
+      (SELECT max(GREATEST(sent_at, opened_at, clicked_at, replied_at)) FROM public.email_history
+        WHERE contact_id = ANY(v_contact_ids) OR (p_entity_type = 'accounts' AND account_id = p_entity_id)),
+      (SELECT max(received_at) FROM public.inbound_emails
+        WHERE contact_id = ANY(v_contact_ids) OR (p_entity_type = 'accounts' AND account_id = p_entity_id)),
+      (v_record->>'last_contacted_at')::timestamptz
+    ) INTO v_last_activity;
+  END IF;
+
+  -- Records never touched decay from the day they were created
+  v_idle_days := floor(extract(epoch FROM now() - COALESCE(v_last_activity, v_created, now())) / 86400);
+
+  FOR v_rule IN
+    SELECT * FROM public.scoring_rules
+    WHERE entity_type = p_entity_type AND is_active
+    ORDER BY sort_order, created_at
+  LOOP
+    v_points := 0;
+    v_detail := NULL;
+    v_value := CASE WHEN v_rule.field IS NOT NULL THEN v_record->>v_rule.field END;
+    v_label := CASE v_rule.field WHEN 'phone_no' THEN 'Phone' ELSE initcap(replace(v_rule.field, '_', ' ')) END;
+
+    CASE v_rule.rule_type
+      WHEN 'field_match' THEN
+        IF NULLIF(trim(v_value), '') IS NOT NULL AND EXISTS (
+          SELECT 1 FROM unnest(v_rule.match_values) AS m(val)
+          WHERE CASE v_rule.match_operator
+            WHEN 'contains' THEN position(lower(trim(m.val)) IN lower(v_value)) > 0
+            ELSE lower(trim(m.val)) = lower(trim(v_value))
+          END
+        ) THEN
+          v_points := v_rule.points;
+          v_detail := format('%s is %s', v_label, trim(v_value));
+        END IF;
+      WHEN 'field_present' THEN
+        IF NULLIF(trim(v_value), '') IS NOT NULL THEN
+          v_points := v_rule.points;
+          v_detail := format('%s provided', v_label);
+        END IF;
+      WHEN 'contact_count' THEN
+        v_points := v_contacts * v_rule.points;
+        v_detail := format('%s contact(s)', v_contacts);
+      WHEN 'activity_count' THEN
+        v_points := v_activities * v_rule.points;
+        v_detail := format('%s activity log(s)', v_activities);
+      WHEN 'deals_won' THEN
+        v_points := v_deals_won * v_rule.points;
+        v_detail := format('%s won deal(s)', v_deals_won);
+      WHEN 'email_opens' THEN
+        v_points := v_opens * v_rule.points;
+        v_detail := format('%s email open(s)', v_opens);
+      WHEN 'email_clicks' THEN
+        v_points := v_clicks * v_rule.points;
+        v_detail := format('%s link click(s)', v_clicks);
+      WHEN 'meetings_held' THEN
+        v_points := v_meetings * v_rule.points;
+        v_detail := format('%s meeting(s) held', v_meetings);
+      WHEN 'recent_activity' THEN
+        IF v_last_activity > now() - make_interval(days => COALESCE(v_rule.period_days, 30)) THEN
+          v_points := v_rule.points;
+          v_detail := format('Last activity %s day(s) ago', v_idle_days);
+        END IF;
+      WHEN 'inactivity_decay' THEN
+        v_periods := v_idle_days / COALESCE(v_rule.period_days, 30);
+        v_points := v_periods * v_rule.points;
+        v_detail := format('%s day(s) without activity', v_idle_days);
+      ELSE
+        NULL;
+    END CASE;
+
+    IF v_rule.max_points IS NOT NULL THEN
+      v_points := CASE WHEN v_points < 0 THEN -LEAST(-v_points, v_rule.max_points) ELSE LEAST(v_points, v_rule.max_points) END;
+    END IF;
+
+    IF v_points <> 0 THEN
+      v_total := v_total + v_points;
+      v_breakdown := v_breakdown || jsonb_build_object(
+        'rule_id', v_rule.id,
+        'name', v_rule.name,
+        'rule_type', v_rule.rule_type,
+        'points', v_points,
+        'detail', v_detail
+      );
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('score', GREATEST(0, LEAST(v_total, 100)), 'breakdown', v_breakdown);
+END;
+$$;
+
+-- Stores a record's current score and records the change in score_history
+CREATE OR REPLACE FUNCTION public.refresh_score(p_entity_type text, p_entity_id uuid, p_reason text DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb := public.calculate_score(p_entity_type, p_entity_id);
+  v_score integer;
+  v_previous integer;
+BEGIN
+  IF v_result IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_score := (v_result->>'score')::integer;
+  EXECUTE format('SELECT score FROM public.%I WHERE id = $1', p_entity_type) INTO v_previous USING p_entity_id;
+
+  PERFORM set_config('crm.system_update', 'on', true);
+  EXECUTE format(
+    'UPDATE public.%I SET score = $1, score_breakdown = $2, score_updated_at = now() WHERE id = $3',
+    p_entity_type
+  ) USING v_score, v_result->'breakdown', p_entity_id;
+  PERFORM set_config('crm.system_update', 'off', true);
+
+  IF v_score IS DISTINCT FROM v_previous THEN
+    INSERT INTO public.score_history (entity_type, entity_id, score, previous_score, breakdown, reason)
+    VALUES (p_entity_type, p_entity_id, v_score, v_previous, v_result->'breakdown', p_reason);
+  END IF;
+
+  RETURN v_score;
+END;
+$$;
+
+-- Rescores every record of one type (all types when NULL), after rule changes and nightly for decay.
+-- Returns how many scores changed.
+CREATE OR REPLACE FUNCTION public.recalculate_scores(p_entity_type text DEFAULT NULL, p_reason text DEFAULT 'Scoring rules changed')
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entity_type text;
+  v_record record;
+  v_changed integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can recalculate scores';
+  END IF;
+
+  FOREACH v_entity_type IN ARRAY ARRAY['leads', 'accounts', 'contacts'] LOOP
+    CONTINUE WHEN p_entity_type IS NOT NULL AND p_entity_type <> v_entity_type;
+
+    FOR v_record IN EXECUTE format('SELECT id, score FROM public.%I', v_entity_type) LOOP
+      IF public.refresh_score(v_entity_type, v_record.id, p_reason) IS DISTINCT FROM v_record.score THEN
+        v_changed := v_changed + 1;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_changed;
+END;
+$$;
+
+-- Rescores the records behind a changed lead, account, contact, deal, email, meeting or logged activity.
+-- Activity on a contact also counts towards its account.
+CREATE OR REPLACE FUNCTION public.refresh_score_on_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reason text;
+  v_row jsonb;
+  v_lead_ids uuid[] := '{}';
+  v_contact_ids uuid[] := '{}';
+  v_account_ids uuid[] := '{}';
+  v_id uuid;
+BEGIN
+  v_reason := CASE TG_TABLE_NAME
+    WHEN 'leads' THEN CASE TG_OP WHEN 'INSERT' THEN 'Lead created' ELSE 'Lead details changed' END
+    WHEN 'accounts' THEN CASE TG_OP WHEN 'INSERT' THEN 'Account created' ELSE 'Account details changed' END
+    WHEN 'contacts' THEN CASE TG_OP WHEN 'INSERT' THEN 'Contact created' WHEN 'DELETE' THEN 'Contact removed' ELSE 'Contact details changed' END
+    WHEN 'deals' THEN 'Deal changed'
+    WHEN 'email_history' THEN 'Email engagement'
+    WHEN 'inbound_emails' THEN 'Email reply received'
+    WHEN 'meetings' THEN 'Meeting changed'
+    ELSE 'Activity logged'
+  END;
+
+  FOREACH v_row IN ARRAY ARRAY[
+    CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END,
+    CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END
+  ] LOOP
+    CONTINUE WHEN v_row IS NULL;
+
+    CASE TG_TABLE_NAME
+      WHEN 'leads' THEN
+        v_lead_ids := v_lead_ids || (v_row->>'id')::uuid;
+      WHEN 'accounts' THEN
+        v_account_ids := v_account_ids || (v_row->>'id')::uuid;
+      WHEN 'contacts' THEN
+        v_contact_ids := v_contact_ids || (v_row->>'id')::uuid;
+      ELSE
+        IF v_row->>'lead_id' IS NOT NULL THEN
+          v_lead_ids := v_lead_ids || (v_row->>'lead_id')::uuid;
+        END IF;
+        IF v_row->>'contact_id' IS NOT NULL THEN
+          v_contact_ids := v_contact_ids || (v_row->>'contact_id')::uuid;
+        END IF;
+    END CASE;
+
+    IF v_row->>'account_id' IS NOT NULL THEN
+      v_account_ids := v_account_ids || (v_row->>'account_id')::uuid;
+    END IF;
+  END LOOP;
+
+  -- Deleted contacts are gone; only their account is rescored
+  IF TG_TABLE_NAME = 'contacts' AND TG_OP = 'DELETE' THEN
+    v_contact_ids := '{}';
+  END IF;
+
+  v_account_ids := v_account_ids || ARRAY(
+    SELECT account_id FROM public.contacts WHERE id = ANY(v_contact_ids) AND account_id IS NOT NULL
+  );
+
+  FOR v_id IN SELECT DISTINCT unnest(v_lead_ids) LOOP
+    PERFORM public.refresh_score('leads', v_id, v_reason);
+  END LOOP;
+  FOR v_id IN SELECT DISTINCT unnest(v_contact_ids) LOOP
+    PERFORM public.refresh_score('contacts', v_id, v_reason);
+  END LOOP;
+  FOR v_id IN SELECT DISTINCT unnest(v_account_ids) LOOP
+    PERFORM public.refresh_score('accounts', v_id, v_reason);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_score_trigger
+  AFTER INSERT OR UPDATE OF industry, country, position, contact_source, lead_status, email, phone_no, linkedin, website
+  ON public.leads
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_score_on_change();
+
+CREATE TRIGGER refresh_score_trigger
+  AFTER INSERT OR UPDATE OF industry, country, region, segment, company_type, status, email, phone, website
+  ON public.accounts
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_score_on_change();
+
+CREATE TRIGGER refresh_score_trigger
+  AFTER INSERT OR UPDATE OF industry, region, position, contact_source, segment, email, phone_no, linkedin, website,
+    last_contacted_at, account_id OR DELETE
+  ON public.contacts
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_score_on_change();
+
+CREATE TRIGGER refresh_score_trigger
+  AFTER INSERT OR UPDATE OF stage, account_id, contact_id OR DELETE ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_score_on_change();
+
+CREATE TRIGGER refresh_score_trigger
+  AFTER INSERT OR UPDATE OF open_count, click_count, replied_at, lead_id, contact_id, account_id ON public.email_history
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_score_on_change();
+
+CREATE TRIGGER refresh_score_trigger
+  AFTER INSERT ON public.inbound_emails
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_score_on_change();
+
+CREATE TRIGGER refresh_score_trigger
+  AFTER INSERT OR UPDATE OF status, start_time, end_time, lead_id, contact_id OR DELETE ON public.meetings
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_score_on_change();
+
+CREATE TRIGGER refresh_score_trigger
+  AFTER INSERT OR DELETE ON public.lead_action_items
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_score_on_change();
+
+CREATE TRIGGER refresh_score_trigger
+  AFTER INSERT OR UPDATE OF activity_date, account_id OR DELETE ON public.account_activities
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_score_on_change();
+
+CREATE TRIGGER refresh_score_trigger
+  AFTER INSERT OR UPDATE OF activity_date, contact_id OR DELETE ON public.contact_activities
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_score_on_change();
+
+-- score_history is keyed by entity, so it is cleared with the record
+CREATE OR REPLACE FUNCTION public.delete_score_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.score_history WHERE entity_type = TG_TABLE_NAME AND entity_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER delete_score_history_trigger
+  AFTER DELETE ON public.leads
+  FOR EACH ROW EXECUTE FUNCTION public.delete_score_history();
+
+CREATE TRIGGER delete_score_history_trigger
+  AFTER DELETE ON public.accounts
+  FOR EACH ROW EXECUTE FUNCTION public.delete_score_history();
+
+CREATE TRIGGER delete_score_history_trigger
+  AFTER DELETE ON public.contacts
+  FOR EACH ROW EXECUTE FUNCTION public.delete_score_history();
+
+-- Score existing accounts and contacts
+SELECT public.recalculate_scores('accounts', 'Initial score');
+SELECT public.recalculate_scores('contacts', 'Initial score');
+
+-- Apply inactivity decay and meetings that have since taken place once a day
+SELECT cron.schedule(
+  'recalculate-scores',
+  '30 2 * * *',
+  $$SELECT public.recalculate_scores(NULL, 'Daily recalculation')$$
+);
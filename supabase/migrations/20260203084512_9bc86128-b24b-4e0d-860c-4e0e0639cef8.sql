@@ -0,0 +1,248 @@
+-- Lead assignment rules and round-robin routing
+-- New leads without an owner are routed to a user by the first active assignment rule they match
+-- (country, industry, source, company size), round-robin or to the least loaded of the rule's users.
+-- Every routing is kept in lead_assignment_log and the new owner gets a lead_assigned notification.
+
+ALTER TABLE public.leads
+  ADD COLUMN IF NOT EXISTS company_size TEXT;
+
+CREATE TABLE IF NOT EXISTS public.lead_assignment_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- Conditions; an empty list matches any value
+  countries TEXT[] NOT NULL DEFAULT '{}',
+  industries TEXT[] NOT NULL DEFAULT '{}',
+  sources TEXT[] NOT NULL DEFAULT '{}',
+  company_sizes TEXT[] NOT NULL DEFAULT '{}',
+  distribution_method TEXT NOT NULL DEFAULT 'round_robin' CHECK (distribution_method IN ('round_robin', 'load_balanced')),
+  assignee_ids UUID[] NOT NULL DEFAULT '{}',
+  -- Round-robin position: the user who got the rule's previous lead
+  last_assigned_to UUID,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  priority INTEGER NOT NULL DEFAULT 0,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_assignment_rules_priority ON public.lead_assignment_rules (priority, created_at);
+
+ALTER TABLE public.lead_assignment_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view lead assignment rules"
+  ON public.lead_assignment_rules FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage lead assignment rules"
+  ON public.lead_assignment_rules FOR ALL USING (is_user_admin());
+
+CREATE TRIGGER update_lead_assignment_rules_updated_at
+  BEFORE UPDATE ON public.lead_assignment_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The rule that routed a lead, read by the audit trigger after insert
+ALTER TABLE public.leads
+  ADD COLUMN IF NOT EXISTS assignment_rule_id UUID REFERENCES public.lead_assignment_rules(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS public.lead_assignment_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  rule_id UUID REFERENCES public.lead_assignment_rules(id) ON DELETE SET NULL,
+  -- Kept so the log still reads after a rule is renamed or deleted
+  rule_name TEXT NOT NULL,
+  assigned_to UUID NOT NULL,
+  distribution_method TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  -- Whoever created or imported the lead
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_assignment_log_created_at ON public.lead_assignment_log (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lead_assignment_log_lead_id ON public.lead_assignment_log (lead_id);
+
+ALTER TABLE public.lead_assignment_log ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the routing trigger
+CREATE POLICY "Authenticated users can view lead assignment log"
+  ON public.lead_assignment_log FOR SELECT USING (true);
+
+-- Case-insensitive membership; an empty list matches anything
+CREATE OR REPLACE FUNCTION public.assignment_values_match(p_values text[], p_value text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT cardinality(p_values) = 0
+    OR EXISTS (
+      SELECT 1 FROM unnest(p_values) AS v(val)
+      WHERE lower(trim(v.val)) = lower(trim(p_value))
+    );
+$$;
+
+-- Values a lead is routed on; leads without their own country or industry use their account's
+CREATE OR REPLACE FUNCTION public.lead_routing_values(p_lead public.leads)
+RETURNS TABLE (country text, industry text, source text, company_size text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(NULLIF(trim(p_lead.country), ''), a.country),
+    COALESCE(NULLIF(trim(p_lead.industry), ''), a.industry),
+    NULLIF(trim(p_lead.contact_source), ''),
+    NULLIF(trim(p_lead.company_size), '')
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.accounts a ON a.id = p_lead.account_id;
+$$;
+
+-- Sets the owner of an unowned new lead from the first matching assignment rule
+CREATE OR REPLACE FUNCTION public.route_new_lead()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_values record;
+  v_rule public.lead_assignment_rules%ROWTYPE;
+  v_assignees uuid[];
+  v_last uuid;
+  v_assignee uuid;
+BEGIN
+  IF NEW.contact_owner IS NOT NULL THEN
+    NEW.assignment_rule_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_values FROM public.lead_routing_values(NEW);
+
+  FOR v_rule IN
+    SELECT * FROM public.lead_assignment_rules
+    WHERE is_active
+    ORDER BY priority, created_at
+  LOOP
+    CONTINUE WHEN NOT (
+      public.assignment_values_match(v_rule.countries, v_values.country)
+      AND public.assignment_values_match(v_rule.industries, v_values.industry)
+      AND public.assignment_values_match(v_rule.sources, v_values.source)
+      AND public.assignment_values_match(v_rule.company_sizes, v_values.company_size)
+    );
+
+    -- Users that have since been removed are skipped
+    v_assignees := ARRAY(
+      SELECT a.id
+      FROM unnest(v_rule.assignee_ids) WITH ORDINALITY AS a(id, pos)
+      WHERE EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = a.id)
+      ORDER BY a.pos
+    );
+    CONTINUE WHEN cardinality(v_assignees) = 0;
+
+    IF v_rule.distribution_method = 'load_balanced' THEN
+      -- Fewest open (not converted) leads; ties go to the user listed first
+      SELECT a.id INTO v_assignee
+      FROM unnest(v_assignees) WITH ORDINALITY AS a(id, pos)
+      ORDER BY (
+        SELECT count(*) FROM public.leads l
+        WHERE l.contact_owner = a.id
+          AND (l.lead_status IS NULL OR l.lead_status <> ALL (
+            ARRAY(SELECT status_name FROM public.lead_statuses WHERE is_converted_status)
+          ))
+      ), a.pos
+      LIMIT 1;
+    ELSE
+      -- Lock the rule so concurrent inserts take consecutive turns
+      SELECT last_assigned_to INTO v_last
+      FROM public.lead_assignment_rules
+      WHERE id = v_rule.id
+      FOR UPDATE;
+
+      SELECT a.id INTO v_assignee
+      FROM unnest(v_assignees) WITH ORDINALITY AS a(id, pos)
+      ORDER BY (a.pos <= COALESCE(array_position(v_assignees, v_last), 0)), a.pos
+      LIMIT 1;
+    END IF;
+
+    UPDATE public.lead_assignment_rules SET last_assigned_to = v_assignee WHERE id = v_rule.id;
+
+    NEW.contact_owner := v_assignee;
+    NEW.assignment_rule_id := v_rule.id;
+    RETURN NEW;
+  END LOOP;
+
+  NEW.assignment_rule_id := NULL;
+  RETURN NEW;
+END;
+$$;
+
+-- Records why a routed lead went to its owner and lets the owner know
+CREATE OR REPLACE FUNCTION public.log_lead_assignment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rule public.lead_assignment_rules%ROWTYPE;
+  v_values record;
+  v_matched text[] := '{}';
+  v_reason text;
+BEGIN
+  SELECT * INTO v_rule FROM public.lead_assignment_rules WHERE id = NEW.assignment_rule_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_values FROM public.lead_routing_values(NEW);
+
+  IF cardinality(v_rule.countries) > 0 THEN
+    v_matched := v_matched || format('country %s', v_values.country);
+  END IF;
+  IF cardinality(v_rule.industries) > 0 THEN
+    v_matched := v_matched || format('industry %s', v_values.industry);
+  END IF;
+  IF cardinality(v_rule.sources) > 0 THEN
+    v_matched := v_matched || format('source %s', v_values.source);
+  END IF;
+  IF cardinality(v_rule.company_sizes) > 0 THEN
+    v_matched := v_matched || format('company size %s', v_values.company_size);
+  END IF;
+
+  v_reason := format(
+    '%s; %s',
+    CASE WHEN cardinality(v_matched) = 0 THEN 'Matched catch-all rule'
+         ELSE 'Matched ' || array_to_string(v_matched, ', ') END,
+    CASE v_rule.distribution_method WHEN 'load_balanced' THEN 'fewest open leads' ELSE 'next in round-robin' END
+  );
+
+  INSERT INTO public.lead_assignment_log (lead_id, rule_id, rule_name, assigned_to, distribution_method, reason, created_by)
+  VALUES (NEW.id, v_rule.id, v_rule.name, NEW.contact_owner, v_rule.distribution_method, v_reason, COALESCE(auth.uid(), NEW.created_by));
+
+  INSERT INTO public.notifications (user_id, message, notification_type, lead_id)
+  SELECT NEW.contact_owner,
+         format('New lead assigned to you: %s (%s)', NEW.lead_name, v_rule.name),
+         'lead_assigned',
+         NEW.id
+  WHERE NEW.contact_owner IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notification_preferences np
+      WHERE np.user_id = NEW.contact_owner
+        AND (np.lead_assigned = false OR np.in_app_notifications = false)
+    );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS route_new_lead_trigger ON public.leads;
+CREATE TRIGGER route_new_lead_trigger
+  BEFORE INSERT ON public.leads
+  FOR EACH ROW EXECUTE FUNCTION public.route_new_lead();
+
+DROP TRIGGER IF EXISTS log_lead_assignment_trigger ON public.leads;
+CREATE TRIGGER log_lead_assignment_trigger
+  AFTER INSERT ON public.leads
+  FOR EACH ROW
+  WHEN (NEW.assignment_rule_id IS NOT NULL)
+  EXECUTE FUNCTION public.log_lead_assignment();
@@ -0,0 +1,133 @@
+-- Full lead conversion
+-- Converting a lead now creates or reuses an account, creates a contact and a deal linked to both,
+-- and moves the lead's action items, meetings and emails over. lead_conversions keeps the link
+-- from the original lead to everything it became.
+
+CREATE TABLE IF NOT EXISTS public.lead_conversions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- A lead converts once
+  lead_id UUID NOT NULL UNIQUE REFERENCES public.leads(id) ON DELETE CASCADE,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  deal_id UUID REFERENCES public.deals(id) ON DELETE SET NULL,
+  -- False when the lead was matched to an account that already existed
+  account_created BOOLEAN NOT NULL DEFAULT false,
+  contact_created BOOLEAN NOT NULL DEFAULT true,
+  action_items_moved INTEGER NOT NULL DEFAULT 0,
+  meetings_moved INTEGER NOT NULL DEFAULT 0,
+  emails_moved INTEGER NOT NULL DEFAULT 0,
+  converted_by UUID,
+  converted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_conversions_account_id ON public.lead_conversions (account_id);
+CREATE INDEX IF NOT EXISTS idx_lead_conversions_contact_id ON public.lead_conversions (contact_id);
+CREATE INDEX IF NOT EXISTS idx_lead_conversions_deal_id ON public.lead_conversions (deal_id);
+
+ALTER TABLE public.lead_conversions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by complete_lead_conversion
+CREATE POLICY "Authenticated users can view lead conversions"
+  ON public.lead_conversions FOR SELECT USING (true);
+
+-- Moving action items to a deal isn't something their assignees need to hear about as a deletion
+DROP TRIGGER IF EXISTS action_item_notification_trigger ON public.lead_action_items;
+CREATE TRIGGER action_item_notification_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.lead_action_items
+  FOR EACH ROW
+  WHEN (current_setting('crm.system_update', true) IS DISTINCT FROM 'on')
+  EXECUTE FUNCTION public.create_action_item_notification();
+
+-- Finishes a conversion once the account, contact and deal exist: moves the lead's action items to the
+-- deal and its meetings and emails to the contact, links the lead to the account, marks it converted
+-- and records the conversion. Runs as one transaction so a lead is never left half converted.
+-- Meetings and emails are often owned by other users, hence SECURITY DEFINER with an explicit check.
+CREATE OR REPLACE FUNCTION public.complete_lead_conversion(
+  p_lead_id uuid,
+  p_account_id uuid,
+  p_contact_id uuid,
+  p_deal_id uuid,
+  p_account_created boolean DEFAULT false,
+  p_contact_created boolean DEFAULT true,
+  p_lead_status text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lead public.leads%ROWTYPE;
+  v_action_items integer;
+  v_meetings integer;
+  v_emails integer;
+BEGIN
+  SELECT * INTO v_lead FROM public.leads WHERE id = p_lead_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lead not found';
+  END IF;
+
+  IF NOT (is_user_admin() OR v_lead.created_by = auth.uid() OR v_lead.contact_owner = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the lead''s owner or an admin can convert it' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.lead_conversions WHERE lead_id = p_lead_id) THEN
+    RAISE EXCEPTION 'Lead "%" has already been converted', v_lead.lead_name USING ERRCODE = 'unique_violation';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.deals WHERE id = p_deal_id AND lead_id = p_lead_id) THEN
+    RAISE EXCEPTION 'Deal was not created from this lead';
+  END IF;
+
+  PERFORM set_config('crm.system_update', 'on', true);
+
+  WITH moved AS (
+    DELETE FROM public.lead_action_items
+    WHERE lead_id = p_lead_id
+    RETURNING next_action, status, due_date, assigned_to, created_by, created_at
+  )
+  INSERT INTO public.deal_action_items (deal_id, next_action, status, due_date, assigned_to, created_by, created_at)
+  SELECT p_deal_id, next_action, status, due_date, assigned_to, created_by, created_at
+  FROM moved;
+  GET DIAGNOSTICS v_action_items = ROW_COUNT;
+
+  UPDATE public.meetings
+  SET contact_id = COALESCE(contact_id, p_contact_id), lead_id = NULL
+  WHERE lead_id = p_lead_id;
+  GET DIAGNOSTICS v_meetings = ROW_COUNT;
+
+  UPDATE public.email_history
+  SET contact_id = COALESCE(contact_id, p_contact_id),
+      account_id = COALESCE(account_id, p_account_id),
+      lead_id = NULL
+  WHERE lead_id = p_lead_id;
+  GET DIAGNOSTICS v_emails = ROW_COUNT;
+
+  PERFORM set_config('crm.system_update', 'off', true);
+
+  -- A guarded converted status is held for approval like any other status change
+  UPDATE public.leads
+  SET account_id = COALESCE(p_account_id, account_id),
+      lead_status = COALESCE(p_lead_status, lead_status),
+      modified_by = auth.uid(),
+      modified_time = now()
+  WHERE id = p_lead_id
+  RETURNING * INTO v_lead;
+
+  INSERT INTO public.lead_conversions (
+    lead_id, account_id, contact_id, deal_id, account_created, contact_created,
+    action_items_moved, meetings_moved, emails_moved, converted_by
+  )
+  VALUES (
+    p_lead_id, p_account_id, p_contact_id, p_deal_id, p_account_created, p_contact_created,
+    v_action_items, v_meetings, v_emails, auth.uid()
+  );
+
+  RETURN jsonb_build_object(
+    'lead_status', v_lead.lead_status,
+    'action_items_moved', v_action_items,
+    'meetings_moved', v_meetings,
+    'emails_moved', v_emails
+  );
+END;
+$$;
@@ -0,0 +1,37 @@
+-- Stage configuration lives on pipeline_stages: what a closing stage records about the outcome
+-- (won, lost or dropped) and which deal fields a deal must have filled in at the stage.
+ALTER TABLE public.pipeline_stages
+  ADD COLUMN IF NOT EXISTS outcome TEXT,
+  ADD COLUMN IF NOT EXISTS required_fields TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.pipeline_stages
+  DROP CONSTRAINT IF EXISTS pipeline_stages_outcome_check;
+ALTER TABLE public.pipeline_stages
+  ADD CONSTRAINT pipeline_stages_outcome_check CHECK (outcome IN ('won', 'lost', 'dropped'));
+
+-- Closing stages keep their current behaviour: the first lost stage asks why the deal was lost,
+-- later ones (Dropped by default) ask for a drop reason
+UPDATE public.pipeline_stages SET outcome = 'won'
+WHERE is_won_stage AND outcome IS NULL;
+
+UPDATE public.pipeline_stages ps SET outcome = CASE
+    WHEN ps.id = (
+      SELECT id FROM public.pipeline_stages WHERE is_lost_stage ORDER BY stage_order, created_at LIMIT 1
+    ) THEN 'lost'
+    ELSE 'dropped'
+  END
+WHERE ps.is_lost_stage AND ps.outcome IS NULL;
+
+-- Required fields of the default stages, for the rows that still carry their default name
+UPDATE public.pipeline_stages ps SET required_fields = d.fields
+FROM (VALUES
+  ('Lead', ARRAY['project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority']),
+  ('Discussions', ARRAY['customer_need', 'relationship_strength', 'internal_comment']),
+  ('Qualified', ARRAY['customer_challenges', 'budget', 'probability', 'expected_closing_date', 'is_recurring', 'internal_comment']),
+  ('RFQ', ARRAY['total_contract_value', 'currency_type', 'start_date', 'end_date', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items', 'internal_comment']),
+  ('Offered', ARRAY['business_value', 'decision_maker_level', 'current_status', 'closing']),
+  ('Won', ARRAY['won_reason', 'start_date', 'total_revenue', 'signed_contract_date', 'handoff_status']),
+  ('Lost', ARRAY['lost_reason', 'need_improvement']),
+  ('Dropped', ARRAY['drop_reason'])
+) AS d(stage_name, fields)
+WHERE ps.stage_name = d.stage_name AND ps.required_fields = '{}';
@@ -0,0 +1,97 @@
+-- An approved request lets the change it was held for through once. Before, an approved request
+-- exempted its record from the workflow for good, so every later guarded change went through
+-- without approval.
+
+-- When the approved change was written to the record; an approval lets its change through only once
+ALTER TABLE public.approval_requests
+  ADD COLUMN IF NOT EXISTS applied_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION public.enforce_approval_workflows()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_workflow public.approval_workflows%ROWTYPE;
+  v_record jsonb := to_jsonb(NEW);
+  v_guard_field text := public.approval_guard_field(TG_TABLE_NAME);
+  v_new_value text;
+  v_old_value text;
+  v_held jsonb;
+  v_request_id uuid;
+BEGIN
+  -- Values the system maintains itself (scores and the like) never need approval
+  IF current_setting('crm.system_update', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  v_new_value := v_record->>v_guard_field;
+  IF TG_OP = 'UPDATE' THEN
+    v_old_value := to_jsonb(OLD)->>v_guard_field;
+  END IF;
+
+  FOR v_workflow IN
+    SELECT * FROM public.approval_workflows
+    WHERE entity_type = TG_TABLE_NAME AND is_enabled = true
+  LOOP
+    CONTINUE WHEN NOT public.approval_condition_matches(v_record, v_workflow.trigger_conditions);
+
+    IF v_new_value IS DISTINCT FROM v_old_value
+       AND COALESCE(v_workflow.trigger_conditions->'guard_values', '[]'::jsonb) ? v_new_value THEN
+      -- The change an approved request was held for goes through once; the request is then used up
+      UPDATE public.approval_requests
+      SET applied_at = now()
+      WHERE id = (
+        SELECT id FROM public.approval_requests
+        WHERE workflow_id = v_workflow.id AND entity_id = NEW.id AND status = 'approved'
+          AND applied_at IS NULL AND requested_changes->>v_guard_field = v_new_value
+        ORDER BY completed_at DESC
+        LIMIT 1
+      )
+      RETURNING id INTO v_request_id;
+      CONTINUE WHEN v_request_id IS NOT NULL;
+
+      IF TG_OP = 'INSERT' THEN
+        RAISE EXCEPTION 'Approval required: "%" needs approval from the "%" workflow. Save the record first, then request the change.',
+          v_new_value, v_workflow.name;
+      END IF;
+
+      v_held := jsonb_build_object(v_guard_field, v_new_value);
+      -- A deal's stage move also carries the new stage's probability
+      IF TG_TABLE_NAME = 'deals' AND (v_record->'probability') IS DISTINCT FROM (to_jsonb(OLD)->'probability') THEN
+        v_held := v_held || jsonb_build_object('probability', v_record->'probability');
+        NEW := jsonb_populate_record(NEW, jsonb_build_object('probability', to_jsonb(OLD)->'probability'));
+      END IF;
+      NEW := jsonb_populate_record(NEW, jsonb_build_object(v_guard_field, v_old_value));
+      v_record := to_jsonb(NEW);
+    ELSIF EXISTS (
+      -- Without a guarded change, a single request per workflow is enough
+      SELECT 1 FROM public.approval_requests
+      WHERE workflow_id = v_workflow.id AND entity_id = NEW.id
+    ) THEN
+      CONTINUE;
+    ELSE
+      v_held := NULL;
+    END IF;
+
+    SELECT id INTO v_request_id
+    FROM public.approval_requests
+    WHERE workflow_id = v_workflow.id AND entity_id = NEW.id AND status = 'pending';
+
+    IF v_request_id IS NOT NULL THEN
+      UPDATE public.approval_requests
+      SET requested_changes = COALESCE(v_held, requested_changes)
+      WHERE id = v_request_id;
+    ELSE
+      INSERT INTO public.approval_requests (workflow_id, entity_type, entity_id, submitted_by, requested_changes)
+      VALUES (v_workflow.id, TG_TABLE_NAME, NEW.id, auth.uid(), v_held)
+      RETURNING id INTO v_request_id;
+
+      PERFORM public.notify_approval_step(v_request_id);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,7 @@
+-- Approval requests and actions are only written by enforce_approval_workflows and
+-- act_on_approval_request, which run as SECURITY DEFINER. The original policies let a submitter
+-- insert or update their own request with any status or requested changes, and anyone insert
+-- actions under their own name, so a change could be approved without an approver.
+DROP POLICY IF EXISTS "Users can create approval requests" ON public.approval_requests;
+DROP POLICY IF EXISTS "Admins and approvers can update approval requests" ON public.approval_requests;
+DROP POLICY IF EXISTS "Approvers can create approval actions" ON public.approval_actions;
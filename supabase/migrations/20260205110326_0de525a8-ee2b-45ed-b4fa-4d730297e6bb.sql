@@ -0,0 +1,16 @@
+-- Report schedules run at their time of day in their own time zone, and report run history
+-- is only visible to the schedule's owner and admins.
+
+-- time_of_day is wall-clock time in this IANA time zone
+ALTER TABLE public.report_schedules
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC';
+
+DROP POLICY IF EXISTS "Authenticated users can view report runs" ON public.report_runs;
+
+CREATE POLICY "Report owners can view their report runs" ON public.report_runs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.report_schedules rs
+      WHERE rs.id = report_runs.schedule_id AND rs.created_by = auth.uid()
+    )
+  );
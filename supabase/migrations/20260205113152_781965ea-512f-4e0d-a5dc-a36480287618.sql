@@ -0,0 +1,6 @@
+-- Backups record the schedule that produced them, so a schedule's retention only prunes its own backups
+
+ALTER TABLE public.backups
+  ADD COLUMN IF NOT EXISTS schedule_id UUID REFERENCES public.backup_schedules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_backups_schedule_id ON public.backups (schedule_id, created_at);
@@ -0,0 +1,79 @@
+-- Backup restores put records back as they were, so approval workflows must not hold their
+-- guarded values or open requests for them. restore-backup writes through restore_backup_rows,
+-- which turns crm.restore on for its own transaction only; every other writer, the service role
+-- included, still goes through the approval triggers.
+
+-- Upserts backup rows into a table by id. Only the columns present in the rows are written, so
+-- columns added since the backup was taken keep their defaults on insert and their values on update.
+CREATE OR REPLACE FUNCTION public.restore_backup_rows(p_table text, p_rows jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_columns text;
+  v_updates text;
+  v_count integer;
+BEGIN
+  IF to_regclass(format('public.%I', p_table)) IS NULL THEN
+    RAISE EXCEPTION 'Unknown table: %', p_table;
+  END IF;
+
+  SELECT
+    string_agg(format('%I', c.column_name), ', ' ORDER BY c.ordinal_position),
+    string_agg(format('%I = EXCLUDED.%I', c.column_name, c.column_name), ', ' ORDER BY c.ordinal_position)
+      FILTER (WHERE c.column_name <> 'id')
+  INTO v_columns, v_updates
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public'
+    AND c.table_name = p_table
+    AND c.is_generated = 'NEVER'
+    AND c.column_name IN (
+      SELECT jsonb_object_keys(r) FROM jsonb_array_elements(p_rows) r
+    );
+
+  IF v_columns IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM set_config('crm.restore', 'on', true);
+
+  EXECUTE format(
+    'INSERT INTO public.%1$I (%2$s) SELECT %2$s FROM jsonb_populate_recordset(NULL::public.%1$I, $1) '
+    || 'ON CONFLICT (id) DO %3$s',
+    p_table,
+    v_columns,
+    CASE WHEN v_updates IS NULL THEN 'NOTHING' ELSE 'UPDATE SET ' || v_updates END
+  ) USING p_rows;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  PERFORM set_config('crm.restore', 'off', true);
+
+  RETURN v_count;
+END;
+$$;
+
+-- Only restore-backup (service role) restores rows
+REVOKE EXECUTE ON FUNCTION public.restore_backup_rows(text, jsonb) FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS enforce_deal_approval_workflows ON public.deals;
+CREATE TRIGGER enforce_deal_approval_workflows
+  BEFORE INSERT OR UPDATE ON public.deals
+  FOR EACH ROW
+  WHEN (current_setting('crm.restore', true) IS DISTINCT FROM 'on')
+  EXECUTE FUNCTION public.enforce_approval_workflows();
+
+DROP TRIGGER IF EXISTS enforce_lead_approval_workflows ON public.leads;
+CREATE TRIGGER enforce_lead_approval_workflows
+  BEFORE INSERT OR UPDATE ON public.leads
+  FOR EACH ROW
+  WHEN (current_setting('crm.restore', true) IS DISTINCT FROM 'on')
+  EXECUTE FUNCTION public.enforce_approval_workflows();
+
+DROP TRIGGER IF EXISTS enforce_account_approval_workflows ON public.accounts;
+CREATE TRIGGER enforce_account_approval_workflows
+  BEFORE INSERT OR UPDATE ON public.accounts
+  FOR EACH ROW
+  WHEN (current_setting('crm.restore', true) IS DISTINCT FROM 'on')
+  EXECUTE FUNCTION public.enforce_approval_workflows();
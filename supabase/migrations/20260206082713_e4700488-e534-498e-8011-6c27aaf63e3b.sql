@@ -0,0 +1,69 @@
+-- Exchange rates are resolved only in the database, and amounts in a currency without a rate are
+-- left out of converted totals.
+
+-- The single definition of which exchange rate applies: for each currency, the periods during which it
+-- converts to p_to (the reporting currency by default) at a fixed rate. A rate entered for the pair wins
+-- over the inverse of one entered the other way round. The earliest rate also covers the dates before it
+-- (valid_from NULL) and the latest stays in effect (valid_to NULL). convert_currency, the app and the
+-- edge functions all convert through these periods.
+CREATE OR REPLACE FUNCTION public.currency_rate_periods(p_to TEXT DEFAULT NULL)
+RETURNS TABLE (currency TEXT, rate NUMERIC, valid_from DATE, valid_to DATE)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH target AS (
+    SELECT COALESCE(p_to, (SELECT reporting_currency FROM public.currency_settings LIMIT 1), 'EUR') AS code
+  ),
+  candidates AS (
+    SELECT r.from_currency AS currency, r.rate, r.effective_date
+    FROM public.exchange_rates r, target t
+    WHERE r.to_currency = t.code
+    UNION ALL
+    SELECT r.to_currency, 1 / r.rate, r.effective_date
+    FROM public.exchange_rates r, target t
+    WHERE r.from_currency = t.code
+      AND NOT EXISTS (
+        SELECT 1 FROM public.exchange_rates d
+        WHERE d.from_currency = r.to_currency AND d.to_currency = t.code
+      )
+  )
+  SELECT
+    currency,
+    rate,
+    CASE WHEN row_number() OVER w > 1 THEN effective_date END,
+    lead(effective_date) OVER w
+  FROM candidates
+  WINDOW w AS (PARTITION BY currency ORDER BY effective_date);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.currency_rate_periods(TEXT) TO authenticated;
+
+-- Converts an amount at the rate in effect on p_on. Returns NULL when there is no rate for the
+-- currency, so sums leave the amount out instead of adding it in the wrong currency.
+CREATE OR REPLACE FUNCTION public.convert_currency(
+  p_amount NUMERIC,
+  p_from TEXT,
+  p_to TEXT,
+  p_on DATE DEFAULT CURRENT_DATE
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_amount IS NULL THEN NULL
+    WHEN p_from IS NULL OR p_to IS NULL OR p_from = p_to THEN p_amount
+    ELSE (
+      SELECT p_amount * p.rate
+      FROM public.currency_rate_periods(p_to) p
+      WHERE p.currency = p_from
+        AND (p.valid_from IS NULL OR p.valid_from <= COALESCE(p_on, CURRENT_DATE))
+        AND (p.valid_to IS NULL OR COALESCE(p_on, CURRENT_DATE) < p.valid_to)
+    )
+  END;
+$$;
+
+-- Account revenue totals included deals without a rate unconverted; recompute them without those deals
+SELECT public.update_account_stats(id) FROM public.accounts;
@@ -0,0 +1,88 @@
+-- next_task_due_date takes the task_recurrence enum, and monthly and yearly series stay on the day
+-- they started on instead of drifting to the end of the shortest month they passed through.
+
+DROP FUNCTION IF EXISTS public.next_task_due_date(TEXT, DATE);
+
+-- Next due date after p_from. Month and year steps count from p_anchor, the series' first due date,
+-- so a series on the 31st clamps to the last day of shorter months and returns to the 31st after them.
+-- Mirrors getNextOccurrenceDate in src/utils/taskRecurrence.ts.
+CREATE OR REPLACE FUNCTION public.next_task_due_date(
+  p_recurrence public.task_recurrence,
+  p_from DATE,
+  p_anchor DATE DEFAULT NULL
+)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE p_recurrence
+    WHEN 'daily' THEN p_from + 1
+    WHEN 'weekly' THEN p_from + 7
+    WHEN 'monthly' THEN (
+      COALESCE(p_anchor, p_from)
+      + ((EXTRACT(YEAR FROM p_from) - EXTRACT(YEAR FROM COALESCE(p_anchor, p_from))) * 12
+         + EXTRACT(MONTH FROM p_from) - EXTRACT(MONTH FROM COALESCE(p_anchor, p_from)) + 1) * INTERVAL '1 month'
+    )::DATE
+    WHEN 'yearly' THEN (
+      COALESCE(p_anchor, p_from)
+      + (EXTRACT(YEAR FROM p_from) - EXTRACT(YEAR FROM COALESCE(p_anchor, p_from)) + 1) * INTERVAL '1 year'
+    )::DATE
+    ELSE NULL
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.spawn_next_task_occurrence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_series_id UUID := COALESCE(NEW.parent_task_id, NEW.id);
+  v_from DATE := COALESCE(NEW.due_date, NEW.completed_at::DATE, CURRENT_DATE);
+  v_anchor DATE;
+  v_next_due DATE;
+  v_next_id UUID;
+BEGIN
+  SELECT due_date INTO v_anchor FROM public.tasks WHERE id = v_series_id;
+  v_next_due := public.next_task_due_date(NEW.recurrence, v_from, v_anchor);
+
+  IF v_next_due IS NULL
+     OR (NEW.recurrence_end_date IS NOT NULL AND v_next_due > NEW.recurrence_end_date) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Re-completing a reopened occurrence must not create a second copy of the next one
+  IF EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE (id = v_series_id OR parent_task_id = v_series_id)
+      AND id <> NEW.id
+      AND due_date >= v_next_due
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.tasks (
+    title, description, status, priority, due_date, due_time, reminder_date,
+    assigned_to, created_by, module_type,
+    lead_id, contact_id, deal_id, account_id, meeting_id,
+    tags, category, recurrence, recurrence_end_date, parent_task_id
+  )
+  VALUES (
+    NEW.title, NEW.description, 'open', NEW.priority, v_next_due, NEW.due_time,
+    NEW.reminder_date + (v_next_due - v_from) * INTERVAL '1 day',
+    NEW.assigned_to, NEW.created_by, NEW.module_type,
+    NEW.lead_id, NEW.contact_id, NEW.deal_id, NEW.account_id, NEW.meeting_id,
+    NEW.tags, NEW.category, NEW.recurrence, NEW.recurrence_end_date, v_series_id
+  )
+  RETURNING id INTO v_next_id;
+
+  INSERT INTO public.task_subtasks (task_id, title, is_completed, order_index)
+  SELECT v_next_id, title, false, order_index
+  FROM public.task_subtasks
+  WHERE task_id = NEW.id;
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,2 @@
+-- Only the reschedule trigger and update-teams-meeting (service role) re-arm reminders
+REVOKE EXECUTE ON FUNCTION public.rearm_meeting_reminders(UUID) FROM PUBLIC, anon, authenticated;
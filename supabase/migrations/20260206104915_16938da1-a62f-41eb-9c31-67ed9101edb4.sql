@@ -0,0 +1,17 @@
+-- Mailboxes that sent through Graph since p_since, which process-inbound-email polls when no
+-- mailboxes are configured. Distinct in the database so the result stays small however much was sent.
+CREATE OR REPLACE FUNCTION public.get_active_sender_mailboxes(p_since TIMESTAMPTZ)
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT lower(sender_email)
+  FROM public.email_history
+  WHERE transport = 'graph'
+    AND sent_at >= p_since;
+$$;
+
+-- Only process-inbound-email (service role) lists sender mailboxes
+REVOKE EXECUTE ON FUNCTION public.get_active_sender_mailboxes(TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,9 @@
+-- process-inbound-email records each inbound message once with ON CONFLICT (message_id), which a
+-- partial unique index can't serve. A plain unique constraint still allows any number of messages
+-- without a Message-ID.
+DROP INDEX IF EXISTS public.idx_inbound_emails_message_id;
+
+ALTER TABLE public.inbound_emails
+  DROP CONSTRAINT IF EXISTS inbound_emails_message_id_key;
+ALTER TABLE public.inbound_emails
+  ADD CONSTRAINT inbound_emails_message_id_key UNIQUE (message_id);
@@ -0,0 +1,35 @@
+-- An email's status only moves forward (sent, delivered, opened, clicked, replied). A click on a
+-- replied or bounced email still counts, but no longer turns it back into "clicked".
+
+CREATE OR REPLACE FUNCTION public.record_email_link_click(p_link_id uuid)
+RETURNS TABLE (url text, email_history_id uuid, first_click boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link public.email_links%ROWTYPE;
+  v_previous_clicks integer;
+BEGIN
+  UPDATE public.email_links
+  SET click_count = click_count + 1,
+      first_clicked_at = COALESCE(first_clicked_at, now()),
+      last_clicked_at = now()
+  WHERE id = p_link_id
+  RETURNING * INTO v_link;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.email_history eh
+  SET click_count = COALESCE(eh.click_count, 0) + 1,
+      clicked_at = COALESCE(eh.clicked_at, now()),
+      status = CASE WHEN eh.status IN ('replied', 'bounced') THEN eh.status ELSE 'clicked' END
+  WHERE eh.id = v_link.email_history_id
+  RETURNING eh.click_count - 1 INTO v_previous_clicks;
+
+  RETURN QUERY SELECT v_link.url, v_link.email_history_id, COALESCE(v_previous_clicks, 0) = 0;
+END;
+$$;
+
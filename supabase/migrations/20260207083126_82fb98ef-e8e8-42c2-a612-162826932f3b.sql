@@ -0,0 +1,91 @@
+-- Only admins and the service role recalculate scores, and a refresh that leaves a score unchanged
+-- no longer writes the record. recalculate_scores can also rescore a single record.
+
+DROP FUNCTION IF EXISTS public.recalculate_scores(text, text);
+
+-- Stores a record's current score and records the change in score_history. Records already scored
+-- at the same value aren't written, so a refresh doesn't touch their updated_at.
+CREATE OR REPLACE FUNCTION public.refresh_score(p_entity_type text, p_entity_id uuid, p_reason text DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb := public.calculate_score(p_entity_type, p_entity_id);
+  v_score integer;
+  v_previous integer;
+  v_scored boolean;
+BEGIN
+  IF v_result IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_score := (v_result->>'score')::integer;
+  EXECUTE format('SELECT score, score_updated_at IS NOT NULL FROM public.%I WHERE id = $1', p_entity_type)
+    INTO v_previous, v_scored USING p_entity_id;
+
+  IF v_scored AND v_score IS NOT DISTINCT FROM v_previous THEN
+    RETURN v_score;
+  END IF;
+
+  PERFORM set_config('crm.system_update', 'on', true);
+  EXECUTE format(
+    'UPDATE public.%I SET score = $1, score_breakdown = $2, score_updated_at = now() WHERE id = $3',
+    p_entity_type
+  ) USING v_score, v_result->'breakdown', p_entity_id;
+  PERFORM set_config('crm.system_update', 'off', true);
+
+  IF v_score IS DISTINCT FROM v_previous THEN
+    INSERT INTO public.score_history (entity_type, entity_id, score, previous_score, breakdown, reason)
+    VALUES (p_entity_type, p_entity_id, v_score, v_previous, v_result->'breakdown', p_reason);
+  END IF;
+
+  RETURN v_score;
+END;
+$$;
+
+-- Rescores every record of one type (all types when NULL), or just p_entity_id, after rule changes
+-- and nightly for decay. Returns how many scores changed.
+CREATE OR REPLACE FUNCTION public.recalculate_scores(
+  p_entity_type text DEFAULT NULL,
+  p_reason text DEFAULT 'Scoring rules changed',
+  p_entity_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entity_type text;
+  v_record record;
+  v_changed integer := 0;
+BEGIN
+  -- Callers with a JWT must be the service role or an admin; the nightly job runs without one
+  IF auth.role() IS NOT NULL AND auth.role() <> 'service_role' AND NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can recalculate scores' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  FOREACH v_entity_type IN ARRAY ARRAY['leads', 'accounts', 'contacts'] LOOP
+    CONTINUE WHEN p_entity_type IS NOT NULL AND p_entity_type <> v_entity_type;
+
+    FOR v_record IN EXECUTE format('SELECT id, score FROM public.%I WHERE $1 IS NULL OR id = $1', v_entity_type)
+      USING p_entity_id
+    LOOP
+      IF public.refresh_score(v_entity_type, v_record.id, p_reason) IS DISTINCT FROM v_record.score THEN
+        v_changed := v_changed + 1;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_changed;
+END;
+$$;
+
+-- Scores are only written by the functions above, the change triggers and the nightly job. Admins
+-- recalculate from the app through recalculate_scores, which turns other signed-in users away.
+REVOKE EXECUTE ON FUNCTION public.calculate_score(text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_score(text, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.recalculate_scores(text, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.recalculate_scores(text, text, uuid) TO authenticated, service_role;
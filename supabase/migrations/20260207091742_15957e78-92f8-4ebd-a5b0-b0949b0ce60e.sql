@@ -0,0 +1,16 @@
+-- Restored leads come back with the owner and rule they were backed up with. They were logged, and
+-- their owners notified, when they were first routed, so backup restores (crm.restore, set by
+-- restore_backup_rows) skip routing and assignment logging.
+DROP TRIGGER IF EXISTS route_new_lead_trigger ON public.leads;
+CREATE TRIGGER route_new_lead_trigger
+  BEFORE INSERT ON public.leads
+  FOR EACH ROW
+  WHEN (current_setting('crm.restore', true) IS DISTINCT FROM 'on')
+  EXECUTE FUNCTION public.route_new_lead();
+
+DROP TRIGGER IF EXISTS log_lead_assignment_trigger ON public.leads;
+CREATE TRIGGER log_lead_assignment_trigger
+  AFTER INSERT ON public.leads
+  FOR EACH ROW
+  WHEN (NEW.assignment_rule_id IS NOT NULL AND current_setting('crm.restore', true) IS DISTINCT FROM 'on')
+  EXECUTE FUNCTION public.log_lead_assignment();
@@ -0,0 +1,183 @@
+-- Lead conversion in one call
+-- complete_lead_conversion now creates the converted lead's account, contact and deal itself instead of
+-- finishing a conversion the client started, so a failure anywhere leaves nothing behind.
+DROP FUNCTION IF EXISTS public.complete_lead_conversion(uuid, uuid, uuid, uuid, boolean, boolean, text);
+
+-- Converts a lead in one transaction: links or creates its account, links or creates its contact, creates
+-- the deal, moves the lead's action items to the deal and its meetings and emails to the contact, links the
+-- lead to the account, marks it converted and records the conversion. A failure anywhere leaves nothing
+-- behind, so a retry can't create duplicates.
+-- p_account_id / p_contact_id link existing records; otherwise p_new_account / p_new_contact hold the values
+-- entered for the new ones. p_deal holds the deal form's values.
+-- Meetings and emails are often owned by other users, hence SECURITY DEFINER with explicit checks.
+CREATE FUNCTION public.complete_lead_conversion(
+  p_lead_id uuid,
+  p_deal jsonb,
+  p_account_id uuid DEFAULT NULL,
+  p_new_account jsonb DEFAULT NULL,
+  p_contact_id uuid DEFAULT NULL,
+  p_new_contact jsonb DEFAULT NULL,
+  p_lead_status text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lead public.leads%ROWTYPE;
+  v_deal public.deals%ROWTYPE;
+  v_account_id uuid := p_account_id;
+  v_account_name text;
+  v_contact_id uuid := p_contact_id;
+  v_owner uuid;
+  v_action_items integer;
+  v_meetings integer;
+  v_emails integer;
+BEGIN
+  SELECT * INTO v_lead FROM public.leads WHERE id = p_lead_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lead not found';
+  END IF;
+
+  IF auth.uid() IS NULL
+     OR NOT (is_user_admin() OR v_lead.created_by = auth.uid() OR v_lead.contact_owner = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the lead''s owner or an admin can convert it' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.lead_conversions WHERE lead_id = p_lead_id) THEN
+    RAISE EXCEPTION 'Lead "%" has already been converted', v_lead.lead_name USING ERRCODE = 'unique_violation';
+  END IF;
+
+  -- Every signed-in user can view every account and contact, so a linked record only has to exist
+  IF v_account_id IS NOT NULL THEN
+    SELECT company_name INTO v_account_name FROM public.accounts WHERE id = v_account_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Account not found';
+    END IF;
+  ELSIF NULLIF(btrim(p_new_account->>'company_name'), '') IS NULL THEN
+    RAISE EXCEPTION 'Choose an account or enter a company name for the new one';
+  END IF;
+
+  IF v_contact_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM public.contacts WHERE id = v_contact_id) THEN
+      RAISE EXCEPTION 'Contact not found';
+    END IF;
+  ELSIF NULLIF(btrim(p_new_contact->>'contact_name'), '') IS NULL THEN
+    RAISE EXCEPTION 'Choose a contact or enter a name for the new one';
+  END IF;
+
+  v_owner := COALESCE(v_lead.contact_owner, auth.uid());
+
+  IF v_account_id IS NULL THEN
+    INSERT INTO public.accounts (
+      company_name, industry, country, website, status, segment, account_owner, created_by, modified_by
+    )
+    VALUES (
+      btrim(p_new_account->>'company_name'),
+      NULLIF(p_new_account->>'industry', ''),
+      NULLIF(p_new_account->>'country', ''),
+      NULLIF(p_new_account->>'website', ''),
+      'New', 'prospect', v_owner, auth.uid(), auth.uid()
+    )
+    RETURNING id, company_name INTO v_account_id, v_account_name;
+  END IF;
+
+  IF v_contact_id IS NULL THEN
+    INSERT INTO public.contacts (
+      contact_name, account_id, company_name, email, phone_no, position, linkedin,
+      website, contact_source, industry, description, contact_owner, created_by, modified_by
+    )
+    VALUES (
+      btrim(p_new_contact->>'contact_name'), v_account_id, v_account_name,
+      NULLIF(p_new_contact->>'email', ''),
+      NULLIF(p_new_contact->>'phone_no', ''),
+      NULLIF(p_new_contact->>'position', ''),
+      NULLIF(p_new_contact->>'linkedin', ''),
+      v_lead.website, v_lead.contact_source, v_lead.industry, v_lead.description,
+      v_owner, auth.uid(), auth.uid()
+    )
+    RETURNING id INTO v_contact_id;
+  END IF;
+
+  -- Approval workflows on deals apply to the new deal as to any other
+  INSERT INTO public.deals (
+    deal_name, stage, project_name, customer_name, lead_name, lead_owner, region, priority,
+    currency_type, quarterly_revenue_q1, quarterly_revenue_q2, quarterly_revenue_q3, quarterly_revenue_q4,
+    account_id, contact_id, lead_id, created_by
+  )
+  VALUES (
+    COALESCE(NULLIF(p_deal->>'deal_name', ''), 'Deal for ' || v_lead.lead_name),
+    p_deal->>'stage',
+    COALESCE(p_deal->>'project_name', ''),
+    v_account_name,
+    COALESCE(NULLIF(p_deal->>'lead_name', ''), v_lead.lead_name),
+    COALESCE(p_deal->>'lead_owner', ''),
+    COALESCE(NULLIF(p_deal->>'region', ''), v_lead.country, ''),
+    COALESCE((p_deal->>'priority')::integer, 3),
+    COALESCE(NULLIF(p_deal->>'currency_type', ''), 'EUR'),
+    COALESCE((p_deal->>'quarterly_revenue_q1')::numeric, 0),
+    COALESCE((p_deal->>'quarterly_revenue_q2')::numeric, 0),
+    COALESCE((p_deal->>'quarterly_revenue_q3')::numeric, 0),
+    COALESCE((p_deal->>'quarterly_revenue_q4')::numeric, 0),
+    v_account_id, v_contact_id, p_lead_id, auth.uid()
+  )
+  RETURNING * INTO v_deal;
+
+  PERFORM set_config('crm.system_update', 'on', true);
+
+  WITH moved AS (
+    DELETE FROM public.lead_action_items
+    WHERE lead_id = p_lead_id
+    RETURNING next_action, status, due_date, assigned_to, created_by, created_at
+  )
+  INSERT INTO public.deal_action_items (deal_id, next_action, status, due_date, assigned_to, created_by, created_at)
+  SELECT v_deal.id, next_action, status, due_date, assigned_to, created_by, created_at
+  FROM moved;
+  GET DIAGNOSTICS v_action_items = ROW_COUNT;
+
+  UPDATE public.meetings
+  SET contact_id = COALESCE(contact_id, v_contact_id), lead_id = NULL
+  WHERE lead_id = p_lead_id;
+  GET DIAGNOSTICS v_meetings = ROW_COUNT;
+
+  UPDATE public.email_history
+  SET contact_id = COALESCE(contact_id, v_contact_id),
+      account_id = COALESCE(account_id, v_account_id),
+      lead_id = NULL
+  WHERE lead_id = p_lead_id;
+  GET DIAGNOSTICS v_emails = ROW_COUNT;
+
+  PERFORM set_config('crm.system_update', 'off', true);
+
+  -- A guarded converted status is held for approval like any other status change
+  UPDATE public.leads
+  SET account_id = v_account_id,
+      lead_status = COALESCE(p_lead_status, lead_status),
+      modified_by = auth.uid(),
+      modified_time = now()
+  WHERE id = p_lead_id
+  RETURNING * INTO v_lead;
+
+  INSERT INTO public.lead_conversions (
+    lead_id, account_id, contact_id, deal_id, account_created, contact_created,
+    action_items_moved, meetings_moved, emails_moved, converted_by
+  )
+  VALUES (
+    p_lead_id, v_account_id, v_contact_id, v_deal.id, p_account_id IS NULL, p_contact_id IS NULL,
+    v_action_items, v_meetings, v_emails, auth.uid()
+  );
+
+  RETURN jsonb_build_object(
+    'deal', to_jsonb(v_deal),
+    'account_id', v_account_id,
+    'contact_id', v_contact_id,
+    'lead_status', v_lead.lead_status,
+    'action_items_moved', v_action_items,
+    'meetings_moved', v_meetings,
+    'emails_moved', v_emails
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_lead_conversion(uuid, jsonb, uuid, jsonb, uuid, jsonb, text) FROM PUBLIC, anon;